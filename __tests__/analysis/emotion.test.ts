@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Emotion timeline (text + voice features)
+// ============================================
+
+import { buildEmotionTimeline, estimateAnswerEmotion } from '@/lib/analysis/emotion';
+
+const STARTED_AT = '2026-01-01T00:00:00.000Z';
+
+describe('estimateAnswerEmotion', () => {
+  it('reads hedging as nervous and ownership as confident', () => {
+    const hedging = estimateAnswerEmotion('잘 모르겠지만 아마 그렇게 했던 것 같습니다. 죄송합니다.');
+    const assertive = estimateAnswerEmotion('제가 리팩토링을 주도했고 응답 시간을 40% 개선했습니다.');
+
+    expect(hedging.nervousness).toBeGreaterThan(assertive.nervousness);
+    expect(assertive.confidence).toBeGreaterThan(hedging.confidence);
+  });
+
+  it('raises nervousness for a shaky, filler-heavy delivery', () => {
+    const text = '프로젝트에서 캐시 계층을 설계하고 배포했습니다.';
+    const calm = estimateAnswerEmotion(text, { wpm: 140, filler_rate: 0, long_pauses: 0, leading_silence: 1 });
+    const shaky = estimateAnswerEmotion(text, {
+      wpm: 140,
+      filler_rate: 8,
+      long_pauses: 2,
+      leading_silence: 7,
+      jitter_percent: 4.5,
+    });
+
+    expect(shaky.nervousness).toBeGreaterThan(calm.nervousness);
+  });
+});
+
+describe('buildEmotionTimeline', () => {
+  it('creates one entry per answer keyed to seconds since the start', () => {
+    const { timeline, average_scores } = buildEmotionTimeline(
+      [
+        { id: 'q1', role: 'interviewer', content: '자기소개 해주세요.', created_at: '2026-01-01T00:00:05.000Z' },
+        { id: 'a1', role: 'user', content: '프론트엔드 개발자로 3년간 일했습니다.', created_at: '2026-01-01T00:01:00.000Z' },
+        { id: 'q2', role: 'interviewer', content: '가장 어려웠던 일은?', created_at: '2026-01-01T00:01:30.000Z' },
+        {
+          id: 'a2',
+          role: 'user',
+          content: '배포 장애를 해결했습니다.',
+          created_at: '2026-01-01T00:03:00.000Z',
+          voice_features: { wpm: 150, filler_rate: 2, long_pauses: 1, leading_silence: 2 },
+        },
+      ],
+      STARTED_AT
+    );
+
+    expect(timeline.map(entry => [entry.message_id, entry.timestamp, entry.source])).toEqual([
+      ['a1', 60, 'text'],
+      ['a2', 180, 'voice'],
+    ]);
+    expect(average_scores.confidence).toBe(
+      Math.round((timeline[0].confidence + timeline[1].confidence) / 2)
+    );
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Acoustic prosody (synthetic voices)
+// ============================================
+
+import { analyzeProsody } from '@/lib/analysis/prosody';
+import { analyzeVoice, generateVoiceFeedback } from '@/lib/analysis/voice';
+import { REALTIME_SAMPLE_RATE } from '@/lib/realtime/pcm';
+import { FAKE_TRANSCRIPT, FAKE_TRANSCRIPTION_WORDS } from '@/lib/testing/fixtures';
+
+// Phase-accumulated tone whose pitch/amplitude follow the given functions of time
+function voice(
+  seconds: number,
+  pitchAt: (t: number) => number,
+  amplitudeAt: (t: number) => number = () => 0.3
+): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * REALTIME_SAMPLE_RATE));
+  let phase = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / REALTIME_SAMPLE_RATE;
+    phase += (2 * Math.PI * pitchAt(t)) / REALTIME_SAMPLE_RATE;
+    samples[i] = Math.round(amplitudeAt(t) * 32767 * Math.sin(phase));
+  }
+
+  return samples;
+}
+
+describe('analyzeProsody', () => {
+  it('measures the pitch of a steady voice and flags it as monotone', () => {
+    const prosody = analyzeProsody(voice(2, () => 150), REALTIME_SAMPLE_RATE)!;
+
+    expect(prosody.pitchMeanHz).toBeGreaterThan(147);
+    expect(prosody.pitchMeanHz).toBeLessThan(153);
+    expect(prosody.pitchVariabilitySemitones).toBeLessThan(0.5);
+    expect(prosody.jitterPercent).toBeLessThan(1);
+    expect(prosody.loudnessMeanDb).toBeCloseTo(20 * Math.log10(0.3 / Math.SQRT2), 0);
+
+    const analysis = analyzeVoice(FAKE_TRANSCRIPT, FAKE_TRANSCRIPTION_WORDS, 7.1, { prosody });
+    expect(analysis.confidence.factors.pitchVariation).toBeLessThan(50);
+    expect(generateVoiceFeedback(analysis)).toContain(
+      '억양 변화가 적어 단조롭게 들립니다. 핵심 단어에 힘을 주어 강조해보세요.'
+    );
+  });
+
+  it('sees intonation as pitch variation', () => {
+    // Rising and falling between ~120 and ~240 Hz
+    const prosody = analyzeProsody(voice(3, t => 170 + 60 * Math.sin(2 * Math.PI * 0.5 * t)), REALTIME_SAMPLE_RATE)!;
+
+    expect(prosody.pitchVariabilitySemitones).toBeGreaterThan(2);
+    expect(prosody.pitchContour.length).toBeGreaterThan(10);
+  });
+
+  it('reports higher jitter and shimmer for a trembling voice', () => {
+    const steady = analyzeProsody(voice(2, () => 150), REALTIME_SAMPLE_RATE)!;
+    const trembling = analyzeProsody(
+      voice(2, t => 150 + 12 * Math.sin(2 * Math.PI * 9 * t), t => 0.3 + 0.12 * Math.sin(2 * Math.PI * 11 * t)),
+      REALTIME_SAMPLE_RATE
+    )!;
+
+    expect(trembling.jitterPercent).toBeGreaterThan(steady.jitterPercent + 1);
+    expect(trembling.shimmerPercent).toBeGreaterThan(steady.shimmerPercent + 5);
+  });
+
+  it('returns null without voiced speech', () => {
+    expect(analyzeProsody(new Int16Array(REALTIME_SAMPLE_RATE), REALTIME_SAMPLE_RATE)).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Rubric calibration
+// ============================================
+// Agreement metrics on hand-computed cases, then a full offline run of the
+// gold set against the canned final evaluation (AI_PROVIDER=fake), checked
+// against the request the end route sends for the same conversation.
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import { POST as endInterview } from '@/app/api/interview/end/route';
+import { llmRouter, type CompletionRequest } from '@/lib/llm/router';
+import { TEST_USER } from '@/lib/testing/supabase';
+import { GOLD_TRANSCRIPTS } from '@/lib/calibration/gold';
+import { cohensKappa, buildPassConfusion } from '@/lib/calibration/metrics';
+import { runCalibration, compareCalibrationReports, getCalibrationPromptVersion } from '@/lib/calibration/runner';
+import { calculateTotalScore, determinePassStatus } from '@/lib/llm/prompts/scoring-rubric';
+
+describe('calibration metrics', () => {
+  it('computes plain and weighted kappa', () => {
+    expect(cohensKappa([1, 2, 3], [1, 2, 3], [1, 2, 3])).toBe(1);
+    // Constant predictions carry no information beyond chance
+    expect(cohensKappa([1, 2, 3], [2, 2, 2], [1, 2, 3])).toBe(0);
+    expect(cohensKappa(['a', 'a', 'b', 'b'], ['a', 'b', 'b', 'b'], ['a', 'b'])).toBe(0.5);
+
+    // Off by one costs less than off by two under quadratic weights
+    const quadratic = (a: number, b: number) => ((a - b) / 4) ** 2;
+    const nearMiss = cohensKappa([1, 3, 5, 3], [2, 3, 4, 3], [1, 2, 3, 4, 5], quadratic);
+    const farMiss = cohensKappa([1, 3, 5, 3], [3, 3, 3, 3], [1, 2, 3, 4, 5], quadratic);
+    expect(nearMiss).toBeGreaterThan(farMiss);
+  });
+
+  it('counts verdicts by gold row and predicted column', () => {
+    const matrix = buildPassConfusion([
+      { gold: 'pass', predicted: 'pass' },
+      { gold: 'pass', predicted: 'borderline' },
+      { gold: 'fail', predicted: 'borderline' },
+    ]);
+    expect(matrix.pass).toEqual({ pass: 1, borderline: 1, fail: 0 });
+    expect(matrix.fail).toEqual({ pass: 0, borderline: 1, fail: 0 });
+  });
+});
+
+describe('gold set', () => {
+  it('labels every transcript with a verdict its scores support', () => {
+    expect(new Set(GOLD_TRANSCRIPTS.map(transcript => transcript.id)).size).toBe(GOLD_TRANSCRIPTS.length);
+    for (const { labels } of GOLD_TRANSCRIPTS) {
+      expect(determinePassStatus(calculateTotalScore(labels.scores))).toBe(labels.pass_status);
+    }
+    expect(new Set(GOLD_TRANSCRIPTS.map(transcript => transcript.labels.pass_status))).toEqual(
+      new Set(['pass', 'borderline', 'fail'])
+    );
+  });
+});
+
+describe('calibration run', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'fake' };
+    delete process.env.OPENAI_API_KEY;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('scores the gold set offline and reports agreement', async () => {
+    const report = await runCalibration();
+
+    expect(report.prompt_version).toBe(getCalibrationPromptVersion());
+    expect(report.prompt_version).toMatch(/^[0-9a-f]{12}$/);
+    expect(report.provider).toBe('fake');
+    expect(report.failed).toEqual([]);
+
+    // The canned evaluation is 4/4/3/3/4 (66, borderline) for every transcript
+    expect(report.results.every(result => result.predicted?.total === 66)).toBe(true);
+    expect(report.metrics.transcripts).toBe(GOLD_TRANSCRIPTS.length);
+    expect(report.metrics.categories.logical_structure).toMatchObject({ mae: 1, exact: 0.33, kappa: 0 });
+    expect(report.metrics.pass_confusion).toEqual({
+      pass: { pass: 0, borderline: 2, fail: 0 },
+      borderline: { pass: 0, borderline: 2, fail: 0 },
+      fail: { pass: 0, borderline: 2, fail: 0 },
+    });
+    expect(report.metrics.pass_accuracy).toBe(0.33);
+  });
+
+  it('sends the evaluation request the end route sends', async () => {
+    const gold = GOLD_TRANSCRIPTS[0];
+    const complete = llmRouter.complete.bind(llmRouter);
+    const completeSpy = jest.spyOn(llmRouter, 'complete').mockImplementation(async (request: CompletionRequest) => {
+      // Unscored answers keep the prompt free of per-answer scorecards, as in calibration
+      if (request.operation === 'answer_scoring') throw new Error('timeout');
+      return complete(request);
+    });
+
+    await runCalibration({ transcripts: [gold] });
+
+    // The same conversation ended as a standard interview
+    process.env = { ...process.env, ...ROUTE_TEST_ENV };
+    mockSupabase.reset();
+    mockSupabase.tables.interview_sessions = [{
+      id: 's1',
+      user_id: TEST_USER.id,
+      job_type: gold.job_type,
+      difficulty: 'medium',
+      interview_mode: 'standard',
+      status: 'active',
+      timer_config: { language: 'ko' },
+      created_at: '2026-01-05T00:00:00.000Z',
+    }];
+    mockSupabase.tables.messages = gold.turns.map((turn, index) => ({
+      id: `m${index}`,
+      session_id: 's1',
+      ...turn,
+      created_at: new Date(Date.UTC(2026, 0, 5, 0, 0, index)).toISOString(),
+    }));
+    await endInterview(post('/api/interview/end', { session_id: 's1' }));
+
+    const request = (operation: string) => {
+      const [call] = completeSpy.mock.calls.map(([sent]) => sent).filter(sent => sent.operation === operation);
+      return { messages: call.messages, jsonSchema: call.jsonSchema, maxTokens: call.maxTokens, temperature: call.temperature };
+    };
+    expect(request('calibration')).toEqual(request('evaluation'));
+  });
+
+  it('leaves transcripts the evaluator fails on out of the metrics', async () => {
+    jest.spyOn(llmRouter, 'complete').mockRejectedValueOnce(new Error('timeout'));
+    const report = await runCalibration({ transcripts: GOLD_TRANSCRIPTS.slice(0, 3) });
+
+    expect(report.failed).toEqual([GOLD_TRANSCRIPTS[0].id]);
+    expect(report.results[0]).toMatchObject({ predicted: null, error: 'timeout' });
+    expect(report.metrics.transcripts).toBe(2);
+  });
+
+  it('compares a run with a baseline', async () => {
+    const baseline = await runCalibration();
+    const current = {
+      ...baseline,
+      prompt_version: 'changed',
+      metrics: { ...baseline.metrics, mae: baseline.metrics.mae - 0.25, pass_accuracy: 1 },
+    };
+
+    const comparison = compareCalibrationReports(baseline, current);
+    expect(comparison.same_prompt).toBe(false);
+    expect(comparison.mae).toBe(-0.25);
+    expect(comparison.pass_accuracy).toBe(0.67);
+    expect(comparison.categories.job_expertise).toEqual({ mae: 0, weighted_kappa: 0 });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Case interview: exhibit reveal, framework tracking, context, rubric
+// ============================================
+
+import { getCaseProblem, toPublicCase } from '@/lib/case/cases';
+import { matchRequestedExhibits, trackCaseProgress, emptyCaseState } from '@/lib/case/tracker';
+import { formatCaseContext } from '@/lib/case/context';
+import { calculateTotalScore, MODE_EVALUATION_CATEGORIES } from '@/lib/llm/prompts/scoring-rubric';
+
+const problem = getCaseProblem('subscription_revenue_decline')!;
+
+describe('exhibit reveal', () => {
+  it('shows only the initial exhibits until data is requested', () => {
+    expect(toPublicCase(problem).exhibits.map(exhibit => exhibit.id)).toEqual(['monthly_revenue']);
+    expect(toPublicCase(problem, ['churn_reasons']).exhibits.map(exhibit => exhibit.id))
+      .toEqual(['monthly_revenue', 'churn_reasons']);
+    expect(toPublicCase(problem)).not.toHaveProperty('expected_insights');
+  });
+
+  it('matches requested data by keyword, skipping what is already shown', () => {
+    const answer = '매출을 구독자 수와 ARPU로 나눠보고 싶습니다. 구독자 유입과 해지 데이터를 볼 수 있을까요?';
+
+    expect(matchRequestedExhibits(problem, answer)).toEqual(['subscriber_flow', 'arpu']);
+    expect(matchRequestedExhibits(problem, answer, ['subscriber_flow'])).toEqual(['arpu']);
+    expect(matchRequestedExhibits(problem, '경기가 안 좋아서 그렇습니다.')).toEqual([]);
+  });
+});
+
+describe('trackCaseProgress', () => {
+  const originalProvider = process.env.AI_PROVIDER;
+  beforeAll(() => { process.env.AI_PROVIDER = 'fake'; });
+  afterAll(() => { process.env.AI_PROVIDER = originalProvider; });
+
+  it('records the framework from the tracker and keeps revealed exhibits', async () => {
+    const previous = { ...emptyCaseState(problem), revealed_exhibit_ids: ['subscriber_flow'] };
+    const state = await trackCaseProgress(problem, previous, [], '신규 유입과 기존 고객 이탈로 나눠서 보겠습니다.');
+
+    expect(state.case_id).toBe(problem.id);
+    expect(state.framework.map(branch => branch.status)).toEqual(['explored', 'proposed']);
+    expect(state.revealed_exhibit_ids).toEqual(['subscriber_flow']);
+  });
+});
+
+describe('formatCaseContext', () => {
+  it('withholds numbers that have not been requested', () => {
+    const state = { ...emptyCaseState(problem), revealed_exhibit_ids: ['subscriber_flow'] };
+    const context = formatCaseContext(problem, state, [problem.exhibits[1]]);
+
+    expect(context).toContain('새로 공개된 자료');
+    expect(context).toContain('44,000');
+    expect(context).toContain('- 해지 사유 설문 (10-12월)');
+    expect(context).not.toContain('듣고 싶은 곡이 없음');
+    expect(context).toContain('아직 제시된 프레임워크가 없습니다');
+  });
+});
+
+describe('case rubric', () => {
+  it('adds the case axes to the total score', () => {
+    const core = { logical_structure: 3, job_expertise: 3, attitude_communication: 3, company_fit: 3, growth_potential: 3 } as const;
+
+    expect(MODE_EVALUATION_CATEGORIES.case).toEqual(['structuring', 'quantitative_reasoning', 'synthesis']);
+    expect(calculateTotalScore(core, { structuring: 5, quantitative_reasoning: 5, synthesis: 5 })).toBe(73);
+  });
+});
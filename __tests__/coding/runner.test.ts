@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Coding interview: sandboxed runner, edit history, coding score
+// ============================================
+
+import { getCodingProblem } from '@/lib/coding/problems';
+import { runCode } from '@/lib/coding/runner';
+import { diffEdit, replayEdits, summarizeEditHistory } from '@/lib/coding/history';
+import { calculateCodingScore } from '@/lib/coding/context';
+import type { CodeEditEvent } from '@/types/interview';
+
+const twoSum = getCodingProblem('two_sum')!;
+
+const CORRECT = `function twoSum(nums, target) {
+  const seen = new Map();
+  for (let i = 0; i < nums.length; i++) {
+    if (seen.has(target - nums[i])) return [seen.get(target - nums[i]), i];
+    seen.set(nums[i], i);
+  }
+}`;
+
+describe('runCode', () => {
+  it('runs examples and hidden tests, without revealing hidden data', async () => {
+    const result = await runCode(CORRECT, twoSum, { includeHidden: true });
+
+    expect(result.passed).toBe(result.total);
+    expect(result.total).toBe(twoSum.examples.length + twoSum.hidden_tests.length);
+
+    const hidden = result.cases.filter(testCase => testCase.hidden);
+    expect(hidden.length).toBe(twoSum.hidden_tests.length);
+    hidden.forEach(testCase => {
+      expect(testCase).not.toHaveProperty('input');
+      expect(testCase).not.toHaveProperty('expected');
+    });
+  });
+
+  it('times out infinite loops per test', async () => {
+    const result = await runCode('function twoSum() { while (true) {} }', twoSum, { testTimeoutMs: 100 });
+
+    expect(result.passed).toBe(0);
+    expect(result.cases[0].error).toContain('시간 초과');
+  });
+
+  it('has no access to the host process', async () => {
+    const escape = `function twoSum() {
+  const host = this.constructor.constructor('return process')();
+  return host.env;
+}`;
+    const result = await runCode(escape, twoSum);
+
+    expect(result.passed).toBe(0);
+    expect(result.cases[0].error).toBeDefined();
+  });
+});
+
+describe('edit history', () => {
+  it('replays recorded edits into the final source', () => {
+    const versions = ['', 'function f() {}', 'function f() {\n  return 1;\n}', 'function g() {\n  return 1;\n}'];
+    const events = versions
+      .slice(1)
+      .map((next, i) => diffEdit(versions[i], next, i * 1000))
+      .filter((event): event is CodeEditEvent => event !== null);
+
+    expect(replayEdits('', events)).toBe(versions[versions.length - 1]);
+  });
+
+  it('flags large pastes', () => {
+    const summary = summarizeEditHistory([
+      { at: 0, from: 0, to: 0, text: 'f' },
+      { at: 1000, from: 1, to: 1, text: CORRECT },
+    ]);
+
+    expect(summary.paste_count).toBe(1);
+    expect(summary.largest_paste_chars).toBe(CORRECT.length);
+  });
+});
+
+describe('calculateCodingScore', () => {
+  it('averages the test level with the interviewer judgement', () => {
+    const allPassed = { passed: 4, total: 4, pass_rate: 1, failed: [] };
+
+    expect(calculateCodingScore(allPassed)).toBe(5);
+    expect(calculateCodingScore(allPassed, 3)).toBe(4);
+    expect(calculateCodingScore(null)).toBe(1);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// System design interview: diagram validation, serialization, context
+// ============================================
+
+import { getDesignProblem } from '@/lib/design/problems';
+import { parseDesignDiagram, serializeDiagram, findDiagramObservations } from '@/lib/design/diagram';
+import { formatDesignContext } from '@/lib/design/context';
+import { calculateTotalScore, generateRubricDocument, MODE_EVALUATION_CATEGORIES } from '@/lib/llm/prompts/scoring-rubric';
+import type { DesignDiagram } from '@/types/interview';
+
+const problem = getDesignProblem('url_shortener')!;
+
+const DIAGRAM: DesignDiagram = {
+  problem_id: 'url_shortener',
+  nodes: [
+    { id: 'c', kind: 'client', label: '브라우저' },
+    { id: 'api', kind: 'service', label: 'API 서버' },
+    { id: 'db', kind: 'database', label: 'URL DB' },
+    { id: 'orphan', kind: 'queue', label: '클릭 로그 큐' },
+  ],
+  edges: [
+    { id: 'e1', from: 'c', to: 'api', label: 'GET /:code' },
+    { id: 'e2', from: 'api', to: 'db' },
+  ],
+};
+
+describe('parseDesignDiagram', () => {
+  it('rejects malformed nodes and drops dangling arrows', () => {
+    expect(parseDesignDiagram({ nodes: [{ id: 'x', kind: 'mainframe', label: 'X' }], edges: [] }, problem))
+      .toHaveProperty('error');
+
+    const parsed = parseDesignDiagram({
+      ...DIAGRAM,
+      edges: [...DIAGRAM.edges, { id: 'e3', from: 'api', to: 'deleted' }],
+    }, problem);
+
+    expect('diagram' in parsed && parsed.diagram.edges.map(edge => edge.id)).toEqual(['e1', 'e2']);
+  });
+});
+
+describe('serializeDiagram / observations', () => {
+  it('describes components and arrows by label', () => {
+    const text = serializeDiagram(DIAGRAM);
+
+    expect(text).toContain('[데이터베이스] URL DB');
+    expect(text).toContain('브라우저 → API 서버 (GET /:code)');
+  });
+
+  it('points out isolated components, unlabeled arrows and missing layers', () => {
+    const observations = findDiagramObservations(DIAGRAM).join('\n');
+
+    expect(observations).toContain('클릭 로그 큐');
+    expect(observations).toContain('설명 없는 연결 1개');
+    expect(observations).toContain('로드 밸런서 없음');
+    expect(observations).toContain('캐시 계층 없음');
+  });
+
+  it('puts the diagram into the interviewer prompt', () => {
+    expect(formatDesignContext(problem, DIAGRAM)).toContain('API 서버 → URL DB');
+    expect(formatDesignContext(problem)).toContain('아직 그려진 다이어그램이 없습니다');
+  });
+});
+
+describe('design rubric', () => {
+  it('adds the design axes to the rubric and total score', () => {
+    const modes = MODE_EVALUATION_CATEGORIES.system_design;
+    const core = { logical_structure: 3, job_expertise: 3, attitude_communication: 3, company_fit: 3, growth_potential: 3 } as const;
+
+    expect(generateRubricDocument(modes)).toContain('트레이드오프');
+    expect(calculateTotalScore(core)).toBe(50);
+    expect(calculateTotalScore(core, { scalability: 5, trade_offs: 5, design_communication: 5 })).toBe(73);
+  });
+});
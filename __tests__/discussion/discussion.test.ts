@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Group discussion: seating, floor control, contribution/listening, rubric
+// ============================================
+
+import { createDiscussionConfig, getDiscussionTopic } from '@/lib/discussion/topics';
+import { measureContribution, measureListening, selectNextSpeaker, type DiscussionUtterance } from '@/lib/discussion/floor';
+import { labelDiscussionMessage } from '@/lib/discussion/context';
+import { calculateContributionScore, calculateListeningScore } from '@/lib/discussion/score';
+import { calculateTotalScore, MODE_EVALUATION_CATEGORIES } from '@/lib/llm/prompts/scoring-rubric';
+import { DISCUSSION_MODERATOR, type DiscussionConfig } from '@/types/interview';
+
+const topic = getDiscussionTopic('four_day_week')!;
+const config: DiscussionConfig = {
+  topic_id: 'four_day_week',
+  candidate_stance: '찬성',
+  participants: [
+    { id: 'candidate_a', name: '김도윤', stance: '반대', mbti: 'ESTJ', emoji: '🧑' },
+    { id: 'candidate_b', name: '이서준', stance: '찬성', mbti: 'INFP', emoji: '👩' },
+    { id: 'candidate_c', name: '박하람', stance: '반대', mbti: 'ENTP', emoji: '🧑‍💻' },
+  ],
+};
+
+describe('discussion seating', () => {
+  it('seats opponents first and two co-candidates on easy', () => {
+    const easy = createDiscussionConfig(topic, 'easy', () => 0.1);
+    expect(easy.candidate_stance).toBe('찬성');
+    expect(easy.participants.map(p => [p.id, p.stance])).toEqual([['candidate_a', '반대'], ['candidate_b', '찬성']]);
+
+    const hard = createDiscussionConfig(topic, 'hard', () => 0.9);
+    expect(hard.candidate_stance).toBe('반대');
+    expect(hard.participants.map(p => p.stance)).toEqual(['찬성', '반대', '찬성']);
+    expect(new Set(hard.participants.map(p => p.name)).size).toBe(3);
+  });
+});
+
+describe('floor control', () => {
+  const opening: DiscussionUtterance = { speaker: DISCUSSION_MODERATOR, content: '논제를 소개합니다.' };
+
+  it('lets a named co-candidate grab the floor', () => {
+    const decision = selectNextSpeaker(
+      [opening, { speaker: 'user', content: '박하람 님은 업무 강도를 걱정하시겠지만 생산성은 유지됩니다.' }],
+      config, 1, 10, () => 0.9
+    );
+    expect(decision).toMatchObject({ speaker: 'candidate_c', reason: 'floor_grab' });
+  });
+
+  it('rebuts with the quietest opponent, or supports with an ally', () => {
+    const utterances: DiscussionUtterance[] = [
+      opening,
+      { speaker: 'user', content: '찬성합니다.' },
+      { speaker: 'candidate_a', content: '고객 대응에 공백이 생기고 같은 업무를 나흘에 몰아서 하면 업무 강도가 커지기 때문에 반대합니다.' },
+      { speaker: 'user', content: '생산성 자료가 있습니다.' },
+    ];
+    expect(selectNextSpeaker(utterances, config, 2, 10, () => 0.1)).toMatchObject({ speaker: 'candidate_c', reason: 'rebuttal' });
+    expect(selectNextSpeaker(utterances, config, 2, 10, () => 0.9)).toMatchObject({ speaker: 'candidate_b', reason: 'support' });
+  });
+
+  it('hands the floor to the moderator to steer, rein in and close', () => {
+    const steer: DiscussionUtterance[] = [
+      opening,
+      { speaker: 'user', content: '찬성합니다.' },
+      { speaker: 'candidate_a', content: '반대합니다.' },
+      { speaker: 'user', content: '근거가 있습니다.' },
+      { speaker: 'candidate_b', content: '동의합니다.' },
+      { speaker: 'user', content: '덧붙이면.' },
+      { speaker: 'candidate_c', content: '반대입니다.' },
+      { speaker: 'user', content: '다시 말씀드리면.' },
+    ];
+    expect(selectNextSpeaker(steer, config, 4, 10).reason).toBe('moderate');
+
+    const longAnswer = Array(60).fill('생산성').join(' ');
+    const dominated: DiscussionUtterance[] = [
+      opening,
+      { speaker: 'user', content: longAnswer },
+      { speaker: 'candidate_a', content: '반대합니다.' },
+      { speaker: 'user', content: longAnswer },
+    ];
+    expect(selectNextSpeaker(dominated, config, 2, 10).reason).toBe('balance');
+
+    expect(selectNextSpeaker(dominated, config, 8, 10).reason).toBe('closing');
+  });
+});
+
+describe('contribution and listening', () => {
+  it('measures the share of the debate without the moderator', () => {
+    const contribution = measureContribution([
+      { speaker: DISCUSSION_MODERATOR, content: '사회자 발언은 세지 않습니다 정말로' },
+      { speaker: 'user', content: '하나 둘 셋' },
+      { speaker: 'candidate_a', content: '하나 둘 셋 넷 다섯 여섯 일곱 여덟 아홉' },
+    ], 3);
+
+    expect(contribution).toEqual({ user_words: 3, total_words: 12, user_turns: 1, share: 0.25, even_share: 0.25 });
+    expect(calculateContributionScore(contribution)).toBe(5);
+    expect(calculateContributionScore({ ...contribution, share: 0.7 }, 3)).toBe(2);
+  });
+
+  it('counts replies that pick up the previous speaker', () => {
+    const listening = measureListening([
+      { speaker: 'candidate_a', content: '업무 강도가 커집니다.' },
+      { speaker: 'user', content: '김도윤 님 말씀도 일리가 있지만 회의를 줄이면 됩니다.' },
+      { speaker: 'candidate_c', content: '고객 대응 공백이 생깁니다.' },
+      { speaker: 'user', content: '채용 경쟁력이 중요합니다.' },
+    ], config.participants);
+
+    expect(listening).toEqual({ responses: 2, engaged: 1, rate: 0.5 });
+    expect(calculateListeningScore(listening)).toBe(3);
+    expect(calculateListeningScore(null, 4)).toBe(4);
+  });
+
+  it('labels the history by speaker', () => {
+    expect(labelDiscussionMessage('assistant', 'candidate_b', '동의합니다.', config, '박서연')).toBe('[이서준] 동의합니다.');
+    expect(labelDiscussionMessage('assistant', 'hr_manager', '시작하겠습니다.', config, '박서연')).toBe('[사회자 박서연] 시작하겠습니다.');
+    expect(labelDiscussionMessage('user', null, '찬성합니다.', config, '박서연')).toBe('[지원자] 찬성합니다.');
+  });
+});
+
+describe('discussion rubric', () => {
+  it('adds the three discussion axes to the total score', () => {
+    const core = { logical_structure: 3, job_expertise: 3, attitude_communication: 3, company_fit: 3, growth_potential: 3 } as const;
+
+    expect(MODE_EVALUATION_CATEGORIES.group_discussion).toEqual(['contribution', 'listening', 'persuasiveness']);
+    expect(calculateTotalScore(core, { contribution: 5, listening: 5, persuasiveness: 5 })).toBe(73);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Interview Lifecycle (offline)
+// ============================================
+// start -> message × max_turns -> end, with AI_PROVIDER=fake fixtures
+// and an in-memory Supabase stand-in. No network, no API keys.
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import { POST as startInterview } from '@/app/api/interview/start/route';
+import { POST as sendMessage } from '@/app/api/interview/message/route';
+import { POST as endInterview } from '@/app/api/interview/end/route';
+import { POST as interruptInterviewer } from '@/app/api/interview/interrupt/route';
+import {
+  FAKE_INTERVIEWER_TURNS,
+  FAKE_TRANSCRIPT,
+  FAKE_TRANSCRIPTION_WORDS,
+} from '@/lib/testing/fixtures';
+import { transcribeAudio } from '@/lib/stt/service';
+import { synthesizeSpeech } from '@/lib/tts/service';
+import { llmRouter } from '@/lib/llm/router';
+import { parseSSEMessage } from '@/lib/stream/sse-client';
+
+// ============================================
+// Tests
+// ============================================
+
+describe('interview lifecycle with fake AI providers', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...ROUTE_TEST_ENV };
+    delete process.env.OPENAI_API_KEY;
+    mockSupabase.reset();
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('runs start -> scripted turns -> end without network', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+
+    // Start
+    const startResponse = await startInterview(post('/api/interview/start', {
+      job_type: 'frontend',
+      industry: 'IT/테크',
+      difficulty: 'medium',
+    }));
+    const started = await startResponse.json();
+
+    expect(startResponse.status).toBe(200);
+    expect(started.success).toBe(true);
+    expect(started.first_message.content).toContain('자기소개');
+
+    const sessionId = started.session.id;
+    const maxTurns = started.session.max_turns;
+
+    // Scripted turns
+    for (let turn = 1; turn <= maxTurns; turn++) {
+      const response = await sendMessage(post('/api/interview/message', {
+        session_id: sessionId,
+        content: `${turn}번째 답변입니다. ${FAKE_TRANSCRIPT}`,
+      }));
+      const data = await response.json();
+
+      expect(data.success).toBe(true);
+      expect(data.interviewer_response.content).toBe(FAKE_INTERVIEWER_TURNS[turn - 1]);
+      expect(data.interviewer_response.structured_response.evaluation).toEqual({
+        relevance: 80,
+        clarity: 75,
+        depth: 70,
+      });
+      expect(data.turn_count).toBe(turn);
+      expect(data.should_end).toBe(turn === maxTurns);
+    }
+
+    // Keywords from the self-introduction turn are saved
+    expect(mockSupabase.tables.user_keywords?.map(row => row.keyword)).toEqual(
+      expect.arrayContaining(['React', '캐시 최적화'])
+    );
+
+    // End
+    const endResponse = await endInterview(post('/api/interview/end', { session_id: sessionId }));
+    const ended = await endResponse.json();
+
+    expect(ended.success).toBe(true);
+    expect(ended.result.overall_score).toBe(66);
+    expect(ended.result.pass_status).toBe('borderline');
+    expect(ended.result.interviewer_scores).toEqual({
+      hiring_manager: 72,
+      hr_manager: 60,
+      senior_peer: 70,
+    });
+
+    expect(mockSupabase.tables.messages).toHaveLength(1 + maxTurns * 2);
+    expect(mockSupabase.tables.interview_results).toHaveLength(1);
+    expect(mockSupabase.tables.interview_sessions[0].status).toBe('completed');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('streams the question over SSE and persists the turn like the JSON path', async () => {
+    const startResponse = await startInterview(post('/api/interview/start', { job_type: 'frontend' }));
+    const { session } = await startResponse.json();
+
+    const request = post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT });
+    request.headers.set('Accept', 'text/event-stream');
+
+    const response = await sendMessage(request);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const events = (await response.text())
+      .split('\n\n')
+      .map(parseSSEMessage)
+      .filter((event): event is NonNullable<typeof event> => event !== null);
+
+    expect(events[0].event).toBe('start');
+    expect(events[events.length - 1].event).toBe('done');
+
+    const chunks = events.filter(event => event.event === 'chunk');
+    const streamedQuestion = chunks.map(event => (event.data as { content: string }).content).join('');
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(streamedQuestion).toBe(FAKE_INTERVIEWER_TURNS[0]);
+
+    const complete = events.find(event => event.event === 'complete')?.data as {
+      interviewer_response: { content: string; structured_response: { follow_up_intent: boolean } };
+      turn_count: number;
+      total_chunks: number;
+    };
+    expect(complete.interviewer_response.content).toBe(streamedQuestion);
+    expect(complete.interviewer_response.structured_response.follow_up_intent).toBe(true);
+    expect(complete.turn_count).toBe(1);
+    expect(complete.total_chunks).toBe(chunks.length);
+
+    const saved = mockSupabase.tables.messages.filter(row => row.role === 'interviewer');
+    expect(saved[saved.length - 1].content).toBe(streamedQuestion);
+    expect(mockSupabase.tables.interview_sessions[0].turn_count).toBe(1);
+  });
+
+  it('still saves the streamed turn when the client disconnects mid-stream', async () => {
+    const startResponse = await startInterview(post('/api/interview/start', { job_type: 'frontend' }));
+    const { session } = await startResponse.json();
+
+    const request = post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT });
+    request.headers.set('Accept', 'text/event-stream');
+
+    const response = await sendMessage(request);
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    // Generation runs on without a reader; wait for the turn to be persisted
+    for (let attempt = 0; attempt < 100 && mockSupabase.tables.interview_sessions[0].turn_count !== 1; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    const saved = mockSupabase.tables.messages.filter(row => row.role === 'interviewer');
+    expect(saved[saved.length - 1].content).toBe(FAKE_INTERVIEWER_TURNS[0]);
+    expect(mockSupabase.tables.interview_sessions[0].turn_count).toBe(1);
+  });
+
+  it('feeds only the heard part of an interrupted question to the next turn', async () => {
+    const startResponse = await startInterview(post('/api/interview/start', { job_type: 'frontend' }));
+    const { session } = await startResponse.json();
+
+    const first = await (await sendMessage(post('/api/interview/message', {
+      session_id: session.id,
+      content: FAKE_TRANSCRIPT,
+    }))).json();
+
+    const question = first.interviewer_response.content as string;
+    const interruptResponse = await interruptInterviewer(post('/api/interview/interrupt', {
+      session_id: session.id,
+      message_id: first.interviewer_response.id,
+      char_offset: 12,
+    }));
+    const interrupted = await interruptResponse.json();
+
+    expect(interrupted.interrupted_at_char).toBe(12);
+    const saved = mockSupabase.tables.messages.find(row => row.id === first.interviewer_response.id);
+    expect(saved?.interrupted_at_char).toBe(12);
+    expect(saved?.content).toBe(question);
+
+    const completeSpy = jest.spyOn(llmRouter, 'complete');
+    await sendMessage(post('/api/interview/message', { session_id: session.id, content: '네, 말씀드리겠습니다.' }));
+
+    const history = completeSpy.mock.calls[0][0].messages.map(message => message.content);
+    expect(history).toContain(`${question.slice(0, 12).trimEnd()}… (지원자가 여기서 말을 끊고 답변을 시작함)`);
+    expect(history).not.toContain(question);
+  });
+
+  it('rejects interrupting a candidate message', async () => {
+    const startResponse = await startInterview(post('/api/interview/start', { job_type: 'frontend' }));
+    const { session } = await startResponse.json();
+    const { user_message } = await (await sendMessage(post('/api/interview/message', {
+      session_id: session.id,
+      content: FAKE_TRANSCRIPT,
+    }))).json();
+
+    const response = await interruptInterviewer(post('/api/interview/interrupt', {
+      session_id: session.id,
+      message_id: user_message.id,
+      char_offset: 3,
+    }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('reports the fake provider and rejects schemas without a fixture', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await llmRouter.complete({
+      messages: [{ role: 'user', content: '안녕하세요' }],
+      maxTokens: 100,
+      temperature: 0,
+    });
+
+    expect(result.provider).toBe('fake');
+    expect(result.content).toBe(FAKE_INTERVIEWER_TURNS[0]);
+
+    await expect(llmRouter.complete({
+      messages: [{ role: 'user', content: '안녕하세요' }],
+      jsonSchema: { name: 'unknown_schema', schema: {} },
+      maxTokens: 100,
+      temperature: 0,
+    })).rejects.toThrow('unknown_schema');
+  });
+
+  it('returns fixed Whisper word timings and silent MP3 audio', async () => {
+    const transcription = await transcribeAudio(Buffer.alloc(16));
+
+    expect(transcription.provider).toBe('fake');
+    expect(transcription.text).toBe(FAKE_TRANSCRIPT);
+    expect(transcription.words).toEqual(FAKE_TRANSCRIPTION_WORDS);
+
+    const speech = await synthesizeSpeech('질문입니다.', 'hiring_manager');
+
+    expect(speech.provider).toBe('fake');
+    expect(speech.contentType).toBe('audio/mpeg');
+    expect([...speech.audioBuffer.subarray(0, 2)]).toEqual([0xff, 0xfb]);
+  });
+});
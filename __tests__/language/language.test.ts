@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// English / bilingual interviews: prompts, fillers, sentence split, rubric
+// ============================================
+
+import { analyzeVoice } from '@/lib/analysis/voice';
+import { splitEnglishSentences } from '@/lib/rag/chunking';
+import { SentenceBuffer } from '@/lib/streaming/sentence-buffer';
+import {
+  calculateTotalScore,
+  generateRubricDocument,
+  getModeEvaluationCategories,
+} from '@/lib/llm/prompts/scoring-rubric';
+import { buildInterviewerSystemPrompt, isInterviewLanguage } from '@/types/interview';
+
+describe('isInterviewLanguage', () => {
+  it('accepts only the supported languages', () => {
+    expect(['ko', 'en', 'mixed'].every(isInterviewLanguage)).toBe(true);
+    expect(isInterviewLanguage('ja')).toBe(false);
+    expect(isInterviewLanguage(undefined)).toBe(false);
+  });
+});
+
+describe('buildInterviewerSystemPrompt', () => {
+  it('switches the conversation language and follow-up patterns', () => {
+    const english = buildInterviewerSystemPrompt('hiring_manager', 'ESTJ', 'IT', '백엔드 개발자', undefined, 'en');
+    const korean = buildInterviewerSystemPrompt('hiring_manager', 'ESTJ', 'IT', '백엔드 개발자');
+
+    expect(english).toContain('English');
+    expect(english).not.toContain('{{language_instruction}}');
+    expect(korean).toContain('한국어');
+  });
+});
+
+describe('English filler words', () => {
+  it('counts single words and two-word phrases, ignoring punctuation', () => {
+    const result = analyzeVoice('Um, I think, you know, the cache was basically the bottleneck.', [], 10, { language: 'en' });
+
+    expect(result.fillerWords.map(filler => filler.word).sort()).toEqual(['basically', 'um', 'you know']);
+    expect(result.fillerWordCount).toBe(3);
+  });
+
+  it('uses both tables for mixed interviews', () => {
+    const result = analyzeVoice('음 so um 그러니까 결과적으로', [], 10, { language: 'mixed' });
+
+    expect(result.fillerWords.map(filler => filler.word)).toEqual(expect.arrayContaining(['음', 'um']));
+  });
+});
+
+describe('English sentence split', () => {
+  it('keeps abbreviations and decimals inside a sentence', () => {
+    expect(splitEnglishSentences('I worked with Dr. Kim on v2.5 of the API. Latency dropped 3.2x! Why? Caching.'))
+      .toEqual(['I worked with Dr. Kim on v2.5 of the API.', 'Latency dropped 3.2x!', 'Why?', 'Caching.']);
+  });
+
+  it('streams complete English sentences from SentenceBuffer', () => {
+    const buffer = new SentenceBuffer('en');
+
+    expect(buffer.push('Thanks for joining. Could you walk me')).toEqual(['Thanks for joining.']);
+    expect(buffer.push(' through your last project? Take')).toEqual(['Could you walk me through your last project?']);
+    expect(buffer.flush()).toEqual(['Take']);
+  });
+});
+
+describe('language proficiency axis', () => {
+  const core = { logical_structure: 3, job_expertise: 3, attitude_communication: 3, company_fit: 3, growth_potential: 3 } as const;
+
+  it('is added for English and mixed interviews only', () => {
+    expect(getModeEvaluationCategories('standard', 'en')).toEqual(['language_proficiency']);
+    expect(getModeEvaluationCategories('standard', 'mixed')).toEqual(['language_proficiency']);
+    expect(getModeEvaluationCategories('standard')).toEqual([]);
+    expect(calculateTotalScore(core, { language_proficiency: 5 })).toBe(55);
+  });
+
+  it('writes the rubric in English for English interviews', () => {
+    const rubric = generateRubricDocument(getModeEvaluationCategories('standard', 'en'), 'en');
+
+    expect(rubric).toContain('Logical Structure');
+    expect(rubric).toContain('외국어 구사력');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// LLM provider failover
+// ============================================
+// The router walks the provider chain on errors and timeouts, moves recently
+// failed providers to the end, and stops once the caller aborts
+// (stub providers in place of the configured chain).
+
+import { LLMRouter } from '@/lib/llm/router';
+import type { LLMProvider, LLMProviderName, ProviderCompletionRequest } from '@/lib/llm/providers';
+
+let mockChain: LLMProvider[] = [];
+
+jest.mock('@/lib/llm/providers', () => ({
+  ...jest.requireActual('@/lib/llm/providers'),
+  getProviderChain: (preferred?: string) => [
+    ...mockChain.filter(provider => provider.name === preferred),
+    ...mockChain.filter(provider => provider.name !== preferred),
+  ],
+}));
+
+type Behavior = 'ok' | 'error' | 'hang';
+
+// A provider that answers, throws, or never answers until its request is aborted
+function stubProvider(name: LLMProviderName, behavior: () => Behavior) {
+  const provider: LLMProvider = {
+    name,
+    defaultModel: `${name}-default`,
+    fastModel: `${name}-fast`,
+    isConfigured: () => true,
+    complete: jest.fn(async (request: ProviderCompletionRequest) => {
+      const mode = behavior();
+      if (mode === 'error') throw new Error(`${name} is down`);
+      if (mode === 'hang') {
+        await new Promise((_, reject) => {
+          request.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      }
+      return { content: `${name} answer`, model: request.model };
+    }),
+  };
+  return provider;
+}
+
+const request = { messages: [{ role: 'user' as const, content: '안녕하세요' }], maxTokens: 100, temperature: 0 };
+
+describe('LLM provider failover', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves on to the next provider on errors and timeouts', async () => {
+    const openai = stubProvider('openai', () => 'error');
+    const anthropic = stubProvider('anthropic', () => 'hang');
+    const gemini = stubProvider('gemini', () => 'ok');
+    mockChain = [openai, anthropic, gemini];
+
+    const result = await new LLMRouter().complete({ ...request, timeoutMs: 20 });
+
+    expect(result).toMatchObject({
+      content: 'gemini answer',
+      provider: 'gemini',
+      model: 'gemini-default',
+      failedProviders: ['openai', 'anthropic'],
+    });
+  });
+
+  it('tries the preferred provider first and applies the model override to it only', async () => {
+    const openai = stubProvider('openai', () => 'ok');
+    const anthropic = stubProvider('anthropic', () => 'error');
+    mockChain = [openai, anthropic];
+
+    const result = await new LLMRouter().complete({ ...request, provider: 'anthropic', model: 'claude-custom' });
+
+    expect((anthropic.complete as jest.Mock).mock.calls[0][0].model).toBe('claude-custom');
+    expect(result).toMatchObject({ provider: 'openai', model: 'openai-default', failedProviders: ['anthropic'] });
+  });
+
+  it('tries recently failed providers last until their cooldown ends', async () => {
+    let openaiDown = true;
+    const openai = stubProvider('openai', () => (openaiDown ? 'error' : 'ok'));
+    const anthropic = stubProvider('anthropic', () => 'ok');
+    mockChain = [openai, anthropic];
+    const router = new LLMRouter();
+
+    await router.complete(request);
+    openaiDown = false;
+
+    // Within the cooldown the healthy provider goes first
+    now += 10_000;
+    expect((await router.complete(request)).provider).toBe('anthropic');
+    expect(openai.complete).toHaveBeenCalledTimes(1);
+
+    // After it the chain order is back
+    now += 30_000;
+    expect((await router.complete(request)).provider).toBe('openai');
+    expect(openai.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not fail over once the caller aborts', async () => {
+    const openai = stubProvider('openai', () => 'hang');
+    const anthropic = stubProvider('anthropic', () => 'ok');
+    mockChain = [openai, anthropic];
+    const controller = new AbortController();
+
+    const pending = new LLMRouter().complete({ ...request, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('LLM request aborted');
+    expect(anthropic.complete).not.toHaveBeenCalled();
+  });
+
+  it('reports every provider when the whole chain fails', async () => {
+    mockChain = [stubProvider('openai', () => 'error'), stubProvider('anthropic', () => 'error')];
+
+    await expect(new LLMRouter().complete(request))
+      .rejects.toThrow('All LLM providers failed (openai: openai is down; anthropic: anthropic is down)');
+  });
+
+  it('fails over a stream only before its first delta', async () => {
+    const openai = stubProvider('openai', () => 'error');
+    const anthropic = stubProvider('anthropic', () => 'ok');
+    anthropic.stream = async function* () {
+      yield '첫 ';
+      throw new Error('connection reset');
+    };
+    mockChain = [openai, anthropic];
+
+    const deltas: string[] = [];
+    await expect((async () => {
+      for await (const event of new LLMRouter().completeStream(request)) {
+        if (event.type === 'delta') deltas.push(event.text);
+      }
+    })()).rejects.toThrow('LLM stream interrupted (anthropic): connection reset');
+
+    expect(deltas).toEqual(['첫 ']);
+    expect(openai.complete).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,30 @@
+import { PartialJsonStringField } from '@/lib/llm/partial-json';
+
+describe('PartialJsonStringField', () => {
+  it('decodes the field incrementally across arbitrary chunk boundaries', () => {
+    const json = JSON.stringify({
+      question: '그 "캐시" 전략은\n어떻게 검증하셨나요? — \\ 끝',
+      evaluation: { relevance: 80, clarity: 70, depth: 60 },
+    });
+    const field = new PartialJsonStringField('question');
+
+    let streamed = '';
+    for (let i = 0; i < json.length; i += 3) {
+      streamed += field.push(json.slice(i, i + 3));
+    }
+
+    expect(streamed).toBe('그 "캐시" 전략은\n어떻게 검증하셨나요? — \\ 끝');
+    expect(field.isComplete).toBe(true);
+    expect(JSON.parse(field.raw).evaluation.depth).toBe(60);
+  });
+
+  it('waits for incomplete escape sequences and ignores other fields', () => {
+    const field = new PartialJsonStringField('question');
+
+    expect(field.push('{"inner_thought":"속마음","question":"A\\')).toBe('A');
+    expect(field.push('u00')).toBe('');
+    expect(field.push('42C"')).toBe('BC');
+    expect(field.push(',"x":"y"}')).toBe('');
+    expect(field.current).toBe('ABC');
+  });
+});
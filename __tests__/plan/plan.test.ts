@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Interview plan: fitting the agenda, following it, reporting coverage
+// ============================================
+
+import { buildDefaultPlan, normalizePlan, isPlannedInterviewMode } from '@/lib/plan/generator';
+import { measurePlanProgress, selectPlanTopic, buildPlanReport } from '@/lib/plan/progress';
+import { formatPlanContext } from '@/lib/plan/context';
+import type { InterviewPlan } from '@/types/interview';
+
+const plan: InterviewPlan = {
+  topics: [
+    { id: 'topic_1', title: '캐시 최적화 경험', goal: '본인 역할 확인', interviewer: 'hiring_manager', target_depth: 1, minutes: 2, source: 'resume' },
+    { id: 'topic_2', title: '프론트엔드 성능', goal: '진단 방법 확인', interviewer: 'senior_peer', target_depth: 1, minutes: 2, source: 'core', seed_question: '느린 화면을 진단할 때 무엇부터 보시나요?' },
+    { id: 'topic_3', title: '지원 동기', goal: '지원 이유 확인', interviewer: 'hr_manager', target_depth: 0, minutes: 1, source: 'core' },
+  ],
+  total_minutes: 5,
+};
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 0, 0, seconds)).toISOString();
+
+describe('plan generation', () => {
+  it('plans standard and pressure interviews only', () => {
+    expect(isPlannedInterviewMode('standard')).toBe(true);
+    expect(isPlannedInterviewMode('pressure')).toBe(true);
+    expect(isPlannedInterviewMode('coding')).toBe(false);
+  });
+
+  it('fits topics into the question budget and scales the time budgets', () => {
+    const fitted = normalizePlan([
+      { title: 'A', goal: 'a', interviewer: 'hiring_manager', target_depth: 5, minutes: 2, source: 'jd' },
+      { title: 'B', goal: 'b', interviewer: 'senior_peer', target_depth: 2, minutes: 2, source: 'resume' },
+      { title: 'C', goal: 'c', interviewer: 'hr_manager', target_depth: 1, minutes: 1, source: 'core' },
+    ], 5, 5);
+
+    expect(fitted.topics.map(t => [t.id, t.target_depth])).toEqual([['topic_1', 2], ['topic_2', 1]]);
+    expect(fitted.topics.map(t => t.minutes)).toEqual([2.5, 2.5]);
+  });
+
+  it('falls back to a default agenda from the JD, resume and question bank', () => {
+    const fallback = buildDefaultPlan({
+      jobType: 'frontend',
+      difficulty: 'medium',
+      jdText: 'React 경험 3년 이상',
+      resumeText: '캐시 최적화 프로젝트',
+      bankQuestions: [{
+        id: 'q1', question: '브라우저 렌더링 과정을 설명해 주세요.', question_category: '브라우저',
+        job_category: 'frontend', combined_score: 1, vector_score: 1, bm25_score: 1,
+      }],
+      maxTurns: 10,
+    });
+
+    expect(fallback.topics.map(t => t.source)).toEqual(['resume', 'jd', 'question_bank', 'core', 'core']);
+    expect(fallback.topics[2].seed_question).toBe('브라우저 렌더링 과정을 설명해 주세요.');
+    expect(fallback.topics.reduce((sum, t) => sum + 1 + t.target_depth, 0)).toBeLessThanOrEqual(10);
+  });
+});
+
+describe('following the plan', () => {
+  it('follows up on a topic until its depth is used, then moves on', () => {
+    const opened = [
+      { role: 'interviewer', plan_topic_id: null, created_at: at(0) },
+      { role: 'user', created_at: at(20) },
+      { role: 'interviewer', plan_topic_id: 'topic_1', created_at: at(25) },
+      { role: 'user', created_at: at(55) },
+    ];
+    let progress = measurePlanProgress(plan, opened);
+    expect(progress[0]).toMatchObject({ questions: 1, answers: 1, seconds: 30, status: 'active' });
+    expect(selectPlanTopic(plan, progress, 'topic_1', 9)).toEqual({ topic: plan.topics[0], followUp: true });
+
+    const followedUp = [
+      ...opened,
+      { role: 'interviewer', plan_topic_id: 'topic_1', created_at: at(60) },
+      { role: 'user', created_at: at(80) },
+    ];
+    progress = measurePlanProgress(plan, followedUp);
+    expect(progress[0].status).toBe('covered');
+    expect(selectPlanTopic(plan, progress, 'topic_1', 8)).toEqual({ topic: plan.topics[1], followUp: false });
+  });
+
+  it('moves on when the time budget is spent or questions run short', () => {
+    const slow = [
+      { role: 'interviewer', plan_topic_id: 'topic_1', created_at: at(0) },
+      { role: 'user', created_at: at(130) },
+    ];
+    expect(measurePlanProgress(plan, slow)[0].status).toBe('covered');
+
+    const quick = [
+      { role: 'interviewer', plan_topic_id: 'topic_1', created_at: at(0) },
+      { role: 'user', created_at: at(10) },
+    ];
+    const progress = measurePlanProgress(plan, quick);
+    expect(selectPlanTopic(plan, progress, 'topic_1', 2)?.topic.id).toBe('topic_2');
+  });
+
+  it('tells the interviewer the topic, the goal and what is left', () => {
+    const progress = measurePlanProgress(plan, []);
+    const context = formatPlanContext({ plan, progress, topic: plan.topics[1], followUp: false });
+
+    expect(context).toContain('프론트엔드 성능');
+    expect(context).toContain('느린 화면을 진단할 때');
+    expect(context).toContain('남은 주제: 캐시 최적화 경험, 지원 동기');
+  });
+});
+
+describe('plan report', () => {
+  it('marks topics covered, cut short or skipped', () => {
+    const progress = measurePlanProgress(plan, [
+      { role: 'interviewer', plan_topic_id: 'topic_1', created_at: at(0) },
+      { role: 'user', created_at: at(10) },
+      { role: 'interviewer', plan_topic_id: 'topic_1', created_at: at(15) },
+      { role: 'user', created_at: at(30) },
+      { role: 'interviewer', plan_topic_id: 'topic_2', created_at: at(35) },
+      { role: 'user', created_at: at(45) },
+    ]);
+
+    expect(buildPlanReport(plan, progress).map(t => [t.topic_id, t.questions, t.planned_questions, t.outcome])).toEqual([
+      ['topic_1', 2, 2, 'covered'],
+      ['topic_2', 1, 2, 'partial'],
+      ['topic_3', 0, 1, 'skipped'],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Presentation interview: slide split, config, coverage, delivery, rubric
+// ============================================
+
+import { splitSlides, parsePresentationConfig } from '@/lib/presentation/deck';
+import { measureSlideCoverage, calculateDeliveryScore } from '@/lib/presentation/coverage';
+import { formatPresentationContext } from '@/lib/presentation/context';
+import { calculateTotalScore, MODE_EVALUATION_CATEGORIES } from '@/lib/llm/prompts/scoring-rubric';
+import type { PresentationConfig } from '@/types/interview';
+
+const config: PresentationConfig = {
+  minutes: 10,
+  deck: {
+    filename: 'growth-plan.pdf',
+    parse_method: 'basic',
+    slides: [
+      { page: 1, text: '신규 고객 확보 전략\n온보딩 전환율 개선과 추천 프로그램' },
+      { page: 2, text: '재구매율 분석\n코호트별 재구매율 하락 원인과 쿠폰 정책' },
+      { page: 3, text: '물류 비용 절감\n배송 권역 통합과 창고 자동화 투자' },
+    ],
+  },
+};
+
+describe('splitSlides', () => {
+  it('splits pdf-parse output on page markers', () => {
+    const text = '첫 장 제목\n본문\n\n-- 1 of 3 --\n\n둘째 장\n\n-- 2 of 3 --\n\n셋째 장\n\n-- 3 of 3 --';
+
+    expect(splitSlides(text, 3)).toEqual([
+      { page: 1, text: '첫 장 제목\n본문' },
+      { page: 2, text: '둘째 장' },
+      { page: 3, text: '셋째 장' },
+    ]);
+  });
+
+  it('spreads paragraphs over the page count without markers', () => {
+    expect(splitSlides('A 문단\n\nB 문단\n\nC 문단\n\nD 문단', 2).map(slide => slide.text))
+      .toEqual(['A 문단\nB 문단', 'C 문단\nD 문단']);
+  });
+});
+
+describe('parsePresentationConfig', () => {
+  it('rejects a missing deck or an unsupported duration', () => {
+    expect(parsePresentationConfig(undefined)).toEqual({ error: '발표 자료를 업로드해 주세요.' });
+    expect(parsePresentationConfig({ deck: config.deck, minutes: 7 })).toHaveProperty('error');
+    expect(parsePresentationConfig({ deck: { slides: [] }, minutes: 10 }))
+      .toEqual({ error: '발표 자료에서 슬라이드를 찾을 수 없습니다.' });
+  });
+
+  it('accepts a parsed deck', () => {
+    expect(parsePresentationConfig({ deck: config.deck, minutes: 10 })).toEqual({ config });
+  });
+});
+
+describe('slide coverage', () => {
+  const transcript = '먼저 신규 고객 확보 전략입니다. 온보딩 전환율을 개선하고 추천 프로그램을 도입합니다. '
+    + '다음으로 재구매율 분석 결과, 코호트별로 재구매율이 하락했고 원인은 쿠폰 정책이었습니다.';
+
+  it('marks slides the presentation skipped', () => {
+    const coverage = measureSlideCoverage(config.deck, transcript);
+
+    expect(coverage.slides.map(slide => slide.covered)).toEqual([true, true, false]);
+    expect(coverage.covered).toBe(2);
+    expect(coverage.rate).toBe(0.67);
+  });
+
+  it('lists skipped slides in the interviewer context', () => {
+    const context = formatPresentationContext(config, transcript, measureSlideCoverage(config.deck, transcript));
+
+    expect(context).toContain('발표에서 다룬 슬라이드: 2/3장');
+    expect(context).toContain('3(물류 비용 절감)');
+    expect(formatPresentationContext(config)).toContain('아직 발표 전입니다.');
+  });
+});
+
+describe('calculateDeliveryScore', () => {
+  const voice = { wpm: 130, filler_rate: 2, long_pauses: 1, leading_silence: 0.5, confidence: 75 };
+
+  it('takes a level off for poor time management', () => {
+    expect(calculateDeliveryScore({ ...voice, duration_seconds: 540 }, 10)).toBe(4);
+    expect(calculateDeliveryScore({ ...voice, duration_seconds: 180 }, 10)).toBe(3);
+    expect(calculateDeliveryScore({ ...voice, duration_seconds: 540 }, 10, 2)).toBe(3);
+    expect(calculateDeliveryScore(null, 10, 4)).toBe(4);
+  });
+});
+
+describe('presentation rubric', () => {
+  it('adds the PT axes to the total score', () => {
+    const core = { logical_structure: 3, job_expertise: 3, attitude_communication: 3, company_fit: 3, growth_potential: 3 } as const;
+
+    expect(MODE_EVALUATION_CATEGORIES.presentation).toEqual(['delivery', 'content_coverage', 'qa_handling']);
+    expect(calculateTotalScore(core, { delivery: 5, content_coverage: 5, qa_handling: 5 })).toBe(73);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Pressure interview: tactics, cut-off detection, voice stability, rubric
+// ============================================
+
+import { formatPressureContext, pickPressureTactic, wasAnswerCutOff } from '@/lib/pressure/context';
+import { measureVoiceStability, calculateComposureScore } from '@/lib/pressure/composure';
+import { calculateTotalScore, MODE_EVALUATION_CATEGORIES } from '@/lib/llm/prompts/scoring-rubric';
+import { PRESSURE_TIMER_CONFIG } from '@/types/interview';
+
+const baseline = { wpm: 130, filler_rate: 2, long_pauses: 1, leading_silence: 0.5, confidence: 80 };
+
+describe('pressure context', () => {
+  it('rotates tactics and escalates in the second half', () => {
+    expect([0, 1, 2, 3, 4].map(pickPressureTactic))
+      .toEqual(['skepticism', 'challenge_claim', 'interrupt', 'time_pressure', 'skepticism']);
+
+    expect(formatPressureContext({ turnCount: 1, maxTurns: 10, timeLimit: 60 })).toContain('압박 강도: 보통');
+    expect(formatPressureContext({ turnCount: 6, maxTurns: 10, timeLimit: 60 })).toContain('압박 강도: 높음');
+  });
+
+  it('cuts in on answers the timer stopped', () => {
+    expect(wasAnswerCutOff({ ...baseline, duration_seconds: 59.6 }, PRESSURE_TIMER_CONFIG)).toBe(true);
+    expect(wasAnswerCutOff({ ...baseline, duration_seconds: 42 }, PRESSURE_TIMER_CONFIG)).toBe(false);
+    expect(wasAnswerCutOff(null, PRESSURE_TIMER_CONFIG)).toBe(false);
+
+    const context = formatPressureContext({ turnCount: 0, maxTurns: 10, timeLimit: 60, answerCutOff: true, hasResume: true });
+    expect(context).toContain('60초 제한에 걸려 중간에 끊겼습니다');
+    expect(context).toContain('"잠깐만요"');
+    expect(context).toContain('이력서/자소서에 적힌 성과');
+  });
+});
+
+describe('voice stability', () => {
+  it('needs a baseline and at least one answer under pressure', () => {
+    expect(measureVoiceStability([baseline])).toBeNull();
+    expect(calculateComposureScore(null, 4)).toBe(4);
+  });
+
+  it('scores steady delivery high', () => {
+    const stability = measureVoiceStability([baseline, baseline, baseline]);
+
+    expect(stability?.stability).toBe(100);
+    expect(calculateComposureScore(stability)).toBe(5);
+    expect(calculateComposureScore(stability, 3)).toBe(4);
+  });
+
+  it('penalizes confidence drops, fillers, hesitation and uneven pace', () => {
+    const stability = measureVoiceStability([
+      baseline,
+      { wpm: 90, filler_rate: 8, long_pauses: 3, leading_silence: 3, confidence: 50 },
+      { wpm: 170, filler_rate: 6, long_pauses: 2, leading_silence: 2, confidence: 40 },
+    ]);
+
+    expect(stability).toMatchObject({
+      confidence_drop: 35,
+      filler_increase: 5,
+      hesitation_increase: 2,
+      wpm_variation: 0.25,
+      stability: 5,
+    });
+    expect(calculateComposureScore(stability)).toBe(2);
+  });
+});
+
+describe('pressure rubric', () => {
+  it('adds the composure axis to the total score', () => {
+    const core = { logical_structure: 3, job_expertise: 3, attitude_communication: 3, company_fit: 3, growth_potential: 3 } as const;
+
+    expect(MODE_EVALUATION_CATEGORIES.pressure).toEqual(['composure']);
+    expect(calculateTotalScore(core, { composure: 5 })).toBe(60);
+  });
+});
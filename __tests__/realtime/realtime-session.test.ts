@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Realtime voice session (offline)
+// ============================================
+// PCM up → end-of-turn → transcript → interviewer turn → question + audio down
+// over the realtime WebSocket server, and barge-in before an answer is saved,
+// with AI_PROVIDER=fake speech/LLM providers and an in-memory Supabase.
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { POST as startInterview } from '@/app/api/interview/start/route';
+import { createRealtimeServer, REALTIME_PATH } from '@/lib/realtime/server';
+import { RealtimeVoiceSession } from '@/lib/realtime/session';
+import type { SupabaseServerClient } from '@/lib/interview/turn';
+import type { SSEEvent } from '@/lib/stream/sse-client';
+import { REALTIME_SAMPLE_RATE, pcmToBytes } from '@/lib/realtime/pcm';
+import { FAKE_INTERVIEWER_TURNS, FAKE_TRANSCRIPT, FAKE_TRANSCRIPTION_WORDS } from '@/lib/testing/fixtures';
+import type { TranscriptionWord } from '@/lib/stt/service';
+
+// 100ms chunks of a 220 Hz tone (speech) or silence
+function pcmChunk(amplitude: number): Uint8Array {
+  const samples = new Int16Array(REALTIME_SAMPLE_RATE / 10);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(amplitude * 32767 * Math.sin((2 * Math.PI * 220 * i) / REALTIME_SAMPLE_RATE));
+  }
+  return pcmToBytes(samples);
+}
+
+// Events of a socket, resolved as they arrive
+function listen(socket: WebSocket) {
+  const events: SSEEvent[] = [];
+  const waiters: Array<() => void> = [];
+  socket.on('message', (raw) => {
+    events.push(JSON.parse(raw.toString()));
+    waiters.splice(0).forEach(wake => wake());
+  });
+
+  const until = async (name: string): Promise<SSEEvent[]> => {
+    while (!events.some(event => event.event === name)) {
+      await new Promise<void>(resolve => waiters.push(resolve));
+    }
+    return events;
+  };
+  return { events, until };
+}
+
+async function openSocket(port: number): Promise<WebSocket> {
+  const socket = new WebSocket(`ws://localhost:${port}${REALTIME_PATH}`);
+  await new Promise(resolve => socket.once('open', resolve));
+  return socket;
+}
+
+describe('realtime voice session with fake providers', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...ROUTE_TEST_ENV };
+    mockSupabase.reset();
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('detects the end of a spoken answer and streams the interviewer turn back', async () => {
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+
+    const server = createRealtimeServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const socket = await openSocket((server.address() as AddressInfo).port);
+    const received = listen(socket);
+
+    socket.send(JSON.stringify({ type: 'start', access_token: 'test-token', session_id: session.id }));
+    const [ready] = await received.until('ready');
+    expect(ready.data).toMatchObject({ session_id: session.id, sample_rate: REALTIME_SAMPLE_RATE, mode: 'interview' });
+
+    // 1.5s of speech, then 1s of silence ends the turn
+    const chunks = [...Array(15).fill(pcmChunk(0.3)), ...Array(10).fill(pcmChunk(0))];
+    chunks.forEach(chunk => socket.send(chunk));
+
+    const events = await received.until('audio_complete');
+    const names = events.map(event => event.event);
+
+    expect(names[0]).toBe('ready');
+    expect(names).toContain('transcript_partial');
+    expect(names.indexOf('speech_start')).toBeLessThan(names.indexOf('transcript_final'));
+
+    const partial = events.find(event => event.event === 'transcript_partial')?.data as {
+      text: string;
+      words: TranscriptionWord[];
+    };
+    expect(partial.words.length).toBeGreaterThan(0);
+    expect(FAKE_TRANSCRIPT.startsWith(partial.text)).toBe(true);
+
+    const final = events.find(event => event.event === 'transcript_final')?.data as {
+      text: string;
+      words: TranscriptionWord[];
+    };
+    expect(final.text).toBe(FAKE_TRANSCRIPT);
+    expect(final.words).toHaveLength(FAKE_TRANSCRIPTION_WORDS.length);
+
+    const question = events
+      .filter(event => event.event === 'question_chunk')
+      .map(event => (event.data as { content: string }).content)
+      .join('');
+    expect(question).toBe(FAKE_INTERVIEWER_TURNS[0]);
+
+    const audio = events.filter(event => event.event === 'audio').map(event => (event.data as { index: number }).index);
+    expect(audio).toEqual([0, 1]);
+
+    const turn = events.find(event => event.event === 'turn_complete')?.data as { turn_count: number };
+    expect(turn.turn_count).toBe(1);
+
+    // Same bookkeeping as /api/interview/message
+    expect(mockSupabase.tables.interview_sessions[0].turn_count).toBe(1);
+    expect(mockSupabase.tables.messages.map(row => row.role)).toEqual(['interviewer', 'user', 'interviewer']);
+
+    socket.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('rejects a socket that starts without an access token', async () => {
+    const server = createRealtimeServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const socket = await openSocket((server.address() as AddressInfo).port);
+    const received = listen(socket);
+    const closed = new Promise<number>(resolve => socket.once('close', resolve));
+
+    socket.send(JSON.stringify({ type: 'start', session_id: 'session-1' }));
+
+    expect((await received.until('error'))[0].data).toEqual({ message: '로그인이 필요합니다.' });
+    expect(await closed).toBe(1008);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('carries an answer the candidate barged in on over to the next utterance', async () => {
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+
+    const realtime = new RealtimeVoiceSession({ interviewSessionId: session.id, userId: 'user-1' });
+    const events: SSEEvent[] = [];
+    const drained = (async () => {
+      for await (const event of realtime.events()) {
+        events.push(event);
+        if (event.event === 'audio_complete') return;
+      }
+    })();
+
+    // Speaking again right after the end of turn cancels it before the answer is saved
+    const speech = Array(15).fill(pcmChunk(0.3));
+    const silence = Array(10).fill(pcmChunk(0));
+    const client = mockSupabase.client as unknown as SupabaseServerClient;
+    [...speech, ...silence, ...speech].forEach(chunk => realtime.pushAudio(chunk, client));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    silence.forEach(chunk => realtime.pushAudio(chunk, client));
+    await drained;
+    realtime.close();
+
+    expect(events.map(event => event.event)).toContain('interrupted');
+    const answers = mockSupabase.tables.messages.filter(row => row.role === 'user');
+    expect(answers.map(row => row.content)).toEqual([`${FAKE_TRANSCRIPT} ${FAKE_TRANSCRIPT}`]);
+    expect(mockSupabase.tables.messages.map(row => row.role)).toEqual(['interviewer', 'user', 'interviewer']);
+  });
+});
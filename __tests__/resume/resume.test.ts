@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Resume deep-dive: claim extraction fallback, specificity, coverage, report
+// ============================================
+
+import { extractClaimsFromText, orderClaims, MAX_RESUME_CLAIMS } from '@/lib/resume/claims';
+import {
+  scoreAnswerSpecificity,
+  measureClaimCoverage,
+  selectNextClaim,
+  buildClaimReport,
+  VERIFIED_SPECIFICITY,
+} from '@/lib/resume/coverage';
+import { formatResumeContext } from '@/lib/resume/context';
+import type { ResumeClaim } from '@/types/interview';
+
+const claims: ResumeClaim[] = [
+  { id: 'claim_1', type: 'achievement', claim: 'API 응답 속도 40% 개선', source: 'API 응답 속도 40% 개선' },
+  { id: 'claim_2', type: 'project', claim: '주문 시스템 MSA 전환', source: '주문 시스템 MSA 전환 프로젝트 참여' },
+  { id: 'claim_3', type: 'skill', claim: 'Kubernetes 운영', source: '기술 스택: Kubernetes, Docker' },
+];
+
+const SPECIFIC_ANSWER = '제가 직접 슬로우 쿼리 로그를 분석해서 인덱스를 설계했고, 평균 응답 시간을 500ms에서 300ms로 줄였습니다. 캐시보다 인덱스를 먼저 택한 이유는 데이터 정합성 문제 때문이었습니다.';
+const VAGUE_ANSWER = '그냥 팀에서 다 같이 개선했습니다.';
+
+describe('claim extraction', () => {
+  it('orders achievements first, dedupes and numbers the claims', () => {
+    const ordered = orderClaims([
+      { type: 'skill', claim: 'React', source: 'React' },
+      { type: 'project', claim: '결제 모듈 개발', source: '결제 모듈 개발' },
+      { type: 'achievement', claim: '전환율 12% 증가', source: '전환율 12% 증가' },
+      { type: 'project', claim: '결제 모듈  개발', source: '결제 모듈 개발' },
+    ]);
+
+    expect(ordered.map(c => [c.id, c.type])).toEqual([
+      ['claim_1', 'achievement'],
+      ['claim_2', 'project'],
+      ['claim_3', 'skill'],
+    ]);
+  });
+
+  it('falls back to resume lines that read like claims', () => {
+    const text = `홍길동\n010-1234-5678\n- 결제 시스템 리뉴얼 프로젝트 리드\n- 배치 처리 시간 3시간에서 20분으로 단축\n기술 스택: TypeScript, Go, PostgreSQL`;
+    const extracted = extractClaimsFromText(text);
+
+    expect(extracted.map(c => c.type)).toEqual(['achievement', 'project', 'skill']);
+    expect(extracted[0].source).toBe('배치 처리 시간 3시간에서 20분으로 단축');
+
+    const long = Array.from({ length: 20 }, (_, i) => `프로젝트 ${i}번 개발 담당`).join('\n');
+    expect(extractClaimsFromText(long)).toHaveLength(MAX_RESUME_CLAIMS);
+  });
+});
+
+describe('answer specificity', () => {
+  it('rewards numbers, ownership, actions and reasoning; penalises evasion', () => {
+    expect(scoreAnswerSpecificity(SPECIFIC_ANSWER)).toBeGreaterThanOrEqual(VERIFIED_SPECIFICITY);
+    expect(scoreAnswerSpecificity(VAGUE_ANSWER)).toBe(0);
+  });
+});
+
+describe('claim coverage', () => {
+  it('keeps probing a vague claim until it is verified or runs out of follow-ups', () => {
+    const asked = [
+      { role: 'interviewer', content: '40% 개선은 어떻게 측정하셨나요?', resume_claim_id: 'claim_1' },
+      { role: 'user', content: VAGUE_ANSWER },
+    ];
+    let coverage = measureClaimCoverage(claims, asked);
+    expect(coverage.map(c => c.status)).toEqual(['probing', 'pending', 'pending']);
+    expect(selectNextClaim(claims, coverage, 'claim_1')).toEqual({ claim: claims[0], followUp: true });
+
+    const verified = [
+      ...asked,
+      { role: 'interviewer', content: '정확히 무엇을 하셨나요?', resume_claim_id: 'claim_1' },
+      { role: 'user', content: SPECIFIC_ANSWER },
+    ];
+    coverage = measureClaimCoverage(claims, verified);
+    expect(coverage[0]).toMatchObject({ questions: 2, answers: 2, status: 'verified' });
+    expect(selectNextClaim(claims, coverage, 'claim_1')).toEqual({ claim: claims[1], followUp: false });
+
+    const exhausted = [
+      ...asked,
+      { role: 'interviewer', content: '본인 역할은요?', resume_claim_id: 'claim_1' },
+      { role: 'user', content: VAGUE_ANSWER },
+      { role: 'interviewer', content: '한 가지 사례만요.', resume_claim_id: 'claim_1' },
+      { role: 'user', content: VAGUE_ANSWER },
+    ];
+    coverage = measureClaimCoverage(claims, exhausted);
+    expect(coverage[0].status).toBe('unsubstantiated');
+    expect(selectNextClaim(claims, coverage, 'claim_1')?.claim.id).toBe('claim_2');
+  });
+
+  it('tells the interviewer which claim to ask about', () => {
+    const coverage = measureClaimCoverage(claims, []);
+    const context = formatResumeContext({ claim: claims[1], followUp: false, coverage });
+
+    expect(context).toContain('주문 시스템 MSA 전환 프로젝트 참여');
+    expect(context).toContain('진행: 0/3개 항목 질문');
+  });
+});
+
+describe('claim report', () => {
+  it('prefers the evaluator verdict and flags unsubstantiated claims', () => {
+    const coverage = measureClaimCoverage(claims, [
+      { role: 'interviewer', content: '측정 방법은요?', resume_claim_id: 'claim_1' },
+      { role: 'user', content: SPECIFIC_ANSWER },
+      { role: 'interviewer', content: 'MSA 전환에서 맡은 부분은요?', resume_claim_id: 'claim_2' },
+      { role: 'user', content: VAGUE_ANSWER },
+    ]);
+
+    const report = buildClaimReport(claims, coverage, [
+      { claim_id: 'claim_2', verdict: 'unsubstantiated', evidence: '"다 같이 개선" 외에 본인 역할 설명 없음' },
+      { claim_id: 'claim_3', verdict: 'verified', evidence: '질문하지 않은 항목' },
+    ]);
+
+    expect(report.map(c => [c.verdict, c.flagged])).toEqual([
+      ['verified', false],
+      ['unsubstantiated', true],
+      ['not_covered', false],
+    ]);
+    expect(report[1].evidence).toContain('본인 역할');
+    expect(report[2].evidence).toBe('면접 시간 내에 다루지 못함');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Per-answer rubric scoring
+// ============================================
+// Averages and question pairing, then answers scored in the background during
+// the message flow, backfilled and aggregated at the end (AI_PROVIDER=fake).
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import { POST as startInterview } from '@/app/api/interview/start/route';
+import { POST as sendMessage } from '@/app/api/interview/message/route';
+import { POST as endInterview } from '@/app/api/interview/end/route';
+import { llmRouter } from '@/lib/llm/router';
+import { collectAnsweredQuestions, scoreAnswer, summarizeAnswerScores, type AnswerScore } from '@/lib/scoring/answers';
+import { FAKE_ANSWER_SCORE, FAKE_TRANSCRIPT } from '@/lib/testing/fixtures';
+
+// Let the background scoring started by the message route finish
+const flushBackgroundScoring = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('answer score aggregation', () => {
+  it('averages each core category across the scored answers', () => {
+    const summary = summarizeAnswerScores([
+      { scores: { logical_structure: 4, job_expertise: 5, attitude_communication: 3, company_fit: 3, growth_potential: 4 } },
+      { scores: { logical_structure: 3, job_expertise: 4, attitude_communication: 3, company_fit: 2, growth_potential: 4 } },
+    ]);
+
+    expect(summary).toEqual({
+      answers: 2,
+      scores: { logical_structure: 3.5, job_expertise: 4.5, attitude_communication: 3, company_fit: 2.5, growth_potential: 4 },
+      total: 66,
+    });
+    expect(summarizeAnswerScores([])).toBeNull();
+  });
+
+  it('pairs each answer with the question before it', () => {
+    const answered = collectAnsweredQuestions([
+      { id: 'q1', role: 'interviewer', interviewer_id: 'hr_manager', content: '자기소개 부탁드립니다.' },
+      { id: 'a1', role: 'user', content: '안녕하세요.' },
+      { id: 'a2', role: 'user', content: '덧붙이자면...' },
+    ]);
+
+    expect(answered.map(({ message, question, interviewerId }) => [message.id, question, interviewerId])).toEqual([
+      ['a1', '자기소개 부탁드립니다.', 'hr_manager'],
+      ['a2', undefined, undefined],
+    ]);
+  });
+});
+
+describe('answer scoring in the interview flow', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...ROUTE_TEST_ENV };
+    delete process.env.OPENAI_API_KEY;
+    mockSupabase.reset();
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('returns null when the evaluator call fails', async () => {
+    jest.spyOn(llmRouter, 'complete').mockRejectedValueOnce(new Error('timeout'));
+    await expect(scoreAnswer({ answer: FAKE_TRANSCRIPT, jobType: 'frontend' })).resolves.toBeNull();
+  });
+
+  it('scores answers during the interview and builds the result from their averages', async () => {
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+    await sendMessage(post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT }));
+    await sendMessage(post('/api/interview/message', { session_id: session.id, content: `두 번째 답변입니다. ${FAKE_TRANSCRIPT}` }));
+    await flushBackgroundScoring();
+
+    const answers = () => mockSupabase.tables.messages.filter(row => row.role === 'user');
+    const scoreOf = (row: Record<string, unknown>) =>
+      mockSupabase.tables.answer_scores?.find(stored => stored.message_id === row.id)?.score as AnswerScore | undefined;
+    expect(answers().map(row => scoreOf(row)?.scores)).toEqual([FAKE_ANSWER_SCORE.scores, FAKE_ANSWER_SCORE.scores]);
+    expect(scoreOf(answers()[0])?.total).toBe(66);
+    expect(answers().every(row => !('answer_score' in row))).toBe(true);
+
+    // A score lost in the background is filled in at the end
+    mockSupabase.tables.answer_scores = mockSupabase.tables.answer_scores.filter(stored => stored.message_id !== answers()[1].id);
+
+    const { result } = await (await endInterview(post('/api/interview/end', { session_id: session.id }))).json();
+    expect(scoreOf(answers()[1])?.scores).toEqual(FAKE_ANSWER_SCORE.scores);
+
+    expect(result.answer_scorecards).toHaveLength(2);
+    expect(result.answer_scorecards[0]).toMatchObject({
+      message_id: answers()[0].id,
+      question: mockSupabase.tables.messages[0].content,
+      answer: FAKE_TRANSCRIPT,
+      total: 66,
+    });
+    expect(result.category_scores.logical_structure).toMatchObject({ score: 4, turn_average: 4 });
+    expect(result.category_scores.company_fit.reasoning).toContain('답변 2개 평균 3점');
+    expect(result.overall_score).toBe(66);
+    expect(mockSupabase.tables.interview_results[0].answer_scorecards).toHaveLength(2);
+  });
+});
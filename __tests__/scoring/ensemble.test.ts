@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Final evaluation ensemble
+// ============================================
+// Config parsing, consensus and agreement, then an end route run that samples
+// three diverging evaluations, with and without scored answers (AI_PROVIDER=fake
+// with the evaluation call stubbed).
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import { POST as startInterview } from '@/app/api/interview/start/route';
+import { POST as sendMessage } from '@/app/api/interview/message/route';
+import { POST as endInterview } from '@/app/api/interview/end/route';
+import { llmRouter, type CompletionRequest } from '@/lib/llm/router';
+import {
+  getEnsembleConfig,
+  measureAgreement,
+  mergeEvaluations,
+  determineConsensusPassStatus,
+  buildEnsembleReport,
+  MAX_ENSEMBLE_SIZE,
+} from '@/lib/scoring/ensemble';
+import { PASS_CRITERIA } from '@/lib/llm/prompts/scoring-rubric';
+import { FAKE_INTERVIEW_EVALUATION, FAKE_TRANSCRIPT } from '@/lib/testing/fixtures';
+
+// The fake evaluation with the core categories set to the given levels
+function evaluationWith(levels: [number, number, number, number, number], comment = '') {
+  const categories = ['logical_structure', 'job_expertise', 'attitude_communication', 'company_fit', 'growth_potential'];
+  return {
+    ...FAKE_INTERVIEW_EVALUATION,
+    category_scores: Object.fromEntries(categories.map((category, index) => [
+      category,
+      { score: levels[index], reasoning: `${category} ${levels[index]}` },
+    ])),
+    feedback_summary: comment || FAKE_INTERVIEW_EVALUATION.feedback_summary,
+  };
+}
+
+describe('ensemble config', () => {
+  it('reads the sample count and the models the samples rotate through', () => {
+    expect(getEnsembleConfig({})).toEqual({ size: 1, members: [] });
+    expect(getEnsembleConfig({ EVALUATION_ENSEMBLE_SIZE: '50' }).size).toBe(MAX_ENSEMBLE_SIZE);
+    expect(getEnsembleConfig({ EVALUATION_ENSEMBLE_SIZE: 'many' }).size).toBe(1);
+    expect(getEnsembleConfig({
+      EVALUATION_ENSEMBLE_SIZE: '3',
+      EVALUATION_ENSEMBLE_MODELS: 'openai, anthropic:claude-sonnet-4-5, unknown',
+    })).toEqual({
+      size: 3,
+      members: [{ provider: 'openai' }, { provider: 'anthropic', model: 'claude-sonnet-4-5' }],
+    });
+  });
+});
+
+describe('ensemble consensus', () => {
+  it('measures the spread of the samples', () => {
+    expect(measureAgreement([4, 4, 2])).toEqual({ mean: 3.33, spread: 0.94, min: 2, max: 4 });
+  });
+
+  it('averages the scores and keeps the text of the sample closest to the mean', () => {
+    const merged = mergeEvaluations([
+      evaluationWith([4, 4, 3, 3, 4], 'A'),
+      evaluationWith([4, 5, 4, 3, 4], 'B'),
+      evaluationWith([3, 2, 3, 3, 3], 'C'),
+    ]);
+
+    expect(merged.category_scores.job_expertise).toEqual({ score: 3.7, reasoning: 'job_expertise 4' });
+    expect(merged.feedback_summary).toBe('A');
+    expect(merged.interviewer_impressions.hiring_manager.score)
+      .toBe(FAKE_INTERVIEW_EVALUATION.interviewer_impressions.hiring_manager.score);
+  });
+
+  it('marks split verdicts borderline', () => {
+    expect(determineConsensusPassStatus(72, [75, 71, 73])).toBe('pass');
+    expect(determineConsensusPassStatus(72, [75, 66, 73])).toBe('borderline');
+    expect(determineConsensusPassStatus(40, [])).toBe('fail');
+  });
+
+  it('flags the categories the samples disagree on', () => {
+    const report = buildEnsembleReport([
+      { provider: 'openai', model: 'gpt-4o', total: 75, scores: { job_expertise: 4, company_fit: 3 } },
+      { provider: 'anthropic', model: 'claude', total: 55, scores: { job_expertise: 2, company_fit: 3 } },
+    ]);
+
+    expect(report.low_agreement).toEqual(['job_expertise']);
+    expect(report.categories.company_fit).toMatchObject({ spread: 0, low_agreement: false });
+    expect(report.total).toMatchObject({ mean: 65, spread: 10 });
+    expect(report.samples.map(sample => sample.pass_status)).toEqual(['pass', 'borderline']);
+    expect(report.verdicts_agree).toBe(false);
+  });
+});
+
+describe('ensemble evaluation in the end route', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...ROUTE_TEST_ENV };
+    delete process.env.OPENAI_API_KEY;
+    mockSupabase.reset();
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('scores the consensus of the samples and reports their spread', async () => {
+    process.env.EVALUATION_ENSEMBLE_SIZE = '3';
+
+    // Answers stay unscored so the evaluator's core scores decide the total
+    const samples = [evaluationWith([4, 4, 3, 3, 4]), evaluationWith([4, 4, 4, 4, 4]), evaluationWith([3, 2, 3, 3, 3])];
+    const complete = llmRouter.complete.bind(llmRouter);
+    const completeSpy = jest.spyOn(llmRouter, 'complete').mockImplementation(async (request: CompletionRequest) => {
+      if (request.operation === 'answer_scoring') throw new Error('timeout');
+      if (request.operation !== 'evaluation') return complete(request);
+      const response = await complete(request);
+      return { ...response, content: JSON.stringify(samples.shift()) };
+    });
+
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+    await sendMessage(post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT }));
+    const { result } = await (await endInterview(post('/api/interview/end', { session_id: session.id }))).json();
+
+    const evaluationCalls = completeSpy.mock.calls.filter(([request]) => request.operation === 'evaluation');
+    expect(evaluationCalls.map(([request]) => request.temperature)).toEqual([0.7, 0.7, 0.7]);
+
+    expect(result.category_scores.job_expertise.score).toBe(3.3);
+    expect(result.evaluation_ensemble.samples.map((sample: { total: number }) => sample.total)).toEqual([66, 75, 43]);
+    expect(result.evaluation_ensemble.low_agreement).toEqual(['job_expertise']);
+    expect(result.evaluation_ensemble.verdicts_agree).toBe(false);
+    expect(result.pass_status).toBe('borderline');
+    expect(mockSupabase.tables.interview_results[0].evaluation_ensemble).toEqual(result.evaluation_ensemble);
+  });
+
+  it('judges the samples before the core categories are grounded in the answer scores', async () => {
+    process.env.EVALUATION_ENSEMBLE_SIZE = '3';
+
+    const samples = [evaluationWith([4, 4, 3, 3, 4]), evaluationWith([4, 4, 4, 4, 4]), evaluationWith([3, 2, 3, 3, 3])];
+    const complete = llmRouter.complete.bind(llmRouter);
+    jest.spyOn(llmRouter, 'complete').mockImplementation(async (request: CompletionRequest) => {
+      if (request.operation !== 'evaluation') return complete(request);
+      const response = await complete(request);
+      return { ...response, content: JSON.stringify(samples.shift()) };
+    });
+
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+    await sendMessage(post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT }));
+    const { result } = await (await endInterview(post('/api/interview/end', { session_id: session.id }))).json();
+
+    // The final core scores follow the scored answer...
+    expect(result.category_scores.job_expertise).toMatchObject({ score: 4, turn_average: 4 });
+
+    // ...while the samples keep their own totals, which straddle the pass line
+    const totals = result.evaluation_ensemble.samples.map((sample: { total: number }) => sample.total);
+    expect(totals).toEqual([66, 75, 43]);
+    expect(totals.some((total: number) => total >= PASS_CRITERIA.pass)).toBe(true);
+    expect(totals.some((total: number) => total < PASS_CRITERIA.pass)).toBe(true);
+    expect(result.evaluation_ensemble.total.spread).toBeGreaterThan(0);
+    expect(result.evaluation_ensemble.verdicts_agree).toBe(false);
+    expect(result.pass_status).toBe('borderline');
+
+    expect(result.evaluation_ensemble.categories.job_expertise).toMatchObject({ min: 2, max: 4, spread: 0.94 });
+    expect(result.evaluation_ensemble.categories.logical_structure.spread).toBeGreaterThan(0);
+    expect(result.evaluation_ensemble.low_agreement).toEqual(['job_expertise']);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Shared interview evaluation
+// ============================================
+// The schema, totals and saved fields both scoring paths use, a guard that the
+// module stays importable from the Deno edge function, then an end route run
+// that stamps the result with the scoring version (AI_PROVIDER=fake).
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import * as fs from 'fs';
+import * as path from 'path';
+import { POST as startInterview } from '@/app/api/interview/start/route';
+import { POST as sendMessage } from '@/app/api/interview/message/route';
+import { POST as endInterview } from '@/app/api/interview/end/route';
+import { llmRouter, type CompletionRequest } from '@/lib/llm/router';
+import {
+  SCORING_VERSION,
+  EVALUATION_SCHEMA,
+  buildEvaluationSchema,
+  buildEvaluationPrompt,
+  formatEvaluationTranscript,
+  parseEvaluation,
+  createFallbackEvaluation,
+  completeModeScores,
+  calculateEvaluationTotal,
+  buildEvaluationRecord,
+} from '@/lib/scoring/evaluation';
+import { FAKE_INTERVIEW_EVALUATION, FAKE_TRANSCRIPT } from '@/lib/testing/fixtures';
+
+describe('evaluation schema and prompt', () => {
+  it('adds the mode axes and claim verdicts to the base schema', () => {
+    expect(buildEvaluationSchema([])).toBe(EVALUATION_SCHEMA);
+
+    const schema = buildEvaluationSchema(['coding', 'language_proficiency'], true);
+    expect(schema.properties.category_scores.required).toEqual(
+      expect.arrayContaining(['logical_structure', 'coding', 'language_proficiency'])
+    );
+    expect(schema.required).toContain('claim_verdicts');
+    expect(EVALUATION_SCHEMA.required).not.toContain('claim_verdicts');
+  });
+
+  it('formats the transcript and places it in the prompt', () => {
+    const transcript = formatEvaluationTranscript(
+      [
+        { role: 'assistant', content: '자기소개 부탁드립니다.', interviewer_id: 'hr_manager' },
+        { role: 'user', content: '안녕하세요.', resume_claim_id: 'claim-1' },
+        { role: 'assistant', content: '저는 반대합니다.', interviewer_id: 'peer-1' },
+      ],
+      msg => (msg.interviewer_id === 'peer-1' ? '김토론' : undefined)
+    );
+    expect(transcript.split('\n')).toEqual([
+      'HR 담당자: 자기소개 부탁드립니다.',
+      '지원자 [claim-1]: 안녕하세요.',
+      '김토론: 저는 반대합니다.',
+    ]);
+
+    const prompt = buildEvaluationPrompt({
+      jobType: 'frontend',
+      difficulty: 'medium',
+      language: 'en',
+      modes: ['language_proficiency'],
+      transcript,
+    });
+    expect(prompt).toContain(transcript);
+    expect(prompt).toContain('language_proficiency');
+  });
+});
+
+describe('evaluation results', () => {
+  it('rejects output that is not an evaluation', () => {
+    expect(parseEvaluation('not json')).toBeNull();
+    expect(parseEvaluation(JSON.stringify({ feedback_summary: '요약' }))).toBeNull();
+    expect(parseEvaluation(JSON.stringify(FAKE_INTERVIEW_EVALUATION))).toEqual(FAKE_INTERVIEW_EVALUATION);
+  });
+
+  it('scores missing mode axes as average and totals with the rubric weights', () => {
+    const evaluation = createFallbackEvaluation();
+    const categoryScores = completeModeScores(evaluation.category_scores, ['coding'], 'ko');
+
+    expect(categoryScores.coding).toEqual({ score: 3, reasoning: '평가 결과 없음' });
+    expect(evaluation.category_scores.coding).toBeUndefined();
+    expect(calculateEvaluationTotal(categoryScores, ['coding'])).toBe(50);
+  });
+
+  it('builds the saved fields stamped with the scoring version', () => {
+    const evaluation = parseEvaluation(JSON.stringify(FAKE_INTERVIEW_EVALUATION))!;
+    const total = calculateEvaluationTotal(evaluation.category_scores, []);
+    const record = buildEvaluationRecord(evaluation, total);
+
+    expect(total).toBe(66);
+    expect(record).toMatchObject({
+      overall_score: 66,
+      pass_status: 'borderline',
+      scoring_version: SCORING_VERSION,
+      interviewer_comments: {
+        hiring_manager: FAKE_INTERVIEW_EVALUATION.interviewer_impressions.hiring_manager.comment,
+      },
+    });
+    expect(buildEvaluationRecord(evaluation, total, 'fail').pass_status).toBe('fail');
+  });
+
+  it('imports only what the edge function can resolve', () => {
+    const source = fs.readFileSync(path.join(process.cwd(), 'lib/scoring/evaluation.ts'), 'utf-8');
+    const imports = Array.from(source.matchAll(/from '([^']+)'/g), match => match[1]);
+    expect(imports.sort()).toEqual(['@/lib/llm/prompts/scoring-rubric', '@/types/interview']);
+  });
+});
+
+describe('end route scoring version', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...ROUTE_TEST_ENV };
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.EVALUATION_ENSEMBLE_SIZE;
+    mockSupabase.reset();
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('saves the shared record with the scoring version', async () => {
+    // Answers stay unscored so the evaluator's core scores decide the total
+    const complete = llmRouter.complete.bind(llmRouter);
+    jest.spyOn(llmRouter, 'complete').mockImplementation(async (request: CompletionRequest) => {
+      if (request.operation === 'answer_scoring') throw new Error('timeout');
+      return complete(request);
+    });
+
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+    await sendMessage(post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT }));
+    const { result } = await (await endInterview(post('/api/interview/end', { session_id: session.id }))).json();
+
+    expect(result).toMatchObject({ overall_score: 66, pass_status: 'borderline', scoring_version: SCORING_VERSION });
+    expect(mockSupabase.tables.interview_results[0]).toMatchObject({
+      overall_score: 66,
+      scoring_version: SCORING_VERSION,
+      interviewer_comments: result.interviewer_comments,
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Bulk re-scoring
+// ============================================
+// Picking a scoring version for result views, selecting results for a job,
+// re-scoring a result like the end route, then a job run through the admin API
+// in batches with a pause and resume, a pause during a batch and overlapping runs
+// (AI_PROVIDER=fake, in-memory Supabase).
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import { POST as createJob } from '@/app/api/admin/rescore/route';
+import { POST as runJob } from '@/app/api/admin/rescore/[id]/route';
+import { selectResultsForRescore, rescoreResult } from '@/lib/scoring/rescore';
+import { selectScoringVersion, listScoringVersions } from '@/lib/scoring/versions';
+import { SCORING_VERSION, calculateEvaluationTotal } from '@/lib/scoring/evaluation';
+import { llmRouter } from '@/lib/llm/router';
+import { FAKE_ANSWER_SCORE } from '@/lib/testing/fixtures';
+import { TEST_USER } from '@/lib/testing/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const supabase = mockSupabase.client as unknown as SupabaseClient;
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+// A finished coding interview scored at the given version
+function seedResult(sessionId: string, scoringVersion: string, createdAt: string, withMessages = true) {
+  (mockSupabase.tables.interview_sessions ||= []).push({
+    id: sessionId,
+    user_id: TEST_USER.id,
+    job_type: 'backend',
+    difficulty: 'medium',
+    interview_mode: 'coding',
+    timer_config: { language: 'ko', coding_problem_id: 'merge_intervals' },
+  });
+  if (withMessages) {
+    (mockSupabase.tables.messages ||= []).push(
+      { id: `${sessionId}-q`, session_id: sessionId, role: 'interviewer', content: '구간 병합 문제를 풀어보세요.', interviewer_id: 'senior_peer', created_at: createdAt },
+      {
+        id: `${sessionId}-a`,
+        session_id: sessionId,
+        role: 'user',
+        content: '정렬한 뒤 한 번 순회하며 병합했습니다.',
+        code_submission: {
+          problem_id: 'merge_intervals',
+          language: 'javascript',
+          source: 'function merge(intervals) {}',
+          edit_history: [],
+          hidden_tests: { passed: 8, total: 10, failed: ['overlapping chain', 'single interval'] },
+        },
+        created_at: createdAt,
+      },
+    );
+  }
+  const resultId = `result-${sessionId}`;
+  (mockSupabase.tables.interview_results ||= []).push({
+    id: resultId,
+    session_id: sessionId,
+    user_id: TEST_USER.id,
+    overall_score: 80,
+    pass_status: 'pass',
+    scoring_version: scoringVersion,
+    category_scores: { coding: { score: 5, reasoning: '숨김 테스트 10/10 통과', tests_passed: 10, tests_total: 10 } },
+    created_at: createdAt,
+  });
+  return resultId;
+}
+
+describe('scoring version views', () => {
+  const results = [
+    {
+      overall_score: 80,
+      pass_status: 'pass',
+      scoring_version: 'v1',
+      interview_result_versions: [{ scoring_version: 'v2', overall_score: 62, pass_status: 'borderline' }],
+    },
+    { overall_score: 70, pass_status: 'pass', scoring_version: 'v1', interview_result_versions: [] },
+    { overall_score: 55, pass_status: 'borderline', scoring_version: 'v2' },
+  ];
+
+  it('lists the versions and shows each result at the chosen one', () => {
+    expect(listScoringVersions(results)).toEqual(['v1', 'v2']);
+    expect(selectScoringVersion(results, null)).toBe(results);
+
+    // Re-scored where possible, natively scored otherwise, never-scored left out
+    expect(selectScoringVersion(results, 'v2').map(result => result.overall_score)).toEqual([62, 55]);
+    expect(selectScoringVersion(results, 'v1').map(result => result.overall_score)).toEqual([80, 70]);
+  });
+});
+
+describe('re-scoring', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...ROUTE_TEST_ENV };
+    delete process.env.OPENAI_API_KEY;
+    mockSupabase.reset();
+    mockSupabase.tables.profiles = [{ id: TEST_USER.id, role: 'admin' }];
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('selects results not yet at the current version', async () => {
+    const older = seedResult('s1', 'v1', '2026-01-05T00:00:00.000Z');
+    const newer = seedResult('s2', 'v1', '2026-03-05T00:00:00.000Z');
+    seedResult('s3', SCORING_VERSION, '2026-03-06T00:00:00.000Z');
+    const rescored = seedResult('s4', 'v1', '2026-03-07T00:00:00.000Z');
+    mockSupabase.tables.interview_result_versions = [{ result_id: rescored, scoring_version: SCORING_VERSION }];
+
+    expect(await selectResultsForRescore(supabase, {})).toEqual([older, newer]);
+    expect(await selectResultsForRescore(supabase, { limit: 1 })).toEqual([older]);
+    expect(await selectResultsForRescore(supabase, { from: '2026-02-01' })).toEqual([newer]);
+    expect(await selectResultsForRescore(supabase, { session_ids: ['s1', 's3'] })).toEqual([older]);
+    expect(await selectResultsForRescore(supabase, { source_version: 'v0' })).toEqual([]);
+  });
+
+  it('re-scores the answers and finalizes the scores like the end route', async () => {
+    const resultId = seedResult('s1', 'v1', '2026-01-05T00:00:00.000Z');
+    const version = await rescoreResult(supabase, resultId, { jobId: 'job-1' });
+
+    // Mode axes are measured from the stored messages, not copied from the original
+    expect(version.category_scores.coding).toMatchObject({ tests_passed: 8, tests_total: 10 });
+    expect(version.category_scores.coding.reasoning).toContain('숨김 테스트 8/10 통과');
+
+    // Core categories follow the answers scored again, which aren't saved
+    expect(version.category_scores.attitude_communication).toMatchObject({
+      score: FAKE_ANSWER_SCORE.scores.attitude_communication,
+      turn_average: FAKE_ANSWER_SCORE.scores.attitude_communication,
+    });
+    expect(mockSupabase.tables.answer_scores ?? []).toHaveLength(0);
+    expect(version.overall_score).toBe(calculateEvaluationTotal(version.category_scores, ['coding']));
+    expect(version).toMatchObject({ result_id: resultId, session_id: 's1', scoring_version: SCORING_VERSION, job_id: 'job-1' });
+  });
+
+  it('evaluates a resume deep-dive with its mode sections and claim verdicts', async () => {
+    mockSupabase.tables.interview_sessions = [{
+      id: 's1',
+      user_id: TEST_USER.id,
+      job_type: 'backend',
+      difficulty: 'medium',
+      interview_mode: 'resume_deep_dive',
+      timer_config: {
+        language: 'ko',
+        resume_plan: {
+          claims: [{ id: 'claim_1', type: 'achievement', claim: 'API 응답 속도 40% 개선', source: 'API 응답 속도 40% 개선' }],
+        },
+      },
+    }];
+    mockSupabase.tables.messages = [
+      { id: 'q', session_id: 's1', role: 'interviewer', content: '40% 개선은 어떻게 측정하셨나요?', resume_claim_id: 'claim_1', created_at: '2026-01-05T00:00:00.000Z' },
+      { id: 'a', session_id: 's1', role: 'user', content: '팀에서 다 같이 개선했습니다.', created_at: '2026-01-05T00:00:01.000Z' },
+    ];
+    mockSupabase.tables.interview_results = [{ id: 'r1', session_id: 's1', user_id: TEST_USER.id, scoring_version: 'v1' }];
+
+    const complete = llmRouter.complete.bind(llmRouter);
+    const completeSpy = jest.spyOn(llmRouter, 'complete').mockImplementation(async request => {
+      const response = await complete(request);
+      if (request.operation !== 'rescore') return response;
+      return {
+        ...response,
+        content: JSON.stringify({
+          ...JSON.parse(response.content),
+          claim_verdicts: [{ claim_id: 'claim_1', verdict: 'unsubstantiated', evidence: '본인 역할 설명 없음' }],
+        }),
+      };
+    });
+
+    const version = await rescoreResult(supabase, 'r1');
+
+    const [request] = completeSpy.mock.calls.map(([call]) => call).filter(call => call.operation === 'rescore');
+    const prompt = request.messages[request.messages.length - 1].content;
+    expect(prompt).toContain('## 이력서 검증 항목');
+    expect(prompt).toContain('### 5. 이력서 항목 검증');
+    expect(request.jsonSchema?.schema.required).toContain('claim_verdicts');
+
+    expect(version.claim_verification).toEqual([expect.objectContaining({
+      claim_id: 'claim_1',
+      verdict: 'unsubstantiated',
+      evidence: '본인 역할 설명 없음',
+      flagged: true,
+    })]);
+    expect(version.evaluation_ensemble).toBeNull();
+  });
+
+  it('samples the ensemble and judges the verdict like the end route', async () => {
+    process.env.EVALUATION_ENSEMBLE_SIZE = '3';
+    const resultId = seedResult('s1', 'v1', '2026-01-05T00:00:00.000Z');
+    const completeSpy = jest.spyOn(llmRouter, 'complete');
+
+    const version = await rescoreResult(supabase, resultId);
+
+    expect(completeSpy.mock.calls.filter(([request]) => request.operation === 'rescore')).toHaveLength(3);
+    expect(version.evaluation_ensemble?.samples).toHaveLength(3);
+    expect(version.evaluation_ensemble?.verdicts_agree).toBe(true);
+    expect(version.pass_status).toBe(version.evaluation_ensemble?.samples[0].pass_status);
+  });
+
+  it('runs a job in batches, pauses, resumes and records failures', async () => {
+    seedResult('s1', 'v1', '2026-01-05T00:00:00.000Z');
+    seedResult('s2', 'v1', '2026-01-06T00:00:00.000Z', false);
+    for (let index = 3; index <= 7; index++) {
+      seedResult(`s${index}`, 'v1', `2026-01-0${index + 4}T00:00:00.000Z`);
+    }
+
+    const created = await (await createJob(post('/api/admin/rescore', { source_version: 'v1' }))).json();
+    expect(created.job).toMatchObject({ scoring_version: SCORING_VERSION, status: 'running' });
+    expect(created.job.result_ids).toHaveLength(7);
+
+    // First batch, then a pause
+    const first = await (await runJob(post(`/api/admin/rescore/${created.job.id}`, {}), params(created.job.id))).json();
+    expect(first.job).toMatchObject({ cursor: 5, rescored: 4, status: 'running' });
+    expect(first.job.failures).toEqual([{ result_id: 'result-s2', error: 'No messages' }]);
+
+    const paused = await (await runJob(post(`/api/admin/rescore/${created.job.id}`, { action: 'pause' }), params(created.job.id))).json();
+    expect(paused.job.status).toBe('paused');
+
+    // Resuming picks up at the cursor
+    const resumed = await (await runJob(post(`/api/admin/rescore/${created.job.id}`, {}), params(created.job.id))).json();
+    expect(resumed.job).toMatchObject({ cursor: 7, rescored: 6, status: 'completed' });
+    expect(resumed.job.completed_at).toBeTruthy();
+
+    const versions = mockSupabase.tables.interview_result_versions;
+    expect(versions).toHaveLength(6);
+    expect(versions.every(version => version.scoring_version === SCORING_VERSION && version.job_id === created.job.id)).toBe(true);
+    // Originals stay as they were
+    expect(mockSupabase.tables.interview_results.every(result => result.scoring_version === 'v1' && result.overall_score === 80)).toBe(true);
+  });
+
+  it('keeps a pause sent during a batch', async () => {
+    for (let index = 1; index <= 7; index++) {
+      seedResult(`s${index}`, 'v1', `2026-01-0${index + 1}T00:00:00.000Z`);
+    }
+    const { job } = await (await createJob(post('/api/admin/rescore', {}))).json();
+
+    // The pause lands while the batch's evaluations are in flight
+    const complete = llmRouter.complete.bind(llmRouter);
+    let paused = false;
+    jest.spyOn(llmRouter, 'complete').mockImplementation(async request => {
+      if (!paused) {
+        paused = true;
+        await runJob(post(`/api/admin/rescore/${job.id}`, { action: 'pause' }), params(job.id));
+      }
+      return complete(request);
+    });
+
+    const batch = await (await runJob(post(`/api/admin/rescore/${job.id}`, {}), params(job.id))).json();
+    expect(batch.job).toMatchObject({ cursor: 5, rescored: 5, status: 'paused' });
+    expect(mockSupabase.tables.rescore_jobs[0].status).toBe('paused');
+  });
+
+  it('never re-scores or counts a batch twice when runs overlap', async () => {
+    for (let index = 1; index <= 7; index++) {
+      seedResult(`s${index}`, 'v1', `2026-01-0${index + 1}T00:00:00.000Z`);
+    }
+    const { job } = await (await createJob(post('/api/admin/rescore', {}))).json();
+
+    const run = () => runJob(post(`/api/admin/rescore/${job.id}`, {}), params(job.id)).then(response => response.json());
+    await Promise.all([run(), run()]);
+    let latest = await run();
+    while (latest.job.status !== 'completed') latest = await run();
+
+    expect(latest.job).toMatchObject({ cursor: 7, rescored: 7, failures: [] });
+    expect(mockSupabase.tables.interview_result_versions).toHaveLength(7);
+  });
+
+  it('refuses callers without the admin role', async () => {
+    mockSupabase.tables.profiles = [{ id: TEST_USER.id, role: 'user' }];
+    const response = await createJob(post('/api/admin/rescore', {}));
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Session pause, recovery and expiry
+// ============================================
+// Clock validation and restore, then pause -> reopen -> resume through the
+// API routes with AI_PROVIDER=fake and the in-memory Supabase stand-in.
+
+import { mockSupabase, post, ROUTE_TEST_ENV } from '@/lib/testing/routes';
+import { POST as startInterview } from '@/app/api/interview/start/route';
+import { POST as sendMessage } from '@/app/api/interview/message/route';
+import { POST as pauseInterview } from '@/app/api/interview/pause/route';
+import { POST as recoverInterview } from '@/app/api/interview/recover/route';
+import { parseSessionClock, restoreSessionClock, isSessionExpired, INTERVIEW_TIME_LIMIT } from '@/lib/interview/clock';
+import { FAKE_TRANSCRIPT } from '@/lib/testing/fixtures';
+
+describe('session clock', () => {
+  it('clamps the client clock to the session time limit', () => {
+    const parsed = parseSessionClock({ remaining_seconds: 999.4, answer_seconds_left: 41.6 }, 300, new Date(0));
+    expect(parsed).toEqual({
+      clock: { time_limit: 300, remaining_seconds: 300, answer_seconds_left: 42, saved_at: new Date(0).toISOString() },
+    });
+    expect(parseSessionClock({ remaining_seconds: 'soon' }, 300)).toHaveProperty('error');
+  });
+
+  it('restores the saved clock, or the time left after the conversation so far', () => {
+    const saved = { time_limit: 300, remaining_seconds: 120, saved_at: '2026-01-01T00:00:00.000Z' };
+    expect(restoreSessionClock({ clock: saved }, []).remaining_seconds).toBe(120);
+
+    const presentation = { minutes: 5, deck: { filename: 'deck.pdf', slides: [], parse_method: 'basic' } };
+    const restored = restoreSessionClock({ presentation }, [
+      { created_at: '2026-01-01T00:00:00.000Z' },
+      { created_at: '2026-01-01T00:01:30.000Z' },
+    ]);
+    expect(restored.time_limit).toBe(INTERVIEW_TIME_LIMIT + 300);
+    expect(restored.remaining_seconds).toBe(INTERVIEW_TIME_LIMIT + 300 - 90);
+  });
+
+  it('expires unfinished sessions after a day without activity', () => {
+    const now = Date.UTC(2026, 0, 2, 1);
+    expect(isSessionExpired({ status: 'paused', updated_at: '2026-01-01T00:00:00.000Z' }, now)).toBe(true);
+    expect(isSessionExpired({ status: 'active', updated_at: '2026-01-02T00:00:00.000Z' }, now)).toBe(false);
+    expect(isSessionExpired({ status: 'completed', updated_at: '2025-01-01T00:00:00.000Z' }, now)).toBe(false);
+  });
+});
+
+describe('pause and recovery routes', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...ROUTE_TEST_ENV };
+    delete process.env.OPENAI_API_KEY;
+    mockSupabase.reset();
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('pauses, reopens without charging again and resumes where it stopped', async () => {
+    const rpcSpy = jest.spyOn(mockSupabase.client, 'rpc');
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+    await sendMessage(post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT }));
+
+    const paused = await (await pauseInterview(post('/api/interview/pause', {
+      session_id: session.id,
+      action: 'pause',
+      clock: { remaining_seconds: 200 },
+    }))).json();
+    expect(paused.status).toBe('paused');
+    expect(mockSupabase.tables.interview_sessions[0].status).toBe('paused');
+
+    const rejected = await sendMessage(post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT }));
+    expect(rejected.status).toBe(409);
+
+    const recovered = await (await recoverInterview(post('/api/interview/recover', { session_id: session.id }))).json();
+    expect(recovered.success).toBe(true);
+    expect(recovered.session.status).toBe('paused');
+    expect(recovered.messages.map((m: { role: string }) => m.role)).toEqual(['interviewer', 'user', 'interviewer']);
+    expect(recovered.clock).toMatchObject({ time_limit: INTERVIEW_TIME_LIMIT, remaining_seconds: 200 });
+    expect(recovered.interviewer_names).toEqual(session.timer_config.interviewer_names);
+    expect(rpcSpy.mock.calls.filter(([fn]) => fn === 'use_credit')).toHaveLength(1);
+
+    await pauseInterview(post('/api/interview/pause', {
+      session_id: session.id,
+      action: 'resume',
+      clock: { remaining_seconds: 200 },
+    }));
+    const next = await (await sendMessage(post('/api/interview/message', { session_id: session.id, content: FAKE_TRANSCRIPT }))).json();
+    expect(next.success).toBe(true);
+    expect(next.turn_count).toBe(2);
+  });
+
+  it('reopens an active session paused after a crash', async () => {
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+
+    const recovered = await (await recoverInterview(post('/api/interview/recover', { session_id: session.id }))).json();
+    expect(recovered.session.status).toBe('paused');
+    expect(recovered.clock.remaining_seconds).toBe(INTERVIEW_TIME_LIMIT);
+    expect(mockSupabase.tables.interview_sessions[0].status).toBe('paused');
+  });
+
+  it('expires abandoned sessions instead of reopening them', async () => {
+    const { session } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+    mockSupabase.tables.interview_sessions[0].updated_at = '2020-01-01T00:00:00.000Z';
+
+    const expired = await recoverInterview(post('/api/interview/recover', { session_id: session.id }));
+    expect(expired.status).toBe(410);
+    expect(mockSupabase.tables.interview_sessions[0].status).toBe('abandoned');
+
+    // Starting a new interview also sweeps the user's stale sessions
+    const { session: second } = await (await startInterview(post('/api/interview/start', { job_type: 'frontend' }))).json();
+    const stale = mockSupabase.tables.interview_sessions.find(row => row.id === second.id)!;
+    stale.updated_at = '2020-01-01T00:00:00.000Z';
+    await startInterview(post('/api/interview/start', { job_type: 'frontend' }));
+    expect(stale.status).toBe('abandoned');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Sentence-level TTS pipelining
+// ============================================
+
+import { SentenceBuffer } from '@/lib/streaming/sentence-buffer';
+import { StreamingPipeline, type SentenceAudioData, type StreamingEvent } from '@/lib/streaming/pipeline';
+import { FAKE_INTERVIEWER_TURNS } from '@/lib/testing/fixtures';
+
+function feed(buffer: SentenceBuffer, tokens: string[]): string[] {
+  return [...tokens.flatMap(token => buffer.push(token)), ...buffer.flush()];
+}
+
+describe('SentenceBuffer', () => {
+  it('releases a sentence once the next one starts', () => {
+    const buffer = new SentenceBuffer();
+
+    expect(buffer.push('프로젝트 경험을 잘 들었습')).toEqual([]);
+    expect(buffer.push('니다.')).toEqual([]);
+    expect(buffer.push(' 그때 어떤')).toEqual(['프로젝트 경험을 잘 들었습니다.']);
+    expect(buffer.flush()).toEqual(['그때 어떤']);
+  });
+
+  it('keeps numbers, abbreviations and split tokens intact', () => {
+    const sentences = feed(new SentenceBuffer(), [
+      '응답 시간을 약 1', '0.5초 줄였다고 하셨', '는데요. 그 수치는 어떻게 ', '측정하셨나요? 네.',
+    ]);
+
+    expect(sentences).toEqual([
+      '응답 시간을 약 10.5초 줄였다고 하셨는데요.',
+      '그 수치는 어떻게 측정하셨나요?',
+      '네.',
+    ]);
+  });
+});
+
+describe('StreamingPipeline.processAudioParallel', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'fake' };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('emits ordered per-sentence audio before the LLM finishes', async () => {
+    const pipeline = new StreamingPipeline();
+    const events: StreamingEvent[] = [];
+
+    for await (const event of pipeline.processAudioParallel(Buffer.alloc(16), {
+      interviewerId: 'hiring_manager',
+      position: 'frontend',
+      conversationHistory: [],
+    })) {
+      events.push(event);
+    }
+
+    const types = events.map(event => event.type);
+    expect(types).not.toContain('error');
+
+    const sentences = events
+      .filter(event => event.type === 'tts_sentence')
+      .map(event => event.data as SentenceAudioData);
+
+    expect(sentences.map(sentence => sentence.index)).toEqual([0, 1]);
+    expect(sentences.map(sentence => sentence.text).join(' ')).toBe(FAKE_INTERVIEWER_TURNS[0]);
+    expect(Buffer.from(sentences[0].audio, 'base64').subarray(0, 2)).toEqual(Buffer.from([0xff, 0xfb]));
+
+    // The first sentence is voiced while the LLM is still streaming
+    expect(types.indexOf('tts_sentence')).toBeLessThan(types.indexOf('llm_complete'));
+    expect(types[types.length - 1]).toBe('tts_complete');
+    expect((events[events.length - 1].data as { sentenceCount: number }).sentenceCount).toBe(2);
+  });
+});
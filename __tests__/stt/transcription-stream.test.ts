@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Streaming transcription (fake provider)
+// ============================================
+// The fake provider "speaks" the fixture answer at its word timings, so interim
+// updates reveal it progressively and finish() returns the whole transcript.
+
+import { sttService, type TranscriptionUpdate } from '@/lib/stt/service';
+import { REALTIME_SAMPLE_RATE } from '@/lib/realtime/pcm';
+import { FAKE_TRANSCRIPT, FAKE_TRANSCRIPTION_WORDS } from '@/lib/testing/fixtures';
+
+const CHUNK = new Int16Array(REALTIME_SAMPLE_RATE / 10); // 100ms
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('TranscriptionStream', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'fake' };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('emits interim words with a growing stable prefix, then the final transcript', async () => {
+    const updates: TranscriptionUpdate[] = [];
+    const stream = sttService.createStream({ onUpdate: update => updates.push(update) });
+
+    for (let i = 0; i < 25; i++) {
+      stream.push(CHUNK);
+      await flush();
+    }
+
+    const interim = updates.filter(update => update.type === 'interim');
+    expect(interim.map(update => update.words.length)).toEqual([3, 4]);
+
+    // Passes at 1.0s and 2.0s; at 2.0s the words ending by 1.0s are frozen
+    expect(interim[0].text).toBe('저는 삼 년');
+    expect(interim[1].stableWordCount).toBe(3);
+    expect(interim[1].words.map(w => w.word)).toEqual(FAKE_TRANSCRIPTION_WORDS.slice(0, 4).map(w => w.word));
+
+    const result = await stream.finish();
+    expect(result.text).toBe(FAKE_TRANSCRIPT);
+
+    const final = updates[updates.length - 1];
+    expect(final.type).toBe('final');
+    expect(final.words).toHaveLength(FAKE_TRANSCRIPTION_WORDS.length);
+    expect(final.stableWordCount).toBe(FAKE_TRANSCRIPTION_WORDS.length);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+// ============================================
+// Voice activity detection + silence stats
+// ============================================
+
+import { detectVoiceActivity } from '@/lib/stt/vad';
+import { REALTIME_SAMPLE_RATE, MAX_WAV_UPLOAD_BYTES, decodeWav, encodeWav, wavByteLength } from '@/lib/realtime/pcm';
+import { analyzeVoice } from '@/lib/analysis/voice';
+import { FAKE_TRANSCRIPT, FAKE_TRANSCRIPTION_WORDS } from '@/lib/testing/fixtures';
+
+function tone(seconds: number, amplitude = 0.3): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * REALTIME_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(amplitude * 32767 * Math.sin((2 * Math.PI * 220 * i) / REALTIME_SAMPLE_RATE));
+  }
+  return samples;
+}
+
+function silence(seconds: number): Int16Array {
+  return new Int16Array(Math.round(seconds * REALTIME_SAMPLE_RATE));
+}
+
+function concat(...parts: Int16Array[]): Int16Array {
+  return decodeWav(encodeWav(parts))!.samples;
+}
+
+describe('detectVoiceActivity', () => {
+  it('trims leading and trailing silence and reports it separately', () => {
+    const result = detectVoiceActivity(concat(silence(3), tone(2), silence(1.5)));
+
+    expect(result.hasSpeech).toBe(true);
+    expect(result.durationSeconds).toBe(6.5);
+    // 200ms padding is kept on both sides of the speech
+    expect(result.leadingSilenceSeconds).toBe(2.8);
+    expect(result.trailingSilenceSeconds).toBe(1.3);
+    expect(result.segments).toEqual([{ startSample: 2.8 * REALTIME_SAMPLE_RATE, endSample: 5.2 * REALTIME_SAMPLE_RATE }]);
+  });
+
+  it('ignores a short click and reports no speech', () => {
+    const result = detectVoiceActivity(concat(silence(1), tone(0.04), silence(1)));
+
+    expect(result.hasSpeech).toBe(false);
+    expect(result.segments).toEqual([]);
+  });
+
+  it('splits long answers at the longest pause', () => {
+    const samples = concat(tone(20), silence(0.2), tone(4), silence(0.6), tone(20));
+    const result = detectVoiceActivity(samples, { maxSegmentSeconds: 30 });
+
+    expect(result.segments).toHaveLength(2);
+    const splitSeconds = result.segments[0].endSample / REALTIME_SAMPLE_RATE;
+    expect(splitSeconds).toBeGreaterThan(24.2);
+    expect(splitSeconds).toBeLessThan(24.8);
+    expect(result.segments[1].endSample).toBe(samples.length);
+  });
+});
+
+describe('analyzeVoice silence stats', () => {
+  it('separates thinking time before the answer from pauses within it', () => {
+    const words = FAKE_TRANSCRIPTION_WORDS.map(w => ({ ...w, start: w.start + 4, end: w.end + 4 }));
+    const analysis = analyzeVoice(FAKE_TRANSCRIPT, words, 12, {
+      leadingSilenceSeconds: 3.8,
+      trailingSilenceSeconds: 0.7,
+    });
+
+    expect(analysis.silenceStats.leadingSilence).toBe(3.8);
+    expect(analysis.silenceStats.trailingSilence).toBe(0.7);
+    // Only the ~1.2s gap inside the answer counts as a pause
+    expect(analysis.silenceStats.totalSilenceTime).toBeLessThan(1.5);
+    expect(analysis.silenceStats.longPauses).toBe(0);
+  });
+});
+
+describe('WAV upload size', () => {
+  it('keeps answers up to about two minutes as WAV under the request body limit', () => {
+    expect(wavByteLength(1.5)).toBe(encodeWav([tone(1.5)]).length);
+    expect(wavByteLength(120)).toBeLessThanOrEqual(MAX_WAV_UPLOAD_BYTES);
+    // A full 5-minute answer goes up compressed instead
+    expect(wavByteLength(300)).toBeGreaterThan(MAX_WAV_UPLOAD_BYTES);
+  });
+});
@@ -43,8 +43,16 @@ import {
   Crown,
   Eye,
   EyeOff,
+  Activity,
+  FileSearch,
+  ListChecks,
 } from "lucide-react";
-import { INTERVIEWERS, type InterviewerType } from "@/types/interview";
+import { INTERVIEWERS, type InterviewerType, type EmotionTimelineEntry } from "@/types/interview";
+import type { ResumeClaimReport, ResumeClaimVerdict } from "@/lib/resume/coverage";
+import type { InterviewPlanReport, InterviewPlanOutcome } from "@/lib/plan/progress";
+import type { AnswerScorecard } from "@/lib/scoring/answers";
+import type { EvaluationEnsembleReport } from "@/lib/scoring/ensemble";
+import { EmotionTimeline } from "@/components/emotion/EmotionTimeline";
 
 // 5축 핵심 역량 라벨
 const CATEGORY_LABELS: Record<string, string> = {
@@ -53,6 +61,43 @@ const CATEGORY_LABELS: Record<string, string> = {
   attitude_communication: "태도/커뮤니케이션",
   company_fit: "회사 적합도",
   growth_potential: "성장 가능성",
+  coding: "코딩",
+  scalability: "확장성",
+  trade_offs: "트레이드오프",
+  design_communication: "설계 커뮤니케이션",
+  structuring: "문제 구조화",
+  quantitative_reasoning: "정량 분석",
+  synthesis: "종합/결론",
+  delivery: "발표 전달력",
+  content_coverage: "자료 내용 전달",
+  qa_handling: "질의응답",
+  language_proficiency: "외국어 구사력",
+  composure: "침착성/회복탄력성",
+  contribution: "발언 기여도",
+  listening: "경청/반응",
+  persuasiveness: "설득력",
+};
+
+// 이력서 검증 판정 라벨 (이력서 검증 면접)
+const CLAIM_VERDICT_STYLES: Record<ResumeClaimVerdict, { label: string; className: string }> = {
+  verified: { label: "검증됨", className: "bg-mint/10 text-mint" },
+  partial: { label: "일부 확인", className: "bg-amber-500/10 text-amber-500" },
+  unsubstantiated: { label: "근거 부족", className: "bg-destructive/10 text-destructive" },
+  not_covered: { label: "다루지 못함", className: "bg-muted text-muted-foreground" },
+};
+
+// 면접 계획 주제별 진행 라벨
+const PLAN_OUTCOME_STYLES: Record<InterviewPlanOutcome, { label: string; className: string }> = {
+  covered: { label: "다룸", className: "bg-mint/10 text-mint" },
+  partial: { label: "일부만 다룸", className: "bg-amber-500/10 text-amber-500" },
+  skipped: { label: "건너뜀", className: "bg-muted text-muted-foreground" },
+};
+
+// 질문별 채점표 점수 색상 (0-100)
+const getAnswerScoreClassName = (score: number) => {
+  if (score >= 70) return "bg-mint/10 text-mint";
+  if (score >= 50) return "bg-amber-500/10 text-amber-500";
+  return "bg-destructive/10 text-destructive";
 };
 
 // Bell Curve (Normal Distribution) Component
@@ -263,6 +308,10 @@ function BlurReveal({ children, isRevealed, onReveal, revealText = "클릭하여
 interface CategoryScore {
   score: number;
   reasoning: string;
+  tests_passed?: number; // coding only: hidden tests
+  tests_total?: number;
+  voice_stability?: number; // pressure only: voice stability under pressure (0-100)
+  turn_average?: number; // core categories: average of the per-answer scores
 }
 
 interface InterviewResult {
@@ -278,12 +327,32 @@ interface InterviewResult {
     attitude_communication: CategoryScore;
     company_fit: CategoryScore;
     growth_potential: CategoryScore;
+    coding?: CategoryScore; // Coding interview only
+    scalability?: CategoryScore; // System design interview only
+    trade_offs?: CategoryScore;
+    design_communication?: CategoryScore;
+    structuring?: CategoryScore; // Case interview only
+    quantitative_reasoning?: CategoryScore;
+    synthesis?: CategoryScore;
+    delivery?: CategoryScore; // PT interview only
+    content_coverage?: CategoryScore;
+    qa_handling?: CategoryScore;
+    language_proficiency?: CategoryScore; // English / mixed interviews only
+    composure?: CategoryScore; // Pressure interview only
+    contribution?: CategoryScore; // Group discussion only
+    listening?: CategoryScore;
+    persuasiveness?: CategoryScore;
   };
   rank_percentile?: number;
   growth_index?: number;
   feedback_summary: string;
   strengths: string[];
   improvements: string[];
+  emotion_timeline?: EmotionTimelineEntry[];
+  claim_verification?: ResumeClaimReport[]; // Resume deep-dive only
+  plan_coverage?: InterviewPlanReport[]; // Planned interviews (standard / pressure) only
+  answer_scorecards?: AnswerScorecard[]; // Per-question rubric scores, in interview order
+  evaluation_ensemble?: EvaluationEnsembleReport; // Multi-sample evaluation only
   turn_count?: number;
   duration_minutes?: number;
   created_at: string;
@@ -375,6 +444,9 @@ export default function InterviewResultPage() {
               difficulty,
               turn_count,
               created_at
+            ),
+            emotion_analyses (
+              timeline
             )
           `)
           .eq("session_id", resultId)
@@ -403,6 +475,21 @@ export default function InterviewResultPage() {
             attitude_communication: CategoryScore;
             company_fit: CategoryScore;
             growth_potential: CategoryScore;
+            coding?: CategoryScore;
+            scalability?: CategoryScore;
+            trade_offs?: CategoryScore;
+            design_communication?: CategoryScore;
+            structuring?: CategoryScore;
+            quantitative_reasoning?: CategoryScore;
+            synthesis?: CategoryScore;
+            delivery?: CategoryScore;
+            content_coverage?: CategoryScore;
+            qa_handling?: CategoryScore;
+            language_proficiency?: CategoryScore;
+            composure?: CategoryScore;
+            contribution?: CategoryScore;
+            listening?: CategoryScore;
+            persuasiveness?: CategoryScore;
           };
           rank_percentile?: number;
           growth_index?: number;
@@ -418,6 +505,11 @@ export default function InterviewResultPage() {
             turn_count: number;
             created_at: string;
           };
+          emotion_analyses?: { timeline: EmotionTimelineEntry[] } | null;
+          claim_verification?: ResumeClaimReport[] | null;
+          plan_coverage?: InterviewPlanReport[] | null;
+          answer_scorecards?: AnswerScorecard[] | null;
+          evaluation_ensemble?: EvaluationEnsembleReport | null;
         };
 
         // Transform to InterviewResult format - use ACTUAL DB scores only
@@ -444,6 +536,11 @@ export default function InterviewResultPage() {
           feedback_summary: data.feedback_summary || data.feedback || "평가 결과가 없습니다.",
           strengths: data.strengths || [],
           improvements: data.improvements || [],
+          emotion_timeline: data.emotion_analyses?.timeline,
+          claim_verification: data.claim_verification ?? undefined,
+          plan_coverage: data.plan_coverage ?? undefined,
+          answer_scorecards: data.answer_scorecards ?? undefined,
+          evaluation_ensemble: data.evaluation_ensemble ?? undefined,
           turn_count: data.interview_sessions?.turn_count,
           duration_minutes: data.interview_sessions?.turn_count
             ? Math.round(data.interview_sessions.turn_count * 2.5)
@@ -595,6 +692,22 @@ export default function InterviewResultPage() {
                 </div>
               </div>
 
+              {/* Ensemble spread */}
+              {result.evaluation_ensemble && (
+                <div className="mb-4 space-y-1">
+                  <p className="text-xs text-muted-foreground tabular-nums">
+                    평가 {result.evaluation_ensemble.samples.length}회 · 편차 ±{result.evaluation_ensemble.total.spread}점
+                    ({result.evaluation_ensemble.total.min}~{result.evaluation_ensemble.total.max}점)
+                  </p>
+                  {!result.evaluation_ensemble.verdicts_agree && (
+                    <p className="flex items-center justify-center gap-1 text-xs text-amber-500">
+                      <AlertCircle className="w-3.5 h-3.5" />
+                      평가마다 합격 판정이 달라 보류로 처리했습니다
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Rank */}
               {result.rank_percentile !== undefined && (
                 <div className="flex items-center justify-center gap-2 text-mint mb-4">
@@ -665,6 +778,7 @@ export default function InterviewResultPage() {
                   .sort(([, a], [, b]) => b.score - a.score)
                   .map(([key, categoryScore]) => {
                     const percentValue = Math.round(((categoryScore.score - 1) / 4) * 100);
+                    const agreement = result.evaluation_ensemble?.categories[key];
                     return (
                       <div key={key} className="flex items-center gap-3">
                         <span className="text-sm text-muted-foreground w-28 truncate">
@@ -681,6 +795,24 @@ export default function InterviewResultPage() {
                         <span className="text-sm font-medium text-foreground w-12 text-right">
                           {categoryScore.score}/5
                         </span>
+                        {categoryScore.tests_total !== undefined && (
+                          <span className="text-xs text-muted-foreground w-20 text-right">
+                            테스트 {categoryScore.tests_passed}/{categoryScore.tests_total}
+                          </span>
+                        )}
+                        {categoryScore.voice_stability !== undefined && (
+                          <span className="text-xs text-muted-foreground w-20 text-right">
+                            음성 안정 {categoryScore.voice_stability}
+                          </span>
+                        )}
+                        {agreement && (
+                          <span
+                            className={`text-xs w-16 text-right tabular-nums ${agreement.low_agreement ? "text-amber-500" : "text-muted-foreground"}`}
+                            title={agreement.low_agreement ? "평가마다 점수 차이가 큰 항목" : undefined}
+                          >
+                            ±{agreement.spread}{agreement.low_agreement && " ⚠"}
+                          </span>
+                        )}
                       </div>
                     );
                   })}
@@ -819,6 +951,216 @@ export default function InterviewResultPage() {
         </div>
       </motion.div>
 
+      {/* Emotion Timeline */}
+      {result.emotion_timeline && result.emotion_timeline.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.28 }}
+          className="mb-8"
+        >
+          <div className="glass-card rounded-3xl p-8">
+            <div className="flex items-center gap-3 mb-6">
+              <Activity className="w-5 h-5 text-soft-blue" />
+              <div>
+                <h2 className="font-display text-xl font-bold text-foreground">
+                  감정 타임라인
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  답변별 긴장도와 자신감 변화
+                </p>
+              </div>
+            </div>
+            <EmotionTimeline timeline={result.emotion_timeline} />
+          </div>
+        </motion.div>
+      )}
+
+      {/* Interview plan coverage - planned interviews only */}
+      {result.plan_coverage && result.plan_coverage.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.29 }}
+          className="mb-8"
+        >
+          <div className="glass-card rounded-3xl p-8">
+            <div className="flex items-center gap-3 mb-6">
+              <ListChecks className="w-5 h-5 text-soft-blue" />
+              <div>
+                <h2 className="font-display text-xl font-bold text-foreground">
+                  면접 계획
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  {`계획된 ${result.plan_coverage.length}개 주제 중 ${result.plan_coverage.filter((t) => t.outcome !== "skipped").length}개를 다뤘습니다`}
+                </p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {result.plan_coverage.map((topic, index) => (
+                <div
+                  key={topic.topic_id}
+                  className={`flex items-start gap-4 p-4 rounded-xl border border-border bg-muted/30 ${
+                    topic.outcome === "skipped" ? "opacity-60" : ""
+                  }`}
+                >
+                  <span className="text-sm font-semibold text-muted-foreground tabular-nums">{index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground">{topic.title}</p>
+                    <p className="text-sm text-muted-foreground">{topic.goal}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {INTERVIEWERS[topic.interviewer]?.emoji} {INTERVIEWERS[topic.interviewer]?.role} · 질문 {topic.questions}/{topic.planned_questions}회
+                    </p>
+                  </div>
+                  <span className={`shrink-0 text-xs px-2 py-0.5 rounded ${PLAN_OUTCOME_STYLES[topic.outcome].className}`}>
+                    {PLAN_OUTCOME_STYLES[topic.outcome].label}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Per-question scorecards */}
+      {result.answer_scorecards && result.answer_scorecards.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.29 }}
+          className="mb-8"
+        >
+          <div className="glass-card rounded-3xl p-8">
+            <div className="flex items-center gap-3 mb-6">
+              <MessageCircle className="w-5 h-5 text-soft-blue" />
+              <div>
+                <h2 className="font-display text-xl font-bold text-foreground">
+                  질문별 채점
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  답변마다 5축 루브릭으로 채점했고, 핵심 역량 점수는 이 점수들의 평균입니다
+                </p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {result.answer_scorecards.map((card, index) => {
+                const sectionKey = `answer_${card.message_id}`;
+                const expanded = !!expandedSections[sectionKey];
+                const interviewer = INTERVIEWERS[card.interviewer_id];
+
+                return (
+                  <div key={card.message_id} className="rounded-xl border border-border bg-muted/30">
+                    <button
+                      type="button"
+                      onClick={() => toggleSection(sectionKey)}
+                      className="w-full flex items-start gap-4 p-4 text-left"
+                    >
+                      <span className="text-sm font-semibold text-muted-foreground tabular-nums">Q{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground line-clamp-2">
+                          {card.question || "첫 답변"}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {interviewer?.emoji} {interviewer?.role} 관점 · {card.overall_impression}
+                        </p>
+                      </div>
+                      <span className={`shrink-0 text-sm font-bold px-2 py-0.5 rounded tabular-nums ${getAnswerScoreClassName(card.total)}`}>
+                        {card.total}점
+                      </span>
+                      {expanded ? (
+                        <ChevronUp className="w-4 h-4 shrink-0 text-muted-foreground" />
+                      ) : (
+                        <ChevronDown className="w-4 h-4 shrink-0 text-muted-foreground" />
+                      )}
+                    </button>
+                    {expanded && (
+                      <div className="px-4 pb-4 space-y-3">
+                        <p className="text-sm text-muted-foreground p-3 rounded-lg bg-background/50">
+                          {card.answer}
+                        </p>
+                        <div className="grid sm:grid-cols-2 gap-2">
+                          {Object.entries(card.scores).map(([category, score]) => (
+                            <div key={category} className="text-sm">
+                              <div className="flex justify-between">
+                                <span className="text-foreground">{CATEGORY_LABELS[category] || category}</span>
+                                <span className="font-semibold text-foreground tabular-nums">{score}/5</span>
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {card.reasoning[category as keyof typeof card.reasoning]}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                        {(card.highlights.length > 0 || card.improvements.length > 0) && (
+                          <div className="grid sm:grid-cols-2 gap-2 text-xs">
+                            <ul className="space-y-1">
+                              {card.highlights.map((highlight, i) => (
+                                <li key={i} className="text-green-500">+ {highlight}</li>
+                              ))}
+                            </ul>
+                            <ul className="space-y-1">
+                              {card.improvements.map((improvement, i) => (
+                                <li key={i} className="text-amber-500">- {improvement}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Resume claim verification - resume deep-dive only */}
+      {result.claim_verification && result.claim_verification.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.29 }}
+          className="mb-8"
+        >
+          <div className="glass-card rounded-3xl p-8">
+            <div className="flex items-center gap-3 mb-6">
+              <FileSearch className="w-5 h-5 text-soft-blue" />
+              <div>
+                <h2 className="font-display text-xl font-bold text-foreground">
+                  이력서 항목 검증
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  {result.claim_verification.filter((c) => c.flagged).length > 0
+                    ? `근거가 부족한 항목 ${result.claim_verification.filter((c) => c.flagged).length}개 - 면접 전에 구체적인 사례와 수치를 준비하세요`
+                    : "이력서의 주장과 답변을 항목별로 대조한 결과"}
+                </p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {result.claim_verification.map((claim) => (
+                <div
+                  key={claim.claim_id}
+                  className={`p-4 rounded-xl border ${
+                    claim.flagged ? "bg-destructive/10 border-destructive/30" : "bg-muted/30 border-border"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-3 mb-1">
+                    <p className={`font-medium ${claim.flagged ? "text-destructive" : "text-foreground"}`}>
+                      {claim.claim}
+                    </p>
+                    <span className={`shrink-0 text-xs px-2 py-0.5 rounded ${CLAIM_VERDICT_STYLES[claim.verdict].className}`}>
+                      {CLAIM_VERDICT_STYLES[claim.verdict].label}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{claim.evidence}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </motion.div>
+      )}
+
       {/* Feedback Summary */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
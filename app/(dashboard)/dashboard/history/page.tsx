@@ -21,10 +21,12 @@ import {
   BarChart3,
   Trash2,
   AlertTriangle,
+  Play,
 } from "lucide-react";
 import { toast } from "sonner";
 import { createBrowserSupabaseClient } from "@/lib/supabase/client";
 import { JOB_TYPES, INTERVIEWER_BASE, type InterviewerType } from "@/types/interview";
+import { isResumableSession } from "@/lib/interview/clock";
 
 interface Message {
   id: string;
@@ -42,6 +44,7 @@ interface InterviewSession {
   status: string;
   turn_count: number;
   created_at: string;
+  updated_at: string;
   messages?: Message[];
 }
 
@@ -110,12 +113,12 @@ export default function HistoryPage() {
 
       const user = session.user;
 
-      // Fetch all completed sessions
+      // Fetch completed sessions and unfinished ones that can be continued
       const { data: sessionsData, error: sessionsError } = await supabase
         .from("interview_sessions")
         .select("*")
         .eq("user_id", user.id)
-        .in("status", ["completed", "active"])
+        .in("status", ["completed", "active", "paused"])
         .order("created_at", { ascending: false });
 
       if (sessionsError) {
@@ -412,6 +415,11 @@ export default function HistoryPage() {
                               {getDifficultyLabel(session.difficulty)}
                             </span>
                             {result && getPassStatusBadge(result.pass_status)}
+                            {!result && isResumableSession(session) && (
+                              <span className="px-2 py-1 rounded-full text-xs font-medium bg-mint/20 text-mint">
+                                {session.status === "paused" ? "일시정지" : "진행 중"}
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center gap-4 text-sm text-muted-foreground">
                             <span className="flex items-center gap-1">
@@ -434,6 +442,17 @@ export default function HistoryPage() {
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
+                        {!result && isResumableSession(session) && (
+                          <Link
+                            href={`/interview?session=${session.id}`}
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <Button variant="mint" size="sm" className="gap-1">
+                              <Play className="w-4 h-4" />
+                              이어하기
+                            </Button>
+                          </Link>
+                        )}
                         {result && (
                           <Link
                             href={`/dashboard/${session.id}`}
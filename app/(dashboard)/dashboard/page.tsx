@@ -33,6 +33,7 @@ import {
 } from "recharts";
 import { createBrowserSupabaseClient } from "@/lib/supabase/client";
 import { JOB_TYPES } from "@/types/interview";
+import { listScoringVersions, selectScoringVersion, type ScoredVersion } from "@/lib/scoring/versions";
 
 // 5축 핵심 역량 라벨
 const CATEGORY_LABELS: Record<string, string> = {
@@ -69,6 +70,8 @@ interface InterviewResult {
     company_fit: CategoryScore;
     growth_potential: CategoryScore;
   };
+  scoring_version?: string | null;
+  interview_result_versions?: ScoredVersion[] | null;
   created_at: string;
   interview_sessions?: InterviewSession;
 }
@@ -99,6 +102,9 @@ export default function DashboardPage() {
   const [avgCompetency, setAvgCompetency] = useState<
     { subject: string; score: number }[]
   >([]);
+  // Scores from different scoring versions aren't comparable: show one version at a time
+  const [allResults, setAllResults] = useState<InterviewResult[]>([]);
+  const [scoringVersion, setScoringVersion] = useState<string | null>(null);
 
   useEffect(() => {
     let isMounted = true;
@@ -150,7 +156,8 @@ export default function DashboardPage() {
         .select(
           `
           *,
-          interview_sessions (*)
+          interview_sessions (*),
+          interview_result_versions (scoring_version, overall_score, pass_status, category_scores, competency_scores)
         `
         )
         .eq("user_id", user.id)
@@ -164,73 +171,8 @@ export default function DashboardPage() {
 
       // Cast results to proper type
       const typedResults = results as unknown as InterviewResult[];
-
-      // Calculate stats
-      const totalInterviews = typedResults.length;
-      const averageScore =
-        typedResults.reduce((sum, r) => sum + r.overall_score, 0) / totalInterviews;
-
-      // Calculate this week count
-      const oneWeekAgo = new Date();
-      oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-      const thisWeekCount = typedResults.filter(
-        (r) => new Date(r.created_at) >= oneWeekAgo
-      ).length;
-
-      // Calculate total minutes (estimate based on turn count)
-      const totalMinutes = typedResults.reduce((sum, r) => {
-        const turns = r.interview_sessions?.turn_count || 5;
-        return sum + turns * 2; // ~2 minutes per turn
-      }, 0);
-
-      // Score history for chart
-      const history = typedResults
-        .slice(0, 7)
-        .reverse()
-        .map((r) => ({
-          date: new Date(r.created_at).toLocaleDateString("ko-KR", {
-            month: "short",
-            day: "numeric",
-          }),
-          score: r.overall_score,
-        }));
-
-      // Average category scores (5-axis)
-      const categoryTotals: Record<string, number> = {};
-      const categoryKeys = Object.keys(CATEGORY_LABELS);
-
-      categoryKeys.forEach((key) => {
-        categoryTotals[key] = 0;
-      });
-
-      let resultsWithScores = 0;
-      typedResults.forEach((r) => {
-        if (r.category_scores) {
-          resultsWithScores++;
-          categoryKeys.forEach((key) => {
-            const score = r.category_scores?.[key as keyof typeof r.category_scores]?.score || 0;
-            // Convert 1-5 scale to percentage
-            categoryTotals[key] += Math.round(((score - 1) / 4) * 100);
-          });
-        }
-      });
-
-      const avgCompetencyData = categoryKeys.map((key) => ({
-        subject: CATEGORY_LABELS[key],
-        score: resultsWithScores > 0 ? Math.round(categoryTotals[key] / resultsWithScores) : 0,
-      }));
-
-      setStats({
-        totalInterviews,
-        averageScore: Math.round(averageScore * 10) / 10,
-        totalMinutes,
-        thisWeekCount,
-        scoreChange: typedResults.length >= 2 ? typedResults[0].overall_score - typedResults[1].overall_score : 0,
-        interviewChange: thisWeekCount,
-      });
-      setRecentResults(typedResults.slice(0, 5));
-      setScoreHistory(history);
-      setAvgCompetency(avgCompetencyData);
+      setAllResults(typedResults);
+      applyResults(selectScoringVersion(typedResults, scoringVersion));
     } catch (error) {
       console.error("Dashboard fetch error:", error);
       setDemoData();
@@ -239,6 +181,99 @@ export default function DashboardPage() {
     }
   };
 
+  const applyResults = (typedResults: InterviewResult[]) => {
+    if (typedResults.length === 0) {
+      setStats({
+        totalInterviews: 0,
+        averageScore: 0,
+        totalMinutes: 0,
+        thisWeekCount: 0,
+        scoreChange: 0,
+        interviewChange: 0,
+      });
+      setRecentResults([]);
+      setScoreHistory([]);
+      setAvgCompetency(
+        Object.values(CATEGORY_LABELS).map((subject) => ({ subject, score: 0 }))
+      );
+      return;
+    }
+
+    // Calculate stats
+    const totalInterviews = typedResults.length;
+    const averageScore =
+      typedResults.reduce((sum, r) => sum + r.overall_score, 0) / totalInterviews;
+
+    // Calculate this week count
+    const oneWeekAgo = new Date();
+    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+    const thisWeekCount = typedResults.filter(
+      (r) => new Date(r.created_at) >= oneWeekAgo
+    ).length;
+
+    // Calculate total minutes (estimate based on turn count)
+    const totalMinutes = typedResults.reduce((sum, r) => {
+      const turns = r.interview_sessions?.turn_count || 5;
+      return sum + turns * 2; // ~2 minutes per turn
+    }, 0);
+
+    // Score history for chart
+    const history = typedResults
+      .slice(0, 7)
+      .reverse()
+      .map((r) => ({
+        date: new Date(r.created_at).toLocaleDateString("ko-KR", {
+          month: "short",
+          day: "numeric",
+        }),
+        score: r.overall_score,
+      }));
+
+    // Average category scores (5-axis)
+    const categoryTotals: Record<string, number> = {};
+    const categoryKeys = Object.keys(CATEGORY_LABELS);
+
+    categoryKeys.forEach((key) => {
+      categoryTotals[key] = 0;
+    });
+
+    let resultsWithScores = 0;
+    typedResults.forEach((r) => {
+      if (r.category_scores) {
+        resultsWithScores++;
+        categoryKeys.forEach((key) => {
+          const score = r.category_scores?.[key as keyof typeof r.category_scores]?.score || 0;
+          // Convert 1-5 scale to percentage
+          categoryTotals[key] += Math.round(((score - 1) / 4) * 100);
+        });
+      }
+    });
+
+    const avgCompetencyData = categoryKeys.map((key) => ({
+      subject: CATEGORY_LABELS[key],
+      score: resultsWithScores > 0 ? Math.round(categoryTotals[key] / resultsWithScores) : 0,
+    }));
+
+    setStats({
+      totalInterviews,
+      averageScore: Math.round(averageScore * 10) / 10,
+      totalMinutes,
+      thisWeekCount,
+      scoreChange: typedResults.length >= 2 ? typedResults[0].overall_score - typedResults[1].overall_score : 0,
+      interviewChange: thisWeekCount,
+    });
+    setRecentResults(typedResults.slice(0, 5));
+    setScoreHistory(history);
+    setAvgCompetency(avgCompetencyData);
+  };
+
+  const handleScoringVersionChange = (version: string | null) => {
+    setScoringVersion(version);
+    applyResults(selectScoringVersion(allResults, version));
+  };
+
+  const scoringVersions = listScoringVersions(allResults);
+
   const setDemoData = () => {
     // Demo data for users without interview history
     setStats({
@@ -404,9 +439,24 @@ export default function DashboardPage() {
           transition={{ duration: 0.4, delay: 0.4 }}
         >
           <Card className="p-4 bg-[hsl(220,50%,8%)] shadow-[0_2px_8px_rgba(0,0,0,0.4)] border-none">
-            <h2 className="text-lg font-semibold mb-4">
-              점수 추이
-            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">
+                점수 추이
+              </h2>
+              {scoringVersions.length > 1 && (
+                <select
+                  value={scoringVersion ?? ""}
+                  onChange={(e) => handleScoringVersionChange(e.target.value || null)}
+                  className="bg-[hsl(220,40%,12%)] border border-[hsl(220,40%,15%)] rounded-sm px-2 py-1 text-xs text-muted-foreground"
+                  aria-label="채점 버전"
+                >
+                  <option value="">원본 채점</option>
+                  {scoringVersions.map((version) => (
+                    <option key={version} value={version}>채점 버전 {version}</option>
+                  ))}
+                </select>
+              )}
+            </div>
             {scoreHistory.length > 0 ? (
               <div className="h-56">
                 <ResponsiveContainer width="100%" height="100%">
@@ -19,10 +19,29 @@ import {
   Send,
   Eye,
 } from "lucide-react";
-import { INTERVIEWER_BASE, type InterviewerType, type SessionInterviewerNames } from "@/types/interview";
+import { INTERVIEWER_BASE, isInterviewLanguage, isCoCandidateId, DISCUSSION_MODERATOR, type InterviewLanguage, type InterviewerType, type DiscussionSpeakerId, type SessionInterviewerNames, type CodeEditEvent, type DesignDiagram, type CaseFrameworkBranch, type PresentationConfig, type AnswerTimerConfig, type ResumePlan, type ResumeClaimCoverage, type SessionClock } from "@/types/interview";
+import { INTERVIEW_TIME_LIMIT } from "@/lib/interview/clock";
+import type { RecoveredInterview } from "@/lib/interview/recovery";
+import type { PublicCodingProblem } from "@/lib/coding/problems";
+import type { DesignProblem } from "@/lib/design/problems";
+import type { PublicCaseProblem } from "@/lib/case/cases";
+import type { PublicDiscussion } from "@/lib/discussion/topics";
+import { measureContribution, type DiscussionUtterance } from "@/lib/discussion/floor";
 import { InterviewerAvatar } from "@/components/interview/InterviewerAvatar";
 import { VoiceVisualizer } from "@/components/interview/VoiceVisualizer";
 import { PageTransition } from "@/components/ui/PageTransition";
+import { useInterviewMessageStream } from "@/hooks/useSSEStream";
+import { useVoiceActivity } from "@/hooks/useVoiceActivity";
+import { useRealtimeInterview } from "@/hooks/useRealtimeInterview";
+import { RealTimeFeedback } from "@/components/interview/RealTimeFeedback";
+import { CodeEditorPanel } from "@/components/interview/CodeEditorPanel";
+import { DesignBoardPanel } from "@/components/interview/DesignBoardPanel";
+import { CaseExhibitPanel } from "@/components/interview/CaseExhibitPanel";
+import { PresentationPanel } from "@/components/interview/PresentationPanel";
+import { DiscussionPanel } from "@/components/interview/DiscussionPanel";
+import { ResumeClaimsPanel } from "@/components/interview/ResumeClaimsPanel";
+import { getLiveFeedbackChips, type AnswerVoiceFeatures } from "@/lib/analysis/voice";
+import { prepareRecordingUpload } from "@/lib/realtime/pcm";
 
 // Interviewer types for UI
 const interviewerTypes: InterviewerType[] = ['hiring_manager', 'hr_manager', 'senior_peer'];
@@ -31,11 +50,20 @@ interface Message {
   id: string;
   role: "user" | "interviewer";
   content: string;
-  interviewerId?: InterviewerType;
+  interviewerId?: DiscussionSpeakerId;  // A co-candidate in group discussion
   innerThought?: string;
   timestamp: Date;
 }
 
+// Placeholder id for the interviewer message while its question is streaming
+const STREAMING_MESSAGE_ID = "streaming-interviewer";
+
+// Session to reopen after a refresh or a dropped connection (cleared when the interview ends)
+const ACTIVE_SESSION_KEY = "activeInterviewSession";
+
+// Clock sent to /api/interview/pause (the server adds the time limit and the save time)
+type SessionClockInput = Omit<SessionClock, "time_limit" | "saved_at">;
+
 // Status messages
 const STATUS_MESSAGES = {
   listening: "듣고 있어요...",
@@ -81,8 +109,42 @@ export default function InterviewPage() {
     senior_peer: '시니어 동료',
   });
 
-  // Timer state - 5 minutes (300 seconds) total interview time
-  const INTERVIEW_TIME_LIMIT = 300; // 5 minutes in seconds
+  // Interview language (STT hint and filler-word chips)
+  const [language, setLanguage] = useState<InterviewLanguage>("ko");
+
+  // Coding interview: problem, editor content and its edit history (sent with each answer)
+  const [codingProblem, setCodingProblem] = useState<PublicCodingProblem | null>(null);
+  const [codeSource, setCodeSource] = useState("");
+  const codeEditsRef = useRef<CodeEditEvent[]>([]);
+
+  // System design interview: problem and the whiteboard (sent with each answer)
+  const [designProblem, setDesignProblem] = useState<DesignProblem | null>(null);
+  const [designDiagram, setDesignDiagram] = useState<DesignDiagram | null>(null);
+
+  // Case interview: scenario with the exhibits revealed so far, and the tracked framework
+  const [caseProblem, setCaseProblem] = useState<PublicCaseProblem | null>(null);
+  const [caseFramework, setCaseFramework] = useState<CaseFrameworkBranch[]>([]);
+  const [newExhibitIds, setNewExhibitIds] = useState<string[]>([]);
+
+  // PT interview: deck, presentation countdown (runs while recording), then Q&A
+  const [presentation, setPresentation] = useState<PresentationConfig | null>(null);
+  const [presentationPhase, setPresentationPhase] = useState<"presenting" | "qa">("presenting");
+  const [presentationSecondsLeft, setPresentationSecondsLeft] = useState(0);
+
+  // Group discussion: motion, stances and co-candidates (the moderator is the HR interviewer)
+  const [discussion, setDiscussion] = useState<PublicDiscussion | null>(null);
+
+  // Resume deep-dive: claims to verify, coverage per claim and the claim being asked about
+  const [resumePlan, setResumePlan] = useState<ResumePlan | null>(null);
+  const [resumeCoverage, setResumeCoverage] = useState<ResumeClaimCoverage[]>([]);
+  const [currentClaimId, setCurrentClaimId] = useState<string | null>(null);
+
+  // Pressure interview: per-answer countdown (runs while recording), submits the answer at zero
+  const [answerTimer, setAnswerTimer] = useState<AnswerTimerConfig | null>(null);
+  const [answerSecondsLeft, setAnswerSecondsLeft] = useState(0);
+
+  // Timer state - 5 minutes (300 seconds) total interview time (+ presentation time in PT mode)
+  const [timeLimit, setTimeLimit] = useState(INTERVIEW_TIME_LIMIT);
   const [timerActive, setTimerActive] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(INTERVIEW_TIME_LIMIT);
   const [timerWarning, setTimerWarning] = useState(false);
@@ -96,6 +158,15 @@ export default function InterviewPage() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Pause / recovery: latest clock for saves and the pagehide beacon, and the answer time
+  // left when a reopened session was cut off mid-answer (a reload doesn't buy a fresh answer timer)
+  const sessionClockRef = useRef<SessionClockInput | null>(null);
+  const carriedAnswerSecondsRef = useRef<number | null>(null);
+
+  // Interviewer playback (for barge-in)
+  const ttsAudioRef = useRef<HTMLAudioElement | null>(null);
+  const speakingMessageRef = useRef<{ id: string; content: string } | null>(null);
+
   const currentInterviewer = INTERVIEWER_BASE[currentInterviewerId];
 
   // Auto scroll to latest message
@@ -106,6 +177,37 @@ export default function InterviewPage() {
   // Ref to track if timeout end is in progress
   const isTimeoutEndingRef = useRef(false);
 
+  // Streaming interviewer response: show the question as it is generated
+  const streamingInterviewerRef = useRef<DiscussionSpeakerId>("hiring_manager");
+  const { sendMessage: sendInterviewMessage } = useInterviewMessageStream({
+    onStart: (interviewer) => {
+      if (interviewer) {
+        streamingInterviewerRef.current = interviewer.id as DiscussionSpeakerId;
+        if (!isCoCandidateId(interviewer.id)) {
+          setCurrentInterviewerId(interviewer.id as InterviewerType);
+        }
+      }
+    },
+    onQuestionChunk: (_chunk, question) => {
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        if (last?.id === STREAMING_MESSAGE_ID) {
+          return [...prev.slice(0, -1), { ...last, content: question }];
+        }
+        return [
+          ...prev,
+          {
+            id: STREAMING_MESSAGE_ID,
+            role: "interviewer",
+            content: question,
+            interviewerId: streamingInterviewerRef.current,
+            timestamp: new Date(),
+          },
+        ];
+      });
+    },
+  });
+
   // Timer countdown - 5 minute total interview time
   useEffect(() => {
     if (timerActive && timeRemaining > 0 && !isPaused) {
@@ -140,11 +242,121 @@ export default function InterviewPage() {
     };
   }, [timerActive, isPaused, isRecording]);
 
+  // Restore the page from /api/interview/recover; the session comes back paused
+  const recoverSession = async (id: string) => {
+    setStatusMessage("면접을 불러오는 중...");
+
+    try {
+      const response = await fetch("/api/interview/recover", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ session_id: id }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        localStorage.removeItem(ACTIVE_SESSION_KEY);
+        setError(data.error || "면접을 불러오지 못했습니다.");
+        return;
+      }
+
+      const recovered = data as RecoveredInterview;
+      const { session, clock } = recovered;
+      const config = session.timer_config as { language?: unknown; default_time_limit?: number } | null;
+
+      setSessionId(session.id);
+      localStorage.setItem(ACTIVE_SESSION_KEY, session.id);
+      setIsInterviewStarted(true);
+      setTurnCount(session.turn_count);
+      if (isInterviewLanguage(config?.language)) {
+        setLanguage(config.language);
+      }
+      if (session.interview_mode === "pressure" && config?.default_time_limit) {
+        setAnswerTimer(config as unknown as AnswerTimerConfig);
+      }
+      if (recovered.interviewer_names) {
+        setInterviewerNames(recovered.interviewer_names);
+      }
+      if (session.current_interviewer_id) {
+        setCurrentInterviewerId(
+          isCoCandidateId(session.current_interviewer_id)
+            ? DISCUSSION_MODERATOR
+            : (session.current_interviewer_id as InterviewerType)
+        );
+      }
+      setMessages(
+        recovered.messages.map((m) => ({
+          id: m.id,
+          role: m.role,
+          content: m.content,
+          interviewerId: m.interviewer_id as DiscussionSpeakerId | undefined,
+          innerThought: m.inner_thought,
+          timestamp: new Date(m.timestamp),
+        }))
+      );
+
+      if (recovered.coding_problem) {
+        setCodingProblem(recovered.coding_problem);
+        setCodeSource(recovered.code_source ?? recovered.coding_problem.starter_code);
+      }
+      if (recovered.design_problem) {
+        setDesignProblem(recovered.design_problem);
+        setDesignDiagram(recovered.design_diagram ?? { problem_id: recovered.design_problem.id, nodes: [], edges: [] });
+      }
+      if (recovered.case_problem) {
+        setCaseProblem(recovered.case_problem);
+        setCaseFramework(recovered.case_framework ?? []);
+      }
+      if (recovered.presentation) {
+        setPresentation(recovered.presentation);
+        setPresentationPhase(recovered.presentation_done ? "qa" : "presenting");
+        setPresentationSecondsLeft(clock.presentation_seconds_left ?? recovered.presentation.minutes * 60);
+      }
+      if (recovered.discussion) {
+        setDiscussion(recovered.discussion);
+      }
+      if (recovered.resume_plan) {
+        setResumePlan(recovered.resume_plan);
+        setResumeCoverage(recovered.resume_coverage ?? []);
+        setCurrentClaimId(recovered.resume_claim_id ?? null);
+      }
+
+      carriedAnswerSecondsRef.current = clock.answer_seconds_left ?? null;
+      setTimeLimit(clock.time_limit);
+      setTimeRemaining(clock.remaining_seconds);
+      setTimerWarning(clock.remaining_seconds <= 60);
+      setTimerActive(true);
+      setIsPaused(true);
+    } catch (err) {
+      console.error("Recover session error:", err);
+      setError("면접을 불러오는 중 오류가 발생했습니다.");
+    } finally {
+      setStatusMessage("");
+    }
+  };
+
+  // Save the clock with the session (pause / resume / after each turn); best effort
+  const saveSessionClock = (action: "pause" | "resume" | "checkpoint") => {
+    if (!sessionId || !sessionClockRef.current) return;
+
+    fetch("/api/interview/pause", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ session_id: sessionId, action, clock: sessionClockRef.current }),
+    }).catch((err) => console.error("Session clock save error:", err));
+  };
+
   // Load session from sessionStorage on mount
   useEffect(() => {
     const storedSession = sessionStorage.getItem("interviewSession");
     const storedFirstMessage = sessionStorage.getItem("firstMessage");
     const storedInterviewerNames = sessionStorage.getItem("interviewerNames");
+    const storedCodingProblem = sessionStorage.getItem("codingProblem");
+    const storedDesignProblem = sessionStorage.getItem("designProblem");
+    const storedCaseProblem = sessionStorage.getItem("caseProblem");
+    const storedPresentation = sessionStorage.getItem("presentation");
+    const storedDiscussion = sessionStorage.getItem("discussion");
+    const storedResumePlan = sessionStorage.getItem("resumePlan");
 
     if (storedSession && storedFirstMessage) {
       const session = JSON.parse(storedSession);
@@ -152,6 +364,12 @@ export default function InterviewPage() {
 
       setSessionId(session.id);
       setIsInterviewStarted(true);
+      if (isInterviewLanguage(session.timer_config?.language)) {
+        setLanguage(session.timer_config.language);
+      }
+      if (session.interview_mode === "pressure" && session.timer_config?.default_time_limit) {
+        setAnswerTimer(session.timer_config as AnswerTimerConfig);
+      }
       setMessages([
         {
           id: firstMessage.id,
@@ -168,17 +386,96 @@ export default function InterviewPage() {
         sessionStorage.removeItem("interviewerNames");
       }
 
-      // Clear sessionStorage
+      // Load coding problem (coding mode only)
+      if (storedCodingProblem) {
+        const problem = JSON.parse(storedCodingProblem) as PublicCodingProblem;
+        setCodingProblem(problem);
+        setCodeSource(problem.starter_code);
+        sessionStorage.removeItem("codingProblem");
+      }
+
+      // Load system design problem (design mode only)
+      if (storedDesignProblem) {
+        const problem = JSON.parse(storedDesignProblem) as DesignProblem;
+        setDesignProblem(problem);
+        setDesignDiagram({ problem_id: problem.id, nodes: [], edges: [] });
+        sessionStorage.removeItem("designProblem");
+      }
+
+      // Load case scenario (case mode only)
+      if (storedCaseProblem) {
+        setCaseProblem(JSON.parse(storedCaseProblem) as PublicCaseProblem);
+        sessionStorage.removeItem("caseProblem");
+      }
+
+      // Load PT deck (presentation mode only); the presentation time is added to the session timer
+      let sessionTimeLimit = INTERVIEW_TIME_LIMIT;
+      if (storedPresentation) {
+        const config = JSON.parse(storedPresentation) as PresentationConfig;
+        setPresentation(config);
+        setPresentationSecondsLeft(config.minutes * 60);
+        sessionTimeLimit += config.minutes * 60;
+        sessionStorage.removeItem("presentation");
+      }
+
+      // Load motion and co-candidates (group discussion mode only)
+      if (storedDiscussion) {
+        setDiscussion(JSON.parse(storedDiscussion) as PublicDiscussion);
+        setCurrentInterviewerId(DISCUSSION_MODERATOR);
+        sessionStorage.removeItem("discussion");
+      }
+
+      // Load the claims to verify (resume deep-dive mode only); the opening asks about the first
+      if (storedResumePlan) {
+        const plan = JSON.parse(storedResumePlan) as ResumePlan;
+        setResumePlan(plan);
+        setCurrentClaimId(plan.claims[0]?.id ?? null);
+        sessionStorage.removeItem("resumePlan");
+      }
+
+      // Clear sessionStorage (the session id stays in localStorage so a refresh can reopen it)
       sessionStorage.removeItem("interviewSession");
       sessionStorage.removeItem("firstMessage");
+      localStorage.setItem(ACTIVE_SESSION_KEY, session.id);
 
       // Start 5-minute countdown timer
-      setTimeRemaining(INTERVIEW_TIME_LIMIT);
+      setTimeLimit(sessionTimeLimit);
+      setTimeRemaining(sessionTimeLimit);
       setTimerActive(true);
       setTimerWarning(false);
+      return;
+    }
+
+    // Reopen an unfinished session: "이어하기" from history (?session=) or a refresh mid-interview
+    const reopenId = new URLSearchParams(window.location.search).get("session") ?? localStorage.getItem(ACTIVE_SESSION_KEY);
+    if (reopenId) {
+      recoverSession(reopenId);
     }
   }, []);
 
+  // Save the clock when the tab is closed or reloaded; the session reopens paused from here
+  useEffect(() => {
+    sessionClockRef.current = {
+      remaining_seconds: timeRemaining,
+      ...(answerTimer && isRecording ? { answer_seconds_left: answerSecondsLeft } : {}),
+      ...(presentation && presentationPhase === "presenting" ? { presentation_seconds_left: presentationSecondsLeft } : {}),
+    };
+  });
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const handlePageHide = () => {
+      navigator.sendBeacon(
+        "/api/interview/pause",
+        JSON.stringify({ session_id: sessionId, action: "pause", clock: sessionClockRef.current })
+      );
+    };
+
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, [sessionId]);
+
   // Audio level visualization
   const updateAudioLevel = useCallback(() => {
     if (analyserRef.current) {
@@ -231,6 +528,10 @@ export default function InterviewPage() {
 
       mediaRecorder.start();
       setIsRecording(true);
+      if (answerTimer) {
+        setAnswerSecondsLeft(carriedAnswerSecondsRef.current ?? answerTimer.default_time_limit);
+        carriedAnswerSecondsRef.current = null;
+      }
       // Timer is already active from interview start - don't control it here
     } catch (err) {
       console.error("Recording error:", err);
@@ -247,6 +548,32 @@ export default function InterviewPage() {
     }
   };
 
+  // PT countdown: runs only while the presentation is being recorded, submits it at zero
+  useEffect(() => {
+    if (!presentation || presentationPhase !== "presenting" || !isRecording || isPaused) return;
+
+    if (presentationSecondsLeft <= 0) {
+      stopRecording();
+      return;
+    }
+
+    const timeout = setTimeout(() => setPresentationSecondsLeft((prev) => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [presentation, presentationPhase, isRecording, isPaused, presentationSecondsLeft]);
+
+  // Pressure answer countdown: restarted by startRecording, cuts the answer off at zero
+  useEffect(() => {
+    if (!answerTimer || !isRecording || isPaused) return;
+
+    if (answerSecondsLeft <= 0) {
+      if (answerTimer.auto_submit_on_timeout) stopRecording();
+      return;
+    }
+
+    const timeout = setTimeout(() => setAnswerSecondsLeft((prev) => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [answerTimer, isRecording, isPaused, answerSecondsLeft]);
+
   // Handle timeout end - save last answer and end without interviewer response
   const handleTimeoutEnd = async () => {
     if (!sessionId) return;
@@ -265,6 +592,7 @@ export default function InterviewPage() {
       const data = await response.json();
 
       if (data.success) {
+        localStorage.removeItem(ACTIVE_SESSION_KEY);
         sessionStorage.setItem("interviewResult", JSON.stringify(data.result));
         router.push(`/dashboard/${data.result.id}`);
       } else {
@@ -289,9 +617,11 @@ export default function InterviewPage() {
       setStatusMessage(isTimeoutEnding ? "마지막 답변 저장 중..." : STATUS_MESSAGES.processing);
       setError("");
 
-      // 1. STT - Convert speech to text
+      // 1. STT - Convert speech to text (as WAV, when it fits the upload limit, so the server can trim silence)
+      const uploadBlob = await prepareRecordingUpload(audioBlob).catch(() => audioBlob);
       const formData = new FormData();
-      formData.append("audio", audioBlob, "recording.wav");
+      formData.append("audio", uploadBlob, "recording.wav");
+      formData.append("language", language);
 
       const sttResponse = await fetch("/api/stt", {
         method: "POST",
@@ -324,6 +654,9 @@ export default function InterviewPage() {
             body: JSON.stringify({
               session_id: sessionId,
               content: sttData.text,
+              voice_features: sttData.voice_features,
+              code_submission: getCodeSubmission(),
+              design_diagram: designDiagram ?? undefined,
               timeout_save_only: true, // Flag to indicate only save, no interviewer response
             }),
           });
@@ -335,7 +668,7 @@ export default function InterviewPage() {
       }
 
       // 2. Get interviewer response (normal flow)
-      await getInterviewerResponse(sttData.text);
+      await getInterviewerResponse(sttData.text, sttData.voice_features);
     } catch (err) {
       console.error("Processing error:", err);
       setError("서버와 통신 중 오류가 발생했습니다.");
@@ -345,46 +678,81 @@ export default function InterviewPage() {
     }
   };
 
-  const getInterviewerResponse = async (userText: string) => {
+  // Code written so far, attached to every answer in coding mode
+  const getCodeSubmission = () =>
+    codingProblem
+      ? {
+          problem_id: codingProblem.id,
+          language: "javascript" as const,
+          source: codeSource,
+          edit_history: codeEditsRef.current,
+        }
+      : undefined;
+
+  const handleCodeChange = (source: string, edit: CodeEditEvent) => {
+    codeEditsRef.current.push(edit);
+    setCodeSource(source);
+  };
+
+  const getInterviewerResponse = async (userText: string, voiceFeatures?: AnswerVoiceFeatures | null) => {
     if (!sessionId) return;
 
     setStatusMessage(STATUS_MESSAGES.speaking);
 
     try {
-      const response = await fetch("/api/interview/message", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          session_id: sessionId,
-          content: userText,
-        }),
+      // Question text streams into a placeholder message (see useInterviewMessageStream below)
+      const data = await sendInterviewMessage({
+        session_id: sessionId,
+        content: userText,
+        voice_features: voiceFeatures,
+        code_submission: getCodeSubmission(),
+        design_diagram: designDiagram ?? undefined,
       });
 
-      const data = await response.json();
-
-      if (!data.success) {
-        setError(data.error || "면접관 응답 생성 실패");
-        return;
-      }
-
-      // Add interviewer message (without evaluation display)
+      // Replace the streaming placeholder with the saved interviewer message (without evaluation display)
       const aiMessage: Message = {
         id: data.interviewer_response.id,
         role: "interviewer",
         content: data.interviewer_response.content,
-        interviewerId: data.interviewer.id,
+        interviewerId: data.interviewer.id as DiscussionSpeakerId,
         innerThought: data.interviewer_response.structured_response?.inner_thought,
         timestamp: new Date(),
       };
-      setMessages((prev) => [...prev, aiMessage]);
+      setMessages((prev) => [...prev.filter((m) => m.id !== STREAMING_MESSAGE_ID), aiMessage]);
+
+      // Case interview: append the exhibits this answer asked for and refresh the framework
+      if (data.case_state) {
+        const revealed = data.revealed_exhibits ?? [];
+        setCaseFramework(data.case_state.framework);
+        setNewExhibitIds(revealed.map((exhibit) => exhibit.id));
+        if (revealed.length > 0) {
+          setCaseProblem((prev) => prev && { ...prev, exhibits: [...prev.exhibits, ...revealed] });
+        }
+      }
+
+      // Resume deep-dive: coverage after this answer and the claim the new question is about
+      if (data.resume_coverage) {
+        setResumeCoverage(data.resume_coverage);
+        setCurrentClaimId(data.resume_claim_id ?? null);
+      }
 
-      // Update state
-      setCurrentInterviewerId(data.interviewer.id);
+      // PT interview: the first answer was the presentation, Q&A from here on
+      if (presentation) {
+        setPresentationPhase("qa");
+      }
+
+      // Update state (co-candidates are not on the interviewer panel)
+      if (!isCoCandidateId(data.interviewer.id)) {
+        setCurrentInterviewerId(data.interviewer.id as InterviewerType);
+      }
       setTurnCount(data.turn_count);
+      if (!data.should_end) {
+        saveSessionClock("checkpoint");
+      }
 
       // Play TTS if not muted
       if (!isMuted) {
-        await playTTS(data.interviewer_response.content, data.interviewer.id);
+        await playTTS(data.interviewer_response.content, data.interviewer.id, data.interviewer_response.id);
       }
 
       // Check if interview should end (either by AI decision or time limit)
@@ -394,11 +762,12 @@ export default function InterviewPage() {
       // Timer continues running - no reset per response
     } catch (err) {
       console.error("Interviewer response error:", err);
+      setMessages((prev) => prev.filter((m) => m.id !== STREAMING_MESSAGE_ID));
       setError("면접관 응답을 가져오는 중 오류가 발생했습니다.");
     }
   };
 
-  const playTTS = async (text: string, interviewerId: string) => {
+  const playTTS = async (text: string, interviewerId: string, messageId?: string) => {
     try {
       setIsSpeaking(true);
       const response = await fetch("/api/tts", {
@@ -411,14 +780,22 @@ export default function InterviewPage() {
         const audioBlob = await response.blob();
         const audioUrl = URL.createObjectURL(audioBlob);
         const audio = new Audio(audioUrl);
-        audio.onended = () => {
+        const finish = () => {
+          ttsAudioRef.current = null;
+          speakingMessageRef.current = null;
           setIsSpeaking(false);
-          URL.revokeObjectURL(audioUrl);
         };
-        audio.onerror = () => {
-          setIsSpeaking(false);
+        audio.onended = () => {
+          finish();
+          URL.revokeObjectURL(audioUrl);
         };
+        audio.onerror = finish;
+
+        ttsAudioRef.current = audio;
+        speakingMessageRef.current = messageId ? { id: messageId, content: text } : null;
         await audio.play();
+      } else {
+        setIsSpeaking(false);
       }
     } catch (err) {
       console.error("TTS error:", err);
@@ -426,6 +803,59 @@ export default function InterviewPage() {
     }
   };
 
+  // Barge-in: the candidate started talking over the interviewer
+  // Stop playback, record how much of the question was heard, and start recording the answer
+  const handleBargeIn = () => {
+    const audio = ttsAudioRef.current;
+    const spoken = speakingMessageRef.current;
+    ttsAudioRef.current = null;
+    speakingMessageRef.current = null;
+
+    if (audio) {
+      audio.onended = null;
+      audio.onerror = null;
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+    }
+    setIsSpeaking(false);
+
+    // Playback position ≈ position in the text (TTS speaks at a roughly constant rate)
+    if (audio && spoken && sessionId && Number.isFinite(audio.duration) && audio.duration > 0) {
+      const charOffset = Math.round(spoken.content.length * Math.min(1, audio.currentTime / audio.duration));
+
+      fetch("/api/interview/interrupt", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          session_id: sessionId,
+          message_id: spoken.id,
+          char_offset: charOffset,
+        }),
+      }).catch((err) => console.warn("Failed to record interruption:", err));
+    }
+
+    startRecording();
+  };
+
+  useVoiceActivity({
+    enabled: isSpeaking && !isMuted && !isPaused && !isRecording && !isProcessing,
+    onSpeechStart: handleBargeIn,
+  });
+
+  // Live captions + pace/filler chips while recording (the recorded blob is still the answer)
+  const { state: liveCaptions, start: startLiveCaptions, stop: stopLiveCaptions } = useRealtimeInterview({
+    mode: "captions",
+  });
+  const liveFeedbackChips = getLiveFeedbackChips(liveCaptions.liveWords, language);
+
+  useEffect(() => {
+    if (isRecording && sessionId) {
+      startLiveCaptions(sessionId);
+    } else {
+      stopLiveCaptions();
+    }
+  }, [isRecording, sessionId, startLiveCaptions, stopLiveCaptions]);
+
   const handleTextSubmit = async () => {
     if (!textInput.trim() || isProcessing) return;
 
@@ -505,7 +935,7 @@ export default function InterviewPage() {
         setMessages([welcomeMessage]);
 
         if (!isMuted) {
-          await playTTS(data.first_message.content, data.first_message.interviewer_id);
+          await playTTS(data.first_message.content, data.first_message.interviewer_id, data.first_message.id);
         }
 
         // Start 5-minute countdown timer
@@ -542,6 +972,7 @@ export default function InterviewPage() {
 
       if (data.success) {
         // Store result and navigate
+        localStorage.removeItem(ACTIVE_SESSION_KEY);
         sessionStorage.setItem("interviewResult", JSON.stringify(data.result));
         router.push(`/dashboard/${data.result.id}`);
       } else {
@@ -568,7 +999,7 @@ export default function InterviewPage() {
     }
 
     // Calculate elapsed time (in seconds)
-    const elapsedTime = INTERVIEW_TIME_LIMIT - timeRemaining;
+    const elapsedTime = timeLimit - timeRemaining;
     const MINIMUM_INTERVIEW_TIME = 300; // 5 minutes in seconds
 
     try {
@@ -604,10 +1035,12 @@ export default function InterviewPage() {
     }
 
     // Navigate back to dashboard without saving results
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
     router.push("/dashboard");
   };
 
   const togglePause = () => {
+    saveSessionClock(isPaused ? "resume" : "pause");
     setIsPaused(!isPaused);
     if (!isPaused) {
       setTimerActive(false);
@@ -623,8 +1056,19 @@ export default function InterviewPage() {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  // Group discussion: the candidate's live share of the debate
+  const discussionContribution = measureContribution(
+    messages
+      .filter((m) => m.id !== STREAMING_MESSAGE_ID)
+      .map((m): DiscussionUtterance => ({
+        speaker: m.role === "user" ? "user" : m.interviewerId ?? DISCUSSION_MODERATOR,
+        content: m.content,
+      })),
+    discussion?.participants.length ?? 0
+  );
+
   // Timer progress percentage (5 minutes = 300 seconds)
-  const timerProgress = (timeRemaining / INTERVIEW_TIME_LIMIT) * 100;
+  const timerProgress = (timeRemaining / timeLimit) * 100;
 
   return (
     <PageTransition>
@@ -899,17 +1343,25 @@ export default function InterviewPage() {
           </div>
         ) : (
           // Interview Screen - No guidance panel here, it shows before interview starts
-          <div className="h-full flex flex-col">
+          <div className="h-full flex">
+          <div className="flex-1 min-w-0 h-full flex flex-col">
             {/* Messages */}
             <div className="flex-1 overflow-y-auto p-6 space-y-4">
               {messages.map((message) => {
                 const msgInterviewerType = message.interviewerId;
-                const msgInterviewer = msgInterviewerType
-                  ? INTERVIEWER_BASE[msgInterviewerType]
-                  : null;
-                const msgInterviewerName = msgInterviewerType
-                  ? interviewerNames[msgInterviewerType]
-                  : null;
+                const msgCoCandidate = isCoCandidateId(msgInterviewerType)
+                  ? discussion?.participants.find((p) => p.id === msgInterviewerType)
+                  : undefined;
+                const msgInterviewer = msgCoCandidate
+                  ? { emoji: msgCoCandidate.emoji, role: `토론 참가자 · ${msgCoCandidate.stance}` }
+                  : msgInterviewerType && !isCoCandidateId(msgInterviewerType)
+                    ? INTERVIEWER_BASE[msgInterviewerType]
+                    : null;
+                const msgInterviewerName = msgCoCandidate
+                  ? msgCoCandidate.name
+                  : msgInterviewerType && !isCoCandidateId(msgInterviewerType)
+                    ? interviewerNames[msgInterviewerType]
+                    : null;
 
                 return (
                   <motion.div
@@ -1017,7 +1469,24 @@ export default function InterviewPage() {
                     <p className="text-sm text-slate-400">
                       녹음 중… {formatTime(120 - timeRemaining)}
                     </p>
+                    {answerTimer && (
+                      <p className={`text-sm font-medium tabular-nums mt-1 ${
+                        answerSecondsLeft <= answerTimer.warning_threshold ? "text-red-400" : "text-amber-400"
+                      }`}>
+                        답변 남은 시간 {formatTime(answerSecondsLeft)}
+                      </p>
+                    )}
                   </div>
+                  {liveCaptions.captions && (
+                    <p className="mt-3 text-sm text-slate-300 text-center line-clamp-3">
+                      {liveCaptions.captions}
+                    </p>
+                  )}
+                  {liveFeedbackChips.length > 0 && (
+                    <div className="mt-3 flex justify-center">
+                      <RealTimeFeedback chips={liveFeedbackChips} />
+                    </div>
+                  )}
                 </motion.div>
               )}
               {/* Timer Progress Bar - Mint Gradient */}
@@ -1128,6 +1597,78 @@ export default function InterviewPage() {
               </div>
             </div>
           </div>
+
+          {/* Code editor - coding interview only */}
+          {codingProblem && sessionId && (
+            <aside className="w-1/2 max-w-2xl h-full p-4 border-l border-[hsl(220,40%,15%)] bg-[hsl(220,55%,6%)]">
+              <CodeEditorPanel
+                sessionId={sessionId}
+                problem={codingProblem}
+                source={codeSource}
+                onChange={handleCodeChange}
+                disabled={isProcessing}
+              />
+            </aside>
+          )}
+
+          {/* Design whiteboard - system design interview only */}
+          {designProblem && designDiagram && (
+            <aside className="w-1/2 max-w-2xl h-full p-4 border-l border-[hsl(220,40%,15%)] bg-[hsl(220,55%,6%)]">
+              <DesignBoardPanel
+                problem={designProblem}
+                diagram={designDiagram}
+                onChange={setDesignDiagram}
+                disabled={isProcessing}
+              />
+            </aside>
+          )}
+
+          {/* Slide deck and presentation timer - PT interview only */}
+          {presentation && (
+            <aside className="w-1/2 max-w-2xl h-full p-4 border-l border-[hsl(220,40%,15%)] bg-[hsl(220,55%,6%)]">
+              <PresentationPanel
+                config={presentation}
+                phase={presentationPhase}
+                secondsRemaining={presentationSecondsLeft}
+                isRecording={isRecording}
+              />
+            </aside>
+          )}
+
+          {/* Motion, co-candidates and live share - group discussion only */}
+          {discussion && (
+            <aside className="w-1/3 max-w-md h-full p-4 border-l border-[hsl(220,40%,15%)] bg-[hsl(220,55%,6%)]">
+              <DiscussionPanel
+                discussion={discussion}
+                moderatorName={interviewerNames[DISCUSSION_MODERATOR]}
+                contribution={discussionContribution}
+                activeSpeakerId={[...messages].reverse().find((m) => m.role === "interviewer")?.interviewerId}
+              />
+            </aside>
+          )}
+
+          {/* Claims to verify and their coverage - resume deep-dive only */}
+          {resumePlan && (
+            <aside className="w-1/3 max-w-md h-full p-4 border-l border-[hsl(220,40%,15%)] bg-[hsl(220,55%,6%)]">
+              <ResumeClaimsPanel
+                plan={resumePlan}
+                coverage={resumeCoverage}
+                currentClaimId={currentClaimId}
+              />
+            </aside>
+          )}
+
+          {/* Data exhibits and framework - case interview only */}
+          {caseProblem && (
+            <aside className="w-1/2 max-w-2xl h-full p-4 border-l border-[hsl(220,40%,15%)] bg-[hsl(220,55%,6%)]">
+              <CaseExhibitPanel
+                problem={caseProblem}
+                framework={caseFramework}
+                newExhibitIds={newExhibitIds}
+              />
+            </aside>
+          )}
+          </div>
         )}
       </div>
     </div>
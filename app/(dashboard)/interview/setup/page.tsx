@@ -20,8 +20,21 @@ import {
   ChevronDown,
   ChevronUp,
   ClipboardList,
+  Code2,
+  Presentation,
+  Languages,
 } from "lucide-react";
-import { DIFFICULTY_LEVELS } from "@/types/interview";
+import {
+  DIFFICULTY_LEVELS,
+  INTERVIEW_MODES,
+  INTERVIEW_LANGUAGES,
+  PRESENTATION_DURATIONS,
+  isInterviewModeAvailable,
+  type InterviewMode,
+  type InterviewLanguage,
+  type PresentationDeck,
+  type PresentationMinutes,
+} from "@/types/interview";
 import { createBrowserSupabaseClient } from "@/lib/supabase/client";
 
 interface JobCategory {
@@ -57,14 +70,20 @@ interface SetupState {
   jobType: string;
   industry: string;
   difficulty: "easy" | "medium" | "hard";
+  interviewMode: InterviewMode;
+  language: InterviewLanguage;
   resume: UploadedFile | null;
   portfolio: UploadedFile | null;
+  // PT interview: parsed slide deck and presentation length
+  presentationDeck: (Omit<UploadedFile, "docId"> & { deck: PresentationDeck | null }) | null;
+  presentationMinutes: PresentationMinutes;
 }
 
 export default function InterviewSetupPage() {
   const router = useRouter();
   const resumeInputRef = useRef<HTMLInputElement>(null);
   const portfolioInputRef = useRef<HTMLInputElement>(null);
+  const deckInputRef = useRef<HTMLInputElement>(null);
   const supabase = createBrowserSupabaseClient();
 
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
@@ -84,6 +103,10 @@ export default function InterviewSetupPage() {
     jobType: "",
     industry: "",
     difficulty: "medium",
+    interviewMode: "standard",
+    language: "ko",
+    presentationDeck: null,
+    presentationMinutes: 10,
     resume: null,
     portfolio: null,
   });
@@ -252,6 +275,45 @@ export default function InterviewSetupPage() {
     if (file) handleFileUpload(file, "portfolio");
   };
 
+  // PT deck: parsed into slides on the server, sent back with /api/interview/start
+  const handleDeckChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.type !== "application/pdf") {
+      setError("발표 자료는 PDF 파일만 업로드 가능합니다.");
+      return;
+    }
+    if (file.size > 10 * 1024 * 1024) {
+      setError("파일 크기는 10MB 이하여야 합니다.");
+      return;
+    }
+
+    setError("");
+    setSetup((prev) => ({ ...prev, presentationDeck: { file, deck: null, status: "uploading" } }));
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/interview/presentation/deck", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSetup((prev) => ({ ...prev, presentationDeck: { file, deck: data.deck, status: "success" } }));
+      } else {
+        setSetup((prev) => ({ ...prev, presentationDeck: { file, deck: null, status: "error", error: data.error } }));
+        setError(data.error || "발표 자료 업로드 실패");
+      }
+    } catch (err) {
+      setSetup((prev) => ({ ...prev, presentationDeck: { file, deck: null, status: "error", error: "업로드 오류" } }));
+      setError("발표 자료 업로드 중 오류가 발생했습니다.");
+    }
+  };
+
   const removeFile = (type: "resume" | "portfolio") => {
     setSetup((prev) => ({ ...prev, [type]: null }));
   };
@@ -263,11 +325,21 @@ export default function InterviewSetupPage() {
     }
 
     // Check if any file is still uploading
-    if (setup.resume?.status === "uploading" || setup.portfolio?.status === "uploading") {
+    if (setup.resume?.status === "uploading" || setup.portfolio?.status === "uploading" || setup.presentationDeck?.status === "uploading") {
       setError("파일 업로드가 완료될 때까지 기다려주세요.");
       return;
     }
 
+    if (setup.interviewMode === "presentation" && !setup.presentationDeck?.deck) {
+      setError("PT 면접은 발표 자료(PDF)를 업로드해야 시작할 수 있습니다.");
+      return;
+    }
+
+    if (setup.interviewMode === "resume_deep_dive" && !setup.resume?.docId) {
+      setError("이력서 검증 면접은 이력서/자소서를 업로드해야 시작할 수 있습니다.");
+      return;
+    }
+
     setIsStarting(true);
     setError("");
 
@@ -279,9 +351,14 @@ export default function InterviewSetupPage() {
           job_type: setup.jobType,
           industry: setup.industry,
           difficulty: setup.difficulty,
+          interview_mode: isInterviewModeAvailable(setup.interviewMode, setup.jobType) ? setup.interviewMode : "standard",
           resume_doc_id: setup.resume?.docId || null,
           portfolio_doc_id: setup.portfolio?.docId || null,
           jd_text: setup.jdText || null,
+          language: setup.language,
+          presentation: setup.interviewMode === "presentation" && setup.presentationDeck?.deck
+            ? { deck: setup.presentationDeck.deck, minutes: setup.presentationMinutes }
+            : undefined,
         }),
       });
 
@@ -294,6 +371,25 @@ export default function InterviewSetupPage() {
         if (data.interviewer_names) {
           sessionStorage.setItem("interviewerNames", JSON.stringify(data.interviewer_names));
         }
+        // Coding interview problem (shown in the editor panel)
+        if (data.coding_problem) {
+          sessionStorage.setItem("codingProblem", JSON.stringify(data.coding_problem));
+        }
+        if (data.design_problem) {
+          sessionStorage.setItem("designProblem", JSON.stringify(data.design_problem));
+        }
+        if (data.case_problem) {
+          sessionStorage.setItem("caseProblem", JSON.stringify(data.case_problem));
+        }
+        if (data.presentation) {
+          sessionStorage.setItem("presentation", JSON.stringify(data.presentation));
+        }
+        if (data.discussion) {
+          sessionStorage.setItem("discussion", JSON.stringify(data.discussion));
+        }
+        if (data.resume_plan) {
+          sessionStorage.setItem("resumePlan", JSON.stringify(data.resume_plan));
+        }
         router.push("/interview");
       } else {
         setError(data.error || "면접 시작 실패");
@@ -306,7 +402,11 @@ export default function InterviewSetupPage() {
   };
 
   const isReady = setup.jobType !== "";
-  const isUploading = setup.resume?.status === "uploading" || setup.portfolio?.status === "uploading";
+  // 코딩/시스템 설계/케이스 면접은 해당 직군에서만 선택 가능 (PT는 모든 직군)
+  const availableModes = INTERVIEW_MODES.filter((mode) => isInterviewModeAvailable(mode.value, setup.jobType));
+  const isUploading = setup.resume?.status === "uploading"
+    || setup.portfolio?.status === "uploading"
+    || setup.presentationDeck?.status === "uploading";
 
   // Loading state
   if (isCheckingAuth) {
@@ -551,6 +651,182 @@ export default function InterviewSetupPage() {
             </div>
           </motion.div>
 
+          {/* Interview Mode Selection */}
+          {availableModes.length > 1 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.35 }}
+            >
+              <div className="p-4 sm:p-6 bg-[hsl(220,50%,8%)] border border-slate-700/50 rounded-sm">
+                <div className="flex items-center gap-2 sm:gap-3 mb-4">
+                  <div className="w-9 h-9 sm:w-10 sm:h-10 rounded-sm bg-sky-500/10 border border-sky-500/30 flex items-center justify-center flex-shrink-0">
+                    <Code2 className="w-4 h-4 sm:w-5 sm:h-5 text-sky-500" />
+                  </div>
+                  <div className="min-w-0">
+                    <h2 className="font-medium text-sm sm:text-base text-white">면접 유형</h2>
+                    <p className="text-xs sm:text-sm text-slate-500">
+                      코딩/설계/케이스/PT 면접은 화면의 에디터, 다이어그램, 자료와 함께, 압박 면접은 답변 시간 제한과 함께 진행됩니다
+                    </p>
+                  </div>
+                </div>
+                <div className={`grid gap-3 ${availableModes.length > 2 ? "grid-cols-3" : "grid-cols-2"}`}>
+                  {availableModes.map((mode) => (
+                    <button
+                      key={mode.value}
+                      onClick={() =>
+                        setSetup((prev) => ({ ...prev, interviewMode: mode.value }))
+                      }
+                      className={`p-4 rounded-sm text-left transition-all ${
+                        setup.interviewMode === mode.value
+                          ? "bg-sky-500/10 border border-sky-500/30"
+                          : "bg-slate-800/50 border border-slate-700/50 hover:bg-slate-700/50"
+                      }`}
+                    >
+                      <p className={`font-medium ${
+                        setup.interviewMode === mode.value ? "text-sky-400" : "text-white"
+                      }`}>{mode.label}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {mode.description}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </motion.div>
+          )}
+
+          {/* Interview Language */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.38 }}
+          >
+            <div className="p-4 sm:p-6 bg-[hsl(220,50%,8%)] border border-slate-700/50 rounded-sm">
+              <div className="flex items-center gap-2 sm:gap-3 mb-4">
+                <div className="w-9 h-9 sm:w-10 sm:h-10 rounded-sm bg-violet-500/10 border border-violet-500/30 flex items-center justify-center flex-shrink-0">
+                  <Languages className="w-4 h-4 sm:w-5 sm:h-5 text-violet-400" />
+                </div>
+                <div className="min-w-0">
+                  <h2 className="font-medium text-sm sm:text-base text-white">면접 언어</h2>
+                  <p className="text-xs sm:text-sm text-slate-500">
+                    외국계 기업 지원 시 영어/혼합 면접을 선택하면 외국어 구사력도 평가합니다
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                {INTERVIEW_LANGUAGES.map((language) => (
+                  <button
+                    key={language.value}
+                    onClick={() => setSetup((prev) => ({ ...prev, language: language.value }))}
+                    className={`p-4 rounded-sm text-left transition-all ${
+                      setup.language === language.value
+                        ? "bg-violet-500/10 border border-violet-500/30"
+                        : "bg-slate-800/50 border border-slate-700/50 hover:bg-slate-700/50"
+                    }`}
+                  >
+                    <p className={`font-medium ${
+                      setup.language === language.value ? "text-violet-400" : "text-white"
+                    }`}>{language.label}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {language.description}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+
+          {/* Presentation Deck (PT interview only) */}
+          {setup.interviewMode === "presentation" && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+            >
+              <div className="p-4 sm:p-6 bg-[hsl(220,50%,8%)] border border-slate-700/50 rounded-sm">
+                <div className="flex items-center gap-2 sm:gap-3 mb-4">
+                  <div className="w-9 h-9 sm:w-10 sm:h-10 rounded-sm bg-amber-500/10 border border-amber-500/30 flex items-center justify-center flex-shrink-0">
+                    <Presentation className="w-4 h-4 sm:w-5 sm:h-5 text-amber-400" />
+                  </div>
+                  <div className="min-w-0">
+                    <h2 className="font-medium text-sm sm:text-base text-white">발표 자료</h2>
+                    <p className="text-xs sm:text-sm text-slate-500">
+                      필수 - 슬라이드 내용을 바탕으로 질의응답이 진행됩니다
+                    </p>
+                  </div>
+                </div>
+
+                <input
+                  ref={deckInputRef}
+                  type="file"
+                  accept=".pdf"
+                  onChange={handleDeckChange}
+                  className="hidden"
+                />
+
+                {setup.presentationDeck ? (
+                  <div className="flex items-center gap-3 p-4 rounded-sm bg-slate-800/50 border border-slate-700/50">
+                    <Presentation className="w-8 h-8 text-amber-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-white truncate">{setup.presentationDeck.file.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {setup.presentationDeck.deck
+                          ? `슬라이드 ${setup.presentationDeck.deck.slides.length}장`
+                          : `${(setup.presentationDeck.file.size / 1024).toFixed(1)} KB`}
+                      </p>
+                    </div>
+                    {setup.presentationDeck.status === "uploading" ? (
+                      <Loader2 className="w-5 h-5 text-mint animate-spin" />
+                    ) : setup.presentationDeck.status === "success" ? (
+                      <Check className="w-5 h-5 text-green-500" />
+                    ) : (
+                      <AlertCircle className="w-5 h-5 text-red-400" />
+                    )}
+                    <button
+                      onClick={() => setSetup((prev) => ({ ...prev, presentationDeck: null }))}
+                      className="p-1 hover:bg-slate-700/50 rounded-sm"
+                    >
+                      <X className="w-4 h-4 text-slate-500" />
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => deckInputRef.current?.click()}
+                    className="w-full p-8 border border-dashed border-slate-600 rounded-sm hover:border-amber-500/50 transition-colors"
+                  >
+                    <div className="flex flex-col items-center gap-3">
+                      <Upload className="w-10 h-10 text-slate-500" />
+                      <div className="text-center">
+                        <p className="font-medium text-white">발표 슬라이드</p>
+                        <p className="text-sm text-slate-500 mt-1">PDF (최대 10MB, 40장)</p>
+                      </div>
+                    </div>
+                  </button>
+                )}
+
+                <div className="mt-4">
+                  <p className="text-xs text-slate-500 mb-2">발표 시간</p>
+                  <div className="grid grid-cols-3 gap-3">
+                    {PRESENTATION_DURATIONS.map((minutes) => (
+                      <button
+                        key={minutes}
+                        onClick={() => setSetup((prev) => ({ ...prev, presentationMinutes: minutes }))}
+                        className={`p-3 rounded-sm text-sm font-medium transition-all ${
+                          setup.presentationMinutes === minutes
+                            ? "bg-amber-500/10 border border-amber-500/30 text-amber-400"
+                            : "bg-slate-800/50 border border-slate-700/50 text-white hover:bg-slate-700/50"
+                        }`}
+                      >
+                        {minutes}분
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          )}
+
           {/* Resume Upload */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
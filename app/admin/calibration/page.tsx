@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Play, Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getCalibrationRuns, startCalibrationRun } from "@/lib/admin/api";
+import type { CalibrationRun } from "@/types/admin";
+import { toast } from "sonner";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  logical_structure: "논리적 구조",
+  job_expertise: "직무 전문성",
+  attitude_communication: "태도/커뮤니케이션",
+  company_fit: "회사 적합도",
+  growth_potential: "성장 가능성",
+};
+
+const PASS_LABELS: Record<string, string> = { pass: "합격", borderline: "보류", fail: "불합격" };
+
+/**
+ * 루브릭 캘리브레이션 페이지
+ * - 사람이 채점한 기준 면접 기록을 현재 프롬프트/모델로 재채점
+ * - 항목별 MAE, kappa, 합격 판정 혼동 행렬과 직전 실행 대비 변화
+ */
+export default function AdminCalibrationPage() {
+  const [runs, setRuns] = useState<CalibrationRun[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [provider, setProvider] = useState("");
+  const [model, setModel] = useState("");
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getCalibrationRuns();
+      setRuns(data);
+      setSelectedId((current) => current ?? data[0]?.id ?? null);
+    } catch (error) {
+      console.error("Failed to load calibration runs:", error);
+      toast.error("캘리브레이션 기록을 불러오지 못했습니다");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const run = await startCalibrationRun({
+        provider: provider.trim() || undefined,
+        model: model.trim() || undefined,
+      });
+      toast.success(`캘리브레이션 완료: MAE ${run.mae}`);
+      setSelectedId(run.id);
+      loadRuns();
+    } catch (error) {
+      console.error("Failed to run calibration:", error);
+      toast.error(error instanceof Error ? error.message : "캘리브레이션 실행에 실패했습니다");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selectedIndex = runs.findIndex((run) => run.id === selectedId);
+  const selected = selectedIndex >= 0 ? runs[selectedIndex] : null;
+  // Baseline: the run before the selected one
+  const previous = selectedIndex >= 0 ? runs[selectedIndex + 1] : undefined;
+
+  const renderDelta = (current: number, before: number | undefined, lowerIsBetter: boolean) => {
+    if (before === undefined) return null;
+    const delta = Math.round((current - before) * 100) / 100;
+    if (delta === 0) return <span className="text-xs text-slate-500 ml-1">±0</span>;
+    const improved = lowerIsBetter ? delta < 0 : delta > 0;
+    const Icon = delta > 0 ? TrendingUp : TrendingDown;
+    return (
+      <span className={`inline-flex items-center gap-0.5 text-xs ml-1 ${improved ? "text-green-400" : "text-red-400"}`}>
+        <Icon className="w-3 h-3" />
+        {delta > 0 ? "+" : ""}{delta}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white mb-1">채점 캘리브레이션</h1>
+          <p className="text-slate-400">기준 면접 기록을 현재 프롬프트로 재채점해 사람 채점과 비교합니다</p>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="provider (기본값)"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value)}
+            className="w-36 bg-slate-800/50 border-slate-700"
+          />
+          <Input
+            placeholder="model (기본값)"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            className="w-44 bg-slate-800/50 border-slate-700"
+          />
+          <Button onClick={handleRun} disabled={isRunning} className="gap-2 bg-mint text-slate-900 hover:bg-mint/90">
+            {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            {isRunning ? "채점 중..." : "실행"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Runs */}
+      <div className="rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-slate-800/50 border-b border-slate-700/50">
+                <th className="text-left px-4 py-3 text-xs font-medium text-slate-400 uppercase">실행 시각</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-slate-400 uppercase">프롬프트 버전</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-slate-400 uppercase">모델</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-slate-400 uppercase">MAE</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-slate-400 uppercase">판정 일치율</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center">
+                    <div className="w-6 h-6 border-2 border-mint border-t-transparent rounded-full animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : runs.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center text-slate-500">실행 기록이 없습니다</td>
+                </tr>
+              ) : (
+                runs.map((run, index) => (
+                  <tr
+                    key={run.id}
+                    onClick={() => setSelectedId(run.id)}
+                    className={`cursor-pointer transition-colors ${run.id === selectedId ? "bg-slate-800/50" : "hover:bg-slate-800/30"}`}
+                  >
+                    <td className="px-4 py-3 text-sm text-slate-300">{new Date(run.created_at).toLocaleString("ko-KR")}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-slate-400">{run.prompt_version}</td>
+                    <td className="px-4 py-3 text-sm text-slate-400">{run.provider}/{run.model}</td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-300 tabular-nums">
+                      {run.mae}{renderDelta(run.mae, runs[index + 1]?.mae, true)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-300 tabular-nums">
+                      {Math.round(run.pass_accuracy * 100)}%
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Selected run */}
+      {selected && (
+        <div className="grid lg:grid-cols-2 gap-6">
+          <div className="rounded-xl border border-slate-700/50 p-5">
+            <h2 className="text-lg font-semibold text-white mb-1">항목별 일치도</h2>
+            <p className="text-xs text-slate-500 mb-4">
+              기준 기록 {selected.report.metrics.transcripts}개
+              {selected.report.failed.length > 0 && ` · 채점 실패 ${selected.report.failed.join(", ")}`}
+              {previous && previous.prompt_version !== selected.prompt_version && ` · 직전 실행과 프롬프트가 다름 (${previous.prompt_version})`}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400">
+                  <th className="text-left pb-2 font-medium">항목</th>
+                  <th className="text-right pb-2 font-medium">MAE</th>
+                  <th className="text-right pb-2 font-medium">정확 일치</th>
+                  <th className="text-right pb-2 font-medium">kappa</th>
+                  <th className="text-right pb-2 font-medium">가중 kappa</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {Object.entries(selected.report.metrics.categories).map(([category, calibration]) => {
+                  const before = previous?.report.metrics.categories[category as keyof typeof selected.report.metrics.categories];
+                  return (
+                    <tr key={category}>
+                      <td className="py-2 text-slate-300">{CATEGORY_LABELS[category] || category}</td>
+                      <td className="py-2 text-right text-slate-300 tabular-nums">
+                        {calibration.mae}{renderDelta(calibration.mae, before?.mae, true)}
+                      </td>
+                      <td className="py-2 text-right text-slate-400 tabular-nums">{Math.round(calibration.exact * 100)}%</td>
+                      <td className="py-2 text-right text-slate-400 tabular-nums">{calibration.kappa}</td>
+                      <td className="py-2 text-right text-slate-300 tabular-nums">
+                        {calibration.weighted_kappa}{renderDelta(calibration.weighted_kappa, before?.weighted_kappa, false)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500 mt-4">
+              종합 점수 MAE {selected.report.metrics.total_mae}점 · 판정 kappa {selected.report.metrics.pass_kappa}
+            </p>
+          </div>
+
+          <div className="rounded-xl border border-slate-700/50 p-5">
+            <h2 className="text-lg font-semibold text-white mb-1">합격 판정 혼동 행렬</h2>
+            <p className="text-xs text-slate-500 mb-4">행: 사람 판정 · 열: 모델 판정</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400">
+                  <th className="text-left pb-2 font-medium" />
+                  {Object.keys(PASS_LABELS).map((status) => (
+                    <th key={status} className="text-right pb-2 font-medium">{PASS_LABELS[status]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {Object.entries(selected.report.metrics.pass_confusion).map(([gold, row]) => (
+                  <tr key={gold}>
+                    <td className="py-2 text-slate-300">{PASS_LABELS[gold] || gold}</td>
+                    {Object.entries(row).map(([predicted, count]) => (
+                      <td
+                        key={predicted}
+                        className={`py-2 text-right tabular-nums ${predicted === gold ? "text-mint font-semibold" : count > 0 ? "text-red-400" : "text-slate-500"}`}
+                      >
+                        {count}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <h3 className="text-sm font-medium text-white mt-6 mb-2">기록별 결과</h3>
+            <ul className="space-y-1 text-xs">
+              {selected.report.results.map((result) => (
+                <li key={result.id} className="flex justify-between text-slate-400">
+                  <span className="font-mono">{result.id}</span>
+                  <span className="tabular-nums">
+                    사람 {result.gold.total}점 ({PASS_LABELS[result.gold.pass_status]}) →{" "}
+                    {result.predicted
+                      ? `모델 ${result.predicted.total}점 (${PASS_LABELS[result.predicted.pass_status]})`
+                      : `실패: ${result.error}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
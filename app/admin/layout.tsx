@@ -16,6 +16,8 @@ import {
   ChevronRight,
   CreditCard,
   HelpCircle,
+  Gauge,
+  RefreshCw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { checkAdminAccess } from "@/lib/admin/api";
@@ -34,6 +36,8 @@ const navItems = [
   { href: "/admin/activity", label: "활동 로그", icon: ScrollText },
   { href: "/admin/payments", label: "결제 내역", icon: CreditCard },
   { href: "/admin/questions", label: "질문 관리", icon: HelpCircle },
+  { href: "/admin/calibration", label: "채점 캘리브레이션", icon: Gauge },
+  { href: "/admin/rescore", label: "일괄 재채점", icon: RefreshCw },
   { href: "/admin/settings", label: "설정", icon: Settings },
 ];
 
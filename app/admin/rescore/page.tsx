@@ -0,0 +1,332 @@
+"use client";
+
+import { useEffect, useState, useCallback, useRef } from "react";
+import { Play, Pause, Plus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getRescoreJobs, createRescoreJob, runRescoreJobBatch, pauseRescoreJob } from "@/lib/admin/api";
+import type { RescoreJob } from "@/types/admin";
+import { JOB_TYPES } from "@/types/interview";
+import { toast } from "sonner";
+
+const STATUS_LABELS: Record<RescoreJob["status"], string> = {
+  running: "진행 중",
+  paused: "일시정지",
+  completed: "완료",
+};
+
+const STATUS_COLORS: Record<RescoreJob["status"], string> = {
+  running: "bg-blue-500/20 text-blue-400",
+  paused: "bg-yellow-500/20 text-yellow-400",
+  completed: "bg-green-500/20 text-green-400",
+};
+
+/**
+ * 일괄 재채점 페이지
+ * - 루브릭 변경 후 선택한 면접 결과를 저장된 메시지로 현재 채점 버전에 맞춰 다시 채점
+ * - 원본 결과는 그대로 두고 버전별 결과를 따로 저장 (대시보드에서 버전 선택)
+ * - 작업은 배치 단위로 실행되며, 페이지를 닫거나 일시정지해도 이어서 실행 가능
+ */
+export default function AdminRescorePage() {
+  const [jobs, setJobs] = useState<RescoreJob[]>([]);
+  const [scoringVersion, setScoringVersion] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  // Batches keep running while this matches the job (cleared by pause / unmount)
+  const runningRef = useRef<string | null>(null);
+  const [form, setForm] = useState({
+    job_type: "",
+    from: "",
+    to: "",
+    source_version: "",
+    limit: "",
+    session_ids: "",
+    provider: "",
+    model: "",
+  });
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getRescoreJobs();
+      setJobs(data.jobs);
+      setScoringVersion(data.scoringVersion);
+      setSelectedId((current) => current ?? data.jobs[0]?.id ?? null);
+    } catch (error) {
+      console.error("Failed to load rescore jobs:", error);
+      toast.error("재채점 작업을 불러오지 못했습니다");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+    return () => {
+      runningRef.current = null;
+    };
+  }, [loadJobs]);
+
+  const replaceJob = (job: RescoreJob) => {
+    setJobs((current) => current.map((item) => (item.id === job.id ? job : item)));
+  };
+
+  const runJob = async (jobId: string) => {
+    runningRef.current = jobId;
+    setRunningId(jobId);
+    try {
+      while (runningRef.current === jobId) {
+        const job = await runRescoreJobBatch(jobId);
+        replaceJob(job);
+        if (job.status === "completed") {
+          toast.success(`재채점 완료: ${job.rescored}건${job.failures.length > 0 ? ` (실패 ${job.failures.length}건)` : ""}`);
+          break;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to run rescore batch:", error);
+      toast.error(error instanceof Error ? error.message : "재채점에 실패했습니다");
+    } finally {
+      if (runningRef.current === jobId) runningRef.current = null;
+      setRunningId((current) => (current === jobId ? null : current));
+    }
+  };
+
+  const handlePause = async (jobId: string) => {
+    runningRef.current = null;
+    try {
+      replaceJob(await pauseRescoreJob(jobId));
+    } catch (error) {
+      console.error("Failed to pause rescore job:", error);
+      toast.error(error instanceof Error ? error.message : "일시정지에 실패했습니다");
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const job = await createRescoreJob({
+        job_type: form.job_type || undefined,
+        from: form.from || undefined,
+        to: form.to ? `${form.to}T23:59:59.999Z` : undefined,
+        source_version: form.source_version.trim() || undefined,
+        limit: form.limit ? Number(form.limit) : undefined,
+        session_ids: form.session_ids.split(/[\s,]+/).filter(Boolean),
+        provider: form.provider.trim() || undefined,
+        model: form.model.trim() || undefined,
+      });
+      toast.success(`재채점 작업 생성: ${job.result_ids.length}건`);
+      setJobs((current) => [job, ...current]);
+      setSelectedId(job.id);
+      runJob(job.id);
+    } catch (error) {
+      console.error("Failed to create rescore job:", error);
+      toast.error(error instanceof Error ? error.message : "재채점 작업을 만들지 못했습니다");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const selected = jobs.find((job) => job.id === selectedId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-white mb-1">일괄 재채점</h1>
+        <p className="text-slate-400">
+          선택한 면접 결과를 현재 채점 버전
+          {scoringVersion && <span className="font-mono text-mint"> {scoringVersion}</span>}
+          으로 다시 채점합니다. 원본 결과는 그대로 유지됩니다
+        </p>
+      </div>
+
+      {/* New job */}
+      <div className="rounded-xl border border-slate-700/50 p-5 space-y-4">
+        <h2 className="text-lg font-semibold text-white">재채점 대상</h2>
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="text-sm text-slate-400 mb-1 block">직무</label>
+            <select
+              value={form.job_type}
+              onChange={(e) => setForm({ ...form, job_type: e.target.value })}
+              className="w-full bg-slate-800/50 border border-slate-700 rounded-lg p-2 text-white"
+            >
+              <option value="">전체</option>
+              {JOB_TYPES.map((job) => (
+                <option key={job.value} value={job.value}>{job.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 mb-1 block">시작일</label>
+            <Input
+              type="date"
+              value={form.from}
+              onChange={(e) => setForm({ ...form, from: e.target.value })}
+              className="bg-slate-800/50 border-slate-700"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 mb-1 block">종료일</label>
+            <Input
+              type="date"
+              value={form.to}
+              onChange={(e) => setForm({ ...form, to: e.target.value })}
+              className="bg-slate-800/50 border-slate-700"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 mb-1 block">원본 채점 버전</label>
+            <Input
+              placeholder="전체 (예: v1)"
+              value={form.source_version}
+              onChange={(e) => setForm({ ...form, source_version: e.target.value })}
+              className="bg-slate-800/50 border-slate-700"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="text-sm text-slate-400 mb-1 block">세션 ID (쉼표로 구분, 비우면 조건 전체)</label>
+            <Input
+              value={form.session_ids}
+              onChange={(e) => setForm({ ...form, session_ids: e.target.value })}
+              className="bg-slate-800/50 border-slate-700 font-mono"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 mb-1 block">최대 건수</label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="500"
+              value={form.limit}
+              onChange={(e) => setForm({ ...form, limit: e.target.value })}
+              className="bg-slate-800/50 border-slate-700"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 mb-1 block">provider / model</label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="기본값"
+                value={form.provider}
+                onChange={(e) => setForm({ ...form, provider: e.target.value })}
+                className="bg-slate-800/50 border-slate-700"
+              />
+              <Input
+                placeholder="기본값"
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                className="bg-slate-800/50 border-slate-700"
+              />
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleCreate} disabled={isCreating || runningId !== null} className="gap-2 bg-mint text-slate-900 hover:bg-mint/90">
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            작업 만들기
+          </Button>
+        </div>
+      </div>
+
+      {/* Jobs */}
+      <div className="rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-slate-800/50 border-b border-slate-700/50">
+                <th className="text-left px-4 py-3 text-xs font-medium text-slate-400 uppercase">생성 시각</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-slate-400 uppercase">채점 버전</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-slate-400 uppercase">상태</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-slate-400 uppercase">진행</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-slate-400 uppercase">실패</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center">
+                    <div className="w-6 h-6 border-2 border-mint border-t-transparent rounded-full animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : jobs.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center text-slate-500">재채점 작업이 없습니다</td>
+                </tr>
+              ) : (
+                jobs.map((job) => (
+                  <tr
+                    key={job.id}
+                    onClick={() => setSelectedId(job.id)}
+                    className={`cursor-pointer transition-colors ${job.id === selectedId ? "bg-slate-800/50" : "hover:bg-slate-800/30"}`}
+                  >
+                    <td className="px-4 py-3 text-sm text-slate-300">{new Date(job.created_at).toLocaleString("ko-KR")}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-slate-400">{job.scoring_version}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[job.status]}`}>
+                        {runningId === job.id ? "실행 중" : STATUS_LABELS[job.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-300 tabular-nums">
+                      {job.cursor} / {job.result_ids.length}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-400 tabular-nums">{job.failures.length}</td>
+                    <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                      {job.status !== "completed" && (
+                        runningId === job.id ? (
+                          <Button size="sm" variant="outline" onClick={() => handlePause(job.id)} className="gap-1 border-slate-700">
+                            <Pause className="w-3 h-3" />
+                            일시정지
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => runJob(job.id)}
+                            disabled={runningId !== null}
+                            className="gap-1 border-slate-700"
+                          >
+                            <Play className="w-3 h-3" />
+                            이어서 실행
+                          </Button>
+                        )
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Selected job */}
+      {selected && (
+        <div className="rounded-xl border border-slate-700/50 p-5">
+          <h2 className="text-lg font-semibold text-white mb-1">작업 상세</h2>
+          <p className="text-xs text-slate-500 mb-4">
+            재채점 {selected.rescored}건 · 실패 {selected.failures.length}건 · 남은 결과 {selected.result_ids.length - selected.cursor}건
+            {selected.provider && ` · ${selected.provider}${selected.model ? `/${selected.model}` : ""}`}
+            {selected.completed_at && ` · 완료 ${new Date(selected.completed_at).toLocaleString("ko-KR")}`}
+          </p>
+          {selected.failures.length > 0 ? (
+            <ul className="space-y-1 text-xs">
+              {selected.failures.map((failure) => (
+                <li key={failure.result_id} className="flex justify-between text-slate-400">
+                  <span className="font-mono">{failure.result_id}</span>
+                  <span className="text-red-400">{failure.error}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">실패한 결과가 없습니다</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
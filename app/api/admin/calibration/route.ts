@@ -0,0 +1,94 @@
+// ============================================
+// Admin API: Rubric Calibration
+// ============================================
+// GET  /api/admin/calibration - recent calibration runs, newest first
+// POST /api/admin/calibration - re-scores the gold transcripts with the current
+//   final evaluation prompt (optionally another provider/model) and saves the run
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, createAdminSupabaseClient } from '@/lib/admin/server';
+import { runCalibration } from '@/lib/calibration/runner';
+import { isLLMProviderName } from '@/lib/llm/providers';
+
+const RECENT_RUNS_LIMIT = 20;
+
+export async function GET() {
+  try {
+    if (!(await getAdminUser())) {
+      return NextResponse.json({ success: false, error: '관리자 권한이 필요합니다.' }, { status: 403 });
+    }
+
+    const supabase = createAdminSupabaseClient();
+    const { data, error } = await supabase
+      .from('calibration_runs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(RECENT_RUNS_LIMIT);
+
+    if (error) {
+      console.error('Admin calibration runs error:', error);
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, runs: data || [] });
+  } catch (error) {
+    console.error('Admin calibration API error:', error);
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return NextResponse.json({ success: false, error: '관리자 권한이 필요합니다.' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body.provider !== undefined && !isLLMProviderName(body.provider)) {
+      return NextResponse.json({ success: false, error: '지원하지 않는 provider입니다.' }, { status: 400 });
+    }
+
+    console.log('[Calibration] Run started by', admin.id, body.provider || 'default', body.model || '');
+    const report = await runCalibration({
+      provider: body.provider,
+      model: typeof body.model === 'string' && body.model ? body.model : undefined,
+    });
+
+    const supabase = createAdminSupabaseClient();
+    const { data: run, error } = await supabase
+      .from('calibration_runs')
+      .insert({
+        prompt_version: report.prompt_version,
+        provider: report.provider,
+        model: report.model,
+        transcripts: report.metrics.transcripts,
+        mae: report.metrics.mae,
+        pass_accuracy: report.metrics.pass_accuracy,
+        report,
+        created_by: admin.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to save calibration run:', error);
+      return NextResponse.json({ success: false, error: error.message, report }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error('Calibration Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '캘리브레이션 실행 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Every gold transcript is a full evaluation call
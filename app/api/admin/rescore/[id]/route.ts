@@ -0,0 +1,87 @@
+// ============================================
+// Admin API: Bulk Re-scoring Job Batches
+// ============================================
+// POST /api/admin/rescore/[id]
+// - { action: 'run' } (default): re-scores the job's next batch and returns its progress;
+//   the admin page calls this until the job completes, and calling it on a paused
+//   job resumes it from its cursor
+// - { action: 'pause' }: marks the job paused; a batch already running finishes,
+//   no further batch starts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, createAdminSupabaseClient } from '@/lib/admin/server';
+import { runRescoreBatch, type RescoreJob } from '@/lib/scoring/rescore';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    if (!(await getAdminUser())) {
+      return NextResponse.json({ success: false, error: '관리자 권한이 필요합니다.' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const action = body.action || 'run';
+    if (action !== 'run' && action !== 'pause') {
+      return NextResponse.json({ success: false, error: '지원하지 않는 작업입니다.' }, { status: 400 });
+    }
+
+    const supabase = createAdminSupabaseClient();
+    const { data, error } = await supabase
+      .from('rescore_jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ success: false, error: '재채점 작업을 찾을 수 없습니다.' }, { status: 404 });
+    }
+
+    const job = data as RescoreJob;
+    if (job.status === 'completed') {
+      return NextResponse.json({ success: true, job });
+    }
+
+    if (action === 'pause') {
+      const { error: pauseError } = await supabase
+        .from('rescore_jobs')
+        .update({ status: 'paused', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'running');
+      if (pauseError) {
+        return NextResponse.json({ success: false, error: pauseError.message }, { status: 500 });
+      }
+      return NextResponse.json({ success: true, job: { ...job, status: 'paused' } });
+    }
+
+    if (job.status === 'paused') {
+      const { error: resumeError } = await supabase
+        .from('rescore_jobs')
+        .update({ status: 'running', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'paused');
+      if (resumeError) {
+        return NextResponse.json({ success: false, error: resumeError.message }, { status: 500 });
+      }
+    }
+
+    const updated = await runRescoreBatch(supabase, job);
+    return NextResponse.json({ success: true, job: updated });
+  } catch (error) {
+    console.error('Rescore batch Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '재채점 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // A batch is several full evaluation calls
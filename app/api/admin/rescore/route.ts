@@ -0,0 +1,109 @@
+// ============================================
+// Admin API: Bulk Re-scoring Jobs
+// ============================================
+// GET  /api/admin/rescore - recent re-scoring jobs, newest first
+// POST /api/admin/rescore - creates a job for the selected results (session ids,
+//   job type, date range, source scoring version) at the current scoring version;
+//   batches run through POST /api/admin/rescore/[id]
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, createAdminSupabaseClient } from '@/lib/admin/server';
+import { selectResultsForRescore, type RescoreSelection } from '@/lib/scoring/rescore';
+import { SCORING_VERSION } from '@/lib/scoring/evaluation';
+import { isLLMProviderName } from '@/lib/llm/providers';
+
+const RECENT_JOBS_LIMIT = 20;
+
+export async function GET() {
+  try {
+    if (!(await getAdminUser())) {
+      return NextResponse.json({ success: false, error: '관리자 권한이 필요합니다.' }, { status: 403 });
+    }
+
+    const supabase = createAdminSupabaseClient();
+    const { data, error } = await supabase
+      .from('rescore_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(RECENT_JOBS_LIMIT);
+
+    if (error) {
+      console.error('Admin rescore jobs error:', error);
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, jobs: data || [], scoring_version: SCORING_VERSION });
+  } catch (error) {
+    console.error('Admin rescore API error:', error);
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return NextResponse.json({ success: false, error: '관리자 권한이 필요합니다.' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body.provider !== undefined && !isLLMProviderName(body.provider)) {
+      return NextResponse.json({ success: false, error: '지원하지 않는 provider입니다.' }, { status: 400 });
+    }
+
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    const selection: RescoreSelection = {
+      session_ids: Array.isArray(body.session_ids)
+        ? body.session_ids.filter((id: unknown): id is string => typeof id === 'string' && id.length > 0)
+        : undefined,
+      job_type: text(body.job_type),
+      from: text(body.from),
+      to: text(body.to),
+      source_version: text(body.source_version),
+      limit: Number.isInteger(body.limit) && body.limit > 0 ? body.limit : undefined,
+    };
+
+    const supabase = createAdminSupabaseClient();
+    const resultIds = await selectResultsForRescore(supabase, selection);
+    if (resultIds.length === 0) {
+      return NextResponse.json({ success: false, error: '재채점할 결과가 없습니다.' }, { status: 400 });
+    }
+
+    const { data: job, error } = await supabase
+      .from('rescore_jobs')
+      .insert({
+        scoring_version: SCORING_VERSION,
+        status: 'running',
+        selection,
+        result_ids: resultIds,
+        cursor: 0,
+        rescored: 0,
+        failures: [],
+        provider: body.provider ?? null,
+        model: text(body.model) ?? null,
+        created_by: admin.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to create rescore job:', error);
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+    }
+
+    console.log('[Rescore] Job', job.id, 'created by', admin.id, `(${resultIds.length} results)`);
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Rescore Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '재채점 작업을 만드는 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
@@ -4,6 +4,8 @@
 // POST /api/interview/analyze-voice
 // - Analyzes voice patterns from transcription
 // - Returns WPM, filler words, confidence scores
+// - WAV uploads also get acoustic prosody (pitch, loudness, jitter/shimmer)
+// - Optional result_id: stores the analysis in speech_analytics for that result
 
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
@@ -11,6 +13,9 @@ import { createServerClient } from '@supabase/ssr';
 import type { Database } from '@/types/database';
 import { transcribeAudio } from '@/lib/stt/service';
 import { analyzeVoice, generateVoiceFeedback } from '@/lib/analysis/voice';
+import { analyzeProsody } from '@/lib/analysis/prosody';
+import { decodeWav } from '@/lib/realtime/pcm';
+import { isInterviewLanguage } from '@/types/interview';
 
 const VOICE_ANALYSIS_CREDIT = Number(process.env.CREDIT_USE_VOICE_ANALYSIS ?? 1);
 
@@ -65,6 +70,9 @@ export async function POST(req: NextRequest) {
 
     const formData = await req.formData();
     const audioFile = formData.get('audio') as File | null;
+    const resultId = formData.get('result_id') as string | null;
+    const languageField = formData.get('language');
+    const language = isInterviewLanguage(languageField) ? languageField : 'ko';
 
     if (!audioFile) {
       return NextResponse.json(
@@ -78,18 +86,55 @@ export async function POST(req: NextRequest) {
     const audioBuffer = Buffer.from(arrayBuffer);
 
     // Transcribe with word timings
-    const transcription = await transcribeAudio(audioBuffer, 'ko');
+    const transcription = await transcribeAudio(audioBuffer, language);
 
     // Analyze voice patterns
+    // Audio length and prosody need decodable PCM (WAV); compressed uploads fall back
+    // to transcript-only analysis (duration = last word's end)
+    const pcm = decodeWav(audioBuffer);
+    const prosody = pcm ? analyzeProsody(pcm.samples, pcm.sampleRate) : null;
+
     const analysis = analyzeVoice(
       transcription.text,
       transcription.words || [],
-      transcription.durationMs / 1000
+      transcription.audioDurationSeconds,
+      {
+        leadingSilenceSeconds: transcription.leadingSilenceSeconds,
+        trailingSilenceSeconds: transcription.trailingSilenceSeconds,
+        prosody,
+        language,
+      }
     );
 
     // Generate feedback
     const feedback = generateVoiceFeedback(analysis);
 
+    if (resultId) {
+      const { error: saveError } = await (supabase as any).from('speech_analytics').upsert(
+        {
+          result_id: resultId,
+          words_per_minute: analysis.wpm,
+          filler_words: analysis.fillerWords,
+          silence_patterns: analysis.silenceStats,
+          articulation_score: analysis.confidence.factors.articulation,
+          pitch_mean_hz: prosody?.pitchMeanHz ?? null,
+          pitch_variability_st: prosody?.pitchVariabilitySemitones ?? null,
+          loudness_mean_db: prosody?.loudnessMeanDb ?? null,
+          loudness_variability_db: prosody?.loudnessVariabilityDb ?? null,
+          jitter_percent: prosody?.jitterPercent ?? null,
+          shimmer_percent: prosody?.shimmerPercent ?? null,
+          pitch_contour: prosody?.pitchContour ?? null,
+          pitch_variation_score: analysis.confidence.factors.pitchVariation ?? null,
+          vocal_stability_score: analysis.confidence.factors.vocalStability ?? null,
+        },
+        { onConflict: 'result_id' }
+      );
+
+      if (saveError) {
+        console.warn('Failed to save speech analytics:', saveError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       transcription: {
@@ -106,6 +151,7 @@ export async function POST(req: NextRequest) {
         speakingTime: analysis.speakingTime,
         totalDuration: analysis.totalDuration,
         confidence: analysis.confidence,
+        prosody: analysis.prosody ?? null,
       },
       feedback,
     });
@@ -0,0 +1,100 @@
+// ============================================
+// Coding Interview Run API
+// ============================================
+// POST /api/interview/coding/run
+// - Runs the candidate's code against the problem's examples (not the hidden tests)
+// - Hidden tests only run when an answer is submitted via /api/interview/message
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getCodingProblem } from '@/lib/coding/problems';
+import { runCode } from '@/lib/coding/runner';
+import { MAX_SOURCE_CHARS } from '@/lib/coding/submission';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { session_id, source } = await req.json();
+
+    if (!session_id || typeof source !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'session_id와 source가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (source.length > MAX_SOURCE_CHARS) {
+      return NextResponse.json(
+        { success: false, error: `코드는 ${MAX_SOURCE_CHARS.toLocaleString()}자 이내로 작성해주세요.` },
+        { status: 400 }
+      );
+    }
+
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Server Component context
+            }
+          },
+        },
+      }
+    );
+
+    const { data: session, error: sessionError } = await supabase
+      .from('interview_sessions')
+      .select('id, status, interview_mode, timer_config')
+      .eq('id', session_id)
+      .single();
+
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { success: false, error: '세션을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const problemId = (session.timer_config as { coding_problem_id?: string } | null)?.coding_problem_id;
+    const problem = session.interview_mode === 'coding' && problemId ? getCodingProblem(problemId) : undefined;
+
+    if (!problem) {
+      return NextResponse.json(
+        { success: false, error: '코딩 면접 세션이 아닙니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (session.status !== 'active') {
+      return NextResponse.json(
+        { success: false, error: '면접이 진행 중이 아닙니다.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await runCode(source, problem);
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Coding Run Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '코드 실행 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
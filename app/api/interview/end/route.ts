@@ -4,150 +4,37 @@
 // POST /api/interview/end
 // - Ends interview session
 // - Generates 8-axis competency analysis with rubric-based scoring
+// - Builds the per-answer emotion timeline (emotion_analyses)
+// - Coding mode: adds the `coding` axis (hidden test pass rate + explanation)
+// - System design mode: adds scalability / trade-off / design communication axes
+// - Case mode: adds structuring / quantitative reasoning / synthesis axes
+// - Presentation mode: adds delivery (voice analysis) / slide coverage / Q&A axes
+// - Pressure mode: adds composure (answers under challenge + voice stability)
+// - Group discussion mode: adds contribution (share of the debate) / listening / persuasiveness axes
+// - Resume deep-dive mode: per-claim verification report, unsubstantiated claims flagged
+// - Planned interviews (standard / pressure): which agenda topics were covered, cut short or skipped
+// - Per-question scorecards: answers the message flow hasn't scored yet are scored here;
+//   the five core categories are the averages of the per-answer scores
+// - Evaluation ensemble (EVALUATION_ENSEMBLE_SIZE > 1): consensus of several evaluation
+//   samples, per-category spread and low-agreement flags; split verdicts are borderline
+// - English / bilingual interviews: adds the language proficiency axis; English
+//   interviews get the report (feedback, reasoning, comments) in English
+// - The evaluation itself runs in lib/scoring/final-evaluation (shared with admin
+//   re-scoring); prompt, schema, totals and the saved fields come from
+//   lib/scoring/evaluation (shared with the auto-score edge function); results
+//   carry scoring_version
 // - Returns interview result
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { INTERVIEWERS, type InterviewerType } from '@/types/interview';
+import { type InterviewLanguage, type CodeSubmission, type DesignDiagram, type CaseState, type PresentationConfig, type DiscussionConfig, type ResumePlan, type InterviewPlan } from '@/types/interview';
 import { extractInterviewKeywords, type ChatMessage } from '@/lib/llm/router';
-import { generateRubricDocument, PASS_CRITERIA } from '@/lib/llm/prompts/scoring-rubric';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// Detailed evaluation schema with rubric-based scoring
-const EVALUATION_SCHEMA = {
-  type: 'object' as const,
-  properties: {
-    // 5축 핵심 평가 (1-5점 척도)
-    category_scores: {
-      type: 'object',
-      properties: {
-        logical_structure: {
-          type: 'object',
-          properties: {
-            score: { type: 'integer', description: '1-5점 척도' },
-            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
-          },
-          required: ['score', 'reasoning'],
-          additionalProperties: false,
-        },
-        job_expertise: {
-          type: 'object',
-          properties: {
-            score: { type: 'integer', description: '1-5점 척도' },
-            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
-          },
-          required: ['score', 'reasoning'],
-          additionalProperties: false,
-        },
-        attitude_communication: {
-          type: 'object',
-          properties: {
-            score: { type: 'integer', description: '1-5점 척도' },
-            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
-          },
-          required: ['score', 'reasoning'],
-          additionalProperties: false,
-        },
-        company_fit: {
-          type: 'object',
-          properties: {
-            score: { type: 'integer', description: '1-5점 척도' },
-            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
-          },
-          required: ['score', 'reasoning'],
-          additionalProperties: false,
-        },
-        growth_potential: {
-          type: 'object',
-          properties: {
-            score: { type: 'integer', description: '1-5점 척도' },
-            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
-          },
-          required: ['score', 'reasoning'],
-          additionalProperties: false,
-        },
-      },
-      required: ['logical_structure', 'job_expertise', 'attitude_communication', 'company_fit', 'growth_potential'],
-      additionalProperties: false,
-    },
-    // 면접관별 인상 점수
-    interviewer_impressions: {
-      type: 'object',
-      properties: {
-        hiring_manager: {
-          type: 'object',
-          properties: {
-            score: { type: 'number', description: '0-100점' },
-            comment: { type: 'string', description: '한 줄 평가' },
-          },
-          required: ['score', 'comment'],
-          additionalProperties: false,
-        },
-        hr_manager: {
-          type: 'object',
-          properties: {
-            score: { type: 'number', description: '0-100점' },
-            comment: { type: 'string', description: '한 줄 평가' },
-          },
-          required: ['score', 'comment'],
-          additionalProperties: false,
-        },
-        senior_peer: {
-          type: 'object',
-          properties: {
-            score: { type: 'number', description: '0-100점' },
-            comment: { type: 'string', description: '한 줄 평가' },
-          },
-          required: ['score', 'comment'],
-          additionalProperties: false,
-        },
-      },
-      required: ['hiring_manager', 'hr_manager', 'senior_peer'],
-      additionalProperties: false,
-    },
-    // 8축 역량 점수 (0-100)
-    competency_scores: {
-      type: 'object',
-      properties: {
-        behavioral: { type: 'number', description: '행동 역량 (0-100)' },
-        clarity: { type: 'number', description: '명확성 (0-100)' },
-        comprehension: { type: 'number', description: '이해력 (0-100)' },
-        communication: { type: 'number', description: '커뮤니케이션 (0-100)' },
-        reasoning: { type: 'number', description: '논리적 사고 (0-100)' },
-        problem_solving: { type: 'number', description: '문제 해결 (0-100)' },
-        leadership: { type: 'number', description: '리더십 (0-100)' },
-        adaptability: { type: 'number', description: '적응력 (0-100)' },
-      },
-      required: ['behavioral', 'clarity', 'comprehension', 'communication', 'reasoning', 'problem_solving', 'leadership', 'adaptability'],
-      additionalProperties: false,
-    },
-    feedback_summary: { type: 'string', description: '전체 피드백 요약 (2-3문장)' },
-    strengths: {
-      type: 'array',
-      items: { type: 'string' },
-      description: '강점 3가지 (구체적 근거 포함)',
-    },
-    improvements: {
-      type: 'array',
-      items: { type: 'string' },
-      description: '개선점 3가지 (구체적 조언 포함)',
-    },
-  },
-  required: [
-    'category_scores',
-    'interviewer_impressions',
-    'competency_scores',
-    'feedback_summary',
-    'strengths',
-    'improvements',
-  ],
-  additionalProperties: false,
-};
+import type { AnswerVoiceFeatures } from '@/lib/analysis/voice';
+import { buildEmotionTimeline, type EmotionMessage } from '@/lib/analysis/emotion';
+import { createAdminSupabaseClient } from '@/lib/admin/server';
+import { loadAnswerScorecards, type ScoredMessageRow } from '@/lib/scoring/answers';
+import { runFinalEvaluation } from '@/lib/scoring/final-evaluation';
 
 export async function POST(req: NextRequest) {
   try {
@@ -193,6 +80,18 @@ export async function POST(req: NextRequest) {
       turn_count: number;
       status: string;
       created_at: string;
+      industry?: string | null;
+      interview_mode?: string;
+      timer_config?: {
+        coding_problem_id?: string;
+        design_problem_id?: string;
+        case_problem_id?: string;
+        presentation?: PresentationConfig;
+        language?: InterviewLanguage;
+        discussion?: DiscussionConfig;
+        resume_plan?: ResumePlan;
+        interview_plan?: InterviewPlan;
+      } | null;
     }
 
     // Get session
@@ -230,140 +129,27 @@ export async function POST(req: NextRequest) {
       role: string;
       content: string;
       interviewer_id?: string;
+      code_submission?: CodeSubmission | null;
+      design_diagram?: DesignDiagram | null;
+      case_state?: CaseState | null;
+      voice_features?: AnswerVoiceFeatures | null;
+      resume_claim_id?: string | null;
+      plan_topic_id?: string | null;
+      created_at?: string;
     }
 
-    // Build conversation transcript for evaluation
-    const transcript = (messages as MessageRow[])
-      .map(msg => {
-        const speaker = msg.role === 'user' ? '지원자' :
-          INTERVIEWERS[msg.interviewer_id as InterviewerType]?.name || '면접관';
-        return `${speaker}: ${msg.content}`;
-      })
-      .join('\n');
-
-    // Generate rubric document for evaluation
-    const rubricDoc = generateRubricDocument();
-
-    // Generate evaluation using GPT-4o with rubric-based structured output
-    const evaluationPrompt = `다음은 AI 면접 기록입니다. 아래 루브릭에 따라 지원자의 면접 성과를 **엄격하게** 평가해주세요.
-
-## 면접 정보
-- 직무: ${session.job_type}
-- 난이도: ${session.difficulty}
-
-## 평가 루브릭
-${rubricDoc}
-
-## 면접 기록
-${transcript}
-
-## 평가 지침
+    // Per-answer scores: the evaluator grounds the core categories in them
+    // (answer_scores is service-role only, so candidates can't write their own)
+    const answerScorecards = await loadAnswerScorecards(createAdminSupabaseClient(), messages as ScoredMessageRow[], session);
 
-### 1. 5축 핵심 평가 (1-5점)
-각 항목을 루브릭 기준에 따라 엄격하게 채점하세요:
-- **5점**: 완벽한 수준, 기대를 크게 초과
-- **4점**: 좋음, 기대 충족
-- **3점**: 보통, 무난한 수준 (기본)
-- **2점**: 부족, 개선 필요
-- **1점**: 매우 부족, 기준 미달
-
-### 2. 면접관별 인상 점수 (0-100점)
-각 면접관의 관점에서 평가:
-- **실무팀장(hiring_manager)**: 직무 전문성(45%), 문제해결력 중시
-- **HR담당자(hr_manager)**: 태도/커뮤니케이션(35%), 조직적합성(25%) 중시
-- **시니어동료(senior_peer)**: 직무전문성(35%), 성장가능성(25%) 중시
-
-### 3. 8축 역량 점수 (0-100점)
-5축 점수를 기반으로 8축 역량으로 변환하여 평가
-
-### 4. 총점 계산 공식
-총점 = (논리적구조×0.20 + 직무전문성×0.30 + 태도×0.20 + 적합도×0.15 + 성장성×0.15) × 20
-
-- 70점 이상: 합격 (pass)
-- 50-69점: 보류 (borderline)
-- 50점 미만: 불합격 (fail)
-
-### 중요
-- 모든 점수의 근거를 면접 내용에서 직접 인용하세요
-- 강점과 개선점은 구체적인 예시와 함께 제시하세요
-- 관대한 점수 금지: 평균적인 면접은 3점(60점)입니다`;
-
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: `당신은 면접 평가 전문가입니다.
-루브릭에 따라 객관적이고 엄격하게 평가합니다.
-- 증거 기반 평가: 모든 점수의 근거를 답변 내용에서 직접 인용
-- 관대한 점수 금지: 5점은 완벽한 답변에만, 의심스러우면 낮은 점수
-- 일관성 유지: 동일한 수준의 답변에는 동일한 점수`
-        },
-        { role: 'user', content: evaluationPrompt },
-      ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: {
-          name: 'interview_evaluation',
-          strict: true,
-          schema: EVALUATION_SCHEMA,
-        },
-      },
-      temperature: 0, // 일관된 채점을 위해 0으로 설정
+    // Final evaluation (lib/scoring/final-evaluation, shared with re-scoring)
+    const { record, claimVerification, planCoverage, ensembleReport } = await runFinalEvaluation({
+      session,
+      messages: messages as MessageRow[],
+      answerScorecards,
+      operation: 'evaluation',
     });
 
-    const evaluationText = completion.choices[0]?.message?.content || '{}';
-    let evaluation;
-
-    try {
-      evaluation = JSON.parse(evaluationText);
-    } catch {
-      console.error('Failed to parse evaluation:', evaluationText);
-      // Provide default evaluation
-      evaluation = {
-        category_scores: {
-          logical_structure: { score: 3, reasoning: '평가 오류' },
-          job_expertise: { score: 3, reasoning: '평가 오류' },
-          attitude_communication: { score: 3, reasoning: '평가 오류' },
-          company_fit: { score: 3, reasoning: '평가 오류' },
-          growth_potential: { score: 3, reasoning: '평가 오류' },
-        },
-        interviewer_impressions: {
-          hiring_manager: { score: 60, comment: '평가 중 오류 발생' },
-          hr_manager: { score: 60, comment: '평가 중 오류 발생' },
-          senior_peer: { score: 60, comment: '평가 중 오류 발생' },
-        },
-        competency_scores: {
-          behavioral: 60, clarity: 60, comprehension: 60, communication: 60,
-          reasoning: 60, problem_solving: 60, leadership: 60, adaptability: 60,
-        },
-        feedback_summary: '면접 평가 중 오류가 발생했습니다.',
-        strengths: ['평가 불가'],
-        improvements: ['다시 시도해주세요'],
-      };
-    }
-
-    // Calculate overall score from category scores using rubric weights
-    const categoryScores = evaluation.category_scores;
-    const overallScore = Math.round(
-      (((categoryScores.logical_structure.score - 1) / 4) * 100 * 0.20) +
-      (((categoryScores.job_expertise.score - 1) / 4) * 100 * 0.30) +
-      (((categoryScores.attitude_communication.score - 1) / 4) * 100 * 0.20) +
-      (((categoryScores.company_fit.score - 1) / 4) * 100 * 0.15) +
-      (((categoryScores.growth_potential.score - 1) / 4) * 100 * 0.15)
-    );
-
-    // Determine pass status based on calculated score
-    const passStatus = overallScore >= PASS_CRITERIA.pass ? 'pass' :
-                       overallScore >= PASS_CRITERIA.borderline ? 'borderline' : 'fail';
-
-    // Extract interviewer scores
-    const interviewerScores = {
-      hiring_manager: Math.round(evaluation.interviewer_impressions.hiring_manager.score),
-      hr_manager: Math.round(evaluation.interviewer_impressions.hr_manager.score),
-      senior_peer: Math.round(evaluation.interviewer_impressions.senior_peer.score),
-    };
-
     // Update session status
     await supabase
       .from('interview_sessions')
@@ -376,20 +162,11 @@ ${transcript}
       .insert({
         session_id,
         user_id: session.user_id,
-        overall_score: overallScore,
-        pass_status: passStatus,
-        interviewer_scores: interviewerScores,
-        competency_scores: evaluation.competency_scores,
-        feedback_summary: evaluation.feedback_summary,
-        strengths: evaluation.strengths,
-        improvements: evaluation.improvements,
-        // Store detailed category scores with reasoning for future reference
-        category_scores: evaluation.category_scores,
-        interviewer_comments: {
-          hiring_manager: evaluation.interviewer_impressions.hiring_manager.comment,
-          hr_manager: evaluation.interviewer_impressions.hr_manager.comment,
-          senior_peer: evaluation.interviewer_impressions.senior_peer.comment,
-        },
+        ...record,
+        ...(claimVerification ? { claim_verification: claimVerification } : {}),
+        ...(planCoverage ? { plan_coverage: planCoverage } : {}),
+        ...(answerScorecards.length > 0 ? { answer_scorecards: answerScorecards } : {}),
+        ...(ensembleReport ? { evaluation_ensemble: ensembleReport } : {}),
       })
       .select()
       .single();
@@ -398,6 +175,23 @@ ${transcript}
       console.error('Result save error:', resultError);
     }
 
+    // Emotion timeline: affect per answer from its text (+ voice features when spoken)
+    const emotion = buildEmotionTimeline(messages as EmotionMessage[], session.created_at);
+
+    if (result?.id && emotion.timeline.length > 0) {
+      const { error: emotionError } = await supabase
+        .from('emotion_analyses')
+        .insert({
+          result_id: result.id,
+          timeline: emotion.timeline,
+          average_scores: emotion.average_scores,
+        });
+
+      if (emotionError) {
+        console.error('Emotion analysis save error:', emotionError);
+      }
+    }
+
     // Extract keywords for future interviews
     try {
       console.log('Extracting interview keywords...');
@@ -462,19 +256,12 @@ ${transcript}
       result: {
         id: result?.id || session_id,
         session_id,
-        overall_score: overallScore,
-        pass_status: passStatus,
-        interviewer_scores: interviewerScores,
-        competency_scores: evaluation.competency_scores,
-        category_scores: evaluation.category_scores,
-        interviewer_comments: {
-          hiring_manager: evaluation.interviewer_impressions.hiring_manager.comment,
-          hr_manager: evaluation.interviewer_impressions.hr_manager.comment,
-          senior_peer: evaluation.interviewer_impressions.senior_peer.comment,
-        },
-        feedback_summary: evaluation.feedback_summary,
-        strengths: evaluation.strengths,
-        improvements: evaluation.improvements,
+        ...record,
+        emotion_timeline: emotion.timeline,
+        claim_verification: claimVerification ?? undefined,
+        plan_coverage: planCoverage ?? undefined,
+        answer_scorecards: answerScorecards.length > 0 ? answerScorecards : undefined,
+        evaluation_ensemble: ensembleReport ?? undefined,
         turn_count: session.turn_count,
         duration_minutes: Math.round(
           (new Date().getTime() - new Date(session.created_at).getTime()) / 60000
@@ -0,0 +1,97 @@
+// ============================================
+// Interview Interrupt API (barge-in)
+// ============================================
+// POST /api/interview/interrupt
+// - The candidate started speaking while the interviewer's audio was playing
+// - Records how much of the interviewer message was actually heard
+// - The next /api/interview/message turn only feeds the heard part to the LLM
+// - Written through the record_message_interruption RPC: candidates have no UPDATE on messages
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { session_id, message_id, char_offset } = await req.json();
+
+    if (!session_id || !message_id || typeof char_offset !== 'number' || char_offset < 0) {
+      return NextResponse.json(
+        { success: false, error: 'session_id, message_id, char_offset가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Server Component context
+            }
+          },
+        },
+      }
+    );
+
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, role, content')
+      .eq('id', message_id)
+      .eq('session_id', session_id)
+      .single();
+
+    if (messageError || !message) {
+      return NextResponse.json(
+        { success: false, error: '메시지를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    if (message.role !== 'interviewer') {
+      return NextResponse.json(
+        { success: false, error: '면접관 메시지만 중단할 수 있습니다.' },
+        { status: 400 }
+      );
+    }
+
+    // Playback position is an estimate; never point past the end of the message
+    const interruptedAtChar = Math.min(Math.round(char_offset), (message.content as string).length);
+
+    const { data: recorded, error: recordError } = await (supabase as any).rpc('record_message_interruption', {
+      p_message_id: message_id,
+      p_char_offset: interruptedAtChar,
+    });
+
+    if (recordError || !recorded?.success) {
+      throw new Error(`Failed to record interruption: ${recordError?.message || recorded?.error}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message_id,
+      interrupted_at_char: interruptedAtChar,
+    });
+  } catch (error) {
+    console.error('Interview Interrupt Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '중단 기록 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+// ============================================
+// Interview Pause API
+// ============================================
+// POST /api/interview/pause
+// - action 'pause': session → paused, the clock (session timer, answer timer, PT timer) is saved
+// - action 'resume': session → active, continuing from the saved clock
+// - action 'checkpoint': saves the clock only (after each turn, and via sendBeacon when the tab closes)
+// - The current interviewer is already on the session (current_interviewer_id)
+// - Sessions untouched for SESSION_EXPIRY_HOURS are marked abandoned instead
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getSessionTimeLimit, isSessionExpired, parseSessionClock, RESUMABLE_STATUSES } from '@/lib/interview/clock';
+import type { InterviewSession } from '@/types/interview';
+
+const PAUSE_ACTIONS = ['pause', 'resume', 'checkpoint'] as const;
+type PauseAction = typeof PAUSE_ACTIONS[number];
+
+export async function POST(req: NextRequest) {
+  try {
+    const { session_id, action, clock } = await req.json();
+
+    if (!session_id || !PAUSE_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'session_id와 action(pause/resume/checkpoint)이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Server Component context
+            }
+          },
+        },
+      }
+    );
+
+    const { data: session, error: sessionError } = await supabase
+      .from('interview_sessions')
+      .select('id, status, timer_config, updated_at')
+      .eq('id', session_id)
+      .single();
+
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { success: false, error: '세션을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const status = session.status as InterviewSession['status'];
+    if (!RESUMABLE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: '면접이 진행 중이 아닙니다.' },
+        { status: 409 }
+      );
+    }
+
+    if (isSessionExpired(session)) {
+      await supabase.from('interview_sessions').update({ status: 'abandoned' }).eq('id', session_id);
+      return NextResponse.json(
+        { success: false, error: '오래 중단된 면접이 만료되었습니다. 새 면접을 시작해주세요.' },
+        { status: 410 }
+      );
+    }
+
+    const parsed = parseSessionClock(clock, getSessionTimeLimit(session.timer_config));
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const nextStatus: InterviewSession['status'] = (action as PauseAction) === 'pause'
+      ? 'paused'
+      : action === 'resume' ? 'active' : status;
+
+    const { error: updateError } = await supabase
+      .from('interview_sessions')
+      .update({
+        status: nextStatus,
+        timer_config: { ...(session.timer_config as Record<string, unknown> | null), clock: parsed.clock },
+      })
+      .eq('id', session_id);
+
+    if (updateError) {
+      throw new Error(`Failed to save session clock: ${updateError.message}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      session_id,
+      status: nextStatus,
+      clock: parsed.clock,
+    });
+  } catch (error) {
+    console.error('Interview Pause Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '면접 상태 저장 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
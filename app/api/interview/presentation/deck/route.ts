@@ -0,0 +1,107 @@
+// ============================================
+// Presentation Deck API
+// ============================================
+// POST /api/interview/presentation/deck
+// - Parses the PT slide deck (PDF) with smartParsePDF and splits it into slides
+// - Nothing is stored here: the deck is sent back with /api/interview/start
+//   and kept in the session metadata
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { smartParsePDF } from '@/lib/rag/pdf-parser';
+import { buildPresentationDeck, DECK_PARSING_INSTRUCTIONS, MAX_SLIDES } from '@/lib/presentation/deck';
+
+export async function POST(req: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Server Component context
+            }
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: '로그인이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: '파일이 없습니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (file.type !== 'application/pdf') {
+      return NextResponse.json(
+        { success: false, error: '발표 자료는 PDF로 업로드해 주세요.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      return NextResponse.json(
+        { success: false, error: '파일 크기는 10MB 이하여야 합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const pdfBuffer = Buffer.from(await file.arrayBuffer());
+    const parseResult = await smartParsePDF(pdfBuffer, process.env.LLAMAPARSE_API_KEY, DECK_PARSING_INSTRUCTIONS);
+    const deck = buildPresentationDeck(parseResult, file.name);
+
+    console.log(`[Presentation] Deck parsed: ${deck.slides.length} slides (${parseResult.metadata.pages} pages), method: ${deck.parse_method}`);
+
+    if (deck.slides.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '발표 자료에서 텍스트를 추출할 수 없습니다. 이미지로만 된 슬라이드는 지원되지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      deck,
+      truncated: parseResult.metadata.pages > MAX_SLIDES,
+    });
+  } catch (error) {
+    console.error('Presentation Deck Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '발표 자료 처리 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Route segment config for larger file uploads
+export const runtime = 'nodejs';
+export const maxDuration = 60;
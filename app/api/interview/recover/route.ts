@@ -0,0 +1,126 @@
+// ============================================
+// Interview Recover API
+// ============================================
+// POST /api/interview/recover
+// - Reopens an active or paused session after a refresh, a dropped connection
+//   or from the history page, without charging INTERVIEW_START credits again
+// - Returns the conversation, the mode's problem / deck / motion / resume plan
+//   with the progress so far, and the saved clock
+// - An active session comes back paused, so its clock waits until the candidate resumes
+// - Sessions untouched for SESSION_EXPIRY_HOURS are marked abandoned instead
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { isSessionExpired, RESUMABLE_STATUSES } from '@/lib/interview/clock';
+import { buildRecoveredInterview, RECOVERY_MESSAGE_COLUMNS, type RecoveryMessageRow } from '@/lib/interview/recovery';
+import type { InterviewSessionRow } from '@/lib/interview/turn';
+import { isValidUUID } from '@/lib/security';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { session_id } = await req.json();
+
+    if (!session_id || !isValidUUID(session_id)) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 세션 ID입니다.' },
+        { status: 400 }
+      );
+    }
+
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Server Component context
+            }
+          },
+        },
+      }
+    );
+
+    const { data: sessionData, error: sessionError } = await supabase
+      .from('interview_sessions')
+      .select('*')
+      .eq('id', session_id)
+      .single();
+
+    if (sessionError || !sessionData) {
+      return NextResponse.json(
+        { success: false, error: '세션을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const session = sessionData as InterviewSessionRow;
+
+    if (!RESUMABLE_STATUSES.includes(session.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: session.status === 'completed' ? '이미 종료된 면접입니다.' : '이어할 수 없는 면접입니다.',
+          status: session.status,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (isSessionExpired(session)) {
+      await supabase.from('interview_sessions').update({ status: 'abandoned' }).eq('id', session_id);
+      return NextResponse.json(
+        { success: false, error: '오래 중단된 면접이 만료되었습니다. 새 면접을 시작해주세요.', status: 'abandoned' },
+        { status: 410 }
+      );
+    }
+
+    const { data: messages, error: messagesError } = await supabase
+      .from('messages')
+      .select(RECOVERY_MESSAGE_COLUMNS)
+      .eq('session_id', session_id)
+      .order('created_at', { ascending: true });
+
+    if (messagesError) {
+      throw new Error(`Failed to load messages: ${messagesError.message}`);
+    }
+
+    const recovered = buildRecoveredInterview(session, (messages || []) as unknown as RecoveryMessageRow[]);
+
+    if (session.status === 'active') {
+      const { error: updateError } = await supabase
+        .from('interview_sessions')
+        .update({ status: 'paused', timer_config: { ...(session.timer_config as Record<string, unknown> | null), clock: recovered.clock } })
+        .eq('id', session_id);
+
+      if (updateError) {
+        throw new Error(`Failed to pause recovered session: ${updateError.message}`);
+      }
+      recovered.session.status = 'paused';
+    }
+
+    console.log('[Recover] Session reopened:', session_id, `(${recovered.messages.length} messages, ${recovered.clock.remaining_seconds}s left)`);
+
+    return NextResponse.json({ success: true, ...recovered });
+  } catch (error) {
+    console.error('Interview Recover Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '면접을 불러오는 중 오류가 발생했습니다.',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
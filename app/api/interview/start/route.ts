@@ -5,6 +5,15 @@
 // - Creates new interview session
 // - Assigns random MBTI and names to each interviewer
 // - Returns first interviewer message
+// - Coding / system design / case mode: picks a problem and opens with it instead of a self-introduction
+// - Presentation mode: stores the parsed deck and opens with the presentation
+// - Pressure mode: shortened answer timer (PRESSURE_TIMER_CONFIG) and a curt opening
+// - Group discussion mode: picks a motion, seats AI co-candidates with stances, the moderator opens
+// - Resume deep-dive mode: extracts every claim in the resume as the interview plan and opens on the first
+// - Standard / pressure mode: generates the interview plan (topics, owners, follow-up depth, time budget)
+//   from the JD, the resume and matching question bank questions
+// - language: 'ko' (default) / 'en' / 'mixed' drives prompts, STT and the report
+// - Expires the user's stale unfinished sessions (a live one is reopened via /api/interview/recover, not restarted)
 // - Includes daily usage limit enforcement
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,10 +21,31 @@ import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import type { Database } from '@/types/database';
 import { generateInterviewerResponse, type UserKeyword, getRandomMBTI } from '@/lib/llm/router';
+import { hasConfiguredProvider } from '@/lib/llm/providers';
 import { ragService } from '@/lib/rag/service';
+import { pickCodingProblem, toPublicProblem, type CodingProblem } from '@/lib/coding/problems';
+import { pickDesignProblem, type DesignProblem } from '@/lib/design/problems';
+import { pickCaseProblem, toPublicCase, type CaseProblem } from '@/lib/case/cases';
+import { parsePresentationConfig } from '@/lib/presentation/deck';
+import { pickDiscussionTopic, createDiscussionConfig, toPublicDiscussion, type DiscussionTopic } from '@/lib/discussion/topics';
+import { extractResumeClaims } from '@/lib/resume/claims';
+import { searchRelevantQuestions } from '@/lib/rag/question-service';
+import { generateInterviewPlan, isPlannedInterviewMode } from '@/lib/plan/generator';
+import { expireStaleSessions } from '@/lib/interview/recovery';
 import {
   INTERVIEWER_BASE,
+  INTERVIEW_MODES,
+  PRESSURE_TIMER_CONFIG,
+  DISCUSSION_MODERATOR,
+  QUESTION_BANK_CATEGORIES,
+  isInterviewModeAvailable,
+  isInterviewLanguage,
+  type InterviewMode,
   type InterviewerType,
+  type PresentationConfig,
+  type ResumePlan,
+  type InterviewPlan,
+  type InterviewQuestionSearchResult,
   type MBTIType,
   generateSessionInterviewerNames,
   type SessionInterviewerNames,
@@ -46,6 +76,9 @@ export async function POST(req: NextRequest) {
       portfolio_doc_id,
       timer_config,
       jd_text,
+      interview_mode = 'standard',
+      presentation,
+      language = 'ko',
     } = body;
 
     // ============================================
@@ -72,6 +105,54 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (!INTERVIEW_MODES.some((m) => m.value === interview_mode)) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 면접 유형입니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!isInterviewModeAvailable(interview_mode, job_type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: interview_mode === 'coding'
+            ? '코딩 면접은 개발/데이터 직군에서만 선택할 수 있습니다.'
+            : interview_mode === 'system_design'
+              ? '시스템 설계 면접은 백엔드/DevOps/풀스택/데이터 엔지니어 직군에서만 선택할 수 있습니다.'
+              : '케이스 면접은 PM/PO/사업개발/데이터 분석/그로스 마케터 직군에서만 선택할 수 있습니다.',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isInterviewLanguage(language)) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 면접 언어입니다.' },
+        { status: 400 }
+      );
+    }
+
+    // PT interview: parsed deck (from /api/interview/presentation/deck) and duration
+    let presentationConfig: PresentationConfig | null = null;
+    if (interview_mode === 'presentation') {
+      const parsed = parsePresentationConfig(presentation);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        );
+      }
+      presentationConfig = parsed.config;
+    }
+
+    if (interview_mode === 'resume_deep_dive' && !resume_doc_id) {
+      return NextResponse.json(
+        { success: false, error: '이력서 검증 면접은 이력서/자소서를 업로드해야 시작할 수 있습니다.' },
+        { status: 400 }
+      );
+    }
+
     // Validate UUIDs if provided
     if (resume_doc_id && !isValidUUID(resume_doc_id)) {
       return NextResponse.json(
@@ -104,10 +185,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('Missing OpenAI API key');
+    if (!hasConfiguredProvider()) {
+      console.error('No LLM provider configured');
       return NextResponse.json(
-        { success: false, error: 'OpenAI API 키가 설정되지 않았습니다.' },
+        { success: false, error: 'LLM API 키가 설정되지 않았습니다.' },
         { status: 500 }
       );
     }
@@ -157,6 +238,37 @@ export async function POST(req: NextRequest) {
     console.log('User authenticated:', user.id, user.email);
     const userId = user.id;
 
+    // Sessions left unfinished for too long can no longer be reopened
+    try {
+      const expired = await expireStaleSessions(supabase as any, userId);
+      if (expired.length > 0) {
+        console.log('Expired stale sessions:', expired);
+      }
+    } catch (e) {
+      console.warn('Failed to expire stale sessions:', e);
+    }
+
+    // Resume deep-dive: every claim in the resume becomes the interview plan (before charging credits)
+    let resumePlan: ResumePlan | null = null;
+    if (interview_mode === 'resume_deep_dive') {
+      let resumeText = '';
+      try {
+        resumeText = await ragService.getDocumentText(userId, resume_doc_id);
+      } catch (e) {
+        console.warn('Failed to load resume text:', e);
+      }
+
+      const claims = resumeText ? await extractResumeClaims(resumeText, job_type) : [];
+      if (claims.length === 0) {
+        return NextResponse.json(
+          { success: false, error: '이력서에서 검증할 프로젝트나 성과를 찾지 못했습니다. 이력서를 확인하거나 다른 면접 유형을 선택해주세요.' },
+          { status: 400 }
+        );
+      }
+      resumePlan = { claims };
+      console.log('Resume plan:', claims.length, 'claims');
+    }
+
     // ============================================
     // Credit charge for starting interview
     // ============================================
@@ -268,6 +380,51 @@ export async function POST(req: NextRequest) {
       interviewerNames = generateSessionInterviewerNames();
     }
 
+    // Coding / design / case interview: one problem for the whole session
+    const mode = interview_mode as InterviewMode;
+    const codingProblem: CodingProblem | null = mode === 'coding' ? pickCodingProblem(difficulty) : null;
+    const designProblem: DesignProblem | null = mode === 'system_design' ? pickDesignProblem(difficulty) : null;
+    const caseProblem: CaseProblem | null = mode === 'case' ? pickCaseProblem(difficulty) : null;
+    const discussionTopic: DiscussionTopic | null = mode === 'group_discussion' ? pickDiscussionTopic(difficulty) : null;
+    const discussionConfig = discussionTopic ? createDiscussionConfig(discussionTopic, difficulty) : null;
+
+    // Standard / pressure interview: an agenda from the JD, the resume and matching bank questions
+    const maxTurns = 10;
+    let interviewPlan: InterviewPlan | null = null;
+    if (isPlannedInterviewMode(mode)) {
+      let planResumeText = '';
+      if (resume_doc_id) {
+        try {
+          planResumeText = await ragService.getDocumentText(userId, resume_doc_id);
+        } catch (e) {
+          console.warn('Failed to load resume text for the interview plan:', e);
+        }
+      }
+
+      let bankQuestions: InterviewQuestionSearchResult[] = [];
+      const bankCategory = QUESTION_BANK_CATEGORIES[job_type];
+      if (bankCategory && (planResumeText || jd_text)) {
+        try {
+          bankQuestions = await searchRelevantQuestions(planResumeText, jd_text || '', [], bankCategory, {
+            topK: 3,
+            useReranker: true,
+          });
+        } catch (e) {
+          console.warn('Failed to search questions for the interview plan:', e);
+        }
+      }
+
+      interviewPlan = await generateInterviewPlan({
+        jobType: job_type,
+        difficulty,
+        jdText: jd_text,
+        resumeText: planResumeText,
+        bankQuestions,
+        maxTurns,
+      });
+      console.log('Interview plan:', interviewPlan.topics.map(topic => `${topic.id} ${topic.title} (${topic.interviewer})`));
+    }
+
     // Create interview session with MBTI and name assignments
     const sessionTimerConfig = {
       ...(timer_config || {
@@ -275,11 +432,25 @@ export async function POST(req: NextRequest) {
         warning_threshold: 30,
         auto_submit_on_timeout: true,
       }),
+      ...(mode === 'pressure' ? PRESSURE_TIMER_CONFIG : {}), // Not loosened by the client's timer_config
       interviewer_mbti: interviewerMbti, // Store MBTI assignments
       interviewer_names: interviewerNames, // Store name assignments
       jd_text: jd_text || null, // Store JD text
+      language, // Interview language
+      ...(codingProblem ? { coding_problem_id: codingProblem.id } : {}),
+      ...(designProblem ? { design_problem_id: designProblem.id } : {}),
+      ...(caseProblem ? { case_problem_id: caseProblem.id } : {}),
+      ...(presentationConfig ? { presentation: presentationConfig } : {}),
+      ...(discussionConfig ? { discussion: discussionConfig } : {}),
+      ...(resumePlan ? { resume_plan: resumePlan } : {}),
+      ...(interviewPlan ? { interview_plan: interviewPlan } : {}),
     };
 
+    // First interviewer is the hiring manager (senior peer leads the design round, the moderator opens a discussion)
+    const firstInterviewer: InterviewerType = designProblem
+      ? 'senior_peer'
+      : discussionConfig ? DISCUSSION_MODERATOR : 'hiring_manager';
+
     const { data: session, error: sessionError } = await (supabase as any)
       .from('interview_sessions')
       .insert({
@@ -287,13 +458,14 @@ export async function POST(req: NextRequest) {
         job_type,
         industry,
         difficulty,
+        interview_mode: mode,
         resume_doc_id,
         portfolio_doc_id,
         status: 'active',
         turn_count: 0,
-        max_turns: 10,
+        max_turns: maxTurns,
         timer_config: sessionTimerConfig,
-        current_interviewer_id: 'hiring_manager',
+        current_interviewer_id: firstInterviewer,
       })
       .select()
       .single();
@@ -368,8 +540,6 @@ export async function POST(req: NextRequest) {
       console.warn('Failed to load user keywords:', e);
     }
 
-    // First interviewer is always hiring manager
-    const firstInterviewer: InterviewerType = 'hiring_manager';
     const interviewerBase = INTERVIEWER_BASE[firstInterviewer];
     const firstInterviewerMbti = interviewerMbti[firstInterviewer];
     const firstInterviewerName = interviewerNames[firstInterviewer];
@@ -397,13 +567,58 @@ export async function POST(req: NextRequest) {
 
     // First question is ALWAYS self-introduction (hardcoded for consistency)
     // Simple and direct format as requested
-    const selfIntroductionMessage = `안녕하세요 ${userName}님, 2분 내로 자기소개 부탁드립니다.`;
-
-    console.log('Using hardcoded self-introduction request for:', userName);
+    // Coding / design / case mode opens with the problem, PT mode with the presentation,
+    // pressure mode with a self-introduction under the shortened answer timer,
+    // group discussion with the moderator introducing the motion and the seats,
+    // resume deep-dive with the first claim of the plan
+    const firstClaim = resumePlan?.claims[0];
+    const discussionSeats = discussionConfig
+      ? discussionConfig.participants.map(p => `${p.name}(${p.stance})`).join(', ')
+      : '';
+    const koreanOpening = codingProblem
+      ? `안녕하세요 ${userName}님, 오늘은 코딩 문제를 함께 풀어보겠습니다. 화면의 "${codingProblem.title}" 문제를 읽어보시고, 코드를 작성하기 전에 어떤 방식으로 접근하실지 먼저 설명해 주세요.`
+      : designProblem
+        ? `안녕하세요 ${userName}님, 오늘은 "${designProblem.title}"을(를) 함께 설계해 보겠습니다. 바로 그리기보다 요구사항에서 확인하고 싶은 점과 예상 규모부터 말씀해 주세요.`
+        : caseProblem
+          ? `안녕하세요 ${userName}님, 오늘은 케이스 면접입니다. ${caseProblem.scenario} ${caseProblem.question} 화면의 자료를 참고하시고, 답을 바로 내기보다 문제를 어떻게 나눠서 보실지 구조부터 말씀해 주세요. 추가로 보고 싶은 데이터가 있으면 요청하셔도 됩니다.`
+          : presentationConfig
+            ? `안녕하세요 ${userName}님, 오늘은 PT 면접입니다. 준비되시면 녹음을 시작하고 "${presentationConfig.deck.filename}" 자료로 ${presentationConfig.minutes}분간 발표해 주세요. 발표가 끝나면 면접관 세 명이 자료 내용에 대해 질문드리겠습니다.`
+            : mode === 'pressure'
+              ? `${userName}님, 시간이 많지 않습니다. ${PRESSURE_TIMER_CONFIG.default_time_limit}초 안에 자기소개 하시고, 왜 저희가 다른 지원자가 아닌 ${userName}님을 뽑아야 하는지까지 말씀해 주세요.`
+              : discussionTopic && discussionConfig
+                ? `안녕하세요, 오늘 토론 면접의 사회를 맡은 ${interviewerNames[DISCUSSION_MODERATOR]}입니다. 논제는 "${discussionTopic.motion}"입니다. 함께 토론할 분은 ${discussionSeats}이고, ${userName}님은 ${discussionConfig.candidate_stance} 입장입니다. 다른 분의 이름을 부르며 반론하셔도 됩니다. ${userName}님부터 입장과 핵심 근거를 말씀해 주세요.`
+                : resumePlan && firstClaim
+                  ? `안녕하세요 ${userName}님, 오늘은 이력서에 적어주신 내용을 ${resumePlan.claims.length}개 항목으로 나눠 하나씩 구체적으로 여쭤보겠습니다. 먼저 "${firstClaim.source}" 부분입니다. 여기서 ${userName}님이 직접 맡으신 역할과 실제로 하신 일을 말씀해 주세요.`
+                  : `안녕하세요 ${userName}님, 2분 내로 자기소개 부탁드립니다.`;
+
+    const englishName = userName === '지원자' ? '' : ` ${userName}`;
+    const englishOpening = codingProblem
+      ? `Hi${englishName}, today we'll work through a coding problem together. Please read "${codingProblem.title}" on the screen and walk me through your approach before you start writing code.`
+      : designProblem
+        ? `Hi${englishName}, today we'll design "${designProblem.title}" together. Before drawing anything, tell me which requirements you'd like to clarify and what scale you expect.`
+        : caseProblem
+          ? `Hi${englishName}, this is a case interview. ${caseProblem.scenario} ${caseProblem.question} Take a look at the data on the screen and, rather than jumping to an answer, start by telling me how you would structure the problem. Feel free to ask for any additional data.`
+          : presentationConfig
+            ? `Hi${englishName}, this is a presentation interview. When you're ready, start recording and present "${presentationConfig.deck.filename}" in ${presentationConfig.minutes} minutes. After the presentation, our three interviewers will ask questions about it.`
+            : mode === 'pressure'
+              ? `We don't have much time. Introduce yourself in ${PRESSURE_TIMER_CONFIG.default_time_limit} seconds, and tell us why we should hire you rather than the other candidates.`
+              : discussionTopic && discussionConfig
+                ? `Hello, I'm ${interviewerNames[DISCUSSION_MODERATOR]} and I'll be moderating today's group discussion. The motion is: "${discussionTopic.motion}" You'll be debating with ${discussionSeats}, and you${englishName} will argue the ${discussionConfig.candidate_stance === '찬성' ? 'for' : 'against'} side. Feel free to address the others by name. Please open with your position and your main argument.`
+                : resumePlan && firstClaim
+                  ? `Hi${englishName}, today we'll go through your resume item by item, ${resumePlan.claims.length} items in total. Let's start with "${firstClaim.source}". What exactly was your role here, and what did you do yourself?`
+                  : `Hi${englishName}, please introduce yourself in about two minutes.`;
+
+    const firstMessageContent = language === 'en'
+      ? englishOpening
+      : language === 'mixed'
+        ? `${koreanOpening} 오늘 면접은 한국어와 영어 질문이 섞여 나오니, 질문받은 언어로 답변해 주세요.`
+        : koreanOpening;
+
+    console.log('Using hardcoded first message for:', userName, `(mode: ${mode}, language: ${language})`);
 
     // Response object for compatibility
     const response = {
-      content: selfIntroductionMessage,
+      content: firstMessageContent,
       latencyMs: 0, // No LLM call
     };
 
@@ -416,6 +631,7 @@ export async function POST(req: NextRequest) {
         interviewer_id: firstInterviewer,
         content: response.content,
         latency_ms: response.latencyMs,
+        ...(firstClaim ? { resume_claim_id: firstClaim.id } : {}),
       })
       .select()
       .single();
@@ -435,6 +651,7 @@ export async function POST(req: NextRequest) {
         job_type: session.job_type,
         industry: session.industry,
         difficulty: session.difficulty,
+        interview_mode: session.interview_mode ?? mode,
         status: session.status,
         turn_count: session.turn_count,
         max_turns: session.max_turns,
@@ -461,6 +678,18 @@ export async function POST(req: NextRequest) {
       },
       // All interviewer names for client display
       interviewer_names: interviewerNames,
+      // Coding problem without hidden tests (coding mode only)
+      coding_problem: codingProblem ? toPublicProblem(codingProblem) : undefined,
+      // System design problem (design mode only)
+      design_problem: designProblem ?? undefined,
+      // Case scenario with the initial exhibits only (case mode only)
+      case_problem: caseProblem ? toPublicCase(caseProblem) : undefined,
+      // Parsed deck and duration (presentation mode only)
+      presentation: presentationConfig ?? undefined,
+      // Claims to verify, in interview order (resume deep-dive mode only)
+      resume_plan: resumePlan ?? undefined,
+      // Motion, stances and co-candidates (group discussion mode only)
+      discussion: discussionTopic && discussionConfig ? toPublicDiscussion(discussionTopic, discussionConfig) : undefined,
       // Daily usage info for client
       dailyUsage: {
         limit: dailyLimitResult.limit,
@@ -3,14 +3,14 @@
 // ============================================
 // POST /api/interview/stream
 // - Receives audio from user
-// - Streams back: STT result → LLM response → TTS audio
+// - Streams back: STT result → LLM response → TTS audio (one clip per sentence)
 // - Target: E2E latency < 2s
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { createSSEStream } from '@/lib/streaming/pipeline';
-import { INTERVIEWER_BASE, type InterviewerType } from '@/types/interview';
+import { INTERVIEWER_BASE, DISCUSSION_MODERATOR, isCoCandidateId, type InterviewerType, type InterviewLanguage } from '@/types/interview';
 import type { ChatMessage } from '@/lib/llm/router';
 
 export async function POST(req: NextRequest) {
@@ -84,8 +84,12 @@ export async function POST(req: NextRequest) {
     })) as ChatMessage[];
 
     // Get interviewer info
-    const currentInterviewerId = (session.current_interviewer_id as InterviewerType) || 'hiring_manager';
+    // A co-candidate may hold the floor in a group discussion; the moderator answers here
+    const currentInterviewerId = isCoCandidateId(session.current_interviewer_id)
+      ? DISCUSSION_MODERATOR
+      : (session.current_interviewer_id as InterviewerType) || 'hiring_manager';
     const interviewerBase = INTERVIEWER_BASE[currentInterviewerId];
+    const language = (session.timer_config as { language?: InterviewLanguage } | null)?.language;
 
     // Convert audio file to buffer
     const arrayBuffer = await audioFile.arrayBuffer();
@@ -98,15 +102,18 @@ export async function POST(req: NextRequest) {
         interviewerId: currentInterviewerId,
         position: session.job_type,
         conversationHistory,
-        // voice defaults to 'alloy' in pipeline
+        language,
+        // voice defaults to the interviewer's voice in pipeline
         llmConfig: {
           context: undefined, // TODO: Add RAG context if needed
           industry: session.industry || undefined,
           difficulty: session.difficulty as 'easy' | 'medium' | 'hard',
           turnCount: session.turn_count + 1,
+          language,
         },
       },
-      true // Use parallel processing
+      true, // Use parallel processing
+      req.signal
     );
 
     // Return SSE response
@@ -15,13 +15,15 @@ import { NextRequest } from 'next/server';
 import OpenAI from 'openai';
 import { createLatencyTimer } from '@/lib/monitoring/latency';
 import { errorTracker } from '@/lib/monitoring/error-tracker';
+import { isFakeAIMode, getFakeInterviewerTurn } from '@/lib/testing/fixtures';
+import { createSSEStream, SSE_HEADERS, type SSEServerEvent } from '@/lib/stream/sse-server';
 import { sentryClient } from '@/lib/monitoring/sentry';
 
 // ============================================
 // Configuration
 // ============================================
 
-const TEST_MODE = process.env.TEST_MODE === 'true';
+const TEST_MODE = isFakeAIMode();
 
 const openai = TEST_MODE
   ? null
@@ -55,71 +57,13 @@ interface StreamRequest {
   temperature?: number;
 }
 
-interface SSEEvent {
-  event: string;
-  data: unknown;
-  id?: string;
-}
-
-// ============================================
-// SSE Helper Functions
-// ============================================
-
-function formatSSEMessage(event: SSEEvent): string {
-  let message = '';
-
-  if (event.id) {
-    message += `id: ${event.id}\n`;
-  }
-
-  message += `event: ${event.event}\n`;
-  message += `data: ${JSON.stringify(event.data)}\n\n`;
-
-  return message;
-}
-
-function createSSEStream(
-  generator: () => AsyncGenerator<SSEEvent, void, unknown>
-): ReadableStream<Uint8Array> {
-  const encoder = new TextEncoder();
-
-  return new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const event of generator()) {
-          const message = formatSSEMessage(event);
-          controller.enqueue(encoder.encode(message));
-        }
-      } catch (error) {
-        // Send error event
-        const errorEvent = formatSSEMessage({
-          event: 'error',
-          data: {
-            message: error instanceof Error ? error.message : 'Unknown error',
-            timestamp: Date.now(),
-          },
-        });
-        controller.enqueue(encoder.encode(errorEvent));
-      } finally {
-        // Send done event
-        const doneEvent = formatSSEMessage({
-          event: 'done',
-          data: { timestamp: Date.now() },
-        });
-        controller.enqueue(encoder.encode(doneEvent));
-        controller.close();
-      }
-    },
-  });
-}
-
 // ============================================
 // Interview Streaming Generator
 // ============================================
 
 async function* streamInterviewResponse(
   request: StreamRequest
-): AsyncGenerator<SSEEvent, void, unknown> {
+): AsyncGenerator<SSEServerEvent, void, unknown> {
   const timer = createLatencyTimer('chat_stream', 'openai', request.model || 'gpt-4o');
   const startTime = Date.now();
   let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
@@ -137,7 +81,8 @@ async function* streamInterviewResponse(
 
   // Test mode - simulate streaming
   if (TEST_MODE || !openai) {
-    const mockResponse = '좋은 답변이네요. 그 경험에서 가장 어려웠던 기술적 도전은 무엇이었나요?';
+    const userTurns = (request.conversationHistory || []).filter((m) => m.role === 'user').length + 1;
+    const mockResponse = getFakeInterviewerTurn(userTurns);
 
     // Simulate token-by-token streaming
     for (let i = 0; i < mockResponse.length; i++) {
@@ -325,12 +270,7 @@ export async function POST(req: NextRequest) {
 
     // Return SSE response
     return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-transform',
-        Connection: 'keep-alive',
-        'X-Accel-Buffering': 'no', // Disable nginx buffering
-      },
+      headers: SSE_HEADERS,
     });
   } catch (error) {
     console.error('SSE endpoint error:', error);
@@ -3,9 +3,16 @@
 // ============================================
 // POST /api/stt
 // - OpenAI Whisper API for speech-to-text
+// - 16-bit PCM WAV uploads are silence-trimmed first (leading/trailing silence reported)
+//   (the browser sends WAV up to MAX_WAV_UPLOAD_BYTES; longer answers arrive compressed)
+//   and get voice_features (pace, fillers, prosody) to send along with the answer
+// - language: 'ko' (default), 'en', or 'mixed' (Whisper detects Korean/English)
 
 import { NextRequest, NextResponse } from 'next/server';
 import { transcribeAudio } from '@/lib/stt/service';
+import { extractAnswerVoiceFeatures } from '@/lib/analysis/voice';
+import { decodeWav } from '@/lib/realtime/pcm';
+import { isInterviewLanguage } from '@/types/interview';
 
 export async function POST(req: NextRequest) {
   const startTime = Date.now();
@@ -29,12 +36,21 @@ export async function POST(req: NextRequest) {
     // Transcribe with Whisper
     const result = await transcribeAudio(buffer, language);
 
+    const pcm = decodeWav(buffer);
+    const voiceFeatures = pcm && result.text
+      ? extractAnswerVoiceFeatures(result, pcm.samples, pcm.sampleRate, isInterviewLanguage(language) ? language : 'ko')
+      : null;
+
     return NextResponse.json({
       success: true,
       text: result.text,
       confidence: result.confidence,
       provider: result.provider,
       words: result.words,
+      audioDurationSeconds: result.audioDurationSeconds,
+      leadingSilenceSeconds: result.leadingSilenceSeconds,
+      trailingSilenceSeconds: result.trailingSilenceSeconds,
+      voice_features: voiceFeatures,
       latencyMs: Date.now() - startTime,
       timestamp: new Date().toISOString(),
     });
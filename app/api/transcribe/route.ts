@@ -27,6 +27,7 @@ export async function POST(req: NextRequest) {
         // 1. FormData에서 오디오 파일 가져오기
     const formData = await req.formData();
     const audioFile = formData.get("audio") as File;
+    const language = (formData.get("language") as string) || "ko";
 
     if (!audioFile) {
       return NextResponse.json({ error: "오디오 파일이 없습니다." }, { status: 400 });
@@ -53,7 +54,8 @@ export async function POST(req: NextRequest) {
       const transcription = await openai!.audio.transcriptions.create({
         model: "whisper-1",
         file: new File([buffer], "audio.wav", { type: "audio/wav" }),
-        language: "ko",
+        // 'mixed' (Korean-English) answers: let Whisper detect the language
+        ...(language === "mixed" ? {} : { language }),
       });
 
       transcriptionText = transcription.text;
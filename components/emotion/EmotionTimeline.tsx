@@ -0,0 +1,84 @@
+"use client";
+
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+} from "recharts";
+import type { EmotionTimelineEntry } from "@/types/interview";
+
+interface EmotionTimelineProps {
+  timeline: EmotionTimelineEntry[];
+}
+
+// Answers at or above this nervousness are called out
+const NERVOUS_THRESHOLD = 65;
+
+const SERIES = [
+  { key: "nervousness", label: "긴장도", color: "hsl(var(--emotion-warn))" },
+  { key: "confidence", label: "자신감", color: "hsl(var(--emotion-success))" },
+  { key: "enthusiasm", label: "열정", color: "hsl(var(--emotion-focus))" },
+] as const;
+
+function formatElapsed(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function EmotionTimeline({ timeline }: EmotionTimelineProps) {
+  const data = timeline.map((entry, index) => ({ ...entry, answer: index + 1 }));
+  const nervousAnswers = data.filter((entry) => entry.nervousness >= NERVOUS_THRESHOLD);
+
+  return (
+    <div>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: -20 }}>
+            <XAxis
+              dataKey="timestamp"
+              tickFormatter={formatElapsed}
+              tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+            />
+            <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+            <Tooltip
+              labelFormatter={(value) => `${formatElapsed(Number(value))} 경과`}
+              contentStyle={{ fontSize: 12, borderRadius: 8 }}
+            />
+            <ReferenceLine y={NERVOUS_THRESHOLD} stroke="hsl(var(--emotion-warn) / 0.4)" strokeDasharray="4 4" />
+            {SERIES.map((series) => (
+              <Line
+                key={series.key}
+                type="monotone"
+                dataKey={series.key}
+                name={series.label}
+                stroke={series.color}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-3 text-xs">
+        {SERIES.map((series) => (
+          <span key={series.key} className="flex items-center gap-1.5 text-muted-foreground">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: series.color }} />
+            {series.label}
+          </span>
+        ))}
+      </div>
+
+      {nervousAnswers.length > 0 && (
+        <p className="mt-4 text-sm text-foreground">
+          {nervousAnswers.map((entry) => `${entry.answer}번째 답변(${formatElapsed(entry.timestamp)})`).join(", ")}
+          에서 긴장도가 높았습니다.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Briefcase, BarChart3, Table2, GitBranch } from 'lucide-react';
+import type { PublicCaseProblem } from '@/lib/case/cases';
+import type { CaseExhibit, CaseFrameworkBranch } from '@/types/interview';
+
+interface CaseExhibitPanelProps {
+  problem: PublicCaseProblem;
+  framework: CaseFrameworkBranch[];
+  newExhibitIds?: string[];   // Highlighted until the next answer
+}
+
+const BRANCH_STATUS: Record<CaseFrameworkBranch['status'], { label: string; className: string }> = {
+  proposed: { label: '제시', className: 'bg-slate-500/20 text-slate-300' },
+  explored: { label: '분석 중', className: 'bg-amber-500/20 text-amber-300' },
+  concluded: { label: '결론', className: 'bg-green-500/20 text-green-300' },
+};
+
+function ExhibitTable({ exhibit }: { exhibit: CaseExhibit }) {
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="border-b border-border">
+          {exhibit.columns.map((column) => (
+            <th key={column} className="py-1 pr-2 text-left font-medium text-muted-foreground">{column}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {exhibit.rows.map((row, rowIndex) => (
+          <tr key={rowIndex} className="border-b border-border/50 last:border-0">
+            {row.map((cell, cellIndex) => (
+              <td key={cellIndex} className={`py-1 pr-2 ${cellIndex > 0 ? 'tabular-nums' : ''}`}>{cell}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Bar rows are [label, value]; bars are scaled to the largest value
+function ExhibitBars({ exhibit }: { exhibit: CaseExhibit }) {
+  const values = exhibit.rows.map((row) => Number(row[1]) || 0);
+  const max = Math.max(...values, 1);
+
+  return (
+    <div className="space-y-1.5">
+      {exhibit.rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2 text-xs">
+          <span className="w-28 truncate text-muted-foreground">{row[0]}</span>
+          <div className="flex-1 h-4 rounded bg-background">
+            <div className="h-4 rounded bg-primary/70" style={{ width: `${(values[index] / max) * 100}%` }} />
+          </div>
+          <span className="w-16 text-right tabular-nums">{row[1]}{exhibit.unit}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function CaseExhibitPanel({
+  problem,
+  framework,
+  newExhibitIds = [],
+}: CaseExhibitPanelProps) {
+  return (
+    <div className="flex flex-col h-full rounded-xl border border-border bg-card overflow-hidden">
+      {/* Scenario */}
+      <div className="px-4 py-3 border-b border-border space-y-2">
+        <div className="flex items-center gap-2">
+          <Briefcase className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold">{problem.title}</h3>
+        </div>
+        <p className="text-sm text-foreground/80 leading-relaxed">{problem.scenario}</p>
+        <p className="text-sm font-medium">{problem.question}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4">
+        {/* Exhibits */}
+        {problem.exhibits.map((exhibit, index) => (
+          <div
+            key={exhibit.id}
+            className={`rounded-lg border p-3 space-y-2 ${
+              newExhibitIds.includes(exhibit.id) ? 'border-primary bg-primary/5' : 'border-border'
+            }`}
+          >
+            <div className="flex items-center gap-2 text-xs font-medium">
+              {exhibit.kind === 'bar'
+                ? <BarChart3 className="w-3.5 h-3.5 text-muted-foreground" />
+                : <Table2 className="w-3.5 h-3.5 text-muted-foreground" />}
+              <span>자료 {index + 1}. {exhibit.title}</span>
+              {exhibit.unit && exhibit.kind === 'table' && <span className="text-muted-foreground">({exhibit.unit})</span>}
+              {newExhibitIds.includes(exhibit.id) && <span className="ml-auto text-primary">새 자료</span>}
+            </div>
+            {exhibit.kind === 'bar' ? <ExhibitBars exhibit={exhibit} /> : <ExhibitTable exhibit={exhibit} />}
+            {exhibit.note && <p className="text-xs text-muted-foreground">※ {exhibit.note}</p>}
+          </div>
+        ))}
+
+        {/* Framework */}
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <GitBranch className="w-3.5 h-3.5" />
+            <span>내 프레임워크</span>
+          </div>
+          {framework.length === 0 ? (
+            <p className="text-xs text-muted-foreground">답변에서 분석 축을 제시하면 여기에 정리됩니다.</p>
+          ) : (
+            framework.map((branch) => (
+              <div key={branch.name} className="text-xs">
+                <div className="flex items-center gap-2">
+                  <span className={`px-1.5 py-0.5 rounded ${BRANCH_STATUS[branch.status].className}`}>
+                    {BRANCH_STATUS[branch.status].label}
+                  </span>
+                  <span className="font-medium">{branch.name}</span>
+                </div>
+                {branch.findings && <p className="mt-0.5 ml-1 text-muted-foreground">{branch.findings}</p>}
+              </div>
+            ))
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          필요한 데이터가 있으면 답변에서 요청하세요. 요청한 자료는 이 패널에 추가됩니다.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Play, Loader2, CheckCircle2, XCircle, Code2 } from 'lucide-react';
+import { diffEdit } from '@/lib/coding/history';
+import type { PublicCodingProblem } from '@/lib/coding/problems';
+import type { CodeEditEvent, CodeRunResult } from '@/types/interview';
+
+interface CodeEditorPanelProps {
+  sessionId: string;
+  problem: PublicCodingProblem;
+  source: string;
+  onChange: (source: string, edit: CodeEditEvent) => void;
+  disabled?: boolean;
+}
+
+const DIFFICULTY_LABELS: Record<PublicCodingProblem['difficulty'], string> = {
+  easy: '쉬움',
+  medium: '보통',
+  hard: '어려움',
+};
+
+export function CodeEditorPanel({
+  sessionId,
+  problem,
+  source,
+  onChange,
+  disabled = false,
+}: CodeEditorPanelProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [runResult, setRunResult] = useState<CodeRunResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const update = (next: string) => {
+    const edit = diffEdit(source, next, Date.now());
+    if (edit) onChange(next, edit);
+  };
+
+  // Tab inserts two spaces instead of moving focus
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    update(source.slice(0, selectionStart) + '  ' + source.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setRunError(null);
+
+    try {
+      const response = await fetch('/api/interview/coding/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ session_id: sessionId, source }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || '코드 실행에 실패했습니다.');
+      }
+      setRunResult(data.result);
+    } catch (err) {
+      setRunResult(null);
+      setRunError(err instanceof Error ? err.message : '코드 실행에 실패했습니다.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full rounded-xl border border-border bg-card overflow-hidden">
+      {/* Problem */}
+      <div className="px-4 py-3 border-b border-border space-y-2">
+        <div className="flex items-center gap-2">
+          <Code2 className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold">{problem.title}</h3>
+          <span className="px-2 py-0.5 text-xs rounded-md bg-secondary text-muted-foreground">
+            {DIFFICULTY_LABELS[problem.difficulty]}
+          </span>
+        </div>
+        <p className="text-sm text-foreground/80 leading-relaxed">{problem.description}</p>
+        <ul className="space-y-1">
+          {problem.examples.map((example) => (
+            <li key={example.name} className="text-xs font-mono text-muted-foreground">
+              {problem.function_name}({example.input.map((arg) => JSON.stringify(arg)).join(', ')}) → {JSON.stringify(example.expected)}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Editor */}
+      <textarea
+        value={source}
+        onChange={(e) => update(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        spellCheck={false}
+        className="flex-1 min-h-[240px] w-full resize-none p-4 font-mono text-sm bg-background focus:outline-none disabled:opacity-60"
+      />
+
+      {/* Run examples */}
+      <div className="border-t border-border px-4 py-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            답변을 제출하면 작성한 코드도 함께 채점됩니다.
+          </span>
+          <button
+            onClick={handleRun}
+            disabled={disabled || isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+          >
+            {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+            예제 실행
+          </button>
+        </div>
+
+        {runError && <p className="text-xs text-red-500">{runError}</p>}
+
+        {runResult && (
+          <div className="space-y-1.5 max-h-40 overflow-y-auto">
+            {runResult.error && (
+              <p className="text-xs font-mono text-red-500">{runResult.error}</p>
+            )}
+            {runResult.cases.map((testCase) => (
+              <div key={testCase.name} className="flex items-start gap-2 text-xs">
+                {testCase.passed ? (
+                  <CheckCircle2 className="w-3.5 h-3.5 text-green-500 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="w-3.5 h-3.5 text-red-500 flex-shrink-0 mt-0.5" />
+                )}
+                <span className="font-medium">{testCase.name}</span>
+                {!testCase.passed && (
+                  <span className="font-mono text-muted-foreground truncate">
+                    {testCase.error || `기대값 ${JSON.stringify(testCase.expected)}, 실제값 ${JSON.stringify(testCase.actual)}`}
+                  </span>
+                )}
+              </div>
+            ))}
+            {runResult.logs.length > 0 && (
+              <pre className="p-2 text-xs font-mono rounded-md bg-secondary/50 whitespace-pre-wrap">
+                {runResult.logs.join('\n')}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
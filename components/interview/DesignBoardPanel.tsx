@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { Network, Plus, Trash2, ArrowRight } from 'lucide-react';
+import { DESIGN_NODE_KINDS, MAX_DIAGRAM_EDGES, MAX_DIAGRAM_NODES } from '@/lib/design/diagram';
+import type { DesignProblem } from '@/lib/design/problems';
+import type { DesignDiagram, DesignNodeKind } from '@/types/interview';
+
+interface DesignBoardPanelProps {
+  problem: DesignProblem;
+  diagram: DesignDiagram;
+  onChange: (diagram: DesignDiagram) => void;
+  disabled?: boolean;
+}
+
+// Left-to-right columns for the preview: request path first, data stores last
+const KIND_COLUMNS: DesignNodeKind[][] = [
+  ['client', 'external'],
+  ['cdn', 'load_balancer'],
+  ['service'],
+  ['cache', 'queue'],
+  ['database', 'storage'],
+];
+
+const NODE_WIDTH = 120;
+const NODE_HEIGHT = 36;
+const COLUMN_GAP = 150;
+const ROW_GAP = 56;
+
+const KIND_COLORS: Record<DesignNodeKind, string> = {
+  client: '#64748b',
+  external: '#64748b',
+  cdn: '#0ea5e9',
+  load_balancer: '#0ea5e9',
+  service: '#22c55e',
+  cache: '#f59e0b',
+  queue: '#a855f7',
+  database: '#ef4444',
+  storage: '#ef4444',
+};
+
+let idCounter = 0;
+const nextId = (prefix: string) => `${prefix}_${Date.now().toString(36)}_${(idCounter++).toString(36)}`;
+
+export function DesignBoardPanel({
+  problem,
+  diagram,
+  onChange,
+  disabled = false,
+}: DesignBoardPanelProps) {
+  const [nodeKind, setNodeKind] = useState<DesignNodeKind>('service');
+  const [nodeLabel, setNodeLabel] = useState('');
+  const [edgeFrom, setEdgeFrom] = useState('');
+  const [edgeTo, setEdgeTo] = useState('');
+  const [edgeLabel, setEdgeLabel] = useState('');
+
+  const labels = useMemo(() => new Map(diagram.nodes.map((node) => [node.id, node.label])), [diagram.nodes]);
+
+  // Auto layout: column by kind, rows in insertion order
+  const layout = useMemo(() => {
+    const positions = new Map<string, { x: number; y: number }>();
+    KIND_COLUMNS.forEach((kinds, column) => {
+      diagram.nodes
+        .filter((node) => kinds.includes(node.kind))
+        .forEach((node, row) => {
+          positions.set(node.id, { x: 10 + column * COLUMN_GAP, y: 10 + row * ROW_GAP });
+        });
+    });
+    const height = Math.max(...Array.from(positions.values()).map((p) => p.y + NODE_HEIGHT + 10), 80);
+    return { positions, height };
+  }, [diagram.nodes]);
+
+  const addNode = () => {
+    if (!nodeLabel.trim() || diagram.nodes.length >= MAX_DIAGRAM_NODES) return;
+    onChange({
+      ...diagram,
+      nodes: [...diagram.nodes, { id: nextId('n'), kind: nodeKind, label: nodeLabel.trim() }],
+    });
+    setNodeLabel('');
+  };
+
+  const removeNode = (id: string) => {
+    onChange({
+      ...diagram,
+      nodes: diagram.nodes.filter((node) => node.id !== id),
+      edges: diagram.edges.filter((edge) => edge.from !== id && edge.to !== id),
+    });
+  };
+
+  const updateNotes = (id: string, notes: string) => {
+    onChange({
+      ...diagram,
+      nodes: diagram.nodes.map((node) => (node.id === id ? { ...node, notes } : node)),
+    });
+  };
+
+  const addEdge = () => {
+    if (!edgeFrom || !edgeTo || edgeFrom === edgeTo || diagram.edges.length >= MAX_DIAGRAM_EDGES) return;
+    onChange({
+      ...diagram,
+      edges: [
+        ...diagram.edges,
+        { id: nextId('e'), from: edgeFrom, to: edgeTo, ...(edgeLabel.trim() ? { label: edgeLabel.trim() } : {}) },
+      ],
+    });
+    setEdgeLabel('');
+  };
+
+  const removeEdge = (id: string) => {
+    onChange({ ...diagram, edges: diagram.edges.filter((edge) => edge.id !== id) });
+  };
+
+  const inputClass = 'h-8 px-2 text-xs rounded-md bg-background border border-border focus:outline-none disabled:opacity-60';
+
+  return (
+    <div className="flex flex-col h-full rounded-xl border border-border bg-card overflow-hidden">
+      {/* Problem */}
+      <div className="px-4 py-3 border-b border-border space-y-2">
+        <div className="flex items-center gap-2">
+          <Network className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold">{problem.title}</h3>
+        </div>
+        <p className="text-sm text-foreground/80 leading-relaxed">{problem.description}</p>
+        <ul className="space-y-0.5">
+          {problem.requirements.map((requirement) => (
+            <li key={requirement} className="text-xs text-muted-foreground">• {requirement}</li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Preview */}
+      <div className="border-b border-border overflow-auto bg-background/50">
+        <svg width={10 + KIND_COLUMNS.length * COLUMN_GAP} height={layout.height}>
+          <defs>
+            <marker id="design-arrow" markerWidth="8" markerHeight="8" refX="8" refY="4" orient="auto">
+              <path d="M0,0 L8,4 L0,8 z" fill="#94a3b8" />
+            </marker>
+          </defs>
+          {diagram.edges.map((edge) => {
+            const from = layout.positions.get(edge.from);
+            const to = layout.positions.get(edge.to);
+            if (!from || !to) return null;
+            const x1 = from.x + NODE_WIDTH / 2;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x + NODE_WIDTH / 2;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            return (
+              <g key={edge.id}>
+                <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#94a3b8" strokeWidth={1.5} markerEnd="url(#design-arrow)" />
+                {edge.label && (
+                  <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 4} fontSize={10} fill="#94a3b8" textAnchor="middle">
+                    {edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {diagram.nodes.map((node) => {
+            const position = layout.positions.get(node.id);
+            if (!position) return null;
+            return (
+              <g key={node.id}>
+                <rect
+                  x={position.x}
+                  y={position.y}
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={6}
+                  fill="hsl(220,50%,10%)"
+                  stroke={KIND_COLORS[node.kind]}
+                  strokeWidth={1.5}
+                />
+                <text x={position.x + NODE_WIDTH / 2} y={position.y + 22} fontSize={11} fill="#e2e8f0" textAnchor="middle">
+                  {node.label.length > 16 ? `${node.label.slice(0, 15)}…` : node.label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {/* Editing */}
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4">
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">컴포넌트 추가</p>
+          <div className="flex gap-2">
+            <select
+              value={nodeKind}
+              onChange={(e) => setNodeKind(e.target.value as DesignNodeKind)}
+              disabled={disabled}
+              className={inputClass}
+            >
+              {(Object.keys(DESIGN_NODE_KINDS) as DesignNodeKind[]).map((kind) => (
+                <option key={kind} value={kind}>{DESIGN_NODE_KINDS[kind]}</option>
+              ))}
+            </select>
+            <input
+              value={nodeLabel}
+              onChange={(e) => setNodeLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addNode()}
+              placeholder="이름 (예: API 서버)"
+              maxLength={60}
+              disabled={disabled}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button
+              onClick={addNode}
+              disabled={disabled || !nodeLabel.trim()}
+              className="h-8 px-2 rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">연결 추가</p>
+          <div className="flex gap-2">
+            <select value={edgeFrom} onChange={(e) => setEdgeFrom(e.target.value)} disabled={disabled} className={`${inputClass} flex-1 min-w-0`}>
+              <option value="">출발</option>
+              {diagram.nodes.map((node) => <option key={node.id} value={node.id}>{node.label}</option>)}
+            </select>
+            <select value={edgeTo} onChange={(e) => setEdgeTo(e.target.value)} disabled={disabled} className={`${inputClass} flex-1 min-w-0`}>
+              <option value="">도착</option>
+              {diagram.nodes.map((node) => <option key={node.id} value={node.id}>{node.label}</option>)}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={edgeLabel}
+              onChange={(e) => setEdgeLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addEdge()}
+              placeholder="설명 (예: REST, 비동기 이벤트)"
+              maxLength={60}
+              disabled={disabled}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button
+              onClick={addEdge}
+              disabled={disabled || !edgeFrom || !edgeTo || edgeFrom === edgeTo}
+              className="h-8 px-2 rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {diagram.nodes.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">컴포넌트 ({diagram.nodes.length})</p>
+            {diagram.nodes.map((node) => (
+              <div key={node.id} className="flex items-center gap-2 text-xs">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: KIND_COLORS[node.kind] }} />
+                <span className="font-medium w-24 truncate">{node.label}</span>
+                <input
+                  value={node.notes || ''}
+                  onChange={(e) => updateNotes(node.id, e.target.value)}
+                  placeholder="메모 (예: user_id 샤딩)"
+                  maxLength={200}
+                  disabled={disabled}
+                  className={`${inputClass} flex-1 min-w-0 h-7`}
+                />
+                <button onClick={() => removeNode(node.id)} disabled={disabled} className="text-muted-foreground hover:text-destructive">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {diagram.edges.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">연결 ({diagram.edges.length})</p>
+            {diagram.edges.map((edge) => (
+              <div key={edge.id} className="flex items-center gap-1.5 text-xs">
+                <span className="truncate">{labels.get(edge.from)}</span>
+                <ArrowRight className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                <span className="truncate">{labels.get(edge.to)}</span>
+                {edge.label && <span className="text-muted-foreground truncate">({edge.label})</span>}
+                <button onClick={() => removeEdge(edge.id)} disabled={disabled} className="ml-auto text-muted-foreground hover:text-destructive">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          답변을 제출하면 현재 다이어그램이 면접관에게 함께 전달됩니다.
+        </p>
+      </div>
+    </div>
+  );
+}
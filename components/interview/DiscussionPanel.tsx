@@ -0,0 +1,89 @@
+import React from 'react';
+import { Users, Gavel, PieChart } from 'lucide-react';
+import type { PublicDiscussion } from '@/lib/discussion/topics';
+import type { ContributionShare } from '@/lib/discussion/floor';
+
+interface DiscussionPanelProps {
+  discussion: PublicDiscussion;
+  moderatorName: string;
+  contribution: ContributionShare;
+  activeSpeakerId?: string;   // Whoever spoke last (co-candidate id or the moderator)
+}
+
+export function DiscussionPanel({
+  discussion,
+  moderatorName,
+  contribution,
+  activeSpeakerId,
+}: DiscussionPanelProps) {
+  const sharePercent = Math.round(contribution.share * 100);
+  const evenPercent = Math.round(contribution.even_share * 100);
+  const dominating = contribution.user_turns >= 2 && contribution.share > contribution.even_share * 1.8;
+
+  return (
+    <div className="flex flex-col h-full rounded-xl border border-border bg-card overflow-hidden">
+      {/* Motion */}
+      <div className="px-4 py-3 border-b border-border space-y-2">
+        <div className="flex items-center gap-2">
+          <Gavel className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold truncate">{discussion.topic.title}</h3>
+        </div>
+        <p className="text-sm">{discussion.topic.motion}</p>
+        <p className="text-xs text-muted-foreground">{discussion.topic.background}</p>
+        <p className="text-xs">
+          내 입장: <span className="font-semibold text-primary">{discussion.candidate_stance}</span>
+        </p>
+      </div>
+
+      {/* Participants */}
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Users className="w-3.5 h-3.5" />
+          <span>참가자 (사회: {moderatorName})</span>
+        </div>
+        {discussion.participants.map((participant) => (
+          <div
+            key={participant.id}
+            className={`flex items-center gap-3 rounded-lg border p-3 ${
+              activeSpeakerId === participant.id ? 'border-primary bg-primary/10' : 'border-border'
+            }`}
+          >
+            <span className="text-lg">{participant.emoji}</span>
+            <div className="flex flex-col">
+              <span className="text-xs font-medium">{participant.name}</span>
+              <span className="text-[10px] text-muted-foreground">{participant.mbti}</span>
+            </div>
+            <span
+              className={`ml-auto text-xs px-2 py-0.5 rounded ${
+                participant.stance === discussion.candidate_stance
+                  ? 'bg-emerald-500/10 text-emerald-400'
+                  : 'bg-rose-500/10 text-rose-400'
+              }`}
+            >
+              {participant.stance}
+            </span>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">다른 참가자의 이름을 부르면 그 참가자가 바로 답합니다.</p>
+      </div>
+
+      {/* Live share of the debate */}
+      <div className="px-4 py-3 border-t border-border space-y-1.5">
+        <div className="flex items-center gap-2 text-xs">
+          <PieChart className="w-3.5 h-3.5 text-muted-foreground" />
+          <span>내 발언 비중</span>
+          <span className={`ml-auto tabular-nums ${dominating ? 'text-amber-400' : ''}`}>
+            {sharePercent}% / 균등 {evenPercent}%
+          </span>
+        </div>
+        <div className="relative h-1.5 rounded bg-background">
+          <div className="h-1.5 rounded bg-primary" style={{ width: `${sharePercent}%` }} />
+          <div className="absolute top-0 h-1.5 w-0.5 bg-muted-foreground" style={{ left: `${evenPercent}%` }} />
+        </div>
+        {dominating && (
+          <p className="text-xs text-amber-400">발언이 길어지고 있습니다. 다른 참가자의 주장에 답해 보세요.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Presentation, Timer, MessagesSquare } from 'lucide-react';
+import type { PresentationConfig } from '@/types/interview';
+
+interface PresentationPanelProps {
+  config: PresentationConfig;
+  phase: 'presenting' | 'qa';
+  secondsRemaining: number;   // Presentation time left (presenting phase)
+  isRecording: boolean;
+}
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(Math.max(0, seconds) / 60)}:${String(Math.max(0, seconds) % 60).padStart(2, '0')}`;
+
+export function PresentationPanel({
+  config,
+  phase,
+  secondsRemaining,
+  isRecording,
+}: PresentationPanelProps) {
+  const total = config.minutes * 60;
+  const progress = Math.min(100, ((total - secondsRemaining) / total) * 100);
+
+  return (
+    <div className="flex flex-col h-full rounded-xl border border-border bg-card overflow-hidden">
+      {/* Phase */}
+      <div className="px-4 py-3 border-b border-border space-y-2">
+        <div className="flex items-center gap-2">
+          <Presentation className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold truncate">{config.deck.filename}</h3>
+          <span className="ml-auto text-xs text-muted-foreground">{config.deck.slides.length}장</span>
+        </div>
+
+        {phase === 'presenting' ? (
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2 text-xs">
+              <Timer className="w-3.5 h-3.5 text-muted-foreground" />
+              <span>{isRecording ? '발표 중' : '녹음을 시작하면 발표 시간이 흐릅니다'}</span>
+              <span className={`ml-auto tabular-nums ${secondsRemaining <= 60 ? 'text-amber-400' : ''}`}>
+                {formatClock(secondsRemaining)} / {formatClock(total)}
+              </span>
+            </div>
+            <div className="h-1.5 rounded bg-background">
+              <div className="h-1.5 rounded bg-primary" style={{ width: `${progress}%` }} />
+            </div>
+            <p className="text-xs text-muted-foreground">시간이 끝나면 녹음이 자동으로 종료되고 발표가 제출됩니다.</p>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <MessagesSquare className="w-3.5 h-3.5" />
+            <span>질의응답 - 면접관들이 자료 내용에 대해 질문합니다</span>
+          </div>
+        )}
+      </div>
+
+      {/* Slides */}
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {config.deck.slides.map((slide) => (
+          <div key={slide.page} className="rounded-lg border border-border p-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">슬라이드 {slide.page}</p>
+            <p className="text-xs text-foreground/80 whitespace-pre-line line-clamp-6">{slide.text}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { FileSearch, CheckCircle2, AlertTriangle, CircleDashed, MessageCircleQuestion } from 'lucide-react';
+import type { ResumePlan, ResumeClaimCoverage, ResumeClaimStatus, ResumeClaimType } from '@/types/interview';
+
+interface ResumeClaimsPanelProps {
+  plan: ResumePlan;
+  coverage: ResumeClaimCoverage[];
+  currentClaimId?: string | null;   // Claim the latest question is about
+}
+
+const TYPE_LABELS: Record<ResumeClaimType, string> = {
+  achievement: '성과',
+  project: '프로젝트',
+  skill: '기술',
+};
+
+const STATUS_BADGES: Record<ResumeClaimStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  pending: { label: '대기', className: 'text-muted-foreground', icon: <CircleDashed className="w-3.5 h-3.5" /> },
+  probing: { label: '확인 중', className: 'text-amber-400', icon: <MessageCircleQuestion className="w-3.5 h-3.5" /> },
+  verified: { label: '검증됨', className: 'text-emerald-400', icon: <CheckCircle2 className="w-3.5 h-3.5" /> },
+  unsubstantiated: { label: '근거 부족', className: 'text-rose-400', icon: <AlertTriangle className="w-3.5 h-3.5" /> },
+};
+
+export function ResumeClaimsPanel({ plan, coverage, currentClaimId }: ResumeClaimsPanelProps) {
+  // Coverage is measured before the latest question, so the claim it moved to still reads pending
+  const statusOf = (claimId: string): ResumeClaimStatus => {
+    const status = coverage.find((c) => c.claim_id === claimId)?.status ?? 'pending';
+    return status === 'pending' && claimId === currentClaimId ? 'probing' : status;
+  };
+  const covered = plan.claims.filter((claim) => statusOf(claim.id) !== 'pending').length;
+
+  return (
+    <div className="flex flex-col h-full rounded-xl border border-border bg-card overflow-hidden">
+      <div className="px-4 py-3 border-b border-border space-y-1.5">
+        <div className="flex items-center gap-2">
+          <FileSearch className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold">이력서 검증 항목</h3>
+          <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+            {covered}/{plan.claims.length}
+          </span>
+        </div>
+        <div className="relative h-1.5 rounded bg-background">
+          <div
+            className="h-1.5 rounded bg-primary"
+            style={{ width: `${Math.round((covered / Math.max(1, plan.claims.length)) * 100)}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2">
+        {plan.claims.map((claim) => {
+          const badge = STATUS_BADGES[statusOf(claim.id)];
+          return (
+            <div
+              key={claim.id}
+              className={`rounded-lg border p-3 space-y-1 ${
+                claim.id === currentClaimId ? 'border-primary bg-primary/10' : 'border-border'
+              }`}
+            >
+              <div className="flex items-center gap-2 text-[10px]">
+                <span className="px-1.5 py-0.5 rounded bg-background text-muted-foreground">{TYPE_LABELS[claim.type]}</span>
+                <span className={`ml-auto flex items-center gap-1 ${badge.className}`}>
+                  {badge.icon}
+                  {badge.label}
+                </span>
+              </div>
+              <p className="text-xs">{claim.claim}</p>
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground">본인이 직접 한 일과 수치의 근거를 구체적으로 말하면 항목이 검증됩니다.</p>
+      </div>
+    </div>
+  );
+}
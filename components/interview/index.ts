@@ -5,3 +5,9 @@ export { RealTimeFeedback } from './RealTimeFeedback';
 export type { FeedbackType } from './RealTimeFeedback';
 export { InterviewerAvatar } from './InterviewerAvatar';
 export { VoiceVisualizer } from './VoiceVisualizer';
+export { CodeEditorPanel } from './CodeEditorPanel';
+export { DesignBoardPanel } from './DesignBoardPanel';
+export { CaseExhibitPanel } from './CaseExhibitPanel';
+export { PresentationPanel } from './PresentationPanel';
+export { DiscussionPanel } from './DiscussionPanel';
+export { ResumeClaimsPanel } from './ResumeClaimsPanel';
@@ -0,0 +1,309 @@
+// ============================================
+// React Hook for Realtime (duplex) Voice Interviews
+// ============================================
+// Opens a realtime session on the realtime voice server (WebSocket,
+// lib/realtime/server), streams microphone PCM up in ~100ms frames and
+// consumes its events: live transcripts, the interviewer's question as it is
+// generated, and per-sentence audio played back in order.
+// Turn taking is decided on the server (end-of-turn detection, barge-in).
+// mode 'captions' only transcribes: live captions and word timings for the
+// push-to-talk screen, accumulated until stop().
+
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { InterviewerInfo } from '@/lib/stream/sse-client';
+import { createBrowserSupabaseClient } from '@/lib/supabase/client';
+import { OrderedAudioQueue } from '@/lib/streaming/audio-queue';
+import { floatToInt16, pcmToBytes } from '@/lib/realtime/pcm';
+import type { SentenceAudioData } from '@/lib/streaming/sentence-synthesizer';
+import type { TranscriptionWord } from '@/lib/stt/service';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RealtimeInterviewState {
+  isConnected: boolean;
+  isUserSpeaking: boolean;
+  isInterviewerSpeaking: boolean;
+  partialTranscript: string;
+  captions: string; // Finalized text of this connection plus the current partial (captions mode)
+  liveWords: TranscriptionWord[]; // Word timings behind the current answer / captions
+  question: string;
+  interviewer: InterviewerInfo | null;
+  error: string | null;
+}
+
+export interface RealtimeTurnResult {
+  turn_count: number;
+  should_end: boolean;
+  user_message: { id: string; content: string };
+  interviewer_response: { id: string; content: string; interviewer_id: string };
+  interviewer: InterviewerInfo;
+}
+
+export interface UseRealtimeInterviewOptions {
+  mode?: 'interview' | 'captions';
+  onUserTranscript?: (text: string) => void;
+  onTurnComplete?: (turn: RealtimeTurnResult) => void;
+}
+
+export interface UseRealtimeInterviewReturn {
+  state: RealtimeInterviewState;
+  start: (sessionId: string) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+const initialState: RealtimeInterviewState = {
+  isConnected: false,
+  isUserSpeaking: false,
+  isInterviewerSpeaking: false,
+  partialTranscript: '',
+  captions: '',
+  liveWords: [],
+  question: '',
+  interviewer: null,
+  error: null,
+};
+
+const UPLOAD_INTERVAL_MS = 100;
+const REALTIME_URL = process.env.NEXT_PUBLIC_REALTIME_URL || 'ws://localhost:8787/realtime';
+
+// Forwards raw microphone frames from the audio thread
+const CAPTURE_WORKLET = `
+class PcmCapture extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCapture);
+`;
+
+// ============================================
+// Hook Implementation
+// ============================================
+
+export function useRealtimeInterview(
+  options: UseRealtimeInterviewOptions = {}
+): UseRealtimeInterviewReturn {
+  const [state, setState] = useState<RealtimeInterviewState>(initialState);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const uploadTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const queueRef = useRef<OrderedAudioQueue | null>(null);
+  const finalTextRef = useRef('');
+  const finalWordsRef = useRef<TranscriptionWord[]>([]);
+
+  const getQueue = useCallback(() => {
+    if (!queueRef.current) {
+      queueRef.current = new OrderedAudioQueue({
+        onSentenceStart: () => setState((prev) => ({ ...prev, isInterviewerSpeaking: true })),
+        onEnded: () => setState((prev) => ({ ...prev, isInterviewerSpeaking: false })),
+      });
+    }
+    return queueRef.current;
+  }, []);
+
+  const handleEvent = useCallback(
+    (event: string, data: unknown) => {
+      switch (event) {
+        case 'speech_start':
+          if (optionsRef.current.mode !== 'captions') {
+            finalTextRef.current = '';
+            finalWordsRef.current = [];
+          }
+          setState((prev) => ({ ...prev, isUserSpeaking: true, partialTranscript: '' }));
+          break;
+
+        case 'interrupted':
+          queueRef.current?.stop();
+          setState((prev) => ({ ...prev, isInterviewerSpeaking: false }));
+          break;
+
+        case 'transcript_partial': {
+          const { text, words } = data as { text: string; words: TranscriptionWord[] };
+          setState((prev) => ({
+            ...prev,
+            partialTranscript: text,
+            captions: [finalTextRef.current, text].filter(Boolean).join(' '),
+            liveWords: [...finalWordsRef.current, ...words],
+          }));
+          break;
+        }
+
+        case 'transcript_final': {
+          const { text, words } = data as { text: string; words: TranscriptionWord[] };
+          finalTextRef.current = [finalTextRef.current, text].filter(Boolean).join(' ');
+          finalWordsRef.current = [...finalWordsRef.current, ...words];
+          setState((prev) => ({
+            ...prev,
+            isUserSpeaking: false,
+            partialTranscript: '',
+            captions: finalTextRef.current,
+            liveWords: finalWordsRef.current,
+          }));
+          if (text) optionsRef.current.onUserTranscript?.(text);
+          break;
+        }
+
+        case 'turn_start': {
+          const { interviewer } = data as { interviewer: InterviewerInfo };
+          queueRef.current?.stop();
+          setState((prev) => ({ ...prev, interviewer, question: '' }));
+          break;
+        }
+
+        case 'question_chunk':
+          setState((prev) => ({ ...prev, question: prev.question + (data as { content: string }).content }));
+          break;
+
+        case 'audio': {
+          const sentence = data as SentenceAudioData;
+          getQueue().enqueue(sentence.index, sentence.audio, sentence.contentType);
+          break;
+        }
+
+        case 'audio_complete':
+          getQueue().end((data as { sentence_count: number }).sentence_count);
+          break;
+
+        case 'turn_complete':
+          optionsRef.current.onTurnComplete?.(data as RealtimeTurnResult);
+          break;
+
+        case 'error':
+          setState((prev) => ({ ...prev, error: (data as { message: string }).message }));
+          break;
+      }
+    },
+    [getQueue]
+  );
+
+  // Connect and start the session; resolves with the server's sample rate once it is ready
+  const connect = useCallback(
+    (socket: WebSocket, sessionId: string, accessToken: string) =>
+      new Promise<number>((resolve, reject) => {
+        socket.onopen = () => {
+          socket.send(JSON.stringify({
+            type: 'start',
+            access_token: accessToken,
+            session_id: sessionId,
+            mode: optionsRef.current.mode ?? 'interview',
+          }));
+        };
+        socket.onmessage = (message: MessageEvent<string>) => {
+          const { event, data } = JSON.parse(message.data) as { event: string; data: unknown };
+          if (event === 'ready') resolve((data as { sample_rate: number }).sample_rate);
+          if (event === 'error') reject(new Error((data as { message: string }).message));
+          handleEvent(event, data);
+        };
+        socket.onclose = () => reject(new Error('실시간 음성 서버에 연결하지 못했습니다.'));
+      }),
+    [handleEvent]
+  );
+
+  const stop = useCallback(async () => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+
+    if (uploadTimerRef.current) clearInterval(uploadTimerRef.current);
+    uploadTimerRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    queueRef.current?.stop();
+
+    setState((prev) => ({ ...prev, isConnected: false, isUserSpeaking: false, isInterviewerSpeaking: false }));
+
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  }, []);
+
+  const start = useCallback(
+    async (sessionId: string) => {
+      await stop();
+      finalTextRef.current = '';
+      finalWordsRef.current = [];
+      setState({ ...initialState });
+
+      try {
+        const { data: { session: auth } } = await createBrowserSupabaseClient().auth.getSession();
+        if (!auth) {
+          throw new Error('로그인이 필요합니다.');
+        }
+
+        const socket = new WebSocket(REALTIME_URL);
+        socketRef.current = socket;
+        const sampleRate = await connect(socket, sessionId, auth.access_token);
+
+        socket.onclose = () => {
+          if (socketRef.current !== socket) return;
+          stop();
+          setState((prev) => ({ ...prev, error: prev.error ?? '실시간 음성 세션이 종료되었습니다.' }));
+        };
+
+        // Microphone → PCM at the server's sample rate
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+        });
+        streamRef.current = stream;
+
+        const audioContext = new AudioContext({ sampleRate });
+        audioContextRef.current = audioContext;
+
+        const workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+        await audioContext.audioWorklet.addModule(workletUrl);
+        URL.revokeObjectURL(workletUrl);
+
+        const capture = new AudioWorkletNode(audioContext, 'pcm-capture');
+        audioContext.createMediaStreamSource(stream).connect(capture);
+
+        let captured: Float32Array[] = [];
+        capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+          captured.push(event.data);
+        };
+
+        // Frames arrive in order over the socket
+        uploadTimerRef.current = setInterval(() => {
+          if (captured.length === 0 || socket.readyState !== WebSocket.OPEN) return;
+
+          socket.send(pcmToBytes(floatToInt16(captured)));
+          captured = [];
+        }, UPLOAD_INTERVAL_MS);
+
+        setState((prev) => ({ ...prev, isConnected: true }));
+      } catch (error) {
+        await stop();
+        setState((prev) => ({
+          ...prev,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }));
+      }
+    },
+    [connect, stop]
+  );
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      stop();
+    };
+  }, [stop]);
+
+  return {
+    state,
+    start,
+    stop,
+  };
+}
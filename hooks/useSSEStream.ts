@@ -14,6 +14,9 @@ import {
   SSEClient,
   createSSEClient,
   type InterviewStreamRequest,
+  type InterviewMessageStreamRequest,
+  type InterviewMessageCompleteData,
+  type InterviewerInfo,
   type SSEChunkData,
   type SSECompleteData,
   type SSEErrorData,
@@ -98,7 +101,7 @@ export function useSSEStream(options: UseSSEStreamOptions = {}): UseSSEStreamRet
             onStart: (data) => {
               setState((prev) => ({
                 ...prev,
-                model: data.model,
+                model: data.model ?? null,
               }));
               onStart?.(data);
             },
@@ -265,3 +268,122 @@ export function useInterviewStream(): UseInterviewStreamReturn {
     reset,
   };
 }
+
+// ============================================
+// Interview Message Hook (/api/interview/message)
+// ============================================
+// Streams the interviewer's question as it is generated; the promise
+// resolves with the full turn (structured response, turn count, should_end)
+
+export interface InterviewMessageStreamState {
+  isStreaming: boolean;
+  question: string;
+  interviewer: InterviewerInfo | null;
+  error: string | null;
+}
+
+export interface UseInterviewMessageStreamOptions {
+  onStart?: (interviewer: InterviewerInfo | null) => void;
+  onQuestionChunk?: (chunk: string, question: string) => void;
+}
+
+export interface UseInterviewMessageStreamReturn {
+  state: InterviewMessageStreamState;
+  sendMessage: (request: InterviewMessageStreamRequest) => Promise<InterviewMessageCompleteData>;
+  stop: () => void;
+}
+
+const initialMessageState: InterviewMessageStreamState = {
+  isStreaming: false,
+  question: '',
+  interviewer: null,
+  error: null,
+};
+
+export function useInterviewMessageStream(
+  options: UseInterviewMessageStreamOptions = {}
+): UseInterviewMessageStreamReturn {
+  const { onStart, onQuestionChunk } = options;
+
+  const [state, setState] = useState<InterviewMessageStreamState>(initialMessageState);
+  const clientRef = useRef<SSEClient | null>(null);
+  const questionRef = useRef<string>('');
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      clientRef.current?.disconnect();
+    };
+  }, []);
+
+  const sendMessage = useCallback(
+    (request: InterviewMessageStreamRequest): Promise<InterviewMessageCompleteData> => {
+      clientRef.current?.disconnect();
+      questionRef.current = '';
+      setState({ ...initialMessageState, isStreaming: true });
+
+      return new Promise((resolve, reject) => {
+        let settled = false;
+
+        const fail = (message: string) => {
+          if (settled) return;
+          settled = true;
+          setState((prev) => ({ ...prev, isStreaming: false, error: message }));
+          reject(new Error(message));
+        };
+
+        const client = createSSEClient({
+          handlers: {
+            onStart: (data) => {
+              setState((prev) => ({ ...prev, interviewer: data.interviewer ?? null }));
+              onStart?.(data.interviewer ?? null);
+            },
+
+            onChunk: (data) => {
+              questionRef.current += data.content;
+              setState((prev) => ({ ...prev, question: questionRef.current }));
+              onQuestionChunk?.(data.content, questionRef.current);
+            },
+
+            onComplete: (data) => {
+              settled = true;
+              const turn = data as InterviewMessageCompleteData;
+              setState((prev) => ({
+                ...prev,
+                isStreaming: false,
+                question: turn.interviewer_response.content,
+              }));
+              resolve(turn);
+            },
+
+            onError: (data) => fail(data.message),
+
+            onDone: () => {
+              setState((prev) => ({ ...prev, isStreaming: false }));
+              fail('면접관 응답이 완료되지 않았습니다.');
+            },
+          },
+
+          onConnectionError: (error) => fail(error.message),
+        });
+
+        clientRef.current = client;
+        client.connect('/api/interview/message', request).catch((error) => fail(error.message));
+      });
+    },
+    [onStart, onQuestionChunk]
+  );
+
+  const stop = useCallback(() => {
+    clientRef.current?.disconnect();
+    clientRef.current = null;
+    setState((prev) => ({ ...prev, isStreaming: false }));
+  }, []);
+
+  return {
+    state,
+    sendMessage,
+    stop,
+  };
+}
+
@@ -0,0 +1,95 @@
+// ============================================
+// React Hook for Voice Activity Detection
+// ============================================
+// Listens to the microphone while `enabled` and fires onSpeechStart once the
+// input level stays above the threshold long enough to be speech (not a
+// cough or the interviewer's own voice leaking from the speakers).
+// Used for barge-in: the candidate can interrupt the interviewer mid-sentence.
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export interface UseVoiceActivityOptions {
+  enabled: boolean;
+  onSpeechStart: () => void;
+  threshold?: number; // RMS of the time-domain signal, 0-1
+  minSpeechMs?: number; // How long the level must stay above threshold
+}
+
+const DEFAULT_THRESHOLD = 0.06;
+const DEFAULT_MIN_SPEECH_MS = 300;
+
+export function useVoiceActivity({
+  enabled,
+  onSpeechStart,
+  threshold = DEFAULT_THRESHOLD,
+  minSpeechMs = DEFAULT_MIN_SPEECH_MS,
+}: UseVoiceActivityOptions): void {
+  // Latest callback without restarting the microphone on every render
+  const onSpeechStartRef = useRef(onSpeechStart);
+  onSpeechStartRef.current = onSpeechStart;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let frameId: number | null = null;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true },
+        });
+      } catch (err) {
+        console.warn('[VAD] Microphone unavailable, barge-in disabled:', err);
+        return;
+      }
+
+      if (cancelled) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+
+      const samples = new Float32Array(analyser.fftSize);
+      let speechStartedAt: number | null = null;
+
+      const detect = () => {
+        if (cancelled) return;
+
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+
+        const now = performance.now();
+        if (rms < threshold) {
+          speechStartedAt = null;
+        } else if (speechStartedAt === null) {
+          speechStartedAt = now;
+        } else if (now - speechStartedAt >= minSpeechMs) {
+          onSpeechStartRef.current();
+          return; // One trigger per activation
+        }
+
+        frameId = requestAnimationFrame(detect);
+      };
+
+      detect();
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach((track) => track.stop());
+      audioContext?.close();
+    };
+  }, [enabled, threshold, minSpeechMs]);
+}
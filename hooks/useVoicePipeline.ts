@@ -0,0 +1,189 @@
+// ============================================
+// React Hook for the Voice Pipeline
+// ============================================
+// Sends a recorded answer to /api/interview/stream and plays the interviewer's
+// reply sentence by sentence (tts_sentence events) in order, while the rest
+// of the reply is still being generated.
+
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { parseSSEMessage } from '@/lib/stream/sse-client';
+import { OrderedAudioQueue } from '@/lib/streaming/audio-queue';
+import type { SentenceAudioData, StreamingEvent } from '@/lib/streaming/pipeline';
+
+// ============================================
+// Types
+// ============================================
+
+export interface VoicePipelineState {
+  isProcessing: boolean;
+  isSpeaking: boolean;
+  transcript: string;
+  response: string;
+  error: string | null;
+  timeToFirstAudioMs: number | null;
+}
+
+export interface UseVoicePipelineReturn {
+  state: VoicePipelineState;
+  sendAudio: (audio: Blob, sessionId: string) => Promise<void>;
+  stop: () => void;
+}
+
+const initialState: VoicePipelineState = {
+  isProcessing: false,
+  isSpeaking: false,
+  transcript: '',
+  response: '',
+  error: null,
+  timeToFirstAudioMs: null,
+};
+
+// ============================================
+// Hook Implementation
+// ============================================
+
+export function useVoicePipeline(baseUrl = '/api/interview/stream'): UseVoicePipelineReturn {
+  const [state, setState] = useState<VoicePipelineState>(initialState);
+  const abortRef = useRef<AbortController | null>(null);
+  const queueRef = useRef<OrderedAudioQueue | null>(null);
+
+  const getQueue = useCallback(() => {
+    if (!queueRef.current) {
+      queueRef.current = new OrderedAudioQueue({
+        onSentenceStart: () => setState((prev) => ({ ...prev, isSpeaking: true })),
+        onEnded: () => setState((prev) => ({ ...prev, isSpeaking: false })),
+      });
+    }
+    return queueRef.current;
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      queueRef.current?.stop();
+    };
+  }, []);
+
+  const handleEvent = useCallback(
+    (event: StreamingEvent) => {
+      switch (event.type) {
+        case 'stt_complete': {
+          const { text } = event.data as { text: string };
+          setState((prev) => ({ ...prev, transcript: text }));
+          break;
+        }
+
+        case 'llm_chunk': {
+          const { content } = event.data as { content: string };
+          setState((prev) => ({ ...prev, response: prev.response + content }));
+          break;
+        }
+
+        case 'llm_complete': {
+          const { content } = event.data as { content: string };
+          setState((prev) => ({ ...prev, response: content }));
+          break;
+        }
+
+        case 'tts_sentence': {
+          const sentence = event.data as SentenceAudioData;
+          if (sentence.index === 0) {
+            setState((prev) => ({ ...prev, timeToFirstAudioMs: event.timestamp }));
+          }
+          getQueue().enqueue(sentence.index, sentence.audio, sentence.contentType);
+          break;
+        }
+
+        case 'tts_complete': {
+          const { sentenceCount } = event.data as { sentenceCount: number };
+          getQueue().end(sentenceCount);
+          break;
+        }
+
+        case 'error': {
+          const { message } = event.data as { message: string };
+          throw new Error(message);
+        }
+      }
+    },
+    [getQueue]
+  );
+
+  const sendAudio = useCallback(
+    async (audio: Blob, sessionId: string): Promise<void> => {
+      abortRef.current?.abort();
+      queueRef.current?.stop();
+
+      const abortController = new AbortController();
+      abortRef.current = abortController;
+      setState({ ...initialState, isProcessing: true });
+
+      const formData = new FormData();
+      formData.append('audio', audio);
+      formData.append('session_id', sessionId);
+
+      try {
+        const response = await fetch(baseUrl, {
+          method: 'POST',
+          body: formData,
+          signal: abortController.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop() || '';
+
+          for (const message of messages) {
+            const parsed = parseSSEMessage(message);
+            if (parsed) {
+              handleEvent(parsed.data as StreamingEvent);
+            }
+          }
+        }
+
+        setState((prev) => ({ ...prev, isProcessing: false }));
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+
+        queueRef.current?.stop();
+        setState((prev) => ({
+          ...prev,
+          isProcessing: false,
+          isSpeaking: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }));
+      }
+    },
+    [baseUrl, handleEvent]
+  );
+
+  // Also the barge-in path: aborting the request makes the server call StreamingPipeline.cancel()
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    queueRef.current?.stop();
+    setState((prev) => ({ ...prev, isProcessing: false, isSpeaking: false }));
+  }, []);
+
+  return {
+    state,
+    sendAudio,
+    stop,
+  };
+}
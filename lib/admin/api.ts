@@ -10,7 +10,10 @@ import type {
   AppConfig, 
   ActivityLog,
   PaginationParams,
-  PaginatedResponse 
+  PaginatedResponse,
+  CalibrationRun,
+  RescoreJob,
+  RescoreSelection,
 } from "@/types/admin";
 
 /**
@@ -687,3 +690,74 @@ export function sendEmail(to: string, subject: string, content: string): EmailRe
   
   return record;
 }
+
+// ============================================
+// 루브릭 캘리브레이션 (서버 API 경유: 모델 호출 + 서비스 롤 저장)
+// ============================================
+
+export async function getCalibrationRuns(): Promise<CalibrationRun[]> {
+  const response = await fetch("/api/admin/calibration");
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "캘리브레이션 기록을 불러오지 못했습니다");
+  return data.runs as CalibrationRun[];
+}
+
+export async function startCalibrationRun(options: { provider?: string; model?: string } = {}): Promise<CalibrationRun> {
+  const response = await fetch("/api/admin/calibration", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(options),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.details || data.error || "캘리브레이션 실행에 실패했습니다");
+  return data.run as CalibrationRun;
+}
+
+// ============================================
+// 일괄 재채점 (서버 API 경유: 작업 생성 후 배치 단위 실행)
+// ============================================
+
+export async function getRescoreJobs(): Promise<{ jobs: RescoreJob[]; scoringVersion: string }> {
+  const response = await fetch("/api/admin/rescore");
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "재채점 작업을 불러오지 못했습니다");
+  return { jobs: data.jobs as RescoreJob[], scoringVersion: data.scoring_version as string };
+}
+
+export async function createRescoreJob(
+  selection: RescoreSelection & { provider?: string; model?: string }
+): Promise<RescoreJob> {
+  const response = await fetch("/api/admin/rescore", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(selection),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.details || data.error || "재채점 작업을 만들지 못했습니다");
+  return data.job as RescoreJob;
+}
+
+/**
+ * 다음 배치를 재채점 (일시정지된 작업은 이어서 실행)
+ */
+export async function runRescoreJobBatch(jobId: string): Promise<RescoreJob> {
+  const response = await fetch(`/api/admin/rescore/${jobId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: "run" }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.details || data.error || "재채점에 실패했습니다");
+  return data.job as RescoreJob;
+}
+
+export async function pauseRescoreJob(jobId: string): Promise<RescoreJob> {
+  const response = await fetch(`/api/admin/rescore/${jobId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: "pause" }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "재채점 작업을 일시정지하지 못했습니다");
+  return data.job as RescoreJob;
+}
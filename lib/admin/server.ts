@@ -0,0 +1,37 @@
+// ============================================
+// Admin Server Helpers (API routes)
+// ============================================
+// Admin routes that spend model calls or rewrite results check the caller's
+// profiles.role and then work through the service role client.
+
+import { createClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+
+/**
+ * The signed-in user when their profile has the admin role, otherwise null
+ */
+export async function getAdminUser(): Promise<{ id: string; email?: string } | null> {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .single();
+
+  const role = (profile as { role?: string } | null)?.role;
+  return role === 'admin' ? { id: user.id, email: user.email } : null;
+}
+
+/**
+ * Service Role Key로 RLS 우회
+ */
+export function createAdminSupabaseClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+  );
+}
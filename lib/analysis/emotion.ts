@@ -0,0 +1,151 @@
+// ============================================
+// Emotion Analysis - per-answer affect timeline
+// ============================================
+// Estimates confidence / nervousness / enthusiasm for each candidate answer:
+// - text: hedging, assertive and enthusiastic expressions (Korean lexicon)
+// - voice (when the answer was spoken): fillers, pace, pauses, pitch variation,
+//   jitter/shimmer (see AnswerVoiceFeatures)
+// Entries are keyed to message timestamps (seconds since the interview started).
+
+import type { EmotionScores, EmotionTimelineEntry } from '@/types/interview';
+import type { AnswerVoiceFeatures } from './voice';
+
+const BASELINE = 50;
+const LEXICON_STEP = 8;
+const LEXICON_CAP = 32;
+
+// Hedging / apologizing: lowers confidence, raises nervousness
+const HEDGE_PATTERNS = [
+  /것 같(습니다|아요|은데)/g,
+  /잘 모르겠/g,
+  /아마(도)?/g,
+  /죄송/g,
+  /확실하지/g,
+  /글쎄/g,
+  /부족(하|했)/g,
+  /긴장/g,
+];
+
+// Ownership and outcomes: raises confidence
+const ASSERTIVE_PATTERNS = [
+  /주도(했|하)/g,
+  /해결(했|하)/g,
+  /달성(했|하)/g,
+  /개선(했|하)/g,
+  /성공(했|적)/g,
+  /확신/g,
+  /책임(지|졌)/g,
+  /\d+(\.\d+)?\s*(%|배|건|명)/g,
+];
+
+// Interest and motivation: raises enthusiasm
+const ENTHUSIASM_PATTERNS = [
+  /재미(있|를)/g,
+  /즐거/g,
+  /열정/g,
+  /흥미/g,
+  /좋아(하|합)/g,
+  /도전/g,
+  /배우고 싶/g,
+  /기대(됩|가)/g,
+  /!/g,
+];
+
+function countMatches(text: string, patterns: RegExp[]): number {
+  return patterns.reduce((sum, pattern) => sum + (text.match(pattern)?.length ?? 0), 0);
+}
+
+function lexiconShift(count: number): number {
+  return Math.min(LEXICON_CAP, count * LEXICON_STEP);
+}
+
+function clamp(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+/**
+ * Affect of a single answer (0-100 each)
+ */
+export function estimateAnswerEmotion(text: string, voice?: AnswerVoiceFeatures | null): EmotionScores {
+  const hedges = countMatches(text, HEDGE_PATTERNS);
+  const assertive = countMatches(text, ASSERTIVE_PATTERNS);
+  const enthusiastic = countMatches(text, ENTHUSIASM_PATTERNS);
+
+  let confidence = BASELINE + lexiconShift(assertive) - lexiconShift(hedges);
+  let nervousness = BASELINE - lexiconShift(assertive) / 2 + lexiconShift(hedges);
+  let enthusiasm = BASELINE + lexiconShift(enthusiastic);
+
+  // Very short answers read as unsure
+  if (text.trim().length < 20) {
+    confidence -= 10;
+    nervousness += 10;
+  }
+
+  if (voice) {
+    nervousness += Math.min(20, voice.filler_rate * 2);
+    confidence -= Math.min(15, voice.filler_rate * 1.5);
+    nervousness += Math.min(15, voice.long_pauses * 5);
+
+    if (voice.leading_silence > 5) nervousness += 10;
+    if (voice.wpm > 200) nervousness += 10;
+    if (voice.wpm > 0 && voice.wpm < 100) confidence -= 10;
+
+    if (voice.jitter_percent !== undefined) {
+      nervousness += Math.min(20, Math.max(0, voice.jitter_percent - 2) * 10);
+    }
+    if (voice.shimmer_percent !== undefined) {
+      nervousness += Math.min(15, Math.max(0, voice.shimmer_percent - 12) * 2);
+    }
+    if (voice.pitch_variability_st !== undefined) {
+      enthusiasm += Math.max(-20, Math.min(20, (voice.pitch_variability_st - 2) * 8));
+    }
+    if (voice.loudness_mean_db !== undefined && voice.loudness_mean_db < -35) {
+      confidence -= 10;
+    }
+  }
+
+  return {
+    confidence: clamp(confidence),
+    nervousness: clamp(nervousness),
+    enthusiasm: clamp(enthusiasm),
+  };
+}
+
+export interface EmotionMessage {
+  id: string;
+  role: string;
+  content: string;
+  created_at: string;
+  voice_features?: AnswerVoiceFeatures | null;
+}
+
+/**
+ * Timeline over the candidate's answers + average scores (emotion_analyses row)
+ */
+export function buildEmotionTimeline(
+  messages: EmotionMessage[],
+  startedAt: string
+): { timeline: EmotionTimelineEntry[]; average_scores: EmotionScores } {
+  const start = new Date(startedAt).getTime();
+
+  const timeline: EmotionTimelineEntry[] = messages
+    .filter(msg => msg.role === 'user' && msg.content.trim().length > 0)
+    .map(msg => ({
+      timestamp: Math.max(0, Math.round((new Date(msg.created_at).getTime() - start) / 1000)),
+      message_id: msg.id,
+      source: msg.voice_features ? 'voice' as const : 'text' as const,
+      ...estimateAnswerEmotion(msg.content, msg.voice_features),
+    }));
+
+  const average = (key: keyof EmotionScores) =>
+    timeline.length > 0 ? clamp(timeline.reduce((sum, entry) => sum + entry[key], 0) / timeline.length) : 0;
+
+  return {
+    timeline,
+    average_scores: {
+      confidence: average('confidence'),
+      nervousness: average('nervousness'),
+      enthusiasm: average('enthusiasm'),
+    },
+  };
+}
@@ -0,0 +1,235 @@
+// ============================================
+// Prosody Analysis - Pitch, Loudness, Voice Stability
+// ============================================
+// Acoustic features from decoded PCM (not from the transcript):
+// - pitch contour (autocorrelation F0 per 10ms hop) and its variability in semitones
+// - loudness (dBFS) level and variability
+// - jitter / shimmer: frame-to-frame period and amplitude perturbation (%)
+//
+// Jitter/shimmer are frame-level approximations of the cycle-level clinical
+// measures, so thresholds are calibrated for this implementation, not Praat.
+
+const ANALYSIS_RATE = 8000; // Pitch range needs < 4 kHz; decimating keeps autocorrelation cheap
+const FRAME_MS = 30;
+const HOP_MS = 10;
+const MIN_PITCH_HZ = 60;
+const MAX_PITCH_HZ = 400;
+const VOICING_THRESHOLD = 0.5; // Normalized autocorrelation peak needed to call a frame voiced
+const SPEECH_RMS = 0.015; // Same floor as the VAD speech threshold
+const MAX_CONTOUR_POINTS = 120;
+const MIN_VOICED_FRAMES = 10;
+
+// Feedback thresholds (see generateVoiceFeedback)
+export const PROSODY_THRESHOLDS = {
+  monotoneSemitones: 1.5,     // Pitch variability below this sounds flat
+  tremorJitterPercent: 3.5,
+  tremorShimmerPercent: 18,
+  quietDb: -35,               // Mean loudness below this is hard to hear
+};
+
+export interface PitchPoint {
+  time: number; // seconds
+  hz: number;
+}
+
+export interface ProsodyAnalysis {
+  pitchMeanHz: number;
+  pitchVariabilitySemitones: number; // Std of pitch around the speaker's median
+  pitchRangeSemitones: number;       // 5th → 95th percentile
+  loudnessMeanDb: number;            // dBFS over speech frames
+  loudnessVariabilityDb: number;
+  jitterPercent: number;
+  shimmerPercent: number;
+  voicedRatio: number;               // Voiced frames / speech frames
+  pitchContour: PitchPoint[];        // Downsampled for storage and charts
+}
+
+/**
+ * Analyze 16-bit PCM (mono). Returns null when there is too little voiced speech.
+ */
+export function analyzeProsody(samples: Int16Array, sampleRate: number): ProsodyAnalysis | null {
+  const { signal, rate } = decimate(samples, sampleRate);
+  const frameSize = Math.round((rate * FRAME_MS) / 1000);
+  const hop = Math.round((rate * HOP_MS) / 1000);
+  const minLag = Math.floor(rate / MAX_PITCH_HZ);
+  const maxLag = Math.ceil(rate / MIN_PITCH_HZ);
+
+  const contour: PitchPoint[] = [];
+  const periods: (number | null)[] = []; // Per speech frame; null = unvoiced (breaks jitter runs)
+  const amplitudes: (number | null)[] = [];
+  const loudness: number[] = [];
+
+  const windowSize = frameSize + maxLag + 2; // Frame plus the largest lag compared against it
+
+  for (let start = 0; start + windowSize <= signal.length; start += hop) {
+    const frame = signal.subarray(start, start + windowSize);
+    const rms = frameRmsFloat(frame.subarray(0, frameSize));
+
+    if (rms < SPEECH_RMS) {
+      periods.push(null);
+      amplitudes.push(null);
+      continue;
+    }
+
+    loudness.push(20 * Math.log10(rms));
+
+    const period = detectPeriod(frame, frameSize, minLag, maxLag);
+    if (period === null) {
+      periods.push(null);
+      amplitudes.push(null);
+      continue;
+    }
+
+    periods.push(period);
+    amplitudes.push(peakAmplitude(frame.subarray(0, frameSize)));
+    contour.push({ time: start / rate, hz: rate / period });
+  }
+
+  if (contour.length < MIN_VOICED_FRAMES) return null;
+
+  const pitches = contour.map(p => p.hz);
+  const median = percentile(pitches, 0.5);
+  const semitones = pitches.map(hz => 12 * Math.log2(hz / median));
+
+  return {
+    pitchMeanHz: round(mean(pitches), 1),
+    pitchVariabilitySemitones: round(std(semitones), 2),
+    pitchRangeSemitones: round(percentile(semitones, 0.95) - percentile(semitones, 0.05), 2),
+    loudnessMeanDb: round(mean(loudness), 1),
+    loudnessVariabilityDb: round(std(loudness), 1),
+    jitterPercent: round(perturbation(periods) * 100, 2),
+    shimmerPercent: round(perturbation(amplitudes) * 100, 2),
+    voicedRatio: round(contour.length / loudness.length, 2),
+    pitchContour: downsampleContour(contour),
+  };
+}
+
+// ============================================
+// Signal helpers
+// ============================================
+
+function decimate(samples: Int16Array, sampleRate: number): { signal: Float32Array; rate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  const signal = new Float32Array(Math.floor(samples.length / factor));
+
+  // Box filter + downsample: enough anti-aliasing for voice pitch
+  for (let i = 0; i < signal.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    signal[i] = sum / factor / 32768;
+  }
+
+  return { signal, rate: sampleRate / factor };
+}
+
+function frameRmsFloat(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return frame.length > 0 ? Math.sqrt(sum / frame.length) : 0;
+}
+
+function peakAmplitude(frame: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < frame.length; i++) peak = Math.max(peak, Math.abs(frame[i]));
+  return peak;
+}
+
+/**
+ * Pitch period in samples (parabolic-interpolated), null if the frame is unvoiced
+ */
+function detectPeriod(frame: Float32Array, frameSize: number, minLag: number, maxLag: number): number | null {
+  let bestLag = -1;
+  let bestScore = 0;
+  const scores = new Float32Array(maxLag + 2);
+
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i < frameSize; i++) {
+      const a = frame[i];
+      const b = frame[i + lag];
+      cross += a * b;
+      energyA += a * a;
+      energyB += b * b;
+    }
+    scores[lag] = energyA > 0 && energyB > 0 ? cross / Math.sqrt(energyA * energyB) : 0;
+  }
+
+  // First strong peak avoids octave errors (multiples of the period score high too)
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    const isPeak = scores[lag] >= scores[lag - 1] && scores[lag] >= scores[lag + 1];
+    if (isPeak && scores[lag] >= VOICING_THRESHOLD && scores[lag] > bestScore) {
+      bestLag = lag;
+      bestScore = scores[lag];
+      if (bestScore > 0.9) break;
+    }
+  }
+
+  if (bestLag === -1) return null;
+
+  const prev = scores[bestLag - 1];
+  const next = scores[bestLag + 1];
+  const denominator = prev - 2 * scores[bestLag] + next;
+  const shift = denominator !== 0 ? (0.5 * (prev - next)) / denominator : 0;
+
+  return bestLag + Math.max(-0.5, Math.min(0.5, shift));
+}
+
+/**
+ * Mean absolute difference between consecutive voiced values, relative to their mean
+ */
+function perturbation(values: (number | null)[]): number {
+  let diffSum = 0;
+  let diffCount = 0;
+  const voiced: number[] = [];
+
+  for (let i = 0; i < values.length; i++) {
+    const current = values[i];
+    if (current === null) continue;
+    voiced.push(current);
+
+    const previous = values[i - 1];
+    if (previous !== null && previous !== undefined) {
+      diffSum += Math.abs(current - previous);
+      diffCount++;
+    }
+  }
+
+  const average = mean(voiced);
+  return diffCount > 0 && average > 0 ? diffSum / diffCount / average : 0;
+}
+
+function downsampleContour(contour: PitchPoint[]): PitchPoint[] {
+  const step = Math.max(1, Math.ceil(contour.length / MAX_CONTOUR_POINTS));
+  const points: PitchPoint[] = [];
+
+  for (let i = 0; i < contour.length; i += step) {
+    const slice = contour.slice(i, i + step);
+    points.push({
+      time: round(slice[0].time, 2),
+      hz: round(percentile(slice.map(p => p.hz), 0.5), 1),
+    });
+  }
+
+  return points;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function std(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] ?? 0;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -2,8 +2,12 @@
 // Voice Analysis - Speech Patterns & Emotion
 // ============================================
 // Analyzes WPM, filler words, silence patterns, confidence
+// With decoded audio, acoustic prosody (lib/analysis/prosody.ts) adds pitch
+// variation and vocal stability factors
 
-import type { TranscriptionWord } from '@/lib/stt/service';
+import type { TranscriptionResult, TranscriptionWord } from '@/lib/stt/service';
+import type { InterviewLanguage } from '@/types/interview';
+import { PROSODY_THRESHOLDS, analyzeProsody, type ProsodyAnalysis } from './prosody';
 
 export interface VoiceAnalysisResult {
   wpm: number;                    // Words per minute
@@ -15,6 +19,7 @@ export interface VoiceAnalysisResult {
   speakingTime: number;           // seconds
   totalDuration: number;          // seconds
   confidence: VoiceConfidenceScore;
+  prosody?: ProsodyAnalysis;      // Only when the audio could be decoded (WAV)
 }
 
 export interface FillerWordStats {
@@ -24,11 +29,21 @@ export interface FillerWordStats {
 }
 
 export interface SilenceStats {
-  totalSilenceTime: number;       // seconds
+  totalSilenceTime: number;       // seconds, pauses within the answer
   silenceCount: number;
   avgSilenceLength: number;       // seconds
-  longPauses: number;             // pauses > 2s
-  silenceRate: number;            // % of total time
+  longPauses: number;             // pauses > 2s within the answer
+  silenceRate: number;            // % of the answer (first word → last word)
+  leadingSilence: number;         // seconds before the answer starts (thinking before answering)
+  trailingSilence: number;        // seconds after the answer ends (late stop)
+}
+
+export interface VoiceAnalysisOptions {
+  // Silence trimmed by server-side VAD (see TranscriptionResult); derived from word timings when absent
+  leadingSilenceSeconds?: number;
+  trailingSilenceSeconds?: number;
+  prosody?: ProsodyAnalysis | null;
+  language?: InterviewLanguage;   // Filler word list (default: Korean; 'mixed' checks both)
 }
 
 export interface VoiceConfidenceScore {
@@ -37,6 +52,8 @@ export interface VoiceConfidenceScore {
     speechPace: number;           // 0-100 (optimal WPM range)
     fluency: number;              // 0-100 (low filler words)
     articulation: number;         // 0-100 (consistent pace)
+    pitchVariation?: number;      // 0-100 (lively intonation, not monotone) - acoustic
+    vocalStability?: number;      // 0-100 (low jitter/shimmer, no trembling) - acoustic
   };
 }
 
@@ -66,20 +83,58 @@ const KOREAN_FILLER_WORDS: Record<string, 'hesitation' | 'emphasis' | 'thinking'
   '엄청': 'emphasis',
 };
 
+type FillerCategory = FillerWordStats['category'];
+
+// English filler words; two-word fillers ("you know") are matched as phrases
+const ENGLISH_FILLER_WORDS: Record<string, FillerCategory> = {
+  // Hesitation
+  'um': 'hesitation',
+  'umm': 'hesitation',
+  'uh': 'hesitation',
+  'uhm': 'hesitation',
+  'er': 'hesitation',
+  'erm': 'hesitation',
+  'ah': 'hesitation',
+  'hmm': 'hesitation',
+
+  // Thinking
+  'like': 'thinking',
+  'you know': 'thinking',
+  'i mean': 'thinking',
+  'kind of': 'thinking',
+  'sort of': 'thinking',
+
+  // Emphasis (often overused)
+  'basically': 'emphasis',
+  'actually': 'emphasis',
+  'literally': 'emphasis',
+  'totally': 'emphasis',
+};
+
+function getFillerWords(language: InterviewLanguage = 'ko'): Record<string, FillerCategory> {
+  if (language === 'en') return ENGLISH_FILLER_WORDS;
+  if (language === 'mixed') return { ...KOREAN_FILLER_WORDS, ...ENGLISH_FILLER_WORDS };
+  return KOREAN_FILLER_WORDS;
+}
+
 /**
  * Analyze voice patterns from transcription with word timings
  */
 export function analyzeVoice(
   text: string,
   words: TranscriptionWord[] = [],
-  audioDurationSeconds?: number
+  audioDurationSeconds?: number,
+  options: VoiceAnalysisOptions = {}
 ): VoiceAnalysisResult {
   // Extract timing info
   const duration = audioDurationSeconds || (words.length > 0 ? words[words.length - 1].end : 0);
 
-  // Calculate speaking time (total time minus silences)
-  const silenceStats = calculateSilenceStats(words, duration);
-  const speakingTime = duration - silenceStats.totalSilenceTime;
+  // Calculate speaking time (total time minus silences before, within and after the answer)
+  const silenceStats = calculateSilenceStats(words, duration, options);
+  const speakingTime = Math.max(
+    0,
+    duration - silenceStats.leadingSilence - silenceStats.trailingSilence - silenceStats.totalSilenceTime
+  );
 
   // Count words
   const wordList = text.split(/\s+/).filter(w => w.trim().length > 0);
@@ -89,7 +144,7 @@ export function analyzeVoice(
   const wpm = speakingTime > 0 ? (totalWords / speakingTime) * 60 : 0;
 
   // Detect filler words
-  const { fillerWordCount, fillerWords } = detectFillerWords(wordList);
+  const { fillerWordCount, fillerWords } = detectFillerWords(wordList, options.language);
   const fillerWordRate = totalWords > 0 ? (fillerWordCount / totalWords) * 100 : 0;
 
   // Calculate confidence score
@@ -98,6 +153,7 @@ export function analyzeVoice(
     fillerWordRate,
     silenceStats,
     words,
+    prosody: options.prosody ?? undefined,
   });
 
   return {
@@ -110,31 +166,38 @@ export function analyzeVoice(
     speakingTime: Math.round(speakingTime * 10) / 10,
     totalDuration: Math.round(duration * 10) / 10,
     confidence,
+    ...(options.prosody ? { prosody: options.prosody } : {}),
   };
 }
 
 /**
- * Detect and count Korean filler words
+ * Detect and count filler words for the interview language
  */
-function detectFillerWords(words: string[]): {
+function detectFillerWords(words: string[], language: InterviewLanguage = 'ko'): {
   fillerWordCount: number;
   fillerWords: FillerWordStats[];
 } {
+  const fillerTable = getFillerWords(language);
   const fillerCounts = new Map<string, number>();
-
-  for (const word of words) {
-    const normalized = word.trim().toLowerCase();
-
-    // Check if it's a filler word
-    if (KOREAN_FILLER_WORDS[normalized]) {
-      fillerCounts.set(normalized, (fillerCounts.get(normalized) || 0) + 1);
+  // English transcripts carry punctuation on the word ("Um," "like,")
+  const normalized = words.map(word => word.trim().toLowerCase().replace(/^[.,!?;:"'()…-]+|[.,!?;:"'()…-]+$/g, ''));
+
+  for (let i = 0; i < normalized.length; i++) {
+    const phrase = i + 1 < normalized.length ? `${normalized[i]} ${normalized[i + 1]}` : '';
+
+    // Check two-word fillers first so "you know" is not read as two words
+    if (phrase && fillerTable[phrase]) {
+      fillerCounts.set(phrase, (fillerCounts.get(phrase) || 0) + 1);
+      i++;
+    } else if (fillerTable[normalized[i]]) {
+      fillerCounts.set(normalized[i], (fillerCounts.get(normalized[i]) || 0) + 1);
     }
   }
 
   const fillerWords: FillerWordStats[] = Array.from(fillerCounts.entries()).map(([word, count]) => ({
     word,
     count,
-    category: KOREAN_FILLER_WORDS[word],
+    category: fillerTable[word],
   }));
 
   fillerWords.sort((a, b) => b.count - a.count);
@@ -149,7 +212,8 @@ function detectFillerWords(words: string[]): {
  */
 function calculateSilenceStats(
   words: TranscriptionWord[],
-  totalDuration: number
+  totalDuration: number,
+  edges: VoiceAnalysisOptions
 ): SilenceStats {
   if (words.length === 0) {
     return {
@@ -158,6 +222,8 @@ function calculateSilenceStats(
       avgSilenceLength: 0,
       longPauses: 0,
       silenceRate: 0,
+      leadingSilence: Math.round((edges.leadingSilenceSeconds ?? totalDuration) * 10) / 10,
+      trailingSilence: Math.round((edges.trailingSilenceSeconds ?? 0) * 10) / 10,
     };
   }
 
@@ -182,24 +248,16 @@ function calculateSilenceStats(
     }
   }
 
-  // Add initial silence (if speech doesn't start at 0)
-  if (words[0].start > 0.1) {
-    const initialSilence = words[0].start;
-    silences.push(initialSilence);
-    totalSilenceTime += initialSilence;
-  }
-
-  // Add final silence (if speech ends before audio duration)
+  // Silence before the first / after the last word is reported separately:
+  // a slow start is thinking time, not a pause in the middle of the answer
   const lastWordEnd = words[words.length - 1].end;
-  if (totalDuration > lastWordEnd + 0.1) {
-    const finalSilence = totalDuration - lastWordEnd;
-    silences.push(finalSilence);
-    totalSilenceTime += finalSilence;
-  }
+  const leadingSilence = edges.leadingSilenceSeconds ?? words[0].start;
+  const trailingSilence = edges.trailingSilenceSeconds ?? Math.max(0, totalDuration - lastWordEnd);
 
   const silenceCount = silences.length;
   const avgSilenceLength = silenceCount > 0 ? totalSilenceTime / silenceCount : 0;
-  const silenceRate = totalDuration > 0 ? (totalSilenceTime / totalDuration) * 100 : 0;
+  const answerSpan = lastWordEnd - words[0].start;
+  const silenceRate = answerSpan > 0 ? (totalSilenceTime / answerSpan) * 100 : 0;
 
   return {
     totalSilenceTime: Math.round(totalSilenceTime * 10) / 10,
@@ -207,6 +265,8 @@ function calculateSilenceStats(
     avgSilenceLength: Math.round(avgSilenceLength * 100) / 100,
     longPauses,
     silenceRate: Math.round(silenceRate * 10) / 10,
+    leadingSilence: Math.round(leadingSilence * 10) / 10,
+    trailingSilence: Math.round(trailingSilence * 10) / 10,
   };
 }
 
@@ -218,8 +278,9 @@ function calculateConfidenceScore(params: {
   fillerWordRate: number;
   silenceStats: SilenceStats;
   words: TranscriptionWord[];
+  prosody?: ProsodyAnalysis;
 }): VoiceConfidenceScore {
-  const { wpm, fillerWordRate, silenceStats, words } = params;
+  const { wpm, fillerWordRate, silenceStats, words, prosody } = params;
 
   // 1. Speech Pace Score (optimal: 120-180 WPM for Korean)
   let speechPaceScore = 0;
@@ -272,11 +333,47 @@ function calculateConfidenceScore(params: {
 
   articulationScore = Math.max(0, Math.min(100, articulationScore));
 
-  // Overall score: weighted average
+  if (!prosody) {
+    // Overall score: weighted average
+    const overall = Math.round(
+      speechPaceScore * 0.3 +
+      fluencyScore * 0.4 +
+      articulationScore * 0.3
+    );
+
+    return {
+      overall,
+      factors: {
+        speechPace: Math.round(speechPaceScore),
+        fluency: Math.round(fluencyScore),
+        articulation: Math.round(articulationScore),
+      },
+    };
+  }
+
+  // 4. Pitch Variation Score (optimal: 2-6 semitones std; lower sounds monotone)
+  const semitones = prosody.pitchVariabilitySemitones;
+  let pitchVariationScore = 0;
+  if (semitones >= 2 && semitones <= 6) {
+    pitchVariationScore = 100;
+  } else if (semitones < 2) {
+    pitchVariationScore = Math.max(0, 40 + (semitones - 1) * 60); // Flat
+  } else {
+    pitchVariationScore = Math.max(60, 100 - (semitones - 6) * 10); // Exaggerated
+  }
+
+  // 5. Vocal Stability Score (jitter/shimmer above normal speech = trembling)
+  let vocalStabilityScore = 100;
+  vocalStabilityScore -= Math.max(0, prosody.jitterPercent - 2) * 15;
+  vocalStabilityScore -= Math.max(0, prosody.shimmerPercent - 12) * 4;
+  vocalStabilityScore = Math.max(0, Math.min(100, vocalStabilityScore));
+
   const overall = Math.round(
-    speechPaceScore * 0.3 +
-    fluencyScore * 0.4 +
-    articulationScore * 0.3
+    speechPaceScore * 0.2 +
+    fluencyScore * 0.3 +
+    articulationScore * 0.2 +
+    pitchVariationScore * 0.15 +
+    vocalStabilityScore * 0.15
   );
 
   return {
@@ -285,6 +382,8 @@ function calculateConfidenceScore(params: {
       speechPace: Math.round(speechPaceScore),
       fluency: Math.round(fluencyScore),
       articulation: Math.round(articulationScore),
+      pitchVariation: Math.round(pitchVariationScore),
+      vocalStability: Math.round(vocalStabilityScore),
     },
   };
 }
@@ -312,10 +411,28 @@ export function generateVoiceFeedback(analysis: VoiceAnalysisResult): string[] {
   }
 
   // Silence feedback
+  if (analysis.silenceStats.leadingSilence > 5) {
+    feedback.push(`답변을 시작하기까지 ${analysis.silenceStats.leadingSilence.toFixed(0)}초가 걸렸습니다. 첫 문장을 먼저 말하고 생각을 이어가 보세요.`);
+  }
   if (analysis.silenceStats.longPauses > 2) {
     feedback.push(`긴 침묵이 ${analysis.silenceStats.longPauses}회 있었습니다. 답변 전에 미리 생각을 정리하면 좋습니다.`);
   }
 
+  // Acoustic feedback (measured from the audio)
+  if (analysis.prosody) {
+    const { pitchVariabilitySemitones, jitterPercent, shimmerPercent, loudnessMeanDb } = analysis.prosody;
+
+    if (pitchVariabilitySemitones < PROSODY_THRESHOLDS.monotoneSemitones) {
+      feedback.push('억양 변화가 적어 단조롭게 들립니다. 핵심 단어에 힘을 주어 강조해보세요.');
+    }
+    if (jitterPercent > PROSODY_THRESHOLDS.tremorJitterPercent || shimmerPercent > PROSODY_THRESHOLDS.tremorShimmerPercent) {
+      feedback.push('목소리가 떨리는 구간이 있습니다. 숨을 충분히 들이쉬고 문장을 짧게 끊어 말해보세요.');
+    }
+    if (loudnessMeanDb < PROSODY_THRESHOLDS.quietDb) {
+      feedback.push('목소리가 작게 들립니다. 마이크와의 거리를 확인하고 조금 더 크게 말해보세요.');
+    }
+  }
+
   // Overall confidence
   if (analysis.confidence.overall >= 80) {
     feedback.push('전반적으로 자신감 있는 답변입니다.');
@@ -326,6 +443,104 @@ export function generateVoiceFeedback(analysis: VoiceAnalysisResult): string[] {
   return feedback;
 }
 
+// Compact per-answer summary stored on the user message (messages.voice_features)
+export interface AnswerVoiceFeatures {
+  wpm: number;
+  filler_rate: number;            // %
+  long_pauses: number;
+  leading_silence: number;        // seconds
+  pitch_variability_st?: number;
+  jitter_percent?: number;
+  shimmer_percent?: number;
+  loudness_mean_db?: number;
+  confidence?: number;            // Voice confidence overall (0-100)
+  duration_seconds?: number;      // Recording length, used for PT time management
+}
+
+export function toAnswerVoiceFeatures(analysis: VoiceAnalysisResult): AnswerVoiceFeatures {
+  return {
+    wpm: analysis.wpm,
+    confidence: analysis.confidence.overall,
+    duration_seconds: analysis.totalDuration,
+    filler_rate: analysis.fillerWordRate,
+    long_pauses: analysis.silenceStats.longPauses,
+    leading_silence: analysis.silenceStats.leadingSilence,
+    ...(analysis.prosody
+      ? {
+          pitch_variability_st: analysis.prosody.pitchVariabilitySemitones,
+          jitter_percent: analysis.prosody.jitterPercent,
+          shimmer_percent: analysis.prosody.shimmerPercent,
+          loudness_mean_db: analysis.prosody.loudnessMeanDb,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Voice features of a spoken answer from its transcription and decoded PCM
+ */
+export function extractAnswerVoiceFeatures(
+  transcription: TranscriptionResult,
+  samples: Int16Array,
+  sampleRate: number,
+  language: InterviewLanguage = 'ko'
+): AnswerVoiceFeatures {
+  const analysis = analyzeVoice(
+    transcription.text,
+    transcription.words ?? [],
+    transcription.audioDurationSeconds ?? samples.length / sampleRate,
+    {
+      leadingSilenceSeconds: transcription.leadingSilenceSeconds,
+      trailingSilenceSeconds: transcription.trailingSilenceSeconds,
+      prosody: analyzeProsody(samples, sampleRate),
+      language,
+    }
+  );
+
+  return toAnswerVoiceFeatures(analysis);
+}
+
+export interface LiveFeedbackChip {
+  label: string;
+  value: string;
+  type: 'excellent' | 'good' | 'needs-work';
+}
+
+const LIVE_MIN_WORDS = 5; // Too few words make WPM meaningless
+
+/**
+ * Feedback chips while the candidate is still talking (live transcript words)
+ */
+export function getLiveFeedbackChips(
+  words: TranscriptionWord[],
+  language: InterviewLanguage = 'ko'
+): LiveFeedbackChip[] {
+  if (words.length < LIVE_MIN_WORDS) return [];
+
+  const text = words.map(w => w.word).join(' ');
+  const analysis = analyzeVoice(text, words, words[words.length - 1].end, { language });
+  const chips: LiveFeedbackChip[] = [];
+
+  if (analysis.wpm > 200) {
+    chips.push({ label: '속도', value: '너무 빨라요', type: 'needs-work' });
+  } else if (analysis.wpm < 100) {
+    chips.push({ label: '속도', value: '조금 느려요', type: 'good' });
+  } else {
+    chips.push({ label: '속도', value: '적절해요', type: 'excellent' });
+  }
+
+  if (analysis.fillerWordRate > 10) {
+    const top = analysis.fillerWords[0];
+    chips.push({ label: '추임새', value: `"${top.word}" ${top.count}회`, type: 'needs-work' });
+  } else if (analysis.fillerWordCount > 0) {
+    chips.push({ label: '추임새', value: `${analysis.fillerWordCount}회`, type: 'good' });
+  } else {
+    chips.push({ label: '추임새', value: '없음', type: 'excellent' });
+  }
+
+  return chips;
+}
+
 /**
  * Analyze multiple interview answers for trends
  */
@@ -0,0 +1,155 @@
+// ============================================
+// Calibration Gold Set
+// ============================================
+// Reference transcripts scored by human interviewers against CORE_RUBRIC.
+// The calibration runner re-scores them with the current prompts and model
+// and measures how far the evaluator lands from these labels. Keep the set
+// spread across pass / borderline / fail and job types; add a transcript
+// together with its labels, never relabel one to match a model.
+
+import type { CoreEvaluationCategory, ScoreLevel } from '@/lib/llm/prompts/scoring-rubric';
+import type { PassStatus } from '@/lib/scoring/ensemble';
+
+export interface GoldTranscriptTurn {
+  role: 'interviewer' | 'user';
+  content: string;
+}
+
+export interface GoldLabels {
+  scores: Record<CoreEvaluationCategory, ScoreLevel>;
+  pass_status: PassStatus;
+  labeled_by: string;   // Who scored it (interviewer panel, not a person's name)
+  notes?: string;       // Why the borderline calls went the way they did
+}
+
+export interface GoldTranscript {
+  id: string;
+  job_type: string;
+  industry: string;
+  turns: GoldTranscriptTurn[];
+  labels: GoldLabels;
+}
+
+export const GOLD_TRANSCRIPTS: GoldTranscript[] = [
+  {
+    id: 'frontend-strong-01',
+    job_type: 'frontend',
+    industry: 'IT/인터넷',
+    turns: [
+      { role: 'interviewer', content: '가장 기억에 남는 프로젝트를 하나 소개해주시겠어요?' },
+      { role: 'user', content: '결론부터 말씀드리면, 커머스 상품 상세 페이지의 LCP를 4.2초에서 1.6초로 줄인 프로젝트입니다. 이탈률이 높은 원인을 RUM 데이터로 확인했고, 이미지 우선순위 조정과 서버 컴포넌트 전환을 제가 제안하고 주도했습니다.' },
+      { role: 'interviewer', content: '서버 컴포넌트로 전환하면서 어떤 트레이드오프가 있었나요?' },
+      { role: 'user', content: '클라이언트 상태를 쓰던 옵션 선택 UI는 그대로 두고 정적인 영역만 옮겼습니다. 캐시 무효화가 복잡해지는 문제가 있어서 가격 영역은 태그 기반 재검증으로 분리했고, 배포 전 A/B 테스트로 전환율이 떨어지지 않는 것을 확인했습니다.' },
+      { role: 'interviewer', content: '팀원과 의견이 충돌했던 경험이 있다면 말씀해주세요.' },
+      { role: 'user', content: '백엔드 팀은 API를 합치자고 했고 저는 화면 단위 분리를 원했습니다. 양쪽 안으로 응답 시간을 측정한 결과를 공유했고, 결국 제 안을 일부 수정해 공통 필드만 합치는 방향으로 합의했습니다. 이후로는 설계 리뷰에 측정치를 먼저 붙이는 습관이 생겼습니다.' },
+      { role: 'interviewer', content: '저희 회사에 지원하신 이유는 무엇인가요?' },
+      { role: 'user', content: '귀사의 검색 결과 페이지가 모바일에서 느리다는 리뷰를 여러 번 봤습니다. 제가 해온 성능 개선 경험을 가장 직접적으로 쓸 수 있는 곳이라고 생각했고, 디자인 시스템을 공개 운영하는 문화도 배우고 싶습니다.' },
+    ],
+    labels: {
+      scores: { logical_structure: 5, job_expertise: 5, attitude_communication: 4, company_fit: 4, growth_potential: 4 },
+      pass_status: 'pass',
+      labeled_by: '프론트엔드 면접관 패널',
+    },
+  },
+  {
+    id: 'backend-solid-01',
+    job_type: 'backend',
+    industry: '금융',
+    turns: [
+      { role: 'interviewer', content: '담당했던 시스템에서 가장 어려웠던 장애를 말씀해주세요.' },
+      { role: 'user', content: '정산 배치가 월말에 두 배로 늘어난 트래픽 때문에 마감 시간을 넘긴 적이 있습니다. 원인은 단건 조회가 반복되는 N+1 쿼리였고, 묶음 조회로 바꿔서 처리 시간을 70분에서 25분으로 줄였습니다.' },
+      { role: 'interviewer', content: '같은 문제가 다시 생기지 않도록 무엇을 하셨나요?' },
+      { role: 'user', content: '배치별 처리 시간 알람을 추가했고, 쿼리 수를 테스트에서 검증하도록 했습니다. 다만 데이터가 더 늘어날 때의 파티셔닝 계획은 아직 세우지 못했습니다.' },
+      { role: 'interviewer', content: '동료와 의견이 달랐던 경험이 있나요?' },
+      { role: 'user', content: '재처리 방식을 두고 의견이 갈렸는데, 장애 시나리오별로 장단점을 정리해서 팀 회의에서 결정했습니다.' },
+      { role: 'interviewer', content: '입사 후 1년 안에 이루고 싶은 목표는 무엇인가요?' },
+      { role: 'user', content: '결제 도메인을 깊이 이해해서 장애 대응 당번을 혼자 맡을 수 있는 수준이 되고 싶습니다.' },
+    ],
+    labels: {
+      scores: { logical_structure: 4, job_expertise: 4, attitude_communication: 4, company_fit: 3, growth_potential: 4 },
+      pass_status: 'pass',
+      labeled_by: '백엔드 면접관 패널',
+    },
+  },
+  {
+    id: 'pm-average-01',
+    job_type: 'pm',
+    industry: 'IT/인터넷',
+    turns: [
+      { role: 'interviewer', content: '직접 기획한 기능 중 성과가 있었던 것을 소개해주세요.' },
+      { role: 'user', content: '알림 설정 개편을 기획했습니다. 사용자 불만이 많아서 설정 화면을 단순하게 바꿨고, 반응이 좋았습니다.' },
+      { role: 'interviewer', content: '반응이 좋았다는 것은 어떻게 확인하셨나요?' },
+      { role: 'user', content: 'CS 문의가 줄었고 팀 내부에서도 좋다는 피드백이 있었습니다. 정확한 수치는 기억이 잘 나지 않습니다.' },
+      { role: 'interviewer', content: '개발팀과 일정이 충돌했을 때는 어떻게 하셨나요?' },
+      { role: 'user', content: '우선순위를 다시 정리해서 꼭 필요한 기능만 먼저 출시했습니다. 나머지는 다음 스프린트로 미뤘습니다.' },
+      { role: 'interviewer', content: '저희 서비스를 써보셨나요?' },
+      { role: 'user', content: '네, 몇 번 써봤고 전반적으로 편리했습니다.' },
+    ],
+    labels: {
+      scores: { logical_structure: 3, job_expertise: 4, attitude_communication: 3, company_fit: 3, growth_potential: 3 },
+      pass_status: 'borderline',
+      labeled_by: 'PM 면접관 패널',
+      notes: '우선순위 판단은 직무 수준이지만 성과 근거가 없고 지원 동기가 일반적',
+    },
+  },
+  {
+    id: 'data-average-01',
+    job_type: 'data',
+    industry: '유통',
+    turns: [
+      { role: 'interviewer', content: '분석 결과로 의사결정에 영향을 준 경험이 있나요?' },
+      { role: 'user', content: '먼저 배경을 말씀드리면, 쿠폰 발행 효과를 분석하는 과제였습니다. 쿠폰을 받은 고객의 재구매율이 높았지만, 원래 충성 고객에게 쿠폰이 몰려 있어서 효과가 과대평가된 상태였습니다. 그래서 비교군을 다시 잡자고 제안했습니다.' },
+      { role: 'interviewer', content: '비교군은 어떻게 잡으셨나요?' },
+      { role: 'user', content: '구매 이력이 비슷한 고객끼리 묶어서 비교했습니다. 통계 기법은 팀 선배가 정해주신 방법을 따랐습니다.' },
+      { role: 'interviewer', content: '저희 회사에 지원한 이유는요?' },
+      { role: 'user', content: '오프라인 매장 데이터와 온라인 데이터를 함께 다룰 수 있는 곳이 많지 않아서 지원했습니다. 매장별 재고 데이터를 분석해보고 싶습니다.' },
+      { role: 'interviewer', content: '최근에 새로 공부한 것이 있나요?' },
+      { role: 'user', content: '특별히 따로 공부한 것은 없고 업무에서 필요한 것을 그때그때 찾아봤습니다.' },
+    ],
+    labels: {
+      scores: { logical_structure: 4, job_expertise: 3, attitude_communication: 3, company_fit: 4, growth_potential: 3 },
+      pass_status: 'borderline',
+      labeled_by: '데이터 면접관 패널',
+      notes: '문제 제기는 좋았으나 방법론을 스스로 설명하지 못함',
+    },
+  },
+  {
+    id: 'marketing-weak-01',
+    job_type: 'marketing',
+    industry: '소비재',
+    turns: [
+      { role: 'interviewer', content: '진행했던 캠페인 중 하나를 소개해주세요.' },
+      { role: 'user', content: '인스타그램 캠페인을 했는데요, 음 그때 반응이 좋았던 것 같습니다. 제가 콘텐츠도 만들고 여러 가지를 했습니다.' },
+      { role: 'interviewer', content: '캠페인 목표와 결과를 구체적으로 말씀해주시겠어요?' },
+      { role: 'user', content: '목표는 인지도를 높이는 것이었고, 결과는 팔로워가 좀 늘었습니다. 숫자는 잘 모르겠습니다.' },
+      { role: 'interviewer', content: '캠페인이 실패했던 경험이 있나요?' },
+      { role: 'user', content: '딱히 실패한 적은 없는 것 같습니다.' },
+      { role: 'interviewer', content: '저희 브랜드에 대해 어떻게 생각하시나요?' },
+      { role: 'user', content: '유명한 브랜드라서 지원했습니다.' },
+    ],
+    labels: {
+      scores: { logical_structure: 2, job_expertise: 2, attitude_communication: 3, company_fit: 2, growth_potential: 2 },
+      pass_status: 'fail',
+      labeled_by: '마케팅 면접관 패널',
+    },
+  },
+  {
+    id: 'frontend-weak-01',
+    job_type: 'frontend',
+    industry: 'IT/인터넷',
+    turns: [
+      { role: 'interviewer', content: 'React에서 불필요한 렌더링을 줄이는 방법을 설명해주세요.' },
+      { role: 'user', content: 'useMemo를 쓰면 됩니다. 그리고 useCallback도 쓰고요. 모든 컴포넌트에 memo를 씌우면 빨라집니다.' },
+      { role: 'interviewer', content: '모든 컴포넌트에 memo를 적용하면 생기는 문제는 없을까요?' },
+      { role: 'user', content: '글쎄요, 문제는 없을 것 같습니다. 빨라지기만 할 것 같아요.' },
+      { role: 'interviewer', content: '팀 프로젝트에서 맡았던 역할은요?' },
+      { role: 'user', content: '화면 몇 개를 맡았습니다. 어려운 부분은 팀장님이 해주셨고 저는 주로 퍼블리싱을 했습니다. 앞으로 더 배우고 싶습니다.' },
+    ],
+    labels: {
+      scores: { logical_structure: 2, job_expertise: 2, attitude_communication: 3, company_fit: 2, growth_potential: 3 },
+      pass_status: 'fail',
+      labeled_by: '프론트엔드 면접관 패널',
+      notes: '배우려는 태도는 보였으나 직무 지식에 오해가 있음',
+    },
+  },
+];
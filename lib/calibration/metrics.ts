@@ -0,0 +1,119 @@
+// ============================================
+// Calibration Metrics
+// ============================================
+// Agreement between the evaluator and the human gold labels:
+// - MAE per category (1-5 levels) and on the 0-100 total
+// - Cohen's kappa per category, plain and quadratic-weighted (levels are ordinal,
+//   so a 4 scored as 3 should cost less than a 4 scored as 1)
+// - pass / borderline / fail confusion matrix (gold rows, predicted columns)
+
+import type { CoreEvaluationCategory, ScoreLevel } from '@/lib/llm/prompts/scoring-rubric';
+import { CORE_CATEGORIES } from '@/lib/scoring/answers';
+import type { PassStatus } from '@/lib/scoring/ensemble';
+
+const SCORE_LEVELS: ScoreLevel[] = [1, 2, 3, 4, 5];
+export const PASS_STATUSES: PassStatus[] = ['pass', 'borderline', 'fail'];
+
+export interface ScoredOutcome {
+  scores: Record<CoreEvaluationCategory, ScoreLevel>;
+  total: number;
+  pass_status: PassStatus;
+}
+
+export interface CategoryCalibration {
+  mae: number;
+  exact: number;          // Share of transcripts scored at the gold level
+  kappa: number;
+  weighted_kappa: number;
+}
+
+export type PassConfusionMatrix = Record<PassStatus, Record<PassStatus, number>>;
+
+export interface CalibrationMetrics {
+  transcripts: number;
+  categories: Record<CoreEvaluationCategory, CategoryCalibration>;
+  mae: number;            // Mean of the category MAEs
+  total_mae: number;      // On the 0-100 total
+  pass_confusion: PassConfusionMatrix;
+  pass_accuracy: number;
+  pass_kappa: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Cohen's kappa between two raters over the given labels
+ * `weight` (0 = same label, 1 = furthest apart) turns it into weighted kappa.
+ * Raters that never vary and always agree count as full agreement.
+ */
+export function cohensKappa<T>(
+  gold: T[],
+  predicted: T[],
+  labels: T[],
+  weight: (a: number, b: number) => number = (a, b) => (a === b ? 0 : 1)
+): number {
+  const n = gold.length;
+  if (n === 0) return 0;
+
+  const goldShare = labels.map(label => gold.filter(value => value === label).length / n);
+  const predictedShare = labels.map(label => predicted.filter(value => value === label).length / n);
+
+  let observed = 0;
+  for (let index = 0; index < n; index++) {
+    observed += weight(labels.indexOf(gold[index]), labels.indexOf(predicted[index])) / n;
+  }
+
+  let expected = 0;
+  labels.forEach((_, i) => labels.forEach((__, j) => {
+    expected += weight(i, j) * goldShare[i] * predictedShare[j];
+  }));
+
+  if (expected === 0) return observed === 0 ? 1 : 0;
+  return round2(1 - observed / expected);
+}
+
+const quadraticWeight = (a: number, b: number) => ((a - b) / (SCORE_LEVELS.length - 1)) ** 2;
+
+export function buildPassConfusion(pairs: Array<{ gold: PassStatus; predicted: PassStatus }>): PassConfusionMatrix {
+  const matrix = Object.fromEntries(PASS_STATUSES.map(gold => [
+    gold,
+    Object.fromEntries(PASS_STATUSES.map(predicted => [predicted, 0])),
+  ])) as PassConfusionMatrix;
+
+  for (const { gold, predicted } of pairs) {
+    matrix[gold][predicted]++;
+  }
+  return matrix;
+}
+
+export function calculateCalibrationMetrics(
+  results: Array<{ gold: ScoredOutcome; predicted: ScoredOutcome }>
+): CalibrationMetrics {
+  const categories = Object.fromEntries(CORE_CATEGORIES.map(category => {
+    const gold = results.map(result => result.gold.scores[category]);
+    const predicted = results.map(result => result.predicted.scores[category]);
+    return [category, {
+      mae: round2(mean(gold.map((level, index) => Math.abs(level - predicted[index])))),
+      exact: round2(mean(gold.map((level, index) => (level === predicted[index] ? 1 : 0)))),
+      kappa: cohensKappa(gold, predicted, SCORE_LEVELS),
+      weighted_kappa: cohensKappa(gold, predicted, SCORE_LEVELS, quadraticWeight),
+    }];
+  })) as Record<CoreEvaluationCategory, CategoryCalibration>;
+
+  const passPairs = results.map(result => ({ gold: result.gold.pass_status, predicted: result.predicted.pass_status }));
+
+  return {
+    transcripts: results.length,
+    categories,
+    mae: round2(mean(CORE_CATEGORIES.map(category => categories[category].mae))),
+    total_mae: round2(mean(results.map(result => Math.abs(result.gold.total - result.predicted.total)))),
+    pass_confusion: buildPassConfusion(passPairs),
+    pass_accuracy: round2(mean(passPairs.map(pair => (pair.gold === pair.predicted ? 1 : 0)))),
+    pass_kappa: cohensKappa(
+      passPairs.map(pair => pair.gold),
+      passPairs.map(pair => pair.predicted),
+      PASS_STATUSES
+    ),
+  };
+}
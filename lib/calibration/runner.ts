@@ -0,0 +1,190 @@
+// ============================================
+// Calibration Runner
+// ============================================
+// Re-scores the gold transcripts with the final evaluation /api/interview/end
+// runs (lib/scoring/final-evaluation, as a standard interview) and reports
+// agreement with the human labels. The prompt
+// version is a fingerprint of that prompt and schema, so reports from different
+// prompt versions or models can be compared.
+// With AI_PROVIDER=fake it runs offline against the canned final evaluation.
+
+import { createHash } from 'crypto';
+import type { LLMProviderName } from '@/lib/llm/providers';
+import {
+  calculateTotalScore,
+  determinePassStatus,
+  getModeEvaluationCategories,
+  type CoreEvaluationCategory,
+  type ScoreLevel,
+} from '@/lib/llm/prompts/scoring-rubric';
+import { CORE_CATEGORIES } from '@/lib/scoring/answers';
+import { buildEvaluationSchema, buildEvaluationSystemPrompt, buildEvaluationPrompt } from '@/lib/scoring/evaluation';
+import { runFinalEvaluation } from '@/lib/scoring/final-evaluation';
+import type { InterviewLanguage } from '@/types/interview';
+import { GOLD_TRANSCRIPTS, type GoldTranscript } from './gold';
+import { calculateCalibrationMetrics, type CalibrationMetrics, type ScoredOutcome } from './metrics';
+
+// Transcripts scored at once; a real model run shouldn't trip rate limits
+const CALIBRATION_CONCURRENCY = 3;
+
+// Gold transcripts are standard interviews in Korean
+const CALIBRATION_LANGUAGE: InterviewLanguage = 'ko';
+const CALIBRATION_DIFFICULTY = 'medium';
+const CALIBRATION_MODES = getModeEvaluationCategories('standard', CALIBRATION_LANGUAGE);
+
+export interface CalibrationRunOptions {
+  transcripts?: GoldTranscript[];
+  provider?: LLMProviderName;
+  model?: string;
+}
+
+export interface CalibrationTranscriptResult {
+  id: string;
+  job_type: string;
+  gold: ScoredOutcome;
+  predicted: ScoredOutcome | null; // null when the evaluator call failed
+  error?: string;
+}
+
+export interface CalibrationReport {
+  prompt_version: string;
+  provider: string;
+  model: string;
+  run_at: string;
+  results: CalibrationTranscriptResult[];
+  failed: string[];
+  metrics: CalibrationMetrics;
+}
+
+export interface CalibrationComparison {
+  same_prompt: boolean;
+  mae: number;              // current - baseline (lower is better)
+  total_mae: number;
+  pass_accuracy: number;    // current - baseline (higher is better)
+  categories: Record<CoreEvaluationCategory, { mae: number; weighted_kappa: number }>;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Fingerprint of everything in the final evaluation prompt that affects the scores
+ */
+export function getCalibrationPromptVersion(): string {
+  return createHash('sha256')
+    .update(buildEvaluationSystemPrompt(CALIBRATION_LANGUAGE))
+    .update(buildEvaluationPrompt({
+      jobType: '',
+      difficulty: CALIBRATION_DIFFICULTY,
+      language: CALIBRATION_LANGUAGE,
+      modes: CALIBRATION_MODES,
+      transcript: '',
+    }))
+    .update(JSON.stringify(buildEvaluationSchema(CALIBRATION_MODES)))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+function toOutcome(scores: Record<CoreEvaluationCategory, ScoreLevel>): ScoredOutcome {
+  const total = calculateTotalScore(scores);
+  return { scores, total, pass_status: determinePassStatus(total) };
+}
+
+async function scoreTranscript(
+  transcript: GoldTranscript,
+  options: CalibrationRunOptions
+): Promise<{ outcome: ScoredOutcome; provider: string; model: string }> {
+  // Scored as a finished standard interview by the end route's final evaluation:
+  // one sample, no per-answer scores, so the core categories are the evaluator's own
+  const { evaluation, servedBy } = await runFinalEvaluation({
+    session: {
+      job_type: transcript.job_type,
+      difficulty: CALIBRATION_DIFFICULTY,
+      interview_mode: 'standard',
+      timer_config: { language: CALIBRATION_LANGUAGE },
+    },
+    messages: transcript.turns,
+    answerScorecards: [],
+    operation: 'calibration',
+    provider: options.provider,
+    model: options.model,
+    ensemble: { size: 1, members: [] },
+  });
+  if (!servedBy) throw new Error('Invalid evaluation output');
+
+  const scores = Object.fromEntries(CORE_CATEGORIES.map(category => {
+    const score = evaluation.category_scores[category]?.score;
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      throw new Error(`Evaluation is missing the ${category} score`);
+    }
+    return [category, Math.min(5, Math.max(1, Math.round(score))) as ScoreLevel];
+  })) as Record<CoreEvaluationCategory, ScoreLevel>;
+
+  return { outcome: toOutcome(scores), provider: servedBy.provider, model: servedBy.model };
+}
+
+/**
+ * Score every gold transcript and measure agreement with the human labels
+ * Transcripts the evaluator fails on are listed in `failed` and left out of the metrics
+ */
+export async function runCalibration(options: CalibrationRunOptions = {}): Promise<CalibrationReport> {
+  const transcripts = options.transcripts ?? GOLD_TRANSCRIPTS;
+  const results: CalibrationTranscriptResult[] = [];
+  let servedBy = { provider: options.provider ?? '', model: options.model ?? '' };
+
+  for (let start = 0; start < transcripts.length; start += CALIBRATION_CONCURRENCY) {
+    const batch = transcripts.slice(start, start + CALIBRATION_CONCURRENCY);
+    const settled = await Promise.allSettled(batch.map(transcript => scoreTranscript(transcript, options)));
+
+    settled.forEach((outcome, index) => {
+      const transcript = batch[index];
+      const gold = { ...toOutcome(transcript.labels.scores), pass_status: transcript.labels.pass_status };
+
+      if (outcome.status === 'fulfilled') {
+        servedBy = { provider: outcome.value.provider, model: outcome.value.model };
+        results.push({ id: transcript.id, job_type: transcript.job_type, gold, predicted: outcome.value.outcome });
+      } else {
+        console.warn('[Calibration] Failed to score', transcript.id, outcome.reason);
+        results.push({
+          id: transcript.id,
+          job_type: transcript.job_type,
+          gold,
+          predicted: null,
+          error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+        });
+      }
+    });
+  }
+
+  const scored = results.flatMap(result => result.predicted ? [{ gold: result.gold, predicted: result.predicted }] : []);
+  if (scored.length === 0) {
+    throw new Error('Calibration failed: no transcript could be scored');
+  }
+
+  return {
+    prompt_version: getCalibrationPromptVersion(),
+    provider: servedBy.provider,
+    model: servedBy.model,
+    run_at: new Date().toISOString(),
+    results,
+    failed: results.filter(result => !result.predicted).map(result => result.id),
+    metrics: calculateCalibrationMetrics(scored),
+  };
+}
+
+/**
+ * How the current run moved against a baseline run
+ */
+export function compareCalibrationReports(baseline: CalibrationReport, current: CalibrationReport): CalibrationComparison {
+  return {
+    same_prompt: baseline.prompt_version === current.prompt_version,
+    mae: round2(current.metrics.mae - baseline.metrics.mae),
+    total_mae: round2(current.metrics.total_mae - baseline.metrics.total_mae),
+    pass_accuracy: round2(current.metrics.pass_accuracy - baseline.metrics.pass_accuracy),
+    categories: Object.fromEntries(CORE_CATEGORIES.map(category => [category, {
+      mae: round2(current.metrics.categories[category].mae - baseline.metrics.categories[category].mae),
+      weighted_kappa: round2(
+        current.metrics.categories[category].weighted_kappa - baseline.metrics.categories[category].weighted_kappa
+      ),
+    }])) as CalibrationComparison['categories'],
+  };
+}
@@ -0,0 +1,260 @@
+// ============================================
+// Case Interview Bank
+// ============================================
+// Business scenarios for the case round. Initial exhibits are shown with the
+// prompt; on-request exhibits are handed out only when the candidate asks for
+// that data (see tracker.ts). expected_insights stay on the server and are
+// used by the interviewer and the evaluator only.
+
+import type { CaseExhibit } from '@/types/interview';
+
+export interface CaseProblemExhibit extends CaseExhibit {
+  reveal: 'initial' | 'on_request';
+  request_keywords: string[];   // Fallback matching when the tracker is unavailable
+}
+
+export interface CaseProblem {
+  id: string;
+  title: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  scenario: string;
+  question: string;
+  exhibits: CaseProblemExhibit[];
+  expected_insights: string[];
+}
+
+// What the client may see: revealed exhibits only, no insights
+export interface PublicCaseProblem {
+  id: string;
+  title: string;
+  difficulty: CaseProblem['difficulty'];
+  scenario: string;
+  question: string;
+  exhibits: CaseExhibit[];
+}
+
+export const CASE_PROBLEMS: CaseProblem[] = [
+  {
+    id: 'commerce_conversion_drop',
+    title: '커머스 앱 구매 전환율 하락',
+    difficulty: 'easy',
+    scenario: '패션 커머스 앱의 최근 3개월 구매 전환율이 3.2%에서 2.4%로 떨어졌습니다. 같은 기간 방문자 수는 비슷합니다.',
+    question: '전환율 하락의 원인을 어떻게 찾고, 무엇부터 개선하시겠습니까?',
+    exhibits: [
+      {
+        id: 'monthly_funnel',
+        title: '월별 구매 전환율',
+        kind: 'bar',
+        columns: ['월', '전환율'],
+        rows: [['1월', 3.2], ['2월', 2.9], ['3월', 2.6], ['4월', 2.4]],
+        unit: '%',
+        reveal: 'initial',
+        request_keywords: [],
+      },
+      {
+        id: 'funnel_steps',
+        title: '단계별 전환율 (1월 → 4월)',
+        kind: 'table',
+        columns: ['단계', '1월', '4월'],
+        rows: [['상품 조회 → 장바구니', '18%', '17%'], ['장바구니 → 결제 시작', '35%', '34%'], ['결제 시작 → 결제 완료', '51%', '41%']],
+        reveal: 'on_request',
+        request_keywords: ['퍼널', '단계', '장바구니', '결제 단계', '이탈'],
+      },
+      {
+        id: 'payment_methods',
+        title: '결제 수단별 결제 완료율 (4월)',
+        kind: 'table',
+        columns: ['결제 수단', '비중', '완료율'],
+        rows: [['신용카드', '48%', '55%'], ['간편결제 A', '37%', '22%'], ['계좌이체', '15%', '47%']],
+        note: '간편결제 A는 2월에 SDK가 업데이트됨',
+        reveal: 'on_request',
+        request_keywords: ['결제 수단', '결제수단', '간편결제', '카드', 'PG'],
+      },
+    ],
+    expected_insights: [
+      '하락은 결제 시작 → 완료 단계에 집중됨 (51% → 41%)',
+      '간편결제 A의 완료율이 비정상적으로 낮음 → 2월 SDK 업데이트가 원인 후보',
+      '우선순위: 간편결제 A 결제 실패 원인 확인/롤백, 이후 대체 결제 수단 안내',
+    ],
+  },
+  {
+    id: 'subscription_revenue_decline',
+    title: '구독형 음악 앱 매출 감소',
+    difficulty: 'medium',
+    scenario: '구독형 음악 스트리밍 서비스의 월 매출이 6개월 동안 12% 감소했습니다. 경영진은 가격 인하를 검토하고 있습니다.',
+    question: '매출 감소의 원인을 진단하고, 가격 인하가 맞는 대응인지 판단해 주세요.',
+    exhibits: [
+      {
+        id: 'monthly_revenue',
+        title: '월 매출 추이',
+        kind: 'bar',
+        columns: ['월', '매출'],
+        rows: [['7월', 50], ['8월', 49], ['9월', 48], ['10월', 46], ['11월', 45], ['12월', 44]],
+        unit: '억 원',
+        reveal: 'initial',
+        request_keywords: [],
+      },
+      {
+        id: 'subscriber_flow',
+        title: '구독자 유입/이탈 (월평균)',
+        kind: 'table',
+        columns: ['구분', '7-9월', '10-12월'],
+        rows: [['신규 구독', '42,000', '41,000'], ['해지', '30,000', '44,000'], ['기말 구독자', '520만', '511만']],
+        reveal: 'on_request',
+        request_keywords: ['구독자', '이탈', '해지', '유입', '신규', '리텐션', 'churn'],
+      },
+      {
+        id: 'churn_reasons',
+        title: '해지 사유 설문 (10-12월)',
+        kind: 'bar',
+        columns: ['사유', '응답 비율'],
+        rows: [['듣고 싶은 곡이 없음', 41], ['가격 부담', 18], ['경쟁 서비스 번들', 27], ['기타', 14]],
+        unit: '%',
+        note: '9월에 대형 기획사 음원 계약 종료, 경쟁사는 통신사 요금제 번들 출시',
+        reveal: 'on_request',
+        request_keywords: ['해지 사유', '이유', '설문', '원인', '경쟁'],
+      },
+      {
+        id: 'arpu',
+        title: '요금제별 구독자 비중과 ARPU',
+        kind: 'table',
+        columns: ['요금제', '비중', '월 요금'],
+        rows: [['개인', '62%', '10,900원'], ['가족', '23%', '16,900원(4인)'], ['학생', '15%', '6,900원']],
+        reveal: 'on_request',
+        request_keywords: ['ARPU', '요금제', '가격', '객단가', '단가'],
+      },
+    ],
+    expected_insights: [
+      '매출 = 구독자 수 × ARPU 로 분해, 신규 유입은 유지되고 해지가 급증',
+      '해지 사유는 가격보다 콘텐츠 공백(음원 계약 종료)과 경쟁사 번들이 큼',
+      '가격 인하는 전체 ARPU를 낮추고 핵심 원인을 해결하지 못함 → 음원 재계약/대체 콘텐츠, 번들 제휴 검토',
+    ],
+  },
+  {
+    id: 'cafe_chain_profitability',
+    title: '카페 체인 수익성 악화',
+    difficulty: 'medium',
+    scenario: '직영점 120개를 운영하는 카페 체인의 매출은 전년 대비 5% 늘었지만 영업이익률은 11%에서 6%로 떨어졌습니다.',
+    question: '이익률이 떨어진 원인을 찾고, 내년 이익률을 회복할 방안을 제시해 주세요.',
+    exhibits: [
+      {
+        id: 'pnl_summary',
+        title: '손익 요약 (매출 대비 비율)',
+        kind: 'table',
+        columns: ['항목', '작년', '올해'],
+        rows: [['원재료', '31%', '33%'], ['인건비', '28%', '30%'], ['임대료', '17%', '19%'], ['기타', '13%', '12%'], ['영업이익', '11%', '6%']],
+        reveal: 'initial',
+        request_keywords: [],
+      },
+      {
+        id: 'store_segments',
+        title: '점포 유형별 이익률',
+        kind: 'table',
+        columns: ['유형', '점포 수', '이익률'],
+        rows: [['오피스 상권', 48, '12%'], ['주거 상권', 40, '7%'], ['올해 신규 출점(대형 매장)', 32, '-4%']],
+        reveal: 'on_request',
+        request_keywords: ['점포', '매장', '상권', '지점', '신규 출점'],
+      },
+      {
+        id: 'new_store_ramp',
+        title: '신규 대형 매장 월 매출 (평당)',
+        kind: 'bar',
+        columns: ['개점 후', '평당 매출'],
+        rows: [['1-3개월', 38], ['4-6개월', 52], ['7-9개월', 61], ['기존 매장 평균', 90]],
+        unit: '만 원',
+        reveal: 'on_request',
+        request_keywords: ['신규 매장', '대형', '평당', '램프업', '회수'],
+      },
+    ],
+    expected_insights: [
+      '비용 항목별로 분해하면 원재료/인건비/임대료가 모두 상승 — 원인은 점포 믹스',
+      '올해 신규 출점한 대형 매장 32곳이 적자(-4%)로 전체 이익률을 끌어내림',
+      '신규 매장 평당 매출이 기존 대비 낮고 램프업 중 → 추가 출점 속도 조절, 회수 기간/폐점 기준 수립',
+    ],
+  },
+  {
+    id: 'delivery_city_expansion',
+    title: '배달 플랫폼 신규 도시 진출',
+    difficulty: 'hard',
+    scenario: '수도권 점유율 1위 배달 플랫폼이 인구 50만의 지방 도시 A 진출을 검토합니다. 해당 도시에는 지역 배달앱 하나가 점유율 70%를 차지하고 있습니다.',
+    question: '도시 A에 진출해야 할까요? 진출한다면 어떤 방식이어야 할까요?',
+    exhibits: [
+      {
+        id: 'market_overview',
+        title: '도시 A 배달 시장 개요',
+        kind: 'table',
+        columns: ['지표', '값'],
+        rows: [['월 배달 주문', '120만 건'], ['평균 주문 금액', '22,000원'], ['지역 앱 점유율', '70%'], ['지역 앱 수수료', '5%']],
+        reveal: 'initial',
+        request_keywords: [],
+      },
+      {
+        id: 'unit_economics',
+        title: '수도권 주문 1건당 손익',
+        kind: 'table',
+        columns: ['항목', '금액'],
+        rows: [['중개 수수료(9.8%)', '2,150원'], ['배달 비용 부담', '-1,200원'], ['마케팅/쿠폰', '-600원'], ['운영비', '-250원'], ['건당 이익', '100원']],
+        reveal: 'on_request',
+        request_keywords: ['단위 경제', '건당', '수익 구조', '유닛', '손익', '수수료'],
+      },
+      {
+        id: 'merchant_survey',
+        title: '도시 A 음식점 설문',
+        kind: 'bar',
+        columns: ['응답', '비율'],
+        rows: [['수수료 8% 이하면 입점', 64], ['배달 인력 부족이 가장 큰 문제', 58], ['지역 앱에 만족', 31]],
+        unit: '%',
+        reveal: 'on_request',
+        request_keywords: ['음식점', '가맹점', '점주', '사장님', '설문', '입점'],
+      },
+      {
+        id: 'rider_supply',
+        title: '도시 A 배달 인력',
+        kind: 'table',
+        columns: ['지표', '값'],
+        rows: [['활동 라이더', '약 1,400명'], ['피크 시간 평균 배달 시간', '47분'], ['수도권 평균', '28분']],
+        reveal: 'on_request',
+        request_keywords: ['라이더', '배달 인력', '배달 시간', '물류', '공급'],
+      },
+    ],
+    expected_insights: [
+      '시장 규모: 120만 건 × 22,000원 ≈ 월 264억 원 거래액',
+      '수도권 수수료(9.8%)로는 지역 앱(5%) 대비 경쟁력 없음, 8% 이하로 낮추면 건당 이익이 음수',
+      '음식점의 가장 큰 불만은 배달 인력 부족 → 수수료 경쟁보다 배달 품질(라이더 확보)로 차별화하거나 지역 앱 인수/제휴 검토',
+    ],
+  },
+];
+
+export function getCaseProblem(id: string): CaseProblem | undefined {
+  return CASE_PROBLEMS.find(problem => problem.id === id);
+}
+
+/**
+ * Random case for the session difficulty (falls back to any case)
+ */
+export function pickCaseProblem(difficulty: 'easy' | 'medium' | 'hard'): CaseProblem {
+  const candidates = CASE_PROBLEMS.filter(problem => problem.difficulty === difficulty);
+  const pool = candidates.length > 0 ? candidates : CASE_PROBLEMS;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+/**
+ * Exhibit as the client sees it (no reveal rules)
+ */
+export function toPublicExhibit(exhibit: CaseProblemExhibit): CaseExhibit {
+  const { reveal: _reveal, request_keywords: _keywords, ...rest } = exhibit;
+  return rest;
+}
+
+export function toPublicCase(problem: CaseProblem, revealedIds: string[] = []): PublicCaseProblem {
+  return {
+    id: problem.id,
+    title: problem.title,
+    difficulty: problem.difficulty,
+    scenario: problem.scenario,
+    question: problem.question,
+    exhibits: problem.exhibits
+      .filter(exhibit => exhibit.reveal === 'initial' || revealedIds.includes(exhibit.id))
+      .map(toPublicExhibit),
+  };
+}
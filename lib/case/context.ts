@@ -0,0 +1,77 @@
+// ============================================
+// Case Interview Context
+// ============================================
+// System prompt section for the case round: the scenario, the data the
+// candidate has seen, their framework so far and what is still withheld,
+// so the interviewer hands out numbers only when they are asked for.
+
+import type { CaseExhibit, CaseFrameworkBranch, CaseState } from '@/types/interview';
+import type { CaseProblem } from './cases';
+
+const BRANCH_STATUS_LABELS: Record<CaseFrameworkBranch['status'], string> = {
+  proposed: '제시',
+  explored: '분석 중',
+  concluded: '결론',
+};
+
+/**
+ * Exhibit as text for the LLM (header row, then one line per row)
+ */
+export function serializeExhibit(exhibit: CaseExhibit): string {
+  const unit = exhibit.unit ? ` (단위: ${exhibit.unit})` : '';
+  const rows = exhibit.rows.map(row => `| ${row.join(' | ')} |`);
+  return `[${exhibit.title}]${unit}
+| ${exhibit.columns.join(' | ')} |
+${rows.join('\n')}${exhibit.note ? `\n참고: ${exhibit.note}` : ''}`;
+}
+
+export function formatCaseContext(
+  problem: CaseProblem,
+  state: CaseState,
+  newlyRevealed: CaseExhibit[] = []
+): string {
+  const newIds = new Set(newlyRevealed.map(exhibit => exhibit.id));
+  const shown = problem.exhibits.filter(exhibit =>
+    (exhibit.reveal === 'initial' || state.revealed_exhibit_ids.includes(exhibit.id)) && !newIds.has(exhibit.id)
+  );
+  const hidden = problem.exhibits.filter(exhibit =>
+    exhibit.reveal === 'on_request' && !state.revealed_exhibit_ids.includes(exhibit.id)
+  );
+
+  const sections: string[] = [
+    `## [케이스 면접] ${problem.title} (${problem.difficulty})
+${problem.scenario}
+질문: ${problem.question}`,
+    `## 지원자가 이미 본 자료
+${shown.map(serializeExhibit).join('\n\n')}`,
+  ];
+
+  if (newlyRevealed.length > 0) {
+    sections.push(`## 이번 답변에서 요청되어 새로 공개된 자료 (화면에 표시됨, 이번 응답에서 간단히 소개하세요)
+${newlyRevealed.map(serializeExhibit).join('\n\n')}`);
+  }
+
+  sections.push(`## 지원자의 프레임워크
+${state.framework.length > 0
+  ? state.framework.map(branch =>
+    `- ${branch.name} [${BRANCH_STATUS_LABELS[branch.status]}]${branch.findings ? `: ${branch.findings}` : ''}`
+  ).join('\n')
+  : '아직 제시된 프레임워크가 없습니다.'}`);
+
+  sections.push(`## 비공개 자료 (지원자가 요청하기 전에는 수치를 말하지 마세요)
+${hidden.length > 0 ? hidden.map(exhibit => `- ${exhibit.title}`).join('\n') : '- (모두 공개됨)'}
+
+## 핵심 인사이트 (면접관 참고용, 지원자에게 말하지 마세요)
+${problem.expected_insights.map(insight => `- ${insight}`).join('\n')}`);
+
+  sections.push(`## 케이스 면접 진행 지침
+${state.framework.length === 0
+  ? '- 아직 구조가 없으니 문제를 어떻게 나눠서 볼지(프레임워크)부터 설명하게 하세요.'
+  : '- 프레임워크의 분석 중인 축을 이름으로 짚고, 어떤 데이터가 있으면 검증할 수 있는지 묻게 하세요.'}
+- 지원자가 데이터를 요청하지 않으면 먼저 제공하지 말고, 필요한 자료를 스스로 말하게 유도하세요.
+- 수치가 공개되면 계산을 직접 해보게 하고, 계산 과정과 단위를 확인하세요.
+- 분석이 충분하면 "경영진에게 한 문장으로 보고한다면?"처럼 결론과 권고안을 종합하게 하세요.
+- 정답 인사이트를 먼저 말하지 마세요.`);
+
+  return sections.join('\n\n');
+}
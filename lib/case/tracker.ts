@@ -0,0 +1,192 @@
+// ============================================
+// Case Progress Tracker
+// ============================================
+// After each answer, a fast-tier call updates the candidate's framework
+// (branches + status) and decides which on-request exhibits were asked for.
+// If that call fails, keyword matching decides the exhibits and the previous
+// framework is kept, so the case never stalls on the tracker.
+
+import { llmRouter } from '@/lib/llm/router';
+import type { CaseFrameworkBranch, CaseState } from '@/types/interview';
+import type { SupabaseServerClient } from '@/lib/interview/turn';
+import type { CaseProblem, CaseProblemExhibit } from './cases';
+
+const MAX_FRAMEWORK_BRANCHES = 8;
+const RECENT_MESSAGES_FOR_TRACKING = 6;
+
+const CASE_PROGRESS_SCHEMA = {
+  type: 'object',
+  properties: {
+    framework: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: '지원자가 세운 분석 축 (지원자 표현 그대로)' },
+          status: {
+            type: 'string',
+            enum: ['proposed', 'explored', 'concluded'],
+            description: '제시만 함 / 데이터로 분석 중 / 결론 냄',
+          },
+          findings: { type: 'string', description: '이 축에서 지원자가 낸 결론 (없으면 빈 문자열)' },
+        },
+        required: ['name', 'status', 'findings'],
+        additionalProperties: false,
+      },
+    },
+    requested_exhibit_ids: {
+      type: 'array',
+      items: { type: 'string' },
+      description: '이번 답변에서 지원자가 요청한 자료의 id',
+    },
+  },
+  required: ['framework', 'requested_exhibit_ids'],
+  additionalProperties: false,
+};
+
+export function emptyCaseState(problem: CaseProblem): CaseState {
+  return { case_id: problem.id, framework: [], revealed_exhibit_ids: [] };
+}
+
+/**
+ * On-request exhibits whose keywords appear in the answer (tracker fallback)
+ */
+export function matchRequestedExhibits(problem: CaseProblem, answer: string, alreadyRevealed: string[] = []): string[] {
+  const normalized = answer.toLowerCase();
+  return problem.exhibits
+    .filter(exhibit => exhibit.reveal === 'on_request' && !alreadyRevealed.includes(exhibit.id))
+    .filter(exhibit => exhibit.request_keywords.some(keyword => normalized.includes(keyword.toLowerCase())))
+    .map(exhibit => exhibit.id);
+}
+
+/**
+ * Update the framework and revealed exhibits with this answer
+ */
+export async function trackCaseProgress(
+  problem: CaseProblem,
+  previous: CaseState,
+  recentMessages: Array<{ role: string; content: string }>,
+  answer: string
+): Promise<CaseState> {
+  const hidden = problem.exhibits.filter(
+    exhibit => exhibit.reveal === 'on_request' && !previous.revealed_exhibit_ids.includes(exhibit.id)
+  );
+
+  const systemPrompt = `당신은 케이스 면접의 진행 기록자입니다.
+지원자의 답변을 보고 (1) 지원자가 세운 분석 프레임워크의 상태와 (2) 지원자가 요청한 자료를 기록합니다.
+
+## 프레임워크 기록 기준
+- 지원자가 직접 제시한 분석 축만 기록하세요. 면접관의 제안이나 당신의 의견은 넣지 마세요.
+- 기존 축은 이름을 유지하고 상태만 갱신하세요. 지원자가 철회한 축은 제외하세요.
+- proposed: 제시만 함, explored: 데이터나 가설로 파고드는 중, concluded: 이 축에서 결론을 냄
+- 최대 ${MAX_FRAMEWORK_BRANCHES}개
+
+## 자료 요청 기준
+- 지원자가 해당 데이터를 보고 싶다고 요청하거나 그 데이터가 필요하다고 말한 경우에만 id를 넣으세요.
+- 아래 목록에 없는 id는 넣지 마세요.
+
+JSON 형식으로 응답하세요.`;
+
+  const userPrompt = `케이스: ${problem.title}
+${problem.scenario}
+질문: ${problem.question}
+
+요청 가능한 자료:
+${hidden.length > 0 ? hidden.map(exhibit => `- ${exhibit.id}: ${exhibit.title}`).join('\n') : '- (없음)'}
+
+현재 기록된 프레임워크:
+${previous.framework.length > 0
+  ? previous.framework.map(branch => `- ${branch.name} (${branch.status})${branch.findings ? `: ${branch.findings}` : ''}`).join('\n')
+  : '- (없음)'}
+
+최근 대화:
+${recentMessages.map(m => `[${m.role}]: ${m.content}`).join('\n')}
+
+이번 지원자 답변:
+${answer}`;
+
+  try {
+    const response = await llmRouter.complete({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      jsonSchema: { name: 'case_progress', schema: CASE_PROGRESS_SCHEMA },
+      maxTokens: 600,
+      temperature: 0.1,
+      modelTier: 'fast',
+      operation: 'case_tracking',
+    });
+
+    const parsed = JSON.parse(response.content || '{}') as {
+      framework?: CaseFrameworkBranch[];
+      requested_exhibit_ids?: string[];
+    };
+
+    const hiddenIds = new Set(hidden.map(exhibit => exhibit.id));
+    const requested = (parsed.requested_exhibit_ids || []).filter(id => hiddenIds.has(id));
+
+    return {
+      case_id: problem.id,
+      framework: Array.isArray(parsed.framework)
+        ? parsed.framework.slice(0, MAX_FRAMEWORK_BRANCHES).map(toBranch)
+        : previous.framework,
+      revealed_exhibit_ids: [...previous.revealed_exhibit_ids, ...requested],
+    };
+  } catch (error) {
+    console.error('Case tracking failed:', error);
+    return {
+      ...previous,
+      revealed_exhibit_ids: [
+        ...previous.revealed_exhibit_ids,
+        ...matchRequestedExhibits(problem, answer, previous.revealed_exhibit_ids),
+      ],
+    };
+  }
+}
+
+/**
+ * Load the last stored state for the session and advance it with this answer
+ * Returns the new state and the exhibits handed out on this turn
+ */
+export async function advanceCaseState(
+  supabase: SupabaseServerClient,
+  sessionId: string,
+  problem: CaseProblem,
+  answer: string
+): Promise<{ state: CaseState; newlyRevealed: CaseProblemExhibit[] }> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('role, content, case_state')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch case history: ${error.message}`);
+  }
+
+  const messages = (data || []) as Array<{ role: string; content: string; case_state?: CaseState | null }>;
+  const states = messages.map(msg => msg.case_state).filter(Boolean) as CaseState[];
+  const previous = states[states.length - 1] || emptyCaseState(problem);
+
+  const state = await trackCaseProgress(
+    problem,
+    previous,
+    messages.slice(-RECENT_MESSAGES_FOR_TRACKING).map(({ role, content }) => ({ role, content })),
+    answer
+  );
+
+  const newlyRevealed = problem.exhibits.filter(
+    exhibit => state.revealed_exhibit_ids.includes(exhibit.id) && !previous.revealed_exhibit_ids.includes(exhibit.id)
+  );
+
+  return { state, newlyRevealed };
+}
+
+function toBranch(branch: CaseFrameworkBranch): CaseFrameworkBranch {
+  return {
+    name: String(branch.name).slice(0, 60),
+    status: ['proposed', 'explored', 'concluded'].includes(branch.status) ? branch.status : 'proposed',
+    ...(branch.findings?.trim() ? { findings: branch.findings.trim().slice(0, 200) } : {}),
+  };
+}
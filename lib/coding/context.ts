@@ -0,0 +1,106 @@
+// ============================================
+// Coding Interview Context
+// ============================================
+// Turns the problem, the candidate's latest code, hidden test results and the
+// edit history into (1) a system prompt section so the interviewer asks about
+// the code that was actually written, and (2) the test component of the
+// `coding` evaluation axis.
+
+import type { CodeSubmission } from '@/types/interview';
+import type { ScoreLevel } from '@/lib/llm/prompts';
+import type { CodingProblem } from './problems';
+import { summarizeEditHistory } from './history';
+
+const MAX_CODE_CHARS = 4000;
+
+export interface CodingTestSummary {
+  passed: number;
+  total: number;
+  pass_rate: number; // 0-1
+  failed: string[];
+}
+
+/**
+ * System prompt section for the coding interviewer
+ */
+export function formatCodingContext(problem: CodingProblem, submission?: CodeSubmission | null): string {
+  const sections: string[] = [
+    `## [코딩 면접] 출제 문제: ${problem.title} (${problem.difficulty})
+${problem.description}
+- 구현할 함수: ${problem.function_name}`,
+  ];
+
+  const source = submission?.source?.trim();
+  const isStarter = !source || source === problem.starter_code.trim();
+
+  if (isStarter) {
+    sections.push(`## 지원자 코드
+아직 작성된 코드가 없습니다.`);
+  } else {
+    const code = source.length > MAX_CODE_CHARS
+      ? `${source.slice(0, MAX_CODE_CHARS)}\n// ... (이하 생략)`
+      : source;
+    sections.push(`## 지원자의 최신 코드
+\`\`\`javascript
+${code}
+\`\`\``);
+  }
+
+  const hidden = submission?.hidden_tests;
+  if (hidden) {
+    sections.push(`## 숨김 테스트 결과: ${hidden.passed}/${hidden.total} 통과${
+      hidden.error ? `\n- 실행 오류: ${hidden.error}` : ''
+    }${hidden.failed.length > 0 ? `\n- 실패한 케이스: ${hidden.failed.join(', ')}` : ''}`);
+  }
+
+  if (submission && submission.edit_history.length > 0) {
+    const history = summarizeEditHistory(submission.edit_history);
+    const lines = [
+      `- 편집 ${history.edit_count}회, 약 ${Math.max(1, Math.round(history.duration_seconds / 60))}분`,
+      `- 붙여넣기 ${history.paste_count}회${history.paste_count > 0 ? ` (최대 ${history.largest_paste_chars}자)` : ''}`,
+      `- 큰 폭의 재작성 ${history.rewrite_count}회, 1분 이상 멈춤 ${history.idle_gaps}회`,
+    ];
+    sections.push(`## 코드 작성 과정\n${lines.join('\n')}`);
+  }
+
+  sections.push(`## 코딩 면접 진행 지침
+${isStarter
+  ? '- 아직 코드가 없으니 어떤 접근 방식으로 풀 것인지 먼저 물어보세요.'
+  : '- 지원자가 작성한 코드의 구체적인 부분(변수, 분기, 자료구조 선택)을 짚어 질문하세요.'}
+- 시간/공간 복잡도와 엣지 케이스를 설명하게 하세요.
+- 실패한 테스트의 입력값이나 정답 코드를 알려주지 마세요. 실패한 케이스 이름 수준의 힌트만 허용됩니다.
+- 큰 붙여넣기가 있었다면 해당 코드를 직접 설명해 보도록 요청하세요.
+- 검증할 주제: ${problem.follow_up_topics.join(' / ')}`);
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Test results of the last graded submission (the final code is what counts)
+ */
+export function summarizeCodingSubmissions(submissions: CodeSubmission[]): CodingTestSummary | null {
+  const graded = submissions.filter(submission => submission.hidden_tests);
+  const latest = graded[graded.length - 1]?.hidden_tests;
+  if (!latest || latest.total === 0) return null;
+
+  return {
+    passed: latest.passed,
+    total: latest.total,
+    pass_rate: latest.passed / latest.total,
+    failed: latest.failed,
+  };
+}
+
+/**
+ * Coding axis score: hidden test pass rate mapped to 1-5, averaged with the
+ * interviewer's judgement of the explanation (complexity, edge cases) when present
+ */
+export function calculateCodingScore(tests: CodingTestSummary | null, llmScore?: number): ScoreLevel {
+  const testLevel = tests ? 1 + Math.round(4 * tests.pass_rate) : undefined;
+  const llmLevel = llmScore !== undefined ? Math.min(5, Math.max(1, Math.round(llmScore))) : undefined;
+
+  if (testLevel !== undefined && llmLevel !== undefined) {
+    return Math.round((testLevel + llmLevel) / 2) as ScoreLevel;
+  }
+  return (testLevel ?? llmLevel ?? 1) as ScoreLevel;
+}
@@ -0,0 +1,90 @@
+// ============================================
+// Code Edit History
+// ============================================
+// The editor records each change as a single replace operation (common prefix /
+// suffix diff of consecutive values), so the full history replays into the
+// submitted source and stays small enough to store on the message.
+
+import type { CodeEditEvent } from '@/types/interview';
+
+export const MAX_EDIT_EVENTS = 2000;
+const PASTE_MIN_CHARS = 80;     // One insertion at least this long counts as a paste
+const IDLE_GAP_MS = 60_000;     // No edits for this long counts as a pause
+const REWRITE_MIN_CHARS = 150;  // One deletion at least this long counts as a rewrite
+
+export interface EditHistorySummary {
+  edit_count: number;
+  duration_seconds: number;     // First to last edit
+  typed_chars: number;
+  deleted_chars: number;
+  paste_count: number;
+  largest_paste_chars: number;
+  idle_gaps: number;
+  rewrite_count: number;        // Large deletions at once (approach changes)
+}
+
+/**
+ * Single-range change that turns `previous` into `next`, null when unchanged
+ */
+export function diffEdit(previous: string, next: string, at: number): CodeEditEvent | null {
+  if (previous === next) return null;
+
+  let start = 0;
+  const maxStart = Math.min(previous.length, next.length);
+  while (start < maxStart && previous[start] === next[start]) start++;
+
+  let previousEnd = previous.length;
+  let nextEnd = next.length;
+  while (previousEnd > start && nextEnd > start && previous[previousEnd - 1] === next[nextEnd - 1]) {
+    previousEnd--;
+    nextEnd--;
+  }
+
+  return { at, from: start, to: previousEnd, text: next.slice(start, nextEnd) };
+}
+
+/**
+ * Rebuild the source from a starting value and its edits
+ */
+export function replayEdits(initial: string, events: CodeEditEvent[]): string {
+  return events.reduce(
+    (source, event) => source.slice(0, event.from) + event.text + source.slice(event.to),
+    initial
+  );
+}
+
+export function summarizeEditHistory(events: CodeEditEvent[]): EditHistorySummary {
+  const summary: EditHistorySummary = {
+    edit_count: events.length,
+    duration_seconds: events.length > 1 ? Math.round((events[events.length - 1].at - events[0].at) / 1000) : 0,
+    typed_chars: 0,
+    deleted_chars: 0,
+    paste_count: 0,
+    largest_paste_chars: 0,
+    idle_gaps: 0,
+    rewrite_count: 0,
+  };
+
+  events.forEach((event, index) => {
+    const deleted = event.to - event.from;
+    summary.deleted_chars += deleted;
+
+    if (event.text.length >= PASTE_MIN_CHARS) {
+      summary.paste_count++;
+      summary.largest_paste_chars = Math.max(summary.largest_paste_chars, event.text.length);
+    } else {
+      summary.typed_chars += event.text.length;
+    }
+
+    if (deleted >= REWRITE_MIN_CHARS && event.text.length < deleted / 2) {
+      summary.rewrite_count++;
+    }
+
+    if (index > 0 && event.at - events[index - 1].at >= IDLE_GAP_MS) {
+      summary.idle_gaps++;
+    }
+  });
+
+  return summary;
+}
+
@@ -0,0 +1,153 @@
+// ============================================
+// Coding Problem Bank
+// ============================================
+// Problems for the live coding round. The candidate implements a single
+// JavaScript function; examples are shown (and runnable) in the editor,
+// hidden tests are only run on the server when an answer is submitted
+// and feed the `coding` evaluation axis.
+
+export interface CodingTestCase {
+  name: string;
+  input: unknown[];  // Arguments, in order
+  expected: unknown;
+}
+
+export interface CodingProblem {
+  id: string;
+  title: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  description: string;
+  function_name: string;
+  starter_code: string;
+  examples: CodingTestCase[];
+  hidden_tests: CodingTestCase[];
+  follow_up_topics: string[]; // Complexity / edge cases the interviewer should probe
+}
+
+// What the client may see (no hidden tests)
+export type PublicCodingProblem = Omit<CodingProblem, 'hidden_tests'>;
+
+export const CODING_PROBLEMS: CodingProblem[] = [
+  {
+    id: 'two_sum',
+    title: '두 수의 합',
+    difficulty: 'easy',
+    description:
+      '정수 배열 nums와 정수 target이 주어집니다. 더해서 target이 되는 두 원소의 인덱스를 오름차순 배열로 반환하세요. 답은 정확히 하나 존재하며, 같은 원소를 두 번 사용할 수 없습니다.',
+    function_name: 'twoSum',
+    starter_code: 'function twoSum(nums, target) {\n  // 여기에 코드를 작성하세요\n}\n',
+    examples: [
+      { name: '기본 예제', input: [[2, 7, 11, 15], 9], expected: [0, 1] },
+      { name: '중간 원소', input: [[3, 2, 4], 6], expected: [1, 2] },
+    ],
+    hidden_tests: [
+      { name: '같은 값 두 개', input: [[3, 3], 6], expected: [0, 1] },
+      { name: '음수 포함', input: [[-3, 4, 3, 90], 0], expected: [0, 2] },
+      { name: '0 포함', input: [[0, 4, 3, 0], 0], expected: [0, 3] },
+      { name: '마지막 두 원소', input: [[1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 19], expected: [8, 9] },
+    ],
+    follow_up_topics: ['시간/공간 복잡도 (O(n²) vs 해시맵 O(n))', '중복 값 처리', '답이 없을 때의 처리'],
+  },
+  {
+    id: 'valid_parentheses',
+    title: '올바른 괄호',
+    difficulty: 'easy',
+    description:
+      "'(', ')', '{', '}', '[', ']'로만 이루어진 문자열 s가 주어집니다. 모든 괄호가 올바른 순서로 짝지어 닫히면 true, 아니면 false를 반환하세요.",
+    function_name: 'isValid',
+    starter_code: 'function isValid(s) {\n  // 여기에 코드를 작성하세요\n}\n',
+    examples: [
+      { name: '한 쌍', input: ['()'], expected: true },
+      { name: '여러 종류', input: ['()[]{}'], expected: true },
+      { name: '짝이 다름', input: ['(]'], expected: false },
+    ],
+    hidden_tests: [
+      { name: '중첩', input: ['{[()]}'], expected: true },
+      { name: '교차', input: ['([)]'], expected: false },
+      { name: '여는 괄호만', input: ['(('], expected: false },
+      { name: '닫는 괄호로 시작', input: [']'], expected: false },
+      { name: '빈 문자열', input: [''], expected: true },
+    ],
+    follow_up_topics: ['스택을 선택한 이유', '빈 문자열/홀수 길이 처리', '괄호 종류가 늘어날 때의 확장성'],
+  },
+  {
+    id: 'merge_intervals',
+    title: '구간 병합',
+    difficulty: 'medium',
+    description:
+      '[start, end] 형태의 구간 배열 intervals가 주어집니다. 겹치는 구간을 모두 병합하고, 시작점 기준 오름차순으로 정렬된 구간 배열을 반환하세요. 끝점과 시작점이 같은 구간도 겹치는 것으로 봅니다.',
+    function_name: 'merge',
+    starter_code: 'function merge(intervals) {\n  // 여기에 코드를 작성하세요\n}\n',
+    examples: [
+      { name: '기본 예제', input: [[[1, 3], [2, 6], [8, 10], [15, 18]]], expected: [[1, 6], [8, 10], [15, 18]] },
+      { name: '맞닿은 구간', input: [[[1, 4], [4, 5]]], expected: [[1, 5]] },
+    ],
+    hidden_tests: [
+      { name: '정렬되지 않은 입력', input: [[[8, 10], [1, 3], [2, 6]]], expected: [[1, 6], [8, 10]] },
+      { name: '포함 관계', input: [[[1, 10], [2, 3], [4, 5]]], expected: [[1, 10]] },
+      { name: '빈 배열', input: [[]], expected: [] },
+      { name: '단일 구간', input: [[[5, 7]]], expected: [[5, 7]] },
+      { name: '모두 분리', input: [[[1, 2], [3, 4], [5, 6]]], expected: [[1, 2], [3, 4], [5, 6]] },
+    ],
+    follow_up_topics: ['정렬이 필요한 이유와 O(n log n) 복잡도', '포함 관계 구간', '입력 배열 변경(mutation) 여부'],
+  },
+  {
+    id: 'longest_unique_substring',
+    title: '중복 없는 가장 긴 부분 문자열',
+    difficulty: 'medium',
+    description:
+      '문자열 s가 주어질 때, 같은 문자가 두 번 나오지 않는 가장 긴 연속 부분 문자열의 길이를 반환하세요.',
+    function_name: 'lengthOfLongestSubstring',
+    starter_code: 'function lengthOfLongestSubstring(s) {\n  // 여기에 코드를 작성하세요\n}\n',
+    examples: [
+      { name: '기본 예제', input: ['abcabcbb'], expected: 3 },
+      { name: '같은 문자 반복', input: ['bbbbb'], expected: 1 },
+    ],
+    hidden_tests: [
+      { name: '중간에 위치', input: ['pwwkew'], expected: 3 },
+      { name: '빈 문자열', input: [''], expected: 0 },
+      { name: '공백 포함', input: [' a b'], expected: 3 },
+      { name: '윈도우 되돌림', input: ['abba'], expected: 2 },
+      { name: '전부 다름', input: ['abcdef'], expected: 6 },
+    ],
+    follow_up_topics: ['슬라이딩 윈도우와 O(n) 복잡도', '윈도우 시작점이 뒤로 가지 않게 하는 처리', '유니코드 문자'],
+  },
+  {
+    id: 'min_meeting_rooms',
+    title: '필요한 최소 회의실 수',
+    difficulty: 'hard',
+    description:
+      '[start, end) 형태의 회의 시간 배열 meetings가 주어집니다. 모든 회의를 겹치지 않게 배정하는 데 필요한 최소 회의실 수를 반환하세요. 한 회의가 끝나는 시각에 다른 회의가 시작하면 같은 회의실을 쓸 수 있습니다.',
+    function_name: 'minMeetingRooms',
+    starter_code: 'function minMeetingRooms(meetings) {\n  // 여기에 코드를 작성하세요\n}\n',
+    examples: [
+      { name: '기본 예제', input: [[[0, 30], [5, 10], [15, 20]]], expected: 2 },
+      { name: '겹치지 않음', input: [[[7, 10], [2, 4]]], expected: 1 },
+    ],
+    hidden_tests: [
+      { name: '끝과 시작이 같음', input: [[[1, 5], [5, 10], [10, 15]]], expected: 1 },
+      { name: '모두 겹침', input: [[[1, 10], [2, 9], [3, 8], [4, 7]]], expected: 4 },
+      { name: '빈 배열', input: [[]], expected: 0 },
+      { name: '부분 겹침', input: [[[1, 4], [2, 5], [7, 9], [3, 6], [8, 10]]], expected: 3 },
+    ],
+    follow_up_topics: ['정렬 + 최소 힙 또는 시작/종료 두 포인터 방식', 'O(n log n) 복잡도', '경계 시각(끝 = 시작) 처리'],
+  },
+];
+
+export function getCodingProblem(id: string): CodingProblem | undefined {
+  return CODING_PROBLEMS.find(problem => problem.id === id);
+}
+
+/**
+ * Random problem for the session difficulty (falls back to any problem)
+ */
+export function pickCodingProblem(difficulty: 'easy' | 'medium' | 'hard'): CodingProblem {
+  const candidates = CODING_PROBLEMS.filter(problem => problem.difficulty === difficulty);
+  const pool = candidates.length > 0 ? candidates : CODING_PROBLEMS;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+export function toPublicProblem(problem: CodingProblem): PublicCodingProblem {
+  const { hidden_tests: _hidden, ...rest } = problem;
+  return rest;
+}
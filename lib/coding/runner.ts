@@ -0,0 +1,213 @@
+// ============================================
+// Sandboxed Code Runner
+// ============================================
+// Runs candidate JavaScript against test cases in a separate Node process:
+// - the code runs in a fresh vm context with no host objects (no require, process,
+//   fetch) and string code generation disabled
+// - every test call has its own vm timeout (infinite loops), and the whole process
+//   is killed after an overall deadline (async loops, runaway memory)
+// - inputs are created inside the context and results leave it as JSON strings,
+//   so no candidate object is ever touched by host code
+// - vm is not a security boundary, so the process itself is locked down too: Node's
+//   permission model with no fs / child process / worker grants, an empty temp dir
+//   as cwd (not the app root with .env), no environment, and `nobody` when running as root
+
+import { spawn } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { CodeRunResult, CodeTestCaseResult } from '@/types/interview';
+import type { CodingProblem, CodingTestCase } from './problems';
+
+export interface CodeRunOptions {
+  includeHidden?: boolean;   // Hidden tests run on submission only
+  testTimeoutMs?: number;
+}
+
+const DEFAULT_TEST_TIMEOUT_MS = 1000;
+const PROCESS_STARTUP_MS = 2000;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MAX_LOG_LINES = 50;
+const CHILD_MEMORY_MB = 64;
+// Unprivileged uid/gid the child drops to when the app runs as root (containers)
+const NOBODY_ID = 65534;
+// Node 23.5 renamed --experimental-permission
+const PERMISSION_FLAG = Number(process.versions.node.split('.')[0]) >= 23 ? '--permission' : '--experimental-permission';
+
+// Executed with `node -e`; reads { source, functionName, tests, timeoutMs } from stdin
+const RUNNER_SCRIPT = `
+const vm = require('vm');
+let raw = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => { raw += chunk; });
+process.stdin.on('end', () => {
+  const { source, functionName, tests, timeoutMs, maxLogLines } = JSON.parse(raw);
+  // Null-prototype sandbox: a plain {} would expose the host Object (and Function) via this.constructor
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  const run = (code, timeout) => vm.runInContext(code, context, { timeout, filename: 'solution.js' });
+  const describe = error => (error && error.message) ? String(error.message) : String(error);
+  const out = { cases: [], logs: [] };
+  const done = () => process.stdout.write(JSON.stringify(out));
+
+  // console.log defined inside the context: host functions would leak the host realm
+  run(\`globalThis.__logs = [];
+globalThis.console = { log: (...args) => {
+  if (__logs.length >= \${maxLogLines}) return;
+  __logs.push(args.map(a => { if (typeof a === 'string') return a; try { return JSON.stringify(a); } catch (e) { return String(a); } }).join(' ').slice(0, 500));
+} };\`, timeoutMs);
+
+  try {
+    run(source + '\\n;globalThis.__solution = typeof ' + functionName + " === 'function' ? " + functionName + ' : undefined;', timeoutMs);
+  } catch (error) {
+    out.error = describe(error);
+    done();
+    return;
+  }
+
+  if (run('typeof __solution', timeoutMs) !== 'function') {
+    out.error = functionName + ' 함수를 찾을 수 없습니다.';
+    done();
+    return;
+  }
+
+  for (const test of tests) {
+    run('globalThis.__args = JSON.parse(' + JSON.stringify(JSON.stringify(test.input)) + ')', timeoutMs);
+    const started = process.hrtime.bigint();
+    try {
+      const actual = run('JSON.stringify(__solution(...__args))', timeoutMs);
+      out.cases.push({ actual: typeof actual === 'string' ? actual : null, duration: Number(process.hrtime.bigint() - started) / 1e6 });
+    } catch (error) {
+      out.cases.push({ error: describe(error), duration: Number(process.hrtime.bigint() - started) / 1e6 });
+    }
+  }
+
+  try {
+    out.logs = JSON.parse(run('JSON.stringify(__logs)', timeoutMs));
+  } catch (error) {
+    out.logs = [];
+  }
+  done();
+});
+`;
+
+interface RawCaseResult {
+  actual?: string | null;
+  error?: string;
+  duration: number;
+}
+
+interface RawRunOutput {
+  cases: RawCaseResult[];
+  logs: string[];
+  error?: string;
+}
+
+/**
+ * Run a solution against the problem's examples (and hidden tests on submission)
+ */
+export async function runCode(
+  source: string,
+  problem: CodingProblem,
+  options: CodeRunOptions = {}
+): Promise<CodeRunResult> {
+  const testTimeoutMs = options.testTimeoutMs ?? DEFAULT_TEST_TIMEOUT_MS;
+  const tests: (CodingTestCase & { hidden: boolean })[] = [
+    ...problem.examples.map(test => ({ ...test, hidden: false })),
+    ...(options.includeHidden ? problem.hidden_tests.map(test => ({ ...test, hidden: true })) : []),
+  ];
+
+  const { output, timedOut } = await runInChildProcess({
+    source,
+    functionName: problem.function_name,
+    tests: tests.map(test => ({ input: test.input })),
+    timeoutMs: testTimeoutMs,
+    maxLogLines: MAX_LOG_LINES,
+  }, testTimeoutMs * (tests.length + 2) + PROCESS_STARTUP_MS);
+
+  const cases: CodeTestCaseResult[] = tests.map((test, index) => {
+    const raw = output?.cases[index];
+    const expected = JSON.stringify(test.expected);
+    const passed = raw?.actual !== undefined && raw.actual === expected;
+    const error = raw ? raw.error : timedOut ? '시간 초과' : '실행되지 않음';
+
+    return {
+      name: test.name,
+      passed,
+      hidden: test.hidden,
+      duration_ms: Math.round((raw?.duration ?? 0) * 100) / 100,
+      ...(error ? { error: normalizeError(error) } : {}),
+      // Hidden tests never reveal their data to the client
+      ...(test.hidden ? {} : {
+        input: test.input,
+        expected: test.expected,
+        actual: raw?.actual ? safeParse(raw.actual) : undefined,
+      }),
+    };
+  });
+
+  return {
+    passed: cases.filter(result => result.passed).length,
+    total: cases.length,
+    cases,
+    logs: output?.logs ?? [],
+    error: output?.error ? normalizeError(output.error) : timedOut && !output ? '실행 시간이 초과되었습니다.' : undefined,
+    timed_out: timedOut,
+  };
+}
+
+function runInChildProcess(
+  payload: Record<string, unknown>,
+  deadlineMs: number
+): Promise<{ output: RawRunOutput | null; timedOut: boolean }> {
+  return new Promise((resolve) => {
+    const workDir = mkdtempSync(path.join(tmpdir(), 'code-runner-'));
+    const asRoot = process.getuid?.() === 0;
+    const child = spawn(process.execPath, [PERMISSION_FLAG, `--max-old-space-size=${CHILD_MEMORY_MB}`, '-e', RUNNER_SCRIPT], {
+      cwd: workDir,
+      env: {} as NodeJS.ProcessEnv, // No API keys or Supabase credentials in the sandbox
+      stdio: ['pipe', 'pipe', 'ignore'],
+      ...(asRoot ? { uid: NOBODY_ID, gid: NOBODY_ID } : {}),
+    });
+
+    let stdout = '';
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, deadlineMs);
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout += chunk;
+      if (stdout.length > MAX_OUTPUT_BYTES) child.kill('SIGKILL');
+    });
+
+    const finish = () => {
+      clearTimeout(timer);
+      rmSync(workDir, { recursive: true, force: true });
+      try {
+        resolve({ output: JSON.parse(stdout) as RawRunOutput, timedOut });
+      } catch {
+        resolve({ output: null, timedOut });
+      }
+    };
+
+    child.on('error', finish);
+    child.on('close', finish);
+    child.stdin.on('error', () => undefined); // Child may exit before reading everything
+    child.stdin.end(JSON.stringify(payload));
+  });
+}
+
+function normalizeError(message: string): string {
+  return /Script execution timed out/.test(message) ? '시간 초과 (무한 루프 또는 너무 느린 풀이)' : message.slice(0, 300);
+}
+
+function safeParse(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
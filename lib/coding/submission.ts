@@ -0,0 +1,72 @@
+// ============================================
+// Code Submission
+// ============================================
+// Code attached to a coding-interview answer: validated, graded against the
+// hidden tests on the server, and stored on the user message.
+
+import type { CodeEditEvent, CodeSubmission } from '@/types/interview';
+import { MAX_EDIT_EVENTS } from './history';
+import { runCode } from './runner';
+import type { CodingProblem } from './problems';
+
+export const MAX_SOURCE_CHARS = 20_000;
+
+/**
+ * Validate the client payload, returns the Korean error message or the cleaned submission
+ */
+export function parseCodeSubmission(
+  raw: unknown,
+  problem: CodingProblem
+): { submission: Omit<CodeSubmission, 'hidden_tests'> } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: '유효하지 않은 코드 제출입니다.' };
+  }
+
+  const { source, edit_history } = raw as { source?: unknown; edit_history?: unknown };
+
+  if (typeof source !== 'string' || source.length > MAX_SOURCE_CHARS) {
+    return { error: `코드는 ${MAX_SOURCE_CHARS.toLocaleString()}자 이내로 작성해주세요.` };
+  }
+
+  const events = Array.isArray(edit_history) ? edit_history.filter(isEditEvent) : [];
+
+  return {
+    submission: {
+      problem_id: problem.id,
+      language: 'javascript',
+      source,
+      // Keep the most recent edits when the history is too long
+      edit_history: events.slice(-MAX_EDIT_EVENTS),
+    },
+  };
+}
+
+/**
+ * Run the hidden tests; only pass counts and failed case names are kept
+ */
+export async function gradeCodeSubmission(
+  submission: Omit<CodeSubmission, 'hidden_tests'>,
+  problem: CodingProblem
+): Promise<CodeSubmission> {
+  const result = await runCode(submission.source, problem, { includeHidden: true });
+  const hidden = result.cases.filter(testCase => testCase.hidden);
+
+  return {
+    ...submission,
+    hidden_tests: {
+      passed: hidden.filter(testCase => testCase.passed).length,
+      total: hidden.length,
+      failed: hidden.filter(testCase => !testCase.passed).map(testCase => testCase.name),
+      ...(result.error ? { error: result.error } : {}),
+    },
+  };
+}
+
+function isEditEvent(value: unknown): value is CodeEditEvent {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  return typeof event.at === 'number'
+    && typeof event.from === 'number'
+    && typeof event.to === 'number'
+    && typeof event.text === 'string';
+}
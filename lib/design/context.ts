@@ -0,0 +1,44 @@
+// ============================================
+// System Design Interview Context
+// ============================================
+// System prompt section for the design round: the problem, the candidate's
+// current diagram and structural observations, so the interviewer probes the
+// design that is actually on the board.
+
+import type { DesignDiagram } from '@/types/interview';
+import type { DesignProblem } from './problems';
+import { serializeDiagram, findDiagramObservations } from './diagram';
+
+export function formatDesignContext(problem: DesignProblem, diagram?: DesignDiagram | null): string {
+  const sections: string[] = [
+    `## [시스템 설계 면접] 출제 문제: ${problem.title} (${problem.difficulty})
+${problem.description}
+요구사항:
+${problem.requirements.map(requirement => `- ${requirement}`).join('\n')}`,
+  ];
+
+  const isEmpty = !diagram || diagram.nodes.length === 0;
+
+  if (isEmpty) {
+    sections.push(`## 지원자 다이어그램
+아직 그려진 다이어그램이 없습니다.`);
+  } else {
+    const observations = findDiagramObservations(diagram);
+    sections.push(`## 지원자의 현재 다이어그램
+${serializeDiagram(diagram)}${observations.length > 0 ? `
+
+구조 관찰 (질문 소재, 지원자에게 그대로 읽어주지 마세요):
+${observations.map(observation => `- ${observation}`).join('\n')}` : ''}`);
+  }
+
+  sections.push(`## 설계 면접 진행 지침
+${isEmpty
+  ? '- 아직 다이어그램이 없으니 요구사항 정리와 규모 추정(QPS, 저장 용량)부터 묻고, 상위 수준 구성을 그려보도록 요청하세요.'
+  : '- 다이어그램의 특정 컴포넌트와 연결을 이름으로 짚어 질문하세요.'}
+- 요구사항의 규모에서 가장 먼저 병목이 될 지점을 지원자가 스스로 찾게 하세요.
+- 선택한 방식의 트레이드오프(일관성/가용성, 비용, 복잡도)와 대안을 설명하게 하세요.
+- 정답 아키텍처를 먼저 제시하지 마세요.
+- 검증할 주제: ${problem.follow_up_topics.join(' / ')}`);
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,158 @@
+// ============================================
+// Design Diagram
+// ============================================
+// The whiteboard is a small graph (components + labelled arrows). It is
+// validated on the server, stored on the user message and serialized to
+// text so the interviewer can reason about it turn by turn.
+
+import type { DesignDiagram, DesignEdge, DesignNode, DesignNodeKind } from '@/types/interview';
+import type { DesignProblem } from './problems';
+
+export const MAX_DIAGRAM_NODES = 40;
+export const MAX_DIAGRAM_EDGES = 80;
+const MAX_LABEL_CHARS = 60;
+const MAX_NOTES_CHARS = 200;
+
+export const DESIGN_NODE_KINDS: Record<DesignNodeKind, string> = {
+  client: '클라이언트',
+  load_balancer: '로드 밸런서',
+  service: '서비스',
+  cache: '캐시',
+  queue: '메시지 큐',
+  database: '데이터베이스',
+  storage: '오브젝트 스토리지',
+  cdn: 'CDN',
+  external: '외부 시스템',
+};
+
+const DATA_STORE_KINDS: DesignNodeKind[] = ['database', 'storage', 'cache'];
+
+/**
+ * Validate the client payload, returns the Korean error message or the cleaned diagram
+ */
+export function parseDesignDiagram(
+  raw: unknown,
+  problem: DesignProblem
+): { diagram: DesignDiagram } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: '유효하지 않은 다이어그램입니다.' };
+  }
+
+  const { nodes, edges } = raw as { nodes?: unknown; edges?: unknown };
+
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+    return { error: '유효하지 않은 다이어그램입니다.' };
+  }
+
+  if (nodes.length > MAX_DIAGRAM_NODES || edges.length > MAX_DIAGRAM_EDGES) {
+    return { error: `다이어그램은 컴포넌트 ${MAX_DIAGRAM_NODES}개, 연결 ${MAX_DIAGRAM_EDGES}개까지 그릴 수 있습니다.` };
+  }
+
+  const cleanNodes: DesignNode[] = [];
+  for (const node of nodes) {
+    if (!isNode(node)) {
+      return { error: '컴포넌트 정보가 올바르지 않습니다.' };
+    }
+    cleanNodes.push({
+      id: node.id.slice(0, MAX_LABEL_CHARS),
+      kind: node.kind,
+      label: node.label.trim().slice(0, MAX_LABEL_CHARS),
+      ...(node.notes?.trim() ? { notes: node.notes.trim().slice(0, MAX_NOTES_CHARS) } : {}),
+    });
+  }
+
+  // Arrows pointing at removed components are dropped rather than rejected
+  const nodeIds = new Set(cleanNodes.map(node => node.id));
+  const cleanEdges: DesignEdge[] = edges
+    .filter(isEdge)
+    .filter(edge => nodeIds.has(edge.from) && nodeIds.has(edge.to) && edge.from !== edge.to)
+    .map(edge => ({
+      id: edge.id.slice(0, MAX_LABEL_CHARS),
+      from: edge.from,
+      to: edge.to,
+      ...(edge.label?.trim() ? { label: edge.label.trim().slice(0, MAX_LABEL_CHARS) } : {}),
+    }));
+
+  return { diagram: { problem_id: problem.id, nodes: cleanNodes, edges: cleanEdges } };
+}
+
+/**
+ * Text form for the LLM: components grouped by kind, then every arrow
+ */
+export function serializeDiagram(diagram: DesignDiagram): string {
+  if (diagram.nodes.length === 0) return '(비어 있음)';
+
+  const labels = new Map(diagram.nodes.map(node => [node.id, node.label]));
+
+  const components = diagram.nodes.map(node =>
+    `- [${DESIGN_NODE_KINDS[node.kind]}] ${node.label}${node.notes ? ` — ${node.notes}` : ''}`
+  );
+
+  const arrows = diagram.edges.map(edge =>
+    `- ${labels.get(edge.from)} → ${labels.get(edge.to)}${edge.label ? ` (${edge.label})` : ''}`
+  );
+
+  return `컴포넌트:\n${components.join('\n')}\n\n연결:\n${arrows.length > 0 ? arrows.join('\n') : '- (없음)'}`;
+}
+
+/**
+ * Structural observations the interviewer can probe (not judgements)
+ */
+export function findDiagramObservations(diagram: DesignDiagram): string[] {
+  const observations: string[] = [];
+  const byId = new Map(diagram.nodes.map(node => [node.id, node]));
+  const connected = new Set(diagram.edges.flatMap(edge => [edge.from, edge.to]));
+
+  const isolated = diagram.nodes.filter(node => !connected.has(node.id));
+  if (isolated.length > 0) {
+    observations.push(`연결되지 않은 컴포넌트: ${isolated.map(node => node.label).join(', ')}`);
+  }
+
+  const unlabeled = diagram.edges.filter(edge => !edge.label).length;
+  if (unlabeled > 0) {
+    observations.push(`설명 없는 연결 ${unlabeled}개 (프로토콜/동기·비동기 여부 불명확)`);
+  }
+
+  const directToStore = diagram.edges.filter(edge =>
+    byId.get(edge.from)?.kind === 'client' && DATA_STORE_KINDS.includes(byId.get(edge.to)!.kind)
+  );
+  if (directToStore.length > 0) {
+    observations.push('클라이언트가 저장소에 직접 접근함');
+  }
+
+  const kinds = new Set(diagram.nodes.map(node => node.kind));
+  const services = diagram.nodes.filter(node => node.kind === 'service').length;
+  if (kinds.has('client') && services > 0 && !kinds.has('load_balancer')) {
+    observations.push('로드 밸런서 없음 (서비스 수평 확장 방식 불명확)');
+  }
+  if (kinds.has('database') && !kinds.has('cache')) {
+    observations.push('캐시 계층 없음');
+  }
+
+  const stores = diagram.nodes.filter(node => node.kind === 'database');
+  if (stores.length === 1 && !stores[0].notes) {
+    observations.push(`단일 데이터베이스(${stores[0].label})의 복제/샤딩 계획이 표시되지 않음`);
+  }
+
+  return observations;
+}
+
+function isNode(value: unknown): value is DesignNode {
+  if (!value || typeof value !== 'object') return false;
+  const node = value as Record<string, unknown>;
+  return typeof node.id === 'string'
+    && typeof node.label === 'string'
+    && node.label.trim().length > 0
+    && typeof node.kind === 'string'
+    && node.kind in DESIGN_NODE_KINDS
+    && (node.notes === undefined || typeof node.notes === 'string');
+}
+
+function isEdge(value: unknown): value is DesignEdge {
+  if (!value || typeof value !== 'object') return false;
+  const edge = value as Record<string, unknown>;
+  return typeof edge.id === 'string'
+    && typeof edge.from === 'string'
+    && typeof edge.to === 'string'
+    && (edge.label === undefined || typeof edge.label === 'string');
+}
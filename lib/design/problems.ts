@@ -0,0 +1,91 @@
+// ============================================
+// System Design Problem Bank
+// ============================================
+// Prompts for the design round. The candidate answers by talking and by
+// building a diagram; follow_up_topics are the bottlenecks and trade-offs the
+// interviewer should steer towards once the first version is on the board.
+
+export interface DesignProblem {
+  id: string;
+  title: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  description: string;
+  requirements: string[];       // Functional + non-functional (scale, latency)
+  follow_up_topics: string[];
+}
+
+export const DESIGN_PROBLEMS: DesignProblem[] = [
+  {
+    id: 'url_shortener',
+    title: 'URL 단축 서비스',
+    difficulty: 'easy',
+    description: '긴 URL을 짧은 코드로 바꿔주고, 짧은 URL로 접속하면 원래 주소로 리다이렉트하는 서비스를 설계하세요.',
+    requirements: [
+      '단축 URL 생성 / 리다이렉트',
+      '하루 1억 건 리다이렉트, 생성은 그 1/100 수준',
+      '리다이렉트 지연 시간 p99 50ms 이내',
+    ],
+    follow_up_topics: ['단축 코드 생성 방식과 충돌', '읽기 위주 트래픽의 캐시 전략', '저장소 선택과 샤딩 키'],
+  },
+  {
+    id: 'rate_limiter',
+    title: '분산 API 요청 제한기',
+    difficulty: 'medium',
+    description: '여러 API 서버 앞에서 사용자별 요청 수를 제한하는 Rate Limiter를 설계하세요.',
+    requirements: [
+      '사용자/API 키별 분당 요청 한도',
+      'API 서버 수십 대가 같은 한도를 공유',
+      '제한 판단이 요청 지연을 5ms 이상 늘리지 않을 것',
+    ],
+    follow_up_topics: ['토큰 버킷 vs 슬라이딩 윈도우', '중앙 저장소(Redis) 장애 시 동작', '서버 간 카운터 일관성과 경합'],
+  },
+  {
+    id: 'news_feed',
+    title: '뉴스 피드',
+    difficulty: 'medium',
+    description: '사용자가 팔로우한 사람들의 게시물을 최신순으로 보여주는 피드 시스템을 설계하세요.',
+    requirements: [
+      'DAU 1천만, 사용자당 평균 팔로우 200명',
+      '게시물 작성 후 수 초 내 팔로워 피드 반영',
+      '팔로워 수백만 명의 유명인 계정 존재',
+    ],
+    follow_up_topics: ['Fan-out on write vs on read', '유명인 계정(핫 키) 처리', '피드 캐시와 페이지네이션'],
+  },
+  {
+    id: 'chat_service',
+    title: '실시간 채팅',
+    difficulty: 'hard',
+    description: '1:1 및 그룹 채팅을 지원하는 실시간 메시징 서비스를 설계하세요.',
+    requirements: [
+      '동시 접속 100만, 그룹 최대 500명',
+      '메시지 순서 보장과 읽음 표시',
+      '오프라인 사용자에게 푸시 알림',
+    ],
+    follow_up_topics: ['연결 유지(WebSocket) 서버의 확장과 라우팅', '메시지 순서/중복 처리', '저장소 파티셔닝과 보관 기간'],
+  },
+  {
+    id: 'notification_system',
+    title: '대규모 알림 발송',
+    difficulty: 'hard',
+    description: '푸시, 이메일, SMS를 통해 마케팅/트랜잭션 알림을 발송하는 시스템을 설계하세요.',
+    requirements: [
+      '캠페인 한 번에 수천만 건 발송',
+      '트랜잭션 알림(결제 등)은 캠페인과 무관하게 수 초 내 발송',
+      '외부 발송 업체 장애와 재시도',
+    ],
+    follow_up_topics: ['큐 분리와 우선순위', '재시도/멱등성과 중복 발송 방지', '외부 업체 rate limit과 백프레셔'],
+  },
+];
+
+export function getDesignProblem(id: string): DesignProblem | undefined {
+  return DESIGN_PROBLEMS.find(problem => problem.id === id);
+}
+
+/**
+ * Random problem for the session difficulty (falls back to any problem)
+ */
+export function pickDesignProblem(difficulty: 'easy' | 'medium' | 'hard'): DesignProblem {
+  const candidates = DESIGN_PROBLEMS.filter(problem => problem.difficulty === difficulty);
+  const pool = candidates.length > 0 ? candidates : DESIGN_PROBLEMS;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
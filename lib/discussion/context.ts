@@ -0,0 +1,144 @@
+// ============================================
+// Group Discussion Context
+// ============================================
+// Full system prompts for whoever takes the floor after the candidate: a
+// co-candidate arguing an assigned stance, or the moderating interviewer.
+// They replace the interviewer prompt (the speakers are not asking interview
+// questions), and the history is labelled by speaker so each voice can tell
+// who said what.
+
+import {
+  DISCUSSION_MODERATOR,
+  INTERVIEWER_BASE,
+  MBTI_TRAITS,
+  getLanguageInstruction,
+  isCoCandidateId,
+  type DiscussionConfig,
+  type DiscussionParticipant,
+  type InterviewLanguage,
+} from '@/types/interview';
+import type { DiscussionTopic } from './topics';
+import type { FloorDecision, FloorReason, ContributionShare } from './floor';
+
+const FLOOR_INSTRUCTIONS: Record<FloorReason, string> = {
+  floor_grab: '지원자가 방금 당신을 지목했습니다. "잠깐만요, 제 이야기가 나왔으니"처럼 끼어들어 지목된 내용에 직접 답하세요.',
+  rebuttal: '지원자의 방금 발언에서 가장 약한 근거 하나를 골라 반박하세요. 당신 입장의 논거를 하나 제시하세요.',
+  support: '지원자와 같은 입장입니다. 지원자의 논점을 이어받되 그대로 반복하지 말고, 새로운 근거를 더하거나 지원자 주장의 허점을 보완하세요.',
+  moderate: '지금까지의 쟁점을 한 문장으로 정리하고, 아직 다루지 않은 쟁점 하나를 제시하며 지원자에게 의견을 물으세요.',
+  balance: '지원자가 발언을 길게 독점하고 있습니다. 정중하게 발언 시간을 정리하고, 다른 참가자의 주장 하나를 짚어 지원자가 그 주장에 짧게 답하게 하세요.',
+  closing: '토론을 마무리할 시간입니다. 지원자에게 다른 참가자들의 주장을 반영한 1분 이내의 최종 발언을 요청하세요. 이미 최종 발언을 들었다면 토론을 마치겠다고 인사하세요.',
+};
+
+function describeParticipants(config: DiscussionConfig, exclude?: DiscussionParticipant): string {
+  const others = config.participants
+    .filter(participant => participant.id !== exclude?.id)
+    .map(participant => `- ${participant.name}: ${participant.stance}`);
+  return [`- 지원자: ${config.candidate_stance}`, ...others].join('\n');
+}
+
+/**
+ * Prompt for a co-candidate taking the floor
+ */
+export function buildCoCandidatePrompt(
+  participant: DiscussionParticipant,
+  reason: FloorReason,
+  topic: DiscussionTopic,
+  config: DiscussionConfig,
+  language: InterviewLanguage = 'ko'
+): string {
+  const stance = topic.stances.find(s => s.name === participant.stance) ?? topic.stances[0];
+  const style = MBTI_TRAITS[participant.mbti];
+
+  return `당신은 그룹 토론 면접에 참여한 지원자 '${participant.name}'입니다. 면접관이 아닙니다.
+토론 스타일: ${participant.mbti} - ${style.style}
+
+## 논제
+${topic.motion}
+배경: ${topic.background}
+
+## 당신의 입장: ${stance.name}
+활용할 수 있는 논거:
+${stance.arguments.map(argument => `- ${argument}`).join('\n')}
+
+## 참가자와 입장
+${describeParticipants(config, participant)}
+
+## 이번 발언
+${FLOOR_INSTRUCTIONS[reason]}
+
+## 지침
+- 2-3문장으로 말하세요. 실제 토론처럼 구어체로, 상대의 이름을 부르며 말해도 됩니다.
+- 입장을 쉽게 바꾸지 마세요. 다만 지원자가 구체적인 근거로 설득력 있게 반박했다면 그 부분만 인정하고 다른 논거로 이어가세요.
+- 면접관처럼 질문하거나 평가하지 마세요. 발언 앞에 이름표를 붙이지 마세요.
+- 응답 JSON의 question 필드에 당신의 발언을 적고, follow_up_intent는 false로 두세요.
+- evaluation과 inner_thought에는 지원자의 방금 발언이 얼마나 설득력 있었는지에 대한 당신의 판단을 적으세요.
+${getLanguageInstruction(language)}`;
+}
+
+/**
+ * Prompt for the moderating interviewer
+ */
+export function buildModeratorPrompt(
+  reason: FloorReason,
+  topic: DiscussionTopic,
+  config: DiscussionConfig,
+  moderatorName: string,
+  contribution: ContributionShare,
+  language: InterviewLanguage = 'ko'
+): string {
+  return `당신은 그룹 토론 면접의 사회자 '${moderatorName}'(${INTERVIEWER_BASE[DISCUSSION_MODERATOR].role})입니다.
+중립을 지키며 토론을 진행합니다. 어느 입장도 편들지 마세요.
+
+## 논제
+${topic.motion}
+
+## 참가자와 입장
+${describeParticipants(config)}
+
+## 진행 현황
+- 지원자 발언 비중: ${Math.round(contribution.share * 100)}% (참가자 수 기준 균등 비중 ${Math.round(contribution.even_share * 100)}%)
+
+## 이번 발언
+${FLOOR_INSTRUCTIONS[reason]}
+
+## 지침
+- 1-2문장으로 간결하게 말하세요. 쟁점을 요약할 때 특정 입장이 옳다고 말하지 마세요.
+- 발언 앞에 이름표를 붙이지 마세요.
+- 응답 JSON의 question 필드에 당신의 발언을 적고, follow_up_intent는 false로 두세요.
+${getLanguageInstruction(language)}`;
+}
+
+/**
+ * Prompt for whoever holds the floor
+ */
+export function buildDiscussionSpeakerPrompt(
+  decision: FloorDecision,
+  topic: DiscussionTopic,
+  config: DiscussionConfig,
+  moderatorName: string,
+  contribution: ContributionShare,
+  language: InterviewLanguage = 'ko'
+): string {
+  return decision.participant
+    ? buildCoCandidatePrompt(decision.participant, decision.reason, topic, config, language)
+    : buildModeratorPrompt(decision.reason, topic, config, moderatorName, contribution, language);
+}
+
+/**
+ * History line with its speaker, so each voice sees who said what
+ */
+export function labelDiscussionMessage(
+  role: 'user' | 'assistant',
+  speakerId: string | null | undefined,
+  content: string,
+  config: DiscussionConfig,
+  moderatorName: string
+): string {
+  if (role === 'user') {
+    return `[지원자] ${content}`;
+  }
+  const participant = isCoCandidateId(speakerId)
+    ? config.participants.find(p => p.id === speakerId)
+    : undefined;
+  return `[${participant ? participant.name : `사회자 ${moderatorName}`}] ${content}`;
+}
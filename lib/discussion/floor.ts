@@ -0,0 +1,168 @@
+// ============================================
+// Group Discussion Floor
+// ============================================
+// Who speaks after each of the candidate's turns, and how the candidate used
+// the floor. Each candidate turn gets exactly one reply: a co-candidate
+// (rebuttal, support, or grabbing the floor when named) or the moderator
+// (steering every few turns, reining in a candidate who dominates, closing).
+// The same utterance list feeds contribution share and listening in the report.
+
+import { extractTerms } from '@/lib/presentation/coverage';
+import {
+  DISCUSSION_MODERATOR,
+  type DiscussionConfig,
+  type DiscussionParticipant,
+  type DiscussionSpeakerId,
+} from '@/types/interview';
+
+export interface DiscussionUtterance {
+  speaker: 'user' | DiscussionSpeakerId;
+  content: string;
+}
+
+export type FloorReason =
+  | 'floor_grab'    // The candidate named a co-candidate, who cuts in to answer
+  | 'rebuttal'      // Opposing co-candidate answers the candidate
+  | 'support'       // Same-side co-candidate builds on (or sharpens) the point
+  | 'moderate'      // Moderator summarizes and steers to an open issue
+  | 'balance'       // Moderator reins in a candidate who holds the floor too long
+  | 'closing';      // Moderator asks for closing statements
+
+export interface FloorDecision {
+  speaker: DiscussionSpeakerId;
+  reason: FloorReason;
+  participant?: DiscussionParticipant;
+}
+
+// Moderator steps in after this many co-candidate turns in a row
+const MODERATOR_INTERVAL = 3;
+// Candidate holding more than this multiple of an even share gets reined in
+const DOMINANCE_RATIO = 1.8;
+const OPPONENT_PROBABILITY = 0.7;
+
+// Phrases that show the candidate is answering someone else's point
+const REFERENCE_PHRASES = [
+  '말씀하신', '말씀처럼', '말씀대로', '의견에', '지적하신', '동의합니다', '동의하지만', '반론', '방금',
+  'you mentioned', 'as you said', 'i agree', 'i disagree', 'your point',
+];
+const SHARED_TERMS_FOR_RESPONSE = 2;
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+export interface ContributionShare {
+  user_words: number;
+  total_words: number;
+  user_turns: number;
+  share: number;        // 0-1, the candidate's share of all words spoken
+  even_share: number;   // 1 / (co-candidates + 1)
+}
+
+/**
+ * The candidate's share of the debate (moderator lines are not counted)
+ */
+export function measureContribution(utterances: DiscussionUtterance[], participantCount: number): ContributionShare {
+  const debate = utterances.filter(utterance => utterance.speaker !== DISCUSSION_MODERATOR);
+  const userUtterances = debate.filter(utterance => utterance.speaker === 'user');
+  const userWords = userUtterances.reduce((sum, utterance) => sum + countWords(utterance.content), 0);
+  const totalWords = debate.reduce((sum, utterance) => sum + countWords(utterance.content), 0);
+
+  return {
+    user_words: userWords,
+    total_words: totalWords,
+    user_turns: userUtterances.length,
+    share: totalWords > 0 ? Math.round((userWords / totalWords) * 100) / 100 : 0,
+    even_share: Math.round((1 / (participantCount + 1)) * 100) / 100,
+  };
+}
+
+export interface ListeningStats {
+  responses: number;    // Candidate turns that followed someone else
+  engaged: number;      // ...and picked up what was just said
+  rate: number;         // 0-1
+}
+
+/**
+ * Whether the candidate answered the previous speaker: named them, used a
+ * reference phrase, or picked up at least two of their key terms
+ */
+export function measureListening(utterances: DiscussionUtterance[], participants: DiscussionParticipant[]): ListeningStats {
+  let responses = 0;
+  let engaged = 0;
+
+  utterances.forEach((utterance, index) => {
+    const previous = utterances[index - 1];
+    if (utterance.speaker !== 'user' || !previous || previous.speaker === 'user') return;
+
+    responses++;
+    const text = utterance.content.toLowerCase();
+    const previousTerms = new Set(extractTerms(previous.content));
+    const sharedTerms = extractTerms(utterance.content).filter(term => previousTerms.has(term)).length;
+
+    if (
+      participants.some(participant => utterance.content.includes(participant.name))
+      || REFERENCE_PHRASES.some(phrase => text.includes(phrase))
+      || sharedTerms >= SHARED_TERMS_FOR_RESPONSE
+    ) {
+      engaged++;
+    }
+  });
+
+  return {
+    responses,
+    engaged,
+    rate: responses > 0 ? Math.round((engaged / responses) * 100) / 100 : 0,
+  };
+}
+
+/**
+ * Next speaker after the candidate's turn
+ * `utterances` ends with the candidate's latest turn
+ */
+export function selectNextSpeaker(
+  utterances: DiscussionUtterance[],
+  config: DiscussionConfig,
+  turnCount: number,
+  maxTurns: number,
+  random: () => number = Math.random
+): FloorDecision {
+  const moderator: FloorDecision = { speaker: DISCUSSION_MODERATOR, reason: 'moderate' };
+
+  if (turnCount >= maxTurns - 2) {
+    return { ...moderator, reason: 'closing' };
+  }
+
+  const latest = utterances[utterances.length - 1];
+  const named = latest?.speaker === 'user'
+    ? config.participants.find(participant => latest.content.includes(participant.name))
+    : undefined;
+  if (named) {
+    return { speaker: named.id, reason: 'floor_grab', participant: named };
+  }
+
+  const speakers = utterances.map(utterance => utterance.speaker);
+  const coCandidateTurns = speakers
+    .slice(speakers.lastIndexOf(DISCUSSION_MODERATOR) + 1)
+    .filter(speaker => speaker !== 'user').length;
+  if (coCandidateTurns >= MODERATOR_INTERVAL) {
+    return moderator;
+  }
+
+  const contribution = measureContribution(utterances, config.participants.length);
+  const moderatorJustSpoke = speakers[speakers.length - 2] === DISCUSSION_MODERATOR;
+  if (!moderatorJustSpoke && contribution.user_turns >= 2 && contribution.share > contribution.even_share * DOMINANCE_RATIO) {
+    return { ...moderator, reason: 'balance' };
+  }
+
+  const opponents = config.participants.filter(participant => participant.stance !== config.candidate_stance);
+  const allies = config.participants.filter(participant => participant.stance === config.candidate_stance);
+  const rebut = allies.length === 0 || random() < OPPONENT_PROBABILITY;
+  const pool = rebut ? opponents : allies;
+
+  // Whoever has been quiet the longest takes the floor
+  const lastSpoke = (participant: DiscussionParticipant) => speakers.lastIndexOf(participant.id);
+  const next = [...pool].sort((a, b) => lastSpoke(a) - lastSpoke(b))[0];
+
+  return { speaker: next.id, reason: rebut ? 'rebuttal' : 'support', participant: next };
+}
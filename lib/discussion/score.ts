@@ -0,0 +1,49 @@
+// ============================================
+// Group Discussion Scores
+// ============================================
+// System-measured halves of the discussion axes. Contribution rewards a share
+// close to an even split (too quiet and dominating both lose points);
+// listening is the rate of turns that picked up what was just said. Each is
+// averaged with the evaluator's level; persuasiveness is the evaluator's alone.
+
+import type { ScoreLevel } from '@/lib/llm/prompts/scoring-rubric';
+import type { ContributionShare, ListeningStats } from './floor';
+
+// share ÷ even share → level (first band the ratio falls into)
+const CONTRIBUTION_BANDS: Array<{ min: number; max: number; level: ScoreLevel }> = [
+  { min: 0.75, max: 1.4, level: 5 },
+  { min: 0.55, max: 1.7, level: 4 },
+  { min: 0.4, max: 2.0, level: 3 },
+  { min: 0.2, max: 2.4, level: 2 },
+];
+
+function combineLevels(systemLevel: number | undefined, llmScore: number | undefined): ScoreLevel {
+  const llmLevel = llmScore !== undefined ? Math.min(5, Math.max(1, Math.round(llmScore))) : undefined;
+
+  if (systemLevel !== undefined && llmLevel !== undefined) {
+    return Math.round((systemLevel + llmLevel) / 2) as ScoreLevel;
+  }
+  return (systemLevel ?? llmLevel ?? 1) as ScoreLevel;
+}
+
+/**
+ * Contribution: how close the candidate's share is to an even split
+ */
+export function calculateContributionScore(contribution: ContributionShare | null, llmScore?: number): ScoreLevel {
+  let systemLevel: number | undefined;
+  if (contribution && contribution.user_turns > 0 && contribution.even_share > 0) {
+    const ratio = contribution.share / contribution.even_share;
+    systemLevel = CONTRIBUTION_BANDS.find(band => ratio >= band.min && ratio <= band.max)?.level ?? 1;
+  }
+  return combineLevels(systemLevel, llmScore);
+}
+
+/**
+ * Listening: share of replies that picked up the previous speaker (0-1 → 1-5)
+ */
+export function calculateListeningScore(listening: ListeningStats | null, llmScore?: number): ScoreLevel {
+  const systemLevel = listening && listening.responses > 0
+    ? 1 + Math.round(4 * listening.rate)
+    : undefined;
+  return combineLevels(systemLevel, llmScore);
+}
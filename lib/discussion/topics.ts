@@ -0,0 +1,254 @@
+// ============================================
+// Group Discussion Topics
+// ============================================
+// Debate motions for the group discussion round. Each stance carries the
+// arguments its co-candidates draw on, so the AI side keeps a consistent
+// position instead of drifting to agreement. The candidate is assigned a
+// stance too, the way real 토론 면접 rounds do.
+
+import {
+  CO_CANDIDATE_IDS,
+  getRandomMBTI,
+  type DiscussionConfig,
+  type DiscussionParticipant,
+} from '@/types/interview';
+
+export interface DiscussionStance {
+  name: string;
+  arguments: string[];
+}
+
+export interface DiscussionTopic {
+  id: string;
+  title: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  motion: string;           // The question being debated
+  background: string;
+  stances: [DiscussionStance, DiscussionStance];
+}
+
+// What the client sees: the motion and stance names, not the argument bank
+export interface PublicDiscussion {
+  topic: {
+    id: string;
+    title: string;
+    motion: string;
+    background: string;
+    stances: string[];
+  };
+  candidate_stance: string;
+  participants: DiscussionParticipant[];
+}
+
+export const DISCUSSION_TOPICS: DiscussionTopic[] = [
+  {
+    id: 'four_day_week',
+    title: '주 4일 근무제 도입',
+    difficulty: 'easy',
+    motion: '우리 회사는 주 4일 근무제를 도입해야 한다.',
+    background: '일부 기업이 주 4일제를 시범 도입해 생산성과 채용 경쟁력이 올랐다는 결과를 냈지만, 고객 대응 공백과 업무 강도 증가에 대한 우려도 있습니다.',
+    stances: [
+      {
+        name: '찬성',
+        arguments: [
+          '시범 도입 기업에서 생산성이 유지되거나 올랐다는 결과가 있다',
+          '우수 인재 채용과 이직률 감소에 효과가 크다',
+          '불필요한 회의와 보고가 줄어 일하는 방식이 효율적으로 바뀐다',
+        ],
+      },
+      {
+        name: '반대',
+        arguments: [
+          '고객 대응과 협력사 일정에 공백이 생긴다',
+          '같은 업무량을 4일에 몰아 하면서 업무 강도와 번아웃이 커진다',
+          '직무별로 적용 가능성이 달라 형평성 문제가 생긴다',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'remote_work',
+    title: '재택근무 유지 vs 사무실 복귀',
+    difficulty: 'easy',
+    motion: '팬데믹 이후에도 재택근무를 기본 근무 형태로 유지해야 한다.',
+    background: '재택근무를 유지하는 기업과 주 5일 출근으로 돌아간 기업이 나뉘고 있습니다. 협업의 질, 신입 온보딩, 채용 범위가 주요 쟁점입니다.',
+    stances: [
+      {
+        name: '찬성',
+        arguments: [
+          '출퇴근 시간이 줄어 집중 시간이 늘고 만족도가 높다',
+          '지역 제약 없이 인재를 채용할 수 있다',
+          '사무실 비용을 줄여 다른 곳에 투자할 수 있다',
+        ],
+      },
+      {
+        name: '반대',
+        arguments: [
+          '신입과 주니어의 학습과 온보딩이 느려진다',
+          '비공식적인 대화에서 나오는 아이디어와 협업이 줄어든다',
+          '성과 관리와 소속감 유지가 어렵다',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'generative_ai_at_work',
+    title: '업무 중 생성형 AI 전면 허용',
+    difficulty: 'medium',
+    motion: '회사는 모든 직원의 업무에 생성형 AI 사용을 전면 허용해야 한다.',
+    background: '생성형 AI로 문서 작성과 코딩 속도가 크게 빨라졌지만, 사내 기밀 유출과 결과물의 정확성 문제로 사용을 제한하는 기업도 많습니다.',
+    stances: [
+      {
+        name: '찬성',
+        arguments: [
+          '반복 업무 시간을 줄여 고부가가치 업무에 집중할 수 있다',
+          '금지해도 개인 계정으로 몰래 쓰게 되어 오히려 통제가 어렵다',
+          '경쟁사보다 늦게 도입하면 생산성 격차가 벌어진다',
+        ],
+      },
+      {
+        name: '반대',
+        arguments: [
+          '고객 정보와 소스 코드 같은 기밀이 외부 모델로 유출될 수 있다',
+          '그럴듯하지만 틀린 결과물을 검증 없이 쓰는 위험이 크다',
+          '저작권과 책임 소재가 정리되지 않았다',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'team_based_bonus',
+    title: '개인 성과급 vs 팀 성과급',
+    difficulty: 'medium',
+    motion: '성과급은 개인 평가가 아닌 팀 성과를 기준으로 지급해야 한다.',
+    background: '개인 성과급은 동기 부여에 효과적이지만 팀 내 경쟁과 협업 저하를 낳는다는 비판이 있고, 팀 성과급은 무임승차 문제가 지적됩니다.',
+    stances: [
+      {
+        name: '찬성',
+        arguments: [
+          '대부분의 성과는 협업에서 나오며 개인 기여를 정확히 나누기 어렵다',
+          '정보 공유와 동료 지원이 늘어난다',
+          '평가를 둘러싼 갈등과 정치가 줄어든다',
+        ],
+      },
+      {
+        name: '반대',
+        arguments: [
+          '높은 성과를 낸 개인이 보상받지 못하면 이탈한다',
+          '무임승차가 생겨도 걸러내기 어렵다',
+          '개인의 성장 목표와 보상이 연결되지 않는다',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'platform_fee_regulation',
+    title: '플랫폼 수수료 상한 규제',
+    difficulty: 'hard',
+    motion: '정부는 배달·앱마켓 등 대형 플랫폼의 수수료에 상한을 정해야 한다.',
+    background: '플랫폼 수수료가 입점 소상공인의 부담을 키운다는 지적과, 가격 규제가 서비스 투자와 혁신을 위축시킨다는 반론이 맞서고 있습니다.',
+    stances: [
+      {
+        name: '찬성',
+        arguments: [
+          '시장 지배력이 큰 플랫폼은 수수료를 일방적으로 정할 수 있다',
+          '수수료 부담이 결국 소비자 가격 인상으로 전가된다',
+          '자율 규제로는 개선 속도가 너무 느렸다',
+        ],
+      },
+      {
+        name: '반대',
+        arguments: [
+          '가격 상한은 서비스 품질 투자와 신규 사업자 진입을 위축시킨다',
+          '플랫폼은 다른 수수료나 광고비로 부담을 옮길 수 있다',
+          '업종과 플랫폼별 구조가 달라 일률적 상한은 부작용이 크다',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'blind_hiring',
+    title: '신입 채용 블라인드 의무화',
+    difficulty: 'hard',
+    motion: '모든 기업의 신입 채용에서 학력과 출신 학교 기재를 금지해야 한다.',
+    background: '블라인드 채용이 공정성을 높였다는 평가와 함께, 직무 역량을 검증할 정보가 부족해 오히려 다른 스펙 경쟁이 심해졌다는 지적도 있습니다.',
+    stances: [
+      {
+        name: '찬성',
+        arguments: [
+          '학벌에 따른 서류 단계 차별을 구조적으로 막는다',
+          '직무 역량 중심의 평가 방식 개발을 촉진한다',
+          '다양한 배경의 인재가 조직에 들어온다',
+        ],
+      },
+      {
+        name: '반대',
+        arguments: [
+          '기업의 채용 자율성을 과도하게 제한한다',
+          '학력 대신 자격증·대외활동 같은 다른 스펙 경쟁이 심해진다',
+          '전공과 학업 성취가 직무와 직결되는 분야도 있다',
+        ],
+      },
+    ],
+  },
+];
+
+// Co-candidate names (kept apart from the interviewer name pool)
+const CO_CANDIDATE_NAMES = ['김도윤', '이서준', '박하람', '정예린', '최지안', '한수아', '윤태오', '강다인'];
+const CO_CANDIDATE_EMOJIS = ['🧑', '👩', '🧑‍💻'];
+
+export function getDiscussionTopic(id: string): DiscussionTopic | undefined {
+  return DISCUSSION_TOPICS.find(topic => topic.id === id);
+}
+
+/**
+ * Random topic for the session difficulty (falls back to any topic)
+ */
+export function pickDiscussionTopic(difficulty: 'easy' | 'medium' | 'hard'): DiscussionTopic {
+  const candidates = DISCUSSION_TOPICS.filter(topic => topic.difficulty === difficulty);
+  const pool = candidates.length > 0 ? candidates : DISCUSSION_TOPICS;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+/**
+ * Assign the candidate a stance and seat the co-candidates
+ * Two co-candidates on easy (one on each side), three otherwise (2 vs 2 with the candidate)
+ */
+export function createDiscussionConfig(
+  topic: DiscussionTopic,
+  difficulty: 'easy' | 'medium' | 'hard',
+  random: () => number = Math.random
+): DiscussionConfig {
+  const candidateSide = random() < 0.5 ? 0 : 1;
+  const count = difficulty === 'easy' ? 2 : 3;
+  const names = [...CO_CANDIDATE_NAMES].sort(() => random() - 0.5);
+
+  // Opponents first so the candidate is always challenged
+  const participants = CO_CANDIDATE_IDS.slice(0, count).map((id, index) => ({
+    id,
+    name: names[index],
+    stance: topic.stances[index % 2 === 0 ? 1 - candidateSide : candidateSide].name,
+    mbti: getRandomMBTI(),
+    emoji: CO_CANDIDATE_EMOJIS[index],
+  }));
+
+  return {
+    topic_id: topic.id,
+    candidate_stance: topic.stances[candidateSide].name,
+    participants,
+  };
+}
+
+export function toPublicDiscussion(topic: DiscussionTopic, config: DiscussionConfig): PublicDiscussion {
+  return {
+    topic: {
+      id: topic.id,
+      title: topic.title,
+      motion: topic.motion,
+      background: topic.background,
+      stances: topic.stances.map(stance => stance.name),
+    },
+    candidate_stance: config.candidate_stance,
+    participants: config.participants,
+  };
+}
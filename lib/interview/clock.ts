@@ -0,0 +1,103 @@
+// ============================================
+// Interview Session Clock
+// ============================================
+// The session timer runs in the browser. The interview page saves it with the
+// session (timer_config.clock) when the candidate pauses, when the tab is
+// hidden or closed, and after every turn. A reopened session continues from
+// the last save, so time spent away (a refresh, a dropped connection) isn't
+// counted. Sessions left without activity for SESSION_EXPIRY_HOURS expire.
+
+import type { InterviewSession, PresentationConfig, SessionClock } from '@/types/interview';
+
+// 5-minute session timer; PT mode adds the presentation time on top
+export const INTERVIEW_TIME_LIMIT = 300;
+export const SESSION_EXPIRY_HOURS = 24;
+
+// Sessions that can be paused, resumed and reopened
+export const RESUMABLE_STATUSES: InterviewSession['status'][] = ['active', 'paused'];
+
+interface ClockSession {
+  status: string;
+  updated_at: string;
+}
+
+export function getSessionTimeLimit(timerConfig: unknown): number {
+  const presentation = (timerConfig as { presentation?: PresentationConfig } | null)?.presentation;
+  return INTERVIEW_TIME_LIMIT + (presentation ? presentation.minutes * 60 : 0);
+}
+
+/**
+ * Active or paused, but untouched for longer than SESSION_EXPIRY_HOURS
+ * (updated_at moves with every turn, pause and clock save)
+ */
+export function isSessionExpired(session: ClockSession, now: number = Date.now()): boolean {
+  if (!RESUMABLE_STATUSES.includes(session.status as InterviewSession['status'])) return false;
+  return now - new Date(session.updated_at).getTime() > SESSION_EXPIRY_HOURS * 60 * 60 * 1000;
+}
+
+export function isResumableSession(session: ClockSession, now: number = Date.now()): boolean {
+  return RESUMABLE_STATUSES.includes(session.status as InterviewSession['status']) && !isSessionExpired(session, now);
+}
+
+const toSeconds = (value: unknown, max: number): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.max(0, Math.min(max, Math.round(value)))
+    : undefined;
+
+/**
+ * Validate the clock sent to /api/interview/pause
+ * The time limit comes from the session, not from the client
+ */
+export function parseSessionClock(
+  raw: unknown,
+  timeLimit: number,
+  now: Date = new Date()
+): { clock: SessionClock } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: '타이머 정보가 필요합니다.' };
+  }
+
+  const { remaining_seconds, answer_seconds_left, presentation_seconds_left } = raw as Partial<SessionClock>;
+  const remaining = toSeconds(remaining_seconds, timeLimit);
+  if (remaining === undefined) {
+    return { error: '유효하지 않은 타이머 정보입니다.' };
+  }
+
+  const answerSeconds = toSeconds(answer_seconds_left, timeLimit);
+  const presentationSeconds = toSeconds(presentation_seconds_left, timeLimit);
+
+  return {
+    clock: {
+      time_limit: timeLimit,
+      remaining_seconds: remaining,
+      ...(answerSeconds !== undefined ? { answer_seconds_left: answerSeconds } : {}),
+      ...(presentationSeconds !== undefined ? { presentation_seconds_left: presentationSeconds } : {}),
+      saved_at: now.toISOString(),
+    },
+  };
+}
+
+/**
+ * Clock for a reopened session: the last save, or, when the session never
+ * saved one, the time limit minus the span of the conversation so far
+ */
+export function restoreSessionClock(
+  timerConfig: unknown,
+  messages: Array<{ created_at: string }>
+): SessionClock {
+  const timeLimit = getSessionTimeLimit(timerConfig);
+  const saved = (timerConfig as { clock?: SessionClock } | null)?.clock;
+  if (saved && typeof saved.remaining_seconds === 'number') {
+    return { ...saved, time_limit: timeLimit, remaining_seconds: Math.min(timeLimit, saved.remaining_seconds) };
+  }
+
+  const first = messages[0] ? new Date(messages[0].created_at).getTime() : NaN;
+  const last = messages.length > 0 ? new Date(messages[messages.length - 1].created_at).getTime() : NaN;
+  const elapsed = Number.isFinite(first) && Number.isFinite(last) ? Math.round((last - first) / 1000) : 0;
+
+  return {
+    time_limit: timeLimit,
+    remaining_seconds: Math.max(0, timeLimit - elapsed),
+    saved_at: messages.length > 0 ? messages[messages.length - 1].created_at : new Date().toISOString(),
+  };
+}
@@ -0,0 +1,210 @@
+// ============================================
+// Interview Session Recovery
+// ============================================
+// Everything the interview page needs to continue a session after a refresh,
+// a dropped connection or a reopen from the history page: the conversation,
+// the mode's problem / deck / motion / resume plan with the candidate's
+// progress on it, and the saved clock. Reopening never charges credits again;
+// sessions left for SESSION_EXPIRY_HOURS are marked abandoned instead.
+
+import { getCodingProblem, toPublicProblem, type PublicCodingProblem } from '@/lib/coding/problems';
+import { getDesignProblem, type DesignProblem } from '@/lib/design/problems';
+import { getCaseProblem, toPublicCase, type PublicCaseProblem } from '@/lib/case/cases';
+import { getDiscussionTopic, toPublicDiscussion, type PublicDiscussion } from '@/lib/discussion/topics';
+import { measureClaimCoverage } from '@/lib/resume/coverage';
+import { RESUMABLE_STATUSES, isSessionExpired, restoreSessionClock } from '@/lib/interview/clock';
+import type { SupabaseServerClient, InterviewSessionRow } from '@/lib/interview/turn';
+import type {
+  CaseFrameworkBranch,
+  CaseState,
+  CodeSubmission,
+  DesignDiagram,
+  DiscussionConfig,
+  PresentationConfig,
+  ResumeClaimCoverage,
+  ResumePlan,
+  SessionClock,
+  SessionInterviewerNames,
+  StructuredResponse,
+} from '@/types/interview';
+
+// Columns the recovery needs from each message
+export const RECOVERY_MESSAGE_COLUMNS =
+  'id, role, interviewer_id, content, structured_response, code_submission, design_diagram, case_state, resume_claim_id, created_at';
+
+export interface RecoveryMessageRow {
+  id: string;
+  role: string;
+  interviewer_id?: string | null;
+  content: string;
+  structured_response?: StructuredResponse | null;
+  code_submission?: CodeSubmission | null;
+  design_diagram?: DesignDiagram | null;
+  case_state?: CaseState | null;
+  resume_claim_id?: string | null;
+  created_at: string;
+}
+
+export interface RecoveredMessage {
+  id: string;
+  role: 'user' | 'interviewer';
+  interviewer_id?: string;
+  content: string;
+  inner_thought?: string;
+  timestamp: string;
+}
+
+export interface RecoveredInterview {
+  session: Pick<
+    InterviewSessionRow,
+    'id' | 'job_type' | 'difficulty' | 'interview_mode' | 'status' | 'turn_count' | 'max_turns' | 'timer_config' | 'current_interviewer_id' | 'created_at'
+  >;
+  messages: RecoveredMessage[];
+  interviewer_names?: SessionInterviewerNames;
+  clock: SessionClock;
+  // Coding mode: problem without hidden tests and the code as last submitted
+  coding_problem?: PublicCodingProblem;
+  code_source?: string;
+  // System design mode: problem and the whiteboard as last submitted
+  design_problem?: DesignProblem;
+  design_diagram?: DesignDiagram;
+  // Case mode: scenario with the exhibits revealed so far, and the tracked framework
+  case_problem?: PublicCaseProblem;
+  case_framework?: CaseFrameworkBranch[];
+  // PT mode: deck, and whether the presentation was already given
+  presentation?: PresentationConfig;
+  presentation_done?: boolean;
+  // Group discussion mode
+  discussion?: PublicDiscussion;
+  // Resume deep-dive mode: plan, coverage and the claim the latest question is about
+  resume_plan?: ResumePlan;
+  resume_coverage?: ResumeClaimCoverage[];
+  resume_claim_id?: string | null;
+}
+
+interface RecoveryMetadata {
+  interviewer_names?: SessionInterviewerNames;
+  coding_problem_id?: string;
+  design_problem_id?: string;
+  case_problem_id?: string;
+  presentation?: PresentationConfig;
+  discussion?: DiscussionConfig;
+  resume_plan?: ResumePlan;
+}
+
+/**
+ * Mark the user's stale active / paused sessions abandoned
+ * Returns the expired session ids
+ */
+export async function expireStaleSessions(
+  supabase: SupabaseServerClient,
+  userId: string,
+  now: number = Date.now()
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('interview_sessions')
+    .select('id, status, updated_at')
+    .eq('user_id', userId)
+    .in('status', RESUMABLE_STATUSES);
+
+  if (error) {
+    throw new Error(`Failed to load unfinished sessions: ${error.message}`);
+  }
+
+  const expired = ((data || []) as Array<{ id: string; status: string; updated_at: string }>)
+    .filter(session => isSessionExpired(session, now))
+    .map(session => session.id);
+
+  for (const id of expired) {
+    const { error: updateError } = await supabase
+      .from('interview_sessions')
+      .update({ status: 'abandoned' })
+      .eq('id', id);
+
+    if (updateError) {
+      throw new Error(`Failed to expire session ${id}: ${updateError.message}`);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Page state for a reopened session
+ * `messages` is the whole conversation in order
+ */
+export function buildRecoveredInterview(session: InterviewSessionRow, messages: RecoveryMessageRow[]): RecoveredInterview {
+  const meta = (session.timer_config as unknown as RecoveryMetadata | null) || {};
+  const userMessages = messages.filter(msg => msg.role === 'user');
+  const latest = <T>(pick: (msg: RecoveryMessageRow) => T | null | undefined): T | undefined => {
+    for (let i = userMessages.length - 1; i >= 0; i--) {
+      const value = pick(userMessages[i]);
+      if (value) return value;
+    }
+    return undefined;
+  };
+
+  const recovered: RecoveredInterview = {
+    session: {
+      id: session.id,
+      job_type: session.job_type,
+      difficulty: session.difficulty,
+      interview_mode: session.interview_mode,
+      status: session.status,
+      turn_count: session.turn_count,
+      max_turns: session.max_turns,
+      timer_config: session.timer_config,
+      current_interviewer_id: session.current_interviewer_id,
+      created_at: session.created_at,
+    },
+    messages: messages
+      .filter(msg => msg.role === 'user' || msg.role === 'interviewer')
+      .map(msg => ({
+        id: msg.id,
+        role: msg.role as RecoveredMessage['role'],
+        ...(msg.interviewer_id ? { interviewer_id: msg.interviewer_id } : {}),
+        content: msg.content,
+        ...(msg.structured_response?.inner_thought ? { inner_thought: msg.structured_response.inner_thought } : {}),
+        timestamp: msg.created_at,
+      })),
+    interviewer_names: meta.interviewer_names,
+    clock: restoreSessionClock(session.timer_config, messages),
+  };
+
+  const codingProblem = meta.coding_problem_id ? getCodingProblem(meta.coding_problem_id) : undefined;
+  if (codingProblem) {
+    recovered.coding_problem = toPublicProblem(codingProblem);
+    recovered.code_source = latest(msg => msg.code_submission?.source) ?? codingProblem.starter_code;
+  }
+
+  const designProblem = meta.design_problem_id ? getDesignProblem(meta.design_problem_id) : undefined;
+  if (designProblem) {
+    recovered.design_problem = designProblem;
+    recovered.design_diagram = latest(msg => msg.design_diagram) ?? { problem_id: designProblem.id, nodes: [], edges: [] };
+  }
+
+  const caseProblem = meta.case_problem_id ? getCaseProblem(meta.case_problem_id) : undefined;
+  if (caseProblem) {
+    const caseState = latest(msg => msg.case_state);
+    recovered.case_problem = toPublicCase(caseProblem, caseState?.revealed_exhibit_ids ?? []);
+    recovered.case_framework = caseState?.framework ?? [];
+  }
+
+  if (meta.presentation) {
+    recovered.presentation = meta.presentation;
+    recovered.presentation_done = userMessages.length > 0;
+  }
+
+  const discussionTopic = meta.discussion ? getDiscussionTopic(meta.discussion.topic_id) : undefined;
+  if (meta.discussion && discussionTopic) {
+    recovered.discussion = toPublicDiscussion(discussionTopic, meta.discussion);
+  }
+
+  if (meta.resume_plan) {
+    recovered.resume_plan = meta.resume_plan;
+    recovered.resume_coverage = measureClaimCoverage(meta.resume_plan.claims, messages);
+    recovered.resume_claim_id = [...messages].reverse().find(msg => msg.role !== 'user')?.resume_claim_id ?? null;
+  }
+
+  return recovered;
+}
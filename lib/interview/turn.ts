@@ -0,0 +1,821 @@
+// ============================================
+// Interviewer Turn
+// ============================================
+// One candidate answer → one interviewer question, shared by every transport
+// (/api/interview/message JSON + SSE, realtime voice sessions):
+// - history (heard content only), keyword extraction, follow-up / interviewer selection
+//   (or the session's interview plan: topic owner, follow-up depth, time budget)
+// - RAG context, question bank search
+// - per-answer rubric scoring, started in the background once the reply is saved
+// - persisting the interviewer message and advancing the session
+
+import { after } from 'next/server';
+import type { createServerClient } from '@supabase/ssr';
+import {
+  generateInterviewerResponse,
+  streamInterviewerResponse,
+  extractInterviewKeywords,
+  type ChatMessage,
+  type UserKeyword,
+  type LLMResponse,
+  type LLMStreamEvent,
+} from '@/lib/llm/router';
+import { ragService } from '@/lib/rag/service';
+import { searchRelevantQuestions } from '@/lib/rag/question-service';
+import { getCodingProblem } from '@/lib/coding/problems';
+import { formatCodingContext } from '@/lib/coding/context';
+import { getDesignProblem } from '@/lib/design/problems';
+import { formatDesignContext } from '@/lib/design/context';
+import { getCaseProblem } from '@/lib/case/cases';
+import { formatCaseContext } from '@/lib/case/context';
+import { emptyCaseState } from '@/lib/case/tracker';
+import { formatPresentationContext } from '@/lib/presentation/context';
+import { measureSlideCoverage } from '@/lib/presentation/coverage';
+import { formatPressureContext, wasAnswerCutOff } from '@/lib/pressure/context';
+import { getDiscussionTopic } from '@/lib/discussion/topics';
+import { measureContribution, selectNextSpeaker, type DiscussionUtterance } from '@/lib/discussion/floor';
+import { buildDiscussionSpeakerPrompt, labelDiscussionMessage } from '@/lib/discussion/context';
+import { measureClaimCoverage, selectNextClaim } from '@/lib/resume/coverage';
+import { formatResumeContext, formatResumeClosing } from '@/lib/resume/context';
+import { measurePlanProgress, selectPlanTopic } from '@/lib/plan/progress';
+import { formatPlanContext } from '@/lib/plan/context';
+import { scoreAndSaveAnswer, type AnswerScoringInput } from '@/lib/scoring/answers';
+import { createAdminSupabaseClient } from '@/lib/admin/server';
+import type { AnswerVoiceFeatures } from '@/lib/analysis/voice';
+import type { Database } from '@/types/database';
+import { INTERVIEWER_BASE, CODING_INTERVIEWERS, DESIGN_INTERVIEWERS, CASE_INTERVIEWERS, type InterviewerType, type MBTIType, QUESTION_BANK_CATEGORIES, type InterviewQuestionSearchResult, type StructuredResponse, type CodeSubmission, type DesignDiagram, type CaseState, type CaseExhibit, type PresentationConfig, type InterviewLanguage, PRESSURE_TIMER_CONFIG, DISCUSSION_MODERATOR, isCoCandidateId, type DiscussionConfig, type DiscussionParticipant, type DiscussionSpeakerId, type ResumePlan, type ResumeClaimCoverage, type InterviewPlan } from '@/types/interview';
+
+export type SupabaseServerClient = ReturnType<typeof createServerClient>;
+export type InterviewSessionRow = Database['public']['Tables']['interview_sessions']['Row'];
+
+// Maximum follow-up questions allowed when checking last 3 messages
+// If 전전 and 전전전 are both follow-ups, force new question
+const MAX_CONSECUTIVE_FOLLOW_UPS_IN_HISTORY = 2;
+
+/**
+ * Check if a new question should be forced based on consecutive follow-ups
+ * Returns true only if there have been 2 consecutive follow-ups (전 and 전전)
+ * Follow-ups are ENCOURAGED by default, new question only after 2 consecutive
+ */
+function shouldForceNewQuestion(recentInterviewerMessages: Array<{ structured_response?: StructuredResponse | null }>): boolean {
+  // Need at least 2 previous interviewer messages to check
+  if (recentInterviewerMessages.length < 2) {
+    return false; // Encourage follow-up
+  }
+
+  // Check the most recent messages (전, 전전)
+  // Index 0 is most recent (전), index 1 is 전전
+  const prev = recentInterviewerMessages[0]?.structured_response; // 전 (most recent)
+  const prevPrev = recentInterviewerMessages[1]?.structured_response; // 전전
+
+  // Check if both are follow-ups
+  const prevIsFollowUp = prev?.follow_up_intent === true;
+  const prevPrevIsFollowUp = prevPrev?.follow_up_intent === true;
+
+  // Force new question only if there have been 2 consecutive follow-ups
+  if (prevIsFollowUp && prevPrevIsFollowUp) {
+    console.log('[Follow-up Check] 2 consecutive follow-ups detected - forcing new question');
+    return true;
+  }
+
+  return false; // Otherwise, encourage follow-up
+}
+
+interface HistoryMessage {
+  role: string;
+  content: string;
+  interviewer_id?: string | null;
+  resume_claim_id?: string | null;
+  plan_topic_id?: string | null;
+  created_at?: string | null;
+  interrupted_at_char?: number | null;
+  code_submission?: CodeSubmission | null;
+  design_diagram?: DesignDiagram | null;
+  case_state?: CaseState | null;
+}
+
+/**
+ * What the candidate actually heard of a message
+ * If they barged in during playback, the interviewer message is cut at that point
+ * so the LLM doesn't assume the rest of the question was asked
+ */
+function toHeardContent(msg: HistoryMessage): string {
+  if (msg.interrupted_at_char === null || msg.interrupted_at_char === undefined) {
+    return msg.content;
+  }
+
+  const heard = msg.content.slice(0, msg.interrupted_at_char).trimEnd();
+  return `${heard}… (지원자가 여기서 말을 끊고 답변을 시작함)`;
+}
+
+/**
+ * Enhanced interviewer selection with follow-up probability
+ * If same interviewer selected, high chance of follow-up question
+ * If different interviewer, transform question or ask new one
+ * `panel` limits who may ask (e.g. technical interviewers only in coding mode)
+ */
+function selectNextInterviewer(
+  currentId: InterviewerType,
+  turnCount: number,
+  followUpProhibited: boolean = false,
+  panel?: InterviewerType[]
+): { nextId: InterviewerType; isFollowUp: boolean; shouldForceNewTopic: boolean } {
+  // Base weights for each interviewer
+  const allWeights: Record<InterviewerType, number> = {
+    hiring_manager: 0.4,
+    hr_manager: 0.2,
+    senior_peer: 0.4,
+  };
+  const baseWeights = panel
+    ? Object.fromEntries(panel.map(id => [id, allWeights[id]])) as Record<InterviewerType, number>
+    : allWeights;
+
+  // Force new topic if follow-up is prohibited by history analysis
+  if (followUpProhibited) {
+    console.log('[Interviewer Selection] Follow-up prohibited by history - forcing new topic');
+    // Must switch interviewer and start new topic
+    const others = (Object.keys(baseWeights) as InterviewerType[]).filter(id => id !== currentId);
+    const totalWeight = others.reduce((sum, id) => sum + baseWeights[id], 0);
+    const random = Math.random() * totalWeight;
+    let cumulative = 0;
+
+    for (const id of others) {
+      cumulative += baseWeights[id];
+      if (random <= cumulative) {
+        return { nextId: id, isFollowUp: false, shouldForceNewTopic: true };
+      }
+    }
+    return { nextId: others[0], isFollowUp: false, shouldForceNewTopic: true };
+  }
+
+  // Follow-up probability: same interviewer continues (higher early in interview)
+  const followUpProbability = Math.max(0.3, 0.6 - (turnCount * 0.05)); // Starts at 55%, decreases
+
+  // Decide if same interviewer should continue for follow-up
+  if (Math.random() < followUpProbability) {
+    return { nextId: currentId, isFollowUp: true, shouldForceNewTopic: false };
+  }
+
+  // Select different interviewer
+  const others = (Object.keys(baseWeights) as InterviewerType[]).filter(id => id !== currentId);
+  const totalWeight = others.reduce((sum, id) => sum + baseWeights[id], 0);
+
+  const random = Math.random() * totalWeight;
+  let cumulative = 0;
+
+  for (const id of others) {
+    cumulative += baseWeights[id];
+    if (random <= cumulative) {
+      return { nextId: id, isFollowUp: false, shouldForceNewTopic: false };
+    }
+  }
+
+  return { nextId: others[0], isFollowUp: false, shouldForceNewTopic: false };
+}
+
+// Everything needed to persist the interviewer's turn once the LLM has answered
+export interface InterviewerTurn {
+  supabase: SupabaseServerClient;
+  sessionId: string;
+  session: { turn_count: number; max_turns: number };
+  userMessageId?: string;
+  content: string;
+  nextInterviewerId: InterviewerType;
+  interviewerName: string;
+  isFollowUp: boolean;
+  shouldForceNewTopic: boolean;
+  forceNewQuestionFlag: boolean;
+  startTime: number;
+  caseState?: CaseState;              // Case mode: framework after this answer
+  revealedExhibits?: CaseExhibit[];   // Case mode: exhibits handed out on this turn
+  coCandidate?: DiscussionParticipant; // Group discussion: a co-candidate holds the floor instead of the moderator
+  resumeClaimId?: string;             // Resume deep-dive: the claim this question targets
+  resumeCoverage?: ResumeClaimCoverage[]; // Resume deep-dive: coverage after this answer
+  planTopicId?: string;               // Planned interviews: the agenda topic this question belongs to
+  answerScoring?: AnswerScoringInput; // The candidate's answer with the question it replied to
+}
+
+/**
+ * Who speaks on this turn: the interviewer, or a co-candidate in a group discussion
+ */
+export function getTurnSpeaker(turn: InterviewerTurn): { id: DiscussionSpeakerId; name: string; role: string; emoji: string } {
+  if (turn.coCandidate) {
+    return {
+      id: turn.coCandidate.id,
+      name: turn.coCandidate.name,
+      role: `토론 참가자 (${turn.coCandidate.stance})`,
+      emoji: turn.coCandidate.emoji,
+    };
+  }
+  const interviewerBase = INTERVIEWER_BASE[turn.nextInterviewerId];
+  return {
+    id: turn.nextInterviewerId,
+    name: turn.interviewerName, // Use session-assigned name
+    role: interviewerBase.role,
+    emoji: interviewerBase.emoji,
+  };
+}
+
+/**
+ * Keep the serverless function alive until `run` settles, even after the response is sent.
+ * Outside a request (realtime server, scripts, tests) there is nothing to extend and it just runs on.
+ */
+export function runAfterResponse(run: Promise<unknown>): void {
+  try {
+    after(run);
+  } catch {
+    // No request scope
+  }
+}
+
+/**
+ * Save the interviewer message, advance the session and build the API response body
+ * Shared by the JSON, SSE (streaming) and realtime voice paths so all persist identically
+ */
+export async function saveInterviewerTurn(turn: InterviewerTurn, llmResponse: LLMResponse) {
+  const { supabase, sessionId: session_id, session } = turn;
+  const speaker = getTurnSpeaker(turn);
+
+  // Save interviewer message
+  console.log('Saving interviewer message...');
+  const { data: interviewerMessage, error: intMsgError } = await supabase
+    .from('messages')
+    .insert({
+      session_id,
+      role: 'interviewer',
+      interviewer_id: speaker.id,
+      content: llmResponse.content,
+      structured_response: llmResponse.structuredResponse,
+      latency_ms: llmResponse.latencyMs,
+      ...(turn.resumeClaimId ? { resume_claim_id: turn.resumeClaimId } : {}),
+      ...(turn.planTopicId ? { plan_topic_id: turn.planTopicId } : {}),
+    })
+    .select()
+    .single();
+
+  if (intMsgError) {
+    console.error('Interviewer message save error:', intMsgError);
+    throw new Error(`Failed to save interviewer message: ${intMsgError.message}`);
+  }
+  console.log('Interviewer message saved:', interviewerMessage?.id);
+
+  // Score the answer against the core rubric in the background
+  // (not awaited; the end route scores any answer still missing a score)
+  const { userMessageId, answerScoring } = turn;
+  if (userMessageId && answerScoring) {
+    runAfterResponse(
+      Promise.resolve()
+        .then(() => scoreAndSaveAnswer(createAdminSupabaseClient(), session_id, userMessageId, answerScoring))
+        .catch(error => console.warn('[Answer Scoring] Background scoring failed:', error))
+    );
+  }
+
+  // Update session
+  const newTurnCount = session.turn_count + 1;
+  // Resume deep-dive also ends once every claim in the plan has been covered (the closing remark was just said)
+  const shouldEnd = newTurnCount >= session.max_turns || (!!turn.resumeCoverage && !turn.resumeClaimId);
+
+  console.log('Updating session:', {
+    newTurnCount,
+    shouldEnd,
+    isFollowUp: turn.isFollowUp,
+    shouldForceNewTopic: turn.shouldForceNewTopic,
+    forceNewQuestionFlag: turn.forceNewQuestionFlag,
+  });
+
+  const { error: updateError } = await supabase
+    .from('interview_sessions')
+    .update({
+      turn_count: newTurnCount,
+      current_interviewer_id: speaker.id,
+      status: shouldEnd ? 'completed' : 'active',
+    })
+    .eq('id', session_id);
+
+  if (updateError) {
+    console.error('Session update error:', updateError);
+    throw new Error(`Failed to update session: ${updateError.message}`);
+  }
+
+  console.log('=== Interview Message API: Success ===');
+  console.log('Total latency:', Date.now() - turn.startTime, 'ms');
+
+  return {
+    success: true,
+    user_message: {
+      id: turn.userMessageId || Date.now().toString(),
+      session_id,
+      role: 'user',
+      content: turn.content,
+      timestamp: new Date().toISOString(),
+    },
+    interviewer_response: {
+      id: interviewerMessage?.id || (Date.now() + 1).toString(),
+      session_id,
+      role: 'interviewer',
+      interviewer_id: speaker.id,
+      content: llmResponse.content,
+      structured_response: llmResponse.structuredResponse,
+      timestamp: new Date().toISOString(),
+      latency_ms: llmResponse.latencyMs,
+    },
+    interviewer: speaker,
+    session_status: shouldEnd ? 'completed' : 'active',
+    turn_count: newTurnCount,
+    should_end: shouldEnd,
+    total_latency_ms: Date.now() - turn.startTime,
+    ...(turn.caseState ? {
+      case_state: turn.caseState,
+      revealed_exhibits: turn.revealedExhibits || [],
+    } : {}),
+    ...(turn.resumeCoverage ? {
+      resume_claim_id: turn.resumeClaimId ?? null,
+      resume_coverage: turn.resumeCoverage,
+    } : {}),
+  };
+}
+
+
+// ============================================
+// Turn preparation
+// ============================================
+
+export interface PreparedInterviewerTurn {
+  turn: InterviewerTurn;
+  position: string;
+  conversationHistory: ChatMessage[];
+  context: string;
+  llmOptions: NonNullable<Parameters<typeof generateInterviewerResponse>[5]>;
+}
+
+/**
+ * Everything before the LLM call: history, keywords, interviewer selection, RAG, question bank
+ * The user message must already be saved (it is excluded from the fetched history)
+ */
+export async function prepareInterviewerTurn(
+  supabase: SupabaseServerClient,
+  session: InterviewSessionRow,
+  input: {
+    sessionId: string;
+    content: string;
+    userMessageId?: string;
+    startTime: number;
+    codeSubmission?: CodeSubmission;
+    designDiagram?: DesignDiagram;
+    caseState?: CaseState;
+    revealedExhibits?: CaseExhibit[];
+    voiceFeatures?: AnswerVoiceFeatures | null;
+  }
+): Promise<PreparedInterviewerTurn> {
+  const { sessionId: session_id, content, userMessageId, startTime, codeSubmission, designDiagram, caseState, revealedExhibits, voiceFeatures } = input;
+
+  // Get conversation history (excluding current message to avoid race condition)
+  console.log('Fetching conversation history...');
+  const { data: historyData, error: historyError } = await supabase
+    .from('messages')
+    .select('role, content, interviewer_id, resume_claim_id, plan_topic_id, created_at, structured_response, interrupted_at_char, code_submission, design_diagram, case_state')
+    .eq('session_id', session_id)
+    .neq('id', userMessageId || '') // Exclude the just-saved message
+    .order('created_at', { ascending: true });
+
+  if (historyError) {
+    console.error('History fetch error:', historyError);
+    throw new Error(`Failed to fetch history: ${historyError.message}`);
+  }
+
+  // Build conversation history
+  const conversationHistory: ChatMessage[] = (historyData || []).map((msg: HistoryMessage) => ({
+    role: msg.role === 'user' ? 'user' : 'assistant',
+    content: toHeardContent(msg),
+  })) as ChatMessage[];
+
+  // Add current user message explicitly
+  conversationHistory.push({ role: 'user', content });
+
+  // The question this answer replied to, as heard (for the per-answer rubric scoring)
+  const askedMessage = [...(historyData || []) as HistoryMessage[]].reverse().find(msg => msg.role !== 'user');
+
+  // ============================================
+  // Extract keywords after first user response (자기소개)
+  // Coding / design / case / PT interviews open with the problem or presentation, not a self-introduction
+  // ============================================
+  const interviewMode = session.interview_mode || 'standard';
+  if (session.turn_count === 0 && (interviewMode === 'standard' || interviewMode === 'pressure')) {
+    console.log('[Keyword Extraction] First user response - extracting keywords from self-introduction');
+    try {
+      const extractedKeywords = await extractInterviewKeywords(
+        [{ role: 'user', content }],
+        session.job_type
+      );
+
+      if (extractedKeywords.keywords && extractedKeywords.keywords.length > 0) {
+        console.log(`[Keyword Extraction] Extracted ${extractedKeywords.keywords.length} keywords`);
+
+        // Save keywords to user_keywords table (upsert)
+        for (const kw of extractedKeywords.keywords) {
+          const { error: kwError } = await supabase
+            .from('user_keywords')
+            .upsert({
+              user_id: session.user_id,
+              keyword: kw.keyword,
+              category: kw.category,
+              context: kw.context || null,
+              mentioned_count: kw.mentioned_count || 1,
+            }, {
+              onConflict: 'user_id,keyword',
+              ignoreDuplicates: false,
+            });
+
+          if (kwError) {
+            console.warn(`[Keyword Extraction] Failed to save keyword "${kw.keyword}":`, kwError);
+          }
+        }
+        console.log('[Keyword Extraction] Keywords saved to DB');
+      }
+    } catch (e) {
+      console.warn('[Keyword Extraction] Failed:', e);
+      // Don't fail the request if keyword extraction fails
+    }
+  }
+
+  // ============================================
+  // Analyze recent interviewer messages for follow-up pattern
+  // Follow-ups are ENCOURAGED, but force new question after 2 consecutive
+  // ============================================
+  const recentInterviewerMessages = (historyData || [])
+    .filter((msg: { role: string }) => msg.role === 'interviewer')
+    .slice(-3) // Last 3 interviewer messages
+    .reverse() as Array<{ structured_response?: StructuredResponse | null }>; // Most recent first
+
+  const forceNewQuestionFlag = shouldForceNewQuestion(recentInterviewerMessages);
+  console.log('[Follow-up Check] Recent interviewer messages:', recentInterviewerMessages.length);
+  console.log('[Follow-up Check] Force new question:', forceNewQuestionFlag);
+
+  // Select next interviewer with enhanced follow-up logic
+  // (group discussion: the moderator holds the turn, a co-candidate may take the floor below)
+  const isDiscussion = interviewMode === 'group_discussion';
+  const currentInterviewerId = isCoCandidateId(session.current_interviewer_id)
+    ? DISCUSSION_MODERATOR
+    : session.current_interviewer_id as InterviewerType || 'hiring_manager';
+
+  // Resume deep-dive: the plan decides between probing the same claim and moving to the next one
+  const resumePlan = interviewMode === 'resume_deep_dive'
+    ? (session.timer_config as unknown as { resume_plan?: ResumePlan } | null)?.resume_plan
+    : undefined;
+  let resumeCoverage: ResumeClaimCoverage[] | undefined;
+  let resumeTarget: ReturnType<typeof selectNextClaim> = null;
+  if (resumePlan) {
+    const resumeMessages: HistoryMessage[] = [...(historyData || []) as HistoryMessage[], { role: 'user', content }];
+    resumeCoverage = measureClaimCoverage(resumePlan.claims, resumeMessages);
+    const lastClaimId = [...resumeMessages].reverse().find(msg => msg.role !== 'user')?.resume_claim_id;
+    resumeTarget = selectNextClaim(resumePlan.claims, resumeCoverage, lastClaimId);
+    console.log('[Resume Deep-Dive] Target claim:', resumeTarget?.claim.id ?? 'none', resumeTarget?.followUp ? '(follow-up)' : '');
+  }
+
+  // Planned interviews: the topic's owner asks, following up while the topic has depth and time left
+  const interviewPlan = (session.timer_config as unknown as { interview_plan?: InterviewPlan } | null)?.interview_plan;
+  let planTarget: ReturnType<typeof selectPlanTopic> = null;
+  let planProgress: ReturnType<typeof measurePlanProgress> = [];
+  if (interviewPlan && !resumePlan && !isDiscussion) {
+    const planMessages: HistoryMessage[] = [
+      ...(historyData || []) as HistoryMessage[],
+      { role: 'user', content, created_at: new Date(startTime).toISOString() },
+    ];
+    planProgress = measurePlanProgress(interviewPlan, planMessages);
+    const lastTopicId = [...planMessages].reverse().find(msg => msg.role !== 'user')?.plan_topic_id;
+    planTarget = selectPlanTopic(interviewPlan, planProgress, lastTopicId, session.max_turns - session.turn_count);
+    console.log('[Interview Plan] Target topic:', planTarget?.topic.id ?? 'none', planTarget?.followUp ? '(follow-up)' : '');
+  }
+
+  const { nextId: nextInterviewerId, isFollowUp, shouldForceNewTopic } = isDiscussion
+    ? { nextId: DISCUSSION_MODERATOR, isFollowUp: false, shouldForceNewTopic: false }
+    : resumeTarget?.followUp
+      ? { nextId: currentInterviewerId, isFollowUp: true, shouldForceNewTopic: false }
+      : planTarget
+        ? { nextId: planTarget.topic.interviewer, isFollowUp: planTarget.followUp, shouldForceNewTopic: !planTarget.followUp }
+        : selectNextInterviewer(
+          currentInterviewerId,
+          session.turn_count,
+          forceNewQuestionFlag || !!resumeTarget, // 2+ consecutive follow-ups, or the plan moved to a new claim
+          interviewMode === 'coding' ? CODING_INTERVIEWERS
+            : interviewMode === 'system_design' ? DESIGN_INTERVIEWERS
+            : interviewMode === 'case' ? CASE_INTERVIEWERS
+            : undefined
+        );
+  const interviewerBase = INTERVIEWER_BASE[nextInterviewerId];
+
+  // Get interviewer MBTI and name from session metadata
+  interface SessionMetadata {
+    interviewer_mbti?: Record<InterviewerType, MBTIType>;
+    interviewer_names?: Record<InterviewerType, string>;
+    jd_text?: string;
+    coding_problem_id?: string;
+    design_problem_id?: string;
+    case_problem_id?: string;
+    presentation?: PresentationConfig;
+    language?: InterviewLanguage;
+    default_time_limit?: number;
+    discussion?: DiscussionConfig;
+  }
+  const sessionMetadata = (session.timer_config as unknown as SessionMetadata) || {};
+  const interviewerMbti = sessionMetadata.interviewer_mbti?.[nextInterviewerId] as MBTIType | undefined;
+  const interviewerName = sessionMetadata.interviewer_names?.[nextInterviewerId] || interviewerBase.name;
+  const jdText = sessionMetadata.jd_text;
+
+  // Coding / design / case interview: latest code, diagram or case state (this answer, else the last one sent)
+  let modeContext: string | undefined;
+  const history = (historyData || []) as HistoryMessage[];
+
+  const codingProblem = interviewMode === 'coding' && sessionMetadata.coding_problem_id
+    ? getCodingProblem(sessionMetadata.coding_problem_id)
+    : undefined;
+  if (codingProblem) {
+    const previousSubmissions = history.map(msg => msg.code_submission).filter(Boolean) as CodeSubmission[];
+    modeContext = formatCodingContext(
+      codingProblem,
+      codeSubmission || previousSubmissions[previousSubmissions.length - 1]
+    );
+  }
+
+  const designProblem = interviewMode === 'system_design' && sessionMetadata.design_problem_id
+    ? getDesignProblem(sessionMetadata.design_problem_id)
+    : undefined;
+  if (designProblem) {
+    const previousDiagrams = history.map(msg => msg.design_diagram).filter(Boolean) as DesignDiagram[];
+    modeContext = formatDesignContext(
+      designProblem,
+      designDiagram || previousDiagrams[previousDiagrams.length - 1]
+    );
+  }
+
+  const caseProblem = interviewMode === 'case' && sessionMetadata.case_problem_id
+    ? getCaseProblem(sessionMetadata.case_problem_id)
+    : undefined;
+  if (caseProblem) {
+    const previousStates = history.map(msg => msg.case_state).filter(Boolean) as CaseState[];
+    modeContext = formatCaseContext(
+      caseProblem,
+      caseState || previousStates[previousStates.length - 1] || emptyCaseState(caseProblem),
+      revealedExhibits
+    );
+  }
+
+  // PT interview: the first answer is the presentation itself, Q&A follows on the deck
+  const presentation = interviewMode === 'presentation' ? sessionMetadata.presentation : undefined;
+  if (presentation) {
+    const presentationTranscript = session.turn_count === 0
+      ? content
+      : history.find(msg => msg.role === 'user')?.content;
+    modeContext = formatPresentationContext(
+      presentation,
+      presentationTranscript,
+      presentationTranscript ? measureSlideCoverage(presentation.deck, presentationTranscript) : undefined
+    );
+  }
+
+  // Pressure interview: one tactic per turn, cutting in on answers the timer stopped
+  if (interviewMode === 'pressure') {
+    const timeLimit = sessionMetadata.default_time_limit || PRESSURE_TIMER_CONFIG.default_time_limit;
+    modeContext = formatPressureContext({
+      turnCount: session.turn_count,
+      maxTurns: session.max_turns,
+      timeLimit,
+      answerCutOff: wasAnswerCutOff(voiceFeatures, { default_time_limit: timeLimit }),
+      hasResume: !!session.resume_doc_id,
+    });
+  }
+
+  if (resumeTarget && resumeCoverage) {
+    modeContext = formatResumeContext({
+      claim: resumeTarget.claim,
+      followUp: resumeTarget.followUp,
+      coverage: resumeCoverage,
+    });
+  } else if (resumePlan) {
+    modeContext = formatResumeClosing();
+  }
+
+  // Planned interviews: the agenda goes next to the mode's own guidance (pressure tactics)
+  if (interviewPlan && planTarget) {
+    modeContext = [
+      modeContext,
+      formatPlanContext({ plan: interviewPlan, progress: planProgress, topic: planTarget.topic, followUp: planTarget.followUp }),
+    ].filter(Boolean).join('\n\n');
+  }
+
+  // Group discussion: one speaker takes the floor after each candidate turn, with
+  // their own prompt; the history is labelled so every voice knows who said what
+  let speakerPrompt: string | undefined;
+  let coCandidate: DiscussionParticipant | undefined;
+  const discussion = isDiscussion ? sessionMetadata.discussion : undefined;
+  const discussionTopic = discussion ? getDiscussionTopic(discussion.topic_id) : undefined;
+  if (discussion && discussionTopic) {
+    const utterances: DiscussionUtterance[] = [
+      ...history.map(msg => ({
+        speaker: msg.role === 'user' ? 'user' as const : (msg.interviewer_id as DiscussionSpeakerId) || DISCUSSION_MODERATOR,
+        content: msg.content,
+      })),
+      { speaker: 'user', content },
+    ];
+    const decision = selectNextSpeaker(utterances, discussion, session.turn_count, session.max_turns);
+    console.log('[Discussion] Floor:', decision.speaker, decision.reason);
+
+    coCandidate = decision.participant;
+    speakerPrompt = buildDiscussionSpeakerPrompt(
+      decision,
+      discussionTopic,
+      discussion,
+      interviewerName,
+      measureContribution(utterances, discussion.participants.length),
+      sessionMetadata.language
+    );
+    history.forEach((msg, index) => {
+      conversationHistory[index].content = labelDiscussionMessage(
+        msg.role === 'user' ? 'user' : 'assistant',
+        msg.interviewer_id,
+        conversationHistory[index].content,
+        discussion,
+        interviewerName
+      );
+    });
+    conversationHistory[conversationHistory.length - 1].content = labelDiscussionMessage('user', null, content, discussion, interviewerName);
+  }
+
+  // Get relevant context from RAG (both resume and portfolio)
+  const contextParts: string[] = [];
+
+  if (session.resume_doc_id) {
+    console.log('Fetching RAG context for resume:', session.resume_doc_id);
+    try {
+      const resumeContext = await ragService.getContextForInterview(
+        session.user_id,
+        content,
+        session.resume_doc_id
+      );
+      if (resumeContext) {
+        contextParts.push(`[이력서/자소서]\n${resumeContext}`);
+      }
+    } catch (e) {
+      console.warn('Failed to get resume RAG context:', e);
+    }
+  }
+
+  if (session.portfolio_doc_id) {
+    try {
+      const portfolioContext = await ragService.getContextForInterview(
+        session.user_id,
+        content,
+        session.portfolio_doc_id
+      );
+      if (portfolioContext) {
+        contextParts.push(`[포트폴리오]\n${portfolioContext}`);
+      }
+    } catch (e) {
+      console.warn('Failed to get portfolio RAG context:', e);
+    }
+  }
+
+  const context = contextParts.join('\n\n');
+
+  // Get user's previous interview keywords for continuity
+  let userKeywords: UserKeyword[] = [];
+  try {
+    const { data: keywordsData } = await supabase
+      .from('user_keywords')
+      .select('keyword, category, context, mentioned_count')
+      .eq('user_id', session.user_id)
+      .order('mentioned_count', { ascending: false })
+      .limit(20);
+
+    if (keywordsData && keywordsData.length > 0) {
+      userKeywords = keywordsData.map((kw: { keyword: string; category: string; context: string | null; mentioned_count: number }) => ({
+        keyword: kw.keyword,
+        category: kw.category as UserKeyword['category'],
+        context: kw.context || undefined,
+        mentioned_count: kw.mentioned_count,
+      }));
+    }
+  } catch (e) {
+    console.warn('Failed to load user keywords:', e);
+  }
+
+  // Search for relevant interview questions from question bank
+  let relevantQuestions: InterviewQuestionSearchResult[] = [];
+  try {
+    const jobCategory = QUESTION_BANK_CATEGORIES[session.job_type];
+
+    // Skip search if job category has no matching question bank (e.g., legal, finance)
+    // Group discussion speakers argue the motion; the deep-dive and planned interviews follow their plan
+    // (the interview plan already drew on the question bank at start)
+    if (jobCategory && !isDiscussion && !resumeTarget && !planTarget) {
+      // Build search query from context
+      const resumeText = context || '';
+      const keywordTexts = userKeywords.map(k => k.keyword);
+
+      relevantQuestions = await searchRelevantQuestions(
+        resumeText,
+        jdText || '',
+        keywordTexts,
+        jobCategory,
+        {
+          topK: 3,
+          useReranker: true,
+        }
+      );
+
+      if (relevantQuestions.length > 0) {
+        console.log(`Found ${relevantQuestions.length} relevant questions for ${jobCategory}`);
+      }
+    } else {
+      console.log(`No question bank for job_type: ${session.job_type}, skipping question search`);
+    }
+  } catch (e) {
+    console.warn('Failed to search relevant questions:', e);
+  }
+
+  // Generate interviewer response with RAG context, keywords, relevant questions, and follow-up logic
+  const llmOptions = {
+    userKeywords: userKeywords.length > 0 ? userKeywords : undefined,
+    industry: session.industry || undefined,
+    difficulty: session.difficulty as 'easy' | 'medium' | 'hard',
+    turnCount: session.turn_count + 1,
+    // Pass previous interviewer for question transition logic
+    previousInterviewerId: isFollowUp ? undefined : currentInterviewerId,
+    interviewerMbti,
+    jdText: jdText || undefined,
+    relevantQuestions: relevantQuestions.length > 0 ? relevantQuestions : undefined,
+    // Force new question after 2 consecutive follow-ups (the deep-dive and interview plans decide on their own)
+    forceNewQuestion: resumeTarget ? !resumeTarget.followUp
+      : planTarget ? !planTarget.followUp
+      : shouldForceNewTopic || forceNewQuestionFlag,
+    modeContext,
+    language: sessionMetadata.language,
+    speakerPrompt,
+  };
+
+  const turn: InterviewerTurn = {
+    supabase,
+    sessionId: session_id,
+    session,
+    userMessageId,
+    content,
+    nextInterviewerId,
+    interviewerName,
+    isFollowUp,
+    shouldForceNewTopic,
+    forceNewQuestionFlag,
+    startTime,
+    caseState,
+    revealedExhibits,
+    coCandidate,
+    resumeClaimId: resumeTarget?.claim.id,
+    resumeCoverage,
+    planTopicId: planTarget?.topic.id,
+    answerScoring: {
+      answer: content,
+      question: askedMessage ? toHeardContent(askedMessage) : undefined,
+      interviewerId: askedMessage?.interviewer_id,
+      jobType: session.job_type,
+      industry: session.industry,
+    },
+  };
+
+  return {
+    turn,
+    position: session.job_type,
+    conversationHistory,
+    context,
+    llmOptions,
+  };
+}
+
+/**
+ * Generate the interviewer question for a prepared turn (structured output)
+ */
+export function generatePreparedTurn(prepared: PreparedInterviewerTurn): Promise<LLMResponse> {
+  return generateInterviewerResponse(
+    prepared.conversationHistory,
+    prepared.turn.nextInterviewerId,
+    prepared.position,
+    true, // Use structured output
+    prepared.context || undefined, // Pass RAG context from resume and portfolio
+    prepared.llmOptions
+  );
+}
+
+/**
+ * Streaming variant: `delta` events carry the question text as it is generated
+ */
+export function streamPreparedTurn(
+  prepared: PreparedInterviewerTurn,
+  signal?: AbortSignal
+): AsyncGenerator<LLMStreamEvent> {
+  return streamInterviewerResponse(
+    prepared.conversationHistory,
+    prepared.turn.nextInterviewerId,
+    prepared.position,
+    true, // Use structured output
+    prepared.context || undefined,
+    { ...prepared.llmOptions, signal }
+  );
+}
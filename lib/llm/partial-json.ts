@@ -0,0 +1,99 @@
+// ============================================
+// Partial JSON - incremental string field extraction
+// ============================================
+// Structured responses stream as raw JSON text. This decodes one top-level
+// string field (e.g. `question`) as its characters arrive, so the client can
+// render it before the rest of the object (evaluation, inner_thought, ...) is done.
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+export class PartialJsonStringField {
+  private buffer = '';
+  private valueStart = -1; // Index right after the opening quote
+  private cursor = 0; // Next undecoded index inside the value
+  private value = '';
+  private done = false;
+  private keyPattern: RegExp;
+
+  constructor(field: string) {
+    this.keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  }
+
+  /**
+   * Append raw JSON text and return newly decoded characters of the field
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+
+    if (this.done) {
+      return '';
+    }
+
+    if (this.valueStart < 0) {
+      const match = this.keyPattern.exec(this.buffer);
+      if (!match) {
+        return '';
+      }
+      this.valueStart = match.index + match[0].length;
+      this.cursor = this.valueStart;
+    }
+
+    let decoded = '';
+
+    while (this.cursor < this.buffer.length) {
+      const char = this.buffer[this.cursor];
+
+      if (char === '"') {
+        this.done = true;
+        break;
+      }
+
+      if (char !== '\\') {
+        decoded += char;
+        this.cursor += 1;
+        continue;
+      }
+
+      // Escape sequence: wait until it is complete
+      const escape = this.buffer[this.cursor + 1];
+      if (escape === undefined) break;
+
+      if (escape === 'u') {
+        const hex = this.buffer.slice(this.cursor + 2, this.cursor + 6);
+        if (hex.length < 4) break;
+        decoded += String.fromCharCode(parseInt(hex, 16));
+        this.cursor += 6;
+      } else {
+        decoded += SIMPLE_ESCAPES[escape] ?? escape;
+        this.cursor += 2;
+      }
+    }
+
+    this.value += decoded;
+    return decoded;
+  }
+
+  /** Field value decoded so far */
+  get current(): string {
+    return this.value;
+  }
+
+  /** True once the closing quote of the field has been seen */
+  get isComplete(): boolean {
+    return this.done;
+  }
+
+  /** All raw JSON text pushed so far */
+  get raw(): string {
+    return this.buffer;
+  }
+}
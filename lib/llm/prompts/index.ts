@@ -5,6 +5,10 @@
 // 채점 루브릭
 export {
   CORE_RUBRIC,
+  CORE_RUBRIC_EN,
+  MODE_RUBRIC,
+  MODE_EVALUATION_CATEGORIES,
+  getModeEvaluationCategories,
   CORE_TO_COMPETENCY_MAPPING,
   INTERVIEWER_EVALUATION_WEIGHTS,
   PASS_CRITERIA,
@@ -13,6 +17,8 @@ export {
   convertToCompetencyScores,
   determinePassStatus,
   type CoreEvaluationCategory,
+  type ModeEvaluationCategory,
+  type EvaluationCategory,
   type ScoreLevel,
   type RubricItem,
   type EvaluationScores,
@@ -3,7 +3,7 @@
 // ============================================
 // 면접 평가 기준 및 점수 산정 로직
 
-import type { CompetencyScores, InterviewerType } from '@/types/interview';
+import type { CompetencyScores, InterviewerType, InterviewLanguage, InterviewMode } from '@/types/interview';
 
 // ============================================
 // 1. 5축 핵심 평가 항목 (사용자 요청 기반)
@@ -20,6 +20,35 @@ export type CoreEvaluationCategory =
   | 'company_fit'            // 회사/직무 적합도
   | 'growth_potential';      // 성장 가능성
 
+/**
+ * 면접 유형별 추가 평가 항목
+ * - coding: 코딩 면접 (숨김 테스트 통과율 + 복잡도/엣지 케이스 설명)
+ * - scalability / trade_offs / design_communication: 시스템 설계 면접
+ * - structuring / quantitative_reasoning / synthesis: 케이스 면접
+ * - delivery / content_coverage / qa_handling: PT 면접
+ * - composure: 압박 면접 (반박 속 답변의 질 + 음성 안정성)
+ * - contribution / listening / persuasiveness: 토론 면접 (발언 비중, 반응, 설득력)
+ * - language_proficiency: 영어/한영 혼합 면접 (면접 유형과 무관하게 추가)
+ */
+export type ModeEvaluationCategory =
+  | 'coding'
+  | 'scalability'          // 확장성
+  | 'trade_offs'           // 트레이드오프 판단
+  | 'design_communication'  // 설계 커뮤니케이션
+  | 'structuring'           // 문제 구조화
+  | 'quantitative_reasoning' // 정량 분석
+  | 'synthesis'             // 종합/결론 도출
+  | 'delivery'              // 발표 전달력
+  | 'content_coverage'      // 자료 내용 전달
+  | 'qa_handling'           // 질의응답
+  | 'composure'             // 침착성/회복탄력성
+  | 'contribution'          // 발언 기여도
+  | 'listening'             // 경청/반응
+  | 'persuasiveness'        // 설득력
+  | 'language_proficiency'; // 외국어 구사력
+
+export type EvaluationCategory = CoreEvaluationCategory | ModeEvaluationCategory;
+
 /**
  * 점수 레벨 (1-5점 척도)
  */
@@ -29,7 +58,7 @@ export type ScoreLevel = 1 | 2 | 3 | 4 | 5;
  * 루브릭 항목 인터페이스
  */
 export interface RubricItem {
-  category: CoreEvaluationCategory;
+  category: EvaluationCategory;
   name: string;
   description: string;
   weight: number;          // 가중치 (0.0 ~ 1.0, 합계 = 1.0)
@@ -200,6 +229,566 @@ export const CORE_RUBRIC: Record<CoreEvaluationCategory, RubricItem> = {
   },
 };
 
+/**
+ * 영어 면접용 5축 루브릭 (영문 리포트 채점 기준)
+ * 항목과 가중치는 CORE_RUBRIC과 같고 설명만 영어
+ */
+export const CORE_RUBRIC_EN: Record<CoreEvaluationCategory, RubricItem> = {
+  logical_structure: {
+    ...CORE_RUBRIC.logical_structure,
+    name: 'Logical Structure',
+    description: 'Does the answer follow a clear structure such as STAR, PREP or answer-first?',
+    criteria: {
+      1: 'Scattered answer with no structure. Much of it is unrelated to the question',
+      2: 'Some structure, but the logical flow is weak',
+      3: 'Mostly structured, but the connections are loose. Parts of STAR are missing',
+      4: 'Clearly structured. Covers most of STAR/PREP',
+      5: 'Highly systematic and logical. Textbook STAR/PREP',
+    },
+    keywords: {
+      positive: [
+        'first', 'second', 'in short', 'to summarize', 'the situation was',
+        'my task was', 'what I did', 'as a result', 'for example', 'specifically',
+      ],
+      negative: [
+        'um...', 'I guess', 'anyway', 'I\'m not sure but', 'something like that',
+      ],
+    },
+    examples: {
+      good: '(Situation) Our API took over three seconds to respond. (Task) I owned the performance work. (Action) I profiled the queries, added indexes and introduced a caching layer. (Result) Response time dropped to 0.3 seconds, a 90% improvement.',
+      bad: 'Um... something in that project was slow, I think. So I tried a bunch of things... and it kind of worked out.',
+    },
+  },
+
+  job_expertise: {
+    ...CORE_RUBRIC.job_expertise,
+    name: 'Job Expertise',
+    description: 'Are domain knowledge, concrete experience and problem-solving approach specific?',
+    criteria: {
+      1: 'Little domain knowledge. Experience is vague or missing',
+      2: 'Knows the basics but lacks depth. Experience is superficial',
+      3: 'Has relevant knowledge and experience, but lacks specifics',
+      4: 'Solid competence. Explains tools and methods concretely',
+      5: 'Deep expertise. Explains metrics, numbers and trade-offs in detail',
+    },
+    keywords: {
+      positive: [
+        'API', 'microservices', 'scaling', 'CI/CD', 'Kubernetes', 'code review',
+        'refactoring', 'architecture', 'improved by 00%', 'DAU', 'CTR', 'latency', 'SLA',
+      ],
+      negative: [
+        'I don\'t know', 'I haven\'t done that', 'another team handled it', 'not my area',
+      ],
+    },
+    examples: {
+      good: 'I used composition patterns when designing our React components in TypeScript, which improved reuse and cut bundle size by 30%. With lazy loading and code splitting, initial load time went from 2 seconds to 0.8.',
+      bad: 'I did frontend development. I used React. It went well.',
+    },
+  },
+
+  attitude_communication: {
+    ...CORE_RUBRIC.attitude_communication,
+    name: 'Attitude & Communication',
+    description: 'Are pace, clarity, courtesy and collaborative attitude appropriate?',
+    criteria: {
+      1: 'Negative impression. Rude or defensive. Communication breaks down',
+      2: 'Passive or lacking confidence. Hard to follow',
+      3: 'Acceptable. Basic courtesy and communication',
+      4: 'Positive and engaged. Expresses ideas clearly',
+      5: 'Excellent impression. Outstanding communication and collaboration',
+    },
+    keywords: {
+      positive: [
+        'thank you', 'good question', 'together', 'my teammates', 'I shared',
+        'based on the feedback', 'I learned', 'we improved',
+      ],
+      negative: [
+        'it wasn\'t my fault', 'someone else', 'only I did it right', 'I was told to',
+      ],
+    },
+    examples: {
+      good: 'Thanks for the question. On that project I worked closely with the team, and daily syncs with our designer let us turn feedback around quickly. It taught me how much communication matters.',
+      bad: 'That was another teammate\'s mistake. I just did my part, so I\'m not sure why you\'re asking me.',
+    },
+  },
+
+  company_fit: {
+    ...CORE_RUBRIC.company_fit,
+    name: 'Company & Role Fit',
+    description: 'How well does the candidate connect to the company\'s values and the role\'s requirements?',
+    criteria: {
+      1: 'No understanding of the company or role. No connection made',
+      2: 'Superficial understanding. Generic answers only',
+      3: 'Basic understanding. Generic connection',
+      4: 'Understands the company and role and connects them to their experience',
+      5: 'Deep understanding. Concrete contribution plan and vision',
+    },
+    keywords: {
+      positive: [
+        'your company', 'in this role', 'your mission', 'the team\'s goals',
+        'I can contribute', 'grow with',
+      ],
+      negative: [
+        'any company', 'anywhere is fine', 'I didn\'t research', 'just for the salary',
+      ],
+    },
+    examples: {
+      good: 'I know you are expanding your AI-based services. I built ML pipelines at my previous company, so in this role I would like to help automate data processing. Your "data democratization" vision really resonates with me.',
+      bad: 'Um... I\'m not exactly sure what this company does, but I saw you were hiring developers.',
+    },
+  },
+
+  growth_potential: {
+    ...CORE_RUBRIC.growth_potential,
+    name: 'Growth Potential',
+    description: 'Does the candidate show openness to feedback, self-reflection and willingness to learn?',
+    criteria: {
+      1: 'No desire to grow. Rejects feedback. No self-reflection',
+      2: 'Passive. Weak openness to feedback',
+      3: 'Mentions some desire to grow. Basic self-reflection',
+      4: 'Actively learning. Clear lessons from failure',
+      5: 'Outstanding growth mindset. Concrete learning plan and self-awareness',
+    },
+    keywords: {
+      positive: [
+        'I learned', 'I grew', 'after the feedback', 'I realized', 'I\'m working on',
+        'it failed, but', 'next time', 'from that experience',
+      ],
+      negative: [
+        'nothing more to learn', 'I already know it all', 'I\'ve never failed', 'perfectly',
+      ],
+    },
+    examples: {
+      good: 'When I first introduced TDD, the team pushed back because I moved too fast. I learned how much change management matters, and since then I roll changes out gradually, starting small.',
+      bad: 'I\'ve never failed. I\'ve always done everything well.',
+    },
+  },
+};
+
+// ============================================
+// 2-1. 면접 유형별 추가 루브릭
+// ============================================
+
+/**
+ * 유형별 항목의 weight는 총점에서 차지하는 비율
+ * (나머지 비율을 5축 핵심 평가가 기존 가중치대로 나눠 가짐)
+ */
+export const MODE_RUBRIC: Record<ModeEvaluationCategory, RubricItem> = {
+  coding: {
+    category: 'coding',
+    name: '코딩',
+    description: '정확하게 동작하는 코드를 작성하고, 복잡도와 엣지 케이스를 스스로 설명할 수 있는가',
+    weight: 0.30,
+    criteria: {
+      1: '동작하는 코드 없음. 접근 방식을 설명하지 못함',
+      2: '일부 예제만 통과. 복잡도나 엣지 케이스 질문에 답하지 못함',
+      3: '기본 케이스는 통과하나 엣지 케이스 누락. 복잡도 설명이 부정확함',
+      4: '대부분의 테스트 통과. 복잡도를 정확히 설명하고 주요 엣지 케이스를 인지함',
+      5: '모든 테스트 통과. 최적 복잡도 풀이와 트레이드오프, 엣지 케이스를 명확히 설명',
+    },
+    keywords: {
+      positive: [
+        '시간 복잡도', '공간 복잡도', 'O(n)', '엣지 케이스', '빈 배열',
+        '해시맵', '정렬', '투 포인터', '테스트해보면', '반례',
+      ],
+      negative: [
+        '일단 돌아가니까', '복잡도는 잘 모르겠', '예외는 생각 안 했',
+        '검색해서 찾은', '그냥 외운',
+      ],
+    },
+    examples: {
+      good: '해시맵에 지나온 값의 인덱스를 저장하면서 한 번만 순회해서 O(n) 시간, O(n) 공간입니다. 같은 값이 두 번 나오는 경우를 위해 저장하기 전에 먼저 보수를 찾도록 했습니다.',
+      bad: '이중 for문으로 일단 짰는데 돌아가는 것 같습니다. 복잡도는 잘 모르겠어요.',
+    },
+  },
+  scalability: {
+    category: 'scalability',
+    name: '확장성',
+    description: '요구 규모를 추정하고, 병목을 찾아 수평 확장/캐시/파티셔닝으로 해소할 수 있는가',
+    weight: 0.20,
+    criteria: {
+      1: '규모 추정 없음. 단일 서버/단일 DB 구성에서 벗어나지 못함',
+      2: '확장 요소를 나열하지만 어디가 병목인지 설명하지 못함',
+      3: '주요 병목 하나를 찾고 일반적인 해법(캐시, 복제)을 적용함',
+      4: 'QPS/용량을 추정하고 병목 순서대로 해법을 적용함. 핫 키 등 편중 문제를 인지함',
+      5: '수치 기반으로 병목을 예측하고, 장애/확장 시나리오까지 고려한 구조를 제시함',
+    },
+    keywords: {
+      positive: [
+        'QPS', '초당', '샤딩', '파티셔닝', '복제', '읽기 전용',
+        '수평 확장', '캐시 히트율', '핫 키', '백프레셔',
+      ],
+      negative: [
+        '서버를 좋은 걸로', '트래픽은 별로 없을', '일단 DB 하나로',
+        '나중에 생각', '잘 모르겠',
+      ],
+    },
+    examples: {
+      good: '리다이렉트가 초당 1,200건 정도라 읽기가 압도적이어서, 단축 코드 기준으로 Redis 캐시를 앞에 두고 DB는 코드 해시로 샤딩하겠습니다. 인기 링크는 핫 키가 될 수 있으니 로컬 캐시를 한 단계 더 둡니다.',
+      bad: 'DB에 저장하고 트래픽이 많아지면 서버를 늘리면 될 것 같습니다.',
+    },
+  },
+  trade_offs: {
+    category: 'trade_offs',
+    name: '트레이드오프',
+    description: '선택지의 장단점(일관성/가용성, 지연/비용, 단순성)을 비교하고 요구사항에 맞게 결정하는가',
+    weight: 0.15,
+    criteria: {
+      1: '하나의 방식만 제시하고 대안을 고려하지 않음',
+      2: '대안을 언급하지만 비교 기준이 없음',
+      3: '장단점을 비교하지만 요구사항과 연결하지 못함',
+      4: '요구사항을 근거로 선택하고 포기한 것을 명확히 설명함',
+      5: '요구사항 변화에 따라 결정이 어떻게 바뀌는지까지 설명함',
+    },
+    keywords: {
+      positive: [
+        '트레이드오프', '대신', '일관성', '가용성', '최종 일관성',
+        '지연 시간', '비용', '단순', '포기', '요구사항 때문에',
+      ],
+      negative: [
+        '무조건', '제일 좋은', '다들 쓰니까', '유명해서',
+      ],
+    },
+    examples: {
+      good: '팔로워가 적은 계정은 쓰기 시점에 팬아웃하고, 팔로워가 수백만인 계정은 읽기 시점에 병합합니다. 쓰기 증폭을 줄이는 대신 읽기 경로가 조금 복잡해지는 걸 감수하는 선택입니다.',
+      bad: 'Kafka가 제일 좋으니까 Kafka를 쓰겠습니다.',
+    },
+  },
+  design_communication: {
+    category: 'design_communication',
+    name: '설계 커뮤니케이션',
+    description: '요구사항을 먼저 확인하고, 다이어그램과 말로 설계를 단계적으로 설명하는가',
+    weight: 0.10,
+    criteria: {
+      1: '요구사항 확인 없이 세부 기술부터 나열함. 다이어그램과 설명이 맞지 않음',
+      2: '설명이 산발적이고 다이어그램이 흐름을 보여주지 못함',
+      3: '상위 구조를 설명하지만 데이터 흐름이 일부 불명확함',
+      4: '요구사항 확인 → 상위 구조 → 세부 순서로 설명. 다이어그램 연결에 의미가 표시됨',
+      5: '면접관의 질문을 설계에 반영하며 다이어그램을 갱신하고, 결정 근거를 구조적으로 전달함',
+    },
+    keywords: {
+      positive: [
+        '먼저 요구사항', '가정하면', '전체 흐름', '요청이 들어오면',
+        '다이어그램에', '단계별로', '정리하면',
+      ],
+      negative: [
+        '그냥', '알아서', '뭐든', '아무거나',
+      ],
+    },
+    examples: {
+      good: '먼저 읽기/쓰기 비율과 보관 기간을 확인하고 싶습니다. 요청은 로드 밸런서를 거쳐 API 서버로 들어오고, 다이어그램에 표시한 것처럼 쓰기는 큐를 통해 비동기로 처리됩니다.',
+      bad: '서버랑 DB랑 캐시 있고요, 나머지는 그때그때 붙이면 됩니다.',
+    },
+  },
+  structuring: {
+    category: 'structuring',
+    name: '문제 구조화',
+    description: '문제를 빠짐없고 겹치지 않는 분석 축으로 나누고, 가설을 세워 우선순위를 정하는가',
+    weight: 0.15,
+    criteria: {
+      1: '구조 없이 떠오르는 원인을 나열함',
+      2: '축을 나누지만 겹치거나 중요한 축이 빠짐',
+      3: '기본적인 프레임워크(매출=고객 수×단가 등)를 세우지만 우선순위가 없음',
+      4: '케이스에 맞는 축으로 나누고 가설을 세워 어디부터 볼지 정함',
+      5: '새 데이터에 따라 프레임워크를 수정하며 가장 영향이 큰 축으로 빠르게 좁혀감',
+    },
+    keywords: {
+      positive: [
+        '나눠서', '분해', '두 가지 축', '가설', '먼저 확인',
+        '우선순위', '내부 요인', '외부 요인', '영향이 큰',
+      ],
+      negative: [
+        '여러 가지', '이것저것', '일단 다 보면', '그냥 원인은',
+      ],
+    },
+    examples: {
+      good: '매출을 구독자 수와 구독자당 매출로 나누고, 구독자 수는 다시 신규 유입과 해지로 보겠습니다. 가격 인하를 검토한다는 건 이탈을 의심한다는 뜻이니 해지 쪽을 먼저 확인하고 싶습니다.',
+      bad: '경기도 안 좋고 경쟁사도 많아서 여러 가지 원인이 있을 것 같습니다.',
+    },
+  },
+  quantitative_reasoning: {
+    category: 'quantitative_reasoning',
+    name: '정량 분석',
+    description: '필요한 데이터를 요청하고, 수치를 정확히 계산·해석해 가설을 검증하는가',
+    weight: 0.15,
+    criteria: {
+      1: '데이터를 요청하지 않거나 수치를 잘못 읽음',
+      2: '데이터를 보지만 계산 없이 인상만 말함',
+      3: '기본 계산은 맞지만 단위나 기준 비교가 부정확함',
+      4: '필요한 자료를 구체적으로 요청하고, 계산 과정을 말하며 가설을 검증함',
+      5: '어림 계산으로 규모를 먼저 잡고, 수치에서 예상 밖의 신호(이상치, 믹스 변화)를 찾아냄',
+    },
+    keywords: {
+      positive: [
+        '계산해보면', '비율', '전년 대비', '퍼센트포인트', '건당',
+        '대략', '규모', '자료를 볼 수 있을까요', '데이터가 있나요',
+      ],
+      negative: [
+        '많이 줄었', '꽤 높', '느낌상', '대충 많',
+      ],
+    },
+    examples: {
+      good: '해지가 월 3만에서 4만 4천으로 약 47% 늘었고 신규는 거의 그대로라, 구독자 감소는 대부분 해지 증가로 설명됩니다. 해지 사유 데이터를 볼 수 있을까요?',
+      bad: '해지가 많이 늘어난 것 같으니 그게 원인인 것 같습니다.',
+    },
+  },
+  synthesis: {
+    category: 'synthesis',
+    name: '종합/결론',
+    description: '분석을 근거와 함께 하나의 결론으로 묶고, 실행 가능한 권고안과 리스크를 제시하는가',
+    weight: 0.15,
+    criteria: {
+      1: '결론을 내지 못하거나 분석과 무관한 결론을 냄',
+      2: '결론은 있지만 근거가 연결되지 않음',
+      3: '근거를 들어 결론을 말하지만 권고안이 모호함',
+      4: '결론 → 근거 → 권고안 순으로 명확히 정리함',
+      5: '권고안의 우선순위, 리스크, 다음에 확인할 데이터까지 제시함',
+    },
+    keywords: {
+      positive: [
+        '결론적으로', '권고', '제안드리면', '근거는', '리스크',
+        '다음 단계', '우선', '한 문장으로',
+      ],
+      negative: [
+        '상황에 따라', '더 봐야 알 것', '다 중요', '정답은 없',
+      ],
+    },
+    examples: {
+      good: '가격 인하는 권하지 않습니다. 해지 사유의 41%가 콘텐츠 공백이라 가격으로는 해결되지 않고 ARPU만 낮아집니다. 음원 재계약을 우선 추진하고, 통신사 번들 제휴를 검토하되 마진 영향을 먼저 확인하겠습니다.',
+      bad: '여러 요인이 있어서 상황에 따라 다를 것 같고, 좀 더 분석이 필요할 것 같습니다.',
+    },
+  },
+  delivery: {
+    category: 'delivery',
+    name: '발표 전달력',
+    description: '적절한 속도와 억양으로 자신 있게 말하고, 주어진 발표 시간을 계획대로 사용하는가',
+    weight: 0.15,
+    criteria: {
+      1: '읽기만 하거나 말이 자주 끊김. 시간을 크게 넘기거나 절반도 쓰지 못함',
+      2: '추임새와 긴 공백이 많고 속도가 불안정함',
+      3: '무난하게 전달하지만 단조롭거나 시간 배분이 일부 어긋남',
+      4: '안정된 속도와 억양으로 전달하고 시간 안에 마무리함',
+      5: '핵심에서 강조와 속도 조절을 하며 청중을 이끌고, 시간을 정확히 사용함',
+    },
+    keywords: {
+      positive: [
+        '오늘 발표 순서는', '먼저', '다음 장에서', '핵심은', '정리하면', '마지막으로',
+      ],
+      negative: [
+        '음', '어', '그러니까', '시간이 없어서', '넘어가겠습니다',
+      ],
+    },
+    examples: {
+      good: '오늘은 세 가지 순서로 말씀드리겠습니다. 먼저 현황, 다음으로 원인, 마지막으로 제안입니다. 핵심은 재구매율입니다.',
+      bad: '음... 이 장은 어... 시간이 없어서 그냥 넘어가겠습니다.',
+    },
+  },
+  content_coverage: {
+    category: 'content_coverage',
+    name: '자료 내용 전달',
+    description: '슬라이드의 핵심 내용과 수치를 빠짐없이 설명하고, 자료의 흐름대로 논리를 전개하는가',
+    weight: 0.15,
+    criteria: {
+      1: '자료와 무관한 이야기를 하거나 대부분의 슬라이드를 건너뜀',
+      2: '일부 슬라이드만 다루고 핵심 수치를 설명하지 않음',
+      3: '대부분의 슬라이드를 다루지만 슬라이드 간 연결이 약함',
+      4: '모든 핵심 슬라이드를 수치와 함께 설명하고 흐름이 자연스러움',
+      5: '자료의 주장 → 근거 → 제안을 일관된 스토리로 전달하고, 슬라이드에 없는 맥락까지 보완함',
+    },
+    keywords: {
+      positive: [
+        '이 표를 보시면', '수치로 보면', '앞 장에서 말씀드린', '근거는', '그래서 제안드리는',
+      ],
+      negative: [
+        '자료에 있는 대로', '읽어보시면', '생략하겠습니다', '넘어가겠습니다',
+      ],
+    },
+    examples: {
+      good: '앞 장에서 말씀드린 이탈률 18%의 원인이 이 표의 결제 단계에 있습니다. 그래서 세 번째 장의 제안은 결제 단계 개선에 집중했습니다.',
+      bad: '이 장은 자료에 있는 대로고요, 다음 장도 읽어보시면 될 것 같습니다.',
+    },
+  },
+  qa_handling: {
+    category: 'qa_handling',
+    name: '질의응답',
+    description: '질문의 의도를 파악해 자료 근거로 답하고, 모르는 부분과 한계를 솔직하게 인정하는가',
+    weight: 0.15,
+    criteria: {
+      1: '질문과 무관한 답을 하거나 방어적으로 반응함',
+      2: '발표 내용을 반복할 뿐 질문에 직접 답하지 못함',
+      3: '질문에 답하지만 근거가 약하거나 장황함',
+      4: '결론부터 답하고 자료의 수치나 슬라이드를 근거로 제시함',
+      5: '질문의 숨은 우려까지 짚고, 자료의 한계와 보완 계획을 함께 제시함',
+    },
+    keywords: {
+      positive: [
+        '좋은 질문', '결론부터', '슬라이드', '근거는', '한계는', '보완하자면', '확인해보겠습니다',
+      ],
+      negative: [
+        '발표에서 말씀드렸듯이', '그건 아닌 것 같', '잘 모르겠습니다', '원래 그런',
+      ],
+    },
+    examples: {
+      good: '결론부터 말씀드리면 목표치는 보수적으로 잡았습니다. 4번 슬라이드의 전환율은 지난 분기 실적 기준이고, 다만 신규 채널 효과는 검증이 안 되어 파일럿으로 확인하겠습니다.',
+      bad: '발표에서 말씀드렸듯이 목표는 달성 가능하다고 생각합니다.',
+    },
+  },
+  composure: {
+    category: 'composure',
+    name: '침착성/회복탄력성',
+    description: '반박과 회의적인 반응, 시간 압박 속에서도 평정을 유지하고 근거로 답하며, 흔들린 뒤에도 빠르게 회복하는가',
+    weight: 0.20,
+    criteria: {
+      1: '반박에 방어적이거나 감정적으로 반응하고, 답변을 포기하거나 앞서 한 말을 뒤집음',
+      2: '압박을 받으면 말이 끊기고 추임새가 늘며, 근거 없이 같은 주장을 반복함',
+      3: '평정은 유지하지만 반박에 대한 답이 약하고, 말을 끊긴 뒤 핵심을 다시 잡지 못함',
+      4: '반박을 인정할 부분과 아닌 부분으로 나눠 근거로 답하고, 짧은 시간 안에 결론을 전달함',
+      5: '압박 질문을 오히려 기회로 삼아 구체적 수치와 사례로 주장을 입증하고, 목소리와 속도가 끝까지 안정적임',
+    },
+    keywords: {
+      positive: [
+        '말씀하신 부분은 맞습니다', '다만', '수치로 말씀드리면', '제 기여는', '결론부터',
+        '그 지적은 인정합니다', '구체적으로',
+      ],
+      negative: [
+        '그건 아니고요', '제가 그렇게 말한 건', '잘 모르겠습니다', '아까 말씀드렸잖아요',
+        '죄송합니다 다시', '그냥',
+      ],
+    },
+    examples: {
+      good: '말씀하신 대로 팀 전체의 성과인 건 맞습니다. 다만 제 기여는 결제 API 재설계였고, 그 결과 장애 건수가 월 12건에서 2건으로 줄었습니다.',
+      bad: '아... 그건 아니고요, 제가 그렇게 말한 건... 죄송합니다, 다시 말씀드리면 그냥 다 같이 한 거라서...',
+    },
+  },
+  contribution: {
+    category: 'contribution',
+    name: '발언 기여도',
+    description: '토론에서 적절한 비중으로 발언하며 논의를 앞으로 진전시키는가 (너무 적거나 독점하는 경우 모두 감점)',
+    weight: 0.15,
+    criteria: {
+      1: '거의 발언하지 않거나, 다른 참가자의 발언 기회를 빼앗을 만큼 독점함',
+      2: '발언 비중이 크게 치우치고, 발언이 논의를 진전시키지 못함',
+      3: '발언 비중은 적절하지만 기존 논점을 반복하는 경우가 많음',
+      4: '균형 있게 발언하며 새로운 근거나 쟁점을 제시해 논의를 진전시킴',
+      5: '적절한 비중으로 발언하면서 쟁점을 정리하고 토론의 방향을 이끌며, 다른 참가자의 참여도 이끌어냄',
+    },
+    keywords: {
+      positive: [
+        '새로운 관점에서', '쟁점을 정리하면', '추가로 말씀드리면', '다른 분들 의견도',
+        '논의를 좁혀보면',
+      ],
+      negative: [
+        '(장시간 독점 발언)', '(발언 없음)', '아까 말씀드린 것처럼', '제 말이 맞습니다',
+      ],
+    },
+    examples: {
+      good: '지금까지 생산성 이야기를 주로 했는데, 고객 대응 공백이라는 쟁점은 아직 다루지 않았습니다. 이 부분은 교대 근무로 보완할 수 있다고 봅니다.',
+      bad: '아까 말씀드린 것처럼 무조건 찬성입니다. 제가 세 번째로 말씀드리지만 생산성이 오르니까요.',
+    },
+  },
+  listening: {
+    category: 'listening',
+    name: '경청/반응',
+    description: '다른 참가자의 주장을 정확히 듣고, 그 내용을 받아 반박하거나 발전시키는가',
+    weight: 0.15,
+    criteria: {
+      1: '다른 참가자의 발언과 무관하게 준비한 주장만 반복함',
+      2: '다른 발언을 언급하지만 내용을 잘못 이해하거나 왜곡함',
+      3: '직전 발언에 반응하지만 피상적인 동의나 반대에 그침',
+      4: '상대 주장의 핵심을 정확히 짚어 근거로 반박하거나 보완함',
+      5: '상대 주장을 공정하게 요약한 뒤 반박하고, 상대의 타당한 부분은 인정해 합의점을 찾음',
+    },
+    keywords: {
+      positive: [
+        '말씀하신', '지적하신 부분', '동의하는 부분은', '다만', '정리하면 님의 주장은',
+      ],
+      negative: [
+        '그건 모르겠고', '제 얘기를 계속하면', '다시 말씀드리지만', '그건 틀렸습니다',
+      ],
+    },
+    examples: {
+      good: '김도윤 님께서 업무 강도가 늘어난다고 하셨는데, 그 우려는 타당합니다. 다만 시범 도입 기업들은 회의 시간을 절반으로 줄여 같은 업무량을 소화했습니다.',
+      bad: '그건 모르겠고, 제 얘기를 계속하면 주 4일제는 무조건 좋습니다.',
+    },
+  },
+  persuasiveness: {
+    category: 'persuasiveness',
+    name: '설득력',
+    description: '배정된 입장을 구체적 근거와 사례로 논리적으로 주장하고, 반박에도 일관성을 유지하는가',
+    weight: 0.15,
+    criteria: {
+      1: '입장이 불분명하거나 근거 없이 주장함',
+      2: '근거가 추상적이고, 반박을 받으면 입장이 흔들림',
+      3: '근거를 제시하지만 일반론에 머물고 반박에 대한 재반박이 약함',
+      4: '구체적 사례와 수치로 주장을 뒷받침하고 반박에 논리적으로 대응함',
+      5: '상대의 가장 강한 논거까지 다루며 입장을 일관되게 방어하고, 실행 가능한 대안이나 조건을 제시함',
+    },
+    keywords: {
+      positive: [
+        '근거는', '사례로', '수치로 보면', '그렇기 때문에', '조건을 붙이자면', '결론적으로',
+      ],
+      negative: [
+        '그냥', '다들 그렇게', '당연히', '생각해보면 그럴 것 같', '잘 모르겠지만',
+      ],
+    },
+    examples: {
+      good: '반대 측의 형평성 우려는 직무별 선택제로 해결할 수 있습니다. 실제로 시범 도입한 기업은 고객 대응 부서만 교대제로 운영해 응답 시간을 유지했습니다.',
+      bad: '당연히 찬성입니다. 쉬는 날이 많으면 다들 좋아하니까요.',
+    },
+  },
+  language_proficiency: {
+    category: 'language_proficiency',
+    name: '외국어 구사력',
+    description: '면접 언어(영어)로 경험과 생각을 정확하고 자연스럽게 전달하는가 (억양과 발음 자체는 감점하지 않음)',
+    weight: 0.10,
+    criteria: {
+      1: '영어로 답변을 이어가지 못하거나 대부분 한국어로 답함',
+      2: '단순한 문장만 가능. 문법 오류로 의미 전달이 자주 끊김',
+      3: '의미는 전달되나 어휘가 제한적이고 문장이 단조로움',
+      4: '전문 용어를 정확히 쓰고 복잡한 경험도 큰 막힘 없이 설명함',
+      5: '원어민 수준에 가까운 유창함. 뉘앙스와 설득력 있는 표현까지 자유로움',
+    },
+    keywords: {
+      positive: [
+        'as a result', 'the trade-off was', 'I took ownership of', 'to give you some context',
+        'what I learned was', 'on the other hand',
+      ],
+      negative: [
+        '(한국어로 전환)', 'how to say', 'I don\'t know the word', '(같은 단어 반복)',
+      ],
+    },
+    examples: {
+      good: 'To give you some context, our checkout conversion had dropped by 12%. I took ownership of the investigation, and it turned out the new payment step was confusing on mobile, so we simplified it.',
+      bad: 'Uh, conversion is... down. So I, uh, 그러니까 조사했어요. Payment is problem. We fix.',
+    },
+  },
+};
+
+/**
+ * 면접 유형별로 추가되는 평가 항목
+ */
+export const MODE_EVALUATION_CATEGORIES: Record<InterviewMode, ModeEvaluationCategory[]> = {
+  standard: [],
+  coding: ['coding'],
+  system_design: ['scalability', 'trade_offs', 'design_communication'],
+  case: ['structuring', 'quantitative_reasoning', 'synthesis'],
+  presentation: ['delivery', 'content_coverage', 'qa_handling'],
+  pressure: ['composure'],
+  group_discussion: ['contribution', 'listening', 'persuasiveness'],
+  resume_deep_dive: [], // Claims are verified per item in the report, not as a score axis
+};
+
+/**
+ * 세션의 추가 평가 항목: 면접 유형 항목 + 영어/혼합 면접의 외국어 구사력
+ */
+export function getModeEvaluationCategories(
+  mode: InterviewMode,
+  language: InterviewLanguage = 'ko'
+): ModeEvaluationCategory[] {
+  const categories = MODE_EVALUATION_CATEGORIES[mode] ?? [];
+  return language === 'ko' ? categories : [...categories, 'language_proficiency'];
+}
+
 // ============================================
 // 3. 8축 역량과 5축 핵심 평가의 매핑
 // ============================================
@@ -297,9 +886,26 @@ export const PASS_CRITERIA: PassCriteria = {
 
 /**
  * 루브릭을 RAG에 넣을 수 있는 마크다운 형식으로 변환
+ * language = 'en'이면 영문 리포트용으로 5축 항목과 문서 틀을 영어로 생성
  */
-export function generateRubricDocument(): string {
-  const header = `# IMSAM 면접 평가 루브릭
+export function generateRubricDocument(
+  modes: ModeEvaluationCategory[] = [],
+  language: InterviewLanguage = 'ko'
+): string {
+  const en = language === 'en';
+  const core = en ? CORE_RUBRIC_EN : CORE_RUBRIC;
+
+  const header = en
+    ? `# IMSAM Interview Evaluation Rubric
+
+## Overview
+This document is the standard the AI interviewer uses to evaluate the candidate's answers.
+Each category is scored on a 1-5 scale; use the per-score criteria to keep scoring consistent.
+
+---
+
+`
+    : `# IMSAM 면접 평가 루브릭
 
 ## 개요
 이 문서는 AI 면접관이 지원자의 답변을 평가할 때 사용하는 기준입니다.
@@ -309,13 +915,38 @@ export function generateRubricDocument(): string {
 
 `;
 
-  const categories = Object.values(CORE_RUBRIC)
+  const categories = [...Object.values(core), ...modes.map((mode) => MODE_RUBRIC[mode])]
     .map((item) => {
       const criteriaTable = Object.entries(item.criteria)
-        .map(([score, desc]) => `| ${score}점 | ${desc} |`)
+        .map(([score, desc]) => `| ${score}${en ? '' : '점'} | ${desc} |`)
         .join('\n');
 
-      return `## ${item.name} (가중치: ${(item.weight * 100).toFixed(0)}%)
+      return en
+        ? `## ${item.name} (weight: ${(item.weight * 100).toFixed(0)}%)
+
+**Description:** ${item.description}
+
+### Criteria
+| Score | Criteria |
+|------|------|
+${criteriaTable}
+
+### Good answer
+> ${item.examples.good}
+
+### Poor answer
+> ${item.examples.bad}
+
+### Positive signals
+${item.keywords.positive.join(', ')}
+
+### Negative signals
+${item.keywords.negative.join(', ')}
+
+---
+
+`
+        : `## ${item.name} (가중치: ${(item.weight * 100).toFixed(0)}%)
 
 **설명:** ${item.description}
 
@@ -342,7 +973,31 @@ ${item.keywords.negative.join(', ')}
     })
     .join('');
 
-  const footer = `## 합격 기준
+  const modeWeights = modes
+    .map((mode) => `${MODE_RUBRIC[mode].name} ${(MODE_RUBRIC[mode].weight * 100).toFixed(0)}%`)
+    .join(', ');
+
+  const footer = en
+    ? `## Pass criteria
+
+| Result | Score |
+|------|----------|
+| Pass | 70 or above |
+| Borderline | 50-69 |
+| Fail | below 50 |
+
+## Total score
+
+Total = Σ(category score × weight) × 20
+
+- Logical Structure: 20%
+- Job Expertise: 30%
+- Attitude & Communication: 20%
+- Company & Role Fit: 15%
+- Growth Potential: 15%
+${modes.length > 0 ? `
+※ ${modeWeights} are applied first; the five categories above share the rest in the same proportions.` : ''}`
+    : `## 합격 기준
 
 | 구분 | 점수 범위 |
 |------|----------|
@@ -359,7 +1014,8 @@ ${item.keywords.negative.join(', ')}
 - 태도/커뮤니케이션: 20%
 - 회사/직무 적합도: 15%
 - 성장 가능성: 15%
-`;
+${modes.length > 0 ? `
+※ ${modeWeights}를 먼저 반영하고, 나머지를 위 5개 항목이 같은 비율로 나눕니다.` : ''}`;
 
   return header + categories + footer;
 }
@@ -377,18 +1033,29 @@ export interface EvaluationScores {
 }
 
 /**
- * 5축 점수를 100점 만점으로 변환
+ * 5축 점수(+ 유형별 항목)를 100점 만점으로 변환
  */
-export function calculateTotalScore(scores: EvaluationScores): number {
-  let total = 0;
+export function calculateTotalScore(
+  scores: EvaluationScores,
+  modeScores: Partial<Record<ModeEvaluationCategory, ScoreLevel>> = {}
+): number {
+  let coreTotal = 0;
+  let modeTotal = 0;
+  let modeWeight = 0;
 
   for (const [category, score] of Object.entries(scores)) {
     const rubricItem = CORE_RUBRIC[category as CoreEvaluationCategory];
     // 1-5점을 0-100점으로 변환 후 가중치 적용
-    total += ((score - 1) / 4) * 100 * rubricItem.weight;
+    coreTotal += ((score - 1) / 4) * 100 * rubricItem.weight;
+  }
+
+  for (const [category, score] of Object.entries(modeScores)) {
+    const rubricItem = MODE_RUBRIC[category as ModeEvaluationCategory];
+    modeTotal += ((score - 1) / 4) * 100 * rubricItem.weight;
+    modeWeight += rubricItem.weight;
   }
 
-  return Math.round(total);
+  return Math.round(coreTotal * (1 - modeWeight) + modeTotal);
 }
 
 /**
@@ -443,6 +443,7 @@ export const REALTIME_SCORING_SCHEMA = {
         'company_fit',
         'growth_potential',
       ],
+      additionalProperties: false,
     },
     reasoning: {
       type: 'object',
@@ -460,6 +461,7 @@ export const REALTIME_SCORING_SCHEMA = {
         'company_fit',
         'growth_potential',
       ],
+      additionalProperties: false,
     },
     highlights: {
       type: 'array',
@@ -474,6 +476,7 @@ export const REALTIME_SCORING_SCHEMA = {
     overall_impression: { type: 'string' },
   },
   required: ['scores', 'reasoning', 'highlights', 'improvements', 'overall_impression'],
+  additionalProperties: false,
 };
 
 /**
@@ -494,6 +497,7 @@ export const FINAL_EVALUATION_SCHEMA = {
             trend: { type: 'string', enum: ['improving', 'stable', 'declining'] },
           },
           required: ['score', 'trend'],
+          additionalProperties: false,
         },
         job_expertise: {
           type: 'object',
@@ -502,6 +506,7 @@ export const FINAL_EVALUATION_SCHEMA = {
             trend: { type: 'string', enum: ['improving', 'stable', 'declining'] },
           },
           required: ['score', 'trend'],
+          additionalProperties: false,
         },
         attitude_communication: {
           type: 'object',
@@ -510,6 +515,7 @@ export const FINAL_EVALUATION_SCHEMA = {
             trend: { type: 'string', enum: ['improving', 'stable', 'declining'] },
           },
           required: ['score', 'trend'],
+          additionalProperties: false,
         },
         company_fit: {
           type: 'object',
@@ -518,6 +524,7 @@ export const FINAL_EVALUATION_SCHEMA = {
             trend: { type: 'string', enum: ['improving', 'stable', 'declining'] },
           },
           required: ['score', 'trend'],
+          additionalProperties: false,
         },
         growth_potential: {
           type: 'object',
@@ -526,6 +533,7 @@ export const FINAL_EVALUATION_SCHEMA = {
             trend: { type: 'string', enum: ['improving', 'stable', 'declining'] },
           },
           required: ['score', 'trend'],
+          additionalProperties: false,
         },
       },
       required: [
@@ -535,6 +543,7 @@ export const FINAL_EVALUATION_SCHEMA = {
         'company_fit',
         'growth_potential',
       ],
+      additionalProperties: false,
     },
     competency_scores: {
       type: 'object',
@@ -558,6 +567,7 @@ export const FINAL_EVALUATION_SCHEMA = {
         'leadership',
         'adaptability',
       ],
+      additionalProperties: false,
     },
     interviewer_impressions: {
       type: 'object',
@@ -569,6 +579,7 @@ export const FINAL_EVALUATION_SCHEMA = {
             comment: { type: 'string' },
           },
           required: ['score', 'comment'],
+          additionalProperties: false,
         },
         hr_manager: {
           type: 'object',
@@ -577,6 +588,7 @@ export const FINAL_EVALUATION_SCHEMA = {
             comment: { type: 'string' },
           },
           required: ['score', 'comment'],
+          additionalProperties: false,
         },
         senior_peer: {
           type: 'object',
@@ -585,9 +597,11 @@ export const FINAL_EVALUATION_SCHEMA = {
             comment: { type: 'string' },
           },
           required: ['score', 'comment'],
+          additionalProperties: false,
         },
       },
       required: ['hiring_manager', 'hr_manager', 'senior_peer'],
+      additionalProperties: false,
     },
     feedback_summary: { type: 'string' },
     strengths: {
@@ -615,6 +629,7 @@ export const FINAL_EVALUATION_SCHEMA = {
     'improvements',
     'recommendation',
   ],
+  additionalProperties: false,
 };
 
 // ============================================
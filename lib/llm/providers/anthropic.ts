@@ -0,0 +1,170 @@
+// ============================================
+// Anthropic Provider (Claude Messages API)
+// ============================================
+// Structured output is implemented with a forced tool call:
+// the JSON schema becomes the tool's input_schema.
+
+import type {
+  LLMProvider,
+  ProviderCompletionRequest,
+  ProviderCompletionResult,
+  ProviderMessage,
+} from './types';
+import { readSSEData } from './sse';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicContentBlock {
+  type: 'text' | 'tool_use';
+  text?: string;
+  input?: unknown;
+}
+
+interface AnthropicResponse {
+  model: string;
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string; partial_json?: string };
+  error?: { type: string; message: string };
+}
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  defaultModel: string;
+  fastModel: string;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly defaultModel: string;
+  readonly fastModel: string;
+  private apiKey?: string;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.defaultModel = options.defaultModel;
+    this.fastModel = options.fastModel;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: ProviderCompletionRequest): Promise<ProviderCompletionResult> {
+    const response = await this.request(request, false);
+    const data = (await response.json()) as AnthropicResponse;
+
+    if (request.jsonSchema) {
+      const toolUse = data.content.find(block => block.type === 'tool_use');
+      if (!toolUse) {
+        throw new Error('Anthropic API error: structured response missing tool_use block');
+      }
+      return { content: JSON.stringify(toolUse.input), model: data.model };
+    }
+
+    return {
+      content: data.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join(''),
+      model: data.model,
+    };
+  }
+
+  async *stream(request: ProviderCompletionRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+
+    for await (const data of readSSEData(response.body!)) {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+
+      if (event.type === 'error') {
+        throw new Error(`Anthropic API error: ${event.error?.message || 'stream error'}`);
+      }
+      if (event.type !== 'content_block_delta' || !event.delta) continue;
+
+      // Structured output arrives as tool input JSON fragments
+      const delta = event.delta.type === 'input_json_delta' ? event.delta.partial_json : event.delta.text;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  private async request(request: ProviderCompletionRequest, stream: boolean): Promise<Response> {
+    const system = request.messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
+    const body: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: Math.min(1, request.temperature), // Anthropic allows 0-1 only
+      messages: toAnthropicMessages(request.messages),
+      ...(system && { system }),
+      ...(stream && { stream: true }),
+    };
+
+    if (request.jsonSchema) {
+      body.tools = [
+        {
+          name: request.jsonSchema.name,
+          description: '응답을 지정된 JSON 구조로 반환합니다.',
+          input_schema: request.jsonSchema.schema,
+        },
+      ];
+      body.tool_choice = { type: 'tool', name: request.jsonSchema.name };
+    }
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey!,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Anthropic API error ${response.status}: ${errorText.slice(0, 200)}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Convert chat history to Anthropic format
+ * - System messages are passed separately
+ * - Conversation must start with a user turn and alternate roles
+ */
+function toAnthropicMessages(
+  messages: ProviderMessage[]
+): Array<{ role: 'user' | 'assistant'; content: string }> {
+  const result: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') continue;
+
+    const last = result[result.length - 1];
+    if (last && last.role === msg.role) {
+      last.content += `\n\n${msg.content}`;
+    } else {
+      result.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  // Interview history starts with the interviewer's greeting
+  if (result.length === 0 || result[0].role !== 'user') {
+    result.unshift({ role: 'user', content: '[면접 시작]' });
+  }
+
+  return result;
+}
@@ -0,0 +1,61 @@
+// ============================================
+// Fake Provider (deterministic, offline)
+// ============================================
+// Active when AI_PROVIDER=fake or TEST_MODE=true (see lib/testing/fixtures.ts).
+// Structured requests return the canned fixture for the JSON schema name;
+// plain text requests return the scripted interviewer turn.
+
+import { FAKE_LLM_FIXTURES, getFakeInterviewerTurn } from '@/lib/testing/fixtures';
+import type {
+  LLMProvider,
+  ProviderCompletionRequest,
+  ProviderCompletionResult,
+} from './types';
+
+const FAKE_STREAM_CHUNK_SIZE = 8;
+
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly defaultModel = 'fake-interviewer';
+  readonly fastModel = 'fake-interviewer';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: ProviderCompletionRequest): Promise<ProviderCompletionResult> {
+    const userTurnCount = getTurnCount(request);
+
+    if (request.jsonSchema) {
+      const fixture = FAKE_LLM_FIXTURES[request.jsonSchema.name];
+      if (!fixture) {
+        throw new Error(`Fake provider has no fixture for schema "${request.jsonSchema.name}"`);
+      }
+      return { content: JSON.stringify(fixture(userTurnCount)), model: request.model };
+    }
+
+    return { content: getFakeInterviewerTurn(userTurnCount), model: request.model };
+  }
+
+  // Replays the completion in small fixed-size chunks, like a token stream
+  async *stream(request: ProviderCompletionRequest): AsyncGenerator<string> {
+    const { content } = await this.complete(request);
+
+    for (let i = 0; i < content.length; i += FAKE_STREAM_CHUNK_SIZE) {
+      yield content.slice(i, i + FAKE_STREAM_CHUNK_SIZE);
+    }
+  }
+}
+
+/**
+ * Interviewer history is truncated to the last 3 turns, so prefer the
+ * turn number the router writes into the system prompt ("현재 N번째 대화")
+ */
+function getTurnCount(request: ProviderCompletionRequest): number {
+  const system = request.messages.find(msg => msg.role === 'system')?.content || '';
+  const match = system.match(/현재 (\d+)번째 대화/);
+  if (match) {
+    return Number(match[1]);
+  }
+  return request.messages.filter(msg => msg.role === 'user').length;
+}
@@ -0,0 +1,148 @@
+// ============================================
+// Gemini Provider (Google Generative Language API)
+// ============================================
+
+import type {
+  LLMProvider,
+  ProviderCompletionRequest,
+  ProviderCompletionResult,
+} from './types';
+import { readSSEData } from './sse';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  modelVersion?: string;
+}
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  defaultModel: string;
+  fastModel: string;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly defaultModel: string;
+  readonly fastModel: string;
+  private apiKey?: string;
+
+  constructor(options: GeminiProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.defaultModel = options.defaultModel;
+    this.fastModel = options.fastModel;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: ProviderCompletionRequest): Promise<ProviderCompletionResult> {
+    const response = await this.request(request, 'generateContent');
+    const data = (await response.json()) as GeminiResponse;
+    const candidate = data.candidates?.[0];
+    const content = candidate?.content?.parts?.map(part => part.text || '').join('') || '';
+
+    if (!content) {
+      throw new Error(`Gemini API error: empty response (${candidate?.finishReason || 'no candidates'})`);
+    }
+
+    return { content, model: data.modelVersion || request.model };
+  }
+
+  async *stream(request: ProviderCompletionRequest): AsyncGenerator<string> {
+    const response = await this.request(request, 'streamGenerateContent?alt=sse');
+
+    for await (const data of readSSEData(response.body!)) {
+      const chunk = JSON.parse(data) as GeminiResponse;
+      const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('');
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  private async request(request: ProviderCompletionRequest, method: string): Promise<Response> {
+    const system = request.messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
+    const contents = request.messages
+      .filter(msg => msg.role !== 'system')
+      .map(msg => ({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: msg.content }],
+      }));
+
+    const body = {
+      contents,
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.jsonSchema && {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(request.jsonSchema.schema),
+        }),
+      },
+    };
+
+    const response = await fetch(`${GEMINI_API_BASE}/${request.model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey!,
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error ${response.status}: ${errorText.slice(0, 200)}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Gemini's responseSchema is an OpenAPI subset:
+ * - strip keywords it rejects (additionalProperties, strict-mode bounds)
+ * - keep declared property order (Gemini sorts keys alphabetically otherwise,
+ *   which would push streamed fields like `question` to the end)
+ */
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const unsupported = new Set(['additionalProperties', 'minimum', 'maximum', 'minItems', 'maxItems']);
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (unsupported.has(key)) continue;
+    result[key] = key === 'properties' ? toGeminiProperties(value as Record<string, unknown>) : toGeminiSchema(value);
+  }
+
+  if (result.properties && typeof result.properties === 'object') {
+    result.propertyOrdering = Object.keys(result.properties);
+  }
+
+  return result;
+}
+
+// Property names are user data, not schema keywords: only convert their values
+function toGeminiProperties(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([name, schema]) => [name, toGeminiSchema(schema)])
+  );
+}
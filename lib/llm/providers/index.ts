@@ -0,0 +1,94 @@
+// ============================================
+// LLM Provider Registry
+// ============================================
+// Provider selection is driven by environment variables:
+// - LLM_PRIMARY_PROVIDER: openai | anthropic | gemini | local (default: openai)
+// - LLM_FALLBACK_PROVIDERS: comma-separated failover order (default: anthropic,gemini,local)
+// - LLM_PROVIDER_TIMEOUT_MS: per-attempt timeout before failing over (default: 20000)
+// Only providers with credentials (or a base URL for local) join the chain.
+// AI_PROVIDER=fake (or TEST_MODE=true) replaces the chain with the offline fixture provider.
+
+import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { GeminiProvider } from './gemini';
+import { FakeProvider } from './fake';
+import { isFakeAIMode } from '@/lib/testing/fixtures';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'gemini', 'local', 'fake'];
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = Number(process.env.LLM_PROVIDER_TIMEOUT_MS ?? 20000);
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  openai: new OpenAIProvider({
+    name: 'openai',
+    apiKey: process.env.OPENAI_API_KEY,
+    defaultModel: process.env.OPENAI_MODEL || 'gpt-4o',
+    fastModel: process.env.OPENAI_FAST_MODEL || 'gpt-4o-mini',
+  }),
+  anthropic: new AnthropicProvider({
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    defaultModel: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+    fastModel: process.env.ANTHROPIC_FAST_MODEL || 'claude-haiku-4-5',
+  }),
+  gemini: new GeminiProvider({
+    apiKey: process.env.GEMINI_API_KEY,
+    defaultModel: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+    fastModel: process.env.GEMINI_FAST_MODEL || 'gemini-2.5-flash-lite',
+  }),
+  local: new OpenAIProvider({
+    name: 'local',
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    baseURL: process.env.LOCAL_LLM_BASE_URL, // e.g. http://localhost:11434/v1 (Ollama), http://localhost:8000/v1 (vLLM)
+    defaultModel: process.env.LOCAL_LLM_MODEL || 'qwen2.5:14b-instruct',
+    fastModel: process.env.LOCAL_LLM_FAST_MODEL || process.env.LOCAL_LLM_MODEL || 'qwen2.5:7b-instruct',
+  }),
+  fake: new FakeProvider(),
+};
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value);
+}
+
+export function getProvider(name: LLMProviderName): LLMProvider {
+  return providers[name];
+}
+
+/**
+ * Configured failover order: primary first, then fallbacks (deduplicated)
+ * @param preferred Per-request provider override, tried before the configured primary
+ */
+export function getProviderChain(preferred?: LLMProviderName): LLMProvider[] {
+  if (isFakeAIMode()) {
+    return [providers.fake];
+  }
+
+  const primary = isLLMProviderName(process.env.LLM_PRIMARY_PROVIDER)
+    ? process.env.LLM_PRIMARY_PROVIDER
+    : 'openai';
+  const fallbacks = (process.env.LLM_FALLBACK_PROVIDERS ?? 'anthropic,gemini,local')
+    .split(',')
+    .map(name => name.trim())
+    .filter(isLLMProviderName);
+
+  const order = Array.from(new Set([preferred, primary, ...fallbacks].filter(isLLMProviderName)));
+
+  return order.map(getProvider).filter(provider => provider.isConfigured());
+}
+
+/**
+ * Whether at least one LLM provider can serve requests
+ */
+export function hasConfiguredProvider(): boolean {
+  return getProviderChain().length > 0;
+}
+
+export type {
+  LLMProvider,
+  LLMProviderName,
+  ModelTier,
+  ProviderMessage,
+  ProviderJsonSchema,
+  ProviderCompletionRequest,
+  ProviderCompletionResult,
+} from './types';
@@ -0,0 +1,112 @@
+// ============================================
+// OpenAI Provider (also used for OpenAI-compatible local servers)
+// ============================================
+// - OpenAI: GPT-4o / GPT-4o-mini
+// - Local: vLLM, Ollama 등 /v1/chat/completions 호환 엔드포인트
+
+import OpenAI from 'openai';
+import type {
+  LLMProvider,
+  LLMProviderName,
+  ProviderCompletionRequest,
+  ProviderCompletionResult,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  name: Extract<LLMProviderName, 'openai' | 'local'>;
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel: string;
+  fastModel: string;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: Extract<LLMProviderName, 'openai' | 'local'>;
+  readonly defaultModel: string;
+  readonly fastModel: string;
+  private apiKey?: string;
+  private baseURL?: string;
+  private client: OpenAI | null = null;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.apiKey = options.apiKey;
+    this.baseURL = options.baseURL;
+    this.defaultModel = options.defaultModel;
+    this.fastModel = options.fastModel;
+  }
+
+  isConfigured(): boolean {
+    // Local servers usually don't require an API key, only a base URL
+    return this.name === 'local' ? !!this.baseURL : !!this.apiKey;
+  }
+
+  async complete(request: ProviderCompletionRequest): Promise<ProviderCompletionResult> {
+    const completion = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.jsonSchema && {
+          response_format: {
+            type: 'json_schema' as const,
+            json_schema: {
+              name: request.jsonSchema.name,
+              strict: true,
+              schema: request.jsonSchema.schema,
+            },
+          },
+        }),
+      },
+      { signal: request.signal }
+    );
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model || request.model,
+    };
+  }
+
+  async *stream(request: ProviderCompletionRequest): AsyncGenerator<string> {
+    const stream = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        ...(request.jsonSchema && {
+          response_format: {
+            type: 'json_schema' as const,
+            json_schema: {
+              name: request.jsonSchema.name,
+              strict: true,
+              schema: request.jsonSchema.schema,
+            },
+          },
+        }),
+      },
+      { signal: request.signal }
+    );
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  // Lazily create the client so a missing key only fails when this provider is actually used
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.apiKey || 'local',
+        baseURL: this.baseURL,
+        maxRetries: 0, // Router handles failover instead of retrying the same provider
+      });
+    }
+    return this.client;
+  }
+}
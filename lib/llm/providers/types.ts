@@ -0,0 +1,43 @@
+// ============================================
+// LLM Provider Abstraction - Shared Types
+// ============================================
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'gemini' | 'local' | 'fake';
+
+// Model tier: 'default' for interviewer/evaluation calls, 'fast' for cheap utility calls
+export type ModelTier = 'default' | 'fast';
+
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON schema for structured output (OpenAI strict-mode compatible)
+export interface ProviderJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ProviderCompletionRequest {
+  model: string;
+  messages: ProviderMessage[];
+  maxTokens: number;
+  temperature: number;
+  jsonSchema?: ProviderJsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface ProviderCompletionResult {
+  content: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  readonly fastModel: string;
+  isConfigured(): boolean;
+  complete(request: ProviderCompletionRequest): Promise<ProviderCompletionResult>;
+  // Raw text deltas as generated (for jsonSchema requests: fragments of the JSON document)
+  stream?(request: ProviderCompletionRequest): AsyncGenerator<string>;
+}
@@ -1,21 +1,31 @@
 // ============================================
-// LLM Router - OpenAI GPT-4o with Dynamic Prompts
+// LLM Router - Multi-provider with Dynamic Prompts
 // ============================================
+// Providers (lib/llm/providers): OpenAI, Anthropic, Gemini, local OpenAI-compatible
+// Requests fail over along the configured provider chain on error or timeout.
 
-import OpenAI from 'openai';
 import {
-  INTERVIEWER_BASE,
   buildInterviewerSystemPrompt,
+  getLanguageInstruction,
   getRandomMBTI,
   type InterviewerType,
+  type InterviewLanguage,
   type StructuredResponse,
   type MBTIType,
   type InterviewQuestionSearchResult,
 } from '@/types/interview';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import {
+  DEFAULT_PROVIDER_TIMEOUT_MS,
+  getProviderChain,
+  type LLMProvider,
+  type LLMProviderName,
+  type ModelTier,
+  type ProviderCompletionRequest,
+  type ProviderJsonSchema,
+} from './providers';
+import { PartialJsonStringField } from './partial-json';
+import { errorTracker } from '@/lib/monitoring/error-tracker';
+import { createLatencyTimer } from '@/lib/monitoring/latency';
 
 export interface LLMRequest {
   messages: ChatMessage[];
@@ -36,6 +46,14 @@ export interface LLMRequest {
   jdText?: string; // Job description for targeted questions
   relevantQuestions?: InterviewQuestionSearchResult[]; // RAG-retrieved interview questions
   forceNewQuestion?: boolean; // Force new topic when follow-up is prohibited
+  modeContext?: string; // Coding / system design: problem and the candidate's latest code or diagram
+  language?: InterviewLanguage; // Conversation language (default: Korean)
+  speakerPrompt?: string; // Group discussion: complete prompt for a co-candidate or the moderator (no interviewer guidelines)
+  // Provider selection
+  provider?: LLMProviderName; // Preferred provider (tried first, others remain as failover)
+  model?: string; // Model override for the preferred/primary provider
+  timeoutMs?: number; // Per-provider attempt timeout
+  signal?: AbortSignal; // Caller cancellation (no failover once aborted)
 }
 
 // User keyword from previous interviews
@@ -54,11 +72,45 @@ export interface ChatMessage {
 export interface LLMResponse {
   content: string;
   structuredResponse?: StructuredResponse;
-  provider: 'openai';
+  provider: LLMProviderName;
+  model: string;
+  latencyMs: number;
+  failedProviders?: LLMProviderName[]; // Providers that errored/timed out before this one answered
+}
+
+// Low-level completion request (provider-agnostic)
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  jsonSchema?: ProviderJsonSchema;
+  maxTokens: number;
+  temperature: number;
+  provider?: LLMProviderName;
+  model?: string;
+  modelTier?: ModelTier;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  operation?: string; // Label for latency/error tracking
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: LLMProviderName;
   model: string;
   latencyMs: number;
+  failedProviders: LLMProviderName[];
 }
 
+export type CompletionStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: CompletionResult };
+
+export type LLMStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'complete'; response: LLMResponse };
+
+// Skip a failed provider (move it to the end of the chain) for this long
+const PROVIDER_COOLDOWN_MS = 30000;
+
 // Structured output JSON schema (OpenAI requires additionalProperties: false)
 const INTERVIEW_RESPONSE_SCHEMA = {
   type: 'object',
@@ -83,16 +135,62 @@ const INTERVIEW_RESPONSE_SCHEMA = {
 };
 
 export class LLMRouter {
+  // Last failure time per provider (in-memory health)
+  private failedAt = new Map<LLMProviderName, number>();
+
   async generateResponse(request: LLMRequest): Promise<LLMResponse> {
     const startTime = Date.now();
-    const interviewerBase = INTERVIEWER_BASE[request.interviewerId];
 
+    try {
+      const result = await this.complete(this.buildCompletionRequest(request));
+
+      return {
+        ...this.toLLMResponse(request, result.content, result),
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      console.error('=== LLM Call Failed ===');
+      console.error('Error message:', error instanceof Error ? error.message : String(error));
+      throw new Error(`LLM request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Streaming variant of generateResponse
+   * - structuredOutput: `delta` events carry only the `question` text, decoded from the partial JSON
+   * - The final `complete` event carries the fully parsed response (evaluation, inner_thought, ...)
+   */
+  async *generateResponseStream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const startTime = Date.now();
+    const question = request.structuredOutput ? new PartialJsonStringField('question') : null;
+
+    for await (const event of this.completeStream(this.buildCompletionRequest(request))) {
+      if (event.type === 'delta') {
+        const text = question ? question.push(event.text) : event.text;
+        if (text) {
+          yield { type: 'delta', text };
+        }
+        continue;
+      }
+
+      yield {
+        type: 'complete',
+        response: {
+          ...this.toLLMResponse(request, event.result.content, event.result),
+          latencyMs: Date.now() - startTime,
+        },
+      };
+    }
+  }
+
+  private buildCompletionRequest(request: LLMRequest): CompletionRequest {
     console.log('=== LLM Router: generateResponse ===');
     console.log('Interviewer:', request.interviewerId);
     console.log('Position:', request.position);
     console.log('Industry:', request.industry);
     console.log('MBTI:', request.interviewerMbti);
     console.log('Previous Interviewer:', request.previousInterviewerId);
+    console.log('Language:', request.language || 'ko');
 
     // Use provided MBTI or generate random one
     const mbti = request.interviewerMbti || getRandomMBTI();
@@ -103,11 +201,13 @@ export class LLMRouter {
       request.interviewerId,
       mbti,
       industry,
-      request.position
+      request.position,
+      undefined,
+      request.language
     );
 
-    // Add context and instructions
-    const systemPrompt = this.enhanceSystemPrompt(
+    // Add context and instructions (group discussion speakers bring their own complete prompt)
+    const systemPrompt = request.speakerPrompt || this.enhanceSystemPrompt(
       basePrompt,
       request.context,
       request.userKeywords,
@@ -117,35 +217,247 @@ export class LLMRouter {
       request.interviewerId,
       request.jdText,
       request.relevantQuestions,
-      request.forceNewQuestion
+      request.forceNewQuestion,
+      request.modeContext,
+      request.language
     );
 
     // Limit conversation history to last 3 turns (6 messages: 3 user + 3 assistant)
     const limitedMessages = this.limitConversationHistory(request.messages, 3);
 
-    try {
-      const response = await this.callOpenAI({
-        ...request,
-        messages: limitedMessages,
-        systemPrompt,
-      });
-      console.log('OpenAI call succeeded');
-      return {
-        ...response,
-        latencyMs: Date.now() - startTime,
-      };
-    } catch (error) {
-      console.error('=== OpenAI Call Failed ===');
-      console.error('Error type:', error instanceof Error ? error.constructor.name : typeof error);
-      console.error('Error message:', error instanceof Error ? error.message : String(error));
-      if (error instanceof Error && 'status' in error) {
-        console.error('HTTP Status:', (error as { status: number }).status);
+    return {
+      messages: [{ role: 'system', content: systemPrompt }, ...limitedMessages],
+      jsonSchema: request.structuredOutput
+        ? { name: 'interview_response', schema: INTERVIEW_RESPONSE_SCHEMA }
+        : undefined,
+      maxTokens: request.maxTokens || (request.structuredOutput ? 500 : 300),
+      temperature: request.temperature || 0.7,
+      provider: request.provider,
+      model: request.model,
+      timeoutMs: request.timeoutMs,
+      signal: request.signal,
+      operation: 'chat',
+    };
+  }
+
+  private toLLMResponse(
+    request: LLMRequest,
+    content: string,
+    result: Omit<CompletionResult, 'content' | 'latencyMs'>
+  ): Omit<LLMResponse, 'latencyMs'> {
+    let structuredResponse: StructuredResponse | undefined;
+    if (request.structuredOutput) {
+      try {
+        structuredResponse = JSON.parse(content);
+      } catch (parseError) {
+        console.error('Failed to parse structured response:', parseError);
       }
-      if (error instanceof Error && 'code' in error) {
-        console.error('Error code:', (error as { code: string }).code);
+    }
+
+    return {
+      content: structuredResponse?.question || content,
+      structuredResponse,
+      provider: result.provider,
+      model: result.model,
+      failedProviders: result.failedProviders,
+    };
+  }
+
+  /**
+   * Provider-agnostic completion with automatic failover
+   * - Tries providers in chain order (recently failed providers go last)
+   * - Each attempt is bounded by timeoutMs; errors/timeouts move on to the next provider
+   */
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const chain = this.getChain(request);
+    const startTime = Date.now();
+    const failedProviders: LLMProviderName[] = [];
+    const errors: string[] = [];
+
+    for (const provider of chain) {
+      const attempt = this.startAttempt(provider, request, chain);
+
+      try {
+        const result = await provider.complete(attempt.providerRequest);
+
+        this.recordSuccess(provider, attempt, failedProviders);
+
+        return {
+          content: result.content,
+          provider: provider.name,
+          model: result.model,
+          latencyMs: Date.now() - startTime,
+          failedProviders,
+        };
+      } catch (error) {
+        const message = this.recordFailure(provider, attempt, request, error);
+        failedProviders.push(provider.name);
+        errors.push(`${provider.name}: ${message}`);
+      } finally {
+        attempt.dispose();
       }
-      throw new Error(`LLM request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    throw new Error(`All LLM providers failed (${errors.join('; ')})`);
+  }
+
+  /**
+   * Streaming completion with failover
+   * - Failover only happens before the first delta; once text has been emitted
+   *   to the caller, a provider error ends the stream
+   * - timeoutMs bounds time-to-first-token
+   */
+  async *completeStream(request: CompletionRequest): AsyncGenerator<CompletionStreamEvent> {
+    const chain = this.getChain(request);
+    const startTime = Date.now();
+    const failedProviders: LLMProviderName[] = [];
+    const errors: string[] = [];
+
+    for (const provider of chain) {
+      const attempt = this.startAttempt(provider, request, chain);
+      let content = '';
+      let started = false;
+
+      try {
+        const deltas = provider.stream
+          ? provider.stream(attempt.providerRequest)
+          : completeAsStream(provider, attempt.providerRequest);
+
+        for await (const delta of deltas) {
+          if (!started) {
+            started = true;
+            attempt.clearTimeout();
+          }
+          content += delta;
+          yield { type: 'delta', text: delta };
+        }
+
+        this.recordSuccess(provider, attempt, failedProviders);
+
+        yield {
+          type: 'done',
+          result: {
+            content,
+            provider: provider.name,
+            model: attempt.providerRequest.model,
+            latencyMs: Date.now() - startTime,
+            failedProviders,
+          },
+        };
+        return;
+      } catch (error) {
+        const message = this.recordFailure(provider, attempt, request, error);
+        if (started) {
+          throw new Error(`LLM stream interrupted (${provider.name}): ${message}`);
+        }
+        failedProviders.push(provider.name);
+        errors.push(`${provider.name}: ${message}`);
+      } finally {
+        attempt.dispose();
+      }
+    }
+
+    throw new Error(`All LLM providers failed (${errors.join('; ')})`);
+  }
+
+  private getChain(request: CompletionRequest): LLMProvider[] {
+    const chain = this.orderByHealth(getProviderChain(request.provider));
+
+    if (chain.length === 0) {
+      throw new Error('No LLM provider configured');
+    }
+    if (request.signal?.aborted) {
+      throw new Error('LLM request aborted');
+    }
+
+    return chain;
+  }
+
+  // Per-provider attempt: model resolution, latency timer, timeout + caller abort
+  private startAttempt(provider: LLMProvider, request: CompletionRequest, chain: LLMProvider[]) {
+    // A model override only makes sense for the provider it was chosen for
+    const overrideTarget = request.provider || chain[0].name;
+    const model = request.model && provider.name === overrideTarget
+      ? request.model
+      : request.modelTier === 'fast' ? provider.fastModel : provider.defaultModel;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeoutMs || DEFAULT_PROVIDER_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort);
+
+    return {
+      model,
+      timer: createLatencyTimer(request.operation || 'chat', provider.name, model),
+      providerRequest: {
+        model,
+        messages: request.messages,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        jsonSchema: request.jsonSchema,
+        signal: controller.signal,
+      } satisfies ProviderCompletionRequest,
+      isTimedOut: () => timedOut,
+      clearTimeout: () => clearTimeout(timeout),
+      dispose: () => {
+        clearTimeout(timeout);
+        request.signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+
+  private recordSuccess(
+    provider: LLMProvider,
+    attempt: ReturnType<LLMRouter['startAttempt']>,
+    failedProviders: LLMProviderName[]
+  ): void {
+    attempt.timer.success();
+    this.failedAt.delete(provider.name);
+
+    if (failedProviders.length > 0) {
+      console.warn(`LLM failover: ${failedProviders.join(' -> ')} -> ${provider.name}`);
+    }
+  }
+
+  // Track the failure and return its message; caller aborts are rethrown (no failover)
+  private recordFailure(
+    provider: LLMProvider,
+    attempt: ReturnType<LLMRouter['startAttempt']>,
+    request: CompletionRequest,
+    error: unknown
+  ): string {
+    if (request.signal?.aborted) {
+      attempt.timer.failure('aborted');
+      throw new Error('LLM request aborted');
+    }
+
+    const message = attempt.isTimedOut()
+      ? `${provider.name} timed out`
+      : error instanceof Error ? error.message : String(error);
+
+    attempt.timer.failure(message);
+    errorTracker.track(new Error(message), `llm/${provider.name}`, {
+      metadata: { model: attempt.model, operation: request.operation },
+    });
+    this.failedAt.set(provider.name, Date.now());
+
+    return message;
+  }
+
+  // Providers that failed recently are tried after healthy ones
+  private orderByHealth(chain: LLMProvider[]): LLMProvider[] {
+    const now = Date.now();
+    const isCoolingDown = (provider: LLMProvider) =>
+      now - (this.failedAt.get(provider.name) ?? 0) < PROVIDER_COOLDOWN_MS;
+
+    return [
+      ...chain.filter(provider => !isCoolingDown(provider)),
+      ...chain.filter(isCoolingDown),
+    ];
   }
 
   // Limit conversation to last N turns (each turn = 1 user message + 1 assistant message)
@@ -177,10 +489,19 @@ export class LLMRouter {
     currentInterviewerId?: InterviewerType,
     jdText?: string,
     relevantQuestions?: InterviewQuestionSearchResult[],
-    forceNewQuestion?: boolean
+    forceNewQuestion?: boolean,
+    modeContext?: string,
+    language: InterviewLanguage = 'ko'
   ): string {
     let prompt = basePrompt;
 
+    // Coding / design interview: the problem and the candidate's work come before everything else
+    if (modeContext) {
+      prompt += `
+
+${modeContext}`;
+    }
+
     // Add JD context FIRST (priority)
     if (jdText) {
       prompt += `
@@ -264,7 +585,7 @@ ${this.formatKeywords(userKeywords)}`;
 
 ## 핵심 지침
 - 1-2문장의 간결한 질문
-- 한국어로 자연스럽게 대화
+${getLanguageInstruction(language)}
 
 ## [필수] 반복 금지
 - 이미 한 질문 또는 지원자가 답한 내용 재질문 금지
@@ -318,67 +639,15 @@ ${this.formatKeywords(userKeywords)}`;
 
     return result;
   }
+}
 
-  private async callOpenAI(request: LLMRequest & { systemPrompt: string }): Promise<Omit<LLMResponse, 'latencyMs'>> {
-    try {
-      const messages: OpenAI.ChatCompletionMessageParam[] = [
-        { role: 'system', content: request.systemPrompt },
-        ...request.messages.map(msg => ({
-          role: msg.role as 'user' | 'assistant' | 'system',
-          content: msg.content,
-        })),
-      ];
-
-      if (request.structuredOutput) {
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages,
-          response_format: {
-            type: 'json_schema',
-            json_schema: {
-              name: 'interview_response',
-              strict: true,
-              schema: INTERVIEW_RESPONSE_SCHEMA,
-            },
-          },
-          max_tokens: request.maxTokens || 500,
-          temperature: request.temperature || 0.7,
-        });
-
-        const content = completion.choices[0]?.message?.content || '';
-        let structuredResponse: StructuredResponse | undefined;
-
-        try {
-          structuredResponse = JSON.parse(content);
-        } catch (parseError) {
-          console.error('Failed to parse structured response:', parseError);
-        }
-
-        return {
-          content: structuredResponse?.question || content,
-          structuredResponse,
-          provider: 'openai',
-          model: 'gpt-4o',
-        };
-      } else {
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages,
-          max_tokens: request.maxTokens || 300,
-          temperature: request.temperature || 0.7,
-        });
-
-        return {
-          content: completion.choices[0]?.message?.content || '',
-          provider: 'openai',
-          model: 'gpt-4o',
-        };
-      }
-    } catch (error) {
-      console.error('OpenAI API Error:', error);
-      throw error;
-    }
-  }
+// Providers without native streaming emit their whole completion as one delta
+async function* completeAsStream(
+  provider: LLMProvider,
+  request: ProviderCompletionRequest
+): AsyncGenerator<string> {
+  const result = await provider.complete(request);
+  yield result.content;
 }
 
 // Singleton instance
@@ -401,6 +670,10 @@ export async function generateInterviewerResponse(
     jdText?: string;
     relevantQuestions?: InterviewQuestionSearchResult[];
     forceNewQuestion?: boolean; // Force new topic when follow-up is prohibited
+    modeContext?: string;
+    language?: InterviewLanguage;
+    speakerPrompt?: string;
+    signal?: AbortSignal; // e.g. request.signal, cancels the LLM call when the client disconnects
   }
 ): Promise<LLMResponse> {
   return llmRouter.generateResponse({
@@ -413,11 +686,26 @@ export async function generateInterviewerResponse(
   });
 }
 
+// Streaming variant of generateInterviewerResponse (same arguments)
+export function streamInterviewerResponse(
+  ...args: Parameters<typeof generateInterviewerResponse>
+): AsyncGenerator<LLMStreamEvent> {
+  const [messages, interviewerId, position, structuredOutput = false, context, options] = args;
+  return llmRouter.generateResponseStream({
+    messages,
+    interviewerId,
+    position,
+    structuredOutput,
+    context,
+    ...options,
+  });
+}
+
 // Re-export types for convenience
 export type { MBTIType } from '@/types/interview';
 export { getRandomMBTI } from '@/types/interview';
 
-// Keyword extraction function - uses GPT-4o-mini for cost efficiency
+// Keyword extraction function - uses the fast model tier for cost efficiency
 export async function extractInterviewKeywords(
   conversationHistory: ChatMessage[],
   jobType: string
@@ -450,27 +738,20 @@ ${conversationHistory.map(m => `[${m.role}]: ${m.content}`).join('\n')}
 핵심 키워드를 추출하세요.`;
 
   try {
-    // Use GPT-4o-mini for cost-effective keyword extraction
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    // Use the fast model tier (e.g. GPT-4o-mini) for cost-effective keyword extraction
+    const response = await llmRouter.complete({
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: {
-          name: 'extracted_keywords',
-          strict: true,
-          schema: KEYWORD_EXTRACTION_SCHEMA,
-        },
-      },
-      max_tokens: 800,
+      jsonSchema: { name: 'extracted_keywords', schema: KEYWORD_EXTRACTION_SCHEMA },
+      maxTokens: 800,
       temperature: 0.2,
+      modelTier: 'fast',
+      operation: 'keyword_extraction',
     });
 
-    const content = response.choices[0]?.message?.content || '{}';
-    return JSON.parse(content);
+    return JSON.parse(response.content || '{}');
   } catch (error) {
     console.error('Keyword extraction failed:', error);
     return { keywords: [], summary: '' };
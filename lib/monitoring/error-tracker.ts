@@ -21,6 +21,7 @@ export type ErrorCategory =
   | 'timeout'
   | 'network_error'
   | 'openai_error'
+  | 'llm_provider_error'
   | 'database_error'
   | 'unknown';
 
@@ -60,6 +61,12 @@ const ERROR_PATTERNS: ErrorPattern[] = [
     category: 'auth_error',
     recoveryAction: 'Check API key configuration',
   },
+  // Non-OpenAI LLM providers (checked first: their errors often mention "completion")
+  {
+    pattern: /anthropic|claude|gemini|local llm|vllm|ollama|llm provider/i,
+    category: 'llm_provider_error',
+    recoveryAction: 'Check provider API status; requests fail over to the next provider',
+  },
   // OpenAI specific
   {
     pattern: /openai|gpt|completion|embedding|whisper|tts/i,
@@ -182,6 +189,7 @@ export class ErrorTracker {
       timeout: 0,
       network_error: 0,
       openai_error: 0,
+      llm_provider_error: 0,
       database_error: 0,
       unknown: 0,
     };
@@ -0,0 +1,34 @@
+// ============================================
+// Interview Plan Context
+// ============================================
+// System prompt section for planned interviews: the topic this question
+// belongs to, whether it opens the topic or follows up on it, and what is
+// still ahead so the interviewer paces the session.
+
+import type { InterviewPlan, InterviewPlanProgress, InterviewPlanTopic } from '@/types/interview';
+
+export function formatPlanContext(options: {
+  plan: InterviewPlan;
+  progress: InterviewPlanProgress[];
+  topic: InterviewPlanTopic;
+  followUp: boolean;
+}): string {
+  const { plan, progress, topic, followUp } = options;
+  const topicProgress = progress.find(p => p.topic_id === topic.id);
+  const done = progress.filter(p => p.status === 'covered').length;
+  const upcoming = plan.topics
+    .filter(t => t.id !== topic.id && progress.find(p => p.topic_id === t.id)?.status === 'pending')
+    .map(t => t.title);
+
+  const instruction = followUp
+    ? `같은 주제의 꼬리질문입니다 (${topicProgress?.questions ?? 1}/${1 + topic.target_depth}번째 질문). 직전 답변에서 구체적이지 않았던 부분을 파고드세요.`
+    : `새 주제를 시작합니다. 앞 주제에서 자연스럽게 넘어가며 ${topic.seed_question ? `다음 질문을 참고해 첫 질문을 하세요: "${topic.seed_question}"` : '이 주제의 목표에 맞는 첫 질문을 하세요.'}`;
+
+  return `## 면접 계획 (${done}/${plan.topics.length}개 주제 완료)
+- 이번 주제: ${topic.title} (배정 ${topic.minutes}분)
+- 확인할 것: ${topic.goal}
+- 이번 질문은 이 주제에만 집중하세요. 남은 주제는 다른 면접관이 이어서 다룹니다.${upcoming.length > 0 ? `\n- 남은 주제: ${upcoming.join(', ')}` : ''}
+
+## 이번 질문
+${instruction}`;
+}
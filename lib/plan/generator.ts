@@ -0,0 +1,238 @@
+// ============================================
+// Interview Plan Generation
+// ============================================
+// Once per session, the start route turns the JD, the resume and the question
+// bank matches into an agenda: which topics to cover in what order, which
+// interviewer owns each one, how many follow-ups it deserves and how much of
+// the session it may take. The message route then follows the plan instead of
+// picking interviewers at random. If the planning call fails, a default
+// agenda is built from the same inputs.
+
+import { llmRouter } from '@/lib/llm/router';
+import type {
+  InterviewMode,
+  InterviewPlan,
+  InterviewPlanTopic,
+  InterviewPlanTopicSource,
+  InterviewQuestionSearchResult,
+  InterviewerType,
+} from '@/types/interview';
+
+// Conversational modes; the others follow a problem, a deck, a motion or the resume claims
+export const PLANNED_INTERVIEW_MODES: InterviewMode[] = ['standard', 'pressure'];
+
+// Matches the interview page's 5-minute session timer
+export const INTERVIEW_PLAN_MINUTES = 5;
+export const MAX_TOPIC_DEPTH = 2;
+const MAX_PLAN_TOPICS = 5;
+const MAX_INPUT_CHARS = 4000;
+
+const INTERVIEWER_IDS: InterviewerType[] = ['hiring_manager', 'hr_manager', 'senior_peer'];
+const TOPIC_SOURCES: InterviewPlanTopicSource[] = ['jd', 'resume', 'question_bank', 'core'];
+
+const INTERVIEW_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    topics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: '주제명 (15자 이내)' },
+          goal: { type: 'string', description: '이 주제로 확인할 것' },
+          interviewer: { type: 'string', enum: INTERVIEWER_IDS },
+          target_depth: { type: 'integer', description: `첫 질문 이후 꼬리질문 수 (0-${MAX_TOPIC_DEPTH})` },
+          minutes: { type: 'number', description: '배정 시간 (분)' },
+          source: { type: 'string', enum: TOPIC_SOURCES },
+          seed_question: { type: 'string', description: '첫 질문 예시' },
+        },
+        required: ['title', 'goal', 'interviewer', 'target_depth', 'minutes', 'source', 'seed_question'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['topics'],
+  additionalProperties: false,
+};
+
+export interface InterviewPlanInput {
+  jobType: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  jdText?: string | null;
+  resumeText?: string | null;
+  bankQuestions?: InterviewQuestionSearchResult[];
+  maxTurns: number;               // Interviewer questions after the opening
+  totalMinutes?: number;
+}
+
+export function isPlannedInterviewMode(mode: InterviewMode): boolean {
+  return PLANNED_INTERVIEW_MODES.includes(mode);
+}
+
+/**
+ * Fit raw topics into the session: depth clamped, only as many topics as the
+ * questions allow, time budgets scaled to the session length, ids topic_1, ...
+ */
+export function normalizePlan(
+  topics: Array<Omit<InterviewPlanTopic, 'id'>>,
+  maxTurns: number,
+  totalMinutes: number = INTERVIEW_PLAN_MINUTES
+): InterviewPlan {
+  const fitted: Array<Omit<InterviewPlanTopic, 'id'>> = [];
+  let questions = 0;
+
+  for (const topic of topics.slice(0, MAX_PLAN_TOPICS)) {
+    const depth = Math.max(0, Math.min(MAX_TOPIC_DEPTH, Math.round(topic.target_depth || 0)));
+    const available = maxTurns - questions;
+    if (available <= 0) break;
+
+    const fittedDepth = Math.min(depth, available - 1);
+    fitted.push({ ...topic, target_depth: fittedDepth });
+    questions += 1 + fittedDepth;
+  }
+
+  const requested = fitted.reduce((sum, topic) => sum + Math.max(0.5, topic.minutes || 1), 0);
+  return {
+    topics: fitted.map((topic, index) => ({
+      id: `topic_${index + 1}`,
+      ...topic,
+      title: topic.title.trim(),
+      goal: topic.goal.trim(),
+      // Half-minute steps, scaled so the budgets add up to the session length
+      minutes: Math.max(0.5, Math.round((Math.max(0.5, topic.minutes || 1) / requested) * totalMinutes * 2) / 2),
+      ...(topic.seed_question?.trim() ? { seed_question: topic.seed_question.trim() } : {}),
+    })),
+    total_minutes: totalMinutes,
+  };
+}
+
+/**
+ * Planning fallback: resume and JD first, then a question bank match, then the core topics
+ */
+export function buildDefaultPlan(input: InterviewPlanInput): InterviewPlan {
+  const topics: Array<Omit<InterviewPlanTopic, 'id'>> = [];
+
+  if (input.resumeText) {
+    topics.push({
+      title: '대표 경험 심화',
+      goal: '이력서의 대표 경험에서 지원자 본인의 역할과 판단 근거 확인',
+      interviewer: 'hiring_manager',
+      target_depth: 2,
+      minutes: 1.5,
+      source: 'resume',
+    });
+  }
+
+  if (input.jdText) {
+    topics.push({
+      title: 'JD 핵심 요구역량',
+      goal: '채용공고의 핵심 요구사항을 지원자가 실제로 해본 적이 있는지 확인',
+      interviewer: 'senior_peer',
+      target_depth: 1,
+      minutes: 1,
+      source: 'jd',
+    });
+  }
+
+  const bankQuestion = input.bankQuestions?.[0];
+  if (bankQuestion) {
+    topics.push({
+      title: bankQuestion.question_category,
+      goal: '직무 기출 질문으로 기본 역량 확인',
+      interviewer: 'senior_peer',
+      target_depth: 1,
+      minutes: 1,
+      source: 'question_bank',
+      seed_question: bankQuestion.question,
+    });
+  } else if (!input.jdText) {
+    topics.push({
+      title: '직무 전문성',
+      goal: `${input.jobType} 직무의 핵심 역량을 실제 사례로 확인`,
+      interviewer: 'senior_peer',
+      target_depth: 1,
+      minutes: 1,
+      source: 'core',
+    });
+  }
+
+  topics.push(
+    {
+      title: '협업과 갈등 해결',
+      goal: '의견 충돌이나 어려운 협업 상황에서의 행동 확인',
+      interviewer: 'hr_manager',
+      target_depth: 1,
+      minutes: 1,
+      source: 'core',
+    },
+    {
+      title: '지원 동기와 성장 계획',
+      goal: '회사와 직무를 선택한 이유, 입사 후 성장 방향 확인',
+      interviewer: 'hr_manager',
+      target_depth: 0,
+      minutes: 0.5,
+      source: 'core',
+    }
+  );
+
+  return normalizePlan(topics, input.maxTurns, input.totalMinutes);
+}
+
+/**
+ * Agenda for the session, in interview order
+ */
+export async function generateInterviewPlan(input: InterviewPlanInput): Promise<InterviewPlan> {
+  const totalMinutes = input.totalMinutes ?? INTERVIEW_PLAN_MINUTES;
+  const bankQuestions = (input.bankQuestions || [])
+    .map(q => `- [${q.question_category}] ${q.question}`)
+    .join('\n');
+
+  const systemPrompt = `당신은 면접 위원장입니다. 면접을 시작하기 전에 면접관 세 명이 다룰 주제 순서를 정합니다.
+
+## 면접관
+- hiring_manager (실무팀장): 직무 경험, 문제 해결, 성과
+- hr_manager (HR담당자): 태도, 협업, 조직 적합도, 지원 동기
+- senior_peer (시니어동료): 기술/직무 지식의 깊이, 성장 가능성
+
+## 계획 기준
+- 자기소개 이후 ${input.maxTurns}개의 질문, 총 ${totalMinutes}분 안에 끝나야 합니다. 각 주제는 첫 질문 1개 + 꼬리질문 target_depth개를 씁니다.
+- 3-${MAX_PLAN_TOPICS}개 주제, 중요한 주제부터. 채용공고(jd)와 이력서(resume)에서 확인해야 할 내용을 우선하고, 기출 질문(question_bank)은 그 다음, 일반 역량(core)은 마지막에 두세요.
+- 깊게 검증할 주제일수록 target_depth와 시간을 더 배정하세요. 난이도가 높을수록 꼬리질문을 늘리세요.
+- 주어진 자료에 없는 경력이나 프로젝트를 만들지 마세요.
+
+JSON 형식으로 응답하세요.`;
+
+  const userPrompt = [
+    `지원 직무: ${input.jobType} / 난이도: ${input.difficulty}`,
+    input.jdText ? `## 채용공고\n${input.jdText.slice(0, MAX_INPUT_CHARS)}` : '## 채용공고\n없음',
+    input.resumeText ? `## 이력서\n${input.resumeText.slice(0, MAX_INPUT_CHARS)}` : '## 이력서\n없음',
+    bankQuestions ? `## 관련 기출 질문\n${bankQuestions}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  try {
+    const response = await llmRouter.complete({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      jsonSchema: { name: 'interview_plan', schema: INTERVIEW_PLAN_SCHEMA },
+      maxTokens: 1200,
+      temperature: 0.3,
+      modelTier: 'fast',
+      operation: 'interview_planning',
+    });
+
+    const parsed = JSON.parse(response.content || '{}') as { topics?: Array<Omit<InterviewPlanTopic, 'id'>> };
+    const topics = (parsed.topics || []).filter(topic =>
+      topic && typeof topic.title === 'string' && topic.title.trim() &&
+      INTERVIEWER_IDS.includes(topic.interviewer) && TOPIC_SOURCES.includes(topic.source)
+    );
+
+    return topics.length > 0
+      ? normalizePlan(topics.map(topic => ({ ...topic, goal: topic.goal || topic.title })), input.maxTurns, totalMinutes)
+      : buildDefaultPlan({ ...input, totalMinutes });
+  } catch (error) {
+    console.error('Interview plan generation failed:', error);
+    return buildDefaultPlan({ ...input, totalMinutes });
+  }
+}
@@ -0,0 +1,121 @@
+// ============================================
+// Interview Plan Progress
+// ============================================
+// How far the session has got through its plan. Every interviewer question
+// on a planned topic carries it (messages.plan_topic_id) and the answer that
+// follows counts toward it. A topic is covered once its follow-ups are used
+// up or its time budget is spent; when the remaining questions can't fit the
+// remaining topics, follow-ups are dropped so more of the plan gets covered.
+
+import type { InterviewPlan, InterviewPlanProgress, InterviewPlanTopic, InterviewPlanTopicStatus } from '@/types/interview';
+
+interface PlanMessage {
+  role: string;
+  created_at?: string | null;
+  plan_topic_id?: string | null;
+}
+
+function toStatus(topic: InterviewPlanTopic, questions: number, seconds: number): InterviewPlanTopicStatus {
+  if (questions === 0) return 'pending';
+  if (questions > topic.target_depth || seconds >= topic.minutes * 60) return 'covered';
+  return 'active';
+}
+
+/**
+ * Progress per topic from the conversation so far
+ * `messages` is in order; interviewer messages carry the topic they asked about
+ */
+export function measurePlanProgress(plan: InterviewPlan, messages: PlanMessage[]): InterviewPlanProgress[] {
+  const stats = new Map(plan.topics.map(topic => [topic.id, { questions: 0, answers: 0, seconds: 0 }]));
+  let asked: { topicId: string; at: number } | null = null;
+
+  for (const msg of messages) {
+    const at = msg.created_at ? new Date(msg.created_at).getTime() : NaN;
+
+    if (msg.role !== 'user') {
+      const topicId = msg.plan_topic_id && stats.has(msg.plan_topic_id) ? msg.plan_topic_id : null;
+      if (topicId) stats.get(topicId)!.questions++;
+      asked = topicId ? { topicId, at } : null;
+      continue;
+    }
+    if (!asked) continue;
+
+    const topicStats = stats.get(asked.topicId)!;
+    topicStats.answers++;
+    if (Number.isFinite(at) && Number.isFinite(asked.at)) {
+      topicStats.seconds += Math.max(0, Math.round((at - asked.at) / 1000));
+    }
+    asked = null;
+  }
+
+  return plan.topics.map(topic => {
+    const { questions, answers, seconds } = stats.get(topic.id)!;
+    return {
+      topic_id: topic.id,
+      questions,
+      answers,
+      seconds,
+      status: toStatus(topic, questions, seconds),
+    };
+  });
+}
+
+/**
+ * Topic for the next question: follow up on the current topic while it has
+ * depth and time left and the remaining questions can still reach the
+ * pending topics, otherwise open the next pending topic. Null once the plan is done.
+ */
+export function selectPlanTopic(
+  plan: InterviewPlan,
+  progress: InterviewPlanProgress[],
+  lastTopicId: string | null | undefined,
+  remainingQuestions: number
+): { topic: InterviewPlanTopic; followUp: boolean } | null {
+  const statusOf = (id: string) => progress.find(p => p.topic_id === id)?.status;
+  const pending = plan.topics.filter(topic => statusOf(topic.id) === 'pending');
+
+  const current = lastTopicId ? plan.topics.find(topic => topic.id === lastTopicId) : undefined;
+  if (current && statusOf(current.id) === 'active' && remainingQuestions > pending.length) {
+    return { topic: current, followUp: true };
+  }
+
+  return pending[0] ? { topic: pending[0], followUp: false } : null;
+}
+
+// ============================================
+// Report
+// ============================================
+
+export type InterviewPlanOutcome = 'covered' | 'partial' | 'skipped';
+
+export interface InterviewPlanReport {
+  topic_id: string;
+  title: string;
+  goal: string;
+  interviewer: InterviewPlanTopic['interviewer'];
+  source: InterviewPlanTopic['source'];
+  questions: number;
+  planned_questions: number;    // Opening question + target follow-ups
+  outcome: InterviewPlanOutcome;
+}
+
+/**
+ * Which planned areas the session covered, cut short or never reached
+ */
+export function buildPlanReport(plan: InterviewPlan, progress: InterviewPlanProgress[]): InterviewPlanReport[] {
+  return plan.topics.map(topic => {
+    const topicProgress = progress.find(p => p.topic_id === topic.id);
+    const status = topicProgress?.status ?? 'pending';
+
+    return {
+      topic_id: topic.id,
+      title: topic.title,
+      goal: topic.goal,
+      interviewer: topic.interviewer,
+      source: topic.source,
+      questions: topicProgress?.questions ?? 0,
+      planned_questions: 1 + topic.target_depth,
+      outcome: status === 'covered' ? 'covered' : status === 'active' ? 'partial' : 'skipped',
+    };
+  });
+}
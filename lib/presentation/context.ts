@@ -0,0 +1,63 @@
+// ============================================
+// Presentation Interview Context
+// ============================================
+// System prompt section for the PT round: the deck slide by slide, what the
+// candidate said in the presentation and which slides they skipped, so the
+// panel questions the deck rather than the resume.
+
+import type { PresentationConfig } from '@/types/interview';
+import type { PresentationCoverage } from './coverage';
+import { getSlideTitle } from './deck';
+
+const MAX_DECK_CHARS = 8000;
+const MAX_TRANSCRIPT_CHARS = 4000;
+
+export function formatPresentationContext(
+  config: PresentationConfig,
+  presentationTranscript?: string,
+  coverage?: PresentationCoverage
+): string {
+  let deckText = '';
+  for (const slide of config.deck.slides) {
+    const entry = `### 슬라이드 ${slide.page}\n${slide.text}\n\n`;
+    if (deckText.length + entry.length > MAX_DECK_CHARS) {
+      deckText += `(이후 슬라이드 ${config.deck.slides.length - slide.page + 1}장 생략)`;
+      break;
+    }
+    deckText += entry;
+  }
+
+  const sections: string[] = [
+    `## [PT 면접] 발표 자료: ${config.deck.filename} (${config.deck.slides.length}장, 발표 ${config.minutes}분)
+${deckText.trim()}`,
+  ];
+
+  if (!presentationTranscript) {
+    sections.push(`## 발표
+아직 발표 전입니다.`);
+    return sections.join('\n\n');
+  }
+
+  const skipped = coverage?.slides.filter(slide => slide.total > 0 && !slide.covered) ?? [];
+
+  sections.push(`## 지원자의 발표 내용
+${presentationTranscript.slice(0, MAX_TRANSCRIPT_CHARS)}${presentationTranscript.length > MAX_TRANSCRIPT_CHARS ? '…' : ''}${coverage ? `
+
+발표에서 다룬 슬라이드: ${coverage.covered}/${coverage.total}장` : ''}${skipped.length > 0 ? `
+발표에서 거의 언급하지 않은 슬라이드: ${skipped.map(slide => `${slide.page}(${slide.title})`).join(', ')}` : ''}`);
+
+  sections.push(`## PT 질의응답 진행 지침
+- 질문은 반드시 발표 자료와 발표 내용에 근거하세요. 슬라이드 번호나 제목을 짚어 질문하세요.
+- 자료의 수치, 가정, 결론의 근거를 검증하고, 발표에서 건너뛴 슬라이드가 있다면 그 내용을 설명하게 하세요.
+- 각 면접관은 자기 관점에서 질문하세요: 실무 실행 가능성과 성과 / 조직·협업·리스크 / 기술적·논리적 타당성.
+- 발표 내용을 칭찬하거나 요약하지 말고 질문으로 바로 들어가세요.`);
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Slide list for the report ("1. 제목")
+ */
+export function formatSlideOutline(config: PresentationConfig): string {
+  return config.deck.slides.map(slide => `${slide.page}. ${getSlideTitle(slide)}`).join('\n');
+}
@@ -0,0 +1,125 @@
+// ============================================
+// Presentation Coverage & Delivery
+// ============================================
+// Coverage: which slides the spoken presentation actually talked about,
+// by overlap between each slide's key terms and the transcript.
+// Delivery: the voice confidence from analyzeVoice plus time management.
+// Both feed the PT axes next to the evaluator's judgement.
+
+import type { ScoreLevel } from '@/lib/llm/prompts/scoring-rubric';
+import type { AnswerVoiceFeatures } from '@/lib/analysis/voice';
+import type { PresentationDeck } from '@/types/interview';
+import { getSlideTitle } from './deck';
+
+const MAX_TERMS_PER_SLIDE = 15;
+const COVERED_TERM_RATIO = 0.3;
+
+// Common particles stripped so "매출이" matches "매출"
+const KOREAN_PARTICLES = /(으로|에서|에게|까지|부터|보다|처럼|은|는|이|가|을|를|의|에|로|와|과|도|만)$/;
+
+const STOP_TERMS = new Set([
+  '그리고', '하지만', '그래서', '또한', '대한', '위한', '통해', '있는', '있습니다', '합니다', '입니다',
+  'the', 'and', 'for', 'with', 'from', 'this', 'that',
+]);
+
+export interface SlideCoverage {
+  page: number;
+  title: string;
+  matched: number;
+  total: number;
+  covered: boolean;
+}
+
+export interface PresentationCoverage {
+  slides: SlideCoverage[];
+  covered: number;
+  total: number;        // Slides with text (image-only slides are not counted)
+  rate: number;         // 0-1
+}
+
+function normalizeTerm(token: string): string {
+  const lower = token.toLowerCase();
+  return /[가-힣]/.test(lower) && lower.length > 2 ? lower.replace(KOREAN_PARTICLES, '') : lower;
+}
+
+export function extractTerms(text: string): string[] {
+  const terms = text
+    .split(/[^0-9A-Za-z가-힣%.]+/)
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token.length >= 2)
+    .map(normalizeTerm)
+    .filter(term => term.length >= 2 && !STOP_TERMS.has(term));
+
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Per-slide coverage of the spoken presentation
+ */
+export function measureSlideCoverage(deck: PresentationDeck, transcript: string): PresentationCoverage {
+  const spoken = new Set(extractTerms(transcript));
+
+  const slides = deck.slides.map(slide => {
+    const terms = extractTerms(slide.text).slice(0, MAX_TERMS_PER_SLIDE);
+    const matched = terms.filter(term => spoken.has(term)).length;
+    return {
+      page: slide.page,
+      title: getSlideTitle(slide),
+      matched,
+      total: terms.length,
+      covered: terms.length > 0 && matched / terms.length >= COVERED_TERM_RATIO,
+    };
+  });
+
+  const countable = slides.filter(slide => slide.total > 0);
+  const covered = countable.filter(slide => slide.covered).length;
+
+  return {
+    slides,
+    covered,
+    total: countable.length,
+    rate: countable.length > 0 ? Math.round((covered / countable.length) * 100) / 100 : 0,
+  };
+}
+
+/**
+ * Content coverage: slide coverage rate, averaged with the evaluator's score
+ */
+export function calculateCoverageScore(coverage: PresentationCoverage | null, llmScore?: number): ScoreLevel {
+  const coverageLevel = coverage && coverage.total > 0 ? 1 + Math.round(4 * coverage.rate) : undefined;
+  return averageLevels(coverageLevel, llmScore);
+}
+
+/**
+ * Delivery: voice confidence (0-100 → 1-5), one level off for using under half
+ * or over 110% of the allotted time, averaged with the evaluator's score
+ */
+export function calculateDeliveryScore(
+  voice: AnswerVoiceFeatures | null | undefined,
+  minutes: number,
+  llmScore?: number
+): ScoreLevel {
+  let voiceLevel: number | undefined;
+
+  if (voice?.confidence !== undefined) {
+    voiceLevel = 1 + Math.round((4 * voice.confidence) / 100);
+
+    if (voice.duration_seconds !== undefined) {
+      const usage = voice.duration_seconds / (minutes * 60);
+      if (usage < 0.5 || usage > 1.1) {
+        voiceLevel = Math.max(1, voiceLevel - 1);
+      }
+    }
+  }
+
+  return averageLevels(voiceLevel, llmScore);
+}
+
+function averageLevels(systemLevel?: number, llmScore?: number): ScoreLevel {
+  const llmLevel = llmScore !== undefined ? Math.min(5, Math.max(1, Math.round(llmScore))) : undefined;
+
+  if (systemLevel !== undefined && llmLevel !== undefined) {
+    return Math.round((systemLevel + llmLevel) / 2) as ScoreLevel;
+  }
+  return (systemLevel ?? llmLevel ?? 1) as ScoreLevel;
+}
@@ -0,0 +1,114 @@
+// ============================================
+// Presentation Deck
+// ============================================
+// The PT deck is parsed once at setup (smartParsePDF) and split into slides.
+// The parsed deck is stored in session metadata, so the interviewer prompt and
+// the report never re-parse the PDF.
+
+import type { PDFParseResult } from '@/lib/rag/pdf-parser';
+import {
+  PRESENTATION_DURATIONS,
+  type PresentationConfig,
+  type PresentationDeck,
+  type PresentationSlide,
+} from '@/types/interview';
+
+export const MAX_SLIDES = 40;
+export const MAX_SLIDE_CHARS = 1500;
+const MAX_FILENAME_CHARS = 120;
+
+export const DECK_PARSING_INSTRUCTIONS =
+  '한국어 발표 자료(슬라이드)입니다. 슬라이드별 제목, 본문, 표의 수치를 빠짐없이 추출하고 페이지를 구분해주세요.';
+
+// pdf-parse v2 joins pages with "-- 1 of 12 --"; LlamaParse text uses "---" lines
+const PDF_PARSE_PAGE_MARKER = /^\s*-- \d+ of \d+ --\s*$/m;
+const LLAMAPARSE_PAGE_MARKER = /^\s*-{3,}\s*$/m;
+
+/**
+ * Split extracted text into slides
+ * Without page markers, paragraphs are spread evenly over the page count
+ */
+export function splitSlides(text: string, pages: number): PresentationSlide[] {
+  let chunks: string[];
+
+  if (PDF_PARSE_PAGE_MARKER.test(text)) {
+    chunks = text.split(new RegExp(PDF_PARSE_PAGE_MARKER.source, 'gm'));
+  } else if (LLAMAPARSE_PAGE_MARKER.test(text)) {
+    chunks = text.split(new RegExp(LLAMAPARSE_PAGE_MARKER.source, 'gm'));
+  } else {
+    const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+    const count = Math.max(1, Math.min(pages, paragraphs.length));
+    const perSlide = Math.ceil(paragraphs.length / count);
+    chunks = Array.from({ length: count }, (_, i) => paragraphs.slice(i * perSlide, (i + 1) * perSlide).join('\n'));
+  }
+
+  return chunks
+    .map(chunk => chunk.trim())
+    .filter(chunk => chunk.length > 0)
+    .slice(0, MAX_SLIDES)
+    .map((chunk, index) => ({ page: index + 1, text: chunk.slice(0, MAX_SLIDE_CHARS) }));
+}
+
+export function buildPresentationDeck(result: PDFParseResult, filename: string): PresentationDeck {
+  return {
+    filename: filename.slice(0, MAX_FILENAME_CHARS),
+    slides: splitSlides(result.text, result.metadata.pages),
+    parse_method: result.metadata.parseMethod,
+  };
+}
+
+/**
+ * First non-empty line of a slide (its title in most decks)
+ */
+export function getSlideTitle(slide: PresentationSlide): string {
+  const firstLine = slide.text.split('\n').find(line => line.trim().length > 0) || '';
+  return firstLine.trim().slice(0, 60);
+}
+
+/**
+ * Validate the deck + duration sent to /api/interview/start
+ */
+export function parsePresentationConfig(raw: unknown): { config: PresentationConfig } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: '발표 자료를 업로드해 주세요.' };
+  }
+
+  const { deck, minutes } = raw as { deck?: unknown; minutes?: unknown };
+
+  if (!PRESENTATION_DURATIONS.includes(minutes as PresentationConfig['minutes'])) {
+    return { error: `발표 시간은 ${PRESENTATION_DURATIONS.join('/')}분 중에서 선택해 주세요.` };
+  }
+
+  if (!deck || typeof deck !== 'object') {
+    return { error: '발표 자료를 업로드해 주세요.' };
+  }
+
+  const { filename, slides, parse_method } = deck as Partial<PresentationDeck>;
+
+  if (!Array.isArray(slides) || slides.length === 0) {
+    return { error: '발표 자료에서 슬라이드를 찾을 수 없습니다.' };
+  }
+
+  if (slides.length > MAX_SLIDES) {
+    return { error: `발표 자료는 ${MAX_SLIDES}장까지 사용할 수 있습니다.` };
+  }
+
+  const cleanSlides: PresentationSlide[] = [];
+  for (const slide of slides) {
+    if (!slide || typeof slide.text !== 'string' || typeof slide.page !== 'number') {
+      return { error: '발표 자료 형식이 올바르지 않습니다.' };
+    }
+    cleanSlides.push({ page: slide.page, text: slide.text.slice(0, MAX_SLIDE_CHARS) });
+  }
+
+  return {
+    config: {
+      minutes: minutes as PresentationConfig['minutes'],
+      deck: {
+        filename: typeof filename === 'string' ? filename.slice(0, MAX_FILENAME_CHARS) : 'presentation.pdf',
+        slides: cleanSlides,
+        parse_method: parse_method === 'llamaparse' || parse_method === 'fallback' ? parse_method : 'basic',
+      },
+    },
+  };
+}
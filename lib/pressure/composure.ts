@@ -0,0 +1,87 @@
+// ============================================
+// Pressure Interview Composure
+// ============================================
+// Voice stability: how much the candidate's delivery held up once the
+// pressure started. The first spoken answer is the baseline; later answers
+// are compared against it (confidence drop, more fillers, slower starts,
+// uneven pace). Stability and the overall voice confidence feed the composure
+// axis next to the evaluator's judgement of the answers under challenge.
+
+import type { ScoreLevel } from '@/lib/llm/prompts/scoring-rubric';
+import type { AnswerVoiceFeatures } from '@/lib/analysis/voice';
+
+// Penalty per unit of change against the baseline answer
+const CONFIDENCE_DROP_PENALTY = 1;       // per confidence point lost
+const FILLER_INCREASE_PENALTY = 5;       // per filler-rate percentage point gained
+const LEADING_SILENCE_PENALTY = 5;       // per second of extra hesitation before answering
+const WPM_VARIATION_PENALTY = 100;       // per unit of WPM coefficient of variation
+
+export interface VoiceStability {
+  answers: number;              // Spoken answers measured
+  baseline_confidence: number;
+  average_confidence: number;   // Answers under pressure
+  confidence_drop: number;
+  filler_increase: number;      // Percentage points
+  hesitation_increase: number;  // Seconds of leading silence
+  wpm_variation: number;        // Coefficient of variation over all answers
+  stability: number;            // 0-100
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Compare answers under pressure against the first spoken answer
+ * Needs at least two spoken answers
+ */
+export function measureVoiceStability(voices: AnswerVoiceFeatures[]): VoiceStability | null {
+  if (voices.length < 2) {
+    return null;
+  }
+
+  const [baseline, ...pressured] = voices;
+  const baselineConfidence = baseline.confidence ?? 50;
+  const averageConfidence = mean(pressured.map(voice => voice.confidence ?? 50));
+
+  const confidenceDrop = Math.max(0, baselineConfidence - averageConfidence);
+  const fillerIncrease = Math.max(0, mean(pressured.map(voice => voice.filler_rate)) - baseline.filler_rate);
+  const hesitationIncrease = Math.max(0, mean(pressured.map(voice => voice.leading_silence)) - baseline.leading_silence);
+
+  const wpms = voices.map(voice => voice.wpm);
+  const wpmMean = mean(wpms);
+  const wpmVariation = wpmMean > 0
+    ? Math.sqrt(mean(wpms.map(wpm => (wpm - wpmMean) ** 2))) / wpmMean
+    : 0;
+
+  const penalty = confidenceDrop * CONFIDENCE_DROP_PENALTY
+    + fillerIncrease * FILLER_INCREASE_PENALTY
+    + hesitationIncrease * LEADING_SILENCE_PENALTY
+    + wpmVariation * WPM_VARIATION_PENALTY;
+
+  return {
+    answers: voices.length,
+    baseline_confidence: Math.round(baselineConfidence),
+    average_confidence: Math.round(averageConfidence),
+    confidence_drop: Math.round(confidenceDrop),
+    filler_increase: round1(fillerIncrease),
+    hesitation_increase: round1(hesitationIncrease),
+    wpm_variation: Math.round(wpmVariation * 100) / 100,
+    stability: Math.round(Math.min(100, Math.max(0, 100 - penalty))),
+  };
+}
+
+/**
+ * Composure: voice stability and confidence under pressure (0-100 → 1-5),
+ * averaged with the evaluator's score for the answers under challenge
+ */
+export function calculateComposureScore(stability: VoiceStability | null, llmScore?: number): ScoreLevel {
+  const voiceLevel = stability
+    ? 1 + Math.round((4 * (stability.stability + stability.average_confidence)) / 200)
+    : undefined;
+  const llmLevel = llmScore !== undefined ? Math.min(5, Math.max(1, Math.round(llmScore))) : undefined;
+
+  if (voiceLevel !== undefined && llmLevel !== undefined) {
+    return Math.round((voiceLevel + llmLevel) / 2) as ScoreLevel;
+  }
+  return (voiceLevel ?? llmLevel ?? 1) as ScoreLevel;
+}
@@ -0,0 +1,65 @@
+// ============================================
+// Pressure Interview Context
+// ============================================
+// System prompt section for the pressure (stress) round. Each turn gets one
+// tactic, rotated so the candidate meets every kind of pressure, and the
+// tone escalates as the interview goes on. Answers cut off by the answer
+// timer are flagged so the interviewer can cut in on them.
+
+import type { AnswerVoiceFeatures } from '@/lib/analysis/voice';
+import type { AnswerTimerConfig } from '@/types/interview';
+
+export type PressureTactic = 'interrupt' | 'challenge_claim' | 'skepticism' | 'time_pressure';
+
+const PRESSURE_TACTICS: Record<PressureTactic, string> = {
+  interrupt: '지원자의 답변을 중간에 끊으세요. "잠깐만요"로 시작해 장황하거나 모호했던 부분을 짚고, 핵심만 다시 말하게 하세요.',
+  challenge_claim: '이력서/자소서 또는 방금 답변의 주장 하나를 골라 반박하세요. 본인 기여가 맞는지, 수치의 근거가 무엇인지 증명하게 하세요.',
+  skepticism: '답변을 믿기 어렵다는 반응을 보이세요. "솔직히 잘 와닿지 않네요", "다른 지원자들도 다 그렇게 말합니다"처럼 회의적으로 말한 뒤 차별점을 요구하세요.',
+  time_pressure: '시간이 부족하다는 점을 강조하세요. "30초 드릴게요", "한 문장으로 답해 주세요"처럼 짧은 답을 요구하세요.',
+};
+
+// The first answer sets the voice baseline, so pressure opens with skepticism rather than an interruption
+const TACTIC_ROTATION: PressureTactic[] = ['skepticism', 'challenge_claim', 'interrupt', 'time_pressure'];
+
+// Answers within this many seconds of the limit were cut off by the timer
+const CUT_OFF_MARGIN_SECONDS = 1;
+
+/**
+ * Tactic for the interviewer's next question, rotated by turn
+ */
+export function pickPressureTactic(turnCount: number): PressureTactic {
+  return TACTIC_ROTATION[turnCount % TACTIC_ROTATION.length];
+}
+
+/**
+ * Whether the answer ran until the answer timer submitted it
+ */
+export function wasAnswerCutOff(
+  voice: AnswerVoiceFeatures | null | undefined,
+  timerConfig: Pick<AnswerTimerConfig, 'default_time_limit'>
+): boolean {
+  return voice?.duration_seconds !== undefined
+    && voice.duration_seconds >= timerConfig.default_time_limit - CUT_OFF_MARGIN_SECONDS;
+}
+
+export function formatPressureContext(options: {
+  turnCount: number;
+  maxTurns: number;
+  timeLimit: number;
+  answerCutOff?: boolean;
+  hasResume?: boolean;
+}): string {
+  const { turnCount, maxTurns, timeLimit, answerCutOff, hasResume } = options;
+  const tactic = answerCutOff ? 'interrupt' : pickPressureTactic(turnCount);
+  const escalated = turnCount >= Math.floor(maxTurns / 2);
+
+  return `## [압박 면접] 진행 지침
+이 면접은 지원자의 평정심과 회복탄력성을 보는 압박 면접입니다. 지원자에게는 답변마다 ${timeLimit}초가 주어지고, 시간이 끝나면 답변이 그대로 제출됩니다.
+- 칭찬, 공감, 격려를 하지 마세요. 답변을 요약해 주지도 마세요.
+- 지원자의 주장을 그대로 받아들이지 말고 근거, 본인 기여, 수치를 끝까지 확인하세요.${hasResume ? '\n- 이력서/자소서에 적힌 성과와 역할을 과장으로 의심하고 검증하세요.' : ''}
+- 압박은 답변 내용에만 가하세요. 인신공격, 외모·출신·성별·나이 등 개인적 특성, 모욕적인 표현은 절대 사용하지 마세요.
+- 압박 강도: ${escalated ? '높음 - 앞선 답변의 약점과 모순을 연달아 파고드세요.' : '보통 - 차갑고 사무적인 태도로 근거를 요구하세요.'}
+
+## 이번 질문의 압박 방식
+${answerCutOff ? `지원자의 직전 답변은 ${timeLimit}초 제한에 걸려 중간에 끊겼습니다. ` : ''}${PRESSURE_TACTICS[tactic]}`;
+}
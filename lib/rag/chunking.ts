@@ -43,6 +43,9 @@ const KOREAN_SENTENCE_ENDINGS = [
   '됩니다.',
 ];
 
+// Hangul syllable followed by ? or !
+const KOREAN_QUESTION_ENDING = /[가-힣][?!]+$/;
+
 export class KoreanChunker {
   private maxChunkSize: number;
   private overlapSize: number;
@@ -298,8 +301,9 @@ export class KoreanChunker {
 
   /**
    * Split Korean text into sentences
+   * Also used by the voice pipeline to cut the LLM stream into TTS units
    */
-  private splitIntoSentences(text: string): string[] {
+  splitIntoSentences(text: string): string[] {
     const sentences: string[] = [];
     let currentSentence = '';
 
@@ -347,6 +351,11 @@ export class KoreanChunker {
       }
     }
 
+    // Questions and exclamations ("...있나요?", "...좋습니다!")
+    if (KOREAN_QUESTION_ENDING.test(sentence)) {
+      return true;
+    }
+
     return false;
   }
 
@@ -377,6 +386,52 @@ export class KoreanChunker {
   }
 }
 
+// ============================================
+// English sentence splitting
+// ============================================
+// Used for English / bilingual interviews (interviewer TTS units). A sentence
+// ends at . ! ? followed by whitespace, except after common abbreviations
+// ("Dr. Kim", "approx. 30%") - decimals ("10.5") never have a space after the dot.
+
+const ENGLISH_ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e',
+  'approx', 'inc', 'ltd', 'corp', 'co', 'no', 'u.s', 'a.m', 'p.m',
+]);
+
+export function splitEnglishSentences(text: string): string[] {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["')\]]*(?=\s)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+
+    if (!/[!?]/.test(match[0])) {
+      const lastWord = text.slice(start, match.index).split(/\s+/).pop()?.replace(/^["'(]+/, '').toLowerCase() || '';
+      const nextChar = text.slice(end).trimStart().charAt(0);
+
+      // "Dr. Kim", or a period followed by a lowercase word ("approx. five")
+      if (ENGLISH_ABBREVIATIONS.has(lastWord) || /[a-z]/.test(nextChar)) {
+        continue;
+      }
+    }
+
+    const sentence = text.slice(start, end).trim();
+    if (sentence) {
+      sentences.push(sentence);
+    }
+    start = end;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) {
+    sentences.push(rest);
+  }
+
+  return sentences;
+}
+
 // Singleton instance with optimized defaults for cover letters
 export const koreanChunker = new KoreanChunker(
   800,  // maxChunkSize: Optimal for text-embedding-3-small
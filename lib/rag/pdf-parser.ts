@@ -269,8 +269,13 @@ export function shouldUseLlamaParse(pdfBuffer: Buffer): boolean {
  * Smart PDF parser with auto-detection
  * - Uses LlamaParse for complex PDFs (tables, images, multi-column)
  * - Falls back to pdf-parse for simple PDFs
+ * - parsingInstructions: LlamaParse hint for non-resume documents (e.g. slide decks)
  */
-export async function smartParsePDF(pdfBuffer: Buffer, llamaParseApiKey?: string): Promise<PDFParseResult> {
+export async function smartParsePDF(
+  pdfBuffer: Buffer,
+  llamaParseApiKey?: string,
+  parsingInstructions: string = '한국어 자소서와 이력서 문서입니다. 모든 섹션과 내용을 정확하게 추출해주세요.'
+): Promise<PDFParseResult> {
   const startTime = Date.now();
   const hasComplexLayout = shouldUseLlamaParse(pdfBuffer);
 
@@ -281,7 +286,7 @@ export async function smartParsePDF(pdfBuffer: Buffer, llamaParseApiKey?: string
       apiKey: llamaParseApiKey,
       resultType: 'text',
       language: 'ko',
-      parsingInstructions: '한국어 자소서와 이력서 문서입니다. 모든 섹션과 내용을 정확하게 추출해주세요.',
+      parsingInstructions,
     });
   }
 
@@ -321,6 +321,43 @@ class RAGService {
     return `지원자 정보:\n${context}`;
   }
 
+  // Full text of an uploaded document (all chunks in order; the upload returns the first chunk's id)
+  async getDocumentText(userId: string, documentId: string): Promise<string> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const supabase = createServerClient() as any;
+
+    const { data: doc, error } = await supabase
+      .from('documents')
+      .select('content, metadata')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !doc) {
+      throw new Error(`Document not found: ${documentId}`);
+    }
+
+    const parentDocId = (doc.metadata as Record<string, unknown> | null)?.parent_doc_id;
+    if (!parentDocId) {
+      return doc.content;
+    }
+
+    const { data: chunks, error: chunksError } = await supabase
+      .from('documents')
+      .select('content, metadata')
+      .eq('user_id', userId)
+      .eq('metadata->>parent_doc_id', parentDocId);
+
+    if (chunksError || !chunks) {
+      return doc.content;
+    }
+
+    return (chunks as Array<{ content: string; metadata: { chunk_index?: number } }>)
+      .sort((a, b) => (a.metadata?.chunk_index ?? 0) - (b.metadata?.chunk_index ?? 0))
+      .map(chunk => chunk.content)
+      .join('\n');
+  }
+
   // Delete document
   async deleteDocument(documentId: string, userId: string): Promise<boolean> {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
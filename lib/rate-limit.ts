@@ -372,6 +372,7 @@ export const API_RATE_LIMITS = {
   interviewStart: { maxRequests: 10, windowMs: 60 * 60 * 1000 },  // 10 per hour
   interviewMessage: { maxRequests: 100, windowMs: 60 * 60 * 1000 }, // 100 per hour
   interviewEnd: { maxRequests: 20, windowMs: 60 * 60 * 1000 },    // 20 per hour
+  codeRun: { maxRequests: 30, windowMs: 60 * 1000 },          // 30 per minute (sandbox process per run)
 
   // Speech API - moderate limits
   speech: { maxRequests: 50, windowMs: 60 * 1000 },          // 50 per minute
@@ -412,6 +413,8 @@ export function getRateLimitConfig(pathname: string): RateLimitConfig {
   if (pathname === '/api/interview/start') return API_RATE_LIMITS.interviewStart;
   if (pathname === '/api/interview/message') return API_RATE_LIMITS.interviewMessage;
   if (pathname === '/api/interview/end') return API_RATE_LIMITS.interviewEnd;
+  if (pathname === '/api/interview/coding/run') return API_RATE_LIMITS.codeRun;
+  if (pathname === '/api/interview/presentation/deck') return API_RATE_LIMITS.upload;
   if (pathname.includes('/api/interview')) return API_RATE_LIMITS.interviewMessage;
   if (pathname === '/api/tts') return API_RATE_LIMITS.tts;
   if (pathname === '/api/stt') return API_RATE_LIMITS.stt;
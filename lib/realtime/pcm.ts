@@ -0,0 +1,211 @@
+// ============================================
+// PCM helpers for realtime voice
+// ============================================
+// Microphone audio travels as raw PCM: 16 kHz, mono, signed 16-bit little-endian.
+// Speech providers want a file, so utterances are wrapped in a WAV header.
+// Push-to-talk recordings are converted to WAV in the browser so the server can
+// trim silence before transcription (lib/stt/vad.ts), as long as the WAV fits
+// the serverless request body limit.
+
+export const REALTIME_SAMPLE_RATE = 16000;
+
+// Vercel rejects request bodies over 4.5 MB; the rest is room for the form fields.
+// About 2 minutes of 16 kHz mono WAV.
+export const MAX_WAV_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Decode little-endian 16-bit PCM bytes (an odd trailing byte is dropped)
+ */
+export function pcmFromBytes(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(Math.floor(bytes.length / 2));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, samples.length * 2);
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true);
+  }
+
+  return samples;
+}
+
+/**
+ * Encode samples as little-endian 16-bit PCM bytes (client → server upload)
+ */
+export function pcmToBytes(samples: Int16Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, samples[i], true);
+  }
+
+  return bytes;
+}
+
+/**
+ * Root-mean-square level of a frame, normalized to 0-1
+ */
+export function frameRms(samples: Int16Array): number {
+  if (samples.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const normalized = samples[i] / 32768;
+    sum += normalized * normalized;
+  }
+
+  return Math.sqrt(sum / samples.length);
+}
+
+export function samplesToMs(sampleCount: number, sampleRate: number = REALTIME_SAMPLE_RATE): number {
+  return (sampleCount / sampleRate) * 1000;
+}
+
+/**
+ * Convert Web Audio float samples (-1..1) to 16-bit PCM
+ */
+export function floatToInt16(chunks: Float32Array[]): Int16Array {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const samples = new Int16Array(length);
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      const clamped = Math.max(-1, Math.min(1, chunk[i]));
+      samples[offset++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Wrap PCM chunks in a 44-byte RIFF/WAVE header (browser-safe)
+ */
+export function encodeWavBytes(chunks: Int16Array[], sampleRate: number = REALTIME_SAMPLE_RATE): Uint8Array<ArrayBuffer> {
+  const sampleCount = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const dataSize = sampleCount * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (text: string, offset: number) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii('RIFF', 0);
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii('WAVE', 8);
+  writeAscii('fmt ', 12);
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii('data', 36);
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      view.setInt16(offset, chunk[i], true);
+      offset += 2;
+    }
+  }
+
+  return bytes;
+}
+
+export function encodeWav(chunks: Int16Array[], sampleRate: number = REALTIME_SAMPLE_RATE): Buffer {
+  return Buffer.from(encodeWavBytes(chunks, sampleRate).buffer);
+}
+
+/**
+ * Read a 16-bit PCM WAV file (channels are averaged to mono)
+ * Returns null for anything else (compressed formats, other bit depths)
+ */
+export function decodeWav(bytes: Uint8Array): { samples: Int16Array; sampleRate: number } | null {
+  if (bytes.length < 44) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  if (ascii(0) !== 'RIFF' || ascii(8) !== 'WAVE') return null;
+
+  let channels = 0;
+  let sampleRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const format = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (format !== 1 || bitsPerSample !== 16) return null;
+
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (id === 'data') {
+      if (!channels) return null;
+
+      // Streamed recordings may leave the size unset; read to the end
+      const end = Math.min(body + size, bytes.length);
+      const frameCount = Math.floor((end - body) / (2 * channels));
+      const samples = new Int16Array(frameCount);
+
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          sum += view.getInt16(body + (i * channels + c) * 2, true);
+        }
+        samples[i] = Math.round(sum / channels);
+      }
+
+      return { samples, sampleRate };
+    }
+
+    offset = body + size + (size % 2); // Chunks are word-aligned
+  }
+
+  return null;
+}
+
+/**
+ * Size of a mono 16-bit WAV file of the given length
+ */
+export function wavByteLength(durationSeconds: number, sampleRate: number = REALTIME_SAMPLE_RATE): number {
+  return 44 + Math.ceil(durationSeconds * sampleRate) * 2;
+}
+
+/**
+ * Browser: decode a MediaRecorder recording (webm/opus, mp4, ...) into mono WAV
+ * so the server can trim silence before transcription. Recordings whose WAV
+ * would exceed MAX_WAV_UPLOAD_BYTES are returned as recorded (compressed) and
+ * transcribed untrimmed.
+ */
+export async function prepareRecordingUpload(blob: Blob, sampleRate: number = REALTIME_SAMPLE_RATE): Promise<Blob> {
+  const decoder = new AudioContext();
+
+  try {
+    const decoded = await decoder.decodeAudioData(await blob.arrayBuffer());
+    if (wavByteLength(decoded.duration, sampleRate) > MAX_WAV_UPLOAD_BYTES) {
+      return blob;
+    }
+
+    // Resample + downmix
+    const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * sampleRate)), sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+
+    const rendered = await offline.startRendering();
+    const samples = floatToInt16([rendered.getChannelData(0)]);
+
+    return new Blob([encodeWavBytes([samples], sampleRate)], { type: 'audio/wav' });
+  } finally {
+    decoder.close();
+  }
+}
@@ -0,0 +1,190 @@
+// ============================================
+// Realtime Voice Server (WebSocket)
+// ============================================
+// Duplex voice sessions need state that outlives a request (microphone audio,
+// end-of-turn detection, the interviewer turn in flight), so they run in a
+// dedicated long-lived Node process (scripts/realtime-server.ts) instead of
+// serverless routes. A session lives exactly as long as the socket that owns it.
+//
+// Protocol (ws://<host>/realtime):
+// - client → server: a JSON text message first
+//     { type: 'start', access_token, session_id, mode?: 'interview' | 'captions' }
+//   then binary frames of raw PCM (16 kHz, mono, s16le), ~100ms each
+// - server → client: JSON text messages { event, data }: ready (after start),
+//   speech_start, transcript_partial, transcript_final, turn_start, question_chunk,
+//   audio, turn_complete, audio_complete, interrupted, heartbeat, error
+// - closing the socket closes the session (cancels an in-flight interviewer turn)
+// Database access uses the candidate's access token, so RLS scopes every write.
+
+import { createServer, type Server } from 'http';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { createClient } from '@supabase/supabase-js';
+import { RealtimeVoiceSession, type RealtimeSessionMode } from './session';
+import type { SSEServerEvent } from '@/lib/stream/sse-server';
+import type { SupabaseServerClient } from '@/lib/interview/turn';
+import type { Database } from '@/types/database';
+import type { InterviewLanguage } from '@/types/interview';
+
+export const REALTIME_PATH = '/realtime';
+
+const START_TIMEOUT_MS = 10000; // Time allowed for the start message
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+interface StartMessage {
+  type: 'start';
+  access_token?: string;
+  session_id?: string;
+  mode?: RealtimeSessionMode;
+}
+
+interface OpenedSession {
+  realtime: RealtimeVoiceSession;
+  supabase: SupabaseServerClient;
+}
+
+// One live realtime session per interview (a new connection replaces the old one)
+const liveSessions = new Map<string, { realtime: RealtimeVoiceSession; socket: WebSocket }>();
+
+/**
+ * HTTP server that accepts realtime voice sockets on REALTIME_PATH
+ */
+export function createRealtimeServer(): Server {
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket upgrade required');
+  });
+
+  const sockets = new WebSocketServer({ server, path: REALTIME_PATH, maxPayload: MAX_MESSAGE_BYTES });
+  sockets.on('connection', handleConnection);
+
+  return server;
+}
+
+function send(socket: WebSocket, event: SSEServerEvent): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+function toBytes(raw: RawData): Uint8Array {
+  if (Array.isArray(raw)) return new Uint8Array(Buffer.concat(raw));
+  return raw instanceof ArrayBuffer ? new Uint8Array(raw) : new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength);
+}
+
+function handleConnection(socket: WebSocket): void {
+  let opened: OpenedSession | null = null;
+  let starting = false;
+
+  const fail = (message: string) => {
+    send(socket, { event: 'error', data: { message } });
+    socket.close(1008, 'realtime session rejected');
+  };
+
+  const startTimer = setTimeout(() => {
+    if (!opened) fail('실시간 음성 세션이 시작되지 않았습니다.');
+  }, START_TIMEOUT_MS);
+
+  socket.on('message', (raw, isBinary) => {
+    if (isBinary) {
+      opened?.realtime.pushAudio(toBytes(raw), opened.supabase);
+      return;
+    }
+    if (starting) return;
+    starting = true;
+
+    let message: StartMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      fail('잘못된 시작 메시지입니다.');
+      return;
+    }
+
+    openSession(message)
+      .then(async (session) => {
+        clearTimeout(startTimer);
+        if (socket.readyState !== WebSocket.OPEN) {
+          session.realtime.close();
+          return;
+        }
+
+        const interviewId = session.realtime.interviewSessionId;
+        const existing = liveSessions.get(interviewId);
+        if (existing) existing.socket.close(1000, 'replaced by a new realtime session');
+        liveSessions.set(interviewId, { realtime: session.realtime, socket });
+        opened = session;
+
+        for await (const event of session.realtime.events()) {
+          send(socket, event);
+        }
+      })
+      .catch((error) => {
+        clearTimeout(startTimer);
+        fail(error instanceof Error ? error.message : '실시간 음성 세션을 시작하지 못했습니다.');
+      });
+  });
+
+  socket.on('close', () => {
+    clearTimeout(startTimer);
+    if (!opened) return;
+
+    const interviewId = opened.realtime.interviewSessionId;
+    if (liveSessions.get(interviewId)?.socket === socket) {
+      liveSessions.delete(interviewId);
+    }
+    opened.realtime.close();
+  });
+}
+
+/**
+ * Authenticate the start message and open the session for an active interview
+ */
+async function openSession(message: StartMessage): Promise<OpenedSession> {
+  const { access_token, session_id, mode = 'interview' } = message;
+
+  if (message.type !== 'start' || !session_id) {
+    throw new Error('session_id가 필요합니다.');
+  }
+  if (mode !== 'interview' && mode !== 'captions') {
+    throw new Error('mode는 interview 또는 captions여야 합니다.');
+  }
+  if (!access_token) {
+    throw new Error('로그인이 필요합니다.');
+  }
+
+  const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${access_token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  );
+
+  const { data: authData, error: authError } = await supabase.auth.getUser(access_token);
+  if (authError || !authData?.user) {
+    throw new Error('로그인이 필요합니다.');
+  }
+
+  const { data: session, error: sessionError } = await supabase
+    .from('interview_sessions')
+    .select('id, status, timer_config')
+    .eq('id', session_id)
+    .single();
+
+  if (sessionError || !session) {
+    throw new Error('세션을 찾을 수 없습니다.');
+  }
+  if ((session as { status: string }).status !== 'active') {
+    throw new Error('면접이 진행 중이 아닙니다.');
+  }
+
+  const realtime = new RealtimeVoiceSession({
+    interviewSessionId: session_id,
+    userId: authData.user.id,
+    mode,
+    language: (session as { timer_config?: { language?: InterviewLanguage } | null }).timer_config?.language,
+  });
+
+  return { realtime, supabase: supabase as unknown as SupabaseServerClient };
+}
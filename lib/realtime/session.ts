@@ -0,0 +1,408 @@
+// ============================================
+// Realtime Voice Session
+// ============================================
+// Long-lived duplex voice session on top of an interview session, owned by
+// one socket of the realtime server (lib/realtime/server):
+// - up:   raw PCM chunks
+// - down: events - partial/final transcripts, question text, per-sentence
+//         interviewer audio
+//
+// End of turn is detected server-side; each finished answer runs the same
+// interviewer turn as /api/interview/message (turn_count, current_interviewer_id).
+// Speaking over the interviewer cancels the in-flight turn (barge-in).
+// In 'captions' mode answers are only transcribed (live captions for the
+// push-to-talk screen); no interviewer turn is run.
+
+import { sttService, type TranscriptionStream, type TranscriptionUpdate, type TranscriptionWord } from '@/lib/stt/service';
+import { extractAnswerVoiceFeatures } from '@/lib/analysis/voice';
+import { SentenceBuffer } from '@/lib/streaming/sentence-buffer';
+import { SentenceSynthesizer } from '@/lib/streaming/sentence-synthesizer';
+import {
+  prepareInterviewerTurn,
+  saveInterviewerTurn,
+  streamPreparedTurn,
+  getTurnSpeaker,
+  type InterviewSessionRow,
+  type SupabaseServerClient,
+} from '@/lib/interview/turn';
+import type { SSEServerEvent } from '@/lib/stream/sse-server';
+import type { LLMResponse } from '@/lib/llm/router';
+import type { InterviewLanguage } from '@/types/interview';
+import { REALTIME_SAMPLE_RATE, pcmFromBytes } from './pcm';
+import { EndOfTurnDetector, type TurnDetectorConfig } from './turn-detector';
+
+// ============================================
+// Configuration
+// ============================================
+
+const FRAME_SAMPLES = 320; // 20ms at 16 kHz
+const PRE_ROLL_MS = 300; // Audio kept from before speech_start (word onsets)
+const PARTIAL_INTERVAL_MS = 1000; // New audio needed before the next partial transcript
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export type RealtimeSessionMode = 'interview' | 'captions';
+
+export interface RealtimeSessionOptions {
+  interviewSessionId: string;
+  userId: string;
+  mode?: RealtimeSessionMode;
+  language?: InterviewLanguage; // STT, filler words and sentence splitting (default: Korean)
+  sampleRate?: number;
+  turnDetector?: Partial<TurnDetectorConfig>;
+}
+
+// ============================================
+// Event queue (single subscriber: the socket that owns the session)
+// ============================================
+
+class EventQueue {
+  private items: SSEServerEvent[] = [];
+  private notify: (() => void) | null = null;
+  private closed = false;
+
+  push(event: SSEServerEvent): void {
+    if (this.closed) return;
+    this.items.push(event);
+    this.wake();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake();
+  }
+
+  async *drain(signal?: AbortSignal): AsyncGenerator<SSEServerEvent> {
+    const onAbort = () => this.wake();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      while (!signal?.aborted) {
+        const event = this.items.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+
+        if (this.closed) return;
+
+        // Wait for the next event; heartbeat keeps proxies from closing an idle stream
+        const timedOut = await new Promise<boolean>((resolve) => {
+          const timer = setTimeout(() => resolve(true), HEARTBEAT_INTERVAL_MS);
+          this.notify = () => {
+            clearTimeout(timer);
+            resolve(false);
+          };
+        });
+        this.notify = null;
+
+        if (timedOut) {
+          yield { event: 'heartbeat', data: { timestamp: Date.now() } };
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private wake(): void {
+    this.notify?.();
+  }
+}
+
+// Word timings relative to the start of the session's audio
+function shiftWords(words: TranscriptionWord[], offsetSeconds: number): TranscriptionWord[] {
+  return words.map(w => ({ ...w, start: w.start + offsetSeconds, end: w.end + offsetSeconds }));
+}
+
+// ============================================
+// Session
+// ============================================
+
+export class RealtimeVoiceSession {
+  readonly id = crypto.randomUUID();
+  readonly interviewSessionId: string;
+  readonly userId: string;
+  readonly sampleRate: number;
+  readonly mode: RealtimeSessionMode;
+  readonly language: InterviewLanguage;
+
+  private detector: EndOfTurnDetector;
+  private queue = new EventQueue();
+  private pendingSamples = new Int16Array(0); // Tail shorter than one frame
+  private preRoll: Int16Array[] = [];
+  private preRollSamples = 0;
+  private processedSamples = 0;
+  private transcription: TranscriptionStream | null = null; // Set while the candidate is speaking
+  private turnController: AbortController | null = null;
+  private carriedAnswer = ''; // Answer text of a turn cancelled before it was saved
+  private closed = false;
+
+  constructor(options: RealtimeSessionOptions) {
+    this.interviewSessionId = options.interviewSessionId;
+    this.userId = options.userId;
+    this.sampleRate = options.sampleRate ?? REALTIME_SAMPLE_RATE;
+    this.mode = options.mode ?? 'interview';
+    this.language = options.language ?? 'ko';
+    this.detector = new EndOfTurnDetector({ sampleRate: this.sampleRate, ...options.turnDetector });
+
+    this.queue.push({
+      event: 'ready',
+      data: { realtime_id: this.id, session_id: this.interviewSessionId, sample_rate: this.sampleRate, mode: this.mode },
+    });
+  }
+
+  /** True while an interviewer turn is being generated or spoken */
+  get isResponding(): boolean {
+    return this.turnController !== null;
+  }
+
+  /**
+   * Downstream events, until the session is closed
+   */
+  events(signal?: AbortSignal): AsyncGenerator<SSEServerEvent> {
+    return this.queue.drain(signal);
+  }
+
+  /**
+   * Upstream microphone audio (raw PCM bytes)
+   * The candidate's supabase client is used if this chunk ends a turn
+   */
+  pushAudio(bytes: Uint8Array, supabase: SupabaseServerClient): void {
+    if (this.closed) return;
+
+    const incoming = pcmFromBytes(bytes);
+    const samples = new Int16Array(this.pendingSamples.length + incoming.length);
+    samples.set(this.pendingSamples);
+    samples.set(incoming, this.pendingSamples.length);
+
+    let offset = 0;
+    for (; offset + FRAME_SAMPLES <= samples.length; offset += FRAME_SAMPLES) {
+      this.processFrame(samples.slice(offset, offset + FRAME_SAMPLES), supabase);
+    }
+    this.pendingSamples = samples.slice(offset);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.turnController?.abort();
+    this.transcription?.finish().catch(() => undefined);
+    this.transcription = null;
+    this.queue.push({ event: 'closed', data: { timestamp: Date.now() } });
+    this.queue.close();
+  }
+
+  private processFrame(frame: Int16Array, supabase: SupabaseServerClient): void {
+    this.processedSamples += frame.length;
+    const event = this.detector.pushFrame(frame);
+
+    if (this.transcription) {
+      this.transcription.push(frame);
+      if (event === 'end_of_turn') {
+        this.finishUtterance(supabase);
+      }
+      return;
+    }
+
+    this.preRoll.push(frame);
+    this.preRollSamples += frame.length;
+
+    if (event === 'speech_start') {
+      // Barge-in: the candidate talks over the interviewer
+      if (this.turnController) {
+        this.turnController.abort();
+        this.turnController = null;
+        this.queue.push({ event: 'interrupted', data: { timestamp: Date.now() } });
+      }
+      this.queue.push({ event: 'speech_start', data: { timestamp: Date.now() } });
+      this.startUtterance();
+      return;
+    }
+
+    this.trimPreRoll();
+  }
+
+  private trimPreRoll(): void {
+    const keepSamples = Math.round((PRE_ROLL_MS / 1000) * this.sampleRate);
+
+    while (this.preRoll.length > 1 && this.preRollSamples - this.preRoll[0].length >= keepSamples) {
+      this.preRollSamples -= this.preRoll.shift()!.length;
+    }
+  }
+
+  private startUtterance(): void {
+    const offsetSeconds = (this.processedSamples - this.preRollSamples) / this.sampleRate;
+
+    const transcription = sttService.createStream({
+      language: this.language,
+      sampleRate: this.sampleRate,
+      interimIntervalMs: PARTIAL_INTERVAL_MS,
+      onUpdate: (update) => this.pushTranscript(update, offsetSeconds),
+    });
+
+    this.preRoll.forEach((frame) => transcription.push(frame));
+    this.preRoll = [];
+    this.preRollSamples = 0;
+    this.transcription = transcription;
+  }
+
+  private pushTranscript(update: TranscriptionUpdate, offsetSeconds: number): void {
+    if (this.closed) return;
+
+    if (update.type === 'interim') {
+      if (!update.text) return;
+      this.queue.push({
+        event: 'transcript_partial',
+        data: {
+          text: update.text,
+          words: shiftWords(update.words, offsetSeconds),
+          stable_word_count: update.stableWordCount,
+        },
+      });
+      return;
+    }
+
+    this.queue.push({
+      event: 'transcript_final',
+      data: { text: update.text, words: shiftWords(update.words, offsetSeconds) },
+    });
+  }
+
+  private finishUtterance(supabase: SupabaseServerClient): void {
+    const transcription = this.transcription!;
+    this.transcription = null;
+
+    if (this.mode === 'captions') {
+      transcription.finish().catch((error) => {
+        console.warn('[Realtime] Final transcription failed:', error);
+        this.queue.push({ event: 'error', data: { message: 'STT transcription failed' } });
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.turnController = controller;
+
+    this.runTurn(transcription, supabase, controller.signal)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('[Realtime] Turn failed:', error);
+        this.queue.push({
+          event: 'error',
+          data: { message: error instanceof Error ? error.message : 'Unknown error' },
+        });
+      })
+      .finally(() => {
+        if (this.turnController === controller) {
+          this.turnController = null;
+        }
+      });
+  }
+
+  /**
+   * Final transcript → interviewer turn (same bookkeeping as /api/interview/message)
+   * → question text and per-sentence audio
+   */
+  private async runTurn(
+    transcription: TranscriptionStream,
+    supabase: SupabaseServerClient,
+    signal: AbortSignal
+  ): Promise<void> {
+    const startTime = Date.now();
+    const result = await transcription.finish(); // Emits transcript_final
+    const content = [this.carriedAnswer, result.text.trim()].filter(Boolean).join(' ');
+    this.carriedAnswer = '';
+
+    // Barged in before the answer was saved: it continues in the next utterance
+    if (!content || signal.aborted) {
+      this.carriedAnswer = content;
+      return;
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('interview_sessions')
+      .select('*')
+      .eq('id', this.interviewSessionId)
+      .single();
+
+    if (sessionError || !session) {
+      throw new Error('세션을 찾을 수 없습니다.');
+    }
+    if ((session as InterviewSessionRow).status !== 'active') {
+      throw new Error('면접이 진행 중이 아닙니다.');
+    }
+
+    if (signal.aborted) {
+      this.carriedAnswer = content;
+      return;
+    }
+
+    const voiceFeatures = extractAnswerVoiceFeatures(result, transcription.samples, this.sampleRate, this.language);
+    const { data: userMessage, error: userMsgError } = await supabase
+      .from('messages')
+      .insert({
+        session_id: this.interviewSessionId,
+        role: 'user',
+        content,
+        voice_features: voiceFeatures,
+      })
+      .select()
+      .single();
+
+    if (userMsgError) {
+      throw new Error(`Failed to save user message: ${userMsgError.message}`);
+    }
+
+    const prepared = await prepareInterviewerTurn(supabase, session as InterviewSessionRow, {
+      sessionId: this.interviewSessionId,
+      content,
+      userMessageId: userMessage?.id,
+      startTime,
+      voiceFeatures,
+    });
+    if (signal.aborted) return;
+
+    const { turn } = prepared;
+    const speaker = getTurnSpeaker(turn);
+
+    this.queue.push({
+      event: 'turn_start',
+      data: {
+        interviewer: speaker,
+      },
+    });
+
+    const sentences = new SentenceBuffer(this.language);
+    const synthesizer = new SentenceSynthesizer(speaker.id);
+    let llmResponse: LLMResponse | null = null;
+
+    for await (const event of streamPreparedTurn(prepared, signal)) {
+      if (event.type === 'complete') {
+        llmResponse = event.response;
+        continue;
+      }
+
+      this.queue.push({ event: 'question_chunk', data: { content: event.text } });
+      sentences.push(event.text).forEach((sentence) => synthesizer.add(sentence));
+
+      for await (const audio of synthesizer.drain(false, signal)) {
+        this.queue.push({ event: 'audio', data: audio });
+      }
+    }
+
+    if (signal.aborted || !llmResponse) return;
+
+    // Persist as soon as the question is known; audio may still be synthesizing
+    const body = await saveInterviewerTurn(turn, llmResponse);
+    this.queue.push({ event: 'turn_complete', data: body });
+
+    sentences.flush().forEach((sentence) => synthesizer.add(sentence));
+    for await (const audio of synthesizer.drain(true, signal)) {
+      this.queue.push({ event: 'audio', data: audio });
+    }
+
+    if (!signal.aborted) {
+      this.queue.push({ event: 'audio_complete', data: { sentence_count: synthesizer.sentenceCount } });
+    }
+  }
+}
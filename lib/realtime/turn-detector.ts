@@ -0,0 +1,73 @@
+// ============================================
+// End-of-turn Detection
+// ============================================
+// Energy-based: a turn starts after `minSpeechMs` of audio above the speech
+// threshold and ends after `endOfTurnSilenceMs` of continuous silence.
+// Frames are analyzed one at a time (20ms at 16 kHz by default).
+
+import { REALTIME_SAMPLE_RATE, frameRms, samplesToMs } from './pcm';
+
+export type TurnDetectorEvent = 'speech_start' | 'end_of_turn';
+
+export interface TurnDetectorConfig {
+  speechThreshold: number; // RMS, 0-1
+  minSpeechMs: number;
+  endOfTurnSilenceMs: number;
+  sampleRate: number;
+}
+
+export const DEFAULT_TURN_DETECTOR_CONFIG: TurnDetectorConfig = {
+  speechThreshold: 0.02,
+  minSpeechMs: 200,
+  endOfTurnSilenceMs: 800, // Korean answers pause mid-sentence; shorter cuts candidates off
+  sampleRate: REALTIME_SAMPLE_RATE,
+};
+
+export class EndOfTurnDetector {
+  private config: TurnDetectorConfig;
+  private speaking = false;
+  private speechMs = 0;
+  private silenceMs = 0;
+
+  constructor(config: Partial<TurnDetectorConfig> = {}) {
+    this.config = { ...DEFAULT_TURN_DETECTOR_CONFIG, ...config };
+  }
+
+  /** True between speech_start and end_of_turn */
+  get inSpeech(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Analyze one frame; returns an event when the turn state changes
+   */
+  pushFrame(frame: Int16Array): TurnDetectorEvent | null {
+    const frameMs = samplesToMs(frame.length, this.config.sampleRate);
+    const isSpeech = frameRms(frame) >= this.config.speechThreshold;
+
+    if (!this.speaking) {
+      this.speechMs = isSpeech ? this.speechMs + frameMs : 0;
+
+      if (this.speechMs >= this.config.minSpeechMs) {
+        this.speaking = true;
+        this.silenceMs = 0;
+        return 'speech_start';
+      }
+      return null;
+    }
+
+    this.silenceMs = isSpeech ? 0 : this.silenceMs + frameMs;
+
+    if (this.silenceMs >= this.config.endOfTurnSilenceMs) {
+      this.reset();
+      return 'end_of_turn';
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.speaking = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+  }
+}
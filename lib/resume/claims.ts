@@ -0,0 +1,130 @@
+// ============================================
+// Resume Claim Extraction
+// ============================================
+// Once per session, the whole resume is read and split into claims worth
+// verifying: projects, measured achievements and skills. They become the
+// interview plan, so every item gets asked about instead of only the chunks
+// a per-turn similarity search happens to surface. If the extraction call
+// fails, resume lines that look like claims (numbers, project wording, skill
+// lists) are used instead.
+
+import { llmRouter } from '@/lib/llm/router';
+import type { ResumeClaim, ResumeClaimType } from '@/types/interview';
+
+export const MAX_RESUME_CLAIMS = 8;
+const MAX_RESUME_CHARS = 12000;
+
+const RESUME_CLAIMS_SCHEMA = {
+  type: 'object',
+  properties: {
+    claims: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: ['project', 'achievement', 'skill'],
+            description: '프로젝트 / 수치로 표현된 성과 / 기술 역량',
+          },
+          claim: { type: 'string', description: '검증할 주장을 한 문장으로 요약' },
+          source: { type: 'string', description: '근거가 된 이력서 문장 (원문 그대로)' },
+        },
+        required: ['type', 'claim', 'source'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['claims'],
+  additionalProperties: false,
+};
+
+// Achievements first: measured results are the claims most often inflated
+const TYPE_ORDER: Record<ResumeClaimType, number> = { achievement: 0, project: 1, skill: 2 };
+
+const PROJECT_PATTERN = /프로젝트|개발|구축|설계|구현|도입|리뉴얼|마이그레이션|project|built|developed|designed|implemented|launched/i;
+const ACHIEVEMENT_PATTERN = /\d+(\.\d+)?\s*(%|배|건|명|만|억|초|ms|x)|개선|단축|절감|증가|감소|달성|수상|improved|reduced|increased/i;
+const SKILL_PATTERN = /기술\s*스택|skills?|사용\s*기술|tech stack|능숙|활용 가능/i;
+
+/**
+ * Order claims for the interview and number them claim_1, claim_2, ...
+ */
+export function orderClaims(claims: Array<Omit<ResumeClaim, 'id'>>): ResumeClaim[] {
+  const seen = new Set<string>();
+
+  return claims
+    .map(claim => ({ ...claim, claim: claim.claim.trim(), source: claim.source.trim() }))
+    .filter(claim => {
+      const key = claim.claim.replace(/\s+/g, '');
+      if (!claim.claim || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => TYPE_ORDER[a.type] - TYPE_ORDER[b.type])
+    .slice(0, MAX_RESUME_CLAIMS)
+    .map((claim, index) => ({ id: `claim_${index + 1}`, ...claim }));
+}
+
+/**
+ * Extraction fallback: resume lines that read like claims
+ */
+export function extractClaimsFromText(resumeText: string): ResumeClaim[] {
+  const lines = resumeText
+    .split(/\n|(?<=[.!?。])\s+/)
+    .map(line => line.replace(/^[\s\-•·*▪◦●]+/, '').trim())
+    .filter(line => line.length >= 10 && line.length <= 200);
+
+  const claims = lines.flatMap((line): Array<Omit<ResumeClaim, 'id'>> => {
+    const type: ResumeClaimType | null = ACHIEVEMENT_PATTERN.test(line) ? 'achievement'
+      : PROJECT_PATTERN.test(line) ? 'project'
+      : SKILL_PATTERN.test(line) ? 'skill'
+      : null;
+    return type ? [{ type, claim: line, source: line }] : [];
+  });
+
+  return orderClaims(claims);
+}
+
+/**
+ * Verifiable claims in the resume, in interview order
+ */
+export async function extractResumeClaims(resumeText: string, jobType: string): Promise<ResumeClaim[]> {
+  const text = resumeText.slice(0, MAX_RESUME_CHARS);
+
+  const systemPrompt = `당신은 채용 담당자입니다. 지원자의 이력서에서 면접에서 사실 여부를 확인해야 할 주장을 뽑습니다.
+
+## 추출 기준
+- achievement: 수치나 결과로 표현된 성과 (예: "응답 속도 40% 개선", "MAU 10만 달성")
+- project: 지원자가 참여했다고 적은 프로젝트와 그 안의 역할
+- skill: 다룰 줄 안다고 적은 기술 중 직무와 관련 깊은 것 (단순 나열은 하나로 묶기)
+- 학력, 연락처, 자격증 번호처럼 면접에서 검증할 필요가 없는 정보는 제외하세요.
+- 이력서에 없는 내용을 만들지 마세요. source에는 이력서 문장을 그대로 옮기세요.
+- 최대 ${MAX_RESUME_CLAIMS}개, 구체적인 주장일수록 우선하세요.
+
+JSON 형식으로 응답하세요.`;
+
+  try {
+    const response = await llmRouter.complete({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `지원 직무: ${jobType}\n\n이력서:\n${text}` },
+      ],
+      jsonSchema: { name: 'resume_claims', schema: RESUME_CLAIMS_SCHEMA },
+      maxTokens: 1200,
+      temperature: 0.1,
+      modelTier: 'fast',
+      operation: 'resume_claim_extraction',
+    });
+
+    const parsed = JSON.parse(response.content || '{}') as { claims?: Array<Omit<ResumeClaim, 'id'>> };
+    const claims = orderClaims(
+      (parsed.claims || []).filter(claim => claim && claim.type in TYPE_ORDER && typeof claim.claim === 'string')
+        .map(claim => ({ type: claim.type, claim: claim.claim, source: claim.source || claim.claim }))
+    );
+
+    return claims.length > 0 ? claims : extractClaimsFromText(text);
+  } catch (error) {
+    console.error('Resume claim extraction failed:', error);
+    return extractClaimsFromText(text);
+  }
+}
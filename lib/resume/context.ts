@@ -0,0 +1,60 @@
+// ============================================
+// Resume Deep-Dive Context
+// ============================================
+// System prompt section for the resume deep-dive: the claim this question
+// targets, what the earlier answers on it still left open, and how far the
+// plan has got. The first question on a claim asks for the candidate's own
+// part; follow-ups go after whatever the vague answer skipped.
+
+import type { ResumeClaim, ResumeClaimCoverage, ResumeClaimType } from '@/types/interview';
+import { MAX_ANSWERS_PER_CLAIM } from './coverage';
+
+const OPENING_QUESTION: Record<ResumeClaimType, string> = {
+  achievement: '이 성과를 어떻게 측정했는지, 그리고 그 수치에 지원자 본인이 기여한 부분이 정확히 무엇인지 물으세요.',
+  project: '이 프로젝트에서 지원자가 직접 구현하거나 결정한 부분이 정확히 무엇이었는지 물으세요.',
+  skill: '이 기술을 실제로 써서 해결한 문제 하나를 들어, 어떻게 사용했는지 구체적으로 설명하게 하세요.',
+};
+
+// Follow-ups, in order, for an answer that did not back the claim up
+const FOLLOW_UP_ANGLES = [
+  '답변에서 빠진 구체적인 내용(본인 역할, 사용한 기술, 수치)을 하나 짚어 "정확히 무엇을 구현하셨나요?"처럼 다시 물으세요.',
+  '실제로 겪은 문제 하나와 그때 본인이 내린 판단을 단계별로 설명하게 하세요. 팀 전체의 이야기가 아니라 본인이 한 일을 요구하세요.',
+];
+
+export function formatResumeContext(options: {
+  claim: ResumeClaim;
+  followUp: boolean;
+  coverage: ResumeClaimCoverage[];
+}): string {
+  const { claim, followUp, coverage } = options;
+  const claimCoverage = coverage.find(c => c.claim_id === claim.id);
+  const answers = claimCoverage?.answers ?? 0;
+  const covered = coverage.filter(c => c.status !== 'pending').length;
+  const verified = coverage.filter(c => c.status === 'verified').length;
+
+  const instruction = followUp
+    ? `지원자의 직전 답변은 이 항목을 충분히 뒷받침하지 못했습니다 (꼬리질문 ${answers}/${MAX_ANSWERS_PER_CLAIM - 1}회째).\n${FOLLOW_UP_ANGLES[Math.min(answers - 1, FOLLOW_UP_ANGLES.length - 1)] ?? FOLLOW_UP_ANGLES[0]}`
+    : `새 항목입니다. 앞 항목에서 자연스럽게 넘어가며 이력서의 해당 부분을 짚어 주세요.\n${OPENING_QUESTION[claim.type]}`;
+
+  return `## [이력서 검증 면접] 진행 지침
+이 면접은 지원자의 이력서에 적힌 내용을 항목별로 하나씩 검증합니다. 진행: ${covered}/${coverage.length}개 항목 질문, ${verified}개 검증됨
+- 이번 질문은 아래 항목에만 집중하세요. 다른 주제로 넘어가지 마세요.
+- 이력서 문장을 그대로 믿지 말고 지원자 본인의 역할, 구체적인 행동, 측정 방법을 확인하세요.
+- 추궁하거나 거짓말을 단정하지 말고, 궁금해서 더 알고 싶다는 태도로 물으세요.
+
+## 이번 항목 (${claim.type === 'achievement' ? '성과' : claim.type === 'project' ? '프로젝트' : '기술'})
+- 주장: ${claim.claim}
+- 이력서 원문: "${claim.source}"
+
+## 이번 질문
+${instruction}`;
+}
+
+/**
+ * Every claim has been covered: the interviewer wraps up instead of asking
+ */
+export function formatResumeClosing(): string {
+  return `## [이력서 검증 면접] 마무리
+이력서의 모든 항목을 확인했습니다. 새 질문을 하지 말고, 답변해 준 것에 대한 짧은 감사 인사로 면접을 마무리하세요.
+응답 JSON의 question 필드에 마무리 인사를 적고, follow_up_intent는 false로 두세요.`;
+}
@@ -0,0 +1,174 @@
+// ============================================
+// Resume Claim Coverage
+// ============================================
+// Which claims have been asked about and whether the answers backed them up.
+// Every interviewer question in the deep-dive carries the claim it targets
+// (messages.resume_claim_id) and the answer that follows counts toward that
+// claim. An answer is specific when it has numbers, the candidate's own part,
+// concrete actions and the how/why; vague answers get follow-ups until the
+// claim is substantiated or the follow-ups run out.
+
+import type { ResumeClaim, ResumeClaimCoverage, ResumeClaimStatus } from '@/types/interview';
+
+// Specificity at which a claim counts as substantiated
+export const VERIFIED_SPECIFICITY = 60;
+// Answers on one claim before it is flagged as unsubstantiated
+export const MAX_ANSWERS_PER_CLAIM = 3;
+
+const NUMBER_PATTERN = /\d+(\.\d+)?\s*(%|배|건|명|개|만|억|초|분|시간|ms|x|k)?/gi;
+const OWNERSHIP_PHRASES = ['제가', '저는', '직접', '제 역할', '담당했', '맡았', 'i ', 'my ', "i'm", 'myself'];
+const ACTION_PHRASES = [
+  '구현', '설계', '작성', '측정', '도입', '분석', '개선', '리팩터', '최적화', '배포', '테스트', '검증',
+  'implemented', 'designed', 'wrote', 'measured', 'built', 'migrated', 'optimized', 'profiled',
+];
+const REASONING_PHRASES = ['때문에', '그래서', '원인', '방법', '과정', '결과적으로', '비교', 'because', 'so that', 'as a result', 'instead of'];
+const EVASIVE_PHRASES = [
+  '기억이 잘', '정확히는 모르', '팀에서 했', '같이 해서', '다 같이', '잘 모르겠', '그냥',
+  "don't remember", 'not sure', 'the team did', 'we all',
+];
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * How concretely an answer backs up a claim (0-100)
+ */
+export function scoreAnswerSpecificity(answer: string): number {
+  const text = answer.toLowerCase();
+  const numbers = (answer.match(NUMBER_PATTERN) || []).length;
+  const words = countWords(answer);
+
+  let score = 0;
+  if (numbers >= 1) score += 25;
+  if (numbers >= 2) score += 10;
+  if (OWNERSHIP_PHRASES.some(phrase => text.includes(phrase))) score += 20;
+  if (ACTION_PHRASES.some(phrase => text.includes(phrase))) score += 20;
+  if (REASONING_PHRASES.some(phrase => text.includes(phrase))) score += 15;
+  if (words >= 40) score += 20;
+  else if (words >= 20) score += 10;
+  if (EVASIVE_PHRASES.some(phrase => text.includes(phrase))) score -= 30;
+
+  return Math.max(0, Math.min(100, score));
+}
+
+function toStatus(questions: number, answers: number, bestSpecificity: number): ResumeClaimStatus {
+  if (questions === 0) return 'pending';
+  if (bestSpecificity >= VERIFIED_SPECIFICITY) return 'verified';
+  if (answers >= MAX_ANSWERS_PER_CLAIM) return 'unsubstantiated';
+  return 'probing';
+}
+
+/**
+ * Coverage per claim from the conversation so far
+ * `messages` is in order; interviewer messages carry the claim they asked about
+ */
+export function measureClaimCoverage(
+  claims: ResumeClaim[],
+  messages: Array<{ role: string; content: string; resume_claim_id?: string | null }>
+): ResumeClaimCoverage[] {
+  const stats = new Map(claims.map(claim => [claim.id, { questions: 0, answers: 0, best: 0 }]));
+  let askedClaim: string | null = null;
+
+  for (const msg of messages) {
+    if (msg.role !== 'user') {
+      askedClaim = msg.resume_claim_id && stats.has(msg.resume_claim_id) ? msg.resume_claim_id : null;
+      if (askedClaim) stats.get(askedClaim)!.questions++;
+      continue;
+    }
+    if (!askedClaim) continue;
+
+    const claimStats = stats.get(askedClaim)!;
+    claimStats.answers++;
+    claimStats.best = Math.max(claimStats.best, scoreAnswerSpecificity(msg.content));
+    askedClaim = null;
+  }
+
+  return claims.map(claim => {
+    const { questions, answers, best } = stats.get(claim.id)!;
+    return {
+      claim_id: claim.id,
+      questions,
+      answers,
+      best_specificity: best,
+      status: toStatus(questions, answers, best),
+    };
+  });
+}
+
+/**
+ * Claim for the next question: keep probing a vague claim, otherwise move on
+ * to the next one not asked yet. Null once every claim has been covered.
+ */
+export function selectNextClaim(
+  claims: ResumeClaim[],
+  coverage: ResumeClaimCoverage[],
+  lastClaimId?: string | null
+): { claim: ResumeClaim; followUp: boolean } | null {
+  const statusOf = (id: string) => coverage.find(c => c.claim_id === id)?.status;
+
+  const current = lastClaimId ? claims.find(claim => claim.id === lastClaimId) : undefined;
+  if (current && statusOf(current.id) === 'probing') {
+    return { claim: current, followUp: true };
+  }
+
+  const next = claims.find(claim => statusOf(claim.id) === 'pending');
+  return next ? { claim: next, followUp: false } : null;
+}
+
+// ============================================
+// Report
+// ============================================
+
+export type ResumeClaimVerdict = 'verified' | 'partial' | 'unsubstantiated' | 'not_covered';
+
+export interface ResumeClaimReport {
+  claim_id: string;
+  type: ResumeClaim['type'];
+  claim: string;
+  questions: number;
+  best_specificity: number;
+  verdict: ResumeClaimVerdict;
+  evidence: string;     // Why (evaluator's note or the system measurement)
+  flagged: boolean;     // The candidate could not back the claim up
+}
+
+const STATUS_VERDICT: Record<ResumeClaimStatus, ResumeClaimVerdict> = {
+  pending: 'not_covered',
+  probing: 'partial',
+  verified: 'verified',
+  unsubstantiated: 'unsubstantiated',
+};
+
+/**
+ * Per-claim verdicts for the report: the evaluator's verdict where it gave
+ * one for a claim that was asked about, the measured status otherwise
+ */
+export function buildClaimReport(
+  claims: ResumeClaim[],
+  coverage: ResumeClaimCoverage[],
+  verdicts: Array<{ claim_id: string; verdict: string; evidence?: string }> = []
+): ResumeClaimReport[] {
+  return claims.map(claim => {
+    const claimCoverage = coverage.find(c => c.claim_id === claim.id);
+    const status = claimCoverage?.status ?? 'pending';
+    const llm = verdicts.find(v => v.claim_id === claim.id);
+    const llmVerdict = llm && ['verified', 'partial', 'unsubstantiated'].includes(llm.verdict)
+      ? llm.verdict as ResumeClaimVerdict
+      : undefined;
+    const verdict = status === 'pending' ? 'not_covered' : llmVerdict ?? STATUS_VERDICT[status];
+
+    return {
+      claim_id: claim.id,
+      type: claim.type,
+      claim: claim.claim,
+      questions: claimCoverage?.questions ?? 0,
+      best_specificity: claimCoverage?.best_specificity ?? 0,
+      verdict,
+      evidence: (status !== 'pending' && llm?.evidence) || (status === 'pending'
+        ? '면접 시간 내에 다루지 못함'
+        : `질문 ${claimCoverage?.questions ?? 0}회, 답변 구체성 최고 ${claimCoverage?.best_specificity ?? 0}점`),
+      flagged: verdict === 'unsubstantiated',
+    };
+  });
+}
@@ -0,0 +1,281 @@
+// ============================================
+// Per-Answer Rubric Scoring
+// ============================================
+// Every candidate answer is scored against CORE_RUBRIC by a separate evaluator
+// call (buildRealtimeScoringRequest), weighted by the interviewer who asked.
+// The message flow starts it in the background and saves the result in
+// answer_scores; the end route scores whatever is still missing, shows the
+// scorecards to the final evaluator and sets the five core categories from
+// their averages, so the total rests on turn-level evidence.
+// answer_scores has no client policies: scores are read and written with the
+// service role client, so a candidate can't plant their own. Admin re-scoring
+// scores the answers again under the current rubric without saving them.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { llmRouter } from '@/lib/llm/router';
+import { buildRealtimeScoringRequest } from '@/lib/llm/prompts/scoring-system-prompt';
+import {
+  CORE_RUBRIC,
+  calculateTotalScore,
+  type CoreEvaluationCategory,
+  type ScoreLevel,
+} from '@/lib/llm/prompts/scoring-rubric';
+import { INTERVIEWER_BASE, type InterviewerType } from '@/types/interview';
+
+export const CORE_CATEGORIES = Object.keys(CORE_RUBRIC) as CoreEvaluationCategory[];
+
+// Question and answer text kept on each scorecard for the result page
+const SCORECARD_EXCERPT_CHARS = 300;
+
+// Final evaluator instruction when the core categories follow the answer scores
+export const ANSWER_SCORE_GUIDELINE =
+  '5축 점수는 답변별 채점의 평균으로 확정됩니다. reasoning은 답변별 채점을 근거로, 어느 답변에서 점수가 오르고 내렸는지 밝혀 작성하세요.';
+
+export interface AnswerScore {
+  scores: Record<CoreEvaluationCategory, ScoreLevel>;
+  reasoning: Record<CoreEvaluationCategory, string>;
+  highlights: string[];
+  improvements: string[];
+  overall_impression: string;
+  total: number;                   // 0-100, rubric weights
+  interviewer_id: InterviewerType; // Whose evaluation weights the scoring used
+  scored_at: string;
+}
+
+export interface AnswerScorecard extends AnswerScore {
+  message_id: string;
+  question: string;
+  answer: string;
+}
+
+export interface AnswerScoreSummary {
+  answers: number;
+  scores: Record<CoreEvaluationCategory, number>; // 1-5 averages, one decimal
+  total: number;
+}
+
+export interface AnswerScoringInput {
+  answer: string;
+  question?: string;
+  interviewerId?: string | null;
+  jobType: string;
+  industry?: string | null;
+}
+
+// Messages as stored; scores are looked up in answer_scores by message id
+export interface ScoredMessageRow {
+  id: string;
+  role: string;
+  content: string;
+  interviewer_id?: string | null;
+}
+
+export interface AnsweredQuestion {
+  message: ScoredMessageRow;
+  question?: string;
+  interviewerId?: string | null;
+}
+
+function toInterviewerType(id: string | null | undefined): InterviewerType {
+  return id && id in INTERVIEWER_BASE ? id as InterviewerType : 'hiring_manager';
+}
+
+const toLevel = (value: unknown): ScoreLevel | undefined =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(5, Math.max(1, Math.round(value))) as ScoreLevel
+    : undefined;
+
+/**
+ * Score one answer against the core rubric
+ * Returns null when the evaluator call fails or leaves a category unscored
+ */
+export async function scoreAnswer(input: AnswerScoringInput): Promise<AnswerScore | null> {
+  const interviewerId = toInterviewerType(input.interviewerId);
+  const request = buildRealtimeScoringRequest(
+    input.answer,
+    interviewerId,
+    input.jobType,
+    input.industry || '일반',
+    input.question ? `면접관 질문: ${input.question}` : undefined
+  );
+
+  try {
+    const response = await llmRouter.complete({
+      messages: request.messages,
+      jsonSchema: { name: request.response_format.json_schema.name, schema: request.response_format.json_schema.schema },
+      maxTokens: request.max_tokens,
+      temperature: request.temperature,
+      modelTier: 'fast',
+      operation: 'answer_scoring',
+    });
+
+    const parsed = JSON.parse(response.content || '{}') as {
+      scores?: Partial<Record<CoreEvaluationCategory, unknown>>;
+      reasoning?: Partial<Record<CoreEvaluationCategory, string>>;
+      highlights?: string[];
+      improvements?: string[];
+      overall_impression?: string;
+    };
+
+    const scores = Object.fromEntries(
+      CORE_CATEGORIES.map(category => [category, toLevel(parsed.scores?.[category])])
+    ) as Record<CoreEvaluationCategory, ScoreLevel | undefined>;
+    if (CORE_CATEGORIES.some(category => scores[category] === undefined)) {
+      console.warn('[Answer Scoring] Incomplete scores:', parsed.scores);
+      return null;
+    }
+
+    const levels = scores as Record<CoreEvaluationCategory, ScoreLevel>;
+    return {
+      scores: levels,
+      reasoning: Object.fromEntries(
+        CORE_CATEGORIES.map(category => [category, parsed.reasoning?.[category] || ''])
+      ) as Record<CoreEvaluationCategory, string>,
+      highlights: (parsed.highlights || []).slice(0, 3),
+      improvements: (parsed.improvements || []).slice(0, 3),
+      overall_impression: parsed.overall_impression || '',
+      total: calculateTotalScore(levels),
+      interviewer_id: interviewerId,
+      scored_at: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.warn('[Answer Scoring] Failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Score an answer and save it to answer_scores (service role client)
+ * Never throws: the message flow starts this without waiting for it
+ */
+export async function scoreAndSaveAnswer(
+  serviceClient: SupabaseClient,
+  sessionId: string,
+  messageId: string,
+  input: AnswerScoringInput
+): Promise<AnswerScore | null> {
+  const score = await scoreAnswer(input);
+  if (!score) return null;
+
+  const { error } = await serviceClient
+    .from('answer_scores')
+    .upsert({ message_id: messageId, session_id: sessionId, score }, { onConflict: 'message_id' });
+
+  if (error) {
+    console.warn('[Answer Scoring] Failed to save score:', messageId, error.message);
+  }
+  return score;
+}
+
+/**
+ * Candidate answers in order, each with the question it answered (the message before it)
+ */
+export function collectAnsweredQuestions(messages: ScoredMessageRow[]): AnsweredQuestion[] {
+  return messages.flatMap((message, index) => {
+    if (message.role !== 'user') return [];
+    const asked = index > 0 && messages[index - 1].role !== 'user' ? messages[index - 1] : undefined;
+    return [{ message, question: asked?.content, interviewerId: asked?.interviewer_id }];
+  });
+}
+
+/**
+ * Scorecards for every answer, scoring (and saving) the ones the background
+ * scoring hasn't finished or failed on. Answers that still can't be scored are left out.
+ */
+export async function loadAnswerScorecards(
+  serviceClient: SupabaseClient,
+  messages: ScoredMessageRow[],
+  session: { id: string; job_type: string; industry?: string | null }
+): Promise<AnswerScorecard[]> {
+  const answered = collectAnsweredQuestions(messages);
+
+  const { data: stored, error } = await serviceClient
+    .from('answer_scores')
+    .select('message_id, score')
+    .eq('session_id', session.id);
+  if (error) {
+    console.warn('[Answer Scoring] Failed to load scores:', session.id, error.message);
+  }
+  const saved = new Map(
+    ((stored || []) as Array<{ message_id: string; score: AnswerScore }>).map(row => [row.message_id, row.score])
+  );
+
+  const scores = await Promise.all(answered.map(({ message, question, interviewerId }) => {
+    const score = saved.get(message.id);
+    return score
+      ? Promise.resolve(score)
+      : scoreAndSaveAnswer(serviceClient, session.id, message.id, {
+        answer: message.content,
+        question,
+        interviewerId,
+        jobType: session.job_type,
+        industry: session.industry,
+      });
+  }));
+
+  return toScorecards(answered, scores);
+}
+
+/**
+ * Scorecards for every answer scored again now, without saving (re-scoring
+ * under the current rubric leaves the original scores in place)
+ */
+export async function rescoreAnswerScorecards(
+  messages: ScoredMessageRow[],
+  session: { job_type: string; industry?: string | null }
+): Promise<AnswerScorecard[]> {
+  const answered = collectAnsweredQuestions(messages);
+  const scores = await Promise.all(answered.map(({ message, question, interviewerId }) => scoreAnswer({
+    answer: message.content,
+    question,
+    interviewerId,
+    jobType: session.job_type,
+    industry: session.industry,
+  })));
+
+  return toScorecards(answered, scores);
+}
+
+function toScorecards(answered: AnsweredQuestion[], scores: Array<AnswerScore | null>): AnswerScorecard[] {
+  return answered.flatMap(({ message, question }, index) => {
+    const score = scores[index];
+    return score ? [{
+      ...score,
+      message_id: message.id,
+      question: (question || '').slice(0, SCORECARD_EXCERPT_CHARS),
+      answer: message.content.slice(0, SCORECARD_EXCERPT_CHARS),
+    }] : [];
+  });
+}
+
+/**
+ * The scorecards as a section of the final evaluation prompt ('' when none)
+ */
+export function formatAnswerScoreSection(scorecards: AnswerScorecard[], summary: AnswerScoreSummary | null): string {
+  if (!summary) return '';
+  return `
+
+## 답변별 채점 (시스템 채점, 답변마다 별도 평가)
+${scorecards.map((card, index) => `- 답변 ${index + 1}${card.question ? ` ("${card.question.slice(0, 60)}"에 대한 답변)` : ''}: ${
+  CORE_CATEGORIES.map(category => `${CORE_RUBRIC[category].name} ${card.scores[category]}`).join(' / ')} → ${card.total}점
+  ${card.overall_impression}`).join('\n')}
+- 평균: ${CORE_CATEGORIES.map(category => `${CORE_RUBRIC[category].name} ${summary.scores[category]}`).join(' / ')} → ${summary.total}점`;
+}
+
+/**
+ * Per-category averages across the scored answers; null when none were scored
+ */
+export function summarizeAnswerScores(scorecards: Array<Pick<AnswerScore, 'scores'>>): AnswerScoreSummary | null {
+  if (scorecards.length === 0) return null;
+
+  const scores = Object.fromEntries(CORE_CATEGORIES.map(category => {
+    const sum = scorecards.reduce((total, card) => total + card.scores[category], 0);
+    return [category, Math.round((sum / scorecards.length) * 10) / 10];
+  })) as Record<CoreEvaluationCategory, number>;
+
+  return {
+    answers: scorecards.length,
+    scores,
+    total: calculateTotalScore(scores as Record<CoreEvaluationCategory, ScoreLevel>),
+  };
+}
@@ -0,0 +1,201 @@
+// ============================================
+// Final Evaluation Ensemble
+// ============================================
+// One evaluation call can land on either side of a PASS_CRITERIA boundary when
+// the same transcript is scored again. With EVALUATION_ENSEMBLE_SIZE > 1 the end
+// route samples the final evaluation several times (round-robin over
+// EVALUATION_ENSEMBLE_MODELS when set), scores the consensus (per-category
+// means), reports how far the samples spread and flags the categories they
+// disagree on. A verdict the samples don't agree on is borderline.
+
+import { llmRouter, type CompletionRequest } from '@/lib/llm/router';
+import { isLLMProviderName, type LLMProviderName } from '@/lib/llm/providers';
+import { determinePassStatus } from '@/lib/llm/prompts/scoring-rubric';
+
+export type PassStatus = ReturnType<typeof determinePassStatus>;
+
+export const MAX_ENSEMBLE_SIZE = 7;
+// Samples this many levels apart (1-5) on a category flag it as low agreement
+export const LOW_AGREEMENT_RANGE = 2;
+// A single evaluation stays at temperature 0; samples need room to differ
+const ENSEMBLE_SAMPLE_TEMPERATURE = 0.7;
+
+export interface EnsembleMember {
+  provider?: LLMProviderName;
+  model?: string;
+}
+
+export interface EnsembleConfig {
+  size: number;
+  members: EnsembleMember[];
+}
+
+export interface EvaluationSample<T> {
+  provider: string;
+  model: string;
+  evaluation: T;
+}
+
+export interface ScoreAgreement {
+  mean: number;
+  spread: number; // standard deviation
+  min: number;
+  max: number;
+}
+
+export interface CategoryAgreement extends ScoreAgreement {
+  low_agreement: boolean;
+}
+
+export interface EvaluationEnsembleReport {
+  samples: Array<{ provider: string; model: string; total: number; pass_status: PassStatus }>;
+  categories: Record<string, CategoryAgreement>;
+  total: ScoreAgreement;
+  low_agreement: string[];   // Categories the samples disagree on
+  verdicts_agree: boolean;   // Every sample reached the same pass status
+}
+
+// The parts of an evaluation the consensus averages; everything else comes from one sample
+export interface SampledEvaluation {
+  category_scores: Record<string, { score: number; reasoning: string }>;
+  interviewer_impressions: Record<string, { score: number; comment: string }>;
+  competency_scores: Record<string, number>;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * EVALUATION_ENSEMBLE_SIZE (1 = a single evaluation) and
+ * EVALUATION_ENSEMBLE_MODELS ("openai,anthropic:claude-sonnet-4-5", optional)
+ */
+export function getEnsembleConfig(env: Record<string, string | undefined> = process.env): EnsembleConfig {
+  const requested = Math.round(Number(env.EVALUATION_ENSEMBLE_SIZE ?? 1));
+  const size = Number.isFinite(requested) ? Math.min(MAX_ENSEMBLE_SIZE, Math.max(1, requested)) : 1;
+
+  const members = (env.EVALUATION_ENSEMBLE_MODELS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry): EnsembleMember[] => {
+      const [provider, ...model] = entry.split(':');
+      if (!isLLMProviderName(provider)) return [];
+      return [{ provider, ...(model.length > 0 ? { model: model.join(':') } : {}) }];
+    });
+
+  return { size, members };
+}
+
+/**
+ * Run the evaluation request `size` times in parallel
+ * Failed or unparseable samples are dropped; if every call failed, the first error is thrown
+ */
+export async function sampleEvaluations<T>(
+  request: CompletionRequest,
+  config: EnsembleConfig,
+  parse: (content: string) => T | null
+): Promise<Array<EvaluationSample<T>>> {
+  const settled = await Promise.allSettled(
+    Array.from({ length: config.size }, (_, index) => {
+      const member = config.members.length > 0 ? config.members[index % config.members.length] : {};
+      return llmRouter.complete({
+        ...request,
+        ...member,
+        temperature: config.size > 1 ? ENSEMBLE_SAMPLE_TEMPERATURE : request.temperature,
+      });
+    })
+  );
+
+  const completed = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+  if (completed.length === 0) {
+    const failure = settled.find(outcome => outcome.status === 'rejected') as PromiseRejectedResult;
+    throw failure.reason;
+  }
+  if (completed.length < config.size) {
+    console.warn(`[Evaluation Ensemble] ${config.size - completed.length}/${config.size} samples failed`);
+  }
+
+  return completed.flatMap(completion => {
+    const evaluation = parse(completion.content || '{}');
+    return evaluation ? [{ provider: completion.provider, model: completion.model, evaluation }] : [];
+  });
+}
+
+export function measureAgreement(values: number[]): ScoreAgreement {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    mean: round2(mean),
+    spread: round2(Math.sqrt(variance)),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+}
+
+/**
+ * Consensus of the samples: mean category, impression and competency scores,
+ * with the reasoning, comments and feedback of the sample closest to the mean
+ */
+export function mergeEvaluations<T extends SampledEvaluation>(evaluations: T[]): T {
+  const categoryMean = (category: string) =>
+    evaluations.reduce((sum, evaluation) => sum + (evaluation.category_scores[category]?.score ?? 3), 0) / evaluations.length;
+  const categories = Object.keys(evaluations[0].category_scores);
+
+  // Representative sample: smallest distance from the category means
+  const distance = (evaluation: T) => categories.reduce(
+    (sum, category) => sum + Math.abs((evaluation.category_scores[category]?.score ?? 3) - categoryMean(category)),
+    0
+  );
+  const representative = evaluations.reduce((best, evaluation) => distance(evaluation) < distance(best) ? evaluation : best);
+
+  const average = (pick: (evaluation: T) => number | undefined) =>
+    evaluations.reduce((sum, evaluation) => sum + (pick(evaluation) ?? 0), 0) / evaluations.length;
+
+  return {
+    ...representative,
+    category_scores: Object.fromEntries(categories.map(category => [category, {
+      ...representative.category_scores[category],
+      score: round1(categoryMean(category)),
+    }])),
+    interviewer_impressions: Object.fromEntries(
+      Object.entries(representative.interviewer_impressions).map(([id, impression]) => [id, {
+        ...impression,
+        score: Math.round(average(evaluation => evaluation.interviewer_impressions[id]?.score)),
+      }])
+    ),
+    competency_scores: Object.fromEntries(
+      Object.keys(representative.competency_scores).map(key => [key, Math.round(average(evaluation => evaluation.competency_scores[key]))])
+    ),
+  };
+}
+
+/**
+ * The consensus total decides, unless the samples reached different verdicts
+ */
+export function determineConsensusPassStatus(consensusTotal: number, sampleTotals: number[]): PassStatus {
+  const verdicts = new Set(sampleTotals.map(determinePassStatus));
+  return verdicts.size > 1 ? 'borderline' : determinePassStatus(consensusTotal);
+}
+
+/**
+ * Per-category agreement across the samples' category scores (as the evaluator gave them)
+ */
+export function buildEnsembleReport(
+  samples: Array<{ provider: string; model: string; total: number; scores: Record<string, number> }>
+): EvaluationEnsembleReport {
+  const categories = Object.fromEntries(
+    Object.keys(samples[0].scores).map(category => {
+      const agreement = measureAgreement(samples.map(sample => sample.scores[category]));
+      return [category, { ...agreement, low_agreement: agreement.max - agreement.min >= LOW_AGREEMENT_RANGE }];
+    })
+  );
+
+  return {
+    samples: samples.map(({ provider, model, total }) => ({ provider, model, total, pass_status: determinePassStatus(total) })),
+    categories,
+    total: measureAgreement(samples.map(sample => sample.total)),
+    low_agreement: Object.keys(categories).filter(category => categories[category].low_agreement),
+    verdicts_agree: new Set(samples.map(sample => determinePassStatus(sample.total))).size === 1,
+  };
+}
@@ -0,0 +1,454 @@
+// ============================================
+// Shared Interview Evaluation
+// ============================================
+// The one definition of how a finished interview is scored, used by
+// /api/interview/end (Node) and the auto-score edge function (Deno):
+// - evaluation schema (5 core categories + mode axes), prompts and fallback
+// - total from the category levels (rubric weights) and the pass verdict
+// - the interview_results fields both write, stamped with SCORING_VERSION
+//   (TRANSCRIPT_SCORING_VERSION for the edge function, which scores the transcript alone)
+// Keep this module runtime-neutral: no LLM client, no env access, and imports
+// only from the rubric and interview types (the edge function maps `@/` to the
+// repository root in supabase/functions/auto-score/deno.json, and its
+// "sloppy-imports" resolves the extensionless imports of these files).
+
+import {
+  calculateTotalScore,
+  determinePassStatus,
+  generateRubricDocument,
+  type ModeEvaluationCategory,
+  type ScoreLevel,
+} from '@/lib/llm/prompts/scoring-rubric';
+import { INTERVIEWERS, type InterviewerType, type InterviewLanguage } from '@/types/interview';
+
+// Bump when the schema, prompts, rubric weights or total calculation change
+// the scores; rows written before the shared module carry 'v1'. Older results
+// are re-scored at the new version by an admin job (lib/scoring/rescore).
+export const SCORING_VERSION = 'v2';
+// Same prompt and rubric without the end route's per-answer grounding, measured
+// mode axes and ensemble, so not comparable with SCORING_VERSION; re-scoring
+// jobs pick these results up like older versions
+export const TRANSCRIPT_SCORING_VERSION = `${SCORING_VERSION}-transcript`;
+
+const INTERVIEWER_IDS: InterviewerType[] = ['hiring_manager', 'hr_manager', 'senior_peer'];
+
+// Detailed evaluation schema with rubric-based scoring
+export const EVALUATION_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    // 5축 핵심 평가 (1-5점 척도)
+    category_scores: {
+      type: 'object',
+      properties: {
+        logical_structure: {
+          type: 'object',
+          properties: {
+            score: { type: 'integer', description: '1-5점 척도' },
+            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
+          },
+          required: ['score', 'reasoning'],
+          additionalProperties: false,
+        },
+        job_expertise: {
+          type: 'object',
+          properties: {
+            score: { type: 'integer', description: '1-5점 척도' },
+            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
+          },
+          required: ['score', 'reasoning'],
+          additionalProperties: false,
+        },
+        attitude_communication: {
+          type: 'object',
+          properties: {
+            score: { type: 'integer', description: '1-5점 척도' },
+            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
+          },
+          required: ['score', 'reasoning'],
+          additionalProperties: false,
+        },
+        company_fit: {
+          type: 'object',
+          properties: {
+            score: { type: 'integer', description: '1-5점 척도' },
+            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
+          },
+          required: ['score', 'reasoning'],
+          additionalProperties: false,
+        },
+        growth_potential: {
+          type: 'object',
+          properties: {
+            score: { type: 'integer', description: '1-5점 척도' },
+            reasoning: { type: 'string', description: '점수 근거 (답변 인용 포함)' },
+          },
+          required: ['score', 'reasoning'],
+          additionalProperties: false,
+        },
+      },
+      required: ['logical_structure', 'job_expertise', 'attitude_communication', 'company_fit', 'growth_potential'],
+      additionalProperties: false,
+    },
+    // 면접관별 인상 점수
+    interviewer_impressions: {
+      type: 'object',
+      properties: {
+        hiring_manager: {
+          type: 'object',
+          properties: {
+            score: { type: 'number', description: '0-100점' },
+            comment: { type: 'string', description: '한 줄 평가' },
+          },
+          required: ['score', 'comment'],
+          additionalProperties: false,
+        },
+        hr_manager: {
+          type: 'object',
+          properties: {
+            score: { type: 'number', description: '0-100점' },
+            comment: { type: 'string', description: '한 줄 평가' },
+          },
+          required: ['score', 'comment'],
+          additionalProperties: false,
+        },
+        senior_peer: {
+          type: 'object',
+          properties: {
+            score: { type: 'number', description: '0-100점' },
+            comment: { type: 'string', description: '한 줄 평가' },
+          },
+          required: ['score', 'comment'],
+          additionalProperties: false,
+        },
+      },
+      required: ['hiring_manager', 'hr_manager', 'senior_peer'],
+      additionalProperties: false,
+    },
+    // 8축 역량 점수 (0-100)
+    competency_scores: {
+      type: 'object',
+      properties: {
+        behavioral: { type: 'number', description: '행동 역량 (0-100)' },
+        clarity: { type: 'number', description: '명확성 (0-100)' },
+        comprehension: { type: 'number', description: '이해력 (0-100)' },
+        communication: { type: 'number', description: '커뮤니케이션 (0-100)' },
+        reasoning: { type: 'number', description: '논리적 사고 (0-100)' },
+        problem_solving: { type: 'number', description: '문제 해결 (0-100)' },
+        leadership: { type: 'number', description: '리더십 (0-100)' },
+        adaptability: { type: 'number', description: '적응력 (0-100)' },
+      },
+      required: ['behavioral', 'clarity', 'comprehension', 'communication', 'reasoning', 'problem_solving', 'leadership', 'adaptability'],
+      additionalProperties: false,
+    },
+    feedback_summary: { type: 'string', description: '전체 피드백 요약 (2-3문장)' },
+    strengths: {
+      type: 'array',
+      items: { type: 'string' },
+      description: '강점 3가지 (구체적 근거 포함)',
+    },
+    improvements: {
+      type: 'array',
+      items: { type: 'string' },
+      description: '개선점 3가지 (구체적 조언 포함)',
+    },
+  },
+  required: [
+    'category_scores',
+    'interviewer_impressions',
+    'competency_scores',
+    'feedback_summary',
+    'strengths',
+    'improvements',
+  ],
+  additionalProperties: false,
+};
+
+// Resume deep-dive: the evaluator's verdict on each claim of the plan
+const CLAIM_VERDICTS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      claim_id: { type: 'string' },
+      verdict: {
+        type: 'string',
+        enum: ['verified', 'partial', 'unsubstantiated'],
+        description: '답변이 주장을 뒷받침함 / 일부만 뒷받침함 / 뒷받침하지 못함',
+      },
+      evidence: { type: 'string', description: '판정 근거 (답변 인용 포함)' },
+    },
+    required: ['claim_id', 'verdict', 'evidence'],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Evaluation schema with the mode-specific categories added to category_scores
+ * (and per-claim verdicts for the resume deep-dive)
+ */
+export function buildEvaluationSchema(modes: ModeEvaluationCategory[], withClaimVerdicts = false) {
+  if (modes.length === 0 && !withClaimVerdicts) return EVALUATION_SCHEMA;
+
+  const categoryScores = EVALUATION_SCHEMA.properties.category_scores;
+  const extra = Object.fromEntries(modes.map(mode => [mode, categoryScores.properties.growth_potential]));
+
+  return {
+    ...EVALUATION_SCHEMA,
+    properties: {
+      ...EVALUATION_SCHEMA.properties,
+      category_scores: {
+        ...categoryScores,
+        properties: { ...categoryScores.properties, ...extra },
+        required: [...categoryScores.required, ...modes],
+      },
+      ...(withClaimVerdicts ? { claim_verdicts: CLAIM_VERDICTS_SCHEMA } : {}),
+    },
+    required: [...EVALUATION_SCHEMA.required, ...(withClaimVerdicts ? ['claim_verdicts'] : [])],
+  };
+}
+
+// Category score as saved: system-measured axes carry their measurements alongside
+export type CategoryScoreResult = { score: number; reasoning: string } & Record<string, unknown>;
+
+export interface EvaluationResult {
+  category_scores: Record<string, CategoryScoreResult>;
+  interviewer_impressions: Record<string, { score: number; comment: string }>;
+  competency_scores: Record<string, number>;
+  feedback_summary: string;
+  strengths: string[];
+  improvements: string[];
+  claim_verdicts?: Array<{ claim_id: string; verdict: string; evidence?: string }>;
+}
+
+export interface EvaluationPromptInput {
+  jobType: string;
+  difficulty: string;
+  language: InterviewLanguage;
+  modes: ModeEvaluationCategory[];
+  transcript: string;
+  context?: string;         // Material after the transcript (problems, measurements, scorecards)
+  coreGuideline?: string;   // Extra instruction for the five core categories
+  modeGuidelines?: string;  // Mode-specific scoring sections
+  notes?: string[];         // Extra items for the closing checklist
+}
+
+// The interview_results fields every scoring path writes
+export interface EvaluationRecord {
+  overall_score: number;
+  pass_status: ReturnType<typeof determinePassStatus>;
+  interviewer_scores: Record<InterviewerType, number>;
+  interviewer_comments: Record<InterviewerType, string>;
+  competency_scores: Record<string, number>;
+  category_scores: Record<string, CategoryScoreResult>;
+  feedback_summary: string;
+  strengths: string[];
+  improvements: string[];
+  scoring_version: string;
+}
+
+export interface TranscriptMessage {
+  role: string;
+  content: string;
+  interviewer_id?: string | null;
+  resume_claim_id?: string | null;
+}
+
+// ============================================
+// Prompts
+// ============================================
+
+export function buildEvaluationSystemPrompt(language: InterviewLanguage): string {
+  return `당신은 면접 평가 전문가입니다.
+루브릭에 따라 객관적이고 엄격하게 평가합니다.
+- 증거 기반 평가: 모든 점수의 근거를 답변 내용에서 직접 인용
+- 관대한 점수 금지: 5점은 완벽한 답변에만, 의심스러우면 낮은 점수
+- 일관성 유지: 동일한 수준의 답변에는 동일한 점수${language === 'en' ? '\n- Write the entire report in English.' : ''}`;
+}
+
+/**
+ * Transcript lines as the evaluator reads them
+ * `speaker` can name speakers other than the candidate and the panel (e.g. co-candidates)
+ */
+export function formatEvaluationTranscript(
+  messages: TranscriptMessage[],
+  speaker?: (message: TranscriptMessage) => string | undefined
+): string {
+  return messages
+    .map(msg => {
+      const name = msg.role === 'user' ? '지원자' :
+        speaker?.(msg) || INTERVIEWERS[msg.interviewer_id as InterviewerType]?.name || '면접관';
+      return `${name}${msg.resume_claim_id ? ` [${msg.resume_claim_id}]` : ''}: ${msg.content}`;
+    })
+    .join('\n');
+}
+
+export function buildEvaluationPrompt(input: EvaluationPromptInput): string {
+  const { language } = input;
+  const rubricDoc = generateRubricDocument(input.modes, language);
+
+  return `다음은 AI 면접 기록입니다. 아래 루브릭에 따라 지원자의 면접 성과를 **엄격하게** 평가해주세요.
+
+## 면접 정보
+- 직무: ${input.jobType}
+- 난이도: ${input.difficulty}
+- 면접 언어: ${language === 'en' ? '영어' : language === 'mixed' ? '한국어/영어 혼합' : '한국어'}
+
+## 평가 루브릭
+${rubricDoc}
+
+## 면접 기록
+${input.transcript}${input.context || ''}
+
+## 평가 지침
+
+### 1. 5축 핵심 평가 (1-5점)
+각 항목을 루브릭 기준에 따라 엄격하게 채점하세요:
+- **5점**: 완벽한 수준, 기대를 크게 초과
+- **4점**: 좋음, 기대 충족
+- **3점**: 보통, 무난한 수준 (기본)
+- **2점**: 부족, 개선 필요
+- **1점**: 매우 부족, 기준 미달
+${input.coreGuideline ? `
+${input.coreGuideline}
+` : ''}
+### 2. 면접관별 인상 점수 (0-100점)
+각 면접관의 관점에서 평가:
+- **실무팀장(hiring_manager)**: 직무 전문성(45%), 문제해결력 중시
+- **HR담당자(hr_manager)**: 태도/커뮤니케이션(35%), 조직적합성(25%) 중시
+- **시니어동료(senior_peer)**: 직무전문성(35%), 성장가능성(25%) 중시
+
+### 3. 8축 역량 점수 (0-100점)
+5축 점수를 기반으로 8축 역량으로 변환하여 평가
+
+### 4. 총점 계산 공식
+총점 = (논리적구조×0.20 + 직무전문성×0.30 + 태도×0.20 + 적합도×0.15 + 성장성×0.15) × 20
+
+- 70점 이상: 합격 (pass)
+- 50-69점: 보류 (borderline)
+- 50점 미만: 불합격 (fail)
+${input.modeGuidelines || ''}${language !== 'ko' ? `
+### 외국어 구사력 항목 (1-5점)
+language_proficiency는 ${language === 'en' ? '영어 답변 전체' : '영어로 받은 질문에 대한 영어 답변'}의 정확성, 어휘, 유창성으로 채점하세요.
+억양과 발음 자체는 감점하지 마세요. 의미 전달이 막히는 경우에만 반영하세요.
+` : ''}${language === 'en' ? `
+### 리포트 언어
+feedback_summary, strengths, improvements, 모든 reasoning과 comment는 **영어로** 작성하세요. 답변 인용도 원문(영어) 그대로 사용하세요.
+` : ''}
+### 중요
+- 모든 점수의 근거를 면접 내용에서 직접 인용하세요
+- 강점과 개선점은 구체적인 예시와 함께 제시하세요
+- 관대한 점수 금지: 평균적인 면접은 3점(60점)입니다${(input.notes || []).map(note => `
+- ${note}`).join('')}`;
+}
+
+// ============================================
+// Results
+// ============================================
+
+/**
+ * Parsed evaluator output, or null when it isn't a usable evaluation
+ */
+export function parseEvaluation(content: string): EvaluationResult | null {
+  try {
+    const parsed = JSON.parse(content) as EvaluationResult;
+    return parsed && typeof parsed === 'object' && parsed.category_scores && parsed.interviewer_impressions
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Average evaluation used when the evaluator output can't be parsed
+ */
+export function createFallbackEvaluation(): EvaluationResult {
+  return {
+    category_scores: {
+      logical_structure: { score: 3, reasoning: '평가 오류' },
+      job_expertise: { score: 3, reasoning: '평가 오류' },
+      attitude_communication: { score: 3, reasoning: '평가 오류' },
+      company_fit: { score: 3, reasoning: '평가 오류' },
+      growth_potential: { score: 3, reasoning: '평가 오류' },
+    },
+    interviewer_impressions: {
+      hiring_manager: { score: 60, comment: '평가 중 오류 발생' },
+      hr_manager: { score: 60, comment: '평가 중 오류 발생' },
+      senior_peer: { score: 60, comment: '평가 중 오류 발생' },
+    },
+    competency_scores: {
+      behavioral: 60, clarity: 60, comprehension: 60, communication: 60,
+      reasoning: 60, problem_solving: 60, leadership: 60, adaptability: 60,
+    },
+    feedback_summary: '면접 평가 중 오류가 발생했습니다.',
+    strengths: ['평가 불가'],
+    improvements: ['다시 시도해주세요'],
+  };
+}
+
+/**
+ * Mode axes the evaluator left out (e.g. parse fallback) count as average
+ */
+export function completeModeScores(
+  categoryScores: Record<string, CategoryScoreResult>,
+  modes: ModeEvaluationCategory[],
+  language: InterviewLanguage
+): Record<string, CategoryScoreResult> {
+  const completed = { ...categoryScores };
+  for (const mode of modes) {
+    if (!completed[mode]) {
+      completed[mode] = { score: 3, reasoning: language === 'en' ? 'Not evaluated' : '평가 결과 없음' };
+    }
+  }
+  return completed;
+}
+
+/**
+ * Overall score (0-100) from the category scores using the rubric weights
+ */
+export function calculateEvaluationTotal(
+  categoryScores: Record<string, CategoryScoreResult>,
+  modes: ModeEvaluationCategory[]
+): number {
+  return calculateTotalScore(
+    {
+      logical_structure: categoryScores.logical_structure.score as ScoreLevel,
+      job_expertise: categoryScores.job_expertise.score as ScoreLevel,
+      attitude_communication: categoryScores.attitude_communication.score as ScoreLevel,
+      company_fit: categoryScores.company_fit.score as ScoreLevel,
+      growth_potential: categoryScores.growth_potential.score as ScoreLevel,
+    },
+    Object.fromEntries(
+      modes.map(mode => [mode, Math.min(5, Math.max(1, Math.round(categoryScores[mode].score))) as ScoreLevel])
+    )
+  );
+}
+
+/**
+ * interview_results fields for a final evaluation
+ * The verdict follows the total unless the caller decided it (e.g. split ensemble verdicts)
+ */
+export function buildEvaluationRecord(
+  evaluation: EvaluationResult,
+  overallScore: number,
+  passStatus: EvaluationRecord['pass_status'] = determinePassStatus(overallScore)
+): EvaluationRecord {
+  const impression = (id: InterviewerType) => evaluation.interviewer_impressions[id] ?? { score: 0, comment: '' };
+
+  return {
+    overall_score: overallScore,
+    pass_status: passStatus,
+    interviewer_scores: Object.fromEntries(
+      INTERVIEWER_IDS.map(id => [id, Math.round(impression(id).score)])
+    ) as Record<InterviewerType, number>,
+    interviewer_comments: Object.fromEntries(
+      INTERVIEWER_IDS.map(id => [id, impression(id).comment])
+    ) as Record<InterviewerType, string>,
+    competency_scores: evaluation.competency_scores,
+    category_scores: evaluation.category_scores,
+    feedback_summary: evaluation.feedback_summary,
+    strengths: evaluation.strengths,
+    improvements: evaluation.improvements,
+    scoring_version: SCORING_VERSION,
+  };
+}
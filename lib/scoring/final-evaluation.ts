@@ -0,0 +1,416 @@
+// ============================================
+// Final Evaluation
+// ============================================
+// The final evaluation of a finished interview, shared by /api/interview/end and
+// admin re-scoring (lib/scoring/rescore) so a re-scored result gets the same
+// prompt, schema, samples and verdict as one scored at the end of the interview
+// (rubric calibration scores its gold transcripts with it too):
+// - mode sections: the problem, final code / diagram / framework, slides, system
+//   measurements and plan progress the evaluator scores against, with the
+//   mode-specific scoring guidelines
+// - per-answer scorecards: the core categories are grounded in their averages
+// - ensemble (EVALUATION_ENSEMBLE_SIZE > 1): consensus of the samples; each sample
+//   is judged on its own scores and a verdict they split on is borderline
+// - resume deep-dive: per-claim verdicts; planned interviews: topic coverage
+// Loading the session and saving the result stay with the callers.
+
+import type { LLMProviderName } from '@/lib/llm/providers';
+import { getModeEvaluationCategories, type ModeEvaluationCategory } from '@/lib/llm/prompts/scoring-rubric';
+import { getDesignProblem } from '@/lib/design/problems';
+import { serializeDiagram } from '@/lib/design/diagram';
+import { getCaseProblem } from '@/lib/case/cases';
+import { serializeExhibit } from '@/lib/case/context';
+import { formatSlideOutline } from '@/lib/presentation/context';
+import { getDiscussionTopic } from '@/lib/discussion/topics';
+import { measureClaimCoverage, buildClaimReport, type ResumeClaimReport } from '@/lib/resume/coverage';
+import { measurePlanProgress, buildPlanReport, type InterviewPlanReport } from '@/lib/plan/progress';
+import {
+  summarizeAnswerScores,
+  formatAnswerScoreSection,
+  ANSWER_SCORE_GUIDELINE,
+  type AnswerScorecard,
+} from '@/lib/scoring/answers';
+import {
+  measureModeAxes,
+  finalizeCategoryScores,
+  type MeasuredSession,
+  type MeasuredMessage,
+  type ModeMeasurements,
+} from '@/lib/scoring/finalize';
+import {
+  getEnsembleConfig,
+  sampleEvaluations,
+  mergeEvaluations,
+  buildEnsembleReport,
+  determineConsensusPassStatus,
+  type EnsembleConfig,
+  type EvaluationEnsembleReport,
+} from '@/lib/scoring/ensemble';
+import {
+  buildEvaluationSchema,
+  buildEvaluationSystemPrompt,
+  buildEvaluationPrompt,
+  formatEvaluationTranscript,
+  parseEvaluation,
+  createFallbackEvaluation,
+  calculateEvaluationTotal,
+  buildEvaluationRecord,
+  type EvaluationResult,
+  type EvaluationRecord,
+} from '@/lib/scoring/evaluation';
+import type {
+  InterviewMode,
+  InterviewLanguage,
+  CodeSubmission,
+  DesignDiagram,
+  CaseState,
+  ResumePlan,
+  InterviewPlan,
+} from '@/types/interview';
+
+export interface FinalEvaluationSession extends MeasuredSession {
+  job_type: string;
+  difficulty: string;
+  interview_mode?: string | null;
+  timer_config?: (NonNullable<MeasuredSession['timer_config']> & {
+    design_problem_id?: string;
+    case_problem_id?: string;
+    language?: InterviewLanguage;
+    resume_plan?: ResumePlan;
+    interview_plan?: InterviewPlan;
+  }) | null;
+}
+
+export interface FinalEvaluationMessage extends MeasuredMessage {
+  design_diagram?: DesignDiagram | null;
+  case_state?: CaseState | null;
+  resume_claim_id?: string | null;
+  plan_topic_id?: string | null;
+}
+
+export interface FinalEvaluationInput {
+  session: FinalEvaluationSession;
+  messages: FinalEvaluationMessage[];
+  answerScorecards: AnswerScorecard[];
+  operation: 'evaluation' | 'rescore' | 'calibration';
+  provider?: LLMProviderName;   // Every sample on this provider / model (re-scoring jobs)
+  model?: string;
+  ensemble?: EnsembleConfig;    // Defaults to EVALUATION_ENSEMBLE_SIZE / _MODELS
+}
+
+export interface FinalEvaluation {
+  evaluation: EvaluationResult;   // With the final category scores
+  record: EvaluationRecord;
+  claimVerification: ResumeClaimReport[] | null;
+  planCoverage: InterviewPlanReport[] | null;
+  ensembleReport: EvaluationEnsembleReport | null;
+  servedBy: { provider: string; model: string } | null;  // null: no sample parsed (fallback evaluation)
+}
+
+interface ModeSections {
+  context: string;
+  modeGuidelines: string;
+  notes: string[];
+  resumePlan?: ResumePlan;
+  claimCoverage: ReturnType<typeof measureClaimCoverage>;
+  planCoverage: InterviewPlanReport[] | null;
+}
+
+/**
+ * Material the evaluator scores the mode axes against, with their scoring guidelines
+ */
+function buildModeSections(
+  session: FinalEvaluationSession,
+  messages: FinalEvaluationMessage[],
+  measurements: ModeMeasurements
+): ModeSections {
+  const {
+    codingProblem, codingTests, presentation, presentationVoice, slideCoverage,
+    isPressure, voiceStability, discussion, contribution, listening,
+  } = measurements;
+
+  // Coding interview: final code and hidden test results are evaluated too
+  const codeSubmissions = messages
+    .map(msg => msg.code_submission)
+    .filter(Boolean) as CodeSubmission[];
+  const finalCode = codeSubmissions[codeSubmissions.length - 1]?.source;
+
+  const codingSection = codingProblem ? `
+
+## 코딩 문제
+- ${codingProblem.title}: ${codingProblem.description}
+- 숨김 테스트: ${codingTests ? `${codingTests.passed}/${codingTests.total} 통과` : '제출된 코드 없음'}
+
+## 지원자의 최종 코드
+${finalCode ? `\`\`\`javascript\n${finalCode.slice(0, 4000)}\n\`\`\`` : '(제출된 코드 없음)'}` : '';
+
+  // System design interview: the final diagram is evaluated with the conversation
+  const designProblem = session.interview_mode === 'system_design' && session.timer_config?.design_problem_id
+    ? getDesignProblem(session.timer_config.design_problem_id)
+    : undefined;
+  const diagrams = messages
+    .map(msg => msg.design_diagram)
+    .filter(Boolean) as DesignDiagram[];
+  const finalDiagram = diagrams[diagrams.length - 1];
+
+  const designSection = designProblem ? `
+
+## 설계 문제
+- ${designProblem.title}: ${designProblem.description}
+- 요구사항: ${designProblem.requirements.join(' / ')}
+
+## 지원자의 최종 다이어그램 (답변 ${diagrams.length}회에 걸쳐 갱신)
+${finalDiagram ? serializeDiagram(finalDiagram) : '(그려진 다이어그램 없음)'}` : '';
+
+  // Case interview: the framework the candidate built and the data they asked for
+  const caseProblem = session.interview_mode === 'case' && session.timer_config?.case_problem_id
+    ? getCaseProblem(session.timer_config.case_problem_id)
+    : undefined;
+  const caseStates = messages
+    .map(msg => msg.case_state)
+    .filter(Boolean) as CaseState[];
+  const finalCaseState = caseStates[caseStates.length - 1];
+
+  const caseSection = caseProblem ? `
+
+## 케이스
+- ${caseProblem.title}: ${caseProblem.scenario}
+- 질문: ${caseProblem.question}
+- 핵심 인사이트 (채점 기준): ${caseProblem.expected_insights.join(' / ')}
+
+## 지원자가 본 자료
+${caseProblem.exhibits
+  .filter(exhibit => exhibit.reveal === 'initial' || finalCaseState?.revealed_exhibit_ids.includes(exhibit.id))
+  .map(exhibit => `${serializeExhibit(exhibit)}${exhibit.reveal === 'on_request' ? '\n(지원자 요청으로 공개)' : ''}`)
+  .join('\n\n')}
+
+## 지원자의 최종 프레임워크
+${finalCaseState && finalCaseState.framework.length > 0
+  ? finalCaseState.framework.map(branch => `- ${branch.name} (${branch.status})${branch.findings ? `: ${branch.findings}` : ''}`).join('\n')
+  : '(기록된 프레임워크 없음)'}` : '';
+
+  // PT interview: the first answer is the presentation, measured against the slides
+  const presentationSection = presentation ? `
+
+## 발표 자료 (${presentation.deck.filename}, ${presentation.deck.slides.length}장, 발표 ${presentation.minutes}분)
+${formatSlideOutline(presentation)}
+
+## 발표 분석 (시스템 측정)
+- 슬라이드 커버리지: ${slideCoverage ? `${slideCoverage.covered}/${slideCoverage.total}장${slideCoverage.slides.some(slide => slide.total > 0 && !slide.covered)
+  ? ` (거의 언급하지 않은 슬라이드: ${slideCoverage.slides.filter(slide => slide.total > 0 && !slide.covered).map(slide => slide.page).join(', ')})`
+  : ''}` : '발표 기록 없음'}
+- 음성: ${presentationVoice
+  ? `${presentationVoice.duration_seconds !== undefined ? `발표 ${Math.round(presentationVoice.duration_seconds)}초 / ` : ''}${presentationVoice.wpm} WPM, 추임새 ${presentationVoice.filler_rate}%, 2초 이상 공백 ${presentationVoice.long_pauses}회${presentationVoice.confidence !== undefined ? `, 음성 자신감 ${presentationVoice.confidence}점` : ''}`
+  : '음성 분석 없음 (텍스트 발표)'}` : '';
+
+  // Pressure interview: how the candidate's voice held up against the first answer
+  const pressureSection = isPressure ? `
+
+## 압박 면접 음성 안정성 (시스템 측정, 첫 답변 대비)
+${voiceStability
+  ? `- 음성 답변 ${voiceStability.answers}회, 음성 자신감 ${voiceStability.baseline_confidence}점 → 압박 이후 평균 ${voiceStability.average_confidence}점
+- 추임새 비율 +${voiceStability.filler_increase}%p, 답변 전 망설임 +${voiceStability.hesitation_increase}초, 말하기 속도 변동 ${voiceStability.wpm_variation}
+- 안정성 ${voiceStability.stability}점`
+  : '음성 답변이 2회 미만이라 측정하지 않음'}` : '';
+
+  // Group discussion: the candidate's share of the debate and whether they answered the others
+  const discussionTopic = discussion ? getDiscussionTopic(discussion.topic_id) : undefined;
+  const discussionSection = discussion && contribution && listening ? `
+
+## 토론 면접 (논제: ${discussionTopic?.motion ?? discussion.topic_id})
+- 지원자 입장: ${discussion.candidate_stance}
+- 다른 참가자: ${discussion.participants.map(p => `${p.name}(${p.stance})`).join(', ')}
+
+## 토론 분석 (시스템 측정, 사회자 발언 제외)
+- 발언 비중: ${Math.round(contribution.share * 100)}% (${contribution.user_turns}회 발언, 균등 비중 ${Math.round(contribution.even_share * 100)}%)
+- 직전 발언에 대한 반응: ${listening.responses > 0 ? `${listening.engaged}/${listening.responses}회` : '측정할 발언 없음'}` : '';
+
+  // Resume deep-dive: how each claim of the plan was asked about and answered
+  const resumePlan = session.interview_mode === 'resume_deep_dive' ? session.timer_config?.resume_plan : undefined;
+  const claimCoverage = resumePlan ? measureClaimCoverage(resumePlan.claims, messages) : [];
+
+  const resumeSection = resumePlan ? `
+
+## 이력서 검증 항목 (면접관 질문의 [claim_N] 표시가 해당 항목)
+${resumePlan.claims.map(claim => {
+  const coverage = claimCoverage.find(c => c.claim_id === claim.id);
+  return `- ${claim.id} (${claim.type}): ${claim.claim}
+  원문: "${claim.source}" / 질문 ${coverage?.questions ?? 0}회, 답변 구체성 최고 ${coverage?.best_specificity ?? 0}점 (시스템 측정)`;
+}).join('\n')}` : '';
+
+  // Planned interviews: which agenda topics the session reached
+  const interviewPlan = session.timer_config?.interview_plan;
+  const planCoverage = interviewPlan
+    ? buildPlanReport(interviewPlan, measurePlanProgress(interviewPlan, messages))
+    : null;
+
+  const planSection = planCoverage ? `
+
+## 면접 계획 진행 (시스템 측정)
+${planCoverage.map(topic => `- ${topic.title}: 질문 ${topic.questions}/${topic.planned_questions}회 (${
+  topic.outcome === 'covered' ? '완료' : topic.outcome === 'partial' ? '일부 진행' : '다루지 못함'})`).join('\n')}` : '';
+
+  // Mode-specific scoring sections
+  const modeGuidelines = `${codingProblem ? `
+### 5. 코딩 항목 (1-5점)
+테스트 통과율은 시스템이 별도로 반영합니다. coding 점수는 코드의 품질과, 복잡도/엣지 케이스에 대한 설명이 정확했는지로 채점하세요.
+` : ''}${designProblem ? `
+### 5. 시스템 설계 항목 (1-5점)
+scalability, trade_offs, design_communication을 최종 다이어그램과 대화 내용을 함께 근거로 채점하세요.
+다이어그램에만 있고 설명하지 못한 컴포넌트는 점수 근거로 인정하지 마세요.
+` : ''}${caseProblem ? `
+### 5. 케이스 항목 (1-5점)
+structuring은 최종 프레임워크와 그 변화 과정, quantitative_reasoning은 자료 요청의 적절성과 계산의 정확성, synthesis는 핵심 인사이트에 얼마나 근접한 결론과 권고안을 냈는지로 채점하세요.
+면접관이 먼저 알려준 인사이트를 지원자가 반복한 것은 점수 근거로 인정하지 마세요.
+` : ''}${presentation ? `
+### 5. PT 항목 (1-5점)
+면접 기록의 첫 번째 지원자 답변이 발표입니다.
+delivery는 발표의 구성과 시간 사용, content_coverage는 슬라이드 내용과 수치를 얼마나 설명했는지, qa_handling은 발표 이후 질문에 자료를 근거로 답했는지로 채점하세요.
+음성 지표와 슬라이드 커버리지는 시스템이 별도로 반영합니다.
+` : ''}${isPressure ? `
+### 5. 압박 면접 항목 (1-5점)
+면접관은 의도적으로 말을 끊고, 주장을 반박하고, 회의적인 반응과 시간 압박을 주었습니다.
+composure는 반박을 받은 직후 답변의 질로 채점하세요: 평정을 유지했는지, 근거와 수치로 주장을 입증했는지, 인정할 부분은 인정했는지, 말을 끊긴 뒤 핵심을 다시 잡았는지.
+압박 자체에 대한 불쾌감 표현이 아니라 답변 내용으로 판단하세요. 음성 안정성은 시스템이 별도로 반영합니다.
+` : ''}${discussion ? `
+### 5. 토론 면접 항목 (1-5점)
+다른 참가자는 입장이 정해진 AI 지원자이며, 평가 대상은 지원자뿐입니다.
+contribution은 발언이 논의를 진전시켰는지, listening은 다른 참가자의 주장을 정확히 받아 반박하거나 보완했는지, persuasiveness는 배정된 입장을 근거로 일관되게 주장했는지로 채점하세요.
+다른 참가자를 깎아내리거나 말을 독점한 것은 감점하세요. 발언 비중과 반응 비율은 시스템이 별도로 반영합니다.
+` : ''}${resumePlan ? `
+### 5. 이력서 항목 검증
+claim_verdicts에 질문을 받은 항목마다 판정을 남기세요 (질문 0회 항목은 제외).
+- verified: 본인의 역할, 구체적인 행동, 수치의 측정 방법까지 설명함
+- partial: 일부는 구체적이지만 본인 기여나 측정 근거가 불분명함
+- unsubstantiated: 꼬리질문에도 구체적으로 답하지 못했거나 답변이 이력서 내용과 어긋남
+이력서 문장을 반복한 것은 근거로 인정하지 마세요. 검증되지 않은 항목은 job_expertise와 attitude_communication 점수에도 반영하세요.
+` : ''}`;
+
+  return {
+    context: `${codingSection}${designSection}${caseSection}${presentationSection}${pressureSection}${discussionSection}${resumeSection}${planSection}`,
+    modeGuidelines,
+    notes: planCoverage ? ['면접 계획에서 다루지 못한 주제는 감점 근거로 쓰지 마세요. 실제로 나눈 대화만 평가하세요.'] : [],
+    resumePlan,
+    claimCoverage,
+    planCoverage,
+  };
+}
+
+/**
+ * Evaluate a finished interview: prompt, samples, consensus, final category
+ * scores, total and verdict
+ */
+export async function runFinalEvaluation(input: FinalEvaluationInput): Promise<FinalEvaluation> {
+  const { session, messages, answerScorecards } = input;
+
+  const language: InterviewLanguage = session.timer_config?.language || 'ko';
+  const modes: ModeEvaluationCategory[] = getModeEvaluationCategories(
+    (session.interview_mode || 'standard') as InterviewMode,
+    language
+  );
+
+  // System measurements of the mode axes (hidden tests, slide coverage, voice, share of the debate)
+  const measurements = measureModeAxes(session, messages);
+  const sections = buildModeSections(session, messages, measurements);
+
+  // Group discussion: co-candidates speak in the transcript next to the moderator
+  const { discussion } = measurements;
+  const transcript = formatEvaluationTranscript(messages, msg => {
+    const coCandidate = discussion?.participants.find(p => p.id === msg.interviewer_id);
+    return coCandidate ? `${coCandidate.name}(토론 참가자, ${coCandidate.stance})` : undefined;
+  });
+
+  // Per-answer scores: the evaluator grounds the core categories in them
+  const answerSummary = summarizeAnswerScores(answerScorecards);
+
+  const evaluationPrompt = buildEvaluationPrompt({
+    jobType: session.job_type,
+    difficulty: session.difficulty,
+    language,
+    modes,
+    transcript,
+    context: `${sections.context}${formatAnswerScoreSection(answerScorecards, answerSummary)}`,
+    coreGuideline: answerSummary ? ANSWER_SCORE_GUIDELINE : undefined,
+    modeGuidelines: sections.modeGuidelines,
+    notes: sections.notes,
+  });
+
+  // Ensemble mode (EVALUATION_ENSEMBLE_SIZE > 1) samples the evaluation several times;
+  // a pinned provider takes the place of the ensemble's models
+  const ensembleConfig = input.ensemble ?? getEnsembleConfig();
+  const samples = await sampleEvaluations<EvaluationResult>(
+    {
+      messages: [
+        { role: 'system', content: buildEvaluationSystemPrompt(language) },
+        { role: 'user', content: evaluationPrompt },
+      ],
+      jsonSchema: { name: 'interview_evaluation', schema: buildEvaluationSchema(modes, !!sections.resumePlan) },
+      maxTokens: 2000,
+      temperature: 0, // 일관된 채점을 위해 0으로 설정
+      timeoutMs: 60000, // 전체 면접 평가는 응답이 길어 타임아웃을 넉넉히
+      operation: input.operation,
+      provider: input.provider,
+      model: input.model,
+    },
+    input.provider ? { ...ensembleConfig, members: [] } : ensembleConfig,
+    content => {
+      const parsed = parseEvaluation(content);
+      if (!parsed) console.error('Failed to parse evaluation:', content);
+      return parsed;
+    }
+  );
+
+  // Provide default evaluation when no sample could be parsed
+  const consensus: EvaluationResult = samples.length > 1
+    ? mergeEvaluations(samples.map(sample => sample.evaluation))
+    : samples[0]?.evaluation ?? createFallbackEvaluation();
+
+  // Evaluator scores → final category scores (lib/scoring/finalize): system measurements
+  // are combined with the evaluator's judgement, and the core categories follow the
+  // per-answer scores
+  const evaluation: EvaluationResult = {
+    ...consensus,
+    category_scores: finalizeCategoryScores(consensus.category_scores, measurements, answerSummary, modes, language),
+  };
+  const overallScore = calculateEvaluationTotal(evaluation.category_scores, modes);
+
+  // Ensemble: agreement, totals and verdicts come from each sample's own category
+  // scores (mode axes measured, core categories not grounded: grounded ones would be
+  // identical in every sample); only the consensus is grounded, and a verdict the
+  // samples split on is borderline
+  const sampleResults = samples.length > 1
+    ? samples.map(sample => ({
+      provider: sample.provider,
+      model: sample.model,
+      total: calculateEvaluationTotal(
+        finalizeCategoryScores(sample.evaluation.category_scores, measurements, null, modes, language),
+        modes
+      ),
+      scores: Object.fromEntries(
+        Object.entries(sample.evaluation.category_scores).map(([category, value]) => [category, value.score])
+      ),
+    }))
+    : [];
+  const ensembleReport = sampleResults.length > 1 ? buildEnsembleReport(sampleResults) : null;
+  if (ensembleReport) {
+    console.log('[Evaluation Ensemble]', `${sampleResults.length} samples, total ${ensembleReport.total.mean} ± ${ensembleReport.total.spread}`,
+      ensembleReport.low_agreement.length > 0 ? `(low agreement: ${ensembleReport.low_agreement.join(', ')})` : '');
+  }
+
+  // Resume deep-dive: per-claim verdicts, measured status where the evaluator gave none
+  const claimVerification = sections.resumePlan
+    ? buildClaimReport(sections.resumePlan.claims, sections.claimCoverage, evaluation.claim_verdicts)
+    : null;
+
+  // Pass status from the total (and the samples' verdicts in ensemble mode)
+  const passStatus = determineConsensusPassStatus(overallScore, sampleResults.map(sample => sample.total));
+
+  return {
+    evaluation,
+    record: buildEvaluationRecord(evaluation, overallScore, passStatus),
+    claimVerification,
+    planCoverage: sections.planCoverage,
+    ensembleReport,
+    servedBy: samples[0] ? { provider: samples[0].provider, model: samples[0].model } : null,
+  };
+}
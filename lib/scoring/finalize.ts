@@ -0,0 +1,223 @@
+// ============================================
+// Final Category Scores
+// ============================================
+// Evaluator category scores → the scores a result is saved with, shared by
+// /api/interview/end and admin re-scoring (lib/scoring/rescore) so both
+// produce comparable results at SCORING_VERSION:
+// - mode axes combine system measurements from the stored session and messages
+//   (hidden tests, voice analysis, slide coverage, share of the debate) with
+//   the evaluator's judgement
+// - the five core categories follow the per-answer score averages
+// - mode axes the evaluator left out count as average
+// Node only: lib/scoring/evaluation stays runtime-neutral for the edge function.
+
+import { getCodingProblem, type CodingProblem } from '@/lib/coding/problems';
+import { summarizeCodingSubmissions, calculateCodingScore, type CodingTestSummary } from '@/lib/coding/context';
+import {
+  measureSlideCoverage,
+  calculateCoverageScore,
+  calculateDeliveryScore,
+  type PresentationCoverage,
+} from '@/lib/presentation/coverage';
+import { measureVoiceStability, calculateComposureScore, type VoiceStability } from '@/lib/pressure/composure';
+import {
+  measureContribution,
+  measureListening,
+  type DiscussionUtterance,
+  type ContributionShare,
+  type ListeningStats,
+} from '@/lib/discussion/floor';
+import { calculateContributionScore, calculateListeningScore } from '@/lib/discussion/score';
+import type { ModeEvaluationCategory } from '@/lib/llm/prompts/scoring-rubric';
+import type { AnswerVoiceFeatures } from '@/lib/analysis/voice';
+import { completeModeScores, type CategoryScoreResult } from '@/lib/scoring/evaluation';
+import { CORE_CATEGORIES, type AnswerScoreSummary } from '@/lib/scoring/answers';
+import type { CodeSubmission, DiscussionConfig, InterviewLanguage, PresentationConfig } from '@/types/interview';
+
+export interface MeasuredSession {
+  interview_mode?: string | null;
+  timer_config?: {
+    coding_problem_id?: string;
+    presentation?: PresentationConfig;
+    discussion?: DiscussionConfig;
+  } | null;
+}
+
+export interface MeasuredMessage {
+  role: string;
+  content: string;
+  interviewer_id?: string | null;
+  code_submission?: CodeSubmission | null;
+  voice_features?: AnswerVoiceFeatures | null;
+}
+
+export interface ModeMeasurements {
+  codingProblem?: CodingProblem;
+  codingTests: CodingTestSummary | null;
+  presentation?: PresentationConfig;
+  presentationVoice?: AnswerVoiceFeatures | null;
+  slideCoverage: PresentationCoverage | null;
+  isPressure: boolean;
+  voiceStability: VoiceStability | null;
+  discussion?: DiscussionConfig;
+  contribution: ContributionShare | null;
+  listening: ListeningStats | null;
+}
+
+/**
+ * System measurements of the mode axes from the stored session and messages
+ */
+export function measureModeAxes(session: MeasuredSession, messages: MeasuredMessage[]): ModeMeasurements {
+  // Coding interview: hidden test results of the submissions
+  const codingProblem = session.interview_mode === 'coding' && session.timer_config?.coding_problem_id
+    ? getCodingProblem(session.timer_config.coding_problem_id)
+    : undefined;
+  const codeSubmissions = messages
+    .map(msg => msg.code_submission)
+    .filter(Boolean) as CodeSubmission[];
+  const codingTests = codingProblem ? summarizeCodingSubmissions(codeSubmissions) : null;
+
+  // PT interview: the first answer is the presentation, measured against the slides
+  const presentation = session.interview_mode === 'presentation' ? session.timer_config?.presentation : undefined;
+  const presentationMessage = presentation ? messages.find(msg => msg.role === 'user') : undefined;
+  const slideCoverage = presentation && presentationMessage
+    ? measureSlideCoverage(presentation.deck, presentationMessage.content)
+    : null;
+
+  // Pressure interview: how the candidate's voice held up against the first answer
+  const isPressure = session.interview_mode === 'pressure';
+  const voiceStability = isPressure
+    ? measureVoiceStability(
+      messages
+        .filter(msg => msg.role === 'user' && msg.voice_features)
+        .map(msg => msg.voice_features as AnswerVoiceFeatures)
+    )
+    : null;
+
+  // Group discussion: the candidate's share of the debate and whether they answered the others
+  const discussion = session.interview_mode === 'group_discussion' ? session.timer_config?.discussion : undefined;
+  const utterances: DiscussionUtterance[] = discussion
+    ? messages.map(msg => ({
+      speaker: msg.role === 'user' ? 'user' as const : (msg.interviewer_id as DiscussionUtterance['speaker']),
+      content: msg.content,
+    }))
+    : [];
+
+  return {
+    codingProblem,
+    codingTests,
+    presentation,
+    presentationVoice: presentationMessage?.voice_features,
+    slideCoverage,
+    isPressure,
+    voiceStability,
+    discussion,
+    contribution: discussion ? measureContribution(utterances, discussion.participants.length) : null,
+    listening: discussion ? measureListening(utterances, discussion.participants) : null,
+  };
+}
+
+/**
+ * Final category scores: measured mode axes, core categories from the
+ * per-answer averages (when any answer was scored), missing mode axes filled in
+ */
+export function finalizeCategoryScores(
+  evaluated: Record<string, CategoryScoreResult>,
+  measurements: ModeMeasurements,
+  answerSummary: AnswerScoreSummary | null,
+  modes: ModeEvaluationCategory[],
+  language: InterviewLanguage
+): Record<string, CategoryScoreResult> {
+  const {
+    codingProblem, codingTests, presentation, presentationVoice, slideCoverage,
+    isPressure, voiceStability, discussion, contribution, listening,
+  } = measurements;
+  const categoryScores: Record<string, CategoryScoreResult> = { ...evaluated };
+
+  // Coding axis: hidden tests combined with the evaluator's judgement of the explanation
+  if (codingProblem) {
+    const codingScore = calculateCodingScore(codingTests, categoryScores.coding?.score);
+    categoryScores.coding = {
+      score: codingScore,
+      reasoning: [
+        codingTests ? `숨김 테스트 ${codingTests.passed}/${codingTests.total} 통과` : '제출된 코드 없음',
+        categoryScores.coding?.reasoning,
+      ].filter(Boolean).join(' · '),
+      tests_passed: codingTests?.passed ?? 0,
+      tests_total: codingTests?.total ?? codingProblem.hidden_tests.length,
+    };
+  }
+
+  // PT axes: voice analysis and slide coverage combined with the evaluator's judgement
+  if (presentation) {
+    const delivery = categoryScores.delivery;
+    categoryScores.delivery = {
+      score: calculateDeliveryScore(presentationVoice, presentation.minutes, delivery?.score),
+      reasoning: [
+        presentationVoice?.confidence !== undefined ? `음성 자신감 ${presentationVoice.confidence}점` : null,
+        delivery?.reasoning,
+      ].filter(Boolean).join(' · '),
+    };
+
+    const coverage = categoryScores.content_coverage;
+    categoryScores.content_coverage = {
+      score: calculateCoverageScore(slideCoverage, coverage?.score),
+      reasoning: [
+        slideCoverage ? `슬라이드 ${slideCoverage.covered}/${slideCoverage.total}장 설명` : null,
+        coverage?.reasoning,
+      ].filter(Boolean).join(' · '),
+    };
+  }
+
+  // Composure: voice stability under pressure combined with the evaluator's judgement
+  if (isPressure) {
+    const composure = categoryScores.composure;
+    categoryScores.composure = {
+      score: calculateComposureScore(voiceStability, composure?.score),
+      reasoning: [
+        voiceStability ? `음성 안정성 ${voiceStability.stability}점` : null,
+        composure?.reasoning,
+      ].filter(Boolean).join(' · '),
+      ...(voiceStability ? { voice_stability: voiceStability.stability } : {}),
+    };
+  }
+
+  // Discussion axes: share of the debate and responses to the others combined with the evaluator's judgement
+  if (discussion) {
+    const contributionScore = categoryScores.contribution;
+    categoryScores.contribution = {
+      score: calculateContributionScore(contribution, contributionScore?.score),
+      reasoning: [
+        contribution ? `발언 비중 ${Math.round(contribution.share * 100)}% (균등 ${Math.round(contribution.even_share * 100)}%)` : null,
+        contributionScore?.reasoning,
+      ].filter(Boolean).join(' · '),
+    };
+
+    const listeningScore = categoryScores.listening;
+    categoryScores.listening = {
+      score: calculateListeningScore(listening, listeningScore?.score),
+      reasoning: [
+        listening && listening.responses > 0 ? `직전 발언 반응 ${listening.engaged}/${listening.responses}회` : null,
+        listeningScore?.reasoning,
+      ].filter(Boolean).join(' · '),
+    };
+  }
+
+  // Core categories: the average of the per-answer scores, with the evaluator's reasoning
+  if (answerSummary) {
+    for (const category of CORE_CATEGORIES) {
+      const average = answerSummary.scores[category];
+      categoryScores[category] = {
+        score: Math.min(5, Math.max(1, Math.round(average))),
+        reasoning: [
+          `답변 ${answerSummary.answers}개 평균 ${average}점`,
+          categoryScores[category]?.reasoning,
+        ].filter(Boolean).join(' · '),
+        turn_average: average,
+      };
+    }
+  }
+
+  // Mode axes the evaluator left out (e.g. parse fallback) count as average
+  return completeModeScores(categoryScores, modes, language);
+}
@@ -0,0 +1,262 @@
+// ============================================
+// Bulk Re-scoring
+// ============================================
+// When the rubric changes (category weights, competency mapping, prompts),
+// results scored before the change aren't comparable with new ones. An admin
+// job re-scores the selected results from their stored messages with the
+// shared evaluation (lib/scoring/evaluation) and writes
+// interview_result_versions rows stamped with SCORING_VERSION next to the
+// originals, which are never modified.
+// - A job fixes its result list when created and keeps a cursor into it; each
+//   admin API call runs one batch, so a stopped job resumes where it left off
+// - A batch claims its results by moving the cursor with a conditional update,
+//   so overlapping calls never re-score (or count) the same results, and a
+//   paused job claims nothing; progress is added by record_rescore_batch
+// - Results that fail are recorded on the job and skipped, not retried
+// - Each result is scored like /api/interview/end: the answers are scored again
+//   under the current rubric (the stored answer_scores stay as they were) and the
+//   same final evaluation (lib/scoring/final-evaluation) is re-run on the stored
+//   session and messages: mode sections, ensemble samples, finalized scores, verdict
+// - Results that already have a version at SCORING_VERSION are not selected again
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProviderName } from '@/lib/llm/providers';
+import { SCORING_VERSION, type EvaluationRecord } from '@/lib/scoring/evaluation';
+import { rescoreAnswerScorecards, type ScoredMessageRow } from '@/lib/scoring/answers';
+import type { EvaluationEnsembleReport } from '@/lib/scoring/ensemble';
+import type { ResumeClaimReport } from '@/lib/resume/coverage';
+import {
+  runFinalEvaluation,
+  type FinalEvaluationSession,
+  type FinalEvaluationMessage,
+} from '@/lib/scoring/final-evaluation';
+
+// Results re-scored per admin API call (evaluated concurrently)
+export const RESCORE_BATCH_SIZE = 5;
+// Results a single job may select
+export const MAX_RESCORE_RESULTS = 500;
+
+export type RescoreJobStatus = 'running' | 'paused' | 'completed';
+
+export interface RescoreSelection {
+  session_ids?: string[];
+  job_type?: string;
+  from?: string;            // ISO date, results created on or after
+  to?: string;              // ISO date, results created on or before
+  source_version?: string;  // Only results originally scored at this version
+  limit?: number;
+}
+
+export interface RescoreFailure {
+  result_id: string;
+  error: string;
+}
+
+export interface RescoreJob {
+  id: string;
+  scoring_version: string;
+  status: RescoreJobStatus;
+  selection: RescoreSelection;
+  result_ids: string[];
+  cursor: number;           // Index into result_ids of the next result to re-score
+  rescored: number;
+  failures: RescoreFailure[];
+  provider: string | null;
+  model: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface RescoreOptions {
+  provider?: LLMProviderName;
+  model?: string;
+  jobId?: string;
+}
+
+// interview_result_versions row
+export interface InterviewResultVersion extends EvaluationRecord {
+  result_id: string;
+  session_id: string;
+  user_id: string;
+  claim_verification: ResumeClaimReport[] | null;
+  evaluation_ensemble: EvaluationEnsembleReport | null;
+  provider: string;
+  model: string;
+  job_id: string | null;
+}
+
+interface StoredResult {
+  id: string;
+  session_id: string;
+  user_id: string;
+}
+
+interface StoredSession extends FinalEvaluationSession {
+  industry?: string | null;
+}
+
+/**
+ * Result ids matching the selection, oldest first.
+ * Results scored or already re-scored at the current version are left out.
+ */
+export async function selectResultsForRescore(
+  supabase: SupabaseClient,
+  selection: RescoreSelection
+): Promise<string[]> {
+  const { data: existing, error: existingError } = await supabase
+    .from('interview_result_versions')
+    .select('result_id')
+    .eq('scoring_version', SCORING_VERSION);
+  if (existingError) throw new Error(existingError.message);
+  const rescored = new Set(((existing || []) as Array<{ result_id: string }>).map(row => row.result_id));
+  const limit = Math.min(selection.limit || MAX_RESCORE_RESULTS, MAX_RESCORE_RESULTS);
+
+  let query = supabase
+    .from('interview_results')
+    .select(selection.job_type ? 'id, interview_sessions!inner(job_type)' : 'id')
+    .neq('scoring_version', SCORING_VERSION);
+
+  if (selection.session_ids?.length) query = query.in('session_id', selection.session_ids);
+  if (selection.job_type) query = query.eq('interview_sessions.job_type', selection.job_type);
+  if (selection.source_version) query = query.eq('scoring_version', selection.source_version);
+  if (selection.from) query = query.gte('created_at', selection.from);
+  if (selection.to) query = query.lte('created_at', selection.to);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(limit + rescored.size);
+
+  if (error) throw new Error(error.message);
+  return ((data || []) as unknown as Array<{ id: string }>)
+    .map(row => row.id)
+    .filter(id => !rescored.has(id))
+    .slice(0, limit);
+}
+
+/**
+ * Re-score one result from its stored messages the way /api/interview/end scores it
+ */
+export async function rescoreResult(
+  supabase: SupabaseClient,
+  resultId: string,
+  options: RescoreOptions = {}
+): Promise<InterviewResultVersion> {
+  const { data: result, error: resultError } = await supabase
+    .from('interview_results')
+    .select('*')
+    .eq('id', resultId)
+    .single();
+  if (resultError || !result) throw new Error('Result not found');
+
+  const original = result as StoredResult;
+  const [{ data: sessionData }, { data: messages }] = await Promise.all([
+    supabase.from('interview_sessions').select('*').eq('id', original.session_id).single(),
+    supabase.from('messages').select('*').eq('session_id', original.session_id).order('created_at', { ascending: true }),
+  ]);
+  if (!sessionData) throw new Error('Session not found');
+  if (!messages || messages.length === 0) throw new Error('No messages');
+
+  const session = sessionData as StoredSession;
+
+  // The answers are scored again under the current rubric (not saved)
+  const answerScorecards = await rescoreAnswerScorecards(messages as ScoredMessageRow[], session);
+
+  const { record, claimVerification, ensembleReport, servedBy } = await runFinalEvaluation({
+    session,
+    messages: messages as FinalEvaluationMessage[],
+    answerScorecards,
+    operation: 'rescore',
+    provider: options.provider,
+    model: options.model,
+  });
+  if (!servedBy) throw new Error('Invalid evaluation output');
+
+  return {
+    ...record,
+    result_id: original.id,
+    session_id: original.session_id,
+    user_id: original.user_id,
+    claim_verification: claimVerification,
+    evaluation_ensemble: ensembleReport,
+    provider: servedBy.provider,
+    model: servedBy.model,
+    job_id: options.jobId ?? null,
+  };
+}
+
+/**
+ * Re-score the next batch of a job, save the versions and record its progress
+ * Returns the job as stored afterwards (unchanged when there was nothing to claim)
+ */
+export async function runRescoreBatch(
+  supabase: SupabaseClient,
+  job: RescoreJob,
+  batchSize = RESCORE_BATCH_SIZE
+): Promise<RescoreJob> {
+  const cursor = Math.min(job.cursor + batchSize, job.result_ids.length);
+  if (cursor === job.cursor) return loadRescoreJob(supabase, job.id);
+
+  // Claim the batch: only one caller moves the cursor from where this one read it,
+  // and only while the job is running
+  const { data: claimed, error: claimError } = await supabase
+    .from('rescore_jobs')
+    .update({ cursor, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('cursor', job.cursor)
+    .select();
+  if (claimError) throw new Error(claimError.message);
+  if (!claimed || claimed.length === 0) return loadRescoreJob(supabase, job.id);
+
+  const batch = job.result_ids.slice(job.cursor, cursor);
+  const options: RescoreOptions = {
+    provider: (job.provider || undefined) as LLMProviderName | undefined,
+    model: job.model || undefined,
+    jobId: job.id,
+  };
+
+  const outcomes = await Promise.all(batch.map(resultId =>
+    rescoreResult(supabase, resultId, options).then(
+      version => ({ resultId, version }),
+      (error: unknown) => ({ resultId, error: error instanceof Error ? error.message : 'Unknown error' })
+    )
+  ));
+
+  let versions = outcomes.flatMap(outcome => ('version' in outcome ? [outcome.version] : []));
+  const failures: RescoreFailure[] = outcomes.flatMap(outcome =>
+    'error' in outcome ? [{ result_id: outcome.resultId, error: outcome.error }] : []
+  );
+
+  if (versions.length > 0) {
+    // The cursor has already moved past the batch, so a failed save counts as failures
+    const { error } = await supabase
+      .from('interview_result_versions')
+      .upsert(versions, { onConflict: 'result_id,scoring_version' });
+    if (error) {
+      failures.push(...versions.map(version => ({ result_id: version.result_id, error: `Save failed: ${error.message}` })));
+      versions = [];
+    }
+  }
+  failures.forEach(failure => console.warn('[Rescore] Failed:', failure.result_id, failure.error));
+
+  const { data, error } = await supabase.rpc('record_rescore_batch', {
+    p_job_id: job.id,
+    p_rescored: versions.length,
+    p_failures: failures,
+  });
+  if (error) throw new Error(error.message);
+
+  return data as RescoreJob;
+}
+
+async function loadRescoreJob(supabase: SupabaseClient, jobId: string): Promise<RescoreJob> {
+  const { data, error } = await supabase
+    .from('rescore_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+  if (error || !data) throw new Error('Job not found');
+  return data as RescoreJob;
+}
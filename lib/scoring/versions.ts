@@ -0,0 +1,59 @@
+// ============================================
+// Scoring Versions (result views)
+// ============================================
+// A result keeps the scores saved when the interview ended (scoring_version)
+// and any re-scored versions (interview_result_versions, lib/scoring/rescore).
+// Scores from different versions aren't comparable, so views that chart or
+// average results show one version: the re-scored scores where they exist,
+// the originals when they were scored at that version, and nothing for
+// results never scored at it. Same rule as get_score_trends(p_scoring_version).
+// No server imports: the dashboard uses this in the browser.
+
+export interface ScoredVersion {
+  scoring_version: string;
+  overall_score: number;
+  pass_status: string;
+  category_scores?: unknown;
+  competency_scores?: unknown;
+}
+
+export interface VersionedResult {
+  overall_score: number;
+  pass_status: string;
+  scoring_version?: string | null;
+  interview_result_versions?: ScoredVersion[] | null;
+}
+
+/**
+ * Every scoring version the results were scored or re-scored at, oldest first
+ */
+export function listScoringVersions(results: VersionedResult[]): string[] {
+  const versions = new Set<string>();
+  for (const result of results) {
+    if (result.scoring_version) versions.add(result.scoring_version);
+    result.interview_result_versions?.forEach(version => versions.add(version.scoring_version));
+  }
+  return Array.from(versions).sort();
+}
+
+/**
+ * The results as scored at one version; null keeps the original scores
+ */
+export function selectScoringVersion<T extends VersionedResult>(results: T[], version: string | null): T[] {
+  if (!version) return results;
+
+  return results.flatMap(result => {
+    const rescored = result.interview_result_versions?.find(entry => entry.scoring_version === version);
+    if (rescored) {
+      return [{
+        ...result,
+        scoring_version: version,
+        overall_score: Number(rescored.overall_score),
+        pass_status: rescored.pass_status,
+        ...(rescored.category_scores ? { category_scores: rescored.category_scores } : {}),
+        ...(rescored.competency_scores ? { competency_scores: rescored.competency_scores } : {}),
+      }];
+    }
+    return result.scoring_version === version ? [result] : [];
+  });
+}
@@ -7,6 +7,9 @@
 // - Type-safe event handlers
 // - React hook for easy integration
 
+import type { StructuredResponse, CodeSubmission, DesignDiagram, CaseState, CaseExhibit, ResumeClaimCoverage } from '@/types/interview';
+import type { AnswerVoiceFeatures } from '@/lib/analysis/voice';
+
 // ============================================
 // Types
 // ============================================
@@ -35,11 +38,19 @@ export interface SSEErrorData {
 }
 
 export interface SSEStartData {
-  model: string;
+  model?: string; // Not known up front when the provider is chosen by failover
   interviewerId?: string;
+  interviewer?: InterviewerInfo;
   timestamp: number;
 }
 
+export interface InterviewerInfo {
+  id: string;
+  name: string;
+  role: string;
+  emoji: string;
+}
+
 export type SSEEventType = 'start' | 'chunk' | 'complete' | 'error' | 'done' | 'heartbeat' | 'warning';
 
 export interface SSEHandlers {
@@ -72,6 +83,47 @@ export interface InterviewStreamRequest {
   temperature?: number;
 }
 
+// POST /api/interview/message with Accept: text/event-stream
+export interface InterviewMessageStreamRequest {
+  session_id: string;
+  content: string;
+  audio_url?: string;
+  voice_features?: AnswerVoiceFeatures | null; // From /api/stt for spoken answers
+  code_submission?: Omit<CodeSubmission, 'hidden_tests'>; // Coding interview: code written for this answer
+  design_diagram?: DesignDiagram; // System design interview: current whiteboard
+}
+
+// `complete` event of /api/interview/message: same body as the JSON response
+export interface InterviewMessageCompleteData extends SSECompleteData {
+  success: boolean;
+  user_message: {
+    id: string;
+    session_id: string;
+    role: 'user';
+    content: string;
+    timestamp: string;
+  };
+  interviewer_response: {
+    id: string;
+    session_id: string;
+    role: 'interviewer';
+    interviewer_id: string;
+    content: string;
+    structured_response?: StructuredResponse;
+    timestamp: string;
+    latency_ms: number;
+  };
+  interviewer: InterviewerInfo;
+  session_status: 'active' | 'completed';
+  turn_count: number;
+  should_end: boolean;
+  total_latency_ms: number;
+  case_state?: CaseState;             // Case interview: framework after this answer
+  revealed_exhibits?: CaseExhibit[];  // Case interview: exhibits the answer asked for
+  resume_claim_id?: string | null;    // Resume deep-dive: claim the new question targets
+  resume_coverage?: ResumeClaimCoverage[];  // Resume deep-dive: coverage per claim
+}
+
 // ============================================
 // SSE Parser
 // ============================================
@@ -131,7 +183,7 @@ export class SSEClient {
     };
   }
 
-  async connect(url: string, body: InterviewStreamRequest): Promise<void> {
+  async connect(url: string, body: InterviewStreamRequest | InterviewMessageStreamRequest): Promise<void> {
     this.abortController = new AbortController();
 
     try {
@@ -0,0 +1,89 @@
+// ============================================
+// SSE Server Utilities
+// ============================================
+// Server-side counterpart of sse-client.ts:
+// - `event:` / `data:` message formatting
+// - ReadableStream from an async generator with trailing error/done events
+// - optionally draining the generator after the client disconnects, for
+//   streams that persist something once the last event is produced
+
+export interface SSEServerEvent {
+  event: string;
+  data: unknown;
+  id?: string;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no', // Disable nginx buffering
+};
+
+export function formatSSEMessage(event: SSEServerEvent): string {
+  let message = '';
+
+  if (event.id) {
+    message += `id: ${event.id}\n`;
+  }
+
+  message += `event: ${event.event}\n`;
+  message += `data: ${JSON.stringify(event.data)}\n\n`;
+
+  return message;
+}
+
+export interface SSEStreamOptions {
+  /** Keep consuming the generator (without sending) after the client disconnects */
+  drainOnCancel?: boolean;
+  /** Receives the generator run, e.g. to keep a serverless function alive until it settles */
+  waitUntil?: (run: Promise<void>) => void;
+}
+
+/**
+ * Stream generator events as SSE; errors become an `error` event and
+ * every stream ends with a `done` event
+ */
+export function createSSEStream(
+  generator: () => AsyncGenerator<SSEServerEvent, void, unknown>,
+  options: SSEStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream({
+    start(controller) {
+      // Frames after a disconnect are dropped: the controller is already closed
+      const send = (event: SSEServerEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(formatSSEMessage(event)));
+      };
+
+      const run = (async () => {
+        try {
+          for await (const event of generator()) {
+            if (cancelled && !options.drainOnCancel) break;
+            send(event);
+          }
+        } catch (error) {
+          // Send error event
+          send({
+            event: 'error',
+            data: {
+              message: error instanceof Error ? error.message : 'Unknown error',
+              timestamp: Date.now(),
+            },
+          });
+        } finally {
+          // Send done event
+          send({ event: 'done', data: { timestamp: Date.now() } });
+          if (!cancelled) controller.close();
+        }
+      })();
+
+      options.waitUntil?.(run);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
@@ -0,0 +1,99 @@
+// ============================================
+// Ordered Audio Queue (client)
+// ============================================
+// Plays per-sentence TTS clips strictly in sentence order. Clips may arrive
+// out of order or while an earlier one is still playing; each one starts as
+// soon as its predecessor has finished.
+
+export interface OrderedAudioQueueHandlers {
+  onSentenceStart?: (index: number) => void;
+  onEnded?: () => void;
+}
+
+export class OrderedAudioQueue {
+  private clips = new Map<number, string>(); // sentence index → object URL
+  private nextIndex = 0;
+  private totalCount: number | null = null;
+  private current: HTMLAudioElement | null = null;
+  private handlers: OrderedAudioQueueHandlers;
+
+  constructor(handlers: OrderedAudioQueueHandlers = {}) {
+    this.handlers = handlers;
+  }
+
+  /**
+   * Add a base64-encoded clip for the given sentence index
+   */
+  enqueue(index: number, base64Audio: string, contentType: string): void {
+    const bytes = Uint8Array.from(atob(base64Audio), (char) => char.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: contentType }));
+
+    this.clips.set(index, url);
+    this.playNext();
+  }
+
+  /**
+   * No more clips will arrive; onEnded fires after clip `totalCount - 1`
+   */
+  end(totalCount: number): void {
+    this.totalCount = totalCount;
+    this.playNext();
+  }
+
+  /**
+   * Stop playback and drop queued clips
+   */
+  stop(): void {
+    if (this.current) {
+      this.current.onended = null;
+      this.current.onerror = null;
+      this.current.pause();
+      this.current = null;
+    }
+
+    this.clips.forEach((url) => URL.revokeObjectURL(url));
+    this.clips.clear();
+    this.nextIndex = 0;
+    this.totalCount = null;
+  }
+
+  get isPlaying(): boolean {
+    return this.current !== null;
+  }
+
+  private playNext(): void {
+    if (this.current) return;
+
+    const url = this.clips.get(this.nextIndex);
+
+    if (!url) {
+      if (this.totalCount !== null && this.nextIndex >= this.totalCount) {
+        this.totalCount = null;
+        this.nextIndex = 0;
+        this.handlers.onEnded?.();
+      }
+      return;
+    }
+
+    const index = this.nextIndex;
+    const audio = new Audio(url);
+    this.current = audio;
+
+    const advance = () => {
+      URL.revokeObjectURL(url);
+      this.clips.delete(index);
+      this.current = null;
+      this.nextIndex = index + 1;
+      this.playNext();
+    };
+
+    audio.onended = advance;
+    audio.onerror = advance;
+
+    this.handlers.onSentenceStart?.(index);
+    audio.play().catch((error) => {
+      console.error('[AudioQueue] Playback failed:', error);
+      advance();
+    });
+  }
+}
@@ -4,12 +4,16 @@
 // Parallel processing for ultra-low latency (< 2s E2E)
 
 import { sttService } from '@/lib/stt/service';
-import { llmRouter, type ChatMessage, type LLMRequest } from '@/lib/llm/router';
+import { llmRouter, type ChatMessage, type LLMRequest, type LLMResponse } from '@/lib/llm/router';
 import { ttsService, type OpenAIVoice } from '@/lib/tts/service';
-import type { InterviewerType } from '@/types/interview';
+import type { InterviewerType, InterviewLanguage } from '@/types/interview';
+import { SentenceBuffer } from './sentence-buffer';
+import { SentenceSynthesizer } from './sentence-synthesizer';
+
+export type { SentenceAudioData } from './sentence-synthesizer';
 
 export interface StreamingEvent {
-  type: 'stt_start' | 'stt_complete' | 'llm_start' | 'llm_chunk' | 'llm_complete' | 'tts_start' | 'tts_chunk' | 'tts_complete' | 'error';
+  type: 'stt_start' | 'stt_complete' | 'llm_start' | 'llm_chunk' | 'llm_complete' | 'tts_start' | 'tts_chunk' | 'tts_sentence' | 'tts_complete' | 'error';
   data?: unknown;
   timestamp: number;
 }
@@ -18,6 +22,7 @@ export interface PipelineConfig {
   interviewerId: InterviewerType;
   position: string;
   conversationHistory: ChatMessage[];
+  language?: InterviewLanguage; // STT language and sentence splitting (default: Korean)
   voice?: OpenAIVoice;
   llmConfig?: Partial<LLMRequest>;
 }
@@ -44,7 +49,7 @@ export class StreamingPipeline {
       yield { type: 'stt_start', timestamp: Date.now() - startTime };
 
       const transcriptionResult = await sttService.transcribe(audioBuffer, {
-        language: 'ko',
+        language: config.language || 'ko',
       });
 
       yield {
@@ -129,14 +134,17 @@ export class StreamingPipeline {
   }
 
   /**
-   * Parallel pipeline: Start TTS as soon as first LLM tokens arrive
-   * Further reduces latency by overlapping LLM and TTS
+   * Sentence-pipelined variant: the LLM response is streamed, cut at
+   * sentence boundaries (Korean or English), and every sentence is synthesized as soon as it is
+   * complete. Audio is emitted per sentence (`tts_sentence`) in order, so
+   * playback starts while the LLM is still generating.
    */
   async *processAudioParallel(
     audioBuffer: Buffer,
     config: PipelineConfig
   ): AsyncGenerator<StreamingEvent> {
     this.abortController = new AbortController();
+    const { signal } = this.abortController;
     const startTime = Date.now();
 
     try {
@@ -144,7 +152,7 @@ export class StreamingPipeline {
       yield { type: 'stt_start', timestamp: Date.now() - startTime };
 
       const transcriptionResult = await sttService.transcribe(audioBuffer, {
-        language: 'ko',
+        language: config.language || 'ko',
       });
 
       yield {
@@ -158,18 +166,52 @@ export class StreamingPipeline {
 
       const userMessage = transcriptionResult.text;
 
-      // Phase 2 & 3: LLM + TTS in parallel (as LLM generates, start TTS)
+      // Phase 2 & 3: LLM stream → sentences → TTS (synthesis overlaps generation)
       yield { type: 'llm_start', timestamp: Date.now() - startTime };
 
       const messages = [...config.conversationHistory, { role: 'user' as const, content: userMessage }];
+      const sentenceBuffer = new SentenceBuffer(config.language);
+      const synthesizer = new SentenceSynthesizer(config.interviewerId, config.voice);
+      let llmResponse: LLMResponse | null = null;
+      let ttsStarted = false;
 
-      // Get LLM response
-      const llmResponse = await llmRouter.generateResponse({
+      const enqueue = (text: string) => synthesizer.add(text);
+
+      for await (const event of llmRouter.generateResponseStream({
         messages,
         interviewerId: config.interviewerId,
         position: config.position,
         ...config.llmConfig,
-      });
+        signal,
+      })) {
+        if (event.type === 'complete') {
+          llmResponse = event.response;
+          continue;
+        }
+
+        yield {
+          type: 'llm_chunk',
+          data: { content: event.text },
+          timestamp: Date.now() - startTime,
+        };
+
+        sentenceBuffer.push(event.text).forEach(enqueue);
+
+        if (!ttsStarted && synthesizer.sentenceCount > 0) {
+          ttsStarted = true;
+          yield { type: 'tts_start', timestamp: Date.now() - startTime };
+        }
+
+        yield* this.emitSentences(synthesizer, false, signal, startTime);
+      }
+
+      if (signal.aborted) return;
+
+      if (!llmResponse) {
+        throw new Error('LLM stream ended without a response');
+      }
+
+      sentenceBuffer.flush().forEach(enqueue);
 
       yield {
         type: 'llm_complete',
@@ -181,41 +223,25 @@ export class StreamingPipeline {
         timestamp: Date.now() - startTime,
       };
 
-      // Start TTS immediately after LLM completes
-      yield { type: 'tts_start', timestamp: Date.now() - startTime };
-
-      const voice = config.voice || 'alloy';
-      const ttsStream = await ttsService.synthesizeStream(llmResponse.content, voice);
-
-      // Stream TTS chunks
-      const reader = ttsStream.getReader();
-      let ttsChunkCount = 0;
-
-      while (true) {
-        const { done, value } = await reader.read();
+      if (!ttsStarted) {
+        yield { type: 'tts_start', timestamp: Date.now() - startTime };
+      }
 
-        if (done) break;
+      yield* this.emitSentences(synthesizer, true, signal, startTime);
 
-        ttsChunkCount++;
-        yield {
-          type: 'tts_chunk',
-          data: {
-            chunk: value,
-            chunkIndex: ttsChunkCount,
-          },
-          timestamp: Date.now() - startTime,
-        };
-      }
+      if (signal.aborted) return;
 
       yield {
         type: 'tts_complete',
         data: {
-          chunkCount: ttsChunkCount,
+          sentenceCount: synthesizer.sentenceCount,
           totalLatencyMs: Date.now() - startTime,
         },
         timestamp: Date.now() - startTime,
       };
     } catch (error) {
+      if (signal.aborted) return;
+
       console.error('[Streaming Pipeline] Error:', error);
 
       yield {
@@ -225,11 +251,28 @@ export class StreamingPipeline {
         },
         timestamp: Date.now() - startTime,
       };
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Emit synthesized sentences in order as `tts_sentence` events
+   */
+  private async *emitSentences(
+    synthesizer: SentenceSynthesizer,
+    waitForAll: boolean,
+    signal: AbortSignal,
+    startTime: number
+  ): AsyncGenerator<StreamingEvent> {
+    for await (const data of synthesizer.drain(waitForAll, signal)) {
+      yield { type: 'tts_sentence', data, timestamp: Date.now() - startTime };
     }
   }
 
   /**
    * Cancel ongoing pipeline
+   * Used for barge-in: aborts the LLM request and stops emitting queued TTS audio
    */
   cancel(): void {
     if (this.abortController) {
@@ -252,11 +295,15 @@ export function encodeSSE(event: StreamingEvent): string {
 export function createSSEStream(
   audioBuffer: Buffer,
   config: PipelineConfig,
-  parallel: boolean = true
+  parallel: boolean = true,
+  signal?: AbortSignal
 ): ReadableStream<Uint8Array> {
   const pipeline = new StreamingPipeline();
   const encoder = new TextEncoder();
 
+  // Client disconnected (e.g. the candidate interrupted playback)
+  signal?.addEventListener('abort', () => pipeline.cancel());
+
   return new ReadableStream({
     async start(controller) {
       try {
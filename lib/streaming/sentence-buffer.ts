@@ -0,0 +1,49 @@
+// ============================================
+// Sentence Buffer - LLM token stream → sentences
+// ============================================
+// Accumulates streamed text and releases whole sentences as soon as the
+// next one has started, so each sentence can be sent to TTS on its own.
+// Boundaries come from KoreanChunker (abbreviation/number-aware), or the
+// English splitter for English and bilingual interviews.
+
+import { koreanChunker, splitEnglishSentences } from '@/lib/rag/chunking';
+import type { InterviewLanguage } from '@/types/interview';
+
+export class SentenceBuffer {
+  private pending = '';
+  private language: InterviewLanguage;
+
+  constructor(language: InterviewLanguage = 'ko') {
+    this.language = language;
+  }
+
+  /**
+   * Append streamed text and return sentences that are now complete
+   */
+  push(text: string): string[] {
+    this.pending += text;
+
+    const sentences = this.language === 'ko'
+      ? koreanChunker.splitIntoSentences(this.pending)
+      : splitEnglishSentences(this.pending);
+
+    // The last sentence may still grow ("약 10." → "약 10.5m입니다.")
+    if (sentences.length < 2) {
+      return [];
+    }
+
+    // splitIntoSentences trims; keep the trailing space so the next token doesn't glue on
+    const trailingSpace = /\s*$/.exec(this.pending)?.[0] ?? '';
+    this.pending = sentences[sentences.length - 1] + trailingSpace;
+    return sentences.slice(0, -1);
+  }
+
+  /**
+   * Return whatever is left once the stream has ended
+   */
+  flush(): string[] {
+    const rest = this.pending.trim();
+    this.pending = '';
+    return rest ? [rest] : [];
+  }
+}
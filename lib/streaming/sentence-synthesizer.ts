@@ -0,0 +1,101 @@
+// ============================================
+// Sentence Synthesizer - ordered per-sentence TTS
+// ============================================
+// Sentences are synthesized concurrently as soon as they are added, but
+// released strictly in order. Shared by the streaming pipeline and realtime
+// voice sessions.
+
+import { ttsService, type SynthesisResult } from '@/lib/tts/service';
+
+// One synthesized sentence, base64 audio (`tts_sentence` / realtime `audio` payload)
+export interface SentenceAudioData {
+  index: number;
+  text: string;
+  audio: string;
+  contentType: string;
+  synthesisMs: number;
+}
+
+interface PendingSentence {
+  index: number;
+  text: string;
+  settled: boolean;
+  promise: Promise<void>;
+  result?: SynthesisResult;
+  error?: unknown;
+}
+
+export class SentenceSynthesizer {
+  private pending: PendingSentence[] = [];
+  private count = 0;
+  private interviewerId?: string;
+  private voice?: string;
+
+  constructor(interviewerId?: string, voice?: string) {
+    this.interviewerId = interviewerId;
+    this.voice = voice;
+  }
+
+  /** Number of sentences added so far */
+  get sentenceCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Start synthesizing a sentence; its audio is released by drain()
+   */
+  add(text: string): void {
+    const sentence: PendingSentence = {
+      index: this.count++,
+      text,
+      settled: false,
+      promise: Promise.resolve(),
+    };
+
+    sentence.promise = ttsService
+      .synthesize(text, this.interviewerId, { voice: this.voice })
+      .then(
+        (result) => {
+          sentence.result = result;
+        },
+        (error: unknown) => {
+          sentence.error = error;
+        }
+      )
+      .finally(() => {
+        sentence.settled = true;
+      });
+
+    this.pending.push(sentence);
+  }
+
+  /**
+   * Release synthesized sentences in order
+   * - waitForAll=false: only the already-finished head of the queue (doesn't block the LLM stream)
+   * - waitForAll=true: wait for every remaining sentence
+   */
+  async *drain(waitForAll: boolean, signal?: AbortSignal): AsyncGenerator<SentenceAudioData> {
+    while (this.pending.length > 0 && (waitForAll || this.pending[0].settled)) {
+      const sentence = this.pending.shift()!;
+      await sentence.promise;
+
+      // Cancelled (barge-in): drop audio the client will never play
+      if (signal?.aborted) {
+        this.pending = [];
+        return;
+      }
+
+      if (sentence.error || !sentence.result) {
+        throw sentence.error instanceof Error ? sentence.error : new Error('TTS failed');
+      }
+
+      yield {
+        index: sentence.index,
+        text: sentence.text,
+        audio: sentence.result.audioBuffer.toString('base64'),
+        contentType: sentence.result.contentType,
+        synthesisMs: sentence.result.durationMs,
+      };
+    }
+  }
+}
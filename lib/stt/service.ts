@@ -3,17 +3,32 @@
 // ============================================
 
 import OpenAI from 'openai';
+import { isFakeAIMode, FAKE_TRANSCRIPT, FAKE_TRANSCRIPTION_WORDS } from '@/lib/testing/fixtures';
+import { REALTIME_SAMPLE_RATE, decodeWav, encodeWav, samplesToMs } from '@/lib/realtime/pcm';
+import { detectVoiceActivity } from './vad';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Created on first use so offline (fake) mode never needs an API key
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openai;
+}
 
 export interface TranscriptionResult {
   text: string;
   confidence?: number;
-  provider: 'whisper';
+  provider: 'whisper' | 'fake';
   durationMs: number;
-  words?: TranscriptionWord[];
+  words?: TranscriptionWord[];   // Times are relative to the uploaded audio, not the trimmed speech
+  // Reported for 16-bit PCM WAV input, where silence is trimmed before upload
+  audioDurationSeconds?: number;
+  leadingSilenceSeconds?: number;
+  trailingSilenceSeconds?: number;
 }
 
 export interface TranscriptionWord {
@@ -24,17 +39,59 @@ export interface TranscriptionWord {
 }
 
 export interface STTConfig {
-  language?: string;
+  language?: string;              // Whisper language code, or 'mixed' (Korean-English interview)
   punctuate?: boolean;
 }
 
+export interface TranscriptionUpdate {
+  type: 'interim' | 'final';
+  text: string;
+  words: TranscriptionWord[];
+  stableWordCount: number; // Leading words that later updates will not change
+}
+
+export interface StreamingSTTConfig extends STTConfig {
+  sampleRate?: number;
+  interimIntervalMs?: number; // New audio needed before the next interim pass
+  onUpdate?: (update: TranscriptionUpdate) => void;
+}
+
+const DEFAULT_INTERIM_INTERVAL_MS = 1000;
+const STABILITY_MARGIN_SECONDS = 1.0; // Words ending this close to the live edge may still change
+
+// Bilingual answers: Whisper detects the language itself, and the prompt keeps
+// code-switched speech as spoken instead of translating it to one language
+const MIXED_LANGUAGE_PROMPT = '안녕하세요, 저는 backend developer로 일하고 있습니다. I led the migration project.';
+
+function whisperLanguageOptions(language: string): { language?: string; prompt?: string } {
+  return language === 'mixed' ? { prompt: MIXED_LANGUAGE_PROMPT } : { language };
+}
+
+function wordsToText(words: TranscriptionWord[]): string {
+  return words.map(w => w.word.trim()).filter(Boolean).join(' ');
+}
+
 class STTService {
   async transcribe(audioBuffer: Buffer, config: STTConfig = {}): Promise<TranscriptionResult> {
     const startTime = Date.now();
     const language = config.language || 'ko';
 
+    if (isFakeAIMode()) {
+      return {
+        text: FAKE_TRANSCRIPT,
+        confidence: 1,
+        provider: 'fake',
+        durationMs: Date.now() - startTime,
+        words: FAKE_TRANSCRIPTION_WORDS.map(w => ({ ...w })),
+      };
+    }
+
     try {
-      const result = await this.transcribeWithWhisper(audioBuffer, language);
+      // Compressed recordings (webm/opus) can't be decoded here and go to Whisper as-is
+      const pcm = decodeWav(audioBuffer);
+      const result = pcm
+        ? await this.transcribeSpeech(pcm.samples, pcm.sampleRate, language)
+        : await this.transcribeWithWhisper(audioBuffer, language);
       return {
         ...result,
         durationMs: Date.now() - startTime,
@@ -45,15 +102,67 @@ class STTService {
     }
   }
 
+  /**
+   * Incremental transcription for audio that is still being recorded
+   * (raw 16-bit PCM chunks in, interim/final word arrays out)
+   */
+  createStream(config: StreamingSTTConfig = {}): TranscriptionStream {
+    return new TranscriptionStream(this, config);
+  }
+
+  /**
+   * Transcribe only the spoken part of PCM audio; long answers are split at
+   * pauses and the segments transcribed in parallel
+   */
+  private async transcribeSpeech(
+    samples: Int16Array,
+    sampleRate: number,
+    language: string
+  ): Promise<Omit<TranscriptionResult, 'durationMs'>> {
+    const activity = detectVoiceActivity(samples, { sampleRate });
+    const silence = {
+      audioDurationSeconds: activity.durationSeconds,
+      leadingSilenceSeconds: activity.leadingSilenceSeconds,
+      trailingSilenceSeconds: activity.trailingSilenceSeconds,
+    };
+
+    // Nothing said: skip the upload (Whisper tends to hallucinate text on silence)
+    if (!activity.hasSpeech) {
+      return { text: '', provider: 'whisper', words: [], ...silence };
+    }
+
+    const parts = await Promise.all(
+      activity.segments.map(segment =>
+        this.transcribeWithWhisper(
+          encodeWav([samples.subarray(segment.startSample, segment.endSample)], sampleRate),
+          language
+        )
+      )
+    );
+
+    const words = parts.flatMap((part, i) => {
+      const offset = activity.segments[i].startSample / sampleRate;
+      return (part.words ?? []).map(w => ({ ...w, start: w.start + offset, end: w.end + offset }));
+    });
+
+    return {
+      text: parts.map(part => part.text.trim()).filter(Boolean).join(' '),
+      provider: 'whisper',
+      words,
+      ...silence,
+    };
+  }
+
   private async transcribeWithWhisper(audioBuffer: Buffer, language: string): Promise<Omit<TranscriptionResult, 'durationMs'>> {
     // Convert Buffer to Uint8Array for File constructor compatibility
     const file = new File([new Uint8Array(audioBuffer)], 'audio.wav', { type: 'audio/wav' });
 
-    const transcription = await openai.audio.transcriptions.create({
+    const transcription = await getOpenAI().audio.transcriptions.create({
       model: 'whisper-1',
       file,
-      language,
+      ...whisperLanguageOptions(language),
       response_format: 'verbose_json',
+      timestamp_granularities: ['word'],
     });
 
     return {
@@ -69,6 +178,152 @@ class STTService {
   }
 }
 
+// ============================================
+// Streaming transcription
+// ============================================
+// Whisper has no streaming endpoint, so the audio after the last stable word is
+// re-transcribed every interimIntervalMs. Words that end well before the live edge
+// are frozen (stableWordCount) and their audio is not sent again. finish() runs
+// one pass over the whole utterance for the final transcript.
+
+export class TranscriptionStream {
+  private readonly service: STTService;
+  private readonly language: string;
+  private readonly sampleRate: number;
+  private readonly interimIntervalMs: number;
+  private readonly onUpdate?: (update: TranscriptionUpdate) => void;
+
+  private chunks: Int16Array[] = [];
+  private totalSamples = 0;
+  private samplesSinceInterim = 0;
+  private stableWords: TranscriptionWord[] = [];
+  private stableUntilSample = 0;
+  private interim: Promise<void> | null = null;
+  private finished = false;
+
+  constructor(service: STTService, config: StreamingSTTConfig) {
+    this.service = service;
+    this.language = config.language || 'ko';
+    this.sampleRate = config.sampleRate ?? REALTIME_SAMPLE_RATE;
+    this.interimIntervalMs = config.interimIntervalMs ?? DEFAULT_INTERIM_INTERVAL_MS;
+    this.onUpdate = config.onUpdate;
+  }
+
+  get durationSeconds(): number {
+    return this.totalSamples / this.sampleRate;
+  }
+
+  /** Everything pushed so far (for acoustic analysis of the utterance) */
+  get samples(): Int16Array {
+    return this.sliceSamples(0, this.totalSamples);
+  }
+
+  push(samples: Int16Array): void {
+    if (this.finished || samples.length === 0) return;
+
+    this.chunks.push(samples);
+    this.totalSamples += samples.length;
+    this.samplesSinceInterim += samples.length;
+
+    // One pass at a time; audio that arrives meanwhile is picked up by the next one
+    if (this.interim || samplesToMs(this.samplesSinceInterim, this.sampleRate) < this.interimIntervalMs) {
+      return;
+    }
+
+    this.samplesSinceInterim = 0;
+    this.interim = this.runInterim()
+      .catch(error => console.warn('[STT] Interim transcription failed:', error))
+      .finally(() => {
+        this.interim = null;
+      });
+  }
+
+  /**
+   * Stop accepting audio and transcribe the whole utterance
+   */
+  async finish(): Promise<TranscriptionResult> {
+    this.finished = true;
+    await this.interim;
+
+    const result = await this.service.transcribe(encodeWav(this.chunks, this.sampleRate), {
+      language: this.language,
+    });
+    const words = result.words ?? [];
+
+    this.onUpdate?.({
+      type: 'final',
+      text: result.text.trim(),
+      words,
+      stableWordCount: words.length,
+    });
+
+    return result;
+  }
+
+  private async runInterim(): Promise<void> {
+    const fromSample = this.stableUntilSample;
+    const toSample = this.totalSamples;
+    const windowWords = await this.recognizeWindow(fromSample, toSample);
+    if (this.finished) return;
+
+    const stableBefore = toSample / this.sampleRate - STABILITY_MARGIN_SECONDS;
+    let stableCount = 0;
+    while (stableCount < windowWords.length && windowWords[stableCount].end <= stableBefore) {
+      stableCount++;
+    }
+
+    if (stableCount > 0) {
+      this.stableWords.push(...windowWords.slice(0, stableCount));
+      this.stableUntilSample = Math.round(windowWords[stableCount - 1].end * this.sampleRate);
+    }
+
+    const words = [...this.stableWords, ...windowWords.slice(stableCount)];
+    this.onUpdate?.({
+      type: 'interim',
+      text: wordsToText(words),
+      words,
+      stableWordCount: this.stableWords.length,
+    });
+  }
+
+  /**
+   * Words in [fromSample, toSample), with times relative to the start of the stream
+   */
+  private async recognizeWindow(fromSample: number, toSample: number): Promise<TranscriptionWord[]> {
+    const from = fromSample / this.sampleRate;
+    const to = toSample / this.sampleRate;
+
+    if (isFakeAIMode()) {
+      // The fixture answer is "spoken" at its own word timings
+      return FAKE_TRANSCRIPTION_WORDS
+        .filter(w => w.start >= from && w.end <= to)
+        .map(w => ({ ...w }));
+    }
+
+    const result = await this.service.transcribe(encodeWav([this.sliceSamples(fromSample, toSample)], this.sampleRate), {
+      language: this.language,
+    });
+
+    return (result.words ?? []).map(w => ({ ...w, start: w.start + from, end: w.end + from }));
+  }
+
+  private sliceSamples(fromSample: number, toSample: number): Int16Array {
+    const samples = new Int16Array(toSample - fromSample);
+    let position = 0;
+
+    for (const chunk of this.chunks) {
+      const start = Math.max(fromSample - position, 0);
+      const end = Math.min(toSample - position, chunk.length);
+      if (start < end) {
+        samples.set(chunk.subarray(start, end), position + start - fromSample);
+      }
+      position += chunk.length;
+    }
+
+    return samples;
+  }
+}
+
 // Singleton instance
 export const sttService = new STTService();
 
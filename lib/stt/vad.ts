@@ -0,0 +1,162 @@
+// ============================================
+// Voice Activity Detection - silence trimming before STT
+// ============================================
+// Energy-based VAD over 20ms frames of 16-bit PCM:
+// - trims leading/trailing silence (late start, late stop) so it is neither
+//   uploaded to Whisper nor counted as pauses within the answer
+// - splits long answers at pauses so segments can be transcribed in parallel
+
+import { REALTIME_SAMPLE_RATE, frameRms } from '@/lib/realtime/pcm';
+
+export interface VoiceActivityConfig {
+  sampleRate: number;
+  frameMs: number;
+  threshold: number;           // Minimum RMS (0-1) counted as speech
+  noiseFloorRatio: number;     // Speech must also be this many times the noise floor
+  minSpeechMs: number;         // Shorter bursts (clicks, button noise) are ignored at the edges
+  paddingMs: number;           // Kept around speech so word onsets/endings survive
+  maxSegmentSeconds: number;   // Longer speech is split
+  minSplitPauseMs: number;     // Pauses at least this long are split points
+}
+
+export interface SpeechSegment {
+  startSample: number;
+  endSample: number;
+}
+
+export interface VoiceActivityResult {
+  hasSpeech: boolean;
+  segments: SpeechSegment[];       // Trimmed speech, split at pauses; covers [first speech, last speech]
+  durationSeconds: number;         // Whole recording
+  leadingSilenceSeconds: number;   // Before the answer starts (thinking before answering)
+  trailingSilenceSeconds: number;  // After the answer ends (late stop)
+}
+
+const DEFAULT_CONFIG: VoiceActivityConfig = {
+  sampleRate: REALTIME_SAMPLE_RATE,
+  frameMs: 20,
+  threshold: 0.015,
+  noiseFloorRatio: 3,
+  minSpeechMs: 100,
+  paddingMs: 200,
+  maxSegmentSeconds: 30,
+  minSplitPauseMs: 300,
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Find the spoken part of a recording
+ */
+export function detectVoiceActivity(
+  samples: Int16Array,
+  config: Partial<VoiceActivityConfig> = {}
+): VoiceActivityResult {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const frameSamples = Math.max(1, Math.round((cfg.sampleRate * cfg.frameMs) / 1000));
+  const durationSeconds = samples.length / cfg.sampleRate;
+
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frameSamples) {
+    levels.push(frameRms(samples.subarray(offset, offset + frameSamples)));
+  }
+
+  // Noise floor: 10th percentile level (room tone, mic hiss); capped because a
+  // recording that is almost all speech has no quiet frames to measure
+  const sorted = [...levels].sort((a, b) => a - b);
+  const noiseFloor = Math.min(sorted[Math.floor(sorted.length * 0.1)] ?? 0, cfg.threshold);
+  const threshold = Math.max(cfg.threshold, noiseFloor * cfg.noiseFloorRatio);
+  const voiced = levels.map(level => level >= threshold);
+
+  const minSpeechFrames = Math.max(1, Math.ceil(cfg.minSpeechMs / cfg.frameMs));
+  const firstFrame = findSpeechRun(voiced, minSpeechFrames, 1);
+  const lastFrame = findSpeechRun(voiced, minSpeechFrames, -1);
+
+  if (firstFrame === -1 || lastFrame === -1) {
+    return {
+      hasSpeech: false,
+      segments: [],
+      durationSeconds: round(durationSeconds),
+      leadingSilenceSeconds: round(durationSeconds),
+      trailingSilenceSeconds: 0,
+    };
+  }
+
+  const paddingSamples = Math.round((cfg.paddingMs / 1000) * cfg.sampleRate);
+  const startSample = Math.max(0, firstFrame * frameSamples - paddingSamples);
+  const endSample = Math.min(samples.length, (lastFrame + 1) * frameSamples + paddingSamples);
+
+  return {
+    hasSpeech: true,
+    segments: splitAtPauses(voiced, startSample, endSample, frameSamples, cfg),
+    durationSeconds: round(durationSeconds),
+    leadingSilenceSeconds: round(startSample / cfg.sampleRate),
+    trailingSilenceSeconds: round((samples.length - endSample) / cfg.sampleRate),
+  };
+}
+
+/**
+ * Index of the first (direction 1) or last (direction -1) frame of a voiced run
+ * at least minFrames long, -1 if there is none
+ */
+function findSpeechRun(voiced: boolean[], minFrames: number, direction: 1 | -1): number {
+  let run = 0;
+
+  for (let step = 0; step < voiced.length; step++) {
+    const i = direction === 1 ? step : voiced.length - 1 - step;
+    run = voiced[i] ? run + 1 : 0;
+
+    if (run >= minFrames) {
+      return i - direction * (minFrames - 1);
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Cut [startSample, endSample) into segments of at most maxSegmentSeconds,
+ * preferring the longest pause in the second half of each segment
+ */
+function splitAtPauses(
+  voiced: boolean[],
+  startSample: number,
+  endSample: number,
+  frameSamples: number,
+  cfg: VoiceActivityConfig
+): SpeechSegment[] {
+  const maxSamples = Math.round(cfg.maxSegmentSeconds * cfg.sampleRate);
+  const minPauseFrames = Math.ceil(cfg.minSplitPauseMs / cfg.frameMs);
+
+  // Pause midpoints (sample index) with their length in frames
+  const pauses: { at: number; frames: number }[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= voiced.length; i++) {
+    if (i < voiced.length && !voiced[i]) {
+      if (runStart === -1) runStart = i;
+      continue;
+    }
+    if (runStart !== -1 && i - runStart >= minPauseFrames) {
+      pauses.push({ at: Math.round(((runStart + i) / 2) * frameSamples), frames: i - runStart });
+    }
+    runStart = -1;
+  }
+
+  const segments: SpeechSegment[] = [];
+  let cursor = startSample;
+
+  while (endSample - cursor > maxSamples) {
+    const earliest = cursor + maxSamples / 2;
+    const latest = cursor + maxSamples;
+    const best = pauses
+      .filter(pause => pause.at > earliest && pause.at <= latest)
+      .reduce<{ at: number; frames: number } | null>((a, b) => (!a || b.frames > a.frames ? b : a), null);
+
+    const splitAt = best ? best.at : latest;
+    segments.push({ startSample: cursor, endSample: splitAt });
+    cursor = splitAt;
+  }
+
+  segments.push({ startSample: cursor, endSample });
+  return segments;
+}
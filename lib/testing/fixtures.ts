@@ -0,0 +1,178 @@
+// ============================================
+// Deterministic AI Fixtures (offline mode)
+// ============================================
+// AI_PROVIDER=fake (or TEST_MODE=true) routes LLM/STT/TTS to these fixtures:
+// - LLM: scripted interviewer turns, canned structured outputs per JSON schema
+// - STT: fixed transcript with Whisper-style word timings
+// - TTS: silent MP3 frames
+// No network access and no API keys are required.
+
+import type { StructuredResponse } from '@/types/interview';
+import type { TranscriptionWord } from '@/lib/stt/service';
+
+export function isFakeAIMode(): boolean {
+  return process.env.AI_PROVIDER === 'fake' || process.env.TEST_MODE === 'true';
+}
+
+// ============================================
+// LLM Fixtures
+// ============================================
+
+// Scripted interviewer questions, used in order (N-th user answer -> N-th question)
+export const FAKE_INTERVIEWER_TURNS: string[] = [
+  '자기소개 감사합니다. 가장 기억에 남는 프로젝트를 하나 소개해주시겠어요?',
+  '그 프로젝트에서 본인이 맡은 역할과 기술적으로 가장 어려웠던 부분은 무엇이었나요?',
+  '그 문제를 해결하기 위해 어떤 대안들을 검토하셨고, 최종 선택의 근거는 무엇이었나요?',
+  '팀원과 의견이 충돌했던 경험이 있다면, 어떻게 조율하셨나요?',
+  '결과적으로 어떤 성과가 있었는지 수치로 말씀해주실 수 있을까요?',
+  '실패했던 경험과 그로부터 배운 점을 말씀해주세요.',
+  '우리 회사에 지원하신 이유는 무엇인가요?',
+  '입사 후 1년 안에 이루고 싶은 목표는 무엇인가요?',
+  '최근에 새로 학습한 기술이나 지식이 있다면 소개해주세요.',
+  '마지막으로 하고 싶은 말씀이 있으신가요?',
+];
+
+export function getFakeInterviewerTurn(userTurnCount: number): string {
+  const index = Math.max(0, userTurnCount - 1) % FAKE_INTERVIEWER_TURNS.length;
+  return FAKE_INTERVIEWER_TURNS[index];
+}
+
+export function buildFakeStructuredResponse(userTurnCount: number): StructuredResponse {
+  return {
+    question: getFakeInterviewerTurn(userTurnCount),
+    evaluation: { relevance: 80, clarity: 75, depth: 70 },
+    inner_thought: '답변이 구체적이라 조금 더 파고들어 봐도 좋겠다.',
+    // Alternate follow-ups so the follow-up limiter path is exercised
+    follow_up_intent: userTurnCount % 2 === 1,
+    suggested_follow_up: '구체적인 수치나 결과를 물어본다.',
+  };
+}
+
+// overall = 75×0.20 + 75×0.30 + 50×0.20 + 50×0.15 + 75×0.15 = 66 (borderline)
+export const FAKE_INTERVIEW_EVALUATION = {
+  category_scores: {
+    logical_structure: { score: 4, reasoning: '"먼저 상황을 설명드리면" - 두괄식 구조로 답변' },
+    job_expertise: { score: 4, reasoning: '"캐시 무효화 전략을 바꿨습니다" - 기술적 판단 근거 제시' },
+    attitude_communication: { score: 3, reasoning: '무난한 태도, 일부 답변에서 장황함' },
+    company_fit: { score: 3, reasoning: '지원 동기가 일반적인 수준' },
+    growth_potential: { score: 4, reasoning: '"실패 후 회고 문서를 작성" - 학습 의지 확인' },
+  },
+  interviewer_impressions: {
+    hiring_manager: { score: 72, comment: '실무 투입 가능성이 보입니다.' },
+    hr_manager: { score: 60, comment: '지원 동기를 더 구체화하면 좋겠습니다.' },
+    senior_peer: { score: 70, comment: '같이 일해보고 싶은 개발자입니다.' },
+  },
+  competency_scores: {
+    behavioral: 65,
+    clarity: 70,
+    comprehension: 72,
+    communication: 62,
+    reasoning: 74,
+    problem_solving: 75,
+    leadership: 58,
+    adaptability: 68,
+  },
+  feedback_summary: '기술적 문제 해결 과정을 논리적으로 설명했습니다. 지원 동기와 회사 적합성은 보완이 필요합니다.',
+  strengths: ['두괄식 답변 구조', '기술적 의사결정 근거 제시', '실패 경험에서의 학습'],
+  improvements: ['지원 동기 구체화', '성과를 수치로 제시', '답변 길이 조절'],
+};
+
+// Same levels as FAKE_INTERVIEW_EVALUATION, so the turn-level averages keep the total at 66
+export const FAKE_ANSWER_SCORE = {
+  scores: {
+    logical_structure: 4,
+    job_expertise: 4,
+    attitude_communication: 3,
+    company_fit: 3,
+    growth_potential: 4,
+  },
+  reasoning: {
+    logical_structure: '결론을 먼저 말하고 근거를 이어서 제시',
+    job_expertise: '"캐시 최적화 프로젝트를 주도" - 직무 경험은 있으나 수치 근거 부족',
+    attitude_communication: '무난한 태도, 답변이 다소 짧음',
+    company_fit: '회사와 연결된 내용 없음',
+    growth_potential: '최근 프로젝트를 주도한 경험에서 주도성 확인',
+  },
+  highlights: ['최근 경험을 구체적인 프로젝트로 제시'],
+  improvements: ['성과를 수치로 제시'],
+  overall_impression: '경험은 구체적이지만 성과의 근거가 부족합니다.',
+};
+
+export const FAKE_EXTRACTED_KEYWORDS = {
+  keywords: [
+    { keyword: 'React', category: 'technical', context: '프론트엔드 프로젝트', mentioned_count: 2 },
+    { keyword: '캐시 최적화', category: 'project', context: '응답 속도 개선', mentioned_count: 1 },
+    { keyword: '협업', category: 'soft_skill', context: '코드 리뷰 문화', mentioned_count: 1 },
+  ],
+  summary: '프론트엔드 개발 경험이 있는 지원자로, 성능 최적화 프로젝트를 주도했습니다.',
+};
+
+export const FAKE_CASE_PROGRESS = {
+  framework: [
+    { name: '신규 고객 유입', status: 'explored', findings: '' },
+    { name: '기존 고객 이탈', status: 'proposed', findings: '' },
+  ],
+  requested_exhibit_ids: [],
+};
+
+export const FAKE_RESUME_CLAIMS = {
+  claims: [
+    { type: 'achievement', claim: '캐시 도입으로 API 응답 속도 40% 개선', source: 'Redis 캐시 도입으로 API 평균 응답 속도 40% 개선' },
+    { type: 'project', claim: '사내 주문 관리 시스템 리뉴얼 참여', source: '주문 관리 시스템 리뉴얼 프로젝트 (React, Node.js)' },
+    { type: 'skill', claim: 'TypeScript 기반 프론트엔드 개발', source: '기술 스택: TypeScript, React, Next.js' },
+  ],
+};
+
+export const FAKE_INTERVIEW_PLAN = {
+  topics: [
+    { title: '캐시 최적화 경험', goal: '캐시 도입 판단 근거와 본인 역할 확인', interviewer: 'hiring_manager', target_depth: 2, minutes: 2, source: 'resume', seed_question: '캐시를 도입하게 된 계기가 무엇이었나요?' },
+    { title: '프론트엔드 성능', goal: '렌더링 성능 문제를 진단하는 방법 확인', interviewer: 'senior_peer', target_depth: 1, minutes: 1.5, source: 'core', seed_question: '느린 화면을 진단할 때 무엇부터 보시나요?' },
+    { title: '협업과 갈등 해결', goal: '의견 충돌 상황에서의 행동 확인', interviewer: 'hr_manager', target_depth: 1, minutes: 1, source: 'core', seed_question: '동료와 의견이 부딪혔던 경험을 말씀해 주세요.' },
+    { title: '지원 동기', goal: '회사와 직무를 선택한 이유 확인', interviewer: 'hr_manager', target_depth: 0, minutes: 0.5, source: 'core', seed_question: '저희 회사에 지원하신 이유가 무엇인가요?' },
+  ],
+};
+
+// Canned structured outputs keyed by JSON schema name
+// userTurnCount = number of user messages in the request
+export const FAKE_LLM_FIXTURES: Record<string, (userTurnCount: number) => unknown> = {
+  interview_response: buildFakeStructuredResponse,
+  interview_evaluation: () => FAKE_INTERVIEW_EVALUATION,
+  realtime_scoring: () => FAKE_ANSWER_SCORE,
+  extracted_keywords: () => FAKE_EXTRACTED_KEYWORDS,
+  case_progress: () => FAKE_CASE_PROGRESS,
+  resume_claims: () => FAKE_RESUME_CLAIMS,
+  interview_plan: () => FAKE_INTERVIEW_PLAN,
+};
+
+// ============================================
+// STT Fixtures
+// ============================================
+
+export const FAKE_TRANSCRIPT =
+  '저는 삼 년 동안 프론트엔드 개발을 했고 최근에는 캐시 최적화 프로젝트를 주도했습니다.';
+
+// Fixed Whisper word timings (seconds), including one 1.2s pause
+export const FAKE_TRANSCRIPTION_WORDS: TranscriptionWord[] = [
+  { word: '저는', start: 0.0, end: 0.4, confidence: 1 },
+  { word: '삼', start: 0.5, end: 0.7, confidence: 1 },
+  { word: '년', start: 0.7, end: 0.9, confidence: 1 },
+  { word: '동안', start: 0.9, end: 1.3, confidence: 1 },
+  { word: '프론트엔드', start: 1.4, end: 2.1, confidence: 1 },
+  { word: '개발을', start: 2.1, end: 2.6, confidence: 1 },
+  { word: '했고', start: 2.6, end: 3.0, confidence: 1 },
+  { word: '최근에는', start: 4.2, end: 4.8, confidence: 1 },
+  { word: '캐시', start: 4.9, end: 5.2, confidence: 1 },
+  { word: '최적화', start: 5.2, end: 5.7, confidence: 1 },
+  { word: '프로젝트를', start: 5.7, end: 6.3, confidence: 1 },
+  { word: '주도했습니다.', start: 6.3, end: 7.1, confidence: 1 },
+];
+
+// ============================================
+// TTS Fixtures
+// ============================================
+
+// MPEG-1 Layer III, 128kbps, 44.1kHz, mono frame header; zeroed side info/main data decodes as silence
+const SILENT_MP3_FRAME = Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0xc4]), Buffer.alloc(413)]);
+
+// ~0.5s of silence (19 frames × 26ms)
+export const SILENT_MP3: Buffer = Buffer.concat(Array.from({ length: 19 }, () => SILENT_MP3_FRAME));
@@ -0,0 +1,53 @@
+// ============================================
+// API Route Test Harness (jest only)
+// ============================================
+// Route tests import this module first (before any route) to get:
+// - mocks for cookies, the Supabase clients (SSR, service role and access-token
+//   clients all share the in-memory database), Sentry and the RAG services
+//   (embeddings aren't part of the fake provider; no documents are attached)
+// - the in-memory database itself and a JSON request builder
+// - the env the routes need with AI_PROVIDER=fake
+
+import { NextRequest } from 'next/server';
+import { createInMemorySupabase } from './supabase';
+
+jest.mock('next/headers', () => ({
+  cookies: async () => ({ getAll: () => [], set: () => undefined }),
+}));
+
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: () => mockSupabase.client,
+}));
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => mockSupabase.client,
+}));
+
+jest.mock('@sentry/nextjs', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@/lib/rag/service', () => ({
+  ragService: { getContextForInterview: jest.fn().mockResolvedValue('') },
+}));
+
+jest.mock('@/lib/rag/question-service', () => ({
+  searchRelevantQuestions: jest.fn().mockResolvedValue([]),
+}));
+
+export const mockSupabase = createInMemorySupabase();
+
+export const ROUTE_TEST_ENV = {
+  AI_PROVIDER: 'fake',
+  NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:54321',
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+  SUPABASE_SERVICE_ROLE_KEY: 'test-service-key',
+};
+
+export function post(path: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
@@ -0,0 +1,134 @@
+// ============================================
+// In-memory Supabase (tests)
+// ============================================
+// Minimal stand-in for the query builder used by the API routes:
+// select/insert/update/upsert, eq/neq/in/gte/lte, order, limit, single, and the
+// use_credit / record_message_interruption / record_rescore_batch RPCs. Rows get sequential ids and timestamps so ordering is stable;
+// timestamps start at creation time so fresh sessions don't read as expired.
+
+type Row = Record<string, unknown>;
+
+export const TEST_USER = { id: '00000000-0000-4000-8000-000000000001', email: 'candidate@example.com' };
+
+export function createInMemorySupabase(user: { id: string; email: string } = TEST_USER) {
+  const tables: Record<string, Row[]> = {};
+  let sequence = 0;
+  const epoch = Math.floor(Date.now() / 1000) * 1000;
+
+  const nextRowMeta = () => {
+    sequence += 1;
+    const timestamp = new Date(epoch + sequence * 1000).toISOString();
+    return {
+      id: `00000000-0000-4000-8000-${String(sequence).padStart(12, '0')}`,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+  };
+
+  const query = (table: string) => {
+    const rows = (tables[table] ||= []);
+    const filters: Array<(row: Row) => boolean> = [];
+    let mode: 'select' | 'insert' | 'update' | 'upsert' = 'select';
+    let payload: Row | Row[] = {};
+    let single = false;
+    let orderBy: { column: string; ascending: boolean } | null = null;
+    let limit = Infinity;
+
+    const execute = () => {
+      let result: Row[];
+
+      if (mode === 'insert' || mode === 'upsert') {
+        result = (Array.isArray(payload) ? payload : [payload]).map(row => ({ ...nextRowMeta(), ...row }));
+        rows.push(...result);
+      } else {
+        result = rows.filter(row => filters.every(filter => filter(row)));
+        if (mode === 'update') {
+          result.forEach(row => Object.assign(row, payload));
+        }
+      }
+
+      if (orderBy) {
+        const { column, ascending } = orderBy;
+        result = [...result].sort((a, b) =>
+          (a[column] as number | string) > (b[column] as number | string) === ascending ? 1 : -1
+        );
+      }
+      result = result.slice(0, limit);
+
+      if (single) {
+        return result[0]
+          ? { data: { ...result[0] }, error: null }
+          : { data: null, error: { message: 'Row not found', code: 'PGRST116' } };
+      }
+      return { data: result.map(row => ({ ...row })), error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      insert: (value: Row | Row[]) => ((mode = 'insert'), (payload = value), builder),
+      upsert: (value: Row | Row[]) => ((mode = 'upsert'), (payload = value), builder),
+      update: (value: Row) => ((mode = 'update'), (payload = value), builder),
+      eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), builder),
+      neq: (column: string, value: unknown) => (filters.push(row => row[column] !== value), builder),
+      in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), builder),
+      gte: (column: string, value: string | number) => (
+        filters.push(row => (row[column] as string | number) >= value), builder
+      ),
+      lte: (column: string, value: string | number) => (
+        filters.push(row => (row[column] as string | number) <= value), builder
+      ),
+      order: (column: string, options?: { ascending?: boolean }) => (
+        (orderBy = { column, ascending: options?.ascending ?? true }), builder
+      ),
+      limit: (count: number) => ((limit = count), builder),
+      single: () => ((single = true), builder),
+      then: (resolve: (value: ReturnType<typeof execute>) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve().then(execute).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  const client = {
+    auth: {
+      getUser: async () => ({ data: { user }, error: null }),
+    },
+    from: query,
+    rpc: async (fn: string, args: Row = {}) => {
+      if (fn === 'use_credit') {
+        return { data: { success: true, balance: 95 }, error: null };
+      }
+      if (fn === 'record_message_interruption') {
+        const message = (tables.messages || []).find(row => row.id === args.p_message_id);
+        if (!message) return { data: { success: false, error: 'not_found' }, error: null };
+        if (message.role !== 'interviewer') return { data: { success: false, error: 'not_interviewer' }, error: null };
+        const interruptedAtChar = Math.min(args.p_char_offset as number, (message.content as string).length);
+        Object.assign(message, { interrupted_at_char: interruptedAtChar, interrupted_at: new Date().toISOString() });
+        return { data: { success: true, interrupted_at_char: interruptedAtChar }, error: null };
+      }
+      if (fn === 'record_rescore_batch') {
+        const job = (tables.rescore_jobs || []).find(row => row.id === args.p_job_id);
+        if (!job) return { data: null, error: { message: 'Job not found' } };
+        const failures = [...(job.failures as Row[]), ...(args.p_failures as Row[])];
+        Object.assign(job, {
+          rescored: (job.rescored as number) + (args.p_rescored as number),
+          failures,
+          updated_at: new Date().toISOString(),
+        });
+        if ((job.rescored as number) + failures.length >= (job.result_ids as string[]).length) {
+          Object.assign(job, { status: 'completed', completed_at: job.updated_at });
+        }
+        return { data: { ...job }, error: null };
+      }
+      return { data: null, error: null };
+    },
+  };
+
+  return {
+    client,
+    tables,
+    reset: () => {
+      Object.keys(tables).forEach(name => delete tables[name]);
+    },
+  };
+}
@@ -3,12 +3,21 @@
 // ============================================
 
 import OpenAI from 'openai';
+import { isFakeAIMode, SILENT_MP3 } from '@/lib/testing/fixtures';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Created on first use so offline (fake) mode never needs an API key
+let openai: OpenAI | null = null;
 
-export type TTSProvider = 'openai' | 'elevenlabs';
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openai;
+}
+
+export type TTSProvider = 'openai' | 'elevenlabs' | 'fake';
 export type OpenAIVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
 
 export interface SynthesisResult {
@@ -29,6 +38,10 @@ export const INTERVIEWER_VOICES: Record<string, { openai: OpenAIVoice; elevenlab
   hiring_manager: { openai: 'onyx', elevenlabs: 'pNInz6obpgDQGcFmaJgB' }, // Male, professional
   hr_manager: { openai: 'nova', elevenlabs: 'EXAVITQu4vr4xnSDxMaL' }, // Female, warm
   senior_peer: { openai: 'echo', elevenlabs: 'yoZ06aMxZJJ28mfd3POQ' }, // Male, friendly
+  // Group discussion co-candidates
+  candidate_a: { openai: 'fable', elevenlabs: 'ErXwobaYiN019PkySvjV' }, // Male, young
+  candidate_b: { openai: 'shimmer', elevenlabs: '21m00Tcm4TlvDq8ikWAM' }, // Female, clear
+  candidate_c: { openai: 'alloy', elevenlabs: 'TxGEqnHWrfWFTfGW9XjX' }, // Neutral, calm
 };
 
 class TTSService {
@@ -39,6 +52,15 @@ class TTSService {
   async synthesize(text: string, interviewerId?: string, config: TTSConfig = {}): Promise<SynthesisResult> {
     const startTime = Date.now();
 
+    if (isFakeAIMode()) {
+      return {
+        audioBuffer: Buffer.from(SILENT_MP3),
+        contentType: 'audio/mpeg',
+        provider: 'fake',
+        durationMs: Date.now() - startTime,
+      };
+    }
+
     // Get voice for interviewer
     const voices = interviewerId ? INTERVIEWER_VOICES[interviewerId] : null;
     const openaiVoice = (config.voice as OpenAIVoice) || voices?.openai || 'alloy';
@@ -73,7 +95,7 @@ class TTSService {
   }
 
   private async synthesizeWithOpenAI(text: string, voice: OpenAIVoice, speed: number = 1.0): Promise<Omit<SynthesisResult, 'durationMs'>> {
-    const mp3 = await openai.audio.speech.create({
+    const mp3 = await getOpenAI().audio.speech.create({
       model: 'tts-1-hd',
       voice,
       input: text,
@@ -128,7 +150,16 @@ class TTSService {
 
   // Streaming synthesis (for lower latency)
   async synthesizeStream(text: string, voice: OpenAIVoice = 'alloy'): Promise<ReadableStream> {
-    const response = await openai.audio.speech.create({
+    if (isFakeAIMode()) {
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(new Uint8Array(SILENT_MP3));
+          controller.close();
+        },
+      });
+    }
+
+    const response = await getOpenAI().audio.speech.create({
       model: 'tts-1',
       voice,
       input: text,
@@ -0,0 +1,23 @@
+#!/usr/bin/env npx ts-node
+// ============================================
+// Realtime Voice Server
+// ============================================
+// Runs the WebSocket server for duplex voice sessions (lib/realtime/server).
+// Deploy it as a long-running process next to the Next.js app (serverless
+// functions can't keep a session between requests) and point
+// NEXT_PUBLIC_REALTIME_URL at it.
+//
+// Usage:
+//   npm run realtime               # REALTIME_PORT (default 8787)
+
+// Load environment variables first
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+import { createRealtimeServer, REALTIME_PATH } from '../lib/realtime/server';
+
+const port = Number(process.env.REALTIME_PORT || 8787);
+
+createRealtimeServer().listen(port, () => {
+  console.log(`[Realtime] Listening on ws://localhost:${port}${REALTIME_PATH}`);
+});
@@ -0,0 +1,115 @@
+#!/usr/bin/env npx ts-node
+// ============================================
+// Rubric Calibration CLI
+// ============================================
+// Re-scores the gold transcripts (lib/calibration/gold.ts) with the current
+// final evaluation prompt and prints agreement with the human labels.
+//
+// Usage:
+//   npm run calibrate                                  # configured provider
+//   npm run calibrate -- --provider anthropic --model claude-sonnet-4-5
+//   npm run calibrate:fake                             # offline (CI)
+//
+// Options:
+//   --out <file>        Save the JSON report
+//   --baseline <file>   Compare with an earlier report
+//   --max-mae <n>       Exit with 1 when the category MAE is above n
+
+// Load environment variables first
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+import * as fs from 'fs';
+import { runCalibration, compareCalibrationReports, type CalibrationReport } from '../lib/calibration/runner';
+import { PASS_STATUSES } from '../lib/calibration/metrics';
+import { isLLMProviderName } from '../lib/llm/providers';
+import { CORE_RUBRIC, type CoreEvaluationCategory } from '../lib/llm/prompts/scoring-rubric';
+
+// ============================================
+// Arguments
+// ============================================
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const provider = readOption('provider');
+const model = readOption('model');
+const outFile = readOption('out');
+const baselineFile = readOption('baseline');
+const maxMae = readOption('max-mae');
+
+if (process.argv.includes('--fake')) {
+  process.env.AI_PROVIDER = 'fake';
+}
+
+// ============================================
+// Output
+// ============================================
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+function printReport(report: CalibrationReport, baseline?: CalibrationReport) {
+  const { metrics } = report;
+  const comparison = baseline ? compareCalibrationReports(baseline, report) : null;
+
+  console.log(`\n📐 Calibration: prompt ${report.prompt_version} · ${report.provider}/${report.model}`);
+  console.log(`   ${metrics.transcripts} transcripts scored${report.failed.length > 0 ? `, failed: ${report.failed.join(', ')}` : ''}`);
+  if (comparison && !comparison.same_prompt) {
+    console.log(`   baseline prompt ${baseline!.prompt_version} (${baseline!.provider}/${baseline!.model})`);
+  }
+
+  console.log('\n   category                MAE   exact  kappa  w-kappa');
+  for (const [category, calibration] of Object.entries(metrics.categories)) {
+    const delta = comparison?.categories[category as CoreEvaluationCategory];
+    console.log(
+      `   ${CORE_RUBRIC[category as CoreEvaluationCategory].name.padEnd(20)}` +
+      `${String(calibration.mae).padStart(6)}${String(calibration.exact).padStart(7)}` +
+      `${String(calibration.kappa).padStart(7)}${String(calibration.weighted_kappa).padStart(9)}` +
+      (delta ? `   (MAE ${signed(delta.mae)}, w-kappa ${signed(delta.weighted_kappa)})` : '')
+    );
+  }
+
+  console.log(`\n   MAE ${metrics.mae}${comparison ? ` (${signed(comparison.mae)})` : ''}` +
+    ` · total MAE ${metrics.total_mae}${comparison ? ` (${signed(comparison.total_mae)})` : ''}`);
+  console.log(`   pass accuracy ${metrics.pass_accuracy}${comparison ? ` (${signed(comparison.pass_accuracy)})` : ''}` +
+    ` · pass kappa ${metrics.pass_kappa}`);
+
+  console.log('\n   gold \\ predicted   ' + PASS_STATUSES.map(status => status.padStart(11)).join(''));
+  for (const gold of PASS_STATUSES) {
+    console.log(`   ${gold.padEnd(19)}` + PASS_STATUSES.map(predicted => String(metrics.pass_confusion[gold][predicted]).padStart(11)).join(''));
+  }
+}
+
+// ============================================
+// Main
+// ============================================
+
+async function main() {
+  if (provider !== undefined && !isLLMProviderName(provider)) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+
+  const baseline = baselineFile
+    ? JSON.parse(fs.readFileSync(baselineFile, 'utf-8')) as CalibrationReport
+    : undefined;
+
+  const report = await runCalibration({ provider, model });
+  printReport(report, baseline);
+
+  if (outFile) {
+    fs.writeFileSync(outFile, JSON.stringify(report, null, 2));
+    console.log(`\n💾 Report saved to ${outFile}`);
+  }
+
+  if (maxMae && report.metrics.mae > Number(maxMae)) {
+    console.error(`\n❌ MAE ${report.metrics.mae} is above the limit ${maxMae}`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Calibration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
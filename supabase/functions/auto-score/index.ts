@@ -4,12 +4,33 @@
 // Automatically evaluates interview when session ends
 // Triggered by database webhook or direct invocation
 //
+// Prompt, schema, totals and the saved fields come from lib/scoring/evaluation,
+// the same module /api/interview/end uses (mapped through deno.json, whose
+// "sloppy-imports" resolves that module's extensionless imports). Per-answer
+// grounding, system-measured axes (tests, voice, coverage) and the ensemble are
+// only added by the end route, so results here carry TRANSCRIPT_SCORING_VERSION.
+//
 // Usage:
 // POST /functions/v1/auto-score
 // Body: { session_id: string }
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  TRANSCRIPT_SCORING_VERSION,
+  buildEvaluationSchema,
+  buildEvaluationSystemPrompt,
+  buildEvaluationPrompt,
+  formatEvaluationTranscript,
+  parseEvaluation,
+  createFallbackEvaluation,
+  completeModeScores,
+  calculateEvaluationTotal,
+  buildEvaluationRecord,
+  type TranscriptMessage,
+} from '@/lib/scoring/evaluation.ts';
+import { getModeEvaluationCategories } from '@/lib/llm/prompts/scoring-rubric.ts';
+import type { InterviewLanguage, InterviewMode } from '@/types/interview.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,83 +38,6 @@ const corsHeaders = {
     'authorization, x-client-info, apikey, content-type',
 };
 
-// Competency evaluation schema for structured output
-const EVALUATION_SCHEMA = {
-  type: 'object',
-  properties: {
-    overall_score: {
-      type: 'number',
-      description: 'Overall interview score (0-100)',
-    },
-    pass_status: {
-      type: 'string',
-      enum: ['pass', 'borderline', 'fail'],
-      description: 'Pass status based on score threshold',
-    },
-    interviewer_scores: {
-      type: 'object',
-      properties: {
-        hiring_manager: { type: 'number' },
-        hr_manager: { type: 'number' },
-        senior_peer: { type: 'number' },
-      },
-      required: ['hiring_manager', 'hr_manager', 'senior_peer'],
-    },
-    competency_scores: {
-      type: 'object',
-      properties: {
-        behavioral: { type: 'number', description: 'Behavioral competency (0-100)' },
-        clarity: { type: 'number', description: 'Response clarity (0-100)' },
-        comprehension: { type: 'number', description: 'Question comprehension (0-100)' },
-        communication: { type: 'number', description: 'Communication skills (0-100)' },
-        reasoning: { type: 'number', description: 'Logical reasoning (0-100)' },
-        problem_solving: { type: 'number', description: 'Problem solving ability (0-100)' },
-        leadership: { type: 'number', description: 'Leadership potential (0-100)' },
-        adaptability: { type: 'number', description: 'Adaptability (0-100)' },
-      },
-      required: [
-        'behavioral',
-        'clarity',
-        'comprehension',
-        'communication',
-        'reasoning',
-        'problem_solving',
-        'leadership',
-        'adaptability',
-      ],
-    },
-    feedback_summary: {
-      type: 'string',
-      description: 'Overall feedback summary in Korean (2-3 sentences)',
-    },
-    strengths: {
-      type: 'array',
-      items: { type: 'string' },
-      description: 'Top 3 strengths in Korean',
-    },
-    improvements: {
-      type: 'array',
-      items: { type: 'string' },
-      description: 'Top 3 areas for improvement in Korean',
-    },
-  },
-  required: [
-    'overall_score',
-    'pass_status',
-    'interviewer_scores',
-    'competency_scores',
-    'feedback_summary',
-    'strengths',
-    'improvements',
-  ],
-};
-
-interface Message {
-  role: string;
-  content: string;
-  interviewer_id?: string;
-}
-
 interface Session {
   id: string;
   user_id: string;
@@ -101,6 +45,8 @@ interface Session {
   industry?: string;
   difficulty: string;
   turn_count: number;
+  interview_mode?: InterviewMode | null;
+  timer_config?: { language?: InterviewLanguage } | null;
 }
 
 serve(async (req) => {
@@ -186,47 +132,16 @@ serve(async (req) => {
       );
     }
 
-    // Build transcript
-    const transcript = (messages as Message[])
-      .map((msg) => {
-        const speaker =
-          msg.role === 'user'
-            ? '지원자'
-            : msg.interviewer_id
-              ? `면접관(${msg.interviewer_id})`
-              : '면접관';
-        return `${speaker}: ${msg.content}`;
-      })
-      .join('\n');
-
-    // Build evaluation prompt
-    const evaluationPrompt = `다음은 AI 면접 기록입니다. 지원자의 면접 성과를 8가지 역량 축으로 분석하고 평가해주세요.
-
-직무: ${typedSession.job_type}
-산업: ${typedSession.industry || '일반'}
-난이도: ${typedSession.difficulty}
-총 질문 수: ${typedSession.turn_count}
+    const language: InterviewLanguage = typedSession.timer_config?.language || 'ko';
+    const modes = getModeEvaluationCategories(typedSession.interview_mode || 'standard', language);
 
-면접 기록:
-${transcript}
-
-평가 기준 (각 0-100점):
-1. behavioral (행동 역량): 과거 행동 기반 답변의 질, STAR 기법 활용도
-2. clarity (명확성): 답변의 명확하고 구조적인 전달
-3. comprehension (이해력): 질문 의도 파악 및 적절한 응답
-4. communication (커뮤니케이션): 효과적인 의사소통 능력
-5. reasoning (논리적 사고): 논리적 흐름과 근거 제시
-6. problem_solving (문제 해결): 문제 해결 접근법과 창의성
-7. leadership (리더십): 리더십 잠재력 및 팀워크 능력
-8. adaptability (적응력): 변화 대응 능력과 유연성
-
-합격 기준:
-- pass: 전체 점수 75점 이상
-- borderline: 60-74점
-- fail: 60점 미만
-
-면접관별 점수는 각 면접관의 관점에서 지원자를 평가한 점수입니다.
-피드백과 강점/개선점은 구체적이고 실행 가능한 조언을 포함해주세요.`;
+    const evaluationPrompt = buildEvaluationPrompt({
+      jobType: typedSession.job_type,
+      difficulty: typedSession.difficulty,
+      language,
+      modes,
+      transcript: formatEvaluationTranscript(messages as TranscriptMessage[]),
+    });
 
     // Call OpenAI API
     const openaiResponse = await fetch(
@@ -240,11 +155,7 @@ ${transcript}
         body: JSON.stringify({
           model: 'gpt-4o',
           messages: [
-            {
-              role: 'system',
-              content:
-                '당신은 면접 평가 전문가입니다. 객관적이고 구체적인 평가를 제공합니다. 한국어로 응답하세요.',
-            },
+            { role: 'system', content: buildEvaluationSystemPrompt(language) },
             { role: 'user', content: evaluationPrompt },
           ],
           response_format: {
@@ -252,10 +163,11 @@ ${transcript}
             json_schema: {
               name: 'interview_evaluation',
               strict: true,
-              schema: EVALUATION_SCHEMA,
+              schema: buildEvaluationSchema(modes),
             },
           },
-          temperature: 0.3,
+          max_tokens: 2000,
+          temperature: 0, // 일관된 채점을 위해 0으로 설정 (/api/interview/end와 동일)
         }),
       }
     );
@@ -268,35 +180,20 @@ ${transcript}
     const openaiData = await openaiResponse.json();
     const evaluationText = openaiData.choices[0]?.message?.content || '{}';
 
-    let evaluation;
-    try {
-      evaluation = JSON.parse(evaluationText);
-    } catch {
+    const parsed = parseEvaluation(evaluationText);
+    if (!parsed) {
       console.error('Failed to parse evaluation:', evaluationText);
-      // Provide fallback evaluation
-      evaluation = {
-        overall_score: 60,
-        pass_status: 'borderline',
-        interviewer_scores: {
-          hiring_manager: 60,
-          hr_manager: 60,
-          senior_peer: 60,
-        },
-        competency_scores: {
-          behavioral: 60,
-          clarity: 60,
-          comprehension: 60,
-          communication: 60,
-          reasoning: 60,
-          problem_solving: 60,
-          leadership: 60,
-          adaptability: 60,
-        },
-        feedback_summary: '면접 평가 처리 중 오류가 발생했습니다.',
-        strengths: ['평가 불가'],
-        improvements: ['다시 시도해주세요'],
-      };
     }
+    const evaluation = parsed ?? createFallbackEvaluation();
+
+    const categoryScores = completeModeScores(evaluation.category_scores, modes, language);
+    const record = {
+      ...buildEvaluationRecord(
+        { ...evaluation, category_scores: categoryScores },
+        calculateEvaluationTotal(categoryScores, modes)
+      ),
+      scoring_version: TRANSCRIPT_SCORING_VERSION,
+    };
 
     // Update session status to completed
     await supabase
@@ -310,13 +207,7 @@ ${transcript}
       .insert({
         session_id,
         user_id: typedSession.user_id,
-        overall_score: evaluation.overall_score,
-        pass_status: evaluation.pass_status,
-        interviewer_scores: evaluation.interviewer_scores,
-        competency_scores: evaluation.competency_scores,
-        feedback_summary: evaluation.feedback_summary,
-        strengths: evaluation.strengths,
-        improvements: evaluation.improvements,
+        ...record,
       })
       .select()
       .single();
@@ -338,10 +229,11 @@ ${transcript}
         result: {
           id: result.id,
           session_id,
-          overall_score: evaluation.overall_score,
-          pass_status: evaluation.pass_status,
-          competency_scores: evaluation.competency_scores,
-          feedback_summary: evaluation.feedback_summary,
+          overall_score: record.overall_score,
+          pass_status: record.pass_status,
+          competency_scores: record.competency_scores,
+          feedback_summary: record.feedback_summary,
+          scoring_version: record.scoring_version,
         },
       }),
       {
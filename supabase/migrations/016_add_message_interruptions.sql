@@ -0,0 +1,66 @@
+-- ============================================
+-- Migration: Interviewer Barge-in
+-- ============================================
+-- 지원자가 면접관 음성 재생 중에 말을 끊으면(barge-in) 어디까지 들었는지 기록
+-- 다음 LLM 턴은 content 전체가 아니라 실제로 들린 부분만 대화 기록으로 사용
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS interrupted_at_char INT DEFAULT NULL
+  CHECK (interrupted_at_char IS NULL OR interrupted_at_char >= 0);
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS interrupted_at TIMESTAMPTZ DEFAULT NULL;
+
+-- 중단 기록은 메시지 저장 후에 남는다. messages에 UPDATE 정책을 열면 지원자가
+-- 다른 컬럼(content, role 등)까지 고칠 수 있으므로, 두 컬럼만 쓰는 함수로 기록한다
+create or replace function public.record_message_interruption(
+  p_message_id uuid,
+  p_char_offset int
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  msg_role text;
+  msg_length int;
+  clamped int;
+begin
+  if p_char_offset is null or p_char_offset < 0 then
+    return jsonb_build_object('success', false, 'error', 'invalid_offset');
+  end if;
+
+  select m.role, char_length(m.content)
+  into msg_role, msg_length
+  from messages m
+  join interview_sessions s on s.id = m.session_id
+  where m.id = p_message_id
+    and s.user_id = auth.uid();
+
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'not_found');
+  end if;
+
+  if msg_role <> 'interviewer' then
+    return jsonb_build_object('success', false, 'error', 'not_interviewer');
+  end if;
+
+  -- Direct calls are clamped the same way as the API route's offsets
+  clamped := least(p_char_offset, msg_length);
+
+  update messages
+  set interrupted_at_char = clamped,
+      interrupted_at      = now()
+  where id = p_message_id;
+
+  return jsonb_build_object('success', true, 'interrupted_at_char', clamped);
+end;
+$$;
+
+grant execute on function record_message_interruption(uuid, int) to authenticated;
+
+COMMENT ON COLUMN messages.interrupted_at_char IS
+'Character offset into content where the candidate interrupted interviewer playback (NULL = heard in full)';
+
+COMMENT ON COLUMN messages.interrupted_at IS
+'When the interruption happened';
@@ -0,0 +1,42 @@
+-- ============================================
+-- Migration: Acoustic Prosody in speech_analytics
+-- ============================================
+-- 녹음(PCM)에서 직접 측정한 억양/음량/떨림 지표 저장
+-- "단조로움", "목소리 떨림" 피드백이 LLM 추측이 아니라 실제 음성 측정값에 근거하도록 함
+
+ALTER TABLE speech_analytics
+ADD COLUMN IF NOT EXISTS pitch_mean_hz NUMERIC(6, 1) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS pitch_variability_st NUMERIC(5, 2) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS loudness_mean_db NUMERIC(5, 1) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS loudness_variability_db NUMERIC(5, 1) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS jitter_percent NUMERIC(5, 2) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS shimmer_percent NUMERIC(5, 2) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS pitch_contour JSONB DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS pitch_variation_score NUMERIC(5, 2) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS vocal_stability_score NUMERIC(5, 2) DEFAULT NULL;
+
+-- Voice analysis is written by the user's own requests (POST /api/interview/analyze-voice)
+CREATE POLICY "Users can insert own speech analytics"
+  ON speech_analytics FOR INSERT
+  WITH CHECK (
+    result_id IN (
+      SELECT id FROM interview_results WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own speech analytics"
+  ON speech_analytics FOR UPDATE
+  USING (
+    result_id IN (
+      SELECT id FROM interview_results WHERE user_id = auth.uid()
+    )
+  );
+
+COMMENT ON COLUMN speech_analytics.pitch_variability_st IS
+'Std of F0 around the speaker median, in semitones (low = monotone). NULL = audio not decodable';
+
+COMMENT ON COLUMN speech_analytics.jitter_percent IS
+'Frame-level pitch period perturbation (%); with shimmer_percent, indicates voice trembling';
+
+COMMENT ON COLUMN speech_analytics.pitch_contour IS
+'Downsampled F0 contour: [{ "time": seconds, "hz": number }]';
@@ -0,0 +1,23 @@
+-- ============================================
+-- Migration: Answer Voice Features + Emotion Timeline
+-- ============================================
+-- 음성 답변마다 말하기 특징(속도, 추임새, 억양 변화, 떨림)을 메시지에 저장
+-- 면접 종료 시 답변 텍스트 + 음성 특징으로 감정 타임라인(emotion_analyses)을 생성
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS voice_features JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN messages.voice_features IS
+'Spoken answers only: { wpm, filler_rate, long_pauses, leading_silence, pitch_variability_st?, jitter_percent?, shimmer_percent?, loudness_mean_db? }';
+
+-- Emotion timeline is written by POST /api/interview/end with the user's session
+CREATE POLICY "Users can insert own emotion analyses"
+  ON emotion_analyses FOR INSERT
+  WITH CHECK (
+    result_id IN (
+      SELECT id FROM interview_results WHERE user_id = auth.uid()
+    )
+  );
+
+COMMENT ON COLUMN emotion_analyses.timeline IS
+'Per answer: [{ timestamp (seconds since interview start), message_id, source: text|voice, confidence, nervousness, enthusiasm }]';
@@ -0,0 +1,24 @@
+-- ============================================
+-- Migration: Coding Interview Mode
+-- ============================================
+-- 면접 유형(interview_mode) 추가: standard(일반) / coding(라이브 코딩)
+-- 코딩 면접에서는 답변마다 에디터 코드, 편집 기록, 숨김 테스트 결과를 메시지에 저장
+
+ALTER TABLE interview_sessions
+ADD COLUMN IF NOT EXISTS interview_mode TEXT NOT NULL DEFAULT 'standard';
+
+ALTER TABLE interview_sessions
+ADD CONSTRAINT interview_sessions_interview_mode_check
+CHECK (interview_mode IN ('standard', 'coding'));
+
+CREATE INDEX IF NOT EXISTS idx_interview_sessions_mode
+ON interview_sessions(user_id, interview_mode);
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS code_submission JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN interview_sessions.interview_mode IS
+'Session type: standard (conversational) | coding (live coding round with editor)';
+
+COMMENT ON COLUMN messages.code_submission IS
+'Coding mode user answers: { problem_id, language, source, edit_history: [{ at, from, to, text }], hidden_tests: { passed, total, failed, error? } }';
@@ -0,0 +1,21 @@
+-- ============================================
+-- Migration: System Design Interview Mode
+-- ============================================
+-- 면접 유형에 system_design(시스템 설계) 추가
+-- 설계 면접에서는 답변마다 지원자가 그린 다이어그램(컴포넌트, 데이터 저장소, 화살표)을 메시지에 저장
+
+ALTER TABLE interview_sessions
+DROP CONSTRAINT IF EXISTS interview_sessions_interview_mode_check;
+
+ALTER TABLE interview_sessions
+ADD CONSTRAINT interview_sessions_interview_mode_check
+CHECK (interview_mode IN ('standard', 'coding', 'system_design'));
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS design_diagram JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN interview_sessions.interview_mode IS
+'Session type: standard (conversational) | coding (live coding round with editor) | system_design (design round with diagram)';
+
+COMMENT ON COLUMN messages.design_diagram IS
+'System design mode user answers: { problem_id, nodes: [{ id, kind, label, notes? }], edges: [{ id, from, to, label? }] }';
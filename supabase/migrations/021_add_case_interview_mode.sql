@@ -0,0 +1,21 @@
+-- ============================================
+-- Migration: Case Interview Mode
+-- ============================================
+-- 면접 유형에 case(케이스 면접) 추가
+-- 케이스 면접에서는 답변마다 지원자의 프레임워크 진행 상황과 공개된 추가 자료를 메시지에 저장
+
+ALTER TABLE interview_sessions
+DROP CONSTRAINT IF EXISTS interview_sessions_interview_mode_check;
+
+ALTER TABLE interview_sessions
+ADD CONSTRAINT interview_sessions_interview_mode_check
+CHECK (interview_mode IN ('standard', 'coding', 'system_design', 'case'));
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS case_state JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN interview_sessions.interview_mode IS
+'Session type: standard (conversational) | coding (live coding round with editor) | system_design (design round with diagram) | case (business case with data exhibits)';
+
+COMMENT ON COLUMN messages.case_state IS
+'Case mode user answers: { case_id, framework: [{ name, status, findings? }], revealed_exhibit_ids } after the answer';
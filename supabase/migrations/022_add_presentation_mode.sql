@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration: Presentation (PT) Interview Mode
+-- ============================================
+-- 면접 유형에 presentation(PT 면접) 추가
+-- 발표 자료(슬라이드별 텍스트)와 발표 시간은 interview_sessions.timer_config.presentation에 저장
+-- 발표 자체는 세션의 첫 번째 지원자 답변(messages.voice_features 포함)으로 저장
+
+ALTER TABLE interview_sessions
+DROP CONSTRAINT IF EXISTS interview_sessions_interview_mode_check;
+
+ALTER TABLE interview_sessions
+ADD CONSTRAINT interview_sessions_interview_mode_check
+CHECK (interview_mode IN ('standard', 'coding', 'system_design', 'case', 'presentation'));
+
+COMMENT ON COLUMN interview_sessions.interview_mode IS
+'Session type: standard (conversational) | coding (live coding round with editor) | system_design (design round with diagram) | case (business case with data exhibits) | presentation (timed PT on an uploaded deck, then panel Q&A)';
@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration: Pressure (Stress) Interview Mode
+-- ============================================
+-- 면접 유형에 pressure(압박 면접) 추가
+-- 답변 시간 제한(60초, 시간 초과 시 자동 제출)은 interview_sessions.timer_config에 저장
+-- 침착성/회복탄력성(composure) 점수는 interview_results.category_scores에 저장
+
+ALTER TABLE interview_sessions
+DROP CONSTRAINT IF EXISTS interview_sessions_interview_mode_check;
+
+ALTER TABLE interview_sessions
+ADD CONSTRAINT interview_sessions_interview_mode_check
+CHECK (interview_mode IN ('standard', 'coding', 'system_design', 'case', 'presentation', 'pressure'));
+
+COMMENT ON COLUMN interview_sessions.interview_mode IS
+'Session type: standard (conversational) | coding (live coding round with editor) | system_design (design round with diagram) | case (business case with data exhibits) | presentation (timed PT on an uploaded deck, then panel Q&A) | pressure (stress interview with interruptions, challenges and a shortened answer timer)';
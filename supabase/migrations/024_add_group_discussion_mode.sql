@@ -0,0 +1,17 @@
+-- ============================================
+-- Migration: Group Discussion Interview Mode
+-- ============================================
+-- 면접 유형에 group_discussion(토론 면접) 추가
+-- 논제, 지원자 입장, AI 토론 참가자(이름/입장/MBTI)는 interview_sessions.timer_config.discussion에 저장
+-- AI 토론 참가자의 발언은 messages.interviewer_id에 candidate_a / candidate_b / candidate_c로 저장
+-- 발언 기여도(contribution), 경청/반응(listening), 설득력(persuasiveness) 점수는 interview_results.category_scores에 저장
+
+ALTER TABLE interview_sessions
+DROP CONSTRAINT IF EXISTS interview_sessions_interview_mode_check;
+
+ALTER TABLE interview_sessions
+ADD CONSTRAINT interview_sessions_interview_mode_check
+CHECK (interview_mode IN ('standard', 'coding', 'system_design', 'case', 'presentation', 'pressure', 'group_discussion'));
+
+COMMENT ON COLUMN interview_sessions.interview_mode IS
+'Session type: standard (conversational) | coding (live coding round with editor) | system_design (design round with diagram) | case (business case with data exhibits) | presentation (timed PT on an uploaded deck, then panel Q&A) | pressure (stress interview with interruptions, challenges and a shortened answer timer) | group_discussion (moderated debate with AI co-candidates holding assigned stances)';
@@ -0,0 +1,29 @@
+-- ============================================
+-- Migration: Resume Deep-Dive Interview Mode
+-- ============================================
+-- 면접 유형에 resume_deep_dive(이력서 검증 면접) 추가
+-- 이력서에서 추출한 검증 항목(프로젝트/성과/기술)은 interview_sessions.timer_config.resume_plan에 저장
+-- 면접관 질문이 다룬 항목은 messages.resume_claim_id에 저장 (항목별 커버리지 계산용)
+-- 항목별 검증 결과(검증됨/일부 확인/근거 부족/다루지 못함)는 interview_results.claim_verification에 저장
+
+ALTER TABLE interview_sessions
+DROP CONSTRAINT IF EXISTS interview_sessions_interview_mode_check;
+
+ALTER TABLE interview_sessions
+ADD CONSTRAINT interview_sessions_interview_mode_check
+CHECK (interview_mode IN ('standard', 'coding', 'system_design', 'case', 'presentation', 'pressure', 'group_discussion', 'resume_deep_dive'));
+
+COMMENT ON COLUMN interview_sessions.interview_mode IS
+'Session type: standard (conversational) | coding (live coding round with editor) | system_design (design round with diagram) | case (business case with data exhibits) | presentation (timed PT on an uploaded deck, then panel Q&A) | pressure (stress interview with interruptions, challenges and a shortened answer timer) | group_discussion (moderated debate with AI co-candidates holding assigned stances) | resume_deep_dive (every project, achievement and skill claim in the resume verified with follow-ups)';
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS resume_claim_id TEXT;
+
+COMMENT ON COLUMN messages.resume_claim_id IS
+'Resume deep-dive: id of the resume claim (timer_config.resume_plan) this interviewer question targets';
+
+ALTER TABLE interview_results
+ADD COLUMN IF NOT EXISTS claim_verification JSONB;
+
+COMMENT ON COLUMN interview_results.claim_verification IS
+'Resume deep-dive: per-claim verdict (verified | partial | unsubstantiated | not_covered) with evidence; unsubstantiated claims are flagged';
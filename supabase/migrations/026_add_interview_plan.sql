@@ -0,0 +1,19 @@
+-- ============================================
+-- Migration: Interview Plan
+-- ============================================
+-- 일반/압박 면접 시작 시 면접 계획(주제 순서, 담당 면접관, 꼬리질문 깊이, 시간 배분)을 생성
+-- 면접 계획은 interview_sessions.timer_config.interview_plan에 저장
+-- 면접관 질문이 속한 주제는 messages.plan_topic_id에 저장 (주제별 진행 상황 계산용)
+-- 주제별 진행 결과(다룸/일부만 다룸/건너뜀)는 interview_results.plan_coverage에 저장
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS plan_topic_id TEXT;
+
+COMMENT ON COLUMN messages.plan_topic_id IS
+'Planned interviews: id of the agenda topic (timer_config.interview_plan) this interviewer question belongs to';
+
+ALTER TABLE interview_results
+ADD COLUMN IF NOT EXISTS plan_coverage JSONB;
+
+COMMENT ON COLUMN interview_results.plan_coverage IS
+'Planned interviews: per-topic outcome (covered | partial | skipped) with questions asked versus planned';
@@ -0,0 +1,12 @@
+-- ============================================
+-- Migration: Session Pause / Recovery
+-- ============================================
+-- 진행 중인 면접의 일시정지/재개와 새로고침·네트워크 끊김 후 이어하기 지원
+-- 일시정지 시점의 면접 타이머, 답변 타이머, PT 타이머는 interview_sessions.timer_config.clock에 저장
+-- 마지막 활동(updated_at) 후 24시간이 지난 active/paused 세션은 abandoned로 만료 처리
+-- 이어하기는 크레딧(INTERVIEW_START)을 다시 차감하지 않음
+
+ALTER TYPE session_status ADD VALUE IF NOT EXISTS 'abandoned';
+
+COMMENT ON COLUMN interview_sessions.status IS
+'waiting | active | paused (clock saved in timer_config.clock) | completed | abandoned (left by the candidate or expired after 24h without activity)';
@@ -0,0 +1,29 @@
+-- ============================================
+-- Migration: Per-Answer Rubric Scoring
+-- ============================================
+-- 지원자 답변마다 별도 평가 호출로 5축 핵심 루브릭(CORE_RUBRIC) 점수를 매겨 answer_scores에 저장
+-- 면접 중에는 백그라운드로 채점하고, 면접 종료 시 채점되지 않은 답변을 마저 채점
+-- 질문별 채점표는 interview_results.answer_scorecards에 저장 (5축 핵심 점수는 답변별 점수의 평균)
+-- 답변 점수는 최종 점수의 근거이므로 지원자가 쓸 수 있는 messages가 아닌 별도 테이블에 둔다
+
+CREATE TABLE IF NOT EXISTS answer_scores (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE PRIMARY KEY,
+  session_id UUID REFERENCES interview_sessions(id) ON DELETE CASCADE NOT NULL,
+  score JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_scores_session ON answer_scores(session_id);
+
+ALTER TABLE answer_scores ENABLE ROW LEVEL SECURITY;
+
+-- Read and written only by the service role (message flow, end route); no client policies
+
+COMMENT ON TABLE answer_scores IS
+'Rubric score of each candidate answer (1-5 per core category with reasoning, highlights, improvements, 0-100 total)';
+
+ALTER TABLE interview_results
+ADD COLUMN IF NOT EXISTS answer_scorecards JSONB;
+
+COMMENT ON COLUMN interview_results.answer_scorecards IS
+'Per-question scorecards: question, answer excerpt and the answer''s rubric score, in interview order';
@@ -0,0 +1,12 @@
+-- ============================================
+-- Migration: Evaluation Ensemble
+-- ============================================
+-- EVALUATION_ENSEMBLE_SIZE > 1이면 최종 평가를 여러 번 샘플링해 평균(합의) 점수로 채점
+-- 샘플별 총점/판정, 항목별 편차와 샘플 간 의견이 갈린 항목을 interview_results.evaluation_ensemble에 저장
+-- 샘플들의 합격 판정이 갈리면 보류(borderline)로 처리
+
+ALTER TABLE interview_results
+ADD COLUMN IF NOT EXISTS evaluation_ensemble JSONB;
+
+COMMENT ON COLUMN interview_results.evaluation_ensemble IS
+'Ensemble evaluation: per-sample provider/model/total/pass status, per-category mean/spread/min/max with low-agreement flags, total spread and whether the verdicts agree. NULL for single evaluations';
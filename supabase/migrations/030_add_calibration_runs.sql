@@ -0,0 +1,30 @@
+-- ============================================
+-- Migration: Rubric Calibration Runs
+-- ============================================
+-- 사람이 채점한 기준 면접 기록(lib/calibration/gold.ts)을 현재 프롬프트/모델로 다시 채점한 결과
+-- 항목별 MAE, Cohen's kappa, 합격 판정 혼동 행렬을 저장해 프롬프트 버전/모델 간 비교에 사용
+-- 관리자 페이지(/admin/calibration)와 CLI(npm run calibrate)에서 실행, 서비스 롤로만 기록
+
+CREATE TABLE IF NOT EXISTS calibration_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  prompt_version TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  transcripts INT NOT NULL,
+  mae NUMERIC(4,2) NOT NULL,
+  pass_accuracy NUMERIC(3,2) NOT NULL,
+  report JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calibration_runs_created ON calibration_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_calibration_runs_prompt ON calibration_runs(prompt_version);
+
+ALTER TABLE calibration_runs ENABLE ROW LEVEL SECURITY;
+
+-- Only service role can read or write (admin API)
+-- No policies for regular users
+
+COMMENT ON TABLE calibration_runs IS
+'Rubric calibration runs: gold transcripts re-scored with the current final evaluation prompt, agreement metrics in report';
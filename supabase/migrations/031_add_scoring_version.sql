@@ -0,0 +1,18 @@
+-- ============================================
+-- Migration: Scoring Version
+-- ============================================
+-- /api/interview/end와 auto-score Edge Function이 같은 채점 모듈(lib/scoring/evaluation)을 사용
+-- 결과마다 채점 방식 버전(SCORING_VERSION)을 기록해 버전이 다른 점수를 구분
+-- 기존 결과는 통합 이전 채점 방식이므로 'v1'로 채움
+
+ALTER TABLE interview_results
+ADD COLUMN IF NOT EXISTS scoring_version TEXT;
+
+UPDATE interview_results
+SET scoring_version = 'v1'
+WHERE scoring_version IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_interview_results_scoring_version
+ON interview_results(scoring_version);
+
+COMMENT ON COLUMN interview_results.scoring_version IS '채점 방식 버전 (lib/scoring/evaluation의 SCORING_VERSION)';
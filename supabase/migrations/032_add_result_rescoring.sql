@@ -0,0 +1,196 @@
+-- ============================================
+-- Migration: Bulk Re-scoring
+-- ============================================
+-- 루브릭(가중치, 역량 매핑, 프롬프트)이 바뀌면 이전 결과와 새 결과의 점수를 비교할 수 없음
+-- 관리자가 선택한 결과를 저장된 메시지로 다시 채점해 원본 옆에 버전별로 저장 (원본은 수정하지 않음)
+-- 재채점 작업은 결과 목록과 진행 위치(cursor)를 저장해 중단된 지점부터 이어서 실행
+-- get_score_trends에 채점 버전 선택(p_scoring_version) 추가
+
+-- ============================================
+-- 1. Re-scored result versions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS interview_result_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  result_id UUID REFERENCES interview_results(id) ON DELETE CASCADE NOT NULL,
+  session_id UUID REFERENCES interview_sessions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  scoring_version TEXT NOT NULL,
+  overall_score NUMERIC(5, 2) NOT NULL,
+  pass_status pass_status NOT NULL,
+  interviewer_scores JSONB NOT NULL,
+  interviewer_comments JSONB,
+  competency_scores JSONB NOT NULL,
+  category_scores JSONB,
+  feedback_summary TEXT NOT NULL,
+  strengths TEXT[] DEFAULT '{}',
+  improvements TEXT[] DEFAULT '{}',
+  provider TEXT,
+  model TEXT,
+  job_id UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (result_id, scoring_version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_result_versions_user ON interview_result_versions(user_id, scoring_version);
+CREATE INDEX IF NOT EXISTS idx_result_versions_job ON interview_result_versions(job_id);
+
+ALTER TABLE interview_result_versions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the service role (admin re-scoring job)
+CREATE POLICY "Users can view own result versions"
+  ON interview_result_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE interview_result_versions IS
+'Results re-scored with a later scoring version, next to the original interview_results row';
+
+-- ============================================
+-- 2. Re-scoring jobs
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS rescore_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  scoring_version TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'completed')),
+  selection JSONB NOT NULL DEFAULT '{}'::JSONB,
+  result_ids UUID[] NOT NULL,
+  cursor INT NOT NULL DEFAULT 0,
+  rescored INT NOT NULL DEFAULT 0,
+  failures JSONB NOT NULL DEFAULT '[]'::JSONB,
+  provider TEXT,
+  model TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+ALTER TABLE interview_result_versions
+ADD CONSTRAINT interview_result_versions_job_id_fkey
+FOREIGN KEY (job_id) REFERENCES rescore_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rescore_jobs_created ON rescore_jobs(created_at DESC);
+
+ALTER TABLE rescore_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Only service role can read or write (admin API)
+-- No policies for regular users
+
+COMMENT ON TABLE rescore_jobs IS
+'Admin bulk re-scoring jobs: selected results, cursor into result_ids, re-scored count and per-result failures';
+
+-- ============================================
+-- 3. Batch progress
+-- ============================================
+-- A batch claims its results by moving the cursor (conditional update in
+-- lib/scoring/rescore); its outcome is added here in one statement so concurrent
+-- batches don't overwrite each other's counts. The job completes once every
+-- selected result has been re-scored or has failed; status is otherwise left
+-- alone, so a pause during a batch sticks. Called with the service role.
+
+CREATE OR REPLACE FUNCTION record_rescore_batch(
+  p_job_id UUID,
+  p_rescored INT,
+  p_failures JSONB
+)
+RETURNS rescore_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  job rescore_jobs;
+BEGIN
+  UPDATE rescore_jobs
+  SET rescored = rescored + p_rescored,
+      failures = failures || p_failures,
+      updated_at = NOW()
+  WHERE id = p_job_id
+  RETURNING * INTO job;
+
+  IF job.rescored + jsonb_array_length(job.failures) >= COALESCE(array_length(job.result_ids, 1), 0) THEN
+    UPDATE rescore_jobs
+    SET status = 'completed',
+        completed_at = NOW()
+    WHERE id = p_job_id
+    RETURNING * INTO job;
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+-- ============================================
+-- 4. Score trends for a scoring version
+-- ============================================
+-- p_scoring_version NULL: the scores as originally saved (previous behaviour)
+-- Otherwise each result counts with its re-scored version, or its original
+-- scores when it was scored at that version; results never scored at it are left out
+
+DROP FUNCTION IF EXISTS get_score_trends(UUID, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION get_score_trends(
+  p_user_id UUID,
+  p_days INT DEFAULT 30,
+  p_job_type TEXT DEFAULT NULL,
+  p_scoring_version TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  date DATE,
+  avg_score NUMERIC(5,2),
+  min_score NUMERIC(5,2),
+  max_score NUMERIC(5,2),
+  interview_count INT,
+  avg_competency_behavioral NUMERIC(5,2),
+  avg_competency_clarity NUMERIC(5,2),
+  avg_competency_comprehension NUMERIC(5,2),
+  avg_competency_communication NUMERIC(5,2),
+  avg_competency_reasoning NUMERIC(5,2),
+  avg_competency_problem_solving NUMERIC(5,2),
+  avg_competency_leadership NUMERIC(5,2),
+  avg_competency_adaptability NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH scored AS (
+    SELECT
+      r.created_at,
+      COALESCE(v.overall_score, r.overall_score) AS overall_score,
+      COALESCE(v.competency_scores, r.competency_scores) AS competency_scores
+    FROM interview_results r
+    JOIN interview_sessions s ON r.session_id = s.id
+    LEFT JOIN interview_result_versions v
+      ON v.result_id = r.id AND v.scoring_version = p_scoring_version
+    WHERE r.user_id = p_user_id
+      AND r.created_at >= CURRENT_DATE - p_days
+      AND (p_job_type IS NULL OR s.job_type = p_job_type)
+      AND (p_scoring_version IS NULL OR v.id IS NOT NULL OR r.scoring_version = p_scoring_version)
+  )
+  SELECT
+    DATE(sc.created_at) AS date,
+    ROUND(AVG(sc.overall_score), 2) AS avg_score,
+    MIN(sc.overall_score) AS min_score,
+    MAX(sc.overall_score) AS max_score,
+    COUNT(*)::INT AS interview_count,
+    ROUND(AVG((sc.competency_scores->>'behavioral')::NUMERIC), 2),
+    ROUND(AVG((sc.competency_scores->>'clarity')::NUMERIC), 2),
+    ROUND(AVG((sc.competency_scores->>'comprehension')::NUMERIC), 2),
+    ROUND(AVG((sc.competency_scores->>'communication')::NUMERIC), 2),
+    ROUND(AVG((sc.competency_scores->>'reasoning')::NUMERIC), 2),
+    ROUND(AVG((sc.competency_scores->>'problem_solving')::NUMERIC), 2),
+    ROUND(AVG((sc.competency_scores->>'leadership')::NUMERIC), 2),
+    ROUND(AVG((sc.competency_scores->>'adaptability')::NUMERIC), 2)
+  FROM scored sc
+  GROUP BY DATE(sc.created_at)
+  ORDER BY date ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_score_trends(UUID, INT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION get_score_trends IS 'Returns daily score trends with competency breakdown for the original or a chosen scoring version';
@@ -0,0 +1,15 @@
+-- ============================================
+-- Migration: Re-scored Result Reports
+-- ============================================
+-- 재채점도 면접 종료 시와 같은 최종 평가(모드별 자료, 앙상블, 이력서 항목 판정)를 실행
+-- 재채점 버전에 이력서 항목별 검증 결과와 앙상블 리포트를 함께 저장
+
+ALTER TABLE interview_result_versions
+ADD COLUMN IF NOT EXISTS claim_verification JSONB,
+ADD COLUMN IF NOT EXISTS evaluation_ensemble JSONB;
+
+COMMENT ON COLUMN interview_result_versions.claim_verification IS
+'Per-claim verification report of the re-scored evaluation (resume deep-dive only), as interview_results.claim_verification';
+
+COMMENT ON COLUMN interview_result_versions.evaluation_ensemble IS
+'Ensemble report of the re-scored evaluation, as interview_results.evaluation_ensemble. NULL for single evaluations';
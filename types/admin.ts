@@ -3,6 +3,7 @@
 // ============================================
 
 import { Json } from "./database";
+import type { CalibrationReport } from "@/lib/calibration/runner";
 
 /**
  * Admin 권한을 가진 유저 타입
@@ -141,3 +142,24 @@ export interface PaginatedResponse<T> {
   limit: number;
   totalPages: number;
 }
+
+/**
+ * 루브릭 캘리브레이션 실행 기록 (calibration_runs)
+ */
+export interface CalibrationRun {
+  id: string;
+  prompt_version: string;
+  provider: string;
+  model: string;
+  transcripts: number;
+  mae: number;
+  pass_accuracy: number;
+  report: CalibrationReport;
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * 채점 버전 일괄 재채점 작업 (rescore_jobs)
+ */
+export type { RescoreJob, RescoreSelection } from "@/lib/scoring/rescore";
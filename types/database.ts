@@ -51,10 +51,11 @@ export interface Database {
           job_type: string;
           industry: string | null;
           difficulty: 'easy' | 'medium' | 'hard';
+          interview_mode: 'standard' | 'coding' | 'system_design' | 'case' | 'presentation' | 'pressure' | 'group_discussion' | 'resume_deep_dive';
           resume_doc_id: string | null;
           portfolio_doc_id: string | null;
           company_doc_ids: string[] | null;
-          status: 'waiting' | 'active' | 'paused' | 'completed';
+          status: 'waiting' | 'active' | 'paused' | 'completed' | 'abandoned';
           turn_count: number;
           max_turns: number;
           timer_config: Json;
@@ -68,10 +69,11 @@ export interface Database {
           job_type: string;
           industry?: string | null;
           difficulty: 'easy' | 'medium' | 'hard';
+          interview_mode?: 'standard' | 'coding' | 'system_design' | 'case' | 'presentation' | 'pressure' | 'group_discussion' | 'resume_deep_dive';
           resume_doc_id?: string | null;
           portfolio_doc_id?: string | null;
           company_doc_ids?: string[] | null;
-          status?: 'waiting' | 'active' | 'paused' | 'completed';
+          status?: 'waiting' | 'active' | 'paused' | 'completed' | 'abandoned';
           turn_count?: number;
           max_turns?: number;
           timer_config?: Json;
@@ -86,7 +88,7 @@ export interface Database {
           resume_doc_id?: string | null;
           portfolio_doc_id?: string | null;
           company_doc_ids?: string[] | null;
-          status?: 'waiting' | 'active' | 'paused' | 'completed';
+          status?: 'waiting' | 'active' | 'paused' | 'completed' | 'abandoned';
           turn_count?: number;
           current_interviewer_id?: string | null;
           updated_at?: string;
@@ -102,6 +104,14 @@ export interface Database {
           structured_response: Json | null;
           audio_url: string | null;
           latency_ms: number | null;
+          interrupted_at_char: number | null;
+          interrupted_at: string | null;
+          voice_features: Json | null;
+          code_submission: Json | null;
+          design_diagram: Json | null;
+          case_state: Json | null;
+          resume_claim_id: string | null;
+          plan_topic_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -113,12 +123,28 @@ export interface Database {
           structured_response?: Json | null;
           audio_url?: string | null;
           latency_ms?: number | null;
+          interrupted_at_char?: number | null;
+          interrupted_at?: string | null;
+          voice_features?: Json | null;
+          code_submission?: Json | null;
+          design_diagram?: Json | null;
+          case_state?: Json | null;
+          resume_claim_id?: string | null;
+          plan_topic_id?: string | null;
           created_at?: string;
         };
         Update: {
           content?: string;
           structured_response?: Json | null;
           audio_url?: string | null;
+          interrupted_at_char?: number | null;
+          interrupted_at?: string | null;
+          voice_features?: Json | null;
+          code_submission?: Json | null;
+          design_diagram?: Json | null;
+          case_state?: Json | null;
+          resume_claim_id?: string | null;
+          plan_topic_id?: string | null;
         };
       };
       documents: {
@@ -214,6 +240,15 @@ export interface Database {
           filler_words: Json;
           silence_patterns: Json;
           articulation_score: number;
+          pitch_mean_hz: number | null;
+          pitch_variability_st: number | null;
+          loudness_mean_db: number | null;
+          loudness_variability_db: number | null;
+          jitter_percent: number | null;
+          shimmer_percent: number | null;
+          pitch_contour: Json | null;
+          pitch_variation_score: number | null;
+          vocal_stability_score: number | null;
           created_at: string;
         };
         Insert: {
@@ -223,6 +258,15 @@ export interface Database {
           filler_words: Json;
           silence_patterns: Json;
           articulation_score: number;
+          pitch_mean_hz?: number | null;
+          pitch_variability_st?: number | null;
+          loudness_mean_db?: number | null;
+          loudness_variability_db?: number | null;
+          jitter_percent?: number | null;
+          shimmer_percent?: number | null;
+          pitch_contour?: Json | null;
+          pitch_variation_score?: number | null;
+          vocal_stability_score?: number | null;
           created_at?: string;
         };
         Update: {
@@ -230,6 +274,15 @@ export interface Database {
           filler_words?: Json;
           silence_patterns?: Json;
           articulation_score?: number;
+          pitch_mean_hz?: number | null;
+          pitch_variability_st?: number | null;
+          loudness_mean_db?: number | null;
+          loudness_variability_db?: number | null;
+          jitter_percent?: number | null;
+          shimmer_percent?: number | null;
+          pitch_contour?: Json | null;
+          pitch_variation_score?: number | null;
+          vocal_stability_score?: number | null;
         };
       };
       questions: {
@@ -502,7 +555,7 @@ export interface Database {
     };
     Enums: {
       difficulty_level: 'easy' | 'medium' | 'hard';
-      session_status: 'waiting' | 'active' | 'paused' | 'completed';
+      session_status: 'waiting' | 'active' | 'paused' | 'completed' | 'abandoned';
       message_role: 'user' | 'interviewer' | 'system';
       document_type: 'resume' | 'company' | 'job_description' | 'portfolio';
       pass_status: 'pass' | 'borderline' | 'fail';
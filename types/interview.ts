@@ -9,9 +9,10 @@ export interface InterviewSession {
   job_type: string;
   industry: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  interview_mode: InterviewMode;
   resume_doc_id?: string;
   company_doc_ids?: string[];
-  status: 'waiting' | 'active' | 'paused' | 'completed';
+  status: 'waiting' | 'active' | 'paused' | 'completed' | 'abandoned';
   turn_count: number;
   max_turns: number;
   timer_config: AnswerTimerConfig;
@@ -20,6 +21,13 @@ export interface InterviewSession {
   updated_at: string;
 }
 
+// Interview Mode (session type)
+export type InterviewMode = 'standard' | 'coding' | 'system_design' | 'case' | 'presentation' | 'pressure' | 'group_discussion' | 'resume_deep_dive';
+
+// Interview language (stored in timer_config.language; Korean when absent)
+// 'mixed': Korean-English bilingual, for candidates applying to foreign companies
+export type InterviewLanguage = 'ko' | 'en' | 'mixed';
+
 // Answer Timer Configuration
 export interface AnswerTimerConfig {
   default_time_limit: number;   // seconds (default: 120)
@@ -27,6 +35,13 @@ export interface AnswerTimerConfig {
   auto_submit_on_timeout: boolean;
 }
 
+// Pressure interview: half the default answer time, submitted when it runs out
+export const PRESSURE_TIMER_CONFIG: AnswerTimerConfig = {
+  default_time_limit: 60,
+  warning_threshold: 15,
+  auto_submit_on_timeout: true,
+};
+
 // Interviewer Persona
 export type InterviewerType = 'hiring_manager' | 'hr_manager' | 'senior_peer';
 
@@ -125,6 +140,42 @@ export const ROLE_SPECIFIC_TRAITS: Record<InterviewerType, RoleSpecificTraits> =
   },
 };
 
+// English follow-up patterns (English and bilingual interviews)
+export const ENGLISH_FOLLOW_UP_PATTERNS: Record<InterviewerType, string[]> = {
+  hiring_manager: [
+    'What made you choose that approach specifically?',
+    'Did you consider any alternatives? Why was that the best option?',
+    'Can you put a number on that impact?',
+    'Which part did you personally build?',
+    'What do you see as the trade-offs of that technology?',
+  ],
+  hr_manager: [
+    'How did the other person see it? Were they happy with the outcome?',
+    'How did your teammates react?',
+    'How has that experience helped you since?',
+    'Could you give me a more specific example?',
+    'Looking back, what would you do differently?',
+  ],
+  senior_peer: [
+    "Oh, I've used that too. How did you handle that part?",
+    'Interesting! How did you actually implement it?',
+    'I ran into something similar once. How did you end up solving it?',
+    'That space is moving fast. Have you looked into related tools?',
+    "I'd love to hear more. Could you walk me through it?",
+  ],
+};
+
+// Conversation language rule appended to the interviewer prompt
+const LANGUAGE_INSTRUCTIONS: Record<InterviewLanguage, string> = {
+  ko: '- 한국어로 자연스럽게 대화하세요',
+  en: '- Conduct the entire interview in natural, professional English. Every question must be in English, even though these instructions are written in Korean.',
+  mixed: '- 한국어와 영어를 섞어 진행하세요. 질문의 절반 정도는 영어로 하고, 지원자가 답한 언어로 꼬리질문을 이어가세요. 기술 용어는 영어 그대로 사용하세요.',
+};
+
+export function getLanguageInstruction(language: InterviewLanguage = 'ko'): string {
+  return LANGUAGE_INSTRUCTIONS[language];
+}
+
 // Base interviewer config (without dynamic fields like MBTI and industry-specific prompts)
 export const INTERVIEWER_BASE: Record<InterviewerType, InterviewerBase> = {
   hiring_manager: {
@@ -168,13 +219,19 @@ export function buildInterviewerSystemPrompt(
   mbti: MBTIType,
   industry: string,
   jobType: string,
-  interviewerName?: string
+  interviewerName?: string,
+  language: InterviewLanguage = 'ko'
 ): string {
   const base = INTERVIEWER_BASE[interviewerType];
   const traits = ROLE_SPECIFIC_TRAITS[interviewerType];
   const mbtiTraits = MBTI_TRAITS[mbti];
 
   const name = interviewerName || base.name;
+  const followUpPatterns = language === 'en'
+    ? ENGLISH_FOLLOW_UP_PATTERNS[interviewerType]
+    : language === 'mixed'
+      ? [...traits.follow_up_patterns, ...ENGLISH_FOLLOW_UP_PATTERNS[interviewerType]]
+      : traits.follow_up_patterns;
 
   return `당신은 {{industry}} 분야 {{job_type}} 채용 면접의 {{role}} '{{name}}'입니다.
 성격 유형: {{mbti}} - {{mbti_style}}
@@ -199,7 +256,7 @@ export function buildInterviewerSystemPrompt(
 - 산업({{industry}})과 직무({{job_type}})에 맞는 전문 용어와 상황을 활용하세요
 - {{role}}로서의 고유한 관점을 유지하세요
 - 1-2문장의 간결한 질문을 하세요
-- 한국어로 자연스럽게 대화하세요`
+{{language_instruction}}`
     .replace(/\{\{industry\}\}/g, industry)
     .replace(/\{\{job_type\}\}/g, jobType)
     .replace(/\{\{role\}\}/g, base.role)
@@ -210,7 +267,8 @@ export function buildInterviewerSystemPrompt(
     .replace(/\{\{core_responsibility\}\}/g, traits.core_responsibility)
     .replace(/\{\{unique_perspective\}\}/g, traits.unique_perspective)
     .replace(/\{\{question_style\}\}/g, traits.question_style)
-    .replace(/\{\{follow_up_patterns\}\}/g, traits.follow_up_patterns.map(p => `- ${p}`).join('\n'))
+    .replace(/\{\{follow_up_patterns\}\}/g, followUpPatterns.map(p => `- ${p}`).join('\n'))
+    .replace(/\{\{language_instruction\}\}/g, getLanguageInstruction(language))
     .replace(/\{\{evaluation_focus\}\}/g, traits.evaluation_focus.map(f => `- ${f}`).join('\n'));
 }
 
@@ -268,7 +326,8 @@ export interface SessionInterviewer extends InterviewerBase {
 export function createSessionInterviewers(
   industry: string,
   jobType: string,
-  names?: SessionInterviewerNames
+  names?: SessionInterviewerNames,
+  language: InterviewLanguage = 'ko'
 ): Record<InterviewerType, SessionInterviewer> {
   const result: Record<InterviewerType, SessionInterviewer> = {} as Record<InterviewerType, SessionInterviewer>;
   const assignedNames = names || generateSessionInterviewerNames();
@@ -281,7 +340,7 @@ export function createSessionInterviewers(
     result[type] = {
       ...base,
       personality: mbti,
-      system_prompt: buildInterviewerSystemPrompt(type, mbti, industry, jobType, assignedName),
+      system_prompt: buildInterviewerSystemPrompt(type, mbti, industry, jobType, assignedName, language),
       assignedName,
     };
   }
@@ -324,6 +383,10 @@ export interface Message {
   audio_url?: string;
   timestamp: string;
   latency_ms?: number;
+  interrupted_at_char?: number; // Candidate barged in after this many characters
+  code_submission?: CodeSubmission; // Coding mode: editor state sent with the answer
+  design_diagram?: DesignDiagram; // System design mode: whiteboard state sent with the answer
+  case_state?: CaseState; // Case mode: framework and revealed exhibits after this answer
 }
 
 export interface StructuredResponse {
@@ -338,6 +401,266 @@ export interface StructuredResponse {
   suggested_follow_up?: string;
 }
 
+// ============================================
+// Coding Interview
+// ============================================
+
+export type CodeLanguage = 'javascript';
+
+// Only hiring_manager and senior_peer run the coding round
+export const CODING_INTERVIEWERS: InterviewerType[] = ['hiring_manager', 'senior_peer'];
+
+// One editor change: text[from, to) of the previous source was replaced by `text`
+export interface CodeEditEvent {
+  at: number;    // ms since the problem was shown
+  from: number;
+  to: number;
+  text: string;
+}
+
+export interface CodeTestCaseResult {
+  name: string;
+  passed: boolean;
+  hidden: boolean;
+  duration_ms: number;
+  error?: string;
+  // Examples only: hidden tests never reveal their data
+  input?: unknown[];
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface CodeRunResult {
+  passed: number;
+  total: number;
+  cases: CodeTestCaseResult[];
+  logs: string[];
+  error?: string;       // Syntax error, missing function, runner timeout
+  timed_out: boolean;
+}
+
+// Stored on the user message (messages.code_submission)
+export interface CodeSubmission {
+  problem_id: string;
+  language: CodeLanguage;
+  source: string;
+  edit_history: CodeEditEvent[];
+  hidden_tests?: { passed: number; total: number; failed: string[]; error?: string };
+}
+
+// ============================================
+// System Design Interview
+// ============================================
+
+// senior_peer leads the design round (bottlenecks), hiring_manager covers scope and trade-offs
+export const DESIGN_INTERVIEWERS: InterviewerType[] = ['senior_peer', 'hiring_manager'];
+
+export type DesignNodeKind =
+  | 'client'
+  | 'load_balancer'
+  | 'service'
+  | 'cache'
+  | 'queue'
+  | 'database'
+  | 'storage'
+  | 'cdn'
+  | 'external';
+
+export interface DesignNode {
+  id: string;
+  kind: DesignNodeKind;
+  label: string;
+  notes?: string;       // e.g. "샤딩: user_id 기준", "TTL 1h"
+}
+
+// Directed arrow: request / data flow from → to
+export interface DesignEdge {
+  id: string;
+  from: string;         // DesignNode.id
+  to: string;
+  label?: string;       // e.g. "REST", "비동기 이벤트", "읽기 전용 복제"
+}
+
+// Stored on the user message (messages.design_diagram)
+export interface DesignDiagram {
+  problem_id: string;
+  nodes: DesignNode[];
+  edges: DesignEdge[];
+}
+
+// ============================================
+// Case Interview
+// ============================================
+
+// hiring_manager runs the case, senior_peer challenges the numbers
+export const CASE_INTERVIEWERS: InterviewerType[] = ['hiring_manager', 'senior_peer'];
+
+// Data shown in the UI: a table, or a bar chart of [label, value] rows
+export interface CaseExhibit {
+  id: string;
+  title: string;
+  kind: 'table' | 'bar';
+  columns: string[];
+  rows: (string | number)[][];
+  unit?: string;        // Bar values, e.g. "억 원", "%"
+  note?: string;
+}
+
+export interface CaseFrameworkBranch {
+  name: string;         // e.g. "신규 고객 유입", "기존 고객 이탈"
+  status: 'proposed' | 'explored' | 'concluded';
+  findings?: string;    // What the candidate concluded on this branch
+}
+
+// Stored on the user message (messages.case_state): state after that answer
+export interface CaseState {
+  case_id: string;
+  framework: CaseFrameworkBranch[];
+  revealed_exhibit_ids: string[];   // On-request exhibits handed out so far
+}
+
+// ============================================
+// Presentation (PT) Interview
+// ============================================
+
+// Presentation length the candidate can choose (minutes)
+export const PRESENTATION_DURATIONS = [5, 10, 15] as const;
+export type PresentationMinutes = typeof PRESENTATION_DURATIONS[number];
+
+export interface PresentationSlide {
+  page: number;
+  text: string;
+}
+
+// Parsed slide deck, stored in session metadata (timer_config.presentation)
+export interface PresentationDeck {
+  filename: string;
+  slides: PresentationSlide[];
+  parse_method: 'llamaparse' | 'basic' | 'fallback';
+}
+
+export interface PresentationConfig {
+  deck: PresentationDeck;
+  minutes: PresentationMinutes;
+}
+
+// ============================================
+// Group Discussion Interview
+// ============================================
+
+// hr_manager moderates the debate; the rest of the panel only observes
+export const DISCUSSION_MODERATOR: InterviewerType = 'hr_manager';
+
+// Simulated co-candidates share the floor with the candidate
+export const CO_CANDIDATE_IDS = ['candidate_a', 'candidate_b', 'candidate_c'] as const;
+export type CoCandidateId = typeof CO_CANDIDATE_IDS[number];
+
+// Anyone besides the candidate who can hold the floor (messages.interviewer_id)
+export type DiscussionSpeakerId = InterviewerType | CoCandidateId;
+
+export function isCoCandidateId(value: unknown): value is CoCandidateId {
+  return CO_CANDIDATE_IDS.includes(value as CoCandidateId);
+}
+
+export interface DiscussionParticipant {
+  id: CoCandidateId;
+  name: string;
+  stance: string;       // One of the topic's stances
+  mbti: MBTIType;       // Debating style
+  emoji: string;
+}
+
+// Stored in session metadata (timer_config.discussion)
+export interface DiscussionConfig {
+  topic_id: string;
+  candidate_stance: string;
+  participants: DiscussionParticipant[];
+}
+
+// ============================================
+// Resume Deep-Dive Interview
+// ============================================
+
+export type ResumeClaimType = 'project' | 'achievement' | 'skill';
+
+// One verifiable statement from the resume (a project, a measured result, a skill)
+export interface ResumeClaim {
+  id: string;             // claim_1, claim_2, ... in interview order
+  type: ResumeClaimType;
+  claim: string;          // Short restatement
+  source: string;         // The resume line it came from
+}
+
+// Stored in session metadata (timer_config.resume_plan), extracted once at start
+export interface ResumePlan {
+  claims: ResumeClaim[];
+}
+
+export type ResumeClaimStatus =
+  | 'pending'            // Not asked yet
+  | 'probing'            // Asked, answers still vague
+  | 'verified'           // Substantiated with specifics
+  | 'unsubstantiated';   // Follow-ups ran out without specifics
+
+export interface ResumeClaimCoverage {
+  claim_id: string;
+  questions: number;
+  answers: number;
+  best_specificity: number;   // 0-100, most specific answer on this claim
+  status: ResumeClaimStatus;
+}
+
+// ============================================
+// Interview Plan (standard / pressure interviews)
+// ============================================
+
+export type InterviewPlanTopicSource = 'jd' | 'resume' | 'question_bank' | 'core';
+
+// One agenda item: what to find out, who asks, how deep and for how long
+export interface InterviewPlanTopic {
+  id: string;                   // topic_1, topic_2, ... in interview order
+  title: string;                // Shown on the result page
+  goal: string;                 // What the interviewer should find out
+  interviewer: InterviewerType; // Owns the topic (opening question and follow-ups)
+  target_depth: number;         // Follow-ups after the opening question (0-2)
+  minutes: number;              // Time budget
+  source: InterviewPlanTopicSource;
+  seed_question?: string;       // Suggested opening question (e.g. from the question bank)
+}
+
+// Stored in session metadata (timer_config.interview_plan), generated once at start
+export interface InterviewPlan {
+  topics: InterviewPlanTopic[];
+  total_minutes: number;
+}
+
+export type InterviewPlanTopicStatus =
+  | 'pending'    // Not asked yet
+  | 'active'     // Asked, follow-ups and time left
+  | 'covered';   // Target depth or time budget reached
+
+export interface InterviewPlanProgress {
+  topic_id: string;
+  questions: number;
+  answers: number;
+  seconds: number;              // Time spent on the topic (question to answer)
+  status: InterviewPlanTopicStatus;
+}
+
+// ============================================
+// Session Pause / Recovery
+// ============================================
+
+// Client timers saved with the session (timer_config.clock) on pause, resume and after each turn,
+// so a reopened session continues from where it stopped
+export interface SessionClock {
+  time_limit: number;                   // Session length in seconds (PT time included)
+  remaining_seconds: number;            // Session timer
+  answer_seconds_left?: number;         // Pressure answer countdown, while an answer was being recorded
+  presentation_seconds_left?: number;   // PT countdown, while the presentation is not done
+  saved_at: string;
+}
+
 // RAG Document
 export type DocumentType = 'resume' | 'company' | 'job_description' | 'portfolio';
 
@@ -355,6 +678,39 @@ export interface Document {
 // Interview Question (from PDF question bank)
 export type JobCategory = 'frontend' | 'backend' | 'pm' | 'data' | 'marketing';
 
+// Map job_categories (26개) to JobCategory (5개 기출문제 카테고리)
+// legal, finance는 별도 카테고리로 기출문제 없음 → 매핑 제외
+export const QUESTION_BANK_CATEGORIES: Partial<Record<string, JobCategory>> = {
+  // Frontend 계열
+  'frontend': 'frontend',
+  'fullstack': 'frontend',
+  'mobile': 'frontend',
+  'embedded': 'frontend',
+  'ui_designer': 'frontend',
+  'ux_designer': 'frontend',
+  // Backend 계열
+  'backend': 'backend',
+  'devops': 'backend',
+  'security': 'backend',
+  'qa': 'backend',
+  // PM 계열
+  'pm': 'pm',
+  'po': 'pm',
+  'business_dev': 'pm',
+  'customer_success': 'pm',
+  // Data 계열
+  'data_scientist': 'data',
+  'data_analyst': 'data',
+  'data_engineer': 'data',
+  'ml_engineer': 'data',
+  'ai_researcher': 'data',
+  // Marketing 계열
+  'growth_marketer': 'marketing',
+  'content_marketer': 'marketing',
+  'sales': 'marketing',
+  // 별도 카테고리 (기출문제 없음): legal, finance, hr
+};
+
 export interface InterviewQuestion {
   id: string;
   job_category: JobCategory;
@@ -429,10 +785,12 @@ export interface EmotionAnalysis {
 }
 
 export interface EmotionTimelineEntry {
-  timestamp: number;
+  timestamp: number;       // 면접 시작 후 경과 시간 (초)
   confidence: number;      // 자신감 (0-100)
   nervousness: number;     // 긴장도 (0-100)
   enthusiasm: number;      // 열정 (0-100)
+  message_id?: string;     // 해당 답변 메시지
+  source?: 'text' | 'voice'; // voice = 음성 특징까지 반영
 }
 
 export interface EmotionScores {
@@ -504,6 +862,7 @@ export interface StartInterviewRequest {
   job_type: string;
   industry?: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  interview_mode?: InterviewMode;
   resume_doc_id?: string;
   timer_config?: Partial<AnswerTimerConfig>;
 }
@@ -518,6 +877,8 @@ export interface SendMessageRequest {
   session_id: string;
   content: string;
   audio_url?: string;
+  code_submission?: Omit<CodeSubmission, 'hidden_tests'>;
+  design_diagram?: DesignDiagram;
 }
 
 export interface SendMessageResponse {
@@ -621,3 +982,65 @@ export const DIFFICULTY_LEVELS = [
   { value: 'medium', label: '중급', description: '실무 경험 기반 질문' },
   { value: 'hard', label: '고급', description: '심층 기술 면접' },
 ] as const;
+
+export const INTERVIEW_MODES = [
+  { value: 'standard', label: '일반 면접', description: '경험과 역량을 묻는 대화형 면접' },
+  { value: 'coding', label: '코딩 면접', description: '에디터로 문제를 풀며 설명하는 라이브 코딩' },
+  { value: 'system_design', label: '시스템 설계', description: '다이어그램으로 아키텍처를 설계하고 병목을 검증' },
+  { value: 'case', label: '케이스 면접', description: '비즈니스 상황을 구조화하고 데이터로 결론 도출' },
+  { value: 'presentation', label: 'PT 면접', description: '발표 자료로 발표한 뒤 면접관 3명과 질의응답' },
+  { value: 'pressure', label: '압박 면접', description: '말을 끊고 주장을 반박하는 면접관, 답변 60초 제한' },
+  { value: 'group_discussion', label: '토론 면접', description: '입장이 정해진 AI 지원자들과 사회자 진행으로 토론' },
+  { value: 'resume_deep_dive', label: '이력서 검증 면접', description: '이력서의 프로젝트·성과·기술을 하나씩 꼬리질문으로 검증' },
+] as const;
+
+export const INTERVIEW_LANGUAGES = [
+  { value: 'ko', label: '한국어', description: '한국어로 진행' },
+  { value: 'en', label: 'English', description: '영어로 진행, 영문 리포트 제공' },
+  { value: 'mixed', label: '한/영 혼합', description: '한국어와 영어 질문을 섞어 진행' },
+] as const;
+
+export function isInterviewLanguage(value: unknown): value is InterviewLanguage {
+  return INTERVIEW_LANGUAGES.some((language) => language.value === value);
+}
+
+// Job categories that can choose the coding round (job_categories.code)
+export const CODING_JOB_TYPES = [
+  'frontend', 'backend', 'fullstack', 'mobile', 'devops', 'embedded', 'security', 'qa',
+  'data', 'data_engineer', 'data_scientist', 'ml', 'ml_engineer', 'ai_researcher',
+];
+
+export function isCodingJobType(jobType: string): boolean {
+  return CODING_JOB_TYPES.includes(jobType);
+}
+
+// Job categories that can choose the system design round
+export const DESIGN_JOB_TYPES = ['backend', 'devops', 'fullstack', 'data_engineer'];
+
+export function isDesignJobType(jobType: string): boolean {
+  return DESIGN_JOB_TYPES.includes(jobType);
+}
+
+// Job categories that can choose the case round (PM / business roles)
+export const CASE_JOB_TYPES = ['pm', 'po', 'business_dev', 'data_analyst', 'growth_marketer'];
+
+export function isCaseJobType(jobType: string): boolean {
+  return CASE_JOB_TYPES.includes(jobType);
+}
+
+/**
+ * Whether a job category can choose the interview mode (standard, PT, pressure, group discussion and
+ * resume deep-dive are always available; the resume deep-dive also needs an uploaded resume)
+ */
+export function isInterviewModeAvailable(mode: InterviewMode, jobType: string): boolean {
+  switch (mode) {
+    case 'coding':
+      return isCodingJobType(jobType);
+    case 'system_design':
+      return isDesignJobType(jobType);
+    case 'case':
+      return isCaseJobType(jobType);
+    default:
+      return true;
+  }
+}
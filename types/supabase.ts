@@ -327,6 +327,7 @@ export type Database = {
           difficulty: Database["public"]["Enums"]["difficulty_level"]
           id: string
           industry: string | null
+          interview_mode: string
           job_type: string
           max_turns: number
           portfolio_doc_id: string | null
@@ -344,6 +345,7 @@ export type Database = {
           difficulty?: Database["public"]["Enums"]["difficulty_level"]
           id?: string
           industry?: string | null
+          interview_mode?: string
           job_type: string
           max_turns?: number
           portfolio_doc_id?: string | null
@@ -361,6 +363,7 @@ export type Database = {
           difficulty?: Database["public"]["Enums"]["difficulty_level"]
           id?: string
           industry?: string | null
+          interview_mode?: string
           job_type?: string
           max_turns?: number
           portfolio_doc_id?: string | null
@@ -496,36 +499,54 @@ export type Database = {
       messages: {
         Row: {
           audio_url: string | null
+          case_state: Json | null
+          code_submission: Json | null
           content: string
           created_at: string | null
+          design_diagram: Json | null
           id: string
+          interrupted_at: string | null
+          interrupted_at_char: number | null
           interviewer_id: string | null
           latency_ms: number | null
           role: Database["public"]["Enums"]["message_role"]
           session_id: string
           structured_response: Json | null
+          voice_features: Json | null
         }
         Insert: {
           audio_url?: string | null
+          case_state?: Json | null
+          code_submission?: Json | null
           content: string
           created_at?: string | null
+          design_diagram?: Json | null
           id?: string
+          interrupted_at?: string | null
+          interrupted_at_char?: number | null
           interviewer_id?: string | null
           latency_ms?: number | null
           role: Database["public"]["Enums"]["message_role"]
           session_id: string
           structured_response?: Json | null
+          voice_features?: Json | null
         }
         Update: {
           audio_url?: string | null
+          case_state?: Json | null
+          code_submission?: Json | null
           content?: string
           created_at?: string | null
+          design_diagram?: Json | null
           id?: string
+          interrupted_at?: string | null
+          interrupted_at_char?: number | null
           interviewer_id?: string | null
           latency_ms?: number | null
           role?: Database["public"]["Enums"]["message_role"]
           session_id?: string
           structured_response?: Json | null
+          voice_features?: Json | null
         }
         Relationships: [
           {
@@ -756,8 +777,17 @@ export type Database = {
           created_at: string | null
           filler_words: Json
           id: string
+          jitter_percent: number | null
+          loudness_mean_db: number | null
+          loudness_variability_db: number | null
+          pitch_contour: Json | null
+          pitch_mean_hz: number | null
+          pitch_variability_st: number | null
+          pitch_variation_score: number | null
           result_id: string
+          shimmer_percent: number | null
           silence_patterns: Json
+          vocal_stability_score: number | null
           words_per_minute: number
         }
         Insert: {
@@ -765,8 +795,17 @@ export type Database = {
           created_at?: string | null
           filler_words?: Json
           id?: string
+          jitter_percent?: number | null
+          loudness_mean_db?: number | null
+          loudness_variability_db?: number | null
+          pitch_contour?: Json | null
+          pitch_mean_hz?: number | null
+          pitch_variability_st?: number | null
+          pitch_variation_score?: number | null
           result_id: string
+          shimmer_percent?: number | null
           silence_patterns: Json
+          vocal_stability_score?: number | null
           words_per_minute: number
         }
         Update: {
@@ -774,8 +813,17 @@ export type Database = {
           created_at?: string | null
           filler_words?: Json
           id?: string
+          jitter_percent?: number | null
+          loudness_mean_db?: number | null
+          loudness_variability_db?: number | null
+          pitch_contour?: Json | null
+          pitch_mean_hz?: number | null
+          pitch_variability_st?: number | null
+          pitch_variation_score?: number | null
           result_id?: string
+          shimmer_percent?: number | null
           silence_patterns?: Json
+          vocal_stability_score?: number | null
           words_per_minute?: number
         }
         Relationships: [
@@ -1059,7 +1107,12 @@ export type Database = {
         }[]
       }
       get_score_trends: {
-        Args: { p_days?: number; p_job_type?: string; p_user_id: string }
+        Args: {
+          p_days?: number
+          p_job_type?: string
+          p_scoring_version?: string
+          p_user_id: string
+        }
         Returns: {
           avg_competency_adaptability: number
           avg_competency_behavioral: number
@@ -1167,7 +1220,7 @@ export type Database = {
         | "weakness"
       message_role: "user" | "interviewer" | "system"
       pass_status: "pass" | "borderline" | "fail"
-      session_status: "waiting" | "active" | "paused" | "completed"
+      session_status: "waiting" | "active" | "paused" | "completed" | "abandoned"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1310,7 +1363,7 @@ export const Constants = {
       ],
       message_role: ["user", "interviewer", "system"],
       pass_status: ["pass", "borderline", "fail"],
-      session_status: ["waiting", "active", "paused", "completed"],
+      session_status: ["waiting", "active", "paused", "completed", "abandoned"],
     },
   },
 } as const